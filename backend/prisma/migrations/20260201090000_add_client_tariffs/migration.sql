@@ -0,0 +1,41 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "destination" TEXT;
+ALTER TABLE "orders" ADD COLUMN "palletCount" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "orders" ADD COLUMN "boxCount" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN "category" TEXT;
+
+-- CreateTable
+CREATE TABLE "client_tariffs" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "clientId" TEXT,
+    "name" TEXT NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "validFrom" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "validTo" DATETIME,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "notes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "client_tariffs_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "client_tariff_rates" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "tariffId" TEXT NOT NULL,
+    "rateType" TEXT NOT NULL,
+    "productCategory" TEXT,
+    "destination" TEXT,
+    "unit" TEXT NOT NULL DEFAULT 'PIECE',
+    "price" DECIMAL NOT NULL,
+    "notes" TEXT,
+    CONSTRAINT "client_tariff_rates_tariffId_fkey" FOREIGN KEY ("tariffId") REFERENCES "client_tariffs" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "client_tariffs_clientId_idx" ON "client_tariffs"("clientId");
+
+-- CreateIndex
+CREATE INDEX "client_tariff_rates_tariffId_idx" ON "client_tariff_rates"("tariffId");
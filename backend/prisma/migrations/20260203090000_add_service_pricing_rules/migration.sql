@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "vendor_services" ADD COLUMN "pricingBasis" TEXT;
+ALTER TABLE "vendor_services" ADD COLUMN "destination" TEXT;
+ALTER TABLE "vendor_services" ADD COLUMN "productCategory" TEXT;
+ALTER TABLE "vendor_services" ADD COLUMN "autoApply" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "service_price_tiers" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "vendorServiceId" TEXT NOT NULL,
+    "fromQuantity" DECIMAL NOT NULL,
+    "price" DECIMAL,
+    "discountPercent" DECIMAL,
+    CONSTRAINT "service_price_tiers_vendorServiceId_fkey" FOREIGN KEY ("vendorServiceId") REFERENCES "vendor_services" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "service_price_tiers_vendorServiceId_idx" ON "service_price_tiers"("vendorServiceId");
+
+-- Migrate weight brackets previously encoded in shipping service names
+UPDATE "vendor_services" SET "pricingBasis" = 'WEIGHT', "maxQuantity" = 1
+    WHERE "type" = 'SHIPPING' AND "unit" = 'ORDER' AND "name" LIKE '%до 1кг%';
+UPDATE "vendor_services" SET "pricingBasis" = 'WEIGHT', "minQuantity" = 1, "maxQuantity" = 5
+    WHERE "type" = 'SHIPPING' AND "unit" = 'ORDER' AND "name" LIKE '%1-5кг%';
+UPDATE "vendor_services" SET "pricingBasis" = 'WEIGHT', "minQuantity" = 5, "maxQuantity" = 10
+    WHERE "type" = 'SHIPPING' AND "unit" = 'ORDER' AND "name" LIKE '%5-10кг%';
+-- Any other shipping service mentioning 10 was the bracket for orders over 10 kg
+UPDATE "vendor_services" SET "pricingBasis" = 'WEIGHT', "minQuantity" = 10, "maxQuantity" = NULL
+    WHERE "type" = 'SHIPPING' AND "unit" = 'ORDER' AND "name" LIKE '%10%' AND "pricingBasis" IS NULL;
+
+-- Delivery services imported from the MPSELL sheet are priced per destination
+UPDATE "vendor_services" SET "destination" = substr("name", length('Доставка палеты: ') + 1)
+    WHERE "type" = 'SHIPPING' AND "name" LIKE 'Доставка палеты: %';
+UPDATE "vendor_services" SET "destination" = substr("name", length('Доставка короба: ') + 1), "unit" = 'BOX'
+    WHERE "type" = 'SHIPPING' AND "name" LIKE 'Доставка короба: %';
+UPDATE "vendor_services" SET "productCategory" = substr("name", length('Фулфилмент: ') + 1)
+    WHERE "type" = 'PICKING' AND "name" LIKE 'Фулфилмент: %';
@@ -0,0 +1,55 @@
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN "clientId" TEXT REFERENCES "clients" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateTable
+CREATE TABLE "storage_billing_runs" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "runNumber" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "periodFrom" DATETIME NOT NULL,
+    "periodTo" DATETIME NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'POSTED',
+    "totalCost" DECIMAL NOT NULL DEFAULT 0,
+    "totalIncome" DECIMAL NOT NULL DEFAULT 0,
+    "createdById" TEXT,
+    "notes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "storage_billing_runs_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "vendors" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "storage_billing_lines" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "runId" TEXT NOT NULL,
+    "clientId" TEXT,
+    "storageLocationId" TEXT NOT NULL,
+    "orderId" TEXT,
+    "palletDays" DECIMAL NOT NULL DEFAULT 0,
+    "volumeDays" DECIMAL NOT NULL DEFAULT 0,
+    "daysOccupied" INTEGER NOT NULL DEFAULT 0,
+    "costAmount" DECIMAL NOT NULL DEFAULT 0,
+    "incomeAmount" DECIMAL NOT NULL DEFAULT 0,
+    CONSTRAINT "storage_billing_lines_runId_fkey" FOREIGN KEY ("runId") REFERENCES "storage_billing_runs" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "storage_billing_lines_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "storage_billing_lines_storageLocationId_fkey" FOREIGN KEY ("storageLocationId") REFERENCES "storage_locations" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "storage_billing_lines_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "products_clientId_idx" ON "products"("clientId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "storage_billing_runs_runNumber_key" ON "storage_billing_runs"("runNumber");
+
+-- CreateIndex
+CREATE INDEX "storage_billing_runs_vendorId_idx" ON "storage_billing_runs"("vendorId");
+
+-- CreateIndex
+CREATE INDEX "storage_billing_runs_periodFrom_idx" ON "storage_billing_runs"("periodFrom");
+
+-- CreateIndex
+CREATE INDEX "storage_billing_lines_runId_idx" ON "storage_billing_lines"("runId");
+
+-- CreateIndex
+CREATE INDEX "storage_billing_lines_clientId_idx" ON "storage_billing_lines"("clientId");
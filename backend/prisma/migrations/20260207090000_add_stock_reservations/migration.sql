@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN "productId" TEXT REFERENCES "products" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateTable
+CREATE TABLE "stock_reservations" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderId" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "productStockId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "stock_reservations_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "stock_reservations_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "order_items" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "stock_reservations_productStockId_fkey" FOREIGN KEY ("productStockId") REFERENCES "product_stocks" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "order_items_productId_idx" ON "order_items"("productId");
+
+-- CreateIndex
+CREATE INDEX "stock_reservations_orderId_idx" ON "stock_reservations"("orderId");
+
+-- CreateIndex
+CREATE INDEX "stock_reservations_productStockId_idx" ON "stock_reservations"("productStockId");
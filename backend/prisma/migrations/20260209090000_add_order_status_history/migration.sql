@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "order_status_history" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderId" TEXT NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT NOT NULL,
+    "changedById" TEXT,
+    "comment" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "order_status_history_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "order_status_history_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "order_status_history_orderId_idx" ON "order_status_history"("orderId");
+
+-- Backfill: current status of existing orders as the initial history entry
+INSERT INTO "order_status_history" ("id", "orderId", "fromStatus", "toStatus", "changedById", "comment", "createdAt")
+SELECT 'osh_' || "id", "id", NULL, "status", "managerId", 'Статус на момент включения истории', "createdAt"
+FROM "orders";
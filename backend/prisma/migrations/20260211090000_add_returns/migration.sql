@@ -0,0 +1,61 @@
+-- CreateTable
+CREATE TABLE "return_authorizations" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "rmaNumber" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "warehouseId" TEXT NOT NULL,
+    "taskId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'RECEIVING',
+    "reason" TEXT,
+    "refundAmount" DECIMAL NOT NULL DEFAULT 0,
+    "chargeAmount" DECIMAL NOT NULL DEFAULT 0,
+    "costAmount" DECIMAL NOT NULL DEFAULT 0,
+    "createdById" TEXT,
+    "receivedAt" DATETIME,
+    "completedAt" DATETIME,
+    "notes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "return_authorizations_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "return_authorizations_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "return_authorizations_warehouseId_fkey" FOREIGN KEY ("warehouseId") REFERENCES "warehouses" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "return_authorizations_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "warehouse_tasks" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "return_items" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "returnId" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "taskItemId" TEXT,
+    "quantity" INTEGER NOT NULL,
+    "receivedQty" INTEGER NOT NULL DEFAULT 0,
+    "disposition" TEXT,
+    "locationId" TEXT,
+    "unitCost" DECIMAL NOT NULL DEFAULT 0,
+    "unitPrice" DECIMAL NOT NULL DEFAULT 0,
+    "notes" TEXT,
+    CONSTRAINT "return_items_returnId_fkey" FOREIGN KEY ("returnId") REFERENCES "return_authorizations" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "return_items_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "order_items" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "return_items_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "return_authorizations_rmaNumber_key" ON "return_authorizations"("rmaNumber");
+
+-- CreateIndex
+CREATE INDEX "return_authorizations_orderId_idx" ON "return_authorizations"("orderId");
+
+-- CreateIndex
+CREATE INDEX "return_authorizations_clientId_idx" ON "return_authorizations"("clientId");
+
+-- CreateIndex
+CREATE INDEX "return_authorizations_status_idx" ON "return_authorizations"("status");
+
+-- CreateIndex
+CREATE INDEX "return_items_returnId_idx" ON "return_items"("returnId");
+
+-- CreateIndex
+CREATE INDEX "return_items_orderItemId_idx" ON "return_items"("orderItemId");
@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "inbound_shipments" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "asnNumber" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "warehouseId" TEXT NOT NULL,
+    "taskId" TEXT,
+    "externalNumber" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'EXPECTED',
+    "expectedDate" DATETIME,
+    "receivedAt" DATETIME,
+    "createdById" TEXT,
+    "notes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "inbound_shipments_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "inbound_shipments_warehouseId_fkey" FOREIGN KEY ("warehouseId") REFERENCES "warehouses" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "inbound_shipments_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "warehouse_tasks" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "inbound_shipment_items" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shipmentId" TEXT NOT NULL,
+    "productId" TEXT,
+    "taskItemId" TEXT,
+    "sku" TEXT NOT NULL,
+    "name" TEXT,
+    "expectedQty" INTEGER NOT NULL DEFAULT 0,
+    "receivedQty" INTEGER NOT NULL DEFAULT 0,
+    "damagedQty" INTEGER NOT NULL DEFAULT 0,
+    "batchNumber" TEXT,
+    "expiryDate" DATETIME,
+    "locationId" TEXT,
+    "notes" TEXT,
+    CONSTRAINT "inbound_shipment_items_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "inbound_shipments" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "inbound_shipment_items_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inbound_shipments_asnNumber_key" ON "inbound_shipments"("asnNumber");
+
+-- CreateIndex
+CREATE INDEX "inbound_shipments_clientId_idx" ON "inbound_shipments"("clientId");
+
+-- CreateIndex
+CREATE INDEX "inbound_shipments_status_idx" ON "inbound_shipments"("status");
+
+-- CreateIndex
+CREATE INDEX "inbound_shipment_items_shipmentId_idx" ON "inbound_shipment_items"("shipmentId");
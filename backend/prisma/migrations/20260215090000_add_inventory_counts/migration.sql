@@ -0,0 +1,62 @@
+-- AlterTable
+ALTER TABLE "storage_locations" ADD COLUMN "frozenByCountId" TEXT;
+
+-- CreateTable
+CREATE TABLE "inventory_counts" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "countNumber" TEXT NOT NULL,
+    "warehouseId" TEXT NOT NULL,
+    "taskId" TEXT,
+    "type" TEXT NOT NULL DEFAULT 'CYCLE',
+    "status" TEXT NOT NULL DEFAULT 'COUNTING',
+    "recountThresholdPct" DECIMAL NOT NULL DEFAULT 5,
+    "surplusAmount" DECIMAL NOT NULL DEFAULT 0,
+    "shortageAmount" DECIMAL NOT NULL DEFAULT 0,
+    "createdById" TEXT,
+    "approvedById" TEXT,
+    "submittedAt" DATETIME,
+    "postedAt" DATETIME,
+    "notes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "inventory_counts_warehouseId_fkey" FOREIGN KEY ("warehouseId") REFERENCES "warehouses" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "inventory_counts_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "warehouse_tasks" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "inventory_count_lines" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "countId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "taskItemId" TEXT,
+    "batchNumber" TEXT,
+    "expectedQty" INTEGER NOT NULL DEFAULT 0,
+    "countedQty" INTEGER,
+    "recountQty" INTEGER,
+    "recountRequired" BOOLEAN NOT NULL DEFAULT false,
+    "finalQty" INTEGER,
+    "variance" INTEGER NOT NULL DEFAULT 0,
+    "unitCost" DECIMAL NOT NULL DEFAULT 0,
+    "varianceAmount" DECIMAL NOT NULL DEFAULT 0,
+    "countedById" TEXT,
+    "countedAt" DATETIME,
+    CONSTRAINT "inventory_count_lines_countId_fkey" FOREIGN KEY ("countId") REFERENCES "inventory_counts" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "inventory_count_lines_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "storage_locations" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "inventory_count_lines_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inventory_counts_countNumber_key" ON "inventory_counts"("countNumber");
+
+-- CreateIndex
+CREATE INDEX "inventory_counts_warehouseId_idx" ON "inventory_counts"("warehouseId");
+
+-- CreateIndex
+CREATE INDEX "inventory_counts_status_idx" ON "inventory_counts"("status");
+
+-- CreateIndex
+CREATE INDEX "inventory_count_lines_countId_idx" ON "inventory_count_lines"("countId");
+
+-- CreateIndex
+CREATE INDEX "inventory_count_lines_locationId_idx" ON "inventory_count_lines"("locationId");
@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "payments" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "paymentNumber" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "amount" DECIMAL NOT NULL,
+    "allocatedAmount" DECIMAL NOT NULL DEFAULT 0,
+    "paymentDate" DATETIME NOT NULL,
+    "paymentMethod" TEXT NOT NULL DEFAULT 'BANK_TRANSFER',
+    "reference" TEXT,
+    "description" TEXT,
+    "createdById" TEXT,
+    "cancelledAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "payments_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "payment_allocations" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "paymentId" TEXT NOT NULL,
+    "incomeOperationId" TEXT NOT NULL,
+    "amount" DECIMAL NOT NULL,
+    "createdById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "payment_allocations_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "payment_allocations_incomeOperationId_fkey" FOREIGN KEY ("incomeOperationId") REFERENCES "income_operations" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payments_paymentNumber_key" ON "payments"("paymentNumber");
+
+-- CreateIndex
+CREATE INDEX "payments_clientId_idx" ON "payments"("clientId");
+
+-- CreateIndex
+CREATE INDEX "payments_paymentDate_idx" ON "payments"("paymentDate");
+
+-- CreateIndex
+CREATE INDEX "payment_allocations_paymentId_idx" ON "payment_allocations"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "payment_allocations_incomeOperationId_idx" ON "payment_allocations"("incomeOperationId");
+
+-- AlterTable
+ALTER TABLE "fin_transactions" ADD COLUMN "paymentId" TEXT REFERENCES "payments" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
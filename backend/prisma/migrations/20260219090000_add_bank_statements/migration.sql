@@ -0,0 +1,58 @@
+-- CreateTable
+CREATE TABLE "bank_statements" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "fileName" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "accountNumber" TEXT,
+    "dateFrom" DATETIME,
+    "dateTo" DATETIME,
+    "openingBalance" DECIMAL,
+    "closingBalance" DECIMAL,
+    "status" TEXT NOT NULL DEFAULT 'IMPORTED',
+    "importedById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "bank_statement_lines" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "statementId" TEXT NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "documentNumber" TEXT,
+    "documentDate" DATETIME NOT NULL,
+    "direction" TEXT NOT NULL,
+    "amount" DECIMAL NOT NULL,
+    "counterpartyName" TEXT,
+    "counterpartyInn" TEXT,
+    "counterpartyAccount" TEXT,
+    "purpose" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'UNMATCHED',
+    "matchType" TEXT,
+    "confidence" INTEGER NOT NULL DEFAULT 0,
+    "matchNote" TEXT,
+    "clientId" TEXT,
+    "vendorId" TEXT,
+    "incomeOperationId" TEXT,
+    "costOperationId" TEXT,
+    "paymentId" TEXT,
+    "transactionId" TEXT,
+    "postedById" TEXT,
+    "postedAt" DATETIME,
+    CONSTRAINT "bank_statement_lines_statementId_fkey" FOREIGN KEY ("statementId") REFERENCES "bank_statements" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "bank_statement_lines_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "bank_statement_lines_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "vendors" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "bank_statement_lines_incomeOperationId_fkey" FOREIGN KEY ("incomeOperationId") REFERENCES "income_operations" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "bank_statement_lines_costOperationId_fkey" FOREIGN KEY ("costOperationId") REFERENCES "cost_operations" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "bank_statement_lines_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "bank_statement_lines_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "fin_transactions" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bank_statement_lines_fingerprint_key" ON "bank_statement_lines"("fingerprint");
+
+-- CreateIndex
+CREATE INDEX "bank_statement_lines_statementId_idx" ON "bank_statement_lines"("statementId");
+
+-- CreateIndex
+CREATE INDEX "bank_statement_lines_status_idx" ON "bank_statement_lines"("status");
@@ -0,0 +1,84 @@
+-- CreateTable
+CREATE TABLE "vendor_bills" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "billNumber" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "invoiceNumber" TEXT NOT NULL,
+    "invoiceDate" DATETIME NOT NULL,
+    "dueDate" DATETIME,
+    "periodFrom" DATETIME NOT NULL,
+    "periodTo" DATETIME NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "invoiceAmount" DECIMAL NOT NULL,
+    "expectedAmount" DECIMAL NOT NULL DEFAULT 0,
+    "billedAmount" DECIMAL NOT NULL DEFAULT 0,
+    "varianceAmount" DECIMAL NOT NULL DEFAULT 0,
+    "matchStatus" TEXT NOT NULL DEFAULT 'MATCHED',
+    "paidAmount" DECIMAL NOT NULL DEFAULT 0,
+    "createdById" TEXT,
+    "approvedById" TEXT,
+    "approvedAt" DATETIME,
+    "notes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "vendor_bills_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "vendors" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "vendor_bill_lines" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "billId" TEXT NOT NULL,
+    "costOperationId" TEXT,
+    "orderExpenseId" TEXT,
+    "orderId" TEXT NOT NULL,
+    "vendorServiceId" TEXT,
+    "description" TEXT NOT NULL,
+    "quantity" DECIMAL NOT NULL DEFAULT 1,
+    "contractUnitPrice" DECIMAL,
+    "expectedAmount" DECIMAL NOT NULL DEFAULT 0,
+    "billedAmount" DECIMAL NOT NULL DEFAULT 0,
+    "priceVariance" DECIMAL NOT NULL DEFAULT 0,
+    "amountVariance" DECIMAL NOT NULL DEFAULT 0,
+    "flags" TEXT,
+    CONSTRAINT "vendor_bill_lines_billId_fkey" FOREIGN KEY ("billId") REFERENCES "vendor_bills" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "vendor_bill_lines_costOperationId_fkey" FOREIGN KEY ("costOperationId") REFERENCES "cost_operations" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "vendor_bill_lines_orderExpenseId_fkey" FOREIGN KEY ("orderExpenseId") REFERENCES "order_expenses" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "vendor_bill_payments" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "billId" TEXT NOT NULL,
+    "amount" DECIMAL NOT NULL,
+    "paymentDate" DATETIME NOT NULL,
+    "reference" TEXT,
+    "transactionId" TEXT,
+    "createdById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "vendor_bill_payments_billId_fkey" FOREIGN KEY ("billId") REFERENCES "vendor_bills" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "vendor_bill_payments_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "fin_transactions" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vendor_bills_billNumber_key" ON "vendor_bills"("billNumber");
+
+-- CreateIndex
+CREATE INDEX "vendor_bills_vendorId_idx" ON "vendor_bills"("vendorId");
+
+-- CreateIndex
+CREATE INDEX "vendor_bills_status_idx" ON "vendor_bills"("status");
+
+-- CreateIndex
+CREATE INDEX "vendor_bill_lines_billId_idx" ON "vendor_bill_lines"("billId");
+
+-- CreateIndex
+CREATE INDEX "vendor_bill_lines_costOperationId_idx" ON "vendor_bill_lines"("costOperationId");
+
+-- CreateIndex
+CREATE INDEX "vendor_bill_lines_orderExpenseId_idx" ON "vendor_bill_lines"("orderExpenseId");
+
+-- CreateIndex
+CREATE INDEX "vendor_bill_payments_billId_idx" ON "vendor_bill_payments"("billId");
+
+-- AlterTable
+ALTER TABLE "bank_statement_lines" ADD COLUMN "vendorBillId" TEXT REFERENCES "vendor_bills" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
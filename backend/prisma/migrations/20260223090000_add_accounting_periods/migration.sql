@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "accounting_periods" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "period" TEXT NOT NULL,
+    "startDate" DATETIME NOT NULL,
+    "endDate" DATETIME NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'CLOSED',
+    "closedAt" DATETIME,
+    "closedById" TEXT,
+    "reopenedAt" DATETIME,
+    "reopenedById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "accounting_period_balances" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "periodId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "openingBalance" DECIMAL NOT NULL DEFAULT 0,
+    "debitTurnover" DECIMAL NOT NULL DEFAULT 0,
+    "creditTurnover" DECIMAL NOT NULL DEFAULT 0,
+    "closingBalance" DECIMAL NOT NULL DEFAULT 0,
+    CONSTRAINT "accounting_period_balances_periodId_fkey" FOREIGN KEY ("periodId") REFERENCES "accounting_periods" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "accounting_period_balances_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "accounts" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "accounting_periods_period_key" ON "accounting_periods"("period");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "accounting_period_balances_periodId_accountId_key" ON "accounting_period_balances"("periodId", "accountId");
+
+-- CreateIndex
+CREATE INDEX "fin_transactions_transactionDate_idx" ON "fin_transactions"("transactionDate");
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "journal_entries" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "entryNumber" TEXT NOT NULL,
+    "entryDate" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "description" TEXT,
+    "source" TEXT NOT NULL DEFAULT 'MANUAL',
+    "reversalOfId" TEXT,
+    "createdById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "journal_entries_reversalOfId_fkey" FOREIGN KEY ("reversalOfId") REFERENCES "journal_entries" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- AlterTable
+ALTER TABLE "fin_transactions" ADD COLUMN "entryId" TEXT REFERENCES "journal_entries" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "journal_entries_entryNumber_key" ON "journal_entries"("entryNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "journal_entries_reversalOfId_key" ON "journal_entries"("reversalOfId");
+
+-- CreateIndex
+CREATE INDEX "journal_entries_entryDate_idx" ON "journal_entries"("entryDate");
+
+-- CreateIndex
+CREATE INDEX "fin_transactions_entryId_idx" ON "fin_transactions"("entryId");
+
+-- Existing postings become single-line entries
+INSERT INTO "journal_entries" ("id", "entryNumber", "entryDate", "description", "source", "createdAt")
+SELECT "id", 'JE-' || "id", "transactionDate", "description", 'LEGACY', "createdAt" FROM "fin_transactions";
+
+UPDATE "fin_transactions" SET "entryId" = "id";
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "posting_rules" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "event" TEXT NOT NULL,
+    "debitAccountCode" TEXT NOT NULL,
+    "creditAccountCode" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "updatedById" TEXT,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "posting_rules_event_key" ON "posting_rules"("event");
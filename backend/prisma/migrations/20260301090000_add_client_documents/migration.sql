@@ -0,0 +1,71 @@
+-- CreateTable
+CREATE TABLE "company_settings" (
+    "id" TEXT NOT NULL PRIMARY KEY DEFAULT 'default',
+    "name" TEXT NOT NULL DEFAULT '',
+    "inn" TEXT,
+    "kpp" TEXT,
+    "ogrn" TEXT,
+    "address" TEXT,
+    "bankName" TEXT,
+    "bik" TEXT,
+    "bankAccount" TEXT,
+    "correspondentAccount" TEXT,
+    "directorName" TEXT,
+    "accountantName" TEXT,
+    "vatRate" DECIMAL NOT NULL DEFAULT 20,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "client_documents" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "type" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "number" INTEGER NOT NULL,
+    "documentDate" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "orderId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ISSUED',
+    "vatRate" DECIMAL NOT NULL DEFAULT 0,
+    "amountWithoutVat" DECIMAL NOT NULL DEFAULT 0,
+    "vatAmount" DECIMAL NOT NULL DEFAULT 0,
+    "totalAmount" DECIMAL NOT NULL DEFAULT 0,
+    "seller" TEXT NOT NULL,
+    "buyer" TEXT NOT NULL,
+    "basis" TEXT,
+    "createdById" TEXT,
+    "cancelledAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "client_documents_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "client_documents_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "client_document_lines" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "documentId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "incomeOperationId" TEXT,
+    "orderExpenseId" TEXT,
+    "description" TEXT NOT NULL,
+    "unit" TEXT NOT NULL DEFAULT 'усл.',
+    "quantity" DECIMAL NOT NULL DEFAULT 1,
+    "unitPrice" DECIMAL NOT NULL DEFAULT 0,
+    "amount" DECIMAL NOT NULL DEFAULT 0,
+    "vatAmount" DECIMAL NOT NULL DEFAULT 0,
+    CONSTRAINT "client_document_lines_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "client_documents" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "client_document_lines_incomeOperationId_fkey" FOREIGN KEY ("incomeOperationId") REFERENCES "income_operations" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "client_document_lines_orderExpenseId_fkey" FOREIGN KEY ("orderExpenseId") REFERENCES "order_expenses" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "client_documents_orderId_idx" ON "client_documents"("orderId");
+
+-- CreateIndex
+CREATE INDEX "client_documents_clientId_idx" ON "client_documents"("clientId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "client_documents_type_year_number_key" ON "client_documents"("type", "year", "number");
+
+-- CreateIndex
+CREATE INDEX "client_document_lines_documentId_idx" ON "client_document_lines"("documentId");
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "vendor_services" ADD COLUMN "vatRate" DECIMAL NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "clients" ADD COLUMN "vatRate" DECIMAL;
+
+-- AlterTable
+ALTER TABLE "order_expenses" ADD COLUMN "vatRate" DECIMAL NOT NULL DEFAULT 0;
+ALTER TABLE "order_expenses" ADD COLUMN "netAmount" DECIMAL NOT NULL DEFAULT 0;
+ALTER TABLE "order_expenses" ADD COLUMN "vatAmount" DECIMAL NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "income_operations" ADD COLUMN "vatRate" DECIMAL NOT NULL DEFAULT 0;
+ALTER TABLE "income_operations" ADD COLUMN "netAmount" DECIMAL NOT NULL DEFAULT 0;
+ALTER TABLE "income_operations" ADD COLUMN "vatAmount" DECIMAL NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "cost_operations" ADD COLUMN "vatRate" DECIMAL NOT NULL DEFAULT 0;
+ALTER TABLE "cost_operations" ADD COLUMN "netAmount" DECIMAL NOT NULL DEFAULT 0;
+ALTER TABLE "cost_operations" ADD COLUMN "vatAmount" DECIMAL NOT NULL DEFAULT 0;
+
+-- Existing operations carry no VAT: net equals gross
+UPDATE "order_expenses" SET "netAmount" = CASE WHEN "actualAmount" > 0 THEN "actualAmount" ELSE "totalAmount" END;
+UPDATE "income_operations" SET "netAmount" = "invoiceAmount";
+UPDATE "cost_operations" SET "netAmount" = "actualAmount";
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "exchange_rates" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "currency" TEXT NOT NULL,
+    "rateDate" DATETIME NOT NULL,
+    "rate" DECIMAL NOT NULL,
+    "nominal" INTEGER NOT NULL DEFAULT 1,
+    "source" TEXT NOT NULL DEFAULT 'MANUAL',
+    "createdById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rates_currency_rateDate_key" ON "exchange_rates"("currency", "rateDate");
+
+-- AlterTable
+ALTER TABLE "cost_operations" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'RUB';
+ALTER TABLE "cost_operations" ADD COLUMN "currencyAmount" DECIMAL;
+ALTER TABLE "cost_operations" ADD COLUMN "exchangeRate" DECIMAL NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "order_expenses" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'RUB';
+ALTER TABLE "order_expenses" ADD COLUMN "currencyPrice" DECIMAL;
+ALTER TABLE "order_expenses" ADD COLUMN "exchangeRate" DECIMAL NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "vendor_bills" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'RUB';
+ALTER TABLE "vendor_bills" ADD COLUMN "currencyAmount" DECIMAL;
+ALTER TABLE "vendor_bills" ADD COLUMN "exchangeRate" DECIMAL NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "vendor_bill_payments" ADD COLUMN "currencyAmount" DECIMAL;
+ALTER TABLE "vendor_bill_payments" ADD COLUMN "exchangeRate" DECIMAL;
+ALTER TABLE "vendor_bill_payments" ADD COLUMN "paidAmount" DECIMAL;
+ALTER TABLE "vendor_bill_payments" ADD COLUMN "fxDifference" DECIMAL NOT NULL DEFAULT 0;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "deliveryMethod" TEXT;
+ALTER TABLE "orders" ADD COLUMN "expenseTemplateId" TEXT REFERENCES "expense_templates" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "orders" ADD COLUMN "expenseTemplateReason" TEXT;
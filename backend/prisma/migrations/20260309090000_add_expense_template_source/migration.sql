@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "order_expenses" ADD COLUMN "templateId" TEXT REFERENCES "expense_templates" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE INDEX "order_expenses_templateId_idx" ON "order_expenses"("templateId");
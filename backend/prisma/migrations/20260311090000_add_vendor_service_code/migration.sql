@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "vendor_services" ADD COLUMN "code" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vendor_services_vendorId_code_key" ON "vendor_services"("vendorId", "code");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "fin_transactions" ADD COLUMN "orderExpenseId" TEXT REFERENCES "order_expenses" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
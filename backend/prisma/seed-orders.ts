@@ -8,47 +8,19 @@
 import { PrismaClient } from '@prisma/client';
 import * as XLSX from 'xlsx';
 import * as path from 'path';
+import {
+  DEFAULT_FULFILLMENT_RATES,
+  DEFAULT_PALLET_DELIVERY_RATES,
+  DEFAULT_BOX_DELIVERY_RATES,
+  loadDefaultTariff,
+} from '../src/utils/tariffs';
 
 const prisma = new PrismaClient();
 
-// Тарифы фулфилмента
-const fulfillmentRates: Record<string, number> = {
-  'Шапки': 30,
-  'Штаны': 50,
-  'Куртки': 55,
-  'Инструменты': 80,
-  'Другое': 40,
-};
-
-// Тарифы доставки палет
-const palletDeliveryRates: Record<string, number> = {
-  'Электросталь': 2000,
-  'Коледино': 2000,
-  'Рязань': 3000,
-  'Тула': 3000,
-  'Краснодар': 6300,
-  'Подольск': 2500,
-  'Казань': 4000,
-  'Хоругвино': 2500,
-  'Невинномысск': 5500,
-  'СЦ Вёшки': 2000,
-  'Пушкино': 2000,
-};
-
-// Тарифы коробов по направлениям
-const boxDeliveryRates: Record<string, number> = {
-  'Электросталь': 200,
-  'Коледино': 200,
-  'Рязань': 300,
-  'Тула': 300,
-  'Краснодар': 500,
-  'Подольск': 250,
-  'Казань': 400,
-  'Хоругвино': 250,
-  'Невинномысск': 450,
-  'СЦ Вёшки': 200,
-  'Пушкино': 200,
-};
+// Тарифы берем из тарифной сетки по умолчанию (см. src/utils/tariffs.ts)
+const fulfillmentRates = DEFAULT_FULFILLMENT_RATES;
+const palletDeliveryRates = DEFAULT_PALLET_DELIVERY_RATES;
+const boxDeliveryRates = DEFAULT_BOX_DELIVERY_RATES;
 
 interface ShipmentRow {
   date: Date;
@@ -245,7 +217,7 @@ async function main() {
     if (service) {
       service = await prisma.vendorService.update({
         where: { id: service.id },
-        data: { price: rate },
+        data: { price: rate, productCategory: productType },
       });
     } else {
       service = await prisma.vendorService.create({
@@ -254,6 +226,7 @@ async function main() {
           name: serviceName,
           type: 'PICKING',
           unit: 'PIECE',
+          productCategory: productType,
           price: rate,
           notes: `Обработка и упаковка товаров категории "${productType}"`,
           isActive: true,
@@ -275,7 +248,7 @@ async function main() {
     if (service) {
       service = await prisma.vendorService.update({
         where: { id: service.id },
-        data: { price: rate },
+        data: { price: rate, destination: warehouse },
       });
     } else {
       service = await prisma.vendorService.create({
@@ -284,6 +257,7 @@ async function main() {
           name: serviceName,
           type: 'SHIPPING',
           unit: 'PALLET',
+          destination: warehouse,
           price: rate,
           notes: `Доставка палеты на склад ${warehouse}`,
           isActive: true,
@@ -305,7 +279,7 @@ async function main() {
     if (service) {
       service = await prisma.vendorService.update({
         where: { id: service.id },
-        data: { price: rate },
+        data: { price: rate, unit: 'BOX', destination: warehouse },
       });
     } else {
       service = await prisma.vendorService.create({
@@ -313,7 +287,8 @@ async function main() {
           vendorId: vendor.id,
           name: serviceName,
           type: 'SHIPPING',
-          unit: 'ORDER',
+          unit: 'BOX',
+          destination: warehouse,
           price: rate,
           notes: `Доставка короба на склад ${warehouse}`,
           isActive: true,
@@ -324,6 +299,11 @@ async function main() {
     console.log(`   ✅ ${service.name}: ${rate}₽`);
   }
   
+  // 4.1. Загружаем тариф по умолчанию для клиентов
+  console.log('\n💰 Загружаем тариф по умолчанию...');
+  const defaultTariff = await loadDefaultTariff(prisma);
+  console.log(`   ✅ ${defaultTariff.name}: ${defaultTariff.rates.length} ставок`);
+  
   // 5. Создаем клиентов
   console.log('\n👥 Создаем клиентов...');
   const clients: Record<string, string> = {};
@@ -395,6 +375,7 @@ async function main() {
       orderItems.push({
         sku: `FF-${item.productType.substring(0, 3).toUpperCase()}`,
         name: `Фулфилмент: ${item.productType}`,
+        category: item.productType,
         quantity: item.quantity,
         unitPrice: fulfillmentRate,
         unitCost: fulfillmentRate * 0.7, // ~70% себестоимость
@@ -460,6 +441,9 @@ async function main() {
         profit: orderTotal * 0.3, // ~30% маржа
         marginPercent: 30,
         shippingAddress: firstItem.warehouse,
+        destination: firstItem.warehouse,
+        palletCount: items.reduce((sum, i) => sum + (i.pallets || 0), 0),
+        boxCount: items.reduce((sum, i) => sum + (i.boxes || 0), 0),
         notes: `Импортировано из Excel. Склад: ${firstItem.warehouse}`,
         items: {
           create: orderItems,
@@ -8,18 +8,22 @@ async function main() {
 
   // Создание бухгалтерских счетов
   const accounts = [
+    { code: '19', name: 'НДС по приобретенным ценностям', type: 'ASSET' },
     { code: '41', name: 'Товары на складе', type: 'ASSET' },
     { code: '50', name: 'Касса', type: 'ASSET' },
     { code: '51', name: 'Расчетный счет', type: 'ASSET' },
     { code: '60', name: 'Расчеты с поставщиками', type: 'LIABILITY' },
     { code: '62', name: 'Расчеты с клиентами', type: 'ASSET' },
+    { code: '68', name: 'Расчеты по налогам и сборам (НДС)', type: 'LIABILITY' },
     { code: '90.1', name: 'Выручка', type: 'REVENUE' },
     { code: '90.2', name: 'Себестоимость продаж', type: 'EXPENSE' },
+    { code: '90.3', name: 'НДС с продаж', type: 'EXPENSE' },
     { code: '44.1', name: 'Затраты на хранение', type: 'EXPENSE' },
     { code: '44.2', name: 'Затраты на комплектацию', type: 'EXPENSE' },
     { code: '44.3', name: 'Затраты на доставку', type: 'EXPENSE' },
     { code: '44.4', name: 'Затраты на упаковку', type: 'EXPENSE' },
     { code: '44.5', name: 'Прочие затраты фулфилмента', type: 'EXPENSE' },
+    { code: '91.1', name: 'Прочие доходы (курсовые разницы)', type: 'REVENUE' },
     { code: '91.2', name: 'Потери и недостачи', type: 'EXPENSE' },
     { code: '99', name: 'Прибыли и убытки', type: 'EQUITY' },
   ];
@@ -97,16 +101,24 @@ async function main() {
   console.log('✅ Test vendor created');
 
   // Создание услуг поставщика
-  const services = [
+  const services: Array<{
+    name: string;
+    type: string;
+    unit: string;
+    price: number;
+    pricingBasis?: string;
+    minQuantity?: number;
+    maxQuantity?: number;
+  }> = [
     { name: 'Хранение (куб.м/мес)', type: 'STORAGE', unit: 'CUBIC_METER', price: 450 },
     { name: 'Хранение (паллета/мес)', type: 'STORAGE', unit: 'PALLET', price: 800 },
     { name: 'Комплектация заказа', type: 'PICKING', unit: 'ORDER', price: 50 },
     { name: 'Комплектация (за единицу)', type: 'PICKING', unit: 'PIECE', price: 10 },
     { name: 'Упаковка стандартная', type: 'PACKING', unit: 'ORDER', price: 30 },
     { name: 'Упаковка хрупкое', type: 'PACKING', unit: 'ORDER', price: 80 },
-    { name: 'Доставка СДЭК (до 1кг)', type: 'SHIPPING', unit: 'ORDER', price: 300 },
-    { name: 'Доставка СДЭК (1-5кг)', type: 'SHIPPING', unit: 'ORDER', price: 450 },
-    { name: 'Доставка СДЭК (5-10кг)', type: 'SHIPPING', unit: 'ORDER', price: 650 },
+    { name: 'Доставка СДЭК (до 1кг)', type: 'SHIPPING', unit: 'ORDER', price: 300, pricingBasis: 'WEIGHT', maxQuantity: 1 },
+    { name: 'Доставка СДЭК (1-5кг)', type: 'SHIPPING', unit: 'ORDER', price: 450, pricingBasis: 'WEIGHT', minQuantity: 1, maxQuantity: 5 },
+    { name: 'Доставка СДЭК (5-10кг)', type: 'SHIPPING', unit: 'ORDER', price: 650, pricingBasis: 'WEIGHT', minQuantity: 5, maxQuantity: 10 },
     { name: 'Приемка товара', type: 'RECEIVING', unit: 'PIECE', price: 5 },
     { name: 'Маркировка', type: 'LABELING', unit: 'PIECE', price: 3 },
     { name: 'Обработка возврата', type: 'RETURNS', unit: 'ORDER', price: 100 },
@@ -120,6 +132,9 @@ async function main() {
         type: service.type as any,
         unit: service.unit as any,
         price: service.price,
+        pricingBasis: service.pricingBasis,
+        minQuantity: service.minQuantity,
+        maxQuantity: service.maxQuantity,
       },
     });
   }
@@ -132,8 +147,9 @@ async function main() {
     { name: 'Детские товары "Малыш"', companyName: 'ИП Сидорова М.В.', inn: '772345678901', email: 'info@malysh.ru', phone: '+7 (495) 333-33-33' },
   ];
 
+  const createdClients = [];
   for (const client of clients) {
-    await prisma.client.create({ data: client });
+    createdClients.push(await prisma.client.create({ data: client }));
   }
   console.log('✅ Test clients created');
 
@@ -208,12 +224,20 @@ async function main() {
     { sku: 'BOOK-001', barcode: '4600000000008', name: 'Книга "Программирование"', category: 'Книги', unitWeight: 0.6, unitCost: 400, unitPrice: 900 },
   ];
 
+  // Владелец товара по категории (книги — без владельца)
+  const ownerByCategory: Record<string, string> = {
+    'Электроника': createdClients[0].id,
+    'Одежда': createdClients[1].id,
+    'Игрушки': createdClients[2].id,
+  };
+
   for (const product of products) {
     await prisma.product.upsert({
       where: { sku: product.sku },
       update: {},
       create: {
         ...product,
+        clientId: ownerByCategory[product.category] || null,
         unitVolume: 0.001,
         minStock: 5
       }
@@ -11,6 +11,7 @@ import usersRoutes from './routes/users';
 import vendorsRoutes from './routes/vendors';
 import vendorServicesRoutes from './routes/vendorServices';
 import clientsRoutes from './routes/clients';
+import tariffsRoutes from './routes/tariffs';
 import ordersRoutes from './routes/orders';
 import costOperationsRoutes from './routes/costOperations';
 import incomeOperationsRoutes from './routes/incomeOperations';
@@ -24,6 +25,19 @@ import warehousesRoutes from './routes/warehouses';
 import productsRoutes from './routes/products';
 import warehouseTasksRoutes from './routes/warehouseTasks';
 import stockMovementsRoutes from './routes/stockMovements';
+import storageBillingRoutes from './routes/storageBilling';
+import returnsRoutes from './routes/returns';
+import inboundShipmentsRoutes from './routes/inboundShipments';
+import inventoryCountsRoutes from './routes/inventoryCounts';
+import receivablesRoutes from './routes/receivables';
+import paymentsRoutes from './routes/payments';
+import bankStatementsRoutes from './routes/bankStatements';
+import vendorBillsRoutes from './routes/vendorBills';
+import accountingPeriodsRoutes from './routes/accountingPeriods';
+import postingRulesRoutes from './routes/postingRules';
+import clientDocumentsRoutes from './routes/clientDocuments';
+import companyRoutes from './routes/company';
+import exchangeRatesRoutes from './routes/exchangeRates';
 
 // Order expenses module
 import orderExpensesRoutes from './routes/orderExpenses';
@@ -63,6 +77,7 @@ app.use('/api/users', usersRoutes);
 app.use('/api/vendors', vendorsRoutes);
 app.use('/api/vendor-services', vendorServicesRoutes);
 app.use('/api/clients', clientsRoutes);
+app.use('/api/tariffs', tariffsRoutes);
 app.use('/api/orders', ordersRoutes);
 app.use('/api/cost-operations', costOperationsRoutes);
 app.use('/api/income-operations', incomeOperationsRoutes);
@@ -70,12 +85,25 @@ app.use('/api/accounts', accountsRoutes);
 app.use('/api/transactions', transactionsRoutes);
 app.use('/api/dashboard', dashboardRoutes);
 app.use('/api/reports', reportsRoutes);
+app.use('/api/receivables', receivablesRoutes);
+app.use('/api/payments', paymentsRoutes);
+app.use('/api/bank-statements', bankStatementsRoutes);
+app.use('/api/vendor-bills', vendorBillsRoutes);
+app.use('/api/accounting-periods', accountingPeriodsRoutes);
+app.use('/api/posting-rules', postingRulesRoutes);
+app.use('/api/documents', clientDocumentsRoutes);
+app.use('/api/company', companyRoutes);
+app.use('/api/exchange-rates', exchangeRatesRoutes);
 
 // Warehouse module
 app.use('/api/warehouses', warehousesRoutes);
 app.use('/api/products', productsRoutes);
 app.use('/api/warehouse-tasks', warehouseTasksRoutes);
 app.use('/api/stock-movements', stockMovementsRoutes);
+app.use('/api/storage-billing', storageBillingRoutes);
+app.use('/api/returns', returnsRoutes);
+app.use('/api/inbound-shipments', inboundShipmentsRoutes);
+app.use('/api/inventory-counts', inventoryCountsRoutes);
 
 // Order expenses
 app.use('/api/order-expenses', orderExpensesRoutes);
@@ -0,0 +1,113 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticate, authorize } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { closePeriod, reopenPeriod, getLockDate } from '../utils/ledger';
+
+const router = Router();
+
+// Get accounting periods and the current lock date
+router.get(
+  '/',
+  authenticate,
+  authorize('ADMIN', 'ANALYST'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+
+    try {
+      const periods = await prisma.accountingPeriod.findMany({
+        orderBy: { period: 'desc' },
+      });
+      const lockDate = await getLockDate(prisma);
+
+      res.json({ success: true, data: { periods, lockDate } });
+    } catch (error) {
+      console.error('Get accounting periods error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка получения учетных периодов' });
+    }
+  }
+);
+
+// Get closing balances of a closed period
+router.get(
+  '/:period/balances',
+  authenticate,
+  authorize('ADMIN', 'ANALYST'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { period } = req.params;
+
+    try {
+      const record = await prisma.accountingPeriod.findUnique({
+        where: { period },
+        include: {
+          balances: {
+            include: { account: { select: { code: true, name: true, type: true } } },
+            orderBy: { account: { code: 'asc' } },
+          },
+        },
+      });
+
+      if (!record) {
+        return res.status(404).json({ success: false, error: 'Период не найден' });
+      }
+
+      res.json({ success: true, data: record });
+    } catch (error) {
+      console.error('Get period balances error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка получения сальдо периода' });
+    }
+  }
+);
+
+// Close month: lock postings and store closing balances
+router.post(
+  '/close',
+  authenticate,
+  authorize('ADMIN'),
+  [body('period').matches(/^\d{4}-\d{2}$/).withMessage('Период указывается в формате ГГГГ-ММ')],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+
+    try {
+      const period = await prisma.$transaction((tx) => closePeriod(tx, req.body.period, req.user!.userId));
+      res.json({ success: true, data: period });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Close period error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка закрытия периода' });
+    }
+  }
+);
+
+// Reopen the last closed month
+router.post(
+  '/:period/reopen',
+  authenticate,
+  authorize('ADMIN'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { period } = req.params;
+
+    try {
+      const record = await prisma.$transaction((tx) => reopenPeriod(tx, period, req.user!.userId));
+      res.json({ success: true, data: record });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Reopen period error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка открытия периода' });
+    }
+  }
+);
+
+export default router;
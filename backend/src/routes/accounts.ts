@@ -1,14 +1,31 @@
 import { Router, Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import { PrismaClient } from '@prisma/client';
+import * as XLSX from 'xlsx';
 import { authenticate, authorize } from '../middleware/auth';
+import { getTrialBalance, getAccountStatement, getNetBalancesBefore, toNaturalBalance } from '../utils/ledger';
+import { verifyAccountBalances } from '../utils/posting';
 
 const router = Router();
 
-// Get all accounts
+const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+function startOfDay(value: unknown) {
+  const date = new Date(value as string);
+  date.setHours(0, 0, 0, 0);
+  return date;
+}
+
+function endOfDay(value: unknown) {
+  const date = new Date(value as string);
+  date.setHours(23, 59, 59, 999);
+  return date;
+}
+
+// Get all accounts (with asOf: balances computed from the ledger at the end of that day)
 router.get('/', authenticate, async (req: Request, res: Response) => {
   const prisma: PrismaClient = (req as any).prisma;
-  const { type, isActive } = req.query;
+  const { type, isActive, asOf } = req.query;
 
   try {
     const where: any = {};
@@ -21,6 +38,20 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
       orderBy: { code: 'asc' },
     });
 
+    if (asOf) {
+      const nextDay = startOfDay(asOf);
+      if (isNaN(nextDay.getTime())) {
+        return res.status(400).json({ success: false, error: 'Неверная дата' });
+      }
+      nextDay.setDate(nextDay.getDate() + 1);
+
+      const balances = await getNetBalancesBefore(prisma, nextDay);
+      return res.json({
+        success: true,
+        data: accounts.map(a => ({ ...a, balance: toNaturalBalance(a.type, balances.get(a.id) || 0) })),
+      });
+    }
+
     res.json({ success: true, data: accounts });
   } catch (error) {
     console.error('Get accounts error:', error);
@@ -28,6 +59,83 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
   }
 });
 
+// Trial balance (оборотно-сальдовая ведомость) across all accounts
+router.get(
+  '/trial-balance',
+  authenticate,
+  authorize('ADMIN', 'ANALYST'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { dateFrom, dateTo, includeZero, format } = req.query;
+
+    try {
+      const now = new Date();
+      const from = dateFrom ? startOfDay(dateFrom) : new Date(now.getFullYear(), now.getMonth(), 1);
+      const to = dateTo ? endOfDay(dateTo) : endOfDay(now);
+      if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+        return res.status(400).json({ success: false, error: 'Неверная дата' });
+      }
+      if (from > to) {
+        return res.status(400).json({ success: false, error: 'Начало периода позже конца' });
+      }
+
+      const trialBalance = await getTrialBalance(prisma, {
+        dateFrom: from,
+        dateTo: to,
+        includeZero: includeZero === 'true',
+      });
+
+      if (format === 'xlsx') {
+        const rows = trialBalance.rows.map(r => [
+          r.code, r.name,
+          r.opening.debit, r.opening.credit,
+          r.turnover.debit, r.turnover.credit,
+          r.closing.debit, r.closing.credit,
+        ]);
+        const { opening, turnover, closing } = trialBalance.totals;
+
+        const ws = XLSX.utils.aoa_to_sheet([
+          [`Оборотно-сальдовая ведомость за ${from.toLocaleDateString('ru-RU')} — ${to.toLocaleDateString('ru-RU')}`],
+          [],
+          ['Счет', 'Наименование', 'Сальдо на начало', '', 'Обороты за период', '', 'Сальдо на конец', ''],
+          ['', '', 'Дебет', 'Кредит', 'Дебет', 'Кредит', 'Дебет', 'Кредит'],
+          ...rows,
+          ['Итого', '', opening.debit, opening.credit, turnover.debit, turnover.credit, closing.debit, closing.credit],
+        ]);
+        const wb = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(wb, ws, 'ОСВ');
+
+        res.setHeader('Content-Type', XLSX_CONTENT_TYPE);
+        res.setHeader('Content-Disposition', 'attachment; filename=trial-balance.xlsx');
+        return res.send(XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' }));
+      }
+
+      res.json({ success: true, data: trialBalance });
+    } catch (error) {
+      console.error('Get trial balance error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка получения оборотно-сальдовой ведомости' });
+    }
+  }
+);
+
+// Integrity check: stored balances vs balances recomputed from the ledger
+router.get(
+  '/verify',
+  authenticate,
+  authorize('ADMIN', 'ANALYST'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+
+    try {
+      const report = await verifyAccountBalances(prisma);
+      res.json({ success: true, data: report });
+    } catch (error) {
+      console.error('Verify accounts error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка сверки остатков счетов' });
+    }
+  }
+);
+
 // Get single account with recent transactions
 router.get('/:id', authenticate, async (req: Request, res: Response) => {
   const prisma: PrismaClient = (req as any).prisma;
@@ -82,28 +190,13 @@ router.get(
         return res.status(404).json({ success: false, error: 'Счет не найден' });
       }
 
-      const dateFilter: any = {};
-      if (dateFrom) dateFilter.gte = new Date(dateFrom as string);
-      if (dateTo) dateFilter.lte = new Date(dateTo as string);
-
-      const where = Object.keys(dateFilter).length > 0 
-        ? { transactionDate: dateFilter } 
-        : {};
-
-      // Get debit turnover
-      const debitTurnover = await prisma.finTransaction.aggregate({
-        where: { debitAccountId: id, ...where },
-        _sum: { amount: true },
-      });
-
-      // Get credit turnover
-      const creditTurnover = await prisma.finTransaction.aggregate({
-        where: { creditAccountId: id, ...where },
-        _sum: { amount: true },
-      });
-
-      const debit = debitTurnover._sum.amount?.toNumber() || 0;
-      const credit = creditTurnover._sum.amount?.toNumber() || 0;
+      // Opening balance is computed from the ledger (closed periods + postings before dateFrom)
+      const statement = await getAccountStatement(
+        prisma,
+        account,
+        dateFrom ? startOfDay(dateFrom) : null,
+        dateTo ? endOfDay(dateTo) : null
+      );
 
       res.json({
         success: true,
@@ -117,10 +210,7 @@ router.get(
             from: dateFrom || 'начало',
             to: dateTo || 'настоящее время',
           },
-          openingBalance: account.balance.toNumber(), // Simplified: should calculate from start
-          debitTurnover: debit,
-          creditTurnover: credit,
-          closingBalance: account.balance.toNumber() + debit - credit,
+          ...statement,
         },
       });
     } catch (error) {
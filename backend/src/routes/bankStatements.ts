@@ -0,0 +1,436 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticate, authorize } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import {
+  MATCH_TYPES,
+  parseStatement,
+  lineFingerprint,
+  matchStatementLine,
+  postStatementLine,
+  refreshStatementStatus,
+  getOpenVendorCosts,
+} from '../utils/bankStatements';
+import { getOpenInvoices } from '../utils/payments';
+import { getOpenVendorBills, OPEN_BILL_STATUSES } from '../utils/vendorBills';
+
+const multer = require('multer');
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 10 * 1024 * 1024 } });
+
+const router = Router();
+
+const lineInclude = {
+  client: { select: { id: true, name: true, inn: true } },
+  vendor: { select: { id: true, name: true, inn: true } },
+  incomeOperation: {
+    select: { id: true, invoiceAmount: true, paidAmount: true, order: { select: { id: true, orderNumber: true } } },
+  },
+  costOperation: {
+    select: { id: true, actualAmount: true, order: { select: { id: true, orderNumber: true } } },
+  },
+  vendorBill: { select: { id: true, billNumber: true, invoiceNumber: true } },
+  payment: { select: { id: true, paymentNumber: true, allocatedAmount: true } },
+};
+
+// Get imported statements
+router.get(
+  '/',
+  authenticate,
+  authorize('ADMIN', 'ANALYST'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+
+    try {
+      const statements = await prisma.bankStatement.findMany({
+        include: { _count: { select: { lines: true } } },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      const pending = await prisma.bankStatementLine.groupBy({
+        by: ['statementId'],
+        where: { status: { in: ['UNMATCHED', 'MATCHED'] } },
+        _count: { _all: true },
+      });
+      const pendingMap = new Map(pending.map(p => [p.statementId, p._count._all]));
+
+      res.json({
+        success: true,
+        data: statements.map(s => ({ ...s, pendingLines: pendingMap.get(s.id) || 0 })),
+      });
+    } catch (error) {
+      console.error('Get bank statements error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка получения выписок' });
+    }
+  }
+);
+
+// Open invoices / vendor costs for manual matching
+router.get(
+  '/candidates',
+  authenticate,
+  authorize('ADMIN', 'ANALYST'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { clientId, vendorId } = req.query;
+
+    try {
+      if (clientId) {
+        const invoices = await getOpenInvoices(prisma, clientId as string);
+        return res.json({ success: true, data: invoices });
+      }
+      if (vendorId) {
+        // Vendor bills first, then costs outside bills
+        const bills = await getOpenVendorBills(prisma, vendorId as string);
+        const costs = await getOpenVendorCosts(prisma, vendorId as string);
+        return res.json({ success: true, data: [...bills, ...costs] });
+      }
+      res.status(400).json({ success: false, error: 'Укажите клиента или поставщика' });
+    } catch (error) {
+      console.error('Get match candidates error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка получения документов для сопоставления' });
+    }
+  }
+);
+
+// Get statement with lines
+router.get(
+  '/:id',
+  authenticate,
+  authorize('ADMIN', 'ANALYST'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+
+    try {
+      const statement = await prisma.bankStatement.findUnique({
+        where: { id },
+        include: {
+          lines: {
+            include: lineInclude,
+            orderBy: [{ documentDate: 'asc' }, { documentNumber: 'asc' }],
+          },
+        },
+      });
+
+      if (!statement) {
+        return res.status(404).json({ success: false, error: 'Выписка не найдена' });
+      }
+
+      res.json({ success: true, data: statement });
+    } catch (error) {
+      console.error('Get bank statement error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка получения выписки' });
+    }
+  }
+);
+
+// Import statement (1CClientBankExchange or CSV) and suggest matches
+router.post(
+  '/import',
+  authenticate,
+  authorize('ADMIN', 'ANALYST'),
+  upload.single('file'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+
+    if (!req.file) {
+      return res.status(400).json({ success: false, error: 'Файл не загружен' });
+    }
+
+    try {
+      const parsed = parseStatement(req.file.buffer);
+      if (parsed.lines.length === 0) {
+        return res.status(400).json({ success: false, error: 'В выписке нет операций' });
+      }
+
+      // Skip operations loaded by a previous import
+      const fingerprints = parsed.lines.map(lineFingerprint);
+      const existing = await prisma.bankStatementLine.findMany({
+        where: { fingerprint: { in: fingerprints } },
+        select: { fingerprint: true },
+      });
+      const seen = new Set(existing.map(e => e.fingerprint));
+
+      const fresh = parsed.lines
+        .map((line, i) => ({ line, fingerprint: fingerprints[i] }))
+        .filter(({ fingerprint }) => {
+          if (seen.has(fingerprint)) return false;
+          seen.add(fingerprint);
+          return true;
+        });
+
+      if (fresh.length === 0) {
+        return res.status(409).json({ success: false, error: 'Все операции выписки уже загружены' });
+      }
+
+      const statement = await prisma.$transaction(async (tx) => {
+        const created = await tx.bankStatement.create({
+          data: {
+            fileName: req.file!.originalname,
+            format: parsed.format,
+            accountNumber: parsed.accountNumber,
+            dateFrom: parsed.dateFrom,
+            dateTo: parsed.dateTo,
+            openingBalance: parsed.openingBalance,
+            closingBalance: parsed.closingBalance,
+            importedById: req.user!.userId,
+          },
+        });
+
+        for (const { line, fingerprint } of fresh) {
+          const match = await matchStatementLine(tx, line);
+          await tx.bankStatementLine.create({
+            data: {
+              statementId: created.id,
+              fingerprint,
+              ...line,
+              ...match,
+            },
+          });
+        }
+
+        return created;
+      });
+
+      res.status(201).json({
+        success: true,
+        message: `Загружено операций: ${fresh.length}` +
+          (parsed.lines.length > fresh.length ? `, пропущено ранее загруженных: ${parsed.lines.length - fresh.length}` : ''),
+        data: statement,
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Import bank statement error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка загрузки выписки' });
+    }
+  }
+);
+
+// Fix or confirm line match
+router.put(
+  '/:id/lines/:lineId',
+  authenticate,
+  authorize('ADMIN', 'ANALYST'),
+  [
+    body('matchType').optional({ nullable: true }).isIn(MATCH_TYPES).withMessage('Неверный тип сопоставления'),
+    body('ignore').optional().isBoolean(),
+  ],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id, lineId } = req.params;
+    const { matchType, clientId, vendorId, incomeOperationId, costOperationId, vendorBillId, ignore } = req.body;
+
+    try {
+      const line = await prisma.bankStatementLine.findFirst({ where: { id: lineId, statementId: id } });
+      if (!line) {
+        return res.status(404).json({ success: false, error: 'Строка выписки не найдена' });
+      }
+      if (line.status === 'POSTED') {
+        return res.status(400).json({ success: false, error: 'Строка уже проведена' });
+      }
+
+      let data: any;
+      if (ignore) {
+        data = { status: 'IGNORED', matchNote: 'Исключено из сверки' };
+      } else if (!matchType) {
+        // Back to unmatched (also restores ignored lines)
+        data = {
+          status: 'UNMATCHED',
+          matchType: null,
+          confidence: 0,
+          matchNote: null,
+          clientId: null,
+          vendorId: null,
+          incomeOperationId: null,
+          costOperationId: null,
+          vendorBillId: null,
+          paymentId: null,
+        };
+      } else if (matchType === 'CLIENT_PAYMENT') {
+        if (line.direction !== 'IN') {
+          return res.status(400).json({ success: false, error: 'Оплата клиента возможна только для поступления' });
+        }
+        if (!clientId) {
+          return res.status(400).json({ success: false, error: 'Укажите клиента' });
+        }
+        if (incomeOperationId) {
+          const operation = await prisma.incomeOperation.findFirst({ where: { id: incomeOperationId, clientId } });
+          if (!operation) {
+            return res.status(400).json({ success: false, error: 'Счет не принадлежит клиенту' });
+          }
+        }
+        data = {
+          status: 'MATCHED',
+          matchType,
+          confidence: 100,
+          matchNote: 'Указано вручную',
+          clientId,
+          vendorId: null,
+          incomeOperationId: incomeOperationId || null,
+          costOperationId: null,
+          vendorBillId: null,
+          paymentId: null,
+        };
+      } else {
+        if (line.direction !== 'OUT') {
+          return res.status(400).json({ success: false, error: 'Оплата поставщику возможна только для списания' });
+        }
+        if (!vendorId) {
+          return res.status(400).json({ success: false, error: 'Укажите поставщика' });
+        }
+        if (vendorBillId) {
+          const bill = await prisma.vendorBill.findFirst({
+            where: { id: vendorBillId, vendorId, status: { in: OPEN_BILL_STATUSES } },
+          });
+          if (!bill) {
+            return res.status(400).json({ success: false, error: 'Счет не принадлежит поставщику или не ожидает оплаты' });
+          }
+        } else if (costOperationId) {
+          const operation = await prisma.costOperation.findFirst({ where: { id: costOperationId, vendorId } });
+          if (!operation) {
+            return res.status(400).json({ success: false, error: 'Расход не принадлежит поставщику' });
+          }
+        }
+        data = {
+          status: 'MATCHED',
+          matchType,
+          confidence: 100,
+          matchNote: 'Указано вручную',
+          clientId: null,
+          vendorId,
+          incomeOperationId: null,
+          costOperationId: vendorBillId ? null : costOperationId || null,
+          vendorBillId: vendorBillId || null,
+          paymentId: null,
+        };
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        const result = await tx.bankStatementLine.update({
+          where: { id: lineId },
+          data,
+          include: lineInclude,
+        });
+        await refreshStatementStatus(tx, id);
+        return result;
+      });
+
+      res.json({ success: true, data: updated });
+    } catch (error) {
+      console.error('Update bank statement line error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка сохранения сопоставления' });
+    }
+  }
+);
+
+// Re-run matching for unmatched lines (e.g. after adding client INN)
+router.post(
+  '/:id/rematch',
+  authenticate,
+  authorize('ADMIN', 'ANALYST'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+
+    try {
+      const matched = await prisma.$transaction(async (tx) => {
+        const lines = await tx.bankStatementLine.findMany({ where: { statementId: id, status: 'UNMATCHED' } });
+        let count = 0;
+        for (const line of lines) {
+          const match = await matchStatementLine(tx, {
+            direction: line.direction,
+            amount: line.amount.toNumber(),
+            purpose: line.purpose,
+            counterpartyInn: line.counterpartyInn,
+            documentDate: line.documentDate,
+          });
+          if (match.status === 'MATCHED') count++;
+          await tx.bankStatementLine.update({ where: { id: line.id }, data: match });
+        }
+        return count;
+      });
+
+      res.json({ success: true, message: `Сопоставлено строк: ${matched}` });
+    } catch (error) {
+      console.error('Rematch bank statement error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка сопоставления' });
+    }
+  }
+);
+
+// Post confirmed lines
+router.post(
+  '/:id/post',
+  authenticate,
+  authorize('ADMIN', 'ANALYST'),
+  [body('lineIds').isArray({ min: 1 }).withMessage('Выберите строки для проведения')],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+    const { lineIds } = req.body;
+
+    try {
+      const statement = await prisma.$transaction(async (tx) => {
+        const lines = await tx.bankStatementLine.findMany({
+          where: { id: { in: lineIds }, statementId: id },
+          orderBy: { documentDate: 'asc' },
+        });
+        if (lines.length !== lineIds.length) {
+          throw new AppError('Строки не принадлежат выписке', 400);
+        }
+
+        for (const line of lines) {
+          await postStatementLine(tx, line.id, req.user!.userId);
+        }
+        return refreshStatementStatus(tx, id);
+      });
+
+      res.json({ success: true, message: `Проведено строк: ${lineIds.length}`, data: statement });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Post bank statement error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка проведения выписки' });
+    }
+  }
+);
+
+// Delete statement without posted lines
+router.delete(
+  '/:id',
+  authenticate,
+  authorize('ADMIN'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+
+    try {
+      const posted = await prisma.bankStatementLine.count({ where: { statementId: id, status: 'POSTED' } });
+      if (posted > 0) {
+        return res.status(400).json({ success: false, error: 'В выписке есть проведенные строки' });
+      }
+
+      await prisma.bankStatement.delete({ where: { id } });
+      res.json({ success: true, message: 'Выписка удалена' });
+    } catch (error) {
+      console.error('Delete bank statement error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка удаления выписки' });
+    }
+  }
+);
+
+export default router;
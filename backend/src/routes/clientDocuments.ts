@@ -0,0 +1,180 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticate, authorize } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import {
+  CLIENT_DOCUMENT_TYPES,
+  createClientDocument,
+  cancelClientDocument,
+  getClientDocument,
+  getDocumentCandidates,
+  documentFileName,
+  renderClientDocumentPdf,
+  renderClientDocumentXlsx,
+} from '../utils/clientDocuments';
+
+const router = Router();
+
+const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// List documents of an order or a client
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  const prisma: PrismaClient = (req as any).prisma;
+  const { orderId, clientId, type, status } = req.query;
+
+  try {
+    const where: any = {};
+    if (orderId) where.orderId = orderId;
+    if (clientId) where.clientId = clientId;
+    if (type) where.type = type;
+    if (status) where.status = status;
+
+    const documents = await prisma.clientDocument.findMany({
+      where,
+      include: {
+        order: { select: { id: true, orderNumber: true } },
+        _count: { select: { lines: true } },
+      },
+      orderBy: [{ documentDate: 'desc' }, { number: 'desc' }],
+    });
+
+    res.json({ success: true, data: documents });
+  } catch (error) {
+    console.error('Get client documents error:', error);
+    res.status(500).json({ success: false, error: 'Ошибка получения документов' });
+  }
+});
+
+// Order operations that can be put into a document of the given type
+router.get('/candidates', authenticate, async (req: Request, res: Response) => {
+  const prisma: PrismaClient = (req as any).prisma;
+  const { orderId, type = 'INVOICE' } = req.query;
+
+  if (!orderId) {
+    return res.status(400).json({ success: false, error: 'Укажите заказ' });
+  }
+
+  try {
+    const candidates = await getDocumentCandidates(prisma, orderId as string, type as string);
+    res.json({ success: true, data: candidates });
+  } catch (error) {
+    console.error('Get document candidates error:', error);
+    res.status(500).json({ success: false, error: 'Ошибка получения позиций для документа' });
+  }
+});
+
+// Get document with lines
+router.get('/:id', authenticate, async (req: Request, res: Response) => {
+  const prisma: PrismaClient = (req as any).prisma;
+
+  try {
+    const document = await getClientDocument(prisma, req.params.id);
+    res.json({ success: true, data: document });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
+    console.error('Get client document error:', error);
+    res.status(500).json({ success: false, error: 'Ошибка получения документа' });
+  }
+});
+
+// Download document (pdf or xlsx)
+router.get('/:id/download', authenticate, async (req: Request, res: Response) => {
+  const prisma: PrismaClient = (req as any).prisma;
+  const { format = 'pdf' } = req.query;
+
+  try {
+    const document = await getClientDocument(prisma, req.params.id);
+    const fileName = documentFileName(document);
+
+    if (format === 'xlsx') {
+      res.setHeader('Content-Type', XLSX_CONTENT_TYPE);
+      res.setHeader('Content-Disposition', `attachment; filename=${fileName}.xlsx`);
+      return res.send(renderClientDocumentXlsx(document));
+    }
+
+    const buffer = await renderClientDocumentPdf(document);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename=${fileName}.pdf`);
+    res.send(buffer);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
+    console.error('Download client document error:', error);
+    res.status(500).json({ success: false, error: 'Ошибка формирования файла документа' });
+  }
+});
+
+// Create document from order income operations and expenses
+router.post(
+  '/',
+  authenticate,
+  authorize('ADMIN', 'MANAGER'),
+  [
+    body('orderId').notEmpty().withMessage('Укажите заказ'),
+    body('type').isIn(CLIENT_DOCUMENT_TYPES).withMessage('Неверный тип документа'),
+    body('incomeOperationIds').optional().isArray(),
+    body('orderExpenseIds').optional().isArray(),
+    body('documentDate').optional().isISO8601().withMessage('Неверная дата документа'),
+  ],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const { orderId, type, incomeOperationIds, orderExpenseIds, documentDate, basis } = req.body;
+
+    try {
+      const document = await prisma.$transaction((tx) =>
+        createClientDocument(
+          tx,
+          {
+            orderId,
+            type,
+            incomeOperationIds,
+            orderExpenseIds,
+            documentDate: documentDate ? new Date(documentDate) : undefined,
+            basis,
+          },
+          req.user!.userId
+        )
+      );
+
+      res.status(201).json({ success: true, data: document });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Create client document error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка формирования документа' });
+    }
+  }
+);
+
+// Cancel document (number is not reused)
+router.post(
+  '/:id/cancel',
+  authenticate,
+  authorize('ADMIN'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+
+    try {
+      const document = await prisma.$transaction((tx) => cancelClientDocument(tx, req.params.id));
+      res.json({ success: true, data: document });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Cancel client document error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка аннулирования документа' });
+    }
+  }
+);
+
+export default router;
@@ -2,6 +2,7 @@ import { Router, Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import { PrismaClient } from '@prisma/client';
 import { authenticate, authorize } from '../middleware/auth';
+import { VAT_RATES } from '../utils/vat';
 
 const router = Router();
 
@@ -108,6 +109,7 @@ router.post(
   authorize('ADMIN', 'MANAGER'),
   [
     body('name').notEmpty().withMessage('Введите имя клиента'),
+    body('vatRate').optional({ nullable: true }).isIn(VAT_RATES).withMessage('Ставка НДС: 0, 10 или 20%'),
   ],
   async (req: Request, res: Response) => {
     const errors = validationResult(req);
@@ -116,7 +118,7 @@ router.post(
     }
 
     const prisma: PrismaClient = (req as any).prisma;
-    const { name, companyName, inn, email, phone, address, tariffRate, notes } = req.body;
+    const { name, companyName, inn, email, phone, address, tariffRate, vatRate, notes } = req.body;
 
     try {
       const client = await prisma.client.create({
@@ -128,6 +130,7 @@ router.post(
           phone,
           address,
           tariffRate,
+          vatRate,
           notes,
         },
       });
@@ -148,7 +151,7 @@ router.put(
   async (req: Request, res: Response) => {
     const prisma: PrismaClient = (req as any).prisma;
     const { id } = req.params;
-    const { name, companyName, inn, email, phone, address, tariffRate, notes, isActive } = req.body;
+    const { name, companyName, inn, email, phone, address, tariffRate, vatRate, notes, isActive } = req.body;
 
     try {
       const client = await prisma.client.update({
@@ -161,6 +164,7 @@ router.put(
           phone,
           address,
           tariffRate,
+          vatRate,
           notes,
           isActive,
         },
@@ -0,0 +1,63 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticate, authorize } from '../middleware/auth';
+import { getCompanySettings, updateCompanySettings } from '../utils/clientDocuments';
+
+const router = Router();
+
+// Get company requisites used in client documents
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  const prisma: PrismaClient = (req as any).prisma;
+
+  try {
+    const settings = await getCompanySettings(prisma);
+    res.json({ success: true, data: settings });
+  } catch (error) {
+    console.error('Get company settings error:', error);
+    res.status(500).json({ success: false, error: 'Ошибка получения реквизитов компании' });
+  }
+});
+
+// Update company requisites (Admin only)
+router.put(
+  '/',
+  authenticate,
+  authorize('ADMIN'),
+  [
+    body('name').notEmpty().withMessage('Введите название компании'),
+    body('inn').optional({ checkFalsy: true }).matches(/^\d{10}(\d{2})?$/).withMessage('ИНН должен содержать 10 или 12 цифр'),
+    body('kpp').optional({ checkFalsy: true }).matches(/^\d{9}$/).withMessage('КПП должен содержать 9 цифр'),
+    body('bik').optional({ checkFalsy: true }).matches(/^\d{9}$/).withMessage('БИК должен содержать 9 цифр'),
+    body('bankAccount').optional({ checkFalsy: true }).matches(/^\d{20}$/).withMessage('Расчетный счет должен содержать 20 цифр'),
+    body('correspondentAccount').optional({ checkFalsy: true }).matches(/^\d{20}$/)
+      .withMessage('Корреспондентский счет должен содержать 20 цифр'),
+    body('vatRate').optional().isIn([0, 10, 20, '0', '10', '20']).withMessage('Ставка НДС: 0, 10 или 20%'),
+  ],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const {
+      name, inn, kpp, ogrn, address, bankName, bik, bankAccount, correspondentAccount,
+      directorName, accountantName, vatRate,
+    } = req.body;
+
+    try {
+      const settings = await updateCompanySettings(prisma, {
+        name, inn, kpp, ogrn, address, bankName, bik, bankAccount, correspondentAccount,
+        directorName, accountantName,
+        vatRate: vatRate !== undefined ? Number(vatRate) : undefined,
+      });
+      res.json({ success: true, data: settings });
+    } catch (error) {
+      console.error('Update company settings error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка сохранения реквизитов компании' });
+    }
+  }
+);
+
+export default router;
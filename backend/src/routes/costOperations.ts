@@ -2,9 +2,39 @@ import { Router, Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import { PrismaClient } from '@prisma/client';
 import { authenticate, authorize } from '../middleware/auth';
+import { syncCostPosting } from '../utils/autoPostings';
+import { VAT_RATES } from '../utils/vat';
+import { BASE_CURRENCY, convertPrice, getExchangeRate } from '../utils/currency';
+import { AppError } from '../middleware/errorHandler';
 
 const router = Router();
 
+// Order actual cost is the sum of its cost operations; profit follows
+async function recalculateOrderTotals(prisma: PrismaClient, orderId: string) {
+  const totalCost = await prisma.costOperation.aggregate({
+    where: { orderId },
+    _sum: { actualAmount: true },
+  });
+
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: { totalIncome: true },
+  });
+
+  const newCost = totalCost._sum.actualAmount?.toNumber() || 0;
+  const income = order?.totalIncome.toNumber() || 0;
+  const profit = income - newCost;
+
+  await prisma.order.update({
+    where: { id: orderId },
+    data: {
+      actualCost: newCost,
+      profit,
+      marginPercent: income > 0 ? (profit / income) * 100 : 0,
+    },
+  });
+}
+
 // Get cost operations for an order
 router.get('/order/:orderId', authenticate, async (req: Request, res: Response) => {
   const prisma: PrismaClient = (req as any).prisma;
@@ -65,53 +95,46 @@ router.post(
         return res.status(404).json({ success: false, error: 'Услуга не найдена' });
       }
 
-      const unitPrice = service.price.toNumber();
-      const calculatedAmount = quantity * unitPrice;
-
-      const operation = await prisma.costOperation.create({
-        data: {
-          orderId,
-          vendorId,
-          vendorServiceId,
-          operationType: operationType || 'CHARGE',
-          quantity,
-          unitPrice,
-          calculatedAmount,
-          actualAmount: actualAmount || calculatedAmount,
-          description,
-        },
-        include: {
-          vendor: { select: { id: true, name: true } },
-          vendorService: { select: { id: true, name: true, type: true } },
-        },
+      // Foreign-currency price: converted to RUB at the operation date
+      const exchangeRate = await getExchangeRate(prisma, service.currency);
+      const unitPrice = convertPrice(service.price.toNumber(), exchangeRate);
+      const calculatedAmount = Math.round(quantity * unitPrice * 100) / 100;
+
+      const operation = await prisma.$transaction(async (tx) => {
+        const created = await tx.costOperation.create({
+          data: {
+            orderId,
+            vendorId,
+            vendorServiceId,
+            operationType: operationType || 'CHARGE',
+            quantity,
+            unitPrice,
+            calculatedAmount,
+            actualAmount: actualAmount || calculatedAmount,
+            currency: service.currency,
+            currencyAmount: service.currency !== BASE_CURRENCY ? quantity * service.price.toNumber() : null,
+            exchangeRate,
+            vatRate: service.vatRate,
+            description,
+          },
+          include: {
+            vendor: { select: { id: true, name: true } },
+            vendorService: { select: { id: true, name: true, type: true } },
+          },
+        });
+        // Vendor charge Dr 90.2 / Cr 60
+        await syncCostPosting(tx, created.id);
+        return created;
       });
 
       // Update order costs
-      const totalCost = await prisma.costOperation.aggregate({
-        where: { orderId },
-        _sum: { actualAmount: true },
-      });
-
-      const order = await prisma.order.findUnique({
-        where: { id: orderId },
-        select: { totalIncome: true },
-      });
-
-      const newCost = totalCost._sum.actualAmount?.toNumber() || 0;
-      const income = order?.totalIncome.toNumber() || 0;
-      const profit = income - newCost;
-
-      await prisma.order.update({
-        where: { id: orderId },
-        data: {
-          actualCost: newCost,
-          profit,
-          marginPercent: income > 0 ? (profit / income) * 100 : 0,
-        },
-      });
+      await recalculateOrderTotals(prisma, orderId);
 
       res.status(201).json({ success: true, data: operation });
     } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
       console.error('Create cost operation error:', error);
       res.status(500).json({ success: false, error: 'Ошибка создания расходной операции' });
     }
@@ -123,10 +146,18 @@ router.put(
   '/:id',
   authenticate,
   authorize('ADMIN', 'MANAGER'),
+  [
+    body('vatRate').optional().isIn(VAT_RATES).withMessage('Ставка НДС: 0, 10 или 20%'),
+  ],
   async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
     const prisma: PrismaClient = (req as any).prisma;
     const { id } = req.params;
-    const { quantity, actualAmount, description } = req.body;
+    const { quantity, actualAmount, vatRate, description } = req.body;
 
     try {
       const current = await prisma.costOperation.findUnique({ where: { id } });
@@ -139,18 +170,34 @@ router.put(
         ? quantity * current.unitPrice.toNumber() 
         : current.calculatedAmount;
 
-      const operation = await prisma.costOperation.update({
-        where: { id },
-        data: {
-          quantity: quantity || current.quantity,
-          calculatedAmount,
-          actualAmount: actualAmount || calculatedAmount,
-          description,
-        },
+      const operation = await prisma.$transaction(async (tx) => {
+        const updated = await tx.costOperation.update({
+          where: { id },
+          data: {
+            quantity: quantity || current.quantity,
+            calculatedAmount,
+            // Amount in currency follows the quantity at the original rate
+            currencyAmount: quantity && current.currencyAmount
+              ? (current.currencyAmount.toNumber() / current.quantity.toNumber()) * quantity
+              : undefined,
+            actualAmount: actualAmount || calculatedAmount,
+            vatRate,
+            description,
+          },
+        });
+        // Amount or VAT changed: correcting entries for the difference
+        await syncCostPosting(tx, id);
+        return tx.costOperation.findUnique({ where: { id: updated.id } });
       });
 
+      // Amount changed: recalculate order costs and profit
+      await recalculateOrderTotals(prisma, current.orderId);
+
       res.json({ success: true, data: operation });
     } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
       console.error('Update cost operation error:', error);
       res.status(500).json({ success: false, error: 'Ошибка обновления операции' });
     }
@@ -173,34 +220,19 @@ router.delete(
         return res.status(404).json({ success: false, error: 'Операция не найдена' });
       }
 
-      await prisma.costOperation.delete({ where: { id } });
-
-      // Recalculate order
-      const totalCost = await prisma.costOperation.aggregate({
-        where: { orderId: operation.orderId },
-        _sum: { actualAmount: true },
+      await prisma.$transaction(async (tx) => {
+        await syncCostPosting(tx, id, { remove: true });
+        await tx.costOperation.delete({ where: { id } });
       });
 
-      const order = await prisma.order.findUnique({
-        where: { id: operation.orderId },
-        select: { totalIncome: true },
-      });
-
-      const newCost = totalCost._sum.actualAmount?.toNumber() || 0;
-      const income = order?.totalIncome.toNumber() || 0;
-      const profit = income - newCost;
-
-      await prisma.order.update({
-        where: { id: operation.orderId },
-        data: {
-          actualCost: newCost,
-          profit,
-          marginPercent: income > 0 ? (profit / income) * 100 : 0,
-        },
-      });
+      // Recalculate order
+      await recalculateOrderTotals(prisma, operation.orderId);
 
       res.json({ success: true, message: 'Операция удалена' });
     } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
       console.error('Delete cost operation error:', error);
       res.status(500).json({ success: false, error: 'Ошибка удаления операции' });
     }
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { PrismaClient, OrderStatus } from '@prisma/client';
 import { authenticate } from '../middleware/auth';
+import { getReceivablesAging } from '../utils/receivables';
 
 const router = Router();
 
@@ -389,4 +390,34 @@ router.get('/orders-by-status', authenticate, async (req: Request, res: Response
   }
 });
 
+// Get receivables summary for the dashboard widget
+router.get('/receivables', authenticate, async (req: Request, res: Response) => {
+  const prisma: PrismaClient = (req as any).prisma;
+  const { limit = '5' } = req.query;
+
+  try {
+    const aging = await getReceivablesAging(prisma);
+
+    res.json({
+      success: true,
+      data: {
+        buckets: aging.buckets,
+        totals: aging.totals,
+        topDebtors: aging.clients
+          .filter((c) => c.balance > 0)
+          .slice(0, parseInt(limit as string))
+          .map((c) => ({
+            id: c.clientId,
+            name: c.clientName,
+            balance: c.balance,
+            overdue: c.overdue,
+          })),
+      },
+    });
+  } catch (error) {
+    console.error('Get receivables summary error:', error);
+    res.status(500).json({ success: false, error: 'Ошибка получения дебиторской задолженности' });
+  }
+});
+
 export default router;
@@ -0,0 +1,234 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import * as XLSX from 'xlsx';
+import { authenticate, authorize } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import {
+  CURRENCIES,
+  getExchangeRate,
+  upsertExchangeRate,
+  importCbrRates,
+  getFxDifferences,
+} from '../utils/currency';
+
+const multer = require('multer');
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 10 * 1024 * 1024 } });
+
+const router = Router();
+
+const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+function parseDay(value: unknown, endOfDay = false) {
+  const date = new Date(value as string);
+  if (endOfDay) date.setHours(23, 59, 59, 999);
+  return date;
+}
+
+// Get exchange rates
+router.get(
+  '/',
+  authenticate,
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { currency, dateFrom, dateTo } = req.query;
+
+    try {
+      const rates = await prisma.exchangeRate.findMany({
+        where: {
+          ...(currency ? { currency: currency as string } : {}),
+          rateDate: {
+            ...(dateFrom ? { gte: parseDay(dateFrom) } : {}),
+            ...(dateTo ? { lte: parseDay(dateTo, true) } : {}),
+          },
+        },
+        orderBy: [{ rateDate: 'desc' }, { currency: 'asc' }],
+        take: 500,
+      });
+
+      res.json({ success: true, data: rates });
+    } catch (error) {
+      console.error('Get exchange rates error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка получения курсов валют' });
+    }
+  }
+);
+
+// Rate in effect on a date (latest rate not later than the date)
+router.get(
+  '/rate',
+  authenticate,
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { currency, date } = req.query;
+
+    if (!currency) {
+      return res.status(400).json({ success: false, error: 'Укажите валюту' });
+    }
+
+    try {
+      const rateDate = date ? parseDay(date, true) : new Date();
+      const rate = await getExchangeRate(prisma, currency as string, rateDate);
+      res.json({ success: true, data: { currency, date: rateDate, rate } });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Get exchange rate error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка получения курса валюты' });
+    }
+  }
+);
+
+// FX differences on vendor bill payments
+router.get(
+  '/fx-differences',
+  authenticate,
+  authorize('ADMIN', 'ANALYST'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { dateFrom, dateTo, format } = req.query;
+
+    try {
+      const report = await getFxDifferences(prisma, {
+        dateFrom: dateFrom ? parseDay(dateFrom) : undefined,
+        dateTo: dateTo ? parseDay(dateTo, true) : undefined,
+      });
+
+      if (format === 'xlsx') {
+        const rows = report.rows.map(r => ({
+          'Дата оплаты': r.paymentDate.toLocaleDateString('ru-RU'),
+          'Поставщик': r.vendor.name,
+          'Счет': `${r.invoiceNumber} (${r.billNumber})`,
+          'Валюта': r.currency,
+          'Сумма в валюте': r.currencyAmount,
+          'Курс счета': r.billRate,
+          'Курс оплаты': r.paymentRate,
+          'Погашено, ₽': r.bookedAmount,
+          'Оплачено, ₽': r.paidAmount,
+          'Курсовая разница': r.fxDifference,
+        }));
+
+        const ws = XLSX.utils.json_to_sheet(rows);
+        XLSX.utils.sheet_add_aoa(ws, [
+          [],
+          ['Положительные курсовые разницы', report.totals.gain],
+          ['Отрицательные курсовые разницы', report.totals.loss],
+          ['Итого', report.totals.net],
+        ], { origin: -1 });
+        const wb = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(wb, ws, 'Курсовые разницы');
+
+        res.setHeader('Content-Type', XLSX_CONTENT_TYPE);
+        res.setHeader('Content-Disposition', 'attachment; filename=fx-differences.xlsx');
+        return res.send(XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' }));
+      }
+
+      res.json({ success: true, data: report });
+    } catch (error) {
+      console.error('Get FX differences error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка получения курсовых разниц' });
+    }
+  }
+);
+
+// Enter rate manually (overwrites the rate for the same date)
+router.post(
+  '/',
+  authenticate,
+  authorize('ADMIN', 'ANALYST'),
+  [
+    body('currency').isIn(CURRENCIES).withMessage('Неизвестная валюта'),
+    body('rateDate').isISO8601().withMessage('Неверная дата курса'),
+    body('rate').isFloat({ gt: 0 }).withMessage('Курс должен быть больше 0'),
+    body('nominal').optional().isInt({ min: 1 }).withMessage('Номинал должен быть не меньше 1'),
+  ],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const { currency, rateDate, rate, nominal } = req.body;
+
+    try {
+      // Rate is entered per nominal, as published (e.g. 1 000 KZT)
+      const units = Number(nominal) || 1;
+      const saved = await upsertExchangeRate(
+        prisma,
+        { currency, rateDate: new Date(rateDate), rate: Number(rate) / units, nominal: units },
+        req.user!.userId
+      );
+
+      res.status(201).json({ success: true, data: saved });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Create exchange rate error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка сохранения курса валюты' });
+    }
+  }
+);
+
+// Import CBR rates (XML_daily.asp or XML_dynamic.asp)
+router.post(
+  '/import',
+  authenticate,
+  authorize('ADMIN', 'ANALYST'),
+  upload.single('file'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+
+    if (!req.file) {
+      return res.status(400).json({ success: false, error: 'Файл не загружен' });
+    }
+
+    try {
+      // Only currencies used in the system are loaded from the daily file
+      const currencies = CURRENCIES.filter(c => c !== 'RUB');
+      const result = await prisma.$transaction((tx) =>
+        importCbrRates(tx, req.file!.buffer, { currencies }, req.user!.userId)
+      );
+
+      if (result.created + result.updated === 0) {
+        return res.status(400).json({ success: false, error: `В файле нет курсов ${currencies.join(', ')}` });
+      }
+
+      res.status(201).json({ success: true, data: result });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Import exchange rates error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка загрузки курсов ЦБ' });
+    }
+  }
+);
+
+// Delete rate
+router.delete(
+  '/:id',
+  authenticate,
+  authorize('ADMIN'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+
+    try {
+      const rate = await prisma.exchangeRate.findUnique({ where: { id } });
+      if (!rate) {
+        return res.status(404).json({ success: false, error: 'Курс не найден' });
+      }
+
+      await prisma.exchangeRate.delete({ where: { id } });
+      res.json({ success: true, message: 'Курс удален' });
+    } catch (error) {
+      console.error('Delete exchange rate error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка удаления курса валюты' });
+    }
+  }
+);
+
+export default router;
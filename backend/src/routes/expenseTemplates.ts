@@ -1,9 +1,128 @@
 import { Router, Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { authenticate, authorize } from '../middleware/auth';
+import {
+  FORMULA_VARIABLES,
+  FORMULA_FUNCTIONS,
+  FormulaError,
+  validateFormula,
+  evaluateFormula,
+  formulaQuantity,
+  buildFormulaVariables,
+} from '../utils/quantityFormula';
+import { matchExpenseTemplates, bestTemplateMatch, resolveMatchItems } from '../utils/expenseTemplates';
 
 const router = Router();
 
+// Ошибки формул позиций в формате ошибок валидации (с позицией символа)
+function formulaErrors(items: any[] | undefined) {
+  const errors = [];
+  for (const [index, item] of (items || []).entries()) {
+    if (!item.quantityFormula) continue;
+    const result = validateFormula(String(item.quantityFormula));
+    if (!result.valid) {
+      errors.push({
+        path: `items[${index}].quantityFormula`,
+        msg: `${item.description || `Позиция ${index + 1}`}: ${result.error}`,
+        position: result.position,
+      });
+    }
+  }
+  return errors;
+}
+
+// Переменные и функции формул количества (справка редактора)
+router.get('/formula-reference', authenticate, (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: {
+      variables: Object.entries(FORMULA_VARIABLES).map(([name, v]) => ({ name, ...v })),
+      functions: FORMULA_FUNCTIONS,
+    },
+  });
+});
+
+// Проверить формулу на заказе
+router.post(
+  '/test-formula',
+  authenticate,
+  authorize('ADMIN', 'MANAGER'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { formula, orderId } = req.body;
+
+    if (!formula) {
+      return res.status(400).json({ success: false, error: 'Введите формулу' });
+    }
+
+    const validation = validateFormula(String(formula));
+    if (!validation.valid) {
+      return res.status(400).json({ success: false, error: validation.error, position: validation.position });
+    }
+    if (!orderId) {
+      return res.json({ success: true, data: { valid: true } });
+    }
+
+    try {
+      const order = await prisma.order.findUnique({
+        where: { id: orderId },
+        include: { items: true, client: { select: { name: true } } },
+      });
+      if (!order) {
+        return res.status(404).json({ success: false, error: 'Заказ не найден' });
+      }
+
+      const variables = buildFormulaVariables(order);
+      res.json({
+        success: true,
+        data: {
+          valid: true,
+          orderNumber: order.orderNumber,
+          variables,
+          value: evaluateFormula(String(formula), variables),
+          quantity: formulaQuantity(String(formula), variables),
+        },
+      });
+    } catch (error) {
+      if (error instanceof FormulaError) {
+        return res.status(400).json({ success: false, error: error.message, position: error.position });
+      }
+      console.error('Test formula error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка проверки формулы' });
+    }
+  }
+);
+
+// Подобрать шаблон для создаваемого заказа по условиям шаблонов
+router.post(
+  '/suggest',
+  authenticate,
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { items, shippingAddress, destination, deliveryMethod } = req.body;
+
+    try {
+      const matches = await matchExpenseTemplates(prisma, {
+        items: await resolveMatchItems(prisma, Array.isArray(items) ? items : []),
+        shippingAddress,
+        destination,
+        deliveryMethod,
+      });
+
+      res.json({
+        success: true,
+        data: {
+          best: bestTemplateMatch(matches),
+          matches,
+        },
+      });
+    } catch (error) {
+      console.error('Suggest expense template error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка подбора шаблона' });
+    }
+  }
+);
+
 // Получить все шаблоны
 router.get('/', authenticate, async (req: Request, res: Response) => {
   const prisma: PrismaClient = (req as any).prisma;
@@ -83,6 +202,11 @@ router.post(
       return res.status(400).json({ success: false, error: 'Название обязательно' });
     }
 
+    const invalid = formulaErrors(items);
+    if (invalid.length > 0) {
+      return res.status(400).json({ success: false, error: invalid[0].msg, errors: invalid });
+    }
+
     try {
       const template = await prisma.expenseTemplate.create({
         data: {
@@ -102,7 +226,7 @@ router.post(
               unit: item.unit || 'PIECE',
               defaultQuantity: item.defaultQuantity || 1,
               defaultPrice: item.defaultPrice || 0,
-              quantityFormula: item.quantityFormula,
+              quantityFormula: item.quantityFormula || null,
               isRequired: item.isRequired ?? true,
               sortOrder: item.sortOrder ?? index,
             })) || [],
@@ -148,6 +272,11 @@ router.put(
       items,
     } = req.body;
 
+    const invalid = formulaErrors(items);
+    if (invalid.length > 0) {
+      return res.status(400).json({ success: false, error: invalid[0].msg, errors: invalid });
+    }
+
     try {
       const existing = await prisma.expenseTemplate.findUnique({ where: { id } });
       if (!existing) {
@@ -177,7 +306,7 @@ router.put(
               unit: item.unit || 'PIECE',
               defaultQuantity: item.defaultQuantity || 1,
               defaultPrice: item.defaultPrice || 0,
-              quantityFormula: item.quantityFormula,
+              quantityFormula: item.quantityFormula || null,
               isRequired: item.isRequired ?? true,
               sortOrder: item.sortOrder ?? index,
             })) || [],
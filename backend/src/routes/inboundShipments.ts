@@ -0,0 +1,520 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import * as XLSX from 'xlsx';
+import { authenticate, authorize } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import {
+  DISCREPANCY_LABELS,
+  generateAsnNumber,
+  putAwayInbound,
+  buildDiscrepancyReport,
+} from '../utils/inboundShipments';
+import { generateTaskNumber } from '../utils/orderFulfillment';
+import { foreignProductsError } from '../utils/productOwnership';
+
+const router = Router();
+
+const shipmentInclude = {
+  client: { select: { id: true, name: true, email: true } },
+  warehouse: { select: { id: true, name: true, code: true } },
+  task: { select: { id: true, taskNumber: true, status: true } },
+  items: { include: { product: { select: { sku: true, name: true } } } },
+};
+
+// Resolve catalog products by SKU; products of another client are rejected
+async function resolveProducts(prisma: PrismaClient, clientId: string, skus: string[]) {
+  const products = await prisma.product.findMany({
+    where: { sku: { in: skus } },
+    include: { client: { select: { name: true } } },
+  });
+
+  const foreign = products.filter(p => p.clientId && p.clientId !== clientId);
+  if (foreign.length > 0) {
+    throw new AppError(
+      foreignProductsError(foreign.map(p => ({
+        id: p.id,
+        sku: p.sku,
+        name: p.name,
+        clientId: p.clientId!,
+        clientName: p.client?.name || '',
+      }))),
+      400
+    );
+  }
+
+  return new Map(products.map(p => [p.sku, p]));
+}
+
+// Get all inbound shipments
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  const prisma: PrismaClient = (req as any).prisma;
+  const { status, clientId, warehouseId } = req.query;
+
+  try {
+    const where: any = {};
+    if (status) where.status = status;
+    if (clientId) where.clientId = clientId;
+    if (warehouseId) where.warehouseId = warehouseId;
+
+    const shipments = await prisma.inboundShipment.findMany({
+      where,
+      include: {
+        client: { select: { id: true, name: true } },
+        warehouse: { select: { id: true, name: true, code: true } },
+        task: { select: { id: true, taskNumber: true, status: true } },
+        _count: { select: { items: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json({ success: true, data: shipments });
+  } catch (error) {
+    console.error('Get inbound shipments error:', error);
+    res.status(500).json({ success: false, error: 'Ошибка получения поставок' });
+  }
+});
+
+// Get single inbound shipment (with discrepancy report once received)
+router.get('/:id', authenticate, async (req: Request, res: Response) => {
+  const prisma: PrismaClient = (req as any).prisma;
+  const { id } = req.params;
+
+  try {
+    const shipment = await prisma.inboundShipment.findUnique({
+      where: { id },
+      include: shipmentInclude,
+    });
+
+    if (!shipment) {
+      return res.status(404).json({ success: false, error: 'Поставка не найдена' });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...shipment,
+        report: shipment.status === 'RECEIVED' ? buildDiscrepancyReport(shipment) : null,
+      },
+    });
+  } catch (error) {
+    console.error('Get inbound shipment error:', error);
+    res.status(500).json({ success: false, error: 'Ошибка получения поставки' });
+  }
+});
+
+// Discrepancy report (JSON or XLSX/CSV export for the client)
+router.get('/:id/discrepancies', authenticate, async (req: Request, res: Response) => {
+  const prisma: PrismaClient = (req as any).prisma;
+  const { id } = req.params;
+  const { format = 'json' } = req.query;
+
+  try {
+    const shipment = await prisma.inboundShipment.findUnique({
+      where: { id },
+      include: shipmentInclude,
+    });
+
+    if (!shipment) {
+      return res.status(404).json({ success: false, error: 'Поставка не найдена' });
+    }
+    if (shipment.status !== 'RECEIVED') {
+      return res.status(400).json({ success: false, error: 'Поставка еще не принята' });
+    }
+
+    const report = buildDiscrepancyReport(shipment);
+
+    if (format === 'xlsx' || format === 'csv') {
+      const rows = report.lines.map(line => ({
+        'SKU': line.sku,
+        'Наименование': line.name,
+        'Отгрузили': line.expectedQty,
+        'Приняли': line.receivedQty,
+        'Повреждено': line.damagedQty,
+        'Расхождение': line.difference,
+        'Тип расхождения': line.types.map(t => DISCREPANCY_LABELS[t]).join(', '),
+      }));
+
+      const ws = XLSX.utils.aoa_to_sheet([
+        [`Акт расхождений по поставке ${shipment.asnNumber}`],
+        [`Клиент: ${shipment.client.name}`, shipment.externalNumber ? `Накладная: ${shipment.externalNumber}` : ''],
+        [`Склад: ${shipment.warehouse.name}`, `Принято: ${shipment.receivedAt?.toLocaleDateString('ru-RU') || ''}`],
+      ]);
+      XLSX.utils.sheet_add_json(ws, rows, { origin: 'A5' });
+
+      const wb = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(wb, ws, 'Акт расхождений');
+
+      const buffer = XLSX.write(wb, {
+        type: 'buffer',
+        bookType: format === 'csv' ? 'csv' : 'xlsx',
+      });
+
+      const contentType = format === 'csv'
+        ? 'text/csv'
+        : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+      res.setHeader('Content-Type', contentType);
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename=discrepancies-${shipment.asnNumber}.${format}`
+      );
+      return res.send(buffer);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        asnNumber: shipment.asnNumber,
+        externalNumber: shipment.externalNumber,
+        client: shipment.client,
+        receivedAt: shipment.receivedAt,
+        ...report,
+      },
+    });
+  } catch (error) {
+    console.error('Get discrepancy report error:', error);
+    res.status(500).json({ success: false, error: 'Ошибка формирования акта расхождений' });
+  }
+});
+
+// Create ASN and its receiving task
+router.post(
+  '/',
+  authenticate,
+  authorize('ADMIN', 'MANAGER', 'WAREHOUSE'),
+  [
+    body('clientId').notEmpty().withMessage('Выберите клиента'),
+    body('warehouseId').notEmpty().withMessage('Выберите склад'),
+    body('items').isArray({ min: 1 }).withMessage('Добавьте позиции поставки'),
+    body('items.*.sku').trim().notEmpty().withMessage('Укажите SKU'),
+    body('items.*.quantity').isInt({ min: 1 }).withMessage('Количество должно быть больше 0'),
+    body('items.*.expiryDate').optional({ nullable: true, checkFalsy: true }).isISO8601().withMessage('Неверный срок годности'),
+    body('expectedDate').optional({ nullable: true, checkFalsy: true }).isISO8601().withMessage('Неверная дата поставки'),
+  ],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const { clientId, warehouseId, locationId, externalNumber, expectedDate, notes, items } = req.body;
+
+    try {
+      const client = await prisma.client.findUnique({ where: { id: clientId } });
+      if (!client) {
+        return res.status(404).json({ success: false, error: 'Клиент не найден' });
+      }
+
+      const warehouse = await prisma.warehouse.findUnique({ where: { id: warehouseId } });
+      if (!warehouse) {
+        return res.status(404).json({ success: false, error: 'Склад не найден' });
+      }
+
+      if (locationId) {
+        const location = await prisma.storageLocation.findFirst({ where: { id: locationId, warehouseId } });
+        if (!location) {
+          return res.status(400).json({ success: false, error: 'Ячейка не относится к складу поставки' });
+        }
+      }
+
+      const products = await resolveProducts(prisma, clientId, items.map((i: any) => i.sku.trim()));
+
+      const shipment = await prisma.$transaction(async (tx) => {
+        const asnNumber = await generateAsnNumber(tx);
+
+        const task = await tx.warehouseTask.create({
+          data: {
+            taskNumber: await generateTaskNumber(tx),
+            warehouseId,
+            type: 'RECEIVING',
+            plannedDate: expectedDate ? new Date(expectedDate) : null,
+            notes: `Приемка по ASN ${asnNumber}${externalNumber ? ` (накладная ${externalNumber})` : ''}, клиент ${client.name}`,
+          },
+        });
+
+        const created = await tx.inboundShipment.create({
+          data: {
+            asnNumber,
+            clientId,
+            warehouseId,
+            taskId: task.id,
+            externalNumber,
+            expectedDate: expectedDate ? new Date(expectedDate) : null,
+            createdById: req.user!.userId,
+            notes,
+          },
+        });
+
+        for (const item of items) {
+          const sku = item.sku.trim();
+          const product = products.get(sku);
+
+          // Unknown SKUs stay on the ASN for the report but are not put on the task
+          const taskItem = product
+            ? await tx.taskItem.create({
+                data: {
+                  taskId: task.id,
+                  productId: product.id,
+                  expectedQty: Number(item.quantity),
+                  toLocationId: locationId || null,
+                  notes: [sku, item.batchNumber ? `партия ${item.batchNumber}` : ''].filter(Boolean).join(', '),
+                },
+              })
+            : null;
+
+          await tx.inboundShipmentItem.create({
+            data: {
+              shipmentId: created.id,
+              productId: product?.id || null,
+              taskItemId: taskItem?.id || null,
+              sku,
+              name: item.name || product?.name || null,
+              expectedQty: Number(item.quantity),
+              batchNumber: item.batchNumber || null,
+              expiryDate: item.expiryDate ? new Date(item.expiryDate) : null,
+              locationId: locationId || null,
+            },
+          });
+        }
+
+        return tx.inboundShipment.findUnique({
+          where: { id: created.id },
+          include: shipmentInclude,
+        });
+      });
+
+      res.status(201).json({ success: true, data: shipment });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Create inbound shipment error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка создания поставки' });
+    }
+  }
+);
+
+// Receive shipment: actual and damaged quantities, goods outside the ASN
+router.post(
+  '/:id/receive',
+  authenticate,
+  authorize('ADMIN', 'MANAGER', 'WAREHOUSE'),
+  [
+    body('items').optional().isArray(),
+    body('items.*.receivedQty').optional().isInt({ min: 0 }).withMessage('Неверное принятое количество'),
+    body('items.*.damagedQty').optional().isInt({ min: 0 }).withMessage('Неверное количество повреждений'),
+    body('extraItems').optional().isArray(),
+    body('extraItems.*.sku').optional().trim().notEmpty().withMessage('Укажите SKU'),
+    body('extraItems.*.quantity').optional().isInt({ min: 0 }).withMessage('Неверное количество'),
+  ],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+    const { locationId } = req.body;
+    const lines: any[] = req.body.items || [];
+    const extraItems: any[] = req.body.extraItems || [];
+
+    try {
+      const shipment = await prisma.inboundShipment.findUnique({
+        where: { id },
+        include: { items: true },
+      });
+
+      if (!shipment) {
+        return res.status(404).json({ success: false, error: 'Поставка не найдена' });
+      }
+      if (shipment.status !== 'EXPECTED') {
+        return res.status(400).json({ success: false, error: 'Поставка уже принята или отменена' });
+      }
+
+      const products = await resolveProducts(prisma, shipment.clientId, extraItems.map(i => i.sku.trim()));
+
+      const result = await prisma.$transaction(async (tx) => {
+        const reason = `Приемка по ASN ${shipment.asnNumber}`;
+
+        const receiveLine = async (
+          item: { productId: string | null; batchNumber: string | null; expiryDate: Date | null; locationId: string | null },
+          receivedQty: number,
+          targetLocationId: string | null
+        ) => {
+          if (!item.productId || receivedQty === 0) return;
+          if (!targetLocationId) {
+            throw new AppError('Укажите ячейку размещения', 400);
+          }
+          await putAwayInbound(tx, {
+            productId: item.productId,
+            locationId: targetLocationId,
+            quantity: receivedQty,
+            batchNumber: item.batchNumber,
+            expiryDate: item.expiryDate,
+            taskId: shipment.taskId,
+            reason,
+            userId: req.user!.userId,
+          });
+        };
+
+        for (const item of shipment.items) {
+          const line = lines.find(l => l.id === item.id) || {};
+          const receivedQty = Number(line.receivedQty ?? item.expectedQty);
+          const damagedQty = Number(line.damagedQty ?? 0);
+          const targetLocationId = line.locationId || locationId || item.locationId;
+
+          await receiveLine(item, receivedQty, targetLocationId);
+
+          await tx.inboundShipmentItem.update({
+            where: { id: item.id },
+            data: {
+              receivedQty,
+              damagedQty,
+              locationId: item.productId && receivedQty > 0 ? targetLocationId : item.locationId,
+              notes: !item.productId && receivedQty > 0 ? 'Не размещен: SKU нет в каталоге' : line.notes,
+            },
+          });
+
+          if (item.taskItemId) {
+            await tx.taskItem.update({
+              where: { id: item.taskItemId },
+              data: { actualQty: receivedQty, toLocationId: targetLocationId, isCompleted: true },
+            });
+          }
+        }
+
+        // Goods that arrived without being announced
+        for (const extra of extraItems) {
+          const sku = extra.sku.trim();
+          const product = products.get(sku);
+          const receivedQty = Number(extra.quantity || 0);
+          const damagedQty = Number(extra.damagedQty || 0);
+          const targetLocationId = extra.locationId || locationId || null;
+          const item = {
+            productId: product?.id || null,
+            batchNumber: extra.batchNumber || null,
+            expiryDate: null,
+            locationId: targetLocationId,
+          };
+
+          await receiveLine(item, receivedQty, targetLocationId);
+
+          const taskItem = product && shipment.taskId
+            ? await tx.taskItem.create({
+                data: {
+                  taskId: shipment.taskId,
+                  productId: product.id,
+                  expectedQty: 0,
+                  actualQty: receivedQty,
+                  toLocationId: targetLocationId,
+                  isCompleted: true,
+                  notes: `${sku}, сверх ASN`,
+                },
+              })
+            : null;
+
+          await tx.inboundShipmentItem.create({
+            data: {
+              shipmentId: shipment.id,
+              productId: product?.id || null,
+              taskItemId: taskItem?.id || null,
+              sku,
+              name: extra.name || product?.name || null,
+              expectedQty: 0,
+              receivedQty,
+              damagedQty,
+              batchNumber: item.batchNumber,
+              locationId: product && receivedQty > 0 ? targetLocationId : null,
+              notes: product ? 'Сверх уведомления' : 'Не размещен: SKU нет в каталоге',
+            },
+          });
+        }
+
+        if (shipment.taskId) {
+          await tx.warehouseTask.update({
+            where: { id: shipment.taskId },
+            data: { status: 'COMPLETED', completedAt: new Date() },
+          });
+        }
+
+        await tx.inboundShipment.update({
+          where: { id },
+          data: { status: 'RECEIVED', receivedAt: new Date() },
+        });
+
+        return tx.inboundShipment.findUnique({
+          where: { id },
+          include: shipmentInclude,
+        });
+      });
+
+      const report = buildDiscrepancyReport(result!);
+
+      res.json({
+        success: true,
+        message: report.summary.hasDiscrepancies
+          ? `Поставка принята с расхождениями: ${report.discrepancies.length} поз.`
+          : 'Поставка принята без расхождений',
+        data: { ...result, report },
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Receive inbound shipment error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка приемки поставки' });
+    }
+  }
+);
+
+// Cancel shipment before receiving has started
+router.post(
+  '/:id/cancel',
+  authenticate,
+  authorize('ADMIN', 'MANAGER'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+
+    try {
+      const shipment = await prisma.inboundShipment.findUnique({ where: { id } });
+
+      if (!shipment) {
+        return res.status(404).json({ success: false, error: 'Поставка не найдена' });
+      }
+      if (shipment.status !== 'EXPECTED') {
+        return res.status(400).json({ success: false, error: 'Отменить можно только ожидаемую поставку' });
+      }
+
+      const started = shipment.taskId
+        ? await prisma.taskItem.count({ where: { taskId: shipment.taskId, isCompleted: true } })
+        : 0;
+      if (started > 0) {
+        return res.status(400).json({ success: false, error: 'Приемка поставки уже начата' });
+      }
+
+      const cancelled = await prisma.$transaction(async (tx) => {
+        if (shipment.taskId) {
+          await tx.warehouseTask.update({
+            where: { id: shipment.taskId },
+            data: { status: 'CANCELLED', notes: `Отменена: поставка ${shipment.asnNumber} отменена` },
+          });
+        }
+        return tx.inboundShipment.update({
+          where: { id },
+          data: { status: 'CANCELLED' },
+        });
+      });
+
+      res.json({ success: true, message: 'Поставка отменена', data: cancelled });
+    } catch (error) {
+      console.error('Cancel inbound shipment error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка отмены поставки' });
+    }
+  }
+);
+
+export default router;
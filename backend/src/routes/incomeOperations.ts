@@ -2,6 +2,11 @@ import { Router, Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import { PrismaClient } from '@prisma/client';
 import { authenticate, authorize } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { receivePayment, unallocatePayment } from '../utils/payments';
+import { syncIncomePosting } from '../utils/autoPostings';
+import { refreshOrderProfit } from '../utils/returns';
+import { getClientVatRate, VAT_RATES } from '../utils/vat';
 
 const router = Router();
 
@@ -61,47 +66,56 @@ router.post(
         return res.status(404).json({ success: false, error: 'Заказ не найден' });
       }
 
-      const operation = await prisma.incomeOperation.create({
-        data: {
-          orderId,
-          clientId: order.clientId,
-          invoiceAmount,
-          paidAmount: paidAmount || 0,
-          paymentMethod,
-          paymentDate: paymentDate ? new Date(paymentDate) : null,
-          description,
-        },
-        include: {
-          client: { select: { id: true, name: true } },
-        },
-      });
-
-      // Update order income
-      const totalIncome = await prisma.incomeOperation.aggregate({
-        where: { orderId },
-        _sum: { paidAmount: true },
-      });
-
-      const currentOrder = await prisma.order.findUnique({
-        where: { id: orderId },
-        select: { actualCost: true },
-      });
-
-      const income = totalIncome._sum.paidAmount?.toNumber() || 0;
-      const cost = currentOrder?.actualCost.toNumber() || 0;
-      const profit = income - cost;
-
-      await prisma.order.update({
-        where: { id: orderId },
-        data: {
-          totalIncome: income,
-          profit,
-          marginPercent: income > 0 ? (profit / income) * 100 : 0,
-        },
+      const operation = await prisma.$transaction(async (tx) => {
+        const created = await tx.incomeOperation.create({
+          data: {
+            orderId,
+            clientId: order.clientId,
+            invoiceAmount,
+            paidAmount: 0,
+            vatRate: await getClientVatRate(tx, order.clientId),
+            paymentMethod,
+            paymentDate: paymentDate ? new Date(paymentDate) : null,
+            description,
+          },
+        });
+
+        // Invoice Dr 62 / Cr 90.1
+        await syncIncomePosting(tx, created.id);
+
+        // Paid right away: register the payment so it is posted Dr 51 / Cr 62
+        const paid = Number(paidAmount) || 0;
+        if (paid > 0) {
+          const toAllocate = Math.min(paid, Number(invoiceAmount));
+          await receivePayment(
+            tx,
+            {
+              clientId: order.clientId,
+              amount: paid,
+              paymentDate: paymentDate ? new Date(paymentDate) : undefined,
+              paymentMethod,
+              allocations: toAllocate > 0 ? [{ incomeOperationId: created.id, amount: toAllocate }] : undefined,
+            },
+            req.user!.userId
+          );
+        }
+
+        // Order revenue is the sum of its invoices
+        await refreshOrderProfit(tx, orderId);
+
+        return tx.incomeOperation.findUnique({
+          where: { id: created.id },
+          include: {
+            client: { select: { id: true, name: true } },
+          },
+        });
       });
 
       res.status(201).json({ success: true, data: operation });
     } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
       console.error('Create income operation error:', error);
       res.status(500).json({ success: false, error: 'Ошибка создания приходной операции' });
     }
@@ -114,7 +128,7 @@ router.post(
   authenticate,
   authorize('ADMIN', 'MANAGER'),
   [
-    body('amount').isNumeric().withMessage('Укажите сумму платежа'),
+    body('amount').isFloat({ gt: 0 }).withMessage('Укажите сумму платежа'),
   ],
   async (req: Request, res: Response) => {
     const errors = validationResult(req);
@@ -133,43 +147,32 @@ router.post(
         return res.status(404).json({ success: false, error: 'Операция не найдена' });
       }
 
-      const newPaidAmount = current.paidAmount.toNumber() + amount;
-
-      const operation = await prisma.incomeOperation.update({
-        where: { id },
-        data: {
-          paidAmount: newPaidAmount,
-          paymentMethod,
-          paymentDate: paymentDate ? new Date(paymentDate) : new Date(),
-        },
-      });
-
-      // Update order
-      const totalIncome = await prisma.incomeOperation.aggregate({
-        where: { orderId: current.orderId },
-        _sum: { paidAmount: true },
-      });
-
-      const order = await prisma.order.findUnique({
-        where: { id: current.orderId },
-        select: { actualCost: true },
-      });
-
-      const income = totalIncome._sum.paidAmount?.toNumber() || 0;
-      const cost = order?.actualCost.toNumber() || 0;
-      const profit = income - cost;
-
-      await prisma.order.update({
-        where: { id: current.orderId },
-        data: {
-          totalIncome: income,
-          profit,
-          marginPercent: income > 0 ? (profit / income) * 100 : 0,
-        },
+      // Payment goes through the payment register: posting Dr 51 / Cr 62,
+      // the excess over the open amount stays as client credit
+      const open = current.invoiceAmount.toNumber() - current.paidAmount.toNumber();
+      const toAllocate = Math.round(Math.min(Number(amount), open) * 100) / 100;
+
+      const operation = await prisma.$transaction(async (tx) => {
+        await receivePayment(
+          tx,
+          {
+            clientId: current.clientId,
+            amount: Number(amount),
+            paymentDate: paymentDate ? new Date(paymentDate) : undefined,
+            paymentMethod,
+            allocations: toAllocate > 0 ? [{ incomeOperationId: id, amount: toAllocate }] : undefined,
+          },
+          req.user!.userId
+        );
+
+        return tx.incomeOperation.findUnique({ where: { id } });
       });
 
       res.json({ success: true, data: operation });
     } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
       console.error('Record payment error:', error);
       res.status(500).json({ success: false, error: 'Ошибка записи платежа' });
     }
@@ -181,24 +184,42 @@ router.put(
   '/:id',
   authenticate,
   authorize('ADMIN', 'MANAGER'),
+  [
+    body('vatRate').optional().isIn(VAT_RATES).withMessage('Ставка НДС: 0, 10 или 20%'),
+  ],
   async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
     const prisma: PrismaClient = (req as any).prisma;
     const { id } = req.params;
-    const { invoiceAmount, paidAmount, paymentMethod, description } = req.body;
+    // Payments are recorded only through the payment register (Dr 51 / Cr 62)
+    const { invoiceAmount, paymentMethod, vatRate, description } = req.body;
 
     try {
-      const operation = await prisma.incomeOperation.update({
-        where: { id },
-        data: {
-          invoiceAmount,
-          paidAmount,
-          paymentMethod,
-          description,
-        },
+      const operation = await prisma.$transaction(async (tx) => {
+        const updated = await tx.incomeOperation.update({
+          where: { id },
+          data: {
+            invoiceAmount,
+            paymentMethod,
+            vatRate,
+            description,
+          },
+        });
+        // Invoice amount or VAT changed: correcting entries for the difference
+        await syncIncomePosting(tx, id);
+        await refreshOrderProfit(tx, updated.orderId);
+        return tx.incomeOperation.findUnique({ where: { id: updated.id } });
       });
 
       res.json({ success: true, data: operation });
     } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
       console.error('Update income operation error:', error);
       res.status(500).json({ success: false, error: 'Ошибка обновления операции' });
     }
@@ -221,10 +242,22 @@ router.delete(
         return res.status(404).json({ success: false, error: 'Операция не найдена' });
       }
 
-      await prisma.incomeOperation.delete({ where: { id } });
+      await prisma.$transaction(async (tx) => {
+        // Allocated payments return to client credit
+        const allocations = await tx.paymentAllocation.findMany({ where: { incomeOperationId: id } });
+        for (const allocation of allocations) {
+          await unallocatePayment(tx, allocation.id);
+        }
+        await syncIncomePosting(tx, id, { remove: true });
+        await tx.incomeOperation.delete({ where: { id } });
+        await refreshOrderProfit(tx, operation.orderId);
+      });
 
       res.json({ success: true, message: 'Операция удалена' });
     } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
       console.error('Delete income operation error:', error);
       res.status(500).json({ success: false, error: 'Ошибка удаления операции' });
     }
@@ -0,0 +1,590 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { authenticate, authorize } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import {
+  COUNT_TYPES,
+  ACTIVE_COUNT_STATUSES,
+  generateCountNumber,
+  needsRecount,
+  resolveLineResult,
+  recordLineCount,
+  releaseLocations,
+  postCountVariances,
+} from '../utils/inventoryCounts';
+import { generateTaskNumber } from '../utils/orderFulfillment';
+
+const router = Router();
+
+const countInclude = {
+  warehouse: { select: { id: true, name: true, code: true } },
+  task: { select: { id: true, taskNumber: true, status: true } },
+  lines: {
+    include: {
+      location: { select: { id: true, code: true } },
+      product: { select: { id: true, sku: true, name: true } },
+    },
+    orderBy: [{ location: { code: 'asc' as const } }],
+  },
+};
+
+// Blind count: storekeepers do not see book quantities or the first count while counting
+function hideExpected(count: any, role: string) {
+  if (role !== 'WAREHOUSE' || !['COUNTING', 'RECOUNT'].includes(count.status)) {
+    return count;
+  }
+  return {
+    ...count,
+    lines: count.lines.map((line: any) => ({
+      ...line,
+      expectedQty: null,
+      countedQty: count.status === 'RECOUNT' ? null : line.countedQty,
+      variance: null,
+      varianceAmount: null,
+      unitCost: null,
+    })),
+  };
+}
+
+// Put lines on the counting task; expected quantity stays 0 so the task is blind too
+async function addTaskItems(
+  tx: Prisma.TransactionClient,
+  taskId: string,
+  lines: Array<{ id: string; productId: string; locationId: string; product?: { sku: string } | null }>
+) {
+  for (const line of lines) {
+    const taskItem = await tx.taskItem.create({
+      data: {
+        taskId,
+        productId: line.productId,
+        expectedQty: 0,
+        fromLocationId: line.locationId,
+        notes: line.product?.sku,
+      },
+    });
+    await tx.inventoryCountLine.update({
+      where: { id: line.id },
+      data: { taskItemId: taskItem.id },
+    });
+  }
+}
+
+// Send lines back for a recount on a fresh set of task items
+async function requestRecount(tx: Prisma.TransactionClient, count: { id: string; taskId: string | null }, lineIds: string[]) {
+  await tx.inventoryCountLine.updateMany({
+    where: { id: { in: lineIds } },
+    data: { recountRequired: true, recountQty: null },
+  });
+
+  if (count.taskId) {
+    const lines = await tx.inventoryCountLine.findMany({
+      where: { id: { in: lineIds } },
+      include: { product: { select: { sku: true } } },
+    });
+    await addTaskItems(tx, count.taskId, lines);
+    await tx.warehouseTask.update({
+      where: { id: count.taskId },
+      data: { status: 'IN_PROGRESS', completedAt: null },
+    });
+  }
+
+  return tx.inventoryCount.update({
+    where: { id: count.id },
+    data: { status: 'RECOUNT' },
+  });
+}
+
+// Get all counts
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  const prisma: PrismaClient = (req as any).prisma;
+  const { status, warehouseId } = req.query;
+
+  try {
+    const where: any = {};
+    if (status) where.status = status;
+    if (warehouseId) where.warehouseId = warehouseId;
+
+    const counts = await prisma.inventoryCount.findMany({
+      where,
+      include: {
+        warehouse: { select: { id: true, name: true, code: true } },
+        task: { select: { id: true, taskNumber: true, status: true } },
+        _count: { select: { lines: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json({ success: true, data: counts });
+  } catch (error) {
+    console.error('Get inventory counts error:', error);
+    res.status(500).json({ success: false, error: 'Ошибка получения инвентаризаций' });
+  }
+});
+
+// Get single count with lines
+router.get('/:id', authenticate, async (req: Request, res: Response) => {
+  const prisma: PrismaClient = (req as any).prisma;
+  const { id } = req.params;
+
+  try {
+    const count = await prisma.inventoryCount.findUnique({
+      where: { id },
+      include: countInclude,
+    });
+
+    if (!count) {
+      return res.status(404).json({ success: false, error: 'Инвентаризация не найдена' });
+    }
+
+    const frozenLocations = await prisma.storageLocation.findMany({
+      where: { frozenByCountId: id },
+      select: { id: true, code: true },
+      orderBy: { code: 'asc' },
+    });
+
+    res.json({ success: true, data: { ...hideExpected(count, req.user!.role), frozenLocations } });
+  } catch (error) {
+    console.error('Get inventory count error:', error);
+    res.status(500).json({ success: false, error: 'Ошибка получения инвентаризации' });
+  }
+});
+
+// Start a count: freeze locations, snapshot book stock, create the counting task
+router.post(
+  '/',
+  authenticate,
+  authorize('ADMIN', 'MANAGER'),
+  [
+    body('warehouseId').notEmpty().withMessage('Выберите склад'),
+    body('type').isIn(COUNT_TYPES).withMessage('Неверный тип инвентаризации'),
+    body('locationIds').optional().isArray(),
+    body('recountThresholdPct').optional().isFloat({ min: 0 }).withMessage('Неверный порог пересчета'),
+  ],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const { warehouseId, type, recountThresholdPct, plannedDate, assignedToId, notes } = req.body;
+    const locationIds: string[] = req.body.locationIds || [];
+
+    try {
+      const warehouse = await prisma.warehouse.findUnique({ where: { id: warehouseId } });
+      if (!warehouse) {
+        return res.status(404).json({ success: false, error: 'Склад не найден' });
+      }
+      if (type === 'CYCLE' && locationIds.length === 0) {
+        return res.status(400).json({ success: false, error: 'Выберите ячейки для пересчета' });
+      }
+
+      const locations = await prisma.storageLocation.findMany({
+        where: type === 'FULL' ? { warehouseId } : { warehouseId, id: { in: locationIds } },
+      });
+
+      if (locations.length === 0) {
+        return res.status(400).json({ success: false, error: 'На складе нет ячеек для пересчета' });
+      }
+      if (type === 'CYCLE' && locations.length !== new Set(locationIds).size) {
+        return res.status(400).json({ success: false, error: 'Ячейки не относятся к выбранному складу' });
+      }
+
+      const frozen = locations.filter(l => l.frozenByCountId);
+      if (frozen.length > 0) {
+        return res.status(409).json({
+          success: false,
+          error: `Ячейки уже в инвентаризации: ${frozen.map(l => l.code).join(', ')}`,
+        });
+      }
+
+      const count = await prisma.$transaction(async (tx) => {
+        const countNumber = await generateCountNumber(tx);
+
+        const task = await tx.warehouseTask.create({
+          data: {
+            taskNumber: await generateTaskNumber(tx),
+            warehouseId,
+            type: 'INVENTORY',
+            assignedToId,
+            plannedDate: plannedDate ? new Date(plannedDate) : null,
+            notes: `${type === 'FULL' ? 'Полная инвентаризация' : 'Выборочный пересчет'} ${countNumber}`,
+          },
+        });
+
+        const created = await tx.inventoryCount.create({
+          data: {
+            countNumber,
+            warehouseId,
+            taskId: task.id,
+            type,
+            recountThresholdPct: recountThresholdPct ?? 5,
+            createdById: req.user!.userId,
+            notes,
+          },
+        });
+
+        const ids = locations.map(l => l.id);
+        await tx.storageLocation.updateMany({
+          where: { id: { in: ids } },
+          data: { frozenByCountId: created.id },
+        });
+
+        // Book stock at the moment of freezing
+        const stocks = await tx.productStock.findMany({
+          where: { storageLocationId: { in: ids }, quantity: { gt: 0 } },
+          include: { product: { select: { sku: true, unitCost: true } } },
+        });
+
+        const lines = [];
+        for (const stock of stocks) {
+          const line = await tx.inventoryCountLine.create({
+            data: {
+              countId: created.id,
+              locationId: stock.storageLocationId,
+              productId: stock.productId,
+              batchNumber: stock.batchNumber,
+              expectedQty: stock.quantity,
+              unitCost: stock.product.unitCost,
+            },
+          });
+          lines.push({ ...line, product: stock.product });
+        }
+
+        await addTaskItems(tx, task.id, lines);
+
+        return tx.inventoryCount.findUnique({
+          where: { id: created.id },
+          include: countInclude,
+        });
+      });
+
+      res.status(201).json({ success: true, data: count });
+    } catch (error) {
+      console.error('Create inventory count error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка создания инвентаризации' });
+    }
+  }
+);
+
+// Record counted quantities; goods found in a frozen location get a new line
+router.post(
+  '/:id/counts',
+  authenticate,
+  authorize('ADMIN', 'MANAGER', 'WAREHOUSE'),
+  [
+    body('counts').optional().isArray(),
+    body('counts.*.lineId').notEmpty().withMessage('Не указана строка'),
+    body('counts.*.quantity').isInt({ min: 0 }).withMessage('Неверное количество'),
+    body('found').optional().isArray(),
+    body('found.*.locationId').notEmpty().withMessage('Укажите ячейку'),
+    body('found.*.sku').trim().notEmpty().withMessage('Укажите SKU'),
+    body('found.*.quantity').isInt({ min: 1 }).withMessage('Количество должно быть больше 0'),
+  ],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+    const counts: any[] = req.body.counts || [];
+    const found: any[] = req.body.found || [];
+
+    try {
+      const count = await prisma.inventoryCount.findUnique({
+        where: { id },
+        include: { lines: { select: { id: true } } },
+      });
+
+      if (!count) {
+        return res.status(404).json({ success: false, error: 'Инвентаризация не найдена' });
+      }
+      if (found.length > 0 && count.status !== 'COUNTING') {
+        return res.status(400).json({ success: false, error: 'Новые позиции добавляются только при первом пересчете' });
+      }
+
+      const lineIds = new Set(count.lines.map(l => l.id));
+      if (counts.some(c => !lineIds.has(c.lineId))) {
+        return res.status(400).json({ success: false, error: 'Строка не относится к инвентаризации' });
+      }
+
+      await prisma.$transaction(async (tx) => {
+        for (const c of counts) {
+          await recordLineCount(tx, c.lineId, Number(c.quantity), req.user!.userId);
+        }
+
+        for (const f of found) {
+          const location = await tx.storageLocation.findFirst({
+            where: { id: f.locationId, frozenByCountId: id },
+          });
+          if (!location) {
+            throw new AppError('Ячейка не входит в инвентаризацию', 400);
+          }
+
+          const sku = f.sku.trim();
+          const product = await tx.product.findFirst({
+            where: { OR: [{ sku }, { barcode: sku }] },
+          });
+          if (!product) {
+            throw new AppError(`Товар ${sku} не найден в каталоге`, 400);
+          }
+
+          const line = await tx.inventoryCountLine.create({
+            data: {
+              countId: id,
+              locationId: location.id,
+              productId: product.id,
+              batchNumber: f.batchNumber || null,
+              expectedQty: 0,
+              unitCost: product.unitCost,
+            },
+          });
+          if (count.taskId) {
+            await addTaskItems(tx, count.taskId, [{ ...line, product }]);
+          }
+          await recordLineCount(tx, line.id, Number(f.quantity), req.user!.userId);
+        }
+      });
+
+      const updated = await prisma.inventoryCount.findUnique({
+        where: { id },
+        include: countInclude,
+      });
+
+      res.json({ success: true, data: hideExpected(updated, req.user!.role) });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Record inventory count error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка записи пересчета' });
+    }
+  }
+);
+
+// Finish a counting round: lines over the threshold go to recount, otherwise to review
+router.post(
+  '/:id/submit',
+  authenticate,
+  authorize('ADMIN', 'MANAGER', 'WAREHOUSE'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+
+    try {
+      const count = await prisma.inventoryCount.findUnique({
+        where: { id },
+        include: { lines: true },
+      });
+
+      if (!count) {
+        return res.status(404).json({ success: false, error: 'Инвентаризация не найдена' });
+      }
+      if (count.status !== 'COUNTING' && count.status !== 'RECOUNT') {
+        return res.status(400).json({ success: false, error: 'Пересчет по инвентаризации уже завершен' });
+      }
+
+      const pending = count.lines.filter(line =>
+        count.status === 'COUNTING' ? line.countedQty === null : line.recountRequired && line.recountQty === null
+      );
+      if (pending.length > 0) {
+        return res.status(400).json({ success: false, error: `Не посчитано строк: ${pending.length}` });
+      }
+
+      const threshold = Number(count.recountThresholdPct);
+      const recountIds = count.status === 'COUNTING'
+        ? count.lines.filter(l => needsRecount(l.expectedQty, l.countedQty!, threshold)).map(l => l.id)
+        : [];
+
+      const updated = await prisma.$transaction(async (tx) => {
+        if (recountIds.length > 0) {
+          return requestRecount(tx, count, recountIds);
+        }
+
+        for (const line of count.lines) {
+          await tx.inventoryCountLine.update({
+            where: { id: line.id },
+            data: resolveLineResult(line),
+          });
+        }
+
+        if (count.taskId) {
+          await tx.warehouseTask.update({
+            where: { id: count.taskId },
+            data: { status: 'COMPLETED', completedAt: new Date() },
+          });
+        }
+
+        return tx.inventoryCount.update({
+          where: { id },
+          data: { status: 'REVIEW', submittedAt: new Date() },
+        });
+      });
+
+      res.json({
+        success: true,
+        message: recountIds.length > 0
+          ? `Расхождение выше порога: ${recountIds.length} строк отправлено на повторный пересчет`
+          : 'Пересчет завершен, инвентаризация передана на утверждение',
+        data: updated,
+      });
+    } catch (error) {
+      console.error('Submit inventory count error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка завершения пересчета' });
+    }
+  }
+);
+
+// Supervisor sends selected lines back for another count
+router.post(
+  '/:id/recount',
+  authenticate,
+  authorize('ADMIN', 'MANAGER'),
+  [body('lineIds').isArray({ min: 1 }).withMessage('Выберите строки для пересчета')],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+    const { lineIds } = req.body;
+
+    try {
+      const count = await prisma.inventoryCount.findUnique({
+        where: { id },
+        include: { lines: { select: { id: true } } },
+      });
+
+      if (!count) {
+        return res.status(404).json({ success: false, error: 'Инвентаризация не найдена' });
+      }
+      if (count.status !== 'REVIEW') {
+        return res.status(400).json({ success: false, error: 'Пересчет назначается только на этапе утверждения' });
+      }
+
+      const ids = new Set(count.lines.map(l => l.id));
+      if (lineIds.some((lineId: string) => !ids.has(lineId))) {
+        return res.status(400).json({ success: false, error: 'Строка не относится к инвентаризации' });
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        await tx.inventoryCountLine.updateMany({
+          where: { countId: id, id: { notIn: lineIds } },
+          data: { recountRequired: false },
+        });
+        return requestRecount(tx, count, lineIds);
+      });
+
+      res.json({ success: true, message: 'Строки отправлены на повторный пересчет', data: updated });
+    } catch (error) {
+      console.error('Request recount error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка назначения пересчета' });
+    }
+  }
+);
+
+// Approve and post variances: adjust stock, post cost-valued differences, unfreeze
+router.post(
+  '/:id/approve',
+  authenticate,
+  authorize('ADMIN', 'MANAGER'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+
+    try {
+      const count = await prisma.inventoryCount.findUnique({ where: { id } });
+
+      if (!count) {
+        return res.status(404).json({ success: false, error: 'Инвентаризация не найдена' });
+      }
+      if (count.status !== 'REVIEW') {
+        return res.status(400).json({ success: false, error: 'Утвердить можно только завершенный пересчет' });
+      }
+
+      const { posted, releasedOrders } = await prisma.$transaction(async (tx) => {
+        const { surplusAmount, shortageAmount, releasedOrders } = await postCountVariances(tx, id, req.user!.userId);
+        await releaseLocations(tx, id);
+
+        const updated = await tx.inventoryCount.update({
+          where: { id },
+          data: {
+            status: 'POSTED',
+            surplusAmount,
+            shortageAmount,
+            approvedById: req.user!.userId,
+            postedAt: new Date(),
+          },
+          include: countInclude,
+        });
+        return { posted: updated, releasedOrders };
+      });
+
+      // Shortage below reserved quantity: those orders have to be re-reserved
+      const warnings = releasedOrders.length > 0
+        ? [`Недостаточно товара под резервы, резерв снят по заказам: ${releasedOrders.join(', ')}`]
+        : [];
+
+      res.json({
+        success: true,
+        message: `Инвентаризация проведена: излишки ${Number(posted.surplusAmount).toFixed(2)}, недостача ${Number(posted.shortageAmount).toFixed(2)}`,
+        data: posted,
+        warnings,
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Approve inventory count error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка проведения инвентаризации' });
+    }
+  }
+);
+
+// Cancel count without touching stock and unfreeze locations
+router.post(
+  '/:id/cancel',
+  authenticate,
+  authorize('ADMIN', 'MANAGER'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+
+    try {
+      const count = await prisma.inventoryCount.findUnique({ where: { id } });
+
+      if (!count) {
+        return res.status(404).json({ success: false, error: 'Инвентаризация не найдена' });
+      }
+      if (!ACTIVE_COUNT_STATUSES.includes(count.status)) {
+        return res.status(400).json({ success: false, error: 'Инвентаризация уже закрыта' });
+      }
+
+      const cancelled = await prisma.$transaction(async (tx) => {
+        await releaseLocations(tx, id);
+        if (count.taskId) {
+          await tx.warehouseTask.update({
+            where: { id: count.taskId },
+            data: { status: 'CANCELLED', notes: `Отменена: инвентаризация ${count.countNumber} отменена` },
+          });
+        }
+        return tx.inventoryCount.update({
+          where: { id },
+          data: { status: 'CANCELLED' },
+        });
+      });
+
+      res.json({ success: true, message: 'Инвентаризация отменена', data: cancelled });
+    } catch (error) {
+      console.error('Cancel inventory count error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка отмены инвентаризации' });
+    }
+  }
+);
+
+export default router;
@@ -1,19 +1,15 @@
 import { Router, Request, Response } from 'express';
 import { PrismaClient, Prisma } from '@prisma/client';
 import { authenticate, authorize } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { splitVat } from '../utils/vat';
+import { BASE_CURRENCY, toRubPrice } from '../utils/currency';
+import { syncExpensePosting } from '../utils/autoPostings';
+import { applyExpenseTemplate } from '../utils/expenseTemplates';
+import { EXPENSE_CATEGORIES, recalculateOrderCost } from '../utils/orderExpenses';
 
 const router = Router();
 
-// Категории расходов
-const EXPENSE_CATEGORIES = {
-  PACKAGING: { name: 'Упаковка', description: 'Пакеты, коробки, материалы' },
-  LABOR: { name: 'ФОТ', description: 'Фонд оплаты труда сотрудников' },
-  RENT: { name: 'Аренда', description: 'Аренда склада/оборудования' },
-  LOGISTICS: { name: 'Логистика', description: 'Доставка, транспорт' },
-  MATERIALS: { name: 'Материалы', description: 'Расходные материалы' },
-  OTHER: { name: 'Прочее', description: 'Другие расходы' },
-};
-
 // Получить список категорий расходов
 router.get('/categories', authenticate, async (_req: Request, res: Response) => {
   res.json({
@@ -38,7 +34,7 @@ router.get(
         where: { orderId },
         include: {
           vendor: { select: { id: true, name: true } },
-          vendorService: { select: { id: true, name: true, type: true, unit: true, price: true } },
+          vendorService: { select: { id: true, name: true, type: true, unit: true, price: true, vatRate: true } },
         },
         orderBy: [{ category: 'asc' }, { createdAt: 'asc' }],
       });
@@ -99,6 +95,8 @@ router.post(
       unitPrice,
       plannedAmount,
       isPriceLocked,
+      vatRate,
+      currency,
       notes,
     } = req.body;
 
@@ -112,6 +110,8 @@ router.post(
       // Если указана услуга поставщика, получаем актуальную цену
       let actualUnitPrice = unitPrice;
       let originalPrice = null;
+      let expenseVatRate = Number(vatRate) || 0;
+      let expenseCurrency = currency || BASE_CURRENCY;
       
       if (vendorServiceId) {
         const service = await prisma.vendorService.findUnique({
@@ -122,43 +122,53 @@ router.post(
         if (service) {
           actualUnitPrice = unitPrice ?? Number(service.price);
           originalPrice = Number(service.price);
+          expenseVatRate = vatRate !== undefined ? Number(vatRate) : Number(service.vatRate);
+          expenseCurrency = currency || service.currency;
         }
       }
 
-      const totalAmount = Number(quantity || 1) * Number(actualUnitPrice || 0);
+      const price = await toRubPrice(prisma, Number(actualUnitPrice || 0), expenseCurrency);
+      const totalAmount = Number(quantity || 1) * price.unitPrice;
       const finalPlannedAmount = plannedAmount ?? totalAmount;
 
-      const expense = await prisma.orderExpense.create({
-        data: {
-          orderId,
-          category: category || 'OTHER',
-          subcategory,
-          vendorId,
-          vendorServiceId,
-          description: description || 'Расход',
-          unit: unit || 'PIECE',
-          quantity: quantity || 1,
-          unitPrice: actualUnitPrice || 0,
-          totalAmount,
-          plannedAmount: finalPlannedAmount,
-          actualAmount: 0,
-          isPriceLocked: isPriceLocked || false,
-          priceLockedAt: isPriceLocked ? new Date() : null,
-          originalPrice,
-          status: 'PLANNED',
-          notes,
-        },
-        include: {
-          vendor: { select: { id: true, name: true } },
-          vendorService: { select: { id: true, name: true, type: true, unit: true, price: true } },
-        },
-      });
+      const expense = await prisma.$transaction(async (tx) => {
+        const created = await tx.orderExpense.create({
+          data: {
+            orderId,
+            category: category || 'OTHER',
+            subcategory,
+            vendorId,
+            vendorServiceId,
+            description: description || 'Расход',
+            unit: unit || 'PIECE',
+            quantity: quantity || 1,
+            ...price,
+            totalAmount,
+            plannedAmount: finalPlannedAmount,
+            actualAmount: 0,
+            ...splitVat(totalAmount, expenseVatRate),
+            isPriceLocked: isPriceLocked || false,
+            priceLockedAt: isPriceLocked ? new Date() : null,
+            originalPrice,
+            status: 'PLANNED',
+            notes,
+          },
+          include: {
+            vendor: { select: { id: true, name: true } },
+            vendorService: { select: { id: true, name: true, type: true, unit: true, price: true, vatRate: true } },
+          },
+        });
 
-      // Пересчитать стоимость заказа
-      await recalculateOrderCost(prisma, orderId);
+        // Пересчитать стоимость заказа и провести расход
+        await recalculateOrderCost(tx, orderId);
+        return created;
+      });
 
       res.status(201).json({ success: true, data: expense });
     } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
       console.error('Create order expense error:', error);
       res.status(500).json({ success: false, error: 'Ошибка создания расхода' });
     }
@@ -185,6 +195,7 @@ router.put(
       plannedAmount,
       actualAmount,
       isPriceLocked,
+      vatRate,
       status,
       notes,
     } = req.body;
@@ -199,36 +210,43 @@ router.put(
       const newUnitPrice = unitPrice ?? existing.unitPrice;
       const newTotalAmount = Number(newQuantity) * Number(newUnitPrice);
 
-      const expense = await prisma.orderExpense.update({
-        where: { id },
-        data: {
-          category,
-          subcategory,
-          vendorId,
-          vendorServiceId,
-          description,
-          unit,
-          quantity: newQuantity,
-          unitPrice: newUnitPrice,
-          totalAmount: newTotalAmount,
-          plannedAmount: plannedAmount ?? newTotalAmount,
-          actualAmount,
-          isPriceLocked,
-          priceLockedAt: isPriceLocked && !existing.isPriceLocked ? new Date() : existing.priceLockedAt,
-          status,
-          notes,
-        },
-        include: {
-          vendor: { select: { id: true, name: true } },
-          vendorService: { select: { id: true, name: true, type: true, unit: true, price: true } },
-        },
-      });
+      const expense = await prisma.$transaction(async (tx) => {
+        const updated = await tx.orderExpense.update({
+          where: { id },
+          data: {
+            category,
+            subcategory,
+            vendorId,
+            vendorServiceId,
+            description,
+            unit,
+            quantity: newQuantity,
+            unitPrice: newUnitPrice,
+            totalAmount: newTotalAmount,
+            plannedAmount: plannedAmount ?? newTotalAmount,
+            actualAmount,
+            vatRate,
+            isPriceLocked,
+            priceLockedAt: isPriceLocked && !existing.isPriceLocked ? new Date() : existing.priceLockedAt,
+            status,
+            notes,
+          },
+          include: {
+            vendor: { select: { id: true, name: true } },
+            vendorService: { select: { id: true, name: true, type: true, unit: true, price: true, vatRate: true } },
+          },
+        });
 
-      // Пересчитать стоимость заказа
-      await recalculateOrderCost(prisma, existing.orderId);
+        // Пересчитать стоимость заказа, проводки — на разницу
+        await recalculateOrderCost(tx, existing.orderId);
+        return updated;
+      });
 
       res.json({ success: true, data: expense });
     } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
       console.error('Update order expense error:', error);
       res.status(500).json({ success: false, error: 'Ошибка обновления расхода' });
     }
@@ -250,13 +268,20 @@ router.delete(
         return res.status(404).json({ success: false, error: 'Расход не найден' });
       }
 
-      await prisma.orderExpense.delete({ where: { id } });
+      await prisma.$transaction(async (tx) => {
+        // Сторно проводок расхода до удаления
+        await syncExpensePosting(tx, id, { remove: true });
+        await tx.orderExpense.delete({ where: { id } });
 
-      // Пересчитать стоимость заказа
-      await recalculateOrderCost(prisma, expense.orderId);
+        // Пересчитать стоимость заказа
+        await recalculateOrderCost(tx, expense.orderId);
+      });
 
       res.json({ success: true, message: 'Расход удален' });
     } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
       console.error('Delete order expense error:', error);
       res.status(500).json({ success: false, error: 'Ошибка удаления расхода' });
     }
@@ -295,21 +320,28 @@ router.post(
           unit,
           quantity,
           unitPrice,
+          vatRate,
+          currency,
           notes,
         } = expenseData;
 
         let actualUnitPrice = unitPrice;
         let originalPrice = null;
+        let expenseVatRate = Number(vatRate) || 0;
+        let expenseCurrency = currency || BASE_CURRENCY;
 
         if (vendorServiceId) {
           const service = await prisma.vendorService.findUnique({ where: { id: vendorServiceId } });
           if (service) {
             actualUnitPrice = unitPrice ?? Number(service.price);
             originalPrice = Number(service.price);
+            expenseVatRate = vatRate !== undefined ? Number(vatRate) : Number(service.vatRate);
+            expenseCurrency = currency || service.currency;
           }
         }
 
-        const totalAmount = Number(quantity || 1) * Number(actualUnitPrice || 0);
+        const price = await toRubPrice(prisma, Number(actualUnitPrice || 0), expenseCurrency);
+        const totalAmount = Number(quantity || 1) * price.unitPrice;
 
         const expense = await prisma.orderExpense.create({
           data: {
@@ -321,10 +353,11 @@ router.post(
             description: description || 'Расход',
             unit: unit || 'PIECE',
             quantity: quantity || 1,
-            unitPrice: actualUnitPrice || 0,
+            ...price,
             totalAmount,
             plannedAmount: totalAmount,
             actualAmount: 0,
+            ...splitVat(totalAmount, expenseVatRate),
             originalPrice,
             status: 'PLANNED',
             notes,
@@ -337,6 +370,9 @@ router.post(
 
       res.status(201).json({ success: true, data: createdExpenses, count: createdExpenses.length });
     } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
       console.error('Bulk create expenses error:', error);
       res.status(500).json({ success: false, error: 'Ошибка массового создания расходов' });
     }
@@ -370,18 +406,24 @@ router.post(
 
       for (const src of sourceExpenses) {
         // Получить актуальную цену услуги, если она привязана
-        let unitPrice = Number(src.unitPrice);
+        let unitPrice = src.currency !== BASE_CURRENCY && src.currencyPrice ? Number(src.currencyPrice) : Number(src.unitPrice);
         let originalPrice = src.originalPrice ? Number(src.originalPrice) : null;
+        let vatRate = Number(src.vatRate);
+        let currency = src.currency;
 
         if (src.vendorServiceId) {
           const service = await prisma.vendorService.findUnique({ where: { id: src.vendorServiceId } });
           if (service) {
             unitPrice = Number(service.price);
             originalPrice = Number(service.price);
+            vatRate = Number(service.vatRate);
+            currency = service.currency;
           }
         }
 
-        const totalAmount = Number(src.quantity) * unitPrice;
+        // Валютная цена пересчитывается по текущему курсу
+        const price = await toRubPrice(prisma, unitPrice, currency);
+        const totalAmount = Number(src.quantity) * price.unitPrice;
 
         const expense = await prisma.orderExpense.create({
           data: {
@@ -393,10 +435,11 @@ router.post(
             description: src.description,
             unit: src.unit,
             quantity: src.quantity,
-            unitPrice,
+            ...price,
             totalAmount,
             plannedAmount: totalAmount,
             actualAmount: 0,
+            ...splitVat(totalAmount, vatRate),
             originalPrice,
             status: 'PLANNED',
             notes: src.notes,
@@ -414,6 +457,9 @@ router.post(
         message: `Скопировано ${createdExpenses.length} расходов`,
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
       console.error('Clone expenses error:', error);
       res.status(500).json({ success: false, error: 'Ошибка клонирования расходов' });
     }
@@ -457,91 +503,23 @@ router.post(
     const { orderId, templateId } = req.params;
 
     try {
-      const [order, template] = await Promise.all([
-        prisma.order.findUnique({
-          where: { id: orderId },
-          include: { items: true },
-        }),
-        prisma.expenseTemplate.findUnique({
-          where: { id: templateId },
-          include: {
-            items: {
-              include: { vendorService: true },
-              orderBy: { sortOrder: 'asc' },
-            },
-          },
-        }),
-      ]);
-
-      if (!order) {
-        return res.status(404).json({ success: false, error: 'Заказ не найден' });
-      }
-
-      if (!template) {
-        return res.status(404).json({ success: false, error: 'Шаблон не найден' });
-      }
-
-      const createdExpenses = [];
-      const orderItemsCount = order.items.length;
-      const totalWeight = order.items.reduce((sum, item) => sum + Number(item.weight) * item.quantity, 0);
-      const totalVolume = order.items.reduce((sum, item) => sum + Number(item.volume) * item.quantity, 0);
-
-      for (const item of template.items) {
-        let quantity = Number(item.defaultQuantity);
-
-        // Применить формулу расчета количества
-        if (item.quantityFormula) {
-          try {
-            const formula = item.quantityFormula
-              .replace(/itemsCount/g, String(orderItemsCount))
-              .replace(/totalWeight/g, String(totalWeight))
-              .replace(/totalVolume/g, String(totalVolume));
-            quantity = Math.ceil(eval(formula));
-          } catch (e) {
-            // Используем дефолтное количество при ошибке в формуле
-          }
-        }
-
-        let unitPrice = Number(item.defaultPrice);
-        let originalPrice = null;
-
-        if (item.vendorServiceId && item.vendorService) {
-          unitPrice = Number(item.vendorService.price);
-          originalPrice = unitPrice;
-        }
-
-        const totalAmount = quantity * unitPrice;
-
-        const expense = await prisma.orderExpense.create({
-          data: {
-            orderId,
-            category: item.category,
-            subcategory: item.subcategory,
-            vendorServiceId: item.vendorServiceId,
-            vendorId: item.vendorService?.vendorId,
-            description: item.description,
-            unit: item.unit,
-            quantity,
-            unitPrice,
-            totalAmount,
-            plannedAmount: totalAmount,
-            actualAmount: 0,
-            originalPrice,
-            status: 'PLANNED',
-          },
-        });
-        createdExpenses.push(expense);
-      }
-
-      await recalculateOrderCost(prisma, orderId);
+      const { template, expenses: createdExpenses, warnings } = await prisma.$transaction(async (tx) => {
+        const applied = await applyExpenseTemplate(tx, orderId, templateId);
+        await recalculateOrderCost(tx, orderId);
+        return applied;
+      });
 
       res.status(201).json({
         success: true,
         data: createdExpenses,
         count: createdExpenses.length,
+        warnings,
         message: `Применен шаблон "${template.name}"`,
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
       console.error('Apply template error:', error);
       res.status(500).json({ success: false, error: 'Ошибка применения шаблона' });
     }
@@ -610,42 +588,4 @@ router.get(
   }
 );
 
-// Функция пересчета себестоимости заказа
-async function recalculateOrderCost(prisma: PrismaClient, orderId: string) {
-  const expenses = await prisma.orderExpense.findMany({
-    where: { orderId },
-  });
-
-  const totalCost = expenses.reduce((sum, e) => {
-    const amount = Number(e.actualAmount) > 0 ? Number(e.actualAmount) : Number(e.totalAmount);
-    return sum + amount;
-  }, 0);
-
-  // Получаем данные о товарах для расчета выручки
-  const order = await prisma.order.findUnique({
-    where: { id: orderId },
-    include: { items: true },
-  });
-
-  if (!order) return;
-
-  const itemsCost = order.items.reduce((sum, item) => sum + Number(item.unitCost) * item.quantity, 0);
-  const itemsRevenue = order.items.reduce((sum, item) => sum + Number(item.unitPrice) * item.quantity, 0);
-
-  const actualCost = totalCost + itemsCost;
-  const totalIncome = itemsRevenue > 0 ? itemsRevenue : Number(order.totalIncome);
-  const profit = totalIncome - actualCost;
-  const marginPercent = totalIncome > 0 ? (profit / totalIncome) * 100 : 0;
-
-  await prisma.order.update({
-    where: { id: orderId },
-    data: {
-      estimatedCost: totalCost,
-      actualCost,
-      profit,
-      marginPercent,
-    },
-  });
-}
-
 export default router;
@@ -2,6 +2,28 @@ import { Router, Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import { PrismaClient, Prisma } from '@prisma/client';
 import { authenticate, authorize } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { resolveClientTariff, calculateTariffIncome } from '../utils/tariffs';
+import { calculateOrderCosts, evaluateOrderPricing } from '../utils/pricingRules';
+import { findForeignProducts, foreignProductsError } from '../utils/productOwnership';
+import { reserveOrderStock, releaseOrderStock, StockShortageError } from '../utils/stockReservation';
+import { createPickingTasks } from '../utils/orderFulfillment';
+import {
+  ORDER_STATUSES,
+  assertTransition,
+  getAllowedTransitions,
+  statusDates,
+  recordStatusChange,
+} from '../utils/orderStatus';
+import { syncOrderPostings } from '../utils/autoPostings';
+import { getClientVatRate, getServiceVatRate } from '../utils/vat';
+import { getExchangeRate } from '../utils/currency';
+import {
+  matchExpenseTemplates,
+  bestTemplateMatch,
+  describeTemplateMatch,
+  applyExpenseTemplate,
+} from '../utils/expenseTemplates';
 
 const router = Router();
 
@@ -15,96 +37,65 @@ const generateOrderNumber = (): string => {
   return `ORD-${year}${month}${day}-${random}`;
 };
 
-// Calculate order costs from vendor services
-const calculateOrderCosts = async (
-  prisma: PrismaClient,
-  items: Array<{ weight: number; volume: number; quantity: number }>
+// Normalize request items for cost calculation
+const toPricingItems = (items: any[]) =>
+  items.map((item: any) => ({
+    weight: Number(item.weight) || 0,
+    volume: Number(item.volume) || 0,
+    quantity: Number(item.quantity) || 1,
+    category: item.category || null,
+  }));
+
+// Status side effects: reserve stock on PROCESSING, create picking tasks on PICKING,
+// release stock and cancel open tasks on CANCELLED
+const applyStatusEffects = async (
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  previousStatus: string,
+  status: string
 ) => {
-  // Get active services
-  const services = await prisma.vendorService.findMany({
-    where: { isActive: true },
-    include: { vendor: { select: { id: true, name: true } } },
-  });
-
-  const totalWeight = items.reduce((sum, item) => sum + (item.weight * item.quantity), 0);
-  const totalVolume = items.reduce((sum, item) => sum + (item.volume * item.quantity), 0);
-  const totalItems = items.reduce((sum, item) => sum + item.quantity, 0);
-
-  const costs: Array<{
-    vendorId: string;
-    vendorServiceId: string;
-    quantity: number;
-    unitPrice: number;
-    calculatedAmount: number;
-    description: string;
-  }> = [];
-
-  // Find applicable services
-  for (const service of services) {
-    let quantity = 0;
-    let applicable = false;
-
-    switch (service.type) {
-      case 'PICKING':
-        if (service.unit === 'ORDER') {
-          quantity = 1;
-          applicable = true;
-        } else if (service.unit === 'PIECE') {
-          quantity = totalItems;
-          applicable = totalItems > 0;
-        }
-        break;
-
-      case 'PACKING':
-        if (service.unit === 'ORDER') {
-          quantity = 1;
-          applicable = true;
-        }
-        break;
-
-      case 'SHIPPING':
-        // Select shipping service based on weight
-        if (service.unit === 'ORDER') {
-          if (service.name.includes('до 1кг') && totalWeight <= 1) {
-            quantity = 1;
-            applicable = true;
-          } else if (service.name.includes('1-5кг') && totalWeight > 1 && totalWeight <= 5) {
-            quantity = 1;
-            applicable = true;
-          } else if (service.name.includes('5-10кг') && totalWeight > 5 && totalWeight <= 10) {
-            quantity = 1;
-            applicable = true;
-          } else if (totalWeight > 10 && service.name.includes('10')) {
-            quantity = 1;
-            applicable = true;
-          }
-        } else if (service.unit === 'KG') {
-          quantity = totalWeight;
-          applicable = totalWeight > 0;
-        }
-        break;
-
-      case 'STORAGE':
-        // Skip storage calculation for now (monthly)
-        break;
-    }
-
-    if (applicable && quantity > 0) {
-      const unitPrice = service.price.toNumber();
-      costs.push({
-        vendorId: service.vendorId,
-        vendorServiceId: service.id,
-        quantity,
-        unitPrice,
-        calculatedAmount: quantity * unitPrice,
-        description: `${service.vendor.name}: ${service.name}`,
-      });
-    }
+  if (status === previousStatus) return;
+
+  if (status === 'PROCESSING') {
+    await reserveOrderStock(tx, orderId);
+  } else if (status === 'PICKING') {
+    await createPickingTasks(tx, orderId);
+  } else if (status === 'CANCELLED') {
+    await releaseOrderStock(tx, orderId);
+    await tx.warehouseTask.updateMany({
+      where: { orderId, status: { in: ['NEW', 'IN_PROGRESS'] } },
+      data: { status: 'CANCELLED', notes: 'Отменена вместе с заказом' },
+    });
   }
+};
 
-  return costs;
+// Validate transition, run side effects, update order and write history
+const changeStatus = async (
+  tx: Prisma.TransactionClient,
+  order: { id: string; status: string },
+  status: string,
+  user: { userId: string; role: string },
+  comment?: string
+) => {
+  assertTransition(order.status, status, user.role);
+  await applyStatusEffects(tx, order.id, order.status, status);
+  await recordStatusChange(tx, {
+    orderId: order.id,
+    fromStatus: order.status,
+    toStatus: status,
+    changedById: user.userId,
+    comment,
+  });
+  return { status, ...statusDates(status) };
 };
 
+const shortageResponse = (res: Response, error: StockShortageError) =>
+  res.status(409).json({
+    success: false,
+    error: error.message,
+    data: { shortages: error.shortages },
+  });
+
 // Get all orders with filtering
 router.get('/', authenticate, async (req: Request, res: Response) => {
   const prisma: PrismaClient = (req as any).prisma;
@@ -183,7 +174,24 @@ router.get('/:id', authenticate, async (req: Request, res: Response) => {
       include: {
         client: true,
         manager: { select: { id: true, firstName: true, lastName: true, email: true } },
-        items: true,
+        expenseTemplate: { select: { id: true, name: true } },
+        items: {
+          include: {
+            product: { select: { id: true, sku: true, name: true } },
+            reservations: {
+              include: {
+                productStock: {
+                  select: {
+                    id: true,
+                    batchNumber: true,
+                    expiryDate: true,
+                    storageLocation: { select: { id: true, code: true } },
+                  },
+                },
+              },
+            },
+          },
+        },
         expenses: {
           include: {
             vendor: { select: { id: true, name: true } },
@@ -210,8 +218,9 @@ router.get('/:id', authenticate, async (req: Request, res: Response) => {
       (sum, op) => sum + op.actualAmount.toNumber(),
       0
     );
+    // Revenue is invoiced income; payments do not change it
     const totalIncome = order.incomeOperations.reduce(
-      (sum, op) => sum + op.paidAmount.toNumber(),
+      (sum, op) => sum + op.invoiceAmount.toNumber(),
       0
     );
     const profit = totalIncome - totalCost;
@@ -232,6 +241,7 @@ router.get('/:id', authenticate, async (req: Request, res: Response) => {
       success: true,
       data: {
         ...order,
+        allowedTransitions: getAllowedTransitions(order.status, req.user!.role),
         pnl: {
           totalCost,
           totalIncome,
@@ -251,6 +261,64 @@ router.get('/:id', authenticate, async (req: Request, res: Response) => {
   }
 });
 
+// Preview order cost calculation with matched pricing rules
+router.post(
+  '/cost-preview',
+  authenticate,
+  [
+    body('items').isArray({ min: 1 }).withMessage('Добавьте хотя бы один товар'),
+  ],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const { items, destination, palletCount, boxCount, date, showSkipped } = req.body;
+
+    try {
+      const pricingDate = date ? new Date(date) : new Date();
+      const evaluations = await evaluateOrderPricing(
+        prisma,
+        {
+          items: toPricingItems(items),
+          destination,
+          palletCount: Number(palletCount) || 0,
+          boxCount: Number(boxCount) || 0,
+        },
+        pricingDate
+      );
+
+      // Foreign-currency services are totalled in RUB at the pricing date
+      const lines = [];
+      for (const evaluation of evaluations.filter(e => e.applicable)) {
+        const exchangeRate = await getExchangeRate(prisma, evaluation.currency, pricingDate);
+        lines.push({
+          ...evaluation,
+          exchangeRate,
+          amountRub: Math.round(evaluation.calculatedAmount * exchangeRate * 100) / 100,
+        });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          lines,
+          skipped: showSkipped ? evaluations.filter(e => !e.applicable) : undefined,
+          totalCost: lines.reduce((sum, l) => sum + l.amountRub, 0),
+        },
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Order cost preview error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка расчета себестоимости' });
+    }
+  }
+);
+
 // Create order with auto-cost calculation
 router.post(
   '/',
@@ -267,7 +335,20 @@ router.post(
     }
 
     const prisma: PrismaClient = (req as any).prisma;
-    const { clientId, items, shippingAddress, notes, incomeAmount } = req.body;
+    const {
+      clientId,
+      items,
+      shippingAddress,
+      destination,
+      palletCount,
+      boxCount,
+      notes,
+      incomeAmount,
+      reserveStock,
+      deliveryMethod,
+      expenseTemplateId,
+      autoApplyTemplate = true,
+    } = req.body;
 
     try {
       // Verify client exists
@@ -276,12 +357,131 @@ router.post(
         return res.status(404).json({ success: false, error: 'Клиент не найден' });
       }
 
+      // Order items must not reference another client's products
+      const foreignProducts = await findForeignProducts(prisma, clientId, {
+        productIds: items.map((item: any) => item.productId),
+        skus: items.map((item: any) => item.sku),
+      });
+      if (foreignProducts.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: foreignProductsError(foreignProducts),
+          data: foreignProducts,
+        });
+      }
+
+      // Link items to catalog products (by productId or SKU) and fill missing attributes
+      const catalog = await prisma.product.findMany({
+        where: {
+          OR: [
+            { id: { in: items.map((item: any) => item.productId).filter(Boolean) } },
+            { sku: { in: items.map((item: any) => item.sku).filter(Boolean) } },
+          ],
+        },
+      });
+      const missingProduct = items.find(
+        (item: any) => item.productId && !catalog.some(p => p.id === item.productId)
+      );
+      if (missingProduct) {
+        return res.status(404).json({ success: false, error: `Товар не найден: ${missingProduct.sku || missingProduct.productId}` });
+      }
+
+      const linkedItems = items.map((item: any) => {
+        const product = catalog.find(p => p.id === item.productId)
+          || (item.sku ? catalog.find(p => p.sku === item.sku) : undefined);
+        if (!product) return item;
+
+        return {
+          ...item,
+          productId: product.id,
+          sku: item.sku || product.sku,
+          name: item.name || product.name,
+          category: item.category || product.category,
+          weight: item.weight || product.unitWeight.toNumber(),
+          volume: item.volume || product.unitVolume.toNumber(),
+          unitCost: item.unitCost || product.unitCost.toNumber(),
+        };
+      });
+
       // Calculate estimated costs
-      const estimatedCosts = await calculateOrderCosts(prisma, items);
+      const estimatedCosts = await calculateOrderCosts(prisma, {
+        items: toPricingItems(linkedItems),
+        destination,
+        palletCount: palletCount || 0,
+        boxCount: boxCount || 0,
+      });
       const estimatedCostTotal = estimatedCosts.reduce((sum, c) => sum + c.calculatedAmount, 0);
 
-      // Calculate income (from request or based on client tariff)
-      const income = incomeAmount || (estimatedCostTotal * (client.tariffRate?.toNumber() || 1.3));
+      // Price order lines by client tariff sheet
+      const orderItems = linkedItems.map((item: any) => ({
+        productId: item.productId || null,
+        sku: item.sku || '',
+        name: item.name,
+        category: item.category || null,
+        quantity: item.quantity || 1,
+        weight: item.weight || 0,
+        volume: item.volume || 0,
+        unitCost: item.unitCost || 0,
+        unitPrice: item.unitPrice || 0,
+      }));
+
+      const tariff = await resolveClientTariff(prisma, clientId);
+      const tariffIncome = tariff
+        ? calculateTariffIncome(tariff, {
+            items: orderItems,
+            destination,
+            palletCount: palletCount || 0,
+            boxCount: boxCount || 0,
+          })
+        : null;
+
+      // Services (delivery, per-order fee) are not goods: they are invoiced separately
+      const serviceCharges: { description: string; amount: number }[] = [];
+      if (tariffIncome) {
+        for (const line of tariffIncome.lines) {
+          if (line.itemIndex !== null) {
+            if (!orderItems[line.itemIndex].unitPrice) {
+              orderItems[line.itemIndex].unitPrice = line.unitPrice;
+            }
+          } else if (line.amount > 0) {
+            serviceCharges.push({ description: line.description, amount: line.amount });
+          }
+        }
+      }
+
+      const goodsTotal = orderItems.reduce(
+        (sum: number, item: any) => sum + Number(item.unitPrice) * item.quantity,
+        0
+      );
+      const tariffTotal = goodsTotal + serviceCharges.reduce((sum, c) => sum + c.amount, 0);
+      const invoiceByTariff = !incomeAmount && !!tariffIncome && tariffTotal > 0;
+
+      // Calculate income (from request, client tariff sheet or legacy tariff multiplier)
+      const income = incomeAmount
+        || (invoiceByTariff ? tariffTotal : 0)
+        || (estimatedCostTotal * (client.tariffRate?.toNumber() || 1.3));
+
+      // Expense template: chosen by the manager or the best match by template conditions
+      let templateChoice: { templateId: string; reason: string } | null = null;
+      if (expenseTemplateId) {
+        templateChoice = { templateId: expenseTemplateId, reason: 'Выбран менеджером' };
+      } else if (autoApplyTemplate) {
+        const best = bestTemplateMatch(await matchExpenseTemplates(prisma, {
+          items: linkedItems.map((item: any) => ({
+            category: item.category,
+            quantity: Number(item.quantity) || 1,
+            weight: Number(item.weight) || 0,
+          })),
+          shippingAddress,
+          destination,
+          deliveryMethod,
+        }));
+        if (best) {
+          templateChoice = { templateId: best.templateId, reason: describeTemplateMatch(best) };
+        }
+      }
+      // Items and deliveries the tariff has no rate for would be billed at 0
+      const warnings: string[] = !incomeAmount && tariffIncome ? [...tariffIncome.warnings] : [];
 
       // Create order with items and cost operations in a transaction
       const order = await prisma.$transaction(async (tx) => {
@@ -292,6 +492,10 @@ router.post(
             clientId,
             managerId: req.user!.userId,
             shippingAddress,
+            destination,
+            deliveryMethod,
+            palletCount: palletCount || 0,
+            boxCount: boxCount || 0,
             notes,
             estimatedCost: estimatedCostTotal,
             actualCost: estimatedCostTotal,
@@ -299,15 +503,7 @@ router.post(
             profit: income - estimatedCostTotal,
             marginPercent: income > 0 ? ((income - estimatedCostTotal) / income) * 100 : 0,
             items: {
-              create: items.map((item: any) => ({
-                sku: item.sku || '',
-                name: item.name,
-                quantity: item.quantity || 1,
-                weight: item.weight || 0,
-                volume: item.volume || 0,
-                unitCost: item.unitCost || 0,
-                unitPrice: item.unitPrice || 0,
-              })),
+              create: orderItems,
             },
           },
           include: {
@@ -327,43 +523,134 @@ router.post(
               unitPrice: cost.unitPrice,
               calculatedAmount: cost.calculatedAmount,
               actualAmount: cost.calculatedAmount,
+              currency: cost.currency,
+              currencyAmount: cost.currencyAmount,
+              exchangeRate: cost.exchangeRate,
+              vatRate: await getServiceVatRate(tx, cost.vendorServiceId),
               description: cost.description,
             },
           });
         }
 
-        // Create income operation
-        await tx.incomeOperation.create({
-          data: {
-            orderId: newOrder.id,
-            clientId,
-            invoiceAmount: income,
-            paidAmount: 0,
-            description: `Оплата за заказ ${newOrder.orderNumber}`,
-          },
+        // Planned expenses from the template are added to the estimated cost
+        let createdOrder = newOrder;
+        if (templateChoice) {
+          const applied = await applyExpenseTemplate(tx, newOrder.id, templateChoice.templateId);
+          const templateCost = applied.expenses.reduce((sum, e) => sum + e.totalAmount.toNumber(), 0);
+          const totalCost = estimatedCostTotal + templateCost;
+          warnings.push(...applied.warnings);
+
+          createdOrder = await tx.order.update({
+            where: { id: newOrder.id },
+            data: {
+              expenseTemplateId: applied.template.id,
+              expenseTemplateReason: templateChoice.reason,
+              estimatedCost: totalCost,
+              actualCost: totalCost,
+              profit: income - totalCost,
+              marginPercent: income > 0 ? ((income - totalCost) / income) * 100 : 0,
+            },
+            include: {
+              items: true,
+              client: { select: { id: true, name: true } },
+            },
+          });
+        }
+
+        // Create income operations: by tariff goods and each service are separate invoice lines
+        const clientVatRate = await getClientVatRate(tx, clientId);
+        const invoices = invoiceByTariff
+          ? [
+              { amount: goodsTotal, description: `Оплата за заказ ${newOrder.orderNumber} по тарифу "${tariffIncome!.tariffName}"` },
+              ...serviceCharges.map(c => ({ amount: c.amount, description: `${c.description} по заказу ${newOrder.orderNumber}` })),
+            ].filter(invoice => invoice.amount > 0)
+          : [{ amount: income, description: `Оплата за заказ ${newOrder.orderNumber}` }];
+        for (const invoice of invoices) {
+          await tx.incomeOperation.create({
+            data: {
+              orderId: newOrder.id,
+              clientId,
+              invoiceAmount: invoice.amount,
+              paidAmount: 0,
+              vatRate: clientVatRate,
+              description: invoice.description,
+            },
+          });
+        }
+
+        // Invoice Dr 62 / Cr 90.1 and vendor charges Dr 90.2 / Cr 60
+        await syncOrderPostings(tx, newOrder.id);
+
+        await recordStatusChange(tx, {
+          orderId: newOrder.id,
+          fromStatus: null,
+          toStatus: newOrder.status,
+          changedById: req.user!.userId,
+          comment: 'Заказ создан',
         });
 
-        return newOrder;
+        if (reserveStock) {
+          await reserveOrderStock(tx, newOrder.id);
+        }
+
+        return createdOrder;
       });
 
-      res.status(201).json({ success: true, data: order });
+      res.status(201).json({ success: true, data: order, warnings });
     } catch (error) {
+      if (error instanceof StockShortageError) {
+        return shortageResponse(res, error);
+      }
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
       console.error('Create order error:', error);
       res.status(500).json({ success: false, error: 'Ошибка создания заказа' });
     }
   }
 );
 
-// Update order status
+// Get order status history
+router.get('/:id/history', authenticate, async (req: Request, res: Response) => {
+  const prisma: PrismaClient = (req as any).prisma;
+  const { id } = req.params;
+
+  try {
+    const order = await prisma.order.findFirst({
+      where: { OR: [{ id }, { orderNumber: id }] },
+      select: { id: true, status: true },
+    });
+
+    if (!order) {
+      return res.status(404).json({ success: false, error: 'Заказ не найден' });
+    }
+
+    const history = await prisma.orderStatusHistory.findMany({
+      where: { orderId: order.id },
+      include: {
+        changedBy: { select: { id: true, firstName: true, lastName: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({
+      success: true,
+      data: history,
+      allowedTransitions: getAllowedTransitions(order.status, req.user!.role),
+    });
+  } catch (error) {
+    console.error('Get order history error:', error);
+    res.status(500).json({ success: false, error: 'Ошибка получения истории статусов' });
+  }
+});
+
+// Update order status (transitions are checked against the status graph)
 router.patch(
   '/:id/status',
   authenticate,
-  authorize('ADMIN', 'MANAGER'),
+  authorize('ADMIN', 'MANAGER', 'WAREHOUSE'),
   [
-    body('status').isIn([
-      'NEW', 'PROCESSING', 'PICKING', 'PACKED', 
-      'SHIPPED', 'DELIVERED', 'COMPLETED', 'CANCELLED', 'RETURNED'
-    ]).withMessage('Неверный статус'),
+    body('status').isIn(ORDER_STATUSES).withMessage('Неверный статус'),
   ],
   async (req: Request, res: Response) => {
     const errors = validationResult(req);
@@ -373,28 +660,35 @@ router.patch(
 
     const prisma: PrismaClient = (req as any).prisma;
     const { id } = req.params;
-    const { status } = req.body;
+    const { status, comment } = req.body;
 
     try {
-      const updateData: any = { status };
-
-      // Set dates based on status
-      if (status === 'SHIPPED') {
-        updateData.shippedDate = new Date();
-      } else if (status === 'DELIVERED' || status === 'COMPLETED') {
-        updateData.deliveredDate = new Date();
+      const existing = await prisma.order.findUnique({ where: { id } });
+      if (!existing) {
+        return res.status(404).json({ success: false, error: 'Заказ не найден' });
       }
 
-      const order = await prisma.order.update({
-        where: { id },
-        data: updateData,
-        include: {
-          client: { select: { id: true, name: true } },
-        },
+      const order = await prisma.$transaction(async (tx) => {
+        const updateData = await changeStatus(tx, existing, status, req.user!, comment);
+
+        return tx.order.update({
+          where: { id },
+          data: updateData,
+          include: {
+            client: { select: { id: true, name: true } },
+          },
+        });
       });
 
       res.json({ success: true, data: order });
     } catch (error) {
+      if (error instanceof StockShortageError) {
+        return shortageResponse(res, error);
+      }
+      // Includes transition errors and closed accounting periods
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
       console.error('Update order status error:', error);
       res.status(500).json({ success: false, error: 'Ошибка обновления статуса' });
     }
@@ -409,20 +703,42 @@ router.put(
   async (req: Request, res: Response) => {
     const prisma: PrismaClient = (req as any).prisma;
     const { id } = req.params;
-    const { shippingAddress, notes, status } = req.body;
+    const { shippingAddress, destination, deliveryMethod, palletCount, boxCount, notes, status, statusComment } = req.body;
 
     try {
-      const order = await prisma.order.update({
-        where: { id },
-        data: {
-          shippingAddress,
-          notes,
-          status,
-        },
+      const existing = await prisma.order.findUnique({ where: { id } });
+      if (!existing) {
+        return res.status(404).json({ success: false, error: 'Заказ не найден' });
+      }
+
+      const order = await prisma.$transaction(async (tx) => {
+        const statusData = status && status !== existing.status
+          ? await changeStatus(tx, existing, status, req.user!, statusComment)
+          : {};
+
+        return tx.order.update({
+          where: { id },
+          data: {
+            shippingAddress,
+            destination,
+            deliveryMethod,
+            palletCount,
+            boxCount,
+            notes,
+            ...statusData,
+          },
+        });
       });
 
       res.json({ success: true, data: order });
     } catch (error) {
+      if (error instanceof StockShortageError) {
+        return shortageResponse(res, error);
+      }
+      // Includes transition errors and closed accounting periods
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
       console.error('Update order error:', error);
       res.status(500).json({ success: false, error: 'Ошибка обновления заказа' });
     }
@@ -454,9 +770,17 @@ router.delete(
         });
       }
 
-      await prisma.order.delete({ where: { id } });
+      await prisma.$transaction(async (tx) => {
+        await releaseOrderStock(tx, id);
+        // Reverse revenue and vendor cost postings of the order
+        await syncOrderPostings(tx, id, { remove: true });
+        await tx.order.delete({ where: { id } });
+      });
       res.json({ success: true, message: 'Заказ удален' });
     } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
       console.error('Delete order error:', error);
       res.status(500).json({ success: false, error: 'Ошибка удаления заказа' });
     }
@@ -490,7 +814,7 @@ router.post(
         0
       );
       const totalIncome = order.incomeOperations.reduce(
-        (sum, op) => sum + op.paidAmount.toNumber(),
+        (sum, op) => sum + op.invoiceAmount.toNumber(),
         0
       );
       const profit = totalIncome - totalCost;
@@ -0,0 +1,334 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticate, authorize } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import {
+  PAYMENT_METHODS,
+  getOpenInvoices,
+  allocatePayment,
+  unallocatePayment,
+  receivePayment,
+  cancelPayment,
+} from '../utils/payments';
+
+const router = Router();
+
+const paymentInclude = {
+  client: { select: { id: true, name: true, companyName: true } },
+  allocations: {
+    include: {
+      incomeOperation: {
+        select: {
+          id: true,
+          invoiceAmount: true,
+          paidAmount: true,
+          description: true,
+          createdAt: true,
+          order: { select: { id: true, orderNumber: true } },
+        },
+      },
+    },
+    orderBy: { createdAt: 'asc' as const },
+  },
+};
+
+// Get payments
+router.get(
+  '/',
+  authenticate,
+  authorize('ADMIN', 'MANAGER', 'ANALYST'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { clientId, status, unallocated, dateFrom, dateTo } = req.query;
+
+    try {
+      const where: any = {};
+      if (clientId) where.clientId = clientId;
+      if (status) where.status = status;
+      if (dateFrom || dateTo) {
+        where.paymentDate = {};
+        if (dateFrom) where.paymentDate.gte = new Date(dateFrom as string);
+        if (dateTo) where.paymentDate.lte = new Date(dateTo as string);
+      }
+
+      const payments = await prisma.payment.findMany({
+        where,
+        include: {
+          client: { select: { id: true, name: true, companyName: true } },
+          _count: { select: { allocations: true } },
+        },
+        orderBy: { paymentDate: 'desc' },
+      });
+
+      const data = payments
+        .map(p => ({
+          ...p,
+          unallocatedAmount: Math.round((p.amount.toNumber() - p.allocatedAmount.toNumber()) * 100) / 100,
+        }))
+        .filter(p => unallocated !== 'true' || (p.status === 'ACTIVE' && p.unallocatedAmount > 0));
+
+      res.json({ success: true, data });
+    } catch (error) {
+      console.error('Get payments error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка получения платежей' });
+    }
+  }
+);
+
+// Open invoices of a client available for allocation
+router.get(
+  '/open-invoices',
+  authenticate,
+  authorize('ADMIN', 'MANAGER', 'ANALYST'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { clientId } = req.query;
+
+    if (!clientId) {
+      return res.status(400).json({ success: false, error: 'Укажите клиента' });
+    }
+
+    try {
+      const invoices = await getOpenInvoices(prisma, clientId as string);
+      res.json({ success: true, data: invoices });
+    } catch (error) {
+      console.error('Get open invoices error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка получения неоплаченных счетов' });
+    }
+  }
+);
+
+// Get single payment with allocations and postings
+router.get(
+  '/:id',
+  authenticate,
+  authorize('ADMIN', 'MANAGER', 'ANALYST'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+
+    try {
+      const payment = await prisma.payment.findUnique({
+        where: { id },
+        include: {
+          ...paymentInclude,
+          transactions: {
+            include: {
+              debitAccount: { select: { code: true, name: true } },
+              creditAccount: { select: { code: true, name: true } },
+            },
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+      });
+
+      if (!payment) {
+        return res.status(404).json({ success: false, error: 'Платеж не найден' });
+      }
+
+      res.json({ success: true, data: payment });
+    } catch (error) {
+      console.error('Get payment error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка получения платежа' });
+    }
+  }
+);
+
+// Register client payment (Dr 51 / Cr 62) with optional allocation
+router.post(
+  '/',
+  authenticate,
+  authorize('ADMIN', 'MANAGER'),
+  [
+    body('clientId').notEmpty().withMessage('Укажите клиента'),
+    body('amount').isFloat({ gt: 0 }).withMessage('Сумма платежа должна быть больше 0'),
+    body('paymentDate').optional().isISO8601().withMessage('Неверная дата платежа'),
+    body('paymentMethod').optional().isIn(PAYMENT_METHODS).withMessage('Неверный способ оплаты'),
+    body('allocation').optional().isIn(['AUTO', 'MANUAL', 'NONE']).withMessage('Неверный режим разнесения'),
+    body('allocations').optional().isArray(),
+    body('allocations.*.incomeOperationId').notEmpty().withMessage('Укажите счет'),
+    body('allocations.*.amount').isFloat({ gt: 0 }).withMessage('Сумма разнесения должна быть больше 0'),
+  ],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const {
+      clientId,
+      amount,
+      paymentDate,
+      paymentMethod,
+      reference,
+      description,
+      allocation = 'AUTO',
+      allocations,
+    } = req.body;
+
+    try {
+      const client = await prisma.client.findUnique({ where: { id: clientId } });
+      if (!client) {
+        return res.status(404).json({ success: false, error: 'Клиент не найден' });
+      }
+
+      const payment = await prisma.$transaction(async (tx) => {
+        const created = await receivePayment(
+          tx,
+          {
+            clientId,
+            amount: Number(amount),
+            paymentDate: paymentDate ? new Date(paymentDate) : undefined,
+            paymentMethod,
+            reference,
+            description,
+            allocations: allocation === 'MANUAL' ? allocations : undefined,
+            autoAllocate: allocation === 'AUTO',
+          },
+          req.user!.userId
+        );
+
+        return tx.payment.findUnique({ where: { id: created.id }, include: paymentInclude });
+      });
+
+      res.status(201).json({ success: true, data: payment });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Create payment error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка регистрации платежа' });
+    }
+  }
+);
+
+// Allocate unallocated remainder (oldest invoices first without explicit list)
+router.post(
+  '/:id/allocate',
+  authenticate,
+  authorize('ADMIN', 'MANAGER'),
+  [
+    body('allocations').optional().isArray(),
+    body('allocations.*.incomeOperationId').notEmpty().withMessage('Укажите счет'),
+    body('allocations.*.amount').isFloat({ gt: 0 }).withMessage('Сумма разнесения должна быть больше 0'),
+  ],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+
+    try {
+      const payment = await prisma.$transaction(async (tx) => {
+        const created = await allocatePayment(tx, id, req.body.allocations, req.user!.userId);
+        if (created.length === 0) {
+          throw new AppError('У клиента нет неоплаченных счетов', 400);
+        }
+        return tx.payment.findUnique({ where: { id }, include: paymentInclude });
+      });
+
+      res.json({ success: true, data: payment });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Allocate payment error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка разнесения платежа' });
+    }
+  }
+);
+
+// Remove single allocation
+router.delete(
+  '/:id/allocations/:allocationId',
+  authenticate,
+  authorize('ADMIN', 'MANAGER'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id, allocationId } = req.params;
+
+    try {
+      const payment = await prisma.$transaction(async (tx) => {
+        const allocation = await tx.paymentAllocation.findFirst({ where: { id: allocationId, paymentId: id } });
+        if (!allocation) {
+          throw new AppError('Разнесение не найдено', 404);
+        }
+        await unallocatePayment(tx, allocationId);
+        return tx.payment.findUnique({ where: { id }, include: paymentInclude });
+      });
+
+      res.json({ success: true, data: payment });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Unallocate payment error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка отмены разнесения' });
+    }
+  }
+);
+
+// Remove all allocations, the whole amount becomes client credit
+router.post(
+  '/:id/unallocate',
+  authenticate,
+  authorize('ADMIN', 'MANAGER'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+
+    try {
+      const payment = await prisma.$transaction(async (tx) => {
+        const allocations = await tx.paymentAllocation.findMany({ where: { paymentId: id } });
+        if (allocations.length === 0) {
+          throw new AppError('Платеж не разнесен', 400);
+        }
+        for (const allocation of allocations) {
+          await unallocatePayment(tx, allocation.id);
+        }
+        return tx.payment.findUnique({ where: { id }, include: paymentInclude });
+      });
+
+      res.json({ success: true, data: payment });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Unallocate payment error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка отмены разнесения' });
+    }
+  }
+);
+
+// Cancel payment: unallocate and reverse the posting
+router.post(
+  '/:id/cancel',
+  authenticate,
+  authorize('ADMIN'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+
+    try {
+      const payment = await prisma.$transaction(async (tx) => {
+        await cancelPayment(tx, id);
+        return tx.payment.findUnique({ where: { id }, include: paymentInclude });
+      });
+
+      res.json({ success: true, data: payment });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Cancel payment error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка аннулирования платежа' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,92 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticate, authorize } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { getPostingRules, updatePostingRule, syncOrderPostings } from '../utils/autoPostings';
+
+const router = Router();
+
+// Get automatic posting rules (saved overrides on top of defaults)
+router.get(
+  '/',
+  authenticate,
+  authorize('ADMIN', 'ANALYST'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+
+    try {
+      const rules = await getPostingRules(prisma);
+      res.json({ success: true, data: rules });
+    } catch (error) {
+      console.error('Get posting rules error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка получения правил проводок' });
+    }
+  }
+);
+
+// Update accounts of a rule
+router.put(
+  '/:event',
+  authenticate,
+  authorize('ADMIN'),
+  [
+    body('debitAccountCode').notEmpty().withMessage('Укажите дебетовый счет'),
+    body('creditAccountCode').notEmpty().withMessage('Укажите кредитовый счет'),
+    body('isActive').optional().isBoolean(),
+  ],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const { debitAccountCode, creditAccountCode, isActive } = req.body;
+
+    try {
+      const rule = await prisma.$transaction((tx) =>
+        updatePostingRule(tx, req.params.event, { debitAccountCode, creditAccountCode, isActive }, req.user!.userId)
+      );
+      res.json({ success: true, data: rule });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Update posting rule error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка сохранения правила проводок' });
+    }
+  }
+);
+
+// Bring order postings in line with operations and current rules (one order or all)
+router.post(
+  '/resync',
+  authenticate,
+  authorize('ADMIN'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { orderId } = req.body;
+
+    try {
+      const orders = orderId
+        ? [{ id: orderId as string }]
+        : await prisma.order.findMany({ select: { id: true } });
+
+      let entries = 0;
+      for (const order of orders) {
+        entries += await prisma.$transaction((tx) => syncOrderPostings(tx, order.id));
+      }
+
+      res.json({ success: true, data: { orders: orders.length, entries } });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Resync postings error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка синхронизации проводок' });
+    }
+  }
+);
+
+export default router;
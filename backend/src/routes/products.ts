@@ -2,13 +2,15 @@ import { Router, Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import { PrismaClient } from '@prisma/client';
 import { authenticate, authorize } from '../middleware/auth';
+import { productOwnerFilter } from '../utils/productOwnership';
+import { LocationFrozenError, assertLocationsNotFrozen } from '../utils/inventoryCounts';
 
 const router = Router();
 
 // Get all products with stock info
 router.get('/', authenticate, async (req: Request, res: Response) => {
   const prisma: PrismaClient = (req as any).prisma;
-  const { search, category, isActive } = req.query;
+  const { search, category, isActive, clientId } = req.query;
 
   try {
     const where: any = {};
@@ -22,10 +24,12 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
     }
     if (category) where.category = category;
     if (isActive !== undefined) where.isActive = isActive === 'true';
+    if (clientId) Object.assign(where, productOwnerFilter(clientId as string));
 
     const products = await prisma.product.findMany({
       where,
       include: {
+        client: { select: { id: true, name: true } },
         stocks: {
           include: {
             storageLocation: {
@@ -62,7 +66,7 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
 // Get all stocks (optionally filtered by warehouse) - must be before /:id route
 router.get('/stocks', authenticate, async (req: Request, res: Response) => {
   const prisma: PrismaClient = (req as any).prisma;
-  const { warehouseId, productId } = req.query;
+  const { warehouseId, productId, clientId } = req.query;
 
   try {
     const where: any = {};
@@ -70,6 +74,10 @@ router.get('/stocks', authenticate, async (req: Request, res: Response) => {
     if (productId) {
       where.productId = productId;
     }
+
+    if (clientId) {
+      where.product = productOwnerFilter(clientId as string);
+    }
     
     if (warehouseId) {
       where.storageLocation = { warehouseId };
@@ -79,7 +87,10 @@ router.get('/stocks', authenticate, async (req: Request, res: Response) => {
       where,
       include: {
         product: {
-          select: { id: true, sku: true, name: true, category: true }
+          select: {
+            id: true, sku: true, name: true, category: true,
+            client: { select: { id: true, name: true } }
+          }
         },
         storageLocation: {
           include: { warehouse: { select: { id: true, name: true, code: true } } }
@@ -143,6 +154,7 @@ router.get('/:id', authenticate, async (req: Request, res: Response) => {
     const product = await prisma.product.findUnique({
       where: { id },
       include: {
+        client: { select: { id: true, name: true } },
         stocks: {
           include: {
             storageLocation: {
@@ -189,11 +201,19 @@ router.post(
     }
 
     const prisma: PrismaClient = (req as any).prisma;
-    const { sku, barcode, name, description, category, unitWeight, unitVolume, unitCost, unitPrice, imageUrl, minStock } = req.body;
+    const { sku, barcode, name, description, category, unitWeight, unitVolume, unitCost, unitPrice, imageUrl, minStock, clientId } = req.body;
 
     try {
+      if (clientId) {
+        const client = await prisma.client.findUnique({ where: { id: clientId } });
+        if (!client) {
+          return res.status(404).json({ success: false, error: 'Клиент не найден' });
+        }
+      }
+
       const product = await prisma.product.create({
         data: {
+          clientId: clientId || null,
           sku,
           barcode,
           name,
@@ -230,6 +250,27 @@ router.put(
     const data = req.body;
 
     try {
+      if (data.clientId !== undefined) {
+        data.clientId = data.clientId || null;
+
+        if (data.clientId) {
+          const client = await prisma.client.findUnique({ where: { id: data.clientId } });
+          if (!client) {
+            return res.status(404).json({ success: false, error: 'Клиент не найден' });
+          }
+        }
+
+        // Stock reserved for orders of the current owner cannot change hands
+        const reserved = await prisma.productStock.aggregate({
+          where: { productId: id },
+          _sum: { reservedQty: true }
+        });
+        const current = await prisma.product.findUnique({ where: { id }, select: { clientId: true } });
+        if (current && current.clientId !== data.clientId && (reserved._sum.reservedQty || 0) > 0) {
+          return res.status(400).json({ success: false, error: 'Нельзя сменить владельца: товар зарезервирован под заказы' });
+        }
+      }
+
       const product = await prisma.product.update({
         where: { id },
         data
@@ -308,6 +349,9 @@ router.post(
 
     try {
       await prisma.$transaction(async (tx) => {
+        // Locations under an inventory count are corrected only by posting the count
+        await assertLocationsNotFrozen(tx, [locationId]);
+
         // Find or create stock record
         let stock = await tx.productStock.findFirst({
           where: {
@@ -371,6 +415,9 @@ router.post(
 
       res.json({ success: true, message: 'Остаток скорректирован' });
     } catch (error) {
+      if (error instanceof LocationFrozenError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
       console.error('Adjust stock error:', error);
       res.status(500).json({ success: false, error: 'Ошибка корректировки остатка' });
     }
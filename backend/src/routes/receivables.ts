@@ -0,0 +1,198 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import * as XLSX from 'xlsx';
+import { authenticate, authorize } from '../middleware/auth';
+import { AGING_BUCKETS, getReceivablesAging, buildClientStatement } from '../utils/receivables';
+import { createPdfDocument, drawTable, renderPdf } from '../utils/pdf';
+
+const router = Router();
+
+const ENTRY_TYPE_LABELS: Record<string, string> = {
+  INVOICE: 'Счет',
+  CREDIT_NOTE: 'Корректировка',
+  PAYMENT: 'Оплата',
+};
+
+const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+function formatMoney(value: number) {
+  return value.toLocaleString('ru-RU', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatDate(date: Date) {
+  return date.toLocaleDateString('ru-RU');
+}
+
+// Receivables aging by client
+router.get(
+  '/',
+  authenticate,
+  authorize('ADMIN', 'MANAGER', 'ANALYST'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { asOf, clientId, format } = req.query;
+
+    try {
+      const asOfDate = asOf ? new Date(asOf as string) : new Date();
+      if (isNaN(asOfDate.getTime())) {
+        return res.status(400).json({ success: false, error: 'Неверная дата' });
+      }
+      // The whole day is included
+      asOfDate.setHours(23, 59, 59, 999);
+
+      const aging = await getReceivablesAging(prisma, {
+        asOf: asOfDate,
+        clientId: clientId as string | undefined,
+      });
+
+      if (format === 'xlsx') {
+        const rows = aging.clients.map(c => ({
+          'Клиент': c.clientName,
+          'Компания': c.companyName || '',
+          'Выставлено': c.invoiced,
+          'Оплачено': c.paid,
+          ...Object.fromEntries(AGING_BUCKETS.map(b => [b.label, c.buckets[b.key]])),
+          'Кредит': c.credits,
+          'Сальдо': c.balance,
+        }));
+
+        const ws = XLSX.utils.aoa_to_sheet([[`Дебиторская задолженность на ${formatDate(asOfDate)}`]]);
+        XLSX.utils.sheet_add_json(ws, rows, { origin: 'A3' });
+        const wb = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(wb, ws, 'Дебиторка');
+
+        res.setHeader('Content-Type', XLSX_CONTENT_TYPE);
+        res.setHeader('Content-Disposition', 'attachment; filename=receivables-aging.xlsx');
+        return res.send(XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' }));
+      }
+
+      res.json({ success: true, data: aging });
+    } catch (error) {
+      console.error('Get receivables error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка получения дебиторской задолженности' });
+    }
+  }
+);
+
+// Client statement for a period (JSON, XLSX or PDF)
+router.get(
+  '/clients/:clientId/statement',
+  authenticate,
+  authorize('ADMIN', 'MANAGER', 'ANALYST'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { clientId } = req.params;
+    const { dateFrom, dateTo, format = 'json' } = req.query;
+
+    try {
+      const client = await prisma.client.findUnique({ where: { id: clientId } });
+      if (!client) {
+        return res.status(404).json({ success: false, error: 'Клиент не найден' });
+      }
+
+      // Current month by default
+      const now = new Date();
+      const from = dateFrom ? new Date(dateFrom as string) : new Date(now.getFullYear(), now.getMonth(), 1);
+      const to = dateTo ? new Date(dateTo as string) : now;
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+        return res.status(400).json({ success: false, error: 'Неверный период' });
+      }
+      from.setHours(0, 0, 0, 0);
+      to.setHours(23, 59, 59, 999);
+
+      const statement = await buildClientStatement(prisma, clientId, from, to);
+      const title = `Выписка по расчетам с клиентом за ${formatDate(from)} — ${formatDate(to)}`;
+      const fileName = `statement-${clientId}-${from.toISOString().split('T')[0]}`;
+
+      if (format === 'xlsx') {
+        const ws = XLSX.utils.aoa_to_sheet([
+          [title],
+          [`Клиент: ${client.companyName || client.name}`, client.inn ? `ИНН: ${client.inn}` : ''],
+          ['Сальдо на начало', statement.openingBalance],
+        ]);
+        XLSX.utils.sheet_add_json(
+          ws,
+          statement.entries.map(e => ({
+            'Дата': formatDate(e.date),
+            'Документ': `${ENTRY_TYPE_LABELS[e.type]} ${e.documentNumber}`,
+            'Описание': e.description || '',
+            'Дебет': e.debit,
+            'Кредит': e.credit,
+            'Сальдо': e.balance,
+          })),
+          { origin: 'A5' }
+        );
+        XLSX.utils.sheet_add_aoa(
+          ws,
+          [
+            ['Обороты за период', '', '', statement.totalDebit, statement.totalCredit],
+            ['Сальдо на конец', statement.closingBalance],
+          ],
+          { origin: -1 }
+        );
+
+        const wb = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(wb, ws, 'Выписка');
+
+        res.setHeader('Content-Type', XLSX_CONTENT_TYPE);
+        res.setHeader('Content-Disposition', `attachment; filename=${fileName}.xlsx`);
+        return res.send(XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' }));
+      }
+
+      if (format === 'pdf') {
+        const doc = createPdfDocument();
+
+        doc.font('bold').fontSize(13).text(title);
+        doc.moveDown(0.5);
+        doc.font('regular').fontSize(10);
+        doc.text(`Клиент: ${client.companyName || client.name}${client.inn ? `, ИНН ${client.inn}` : ''}`);
+        doc.text(`Сальдо на начало периода: ${formatMoney(statement.openingBalance)} ₽`);
+        doc.moveDown(0.5);
+
+        drawTable(
+          doc,
+          [
+            { header: 'Дата', width: 60 },
+            { header: 'Документ', width: 110 },
+            { header: 'Описание', width: 130 },
+            { header: 'Дебет', width: 70, align: 'right' },
+            { header: 'Кредит', width: 70, align: 'right' },
+            { header: 'Сальдо', width: 75, align: 'right' },
+          ],
+          statement.entries.map(e => [
+            formatDate(e.date),
+            `${ENTRY_TYPE_LABELS[e.type]} ${e.documentNumber}`,
+            e.description || '',
+            e.debit ? formatMoney(e.debit) : '',
+            e.credit ? formatMoney(e.credit) : '',
+            formatMoney(e.balance),
+          ])
+        );
+
+        doc.moveDown(0.5);
+        doc.text(`Обороты за период: дебет ${formatMoney(statement.totalDebit)} ₽, кредит ${formatMoney(statement.totalCredit)} ₽`);
+        doc.font('bold').text(`Сальдо на конец периода: ${formatMoney(statement.closingBalance)} ₽`);
+        doc.font('regular').fontSize(8).fillColor('#666666')
+          .text('Положительное сальдо — задолженность клиента, отрицательное — аванс клиента.');
+
+        const buffer = await renderPdf(doc);
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename=${fileName}.pdf`);
+        return res.send(buffer);
+      }
+
+      res.json({
+        success: true,
+        data: {
+          client: { id: client.id, name: client.name, companyName: client.companyName, inn: client.inn },
+          ...statement,
+        },
+      });
+    } catch (error) {
+      console.error('Get client statement error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка формирования выписки' });
+    }
+  }
+);
+
+export default router;
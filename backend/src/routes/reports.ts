@@ -2,6 +2,8 @@ import { Router, Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { authenticate, authorize } from '../middleware/auth';
 import * as XLSX from 'xlsx';
+import { netShare } from '../utils/vat';
+import { getExpenseVariance, VarianceGroup } from '../utils/orderExpenses';
 
 const router = Router();
 
@@ -37,21 +39,41 @@ router.get(
               vendorService: { select: { type: true, name: true } },
             },
           },
+          incomeOperations: { select: { invoiceAmount: true, netAmount: true } },
+          expenses: { select: { actualAmount: true, totalAmount: true, netAmount: true } },
         },
         orderBy: { orderDate: 'desc' },
       });
 
+      const round2 = (value: number) => Math.round(value * 100) / 100;
+
       const reportData = orders.map((order) => {
         const itemsCount = order.items.reduce((sum, i) => sum + i.quantity, 0);
         const totalWeight = order.items.reduce((sum, i) => sum + i.weight.toNumber() * i.quantity, 0);
 
-        // Costs by type
+        // Costs by type (without VAT)
         const costsByType: Record<string, number> = {};
         for (const op of order.costOperations) {
           const type = op.vendorService.type;
-          costsByType[type] = (costsByType[type] || 0) + op.actualAmount.toNumber();
+          costsByType[type] = round2((costsByType[type] || 0) + op.netAmount.toNumber());
         }
 
+        // Order totals are stored with VAT: net share comes from the operations
+        const revenueGross = order.totalIncome.toNumber();
+        const revenue = round2(revenueGross * netShare(order.incomeOperations.map((op) => ({
+          gross: op.invoiceAmount.toNumber(),
+          net: op.netAmount.toNumber(),
+        }))));
+        const totalCostGross = order.actualCost.toNumber();
+        const totalCost = round2(totalCostGross * netShare([
+          ...order.costOperations.map((op) => ({ gross: op.actualAmount.toNumber(), net: op.netAmount.toNumber() })),
+          ...order.expenses.map((e) => ({
+            gross: e.actualAmount.toNumber() > 0 ? e.actualAmount.toNumber() : e.totalAmount.toNumber(),
+            net: e.netAmount.toNumber(),
+          })),
+        ]));
+        const profit = round2(revenue - totalCost);
+
         return {
           orderNumber: order.orderNumber,
           orderDate: order.orderDate.toISOString().split('T')[0],
@@ -63,7 +85,9 @@ router.get(
             : '',
           itemsCount,
           totalWeight: Math.round(totalWeight * 1000) / 1000,
-          revenue: order.totalIncome.toNumber(),
+          revenueGross,
+          outputVat: round2(revenueGross - revenue),
+          revenue,
           storageCost: costsByType['STORAGE'] || 0,
           pickingCost: costsByType['PICKING'] || 0,
           packingCost: costsByType['PACKING'] || 0,
@@ -72,9 +96,11 @@ router.get(
                      (costsByType['LABELING'] || 0) + 
                      (costsByType['RETURNS'] || 0) +
                      (costsByType['OTHER'] || 0),
-          totalCost: order.actualCost.toNumber(),
-          profit: order.profit.toNumber(),
-          marginPercent: order.marginPercent.toNumber(),
+          totalCostGross,
+          inputVat: round2(totalCostGross - totalCost),
+          totalCost,
+          profit,
+          marginPercent: revenue > 0 ? round2((profit / revenue) * 100) : 0,
         };
       });
 
@@ -106,6 +132,8 @@ router.get(
         totalOrders: reportData.length,
         totalRevenue: reportData.reduce((sum, r) => sum + r.revenue, 0),
         totalCost: reportData.reduce((sum, r) => sum + r.totalCost, 0),
+        totalOutputVat: reportData.reduce((sum, r) => sum + r.outputVat, 0),
+        totalInputVat: reportData.reduce((sum, r) => sum + r.inputVat, 0),
         totalProfit: reportData.reduce((sum, r) => sum + r.profit, 0),
         averageMargin: reportData.length > 0
           ? reportData.reduce((sum, r) => sum + r.marginPercent, 0) / reportData.length
@@ -397,4 +425,88 @@ router.get(
   }
 );
 
+// Planned vs actual expense variance
+router.get(
+  '/expense-variance',
+  authenticate,
+  authorize('ADMIN', 'ANALYST', 'MANAGER'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { dateFrom, dateTo, clientId, vendorId, vendorServiceId, templateId, category, format } = req.query;
+
+    try {
+      const report = await getExpenseVariance(prisma, {
+        dateFrom: dateFrom ? new Date(dateFrom as string) : undefined,
+        dateTo: dateTo ? new Date(dateTo as string) : undefined,
+        clientId: clientId as string | undefined,
+        vendorId: vendorId as string | undefined,
+        vendorServiceId: vendorServiceId as string | undefined,
+        templateId: templateId as string | undefined,
+        category: category as string | undefined,
+      });
+
+      if (format === 'xlsx' || format === 'csv') {
+        const rows = report.rows.map((r) => ({
+          'Заказ': r.orderNumber,
+          'Дата заказа': r.orderDate.toISOString().split('T')[0],
+          'Клиент': r.client.name,
+          'Категория': r.categoryName,
+          'Расход': r.description,
+          'Поставщик': r.vendor?.name || '',
+          'Услуга': r.vendorService?.name || '',
+          'Шаблон': r.template?.name || '',
+          'План': r.planned,
+          'Факт': r.actual,
+          'Отклонение': r.variance,
+          'Отклонение, %': r.variancePercent ?? '',
+        }));
+        const groupSheet = (groups: VarianceGroup[], title: string) => XLSX.utils.json_to_sheet(groups.map((g) => ({
+          [title]: g.name,
+          'Расходов': g.count,
+          'План': g.planned,
+          'Факт': g.actual,
+          'Отклонение': g.variance,
+          'Отклонение, %': g.variancePercent ?? '',
+          'Факт выше плана': g.overCount,
+          'Систематическая недооценка': g.systematic ? 'да' : '',
+        })));
+
+        const wb = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(rows), 'Расходы');
+        // CSV holds a single sheet: the expense drill-down
+        if (format === 'xlsx') {
+          XLSX.utils.book_append_sheet(wb, groupSheet(report.byCategory, 'Категория'), 'По категориям');
+          XLSX.utils.book_append_sheet(wb, groupSheet(report.byClient, 'Клиент'), 'По клиентам');
+          XLSX.utils.book_append_sheet(wb, groupSheet(report.byVendor, 'Поставщик'), 'По поставщикам');
+          XLSX.utils.book_append_sheet(wb, groupSheet(report.byVendorService, 'Услуга'), 'По услугам');
+          XLSX.utils.book_append_sheet(wb, groupSheet(report.byTemplate, 'Шаблон'), 'По шаблонам');
+          XLSX.utils.book_append_sheet(wb, groupSheet(report.byOrder, 'Заказ'), 'По заказам');
+        }
+
+        const buffer = XLSX.write(wb, {
+          type: 'buffer',
+          bookType: format === 'csv' ? 'csv' : 'xlsx',
+        });
+
+        res.setHeader(
+          'Content-Type',
+          format === 'csv'
+            ? 'text/csv'
+            : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+        );
+        res.setHeader(
+          'Content-Disposition',
+          `attachment; filename=expense-variance.${format}`
+        );
+        return res.send(buffer);
+      }
+
+      res.json({ success: true, data: report });
+    } catch (error) {
+      console.error('Get expense variance report error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка формирования отчета' });
+    }
+  }
+);
+
 export default router;
@@ -0,0 +1,503 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticate, authorize } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import {
+  RETURN_DISPOSITIONS,
+  DISPOSITION_WAREHOUSE_TYPES,
+  RETURNABLE_ORDER_STATUSES,
+  generateReturnNumber,
+  getReturnedQuantities,
+  moveReturnedStock,
+  calculateReturnCharge,
+  refreshOrderProfit,
+} from '../utils/returns';
+import { generateTaskNumber } from '../utils/orderFulfillment';
+import { createReturnCostEntry, createWriteOffEntry } from '../utils/financeHelpers';
+import { ORDER_STATUS_TRANSITIONS, recordStatusChange } from '../utils/orderStatus';
+import { syncCostPosting, syncIncomePosting } from '../utils/autoPostings';
+import { getClientVatRate } from '../utils/vat';
+
+const router = Router();
+
+const dispositionLabels: Record<string, string> = {
+  RESTOCK: 'возврат на основной склад',
+  QUARANTINE: 'карантин',
+  WRITE_OFF: 'списание',
+};
+
+// Get all returns
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  const prisma: PrismaClient = (req as any).prisma;
+  const { status, clientId, orderId } = req.query;
+
+  try {
+    const where: any = {};
+    if (status) where.status = status;
+    if (clientId) where.clientId = clientId;
+    if (orderId) where.orderId = orderId;
+
+    const returns = await prisma.returnAuthorization.findMany({
+      where,
+      include: {
+        order: { select: { id: true, orderNumber: true, status: true } },
+        client: { select: { id: true, name: true } },
+        warehouse: { select: { id: true, name: true, code: true } },
+        task: { select: { id: true, taskNumber: true, status: true } },
+        _count: { select: { items: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json({ success: true, data: returns });
+  } catch (error) {
+    console.error('Get returns error:', error);
+    res.status(500).json({ success: false, error: 'Ошибка получения возвратов' });
+  }
+});
+
+// Get single return with items
+router.get('/:id', authenticate, async (req: Request, res: Response) => {
+  const prisma: PrismaClient = (req as any).prisma;
+  const { id } = req.params;
+
+  try {
+    const rma = await prisma.returnAuthorization.findUnique({
+      where: { id },
+      include: {
+        order: { select: { id: true, orderNumber: true, status: true } },
+        client: { select: { id: true, name: true } },
+        warehouse: { select: { id: true, name: true, code: true } },
+        task: { select: { id: true, taskNumber: true, status: true } },
+        items: {
+          include: {
+            product: { select: { id: true, sku: true, name: true } },
+            orderItem: { select: { id: true, sku: true, name: true, quantity: true } },
+          },
+        },
+      },
+    });
+
+    if (!rma) {
+      return res.status(404).json({ success: false, error: 'Возврат не найден' });
+    }
+
+    res.json({ success: true, data: rma });
+  } catch (error) {
+    console.error('Get return error:', error);
+    res.status(500).json({ success: false, error: 'Ошибка получения возврата' });
+  }
+});
+
+// Create return authorization with receiving task into the returns warehouse
+router.post(
+  '/',
+  authenticate,
+  authorize('ADMIN', 'MANAGER'),
+  [
+    body('orderId').notEmpty().withMessage('Выберите заказ'),
+    body('items').isArray({ min: 1 }).withMessage('Добавьте позиции к возврату'),
+    body('items.*.orderItemId').notEmpty().withMessage('Укажите позицию заказа'),
+    body('items.*.quantity').isInt({ min: 1 }).withMessage('Количество должно быть больше 0'),
+  ],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const { orderId, warehouseId, locationId, reason, notes, items } = req.body;
+
+    try {
+      const order = await prisma.order.findUnique({
+        where: { id: orderId },
+        include: { items: true },
+      });
+      if (!order) {
+        return res.status(404).json({ success: false, error: 'Заказ не найден' });
+      }
+      if (!RETURNABLE_ORDER_STATUSES.includes(order.status)) {
+        return res.status(400).json({ success: false, error: 'Возврат возможен только по отгруженному заказу' });
+      }
+
+      const warehouse = warehouseId
+        ? await prisma.warehouse.findFirst({ where: { id: warehouseId, type: 'RETURNS' } })
+        : await prisma.warehouse.findFirst({ where: { type: 'RETURNS', status: 'ACTIVE' }, orderBy: { code: 'asc' } });
+      if (!warehouse) {
+        return res.status(400).json({ success: false, error: 'Не найден склад возвратов' });
+      }
+
+      const location = await prisma.storageLocation.findFirst({
+        where: {
+          warehouseId: warehouse.id,
+          status: { not: 'BLOCKED' },
+          frozenByCountId: null,
+          ...(locationId ? { id: locationId } : {}),
+        },
+        orderBy: { code: 'asc' },
+      });
+      if (!location) {
+        return res.status(400).json({ success: false, error: 'На складе возвратов нет ячейки для приемки' });
+      }
+
+      // Returned quantity may not exceed what was shipped minus earlier returns
+      const returned = await getReturnedQuantities(prisma, orderId);
+      const returnItems: Array<{ orderItem: (typeof order.items)[number]; productId: string; quantity: number }> = [];
+      for (const item of items) {
+        const orderItem = order.items.find(i => i.id === item.orderItemId);
+        if (!orderItem) {
+          return res.status(400).json({ success: false, error: 'Позиция не найдена в заказе' });
+        }
+        if (!orderItem.productId) {
+          return res.status(400).json({
+            success: false,
+            error: `Позиция ${orderItem.sku || orderItem.name} не связана с товаром каталога`,
+          });
+        }
+
+        const left = orderItem.quantity - (returned.get(orderItem.id) || 0);
+        const quantity = Number(item.quantity);
+        if (quantity > left) {
+          return res.status(400).json({
+            success: false,
+            error: `${orderItem.sku || orderItem.name}: к возврату доступно ${left} шт.`,
+          });
+        }
+
+        returnItems.push({ orderItem, productId: orderItem.productId, quantity });
+      }
+
+      const productCosts = await prisma.product.findMany({
+        where: { id: { in: returnItems.map(i => i.productId) } },
+        select: { id: true, unitCost: true },
+      });
+
+      const rma = await prisma.$transaction(async (tx) => {
+        const rmaNumber = await generateReturnNumber(tx);
+
+        const task = await tx.warehouseTask.create({
+          data: {
+            taskNumber: await generateTaskNumber(tx),
+            warehouseId: warehouse.id,
+            orderId,
+            type: 'RECEIVING',
+            notes: `Приемка возврата ${rmaNumber} по заказу ${order.orderNumber}`,
+          },
+        });
+
+        const created = await tx.returnAuthorization.create({
+          data: {
+            rmaNumber,
+            orderId,
+            clientId: order.clientId,
+            warehouseId: warehouse.id,
+            taskId: task.id,
+            reason,
+            notes,
+            createdById: req.user!.userId,
+          },
+        });
+
+        for (const item of returnItems) {
+          const taskItem = await tx.taskItem.create({
+            data: {
+              taskId: task.id,
+              productId: item.productId,
+              expectedQty: item.quantity,
+              toLocationId: location.id,
+              notes: `${item.orderItem.sku} ${item.orderItem.name}`.trim(),
+            },
+          });
+
+          const productCost = productCosts.find(p => p.id === item.productId)?.unitCost;
+          await tx.returnItem.create({
+            data: {
+              returnId: created.id,
+              orderItemId: item.orderItem.id,
+              productId: item.productId,
+              taskItemId: taskItem.id,
+              quantity: item.quantity,
+              unitCost: Number(item.orderItem.unitCost) || Number(productCost || 0),
+              unitPrice: item.orderItem.unitPrice,
+            },
+          });
+        }
+
+        return tx.returnAuthorization.findUnique({
+          where: { id: created.id },
+          include: {
+            items: true,
+            task: { select: { id: true, taskNumber: true, status: true } },
+          },
+        });
+      });
+
+      res.status(201).json({ success: true, data: rma });
+    } catch (error) {
+      console.error('Create return error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка создания возврата' });
+    }
+  }
+);
+
+// Process received return: dispositions, goods cost, revenue reversal and returns charge
+router.post(
+  '/:id/process',
+  authenticate,
+  authorize('ADMIN', 'MANAGER'),
+  [
+    body('items').isArray().withMessage('Укажите решения по позициям'),
+    body('items.*.id').notEmpty().withMessage('Укажите позицию возврата'),
+    body('items.*.disposition').isIn(RETURN_DISPOSITIONS).withMessage('Неверное решение по позиции'),
+    body('chargeAmount').optional().isFloat({ min: 0 }).withMessage('Сумма должна быть неотрицательной'),
+  ],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+    const { chargeAmount } = req.body;
+
+    try {
+      const rma = await prisma.returnAuthorization.findUnique({
+        where: { id },
+        include: {
+          order: { include: { items: true } },
+          items: { include: { product: { select: { sku: true, name: true } } } },
+        },
+      });
+
+      if (!rma) {
+        return res.status(404).json({ success: false, error: 'Возврат не найден' });
+      }
+      if (rma.status !== 'RECEIVED') {
+        return res.status(400).json({ success: false, error: 'Обработать можно только принятый возврат' });
+      }
+
+      // Resolve and validate disposition of every received item
+      const received = rma.items.filter(i => i.receivedQty > 0);
+      const plan: Array<{ item: (typeof received)[number]; disposition: string; targetLocationId: string | null }> = [];
+      for (const item of received) {
+        const decision = req.body.items.find((d: any) => d.id === item.id);
+        if (!decision) {
+          return res.status(400).json({ success: false, error: `Укажите решение по позиции ${item.product.sku}` });
+        }
+
+        let targetLocationId: string | null = null;
+        const warehouseType = DISPOSITION_WAREHOUSE_TYPES[decision.disposition];
+        if (warehouseType) {
+          const target = decision.locationId
+            ? await prisma.storageLocation.findUnique({
+                where: { id: decision.locationId },
+                include: { warehouse: { select: { type: true } } },
+              })
+            : null;
+          if (!target || target.warehouse.type !== warehouseType) {
+            return res.status(400).json({
+              success: false,
+              error: `${item.product.sku}: выберите ячейку склада ${warehouseType === 'MAIN' ? 'хранения' : 'карантина'}`,
+            });
+          }
+          targetLocationId = target.id;
+        }
+
+        plan.push({ item, disposition: decision.disposition, targetLocationId });
+      }
+
+      const receivedQty = received.reduce((sum, i) => sum + i.receivedQty, 0);
+      const charge = await calculateReturnCharge(prisma, rma.clientId, receivedQty);
+      const clientCharge = chargeAmount !== undefined ? Number(chargeAmount) : charge.incomeAmount;
+
+      const result = await prisma.$transaction(async (tx) => {
+        const reference = `возврат ${rma.rmaNumber} по заказу ${rma.order.orderNumber}`;
+        let goodsCost = 0;
+        let refundAmount = 0;
+
+        for (const { item, disposition, targetLocationId } of plan) {
+          if (!item.locationId) {
+            throw new AppError(`${item.product.sku}: не указана ячейка приемки`, 400);
+          }
+
+          await moveReturnedStock(tx, {
+            productId: item.productId,
+            fromLocationId: item.locationId,
+            toLocationId: targetLocationId,
+            quantity: item.receivedQty,
+            orderId: rma.orderId,
+            reason: `${reference}: ${dispositionLabels[disposition]}`,
+            userId: req.user!.userId,
+          });
+
+          const itemCost = Number(item.unitCost) * item.receivedQty;
+          goodsCost += itemCost;
+          refundAmount += Number(item.unitPrice) * item.receivedQty;
+
+          if (disposition === 'WRITE_OFF' && itemCost > 0) {
+            await createWriteOffEntry(tx, itemCost, `Списание ${item.product.sku} (${reference})`);
+          }
+
+          await tx.returnItem.update({
+            where: { id: item.id },
+            data: { disposition, locationId: targetLocationId },
+          });
+        }
+
+        // Goods cost is reversed only if it was posted on shipment
+        const shipped = await tx.warehouseTask.count({
+          where: { orderId: rma.orderId, type: 'SHIPPING', status: 'COMPLETED' },
+        });
+        if (shipped > 0 && goodsCost > 0) {
+          await createReturnCostEntry(tx, goodsCost, `Сторно себестоимости: ${reference}`, rma.orderId);
+        }
+
+        // Revenue reversal for returned units
+        if (refundAmount > 0) {
+          const reversal = await tx.incomeOperation.create({
+            data: {
+              orderId: rma.orderId,
+              clientId: rma.clientId,
+              invoiceAmount: -refundAmount,
+              paidAmount: 0,
+              vatRate: await getClientVatRate(tx, rma.clientId),
+              description: `Сторно выручки: ${reference}`,
+            },
+          });
+          await syncIncomePosting(tx, reversal.id);
+        }
+
+        // Returns handling: vendor cost and client charge
+        if (charge.service && charge.costAmount > 0) {
+          const cost = await tx.costOperation.create({
+            data: {
+              orderId: rma.orderId,
+              vendorId: charge.service.vendorId,
+              vendorServiceId: charge.service.id,
+              quantity: charge.costQuantity,
+              unitPrice: charge.service.price,
+              calculatedAmount: charge.costAmount,
+              actualAmount: charge.costAmount,
+              vatRate: charge.service.vatRate,
+              description: `${charge.service.name} (${rma.rmaNumber})`,
+            },
+          });
+          await syncCostPosting(tx, cost.id);
+          await tx.order.update({
+            where: { id: rma.orderId },
+            data: { actualCost: { increment: charge.costAmount } },
+          });
+        }
+
+        if (clientCharge > 0) {
+          const handling = await tx.incomeOperation.create({
+            data: {
+              orderId: rma.orderId,
+              clientId: rma.clientId,
+              invoiceAmount: clientCharge,
+              paidAmount: 0,
+              vatRate: await getClientVatRate(tx, rma.clientId),
+              description: chargeAmount !== undefined
+                ? `Обработка возврата ${rma.rmaNumber}`
+                : `Обработка возврата ${rma.rmaNumber} (${charge.basis})`,
+            },
+          });
+          await syncIncomePosting(tx, handling.id);
+        }
+
+        // Revenue follows the reversal and handling invoices
+        await refreshOrderProfit(tx, rma.orderId);
+
+        const completed = await tx.returnAuthorization.update({
+          where: { id },
+          data: {
+            status: 'COMPLETED',
+            completedAt: new Date(),
+            refundAmount,
+            chargeAmount: clientCharge,
+            costAmount: charge.costAmount,
+          },
+        });
+
+        // Whole order came back: move it to RETURNED
+        const returned = await getReturnedQuantities(tx, rma.orderId);
+        const fullyReturned = rma.order.items
+          .filter(i => i.productId)
+          .every(i => (returned.get(i.id) || 0) >= i.quantity);
+
+        if (fullyReturned && ORDER_STATUS_TRANSITIONS[rma.order.status]?.RETURNED) {
+          await tx.order.update({ where: { id: rma.orderId }, data: { status: 'RETURNED' } });
+          await recordStatusChange(tx, {
+            orderId: rma.orderId,
+            fromStatus: rma.order.status,
+            toStatus: 'RETURNED',
+            changedById: req.user!.userId,
+            comment: `Полный возврат ${rma.rmaNumber}`,
+          });
+        }
+
+        return completed;
+      });
+
+      res.json({ success: true, message: `Возврат ${rma.rmaNumber} обработан`, data: result });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Process return error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка обработки возврата' });
+    }
+  }
+);
+
+// Cancel return before receiving has started
+router.post(
+  '/:id/cancel',
+  authenticate,
+  authorize('ADMIN', 'MANAGER'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+
+    try {
+      const rma = await prisma.returnAuthorization.findUnique({ where: { id } });
+
+      if (!rma) {
+        return res.status(404).json({ success: false, error: 'Возврат не найден' });
+      }
+      if (rma.status !== 'RECEIVING') {
+        return res.status(400).json({ success: false, error: 'Отменить можно только возврат до приемки' });
+      }
+
+      const started = rma.taskId
+        ? await prisma.taskItem.count({ where: { taskId: rma.taskId, isCompleted: true } })
+        : 0;
+      if (started > 0) {
+        return res.status(400).json({ success: false, error: 'Приемка возврата уже начата' });
+      }
+
+      const cancelled = await prisma.$transaction(async (tx) => {
+        if (rma.taskId) {
+          await tx.warehouseTask.update({
+            where: { id: rma.taskId },
+            data: { status: 'CANCELLED', notes: `Отменена: возврат ${rma.rmaNumber} отменен` },
+          });
+        }
+        return tx.returnAuthorization.update({
+          where: { id },
+          data: { status: 'CANCELLED' },
+        });
+      });
+
+      res.json({ success: true, message: 'Возврат отменен', data: cancelled });
+    } catch (error) {
+      console.error('Cancel return error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка отмены возврата' });
+    }
+  }
+);
+
+export default router;
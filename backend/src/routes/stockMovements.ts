@@ -2,19 +2,21 @@ import { Router, Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { authenticate, authorize } from '../middleware/auth';
 import { createWriteOffEntry } from '../utils/financeHelpers';
+import { productOwnerFilter } from '../utils/productOwnership';
 
 const router = Router();
 
 // Get all stock movements with filters
 router.get('/', authenticate, async (req: Request, res: Response) => {
   const prisma: PrismaClient = (req as any).prisma;
-  const { productId, movementType, warehouseId, fromDate, toDate, limit } = req.query;
+  const { productId, movementType, warehouseId, clientId, fromDate, toDate, limit } = req.query;
 
   try {
     const where: any = {};
     
     if (productId) where.productId = productId;
     if (movementType) where.movementType = movementType;
+    if (clientId) where.product = productOwnerFilter(clientId as string);
     
     if (fromDate || toDate) {
       where.createdAt = {};
@@ -34,7 +36,7 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
       where,
       include: {
         product: {
-          select: { id: true, sku: true, name: true }
+          select: { id: true, sku: true, name: true, clientId: true }
         },
         fromLocation: {
           include: { warehouse: { select: { id: true, name: true, code: true } } }
@@ -0,0 +1,330 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticate, authorize } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { calculateStorageBilling, STORAGE_UNITS } from '../utils/storageBilling';
+import { recordStatusChange } from '../utils/orderStatus';
+import { syncOrderPostings } from '../utils/autoPostings';
+import { getClientVatRate, getServiceVatRate } from '../utils/vat';
+
+const router = Router();
+
+const formatDate = (date: Date) => date.toLocaleDateString('ru-RU');
+
+// Generate billing run number: SB-YYYYMM-NNNN
+const generateRunNumber = async (prisma: PrismaClient, periodFrom: Date) => {
+  const prefix = `SB-${periodFrom.getFullYear()}${(periodFrom.getMonth() + 1).toString().padStart(2, '0')}-`;
+  const count = await prisma.storageBillingRun.count({ where: { runNumber: { startsWith: prefix } } });
+  return `${prefix}${(count + 1).toString().padStart(4, '0')}`;
+};
+
+// Get all billing runs
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  const prisma: PrismaClient = (req as any).prisma;
+  const { vendorId, status } = req.query;
+
+  try {
+    const where: any = {};
+    if (vendorId) where.vendorId = vendorId;
+    if (status) where.status = status;
+
+    const runs = await prisma.storageBillingRun.findMany({
+      where,
+      include: {
+        vendor: { select: { id: true, name: true } },
+        _count: { select: { lines: true } },
+      },
+      orderBy: { periodFrom: 'desc' },
+    });
+
+    res.json({ success: true, data: runs });
+  } catch (error) {
+    console.error('Get storage billing runs error:', error);
+    res.status(500).json({ success: false, error: 'Ошибка получения биллинга хранения' });
+  }
+});
+
+// Get single billing run with lines
+router.get('/:id', authenticate, async (req: Request, res: Response) => {
+  const prisma: PrismaClient = (req as any).prisma;
+  const { id } = req.params;
+
+  try {
+    const run = await prisma.storageBillingRun.findUnique({
+      where: { id },
+      include: {
+        vendor: { select: { id: true, name: true } },
+        lines: {
+          include: {
+            client: { select: { id: true, name: true } },
+            storageLocation: { select: { id: true, code: true, type: true } },
+            order: { select: { id: true, orderNumber: true } },
+          },
+          orderBy: [{ clientId: 'asc' }],
+        },
+      },
+    });
+
+    if (!run) {
+      return res.status(404).json({ success: false, error: 'Биллинг хранения не найден' });
+    }
+
+    res.json({ success: true, data: run });
+  } catch (error) {
+    console.error('Get storage billing run error:', error);
+    res.status(500).json({ success: false, error: 'Ошибка получения биллинга хранения' });
+  }
+});
+
+// Calculate storage billing for a period (dry run by default) and optionally post it
+router.post(
+  '/run',
+  authenticate,
+  authorize('ADMIN', 'MANAGER', 'ANALYST'),
+  [
+    body('periodFrom').isISO8601().withMessage('Укажите начало периода'),
+    body('periodTo').isISO8601().withMessage('Укажите конец периода'),
+    body('dryRun').optional().isBoolean().withMessage('dryRun должен быть true/false'),
+  ],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const { warehouseId, notes } = req.body;
+    const dryRun = req.body.dryRun === undefined ? true : req.body.dryRun === true || req.body.dryRun === 'true';
+    const periodFrom = new Date(req.body.periodFrom);
+    const periodTo = new Date(req.body.periodTo);
+    let { vendorId } = req.body;
+
+    try {
+      if (periodTo < periodFrom) {
+        return res.status(400).json({ success: false, error: 'Конец периода раньше начала' });
+      }
+
+      if (!dryRun && !['ADMIN', 'MANAGER'].includes(req.user!.role)) {
+        return res.status(403).json({ success: false, error: 'Недостаточно прав для проведения биллинга' });
+      }
+
+      // Default to the only vendor with storage services
+      if (!vendorId) {
+        const vendors = await prisma.vendorService.findMany({
+          where: { type: 'STORAGE', isActive: true, unit: { in: STORAGE_UNITS } },
+          select: { vendorId: true },
+          distinct: ['vendorId'],
+        });
+        if (vendors.length !== 1) {
+          return res.status(400).json({ success: false, error: 'Укажите поставщика услуг хранения' });
+        }
+        vendorId = vendors[0].vendorId;
+      }
+
+      const vendor = await prisma.vendor.findUnique({ where: { id: vendorId } });
+      if (!vendor) {
+        return res.status(404).json({ success: false, error: 'Поставщик не найден' });
+      }
+
+      const overlapping = await prisma.storageBillingRun.findFirst({
+        where: {
+          vendorId,
+          status: 'POSTED',
+          periodFrom: { lte: periodTo },
+          periodTo: { gte: periodFrom },
+        },
+      });
+      if (overlapping && !dryRun) {
+        return res.status(409).json({
+          success: false,
+          error: `Период пересекается с проведенным биллингом ${overlapping.runNumber}`,
+        });
+      }
+
+      const billing = await calculateStorageBilling(prisma, { vendorId, periodFrom, periodTo, warehouseId });
+
+      if (dryRun) {
+        return res.json({
+          success: true,
+          data: { ...billing, dryRun: true, overlappingRun: overlapping?.runNumber || null },
+        });
+      }
+
+      if (billing.lines.length === 0) {
+        return res.status(400).json({ success: false, error: 'Нет остатков для начисления за период' });
+      }
+
+      const runNumber = await generateRunNumber(prisma, billing.periodFrom);
+      const period = `${formatDate(billing.periodFrom)} – ${formatDate(billing.periodTo)}`;
+
+      const run = await prisma.$transaction(async (tx) => {
+        const newRun = await tx.storageBillingRun.create({
+          data: {
+            runNumber,
+            vendorId,
+            periodFrom: billing.periodFrom,
+            periodTo: billing.periodTo,
+            totalCost: billing.totals.costAmount,
+            totalIncome: billing.totals.incomeAmount,
+            createdById: req.user!.userId,
+            notes,
+          },
+        });
+
+        // One storage charge order per client
+        const orderIds = new Map<string, string>();
+        for (const [index, client] of billing.clients.entries()) {
+          const profit = client.incomeAmount - client.costAmount;
+          const order = await tx.order.create({
+            data: {
+              orderNumber: `${runNumber}-${(index + 1).toString().padStart(2, '0')}`,
+              clientId: client.clientId,
+              managerId: req.user!.userId,
+              status: 'COMPLETED',
+              orderDate: billing.periodTo,
+              deliveredDate: billing.periodTo,
+              notes: `Хранение за период ${period}`,
+              estimatedCost: client.costAmount,
+              actualCost: client.costAmount,
+              totalIncome: client.incomeAmount,
+              profit,
+              marginPercent: client.incomeAmount > 0 ? (profit / client.incomeAmount) * 100 : 0,
+              items: {
+                create: [{
+                  sku: 'STORAGE',
+                  name: `Хранение за период ${period}`,
+                  quantity: 1,
+                  unitCost: client.costAmount,
+                  unitPrice: client.incomeAmount,
+                }],
+              },
+            },
+          });
+          orderIds.set(client.clientId, order.id);
+
+          await recordStatusChange(tx, {
+            orderId: order.id,
+            fromStatus: null,
+            toStatus: 'COMPLETED',
+            changedById: req.user!.userId,
+            comment: `Начисление за хранение (${runNumber})`,
+          });
+
+          for (const charge of client.charges) {
+            await tx.costOperation.create({
+              data: {
+                orderId: order.id,
+                vendorId,
+                vendorServiceId: charge.vendorServiceId,
+                quantity: charge.quantity,
+                unitPrice: charge.unitPrice,
+                calculatedAmount: charge.amount,
+                actualAmount: charge.amount,
+                vatRate: await getServiceVatRate(tx, charge.vendorServiceId),
+                description: `${vendor.name}: ${charge.serviceName} (${period})`,
+                operationDate: billing.periodTo,
+              },
+            });
+          }
+
+          await tx.incomeOperation.create({
+            data: {
+              orderId: order.id,
+              clientId: client.clientId,
+              invoiceAmount: client.incomeAmount,
+              paidAmount: 0,
+              vatRate: await getClientVatRate(tx, client.clientId),
+              description: `Хранение за период ${period} (${runNumber})`,
+            },
+          });
+
+          await syncOrderPostings(tx, order.id);
+        }
+
+        await tx.storageBillingLine.createMany({
+          data: billing.lines.map(line => ({
+            runId: newRun.id,
+            clientId: line.clientId,
+            storageLocationId: line.storageLocationId,
+            orderId: line.clientId ? orderIds.get(line.clientId) || null : null,
+            palletDays: line.palletDays,
+            volumeDays: line.volumeDays,
+            daysOccupied: line.daysOccupied,
+            costAmount: line.costAmount,
+            incomeAmount: line.incomeAmount,
+          })),
+        });
+
+        return newRun;
+      });
+
+      res.status(201).json({
+        success: true,
+        message: `Биллинг ${runNumber} проведен: ${billing.clients.length} клиент(ов)`,
+        data: { ...billing, dryRun: false, run },
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Storage billing run error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка расчета биллинга хранения' });
+    }
+  }
+);
+
+// Cancel posted billing run (removes generated storage orders)
+router.post(
+  '/:id/cancel',
+  authenticate,
+  authorize('ADMIN', 'MANAGER'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+
+    try {
+      const run = await prisma.storageBillingRun.findUnique({
+        where: { id },
+        include: { lines: { select: { orderId: true } } },
+      });
+
+      if (!run) {
+        return res.status(404).json({ success: false, error: 'Биллинг хранения не найден' });
+      }
+      if (run.status === 'CANCELLED') {
+        return res.status(400).json({ success: false, error: 'Биллинг уже отменен' });
+      }
+
+      const orderIds = [...new Set(run.lines.map(l => l.orderId).filter((v): v is string => !!v))];
+
+      const paid = await prisma.incomeOperation.count({
+        where: { orderId: { in: orderIds }, paidAmount: { gt: 0 } },
+      });
+      if (paid > 0) {
+        return res.status(400).json({ success: false, error: 'Нельзя отменить биллинг: по начислениям есть оплаты' });
+      }
+
+      const cancelled = await prisma.$transaction(async (tx) => {
+        for (const orderId of orderIds) {
+          await syncOrderPostings(tx, orderId, { remove: true });
+        }
+        await tx.order.deleteMany({ where: { id: { in: orderIds } } });
+        return tx.storageBillingRun.update({
+          where: { id },
+          data: { status: 'CANCELLED' },
+        });
+      });
+
+      res.json({ success: true, message: 'Биллинг хранения отменен', data: cancelled });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Cancel storage billing run error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка отмены биллинга хранения' });
+    }
+  }
+);
+
+export default router;
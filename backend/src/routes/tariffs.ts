@@ -0,0 +1,290 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  TARIFF_RATE_TYPES,
+  resolveClientTariff,
+  calculateTariffIncome,
+  loadDefaultTariff,
+} from '../utils/tariffs';
+
+const router = Router();
+
+const mapRates = (rates: any[]) =>
+  rates.map((rate: any) => ({
+    rateType: rate.rateType,
+    productCategory: rate.productCategory || null,
+    destination: rate.destination || null,
+    unit: rate.unit || 'PIECE',
+    price: rate.price,
+    notes: rate.notes,
+  }));
+
+// Get all tariffs (optionally by client)
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  const prisma: PrismaClient = (req as any).prisma;
+  const { clientId, isActive } = req.query;
+
+  try {
+    const where: any = {};
+
+    if (clientId === 'default') where.clientId = null;
+    else if (clientId) where.clientId = clientId;
+    if (isActive !== undefined) where.isActive = isActive === 'true';
+
+    const tariffs = await prisma.clientTariff.findMany({
+      where,
+      include: {
+        client: { select: { id: true, name: true } },
+        _count: { select: { rates: true } },
+      },
+      orderBy: [{ clientId: 'asc' }, { validFrom: 'desc' }],
+    });
+
+    res.json({ success: true, data: tariffs });
+  } catch (error) {
+    console.error('Get tariffs error:', error);
+    res.status(500).json({ success: false, error: 'Ошибка получения тарифов' });
+  }
+});
+
+// Get effective tariff for client
+router.get('/client/:clientId/effective', authenticate, async (req: Request, res: Response) => {
+  const prisma: PrismaClient = (req as any).prisma;
+  const { clientId } = req.params;
+  const { date } = req.query;
+
+  try {
+    const tariff = await resolveClientTariff(
+      prisma,
+      clientId,
+      date ? new Date(date as string) : new Date()
+    );
+
+    res.json({ success: true, data: tariff });
+  } catch (error) {
+    console.error('Get effective tariff error:', error);
+    res.status(500).json({ success: false, error: 'Ошибка получения тарифа клиента' });
+  }
+});
+
+// Get single tariff with rates
+router.get('/:id', authenticate, async (req: Request, res: Response) => {
+  const prisma: PrismaClient = (req as any).prisma;
+  const { id } = req.params;
+
+  try {
+    const tariff = await prisma.clientTariff.findUnique({
+      where: { id },
+      include: {
+        client: { select: { id: true, name: true } },
+        rates: { orderBy: [{ rateType: 'asc' }, { productCategory: 'asc' }, { destination: 'asc' }] },
+      },
+    });
+
+    if (!tariff) {
+      return res.status(404).json({ success: false, error: 'Тариф не найден' });
+    }
+
+    res.json({ success: true, data: tariff });
+  } catch (error) {
+    console.error('Get tariff error:', error);
+    res.status(500).json({ success: false, error: 'Ошибка получения тарифа' });
+  }
+});
+
+// Create tariff with rates
+router.post(
+  '/',
+  authenticate,
+  authorize('ADMIN', 'MANAGER'),
+  [
+    body('name').notEmpty().withMessage('Введите название тарифа'),
+    body('rates').optional().isArray().withMessage('Ставки должны быть массивом'),
+    body('rates.*.rateType').isIn(TARIFF_RATE_TYPES).withMessage('Неверный тип ставки'),
+    body('rates.*.price').isNumeric().withMessage('Введите корректную цену'),
+  ],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const { clientId, name, isDefault, validFrom, validTo, notes, rates } = req.body;
+
+    try {
+      if (clientId) {
+        const client = await prisma.client.findUnique({ where: { id: clientId } });
+        if (!client) {
+          return res.status(404).json({ success: false, error: 'Клиент не найден' });
+        }
+      }
+
+      const tariff = await prisma.clientTariff.create({
+        data: {
+          clientId: clientId || null,
+          name,
+          isDefault: !clientId && !!isDefault,
+          validFrom: validFrom ? new Date(validFrom) : new Date(),
+          validTo: validTo ? new Date(validTo) : null,
+          notes,
+          rates: rates ? { create: mapRates(rates) } : undefined,
+        },
+        include: { rates: true },
+      });
+
+      res.status(201).json({ success: true, data: tariff });
+    } catch (error) {
+      console.error('Create tariff error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка создания тарифа' });
+    }
+  }
+);
+
+// Update tariff (rates are replaced when provided)
+router.put(
+  '/:id',
+  authenticate,
+  authorize('ADMIN', 'MANAGER'),
+  [
+    body('rates').optional().isArray().withMessage('Ставки должны быть массивом'),
+    body('rates.*.rateType').isIn(TARIFF_RATE_TYPES).withMessage('Неверный тип ставки'),
+    body('rates.*.price').isNumeric().withMessage('Введите корректную цену'),
+  ],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+    const { name, isDefault, validFrom, validTo, isActive, notes, rates } = req.body;
+
+    try {
+      const existing = await prisma.clientTariff.findUnique({ where: { id } });
+      if (!existing) {
+        return res.status(404).json({ success: false, error: 'Тариф не найден' });
+      }
+
+      const tariff = await prisma.$transaction(async (tx) => {
+        if (rates) {
+          await tx.clientTariffRate.deleteMany({ where: { tariffId: id } });
+        }
+
+        return tx.clientTariff.update({
+          where: { id },
+          data: {
+            name,
+            isDefault: isDefault !== undefined ? !existing.clientId && !!isDefault : undefined,
+            validFrom: validFrom ? new Date(validFrom) : undefined,
+            validTo: validTo !== undefined ? (validTo ? new Date(validTo) : null) : undefined,
+            isActive,
+            notes,
+            rates: rates ? { create: mapRates(rates) } : undefined,
+          },
+          include: { rates: true },
+        });
+      });
+
+      res.json({ success: true, data: tariff });
+    } catch (error) {
+      console.error('Update tariff error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка обновления тарифа' });
+    }
+  }
+);
+
+// Delete tariff
+router.delete(
+  '/:id',
+  authenticate,
+  authorize('ADMIN'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+
+    try {
+      await prisma.clientTariff.delete({ where: { id } });
+      res.json({ success: true, message: 'Тариф удален' });
+    } catch (error) {
+      console.error('Delete tariff error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка удаления тарифа' });
+    }
+  }
+);
+
+// Load default tariff from the MPSELL price sheet
+router.post(
+  '/load-default',
+  authenticate,
+  authorize('ADMIN'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+
+    try {
+      const tariff = await prisma.$transaction((tx) => loadDefaultTariff(tx));
+
+      res.json({
+        success: true,
+        message: `Загружен тариф по умолчанию (${tariff.rates.length} ставок)`,
+        data: tariff,
+      });
+    } catch (error) {
+      console.error('Load default tariff error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка загрузки тарифа по умолчанию' });
+    }
+  }
+);
+
+// Preview order income by client tariff
+router.post(
+  '/preview',
+  authenticate,
+  [
+    body('clientId').notEmpty().withMessage('Выберите клиента'),
+    body('items').isArray().withMessage('Укажите товары'),
+  ],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const { clientId, items, destination, palletCount, boxCount, date } = req.body;
+
+    try {
+      const tariff = await resolveClientTariff(
+        prisma,
+        clientId,
+        date ? new Date(date) : new Date()
+      );
+
+      if (!tariff) {
+        return res.status(404).json({ success: false, error: 'Для клиента не найден действующий тариф' });
+      }
+
+      const income = calculateTariffIncome(tariff, {
+        items: items.map((item: any) => ({
+          name: item.name,
+          category: item.category,
+          quantity: Number(item.quantity) || 1,
+          unitPrice: Number(item.unitPrice) || 0,
+        })),
+        destination,
+        palletCount: Number(palletCount) || 0,
+        boxCount: Number(boxCount) || 0,
+      });
+
+      res.json({ success: true, data: income });
+    } catch (error) {
+      console.error('Preview tariff error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка расчета по тарифу' });
+    }
+  }
+);
+
+export default router;
@@ -2,6 +2,8 @@ import { Router, Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import { PrismaClient } from '@prisma/client';
 import { authenticate, authorize } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { postJournalEntry, reverseJournalEntry } from '../utils/posting';
 
 const router = Router();
 
@@ -56,6 +58,14 @@ router.get(
                 order: { select: { orderNumber: true } } 
               } 
             },
+            entry: {
+              select: {
+                entryNumber: true,
+                source: true,
+                reversalOfId: true,
+                reversedBy: { select: { entryNumber: true } },
+              },
+            },
           },
           orderBy: { transactionDate: 'desc' },
           skip,
@@ -81,15 +91,19 @@ router.get(
   }
 );
 
-// Create manual transaction (double-entry)
+// Create manual entry: a debit/credit pair or balanced multi-line lines
 router.post(
   '/',
   authenticate,
   authorize('ADMIN'),
   [
-    body('debitAccountId').notEmpty().withMessage('Укажите дебетовый счет'),
-    body('creditAccountId').notEmpty().withMessage('Укажите кредитовый счет'),
-    body('amount').isNumeric().custom((value) => value > 0)
+    body('lines').optional().isArray({ min: 2 }).withMessage('Операция должна содержать минимум две строки'),
+    body('lines.*.accountId').optional().notEmpty().withMessage('Укажите счет'),
+    body('lines.*.debit').optional().isFloat({ min: 0 }).withMessage('Сумма не может быть отрицательной'),
+    body('lines.*.credit').optional().isFloat({ min: 0 }).withMessage('Сумма не может быть отрицательной'),
+    body('debitAccountId').if(body('lines').not().exists()).notEmpty().withMessage('Укажите дебетовый счет'),
+    body('creditAccountId').if(body('lines').not().exists()).notEmpty().withMessage('Укажите кредитовый счет'),
+    body('amount').if(body('lines').not().exists()).isNumeric().custom((value) => value > 0)
       .withMessage('Сумма должна быть положительной'),
   ],
   async (req: Request, res: Response) => {
@@ -99,69 +113,44 @@ router.post(
     }
 
     const prisma: PrismaClient = (req as any).prisma;
-    const { debitAccountId, creditAccountId, amount, description, transactionDate } = req.body;
+    const { debitAccountId, creditAccountId, amount, lines, description, transactionDate } = req.body;
 
     try {
-      // Verify accounts exist
-      const [debitAccount, creditAccount] = await Promise.all([
-        prisma.account.findUnique({ where: { id: debitAccountId } }),
-        prisma.account.findUnique({ where: { id: creditAccountId } }),
-      ]);
-
-      if (!debitAccount || !creditAccount) {
-        return res.status(404).json({ success: false, error: 'Счет не найден' });
-      }
-
-      if (debitAccountId === creditAccountId) {
-        return res.status(400).json({
-          success: false,
-          error: 'Дебетовый и кредитовый счета должны быть разными',
-        });
+      const date = transactionDate ? new Date(transactionDate) : new Date();
+      if (isNaN(date.getTime())) {
+        return res.status(400).json({ success: false, error: 'Неверная дата проводки' });
       }
 
-      // Create transaction and update balances
-      const transaction = await prisma.$transaction(async (tx) => {
-        // Create transaction record
-        const txn = await tx.finTransaction.create({
-          data: {
-            debitAccountId,
-            creditAccountId,
-            amount,
-            description,
-            transactionDate: transactionDate ? new Date(transactionDate) : new Date(),
-          },
-          include: {
-            debitAccount: { select: { code: true, name: true } },
-            creditAccount: { select: { code: true, name: true } },
-          },
-        });
-
-        // Update debit account balance (increase for ASSET/EXPENSE, decrease for others)
-        const debitMultiplier = ['ASSET', 'EXPENSE'].includes(debitAccount.type) ? 1 : -1;
-        await tx.account.update({
-          where: { id: debitAccountId },
-          data: { balance: { increment: amount * debitMultiplier } },
-        });
-
-        // Update credit account balance (increase for LIABILITY/REVENUE/EQUITY, decrease for others)
-        const creditMultiplier = ['LIABILITY', 'REVENUE', 'EQUITY'].includes(creditAccount.type) ? 1 : -1;
-        await tx.account.update({
-          where: { id: creditAccountId },
-          data: { balance: { increment: amount * creditMultiplier } },
-        });
-
-        return txn;
-      });
-
-      res.status(201).json({ success: true, data: transaction });
+      const entry = await prisma.$transaction(async (tx) => postJournalEntry(tx, {
+        lines: lines
+          ? lines.map((line: any) => ({
+            accountId: line.accountId,
+            debit: Number(line.debit) || 0,
+            credit: Number(line.credit) || 0,
+          }))
+          : [
+            { accountId: debitAccountId, debit: Number(amount) },
+            { accountId: creditAccountId, credit: Number(amount) },
+          ],
+        description,
+        entryDate: date,
+        source: 'MANUAL',
+        createdById: req.user!.userId,
+      }));
+
+      // A simple pair keeps the old response shape (the single posting)
+      res.status(201).json({ success: true, data: lines ? entry : entry!.transactions[0] });
     } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
       console.error('Create transaction error:', error);
       res.status(500).json({ success: false, error: 'Ошибка создания проводки' });
     }
   }
 );
 
-// Reverse transaction (create opposite entry)
+// Reverse transaction: the whole entry it belongs to is reversed
 router.post(
   '/:id/reverse',
   authenticate,
@@ -174,52 +163,19 @@ router.post(
     try {
       const original = await prisma.finTransaction.findUnique({ where: { id } });
 
-      if (!original) {
+      if (!original || !original.entryId) {
         return res.status(404).json({ success: false, error: 'Проводка не найдена' });
       }
 
-      // Create reverse transaction (swap debit/credit)
-      const reverseTransaction = await prisma.$transaction(async (tx) => {
-        const reverse = await tx.finTransaction.create({
-          data: {
-            debitAccountId: original.creditAccountId,
-            creditAccountId: original.debitAccountId,
-            amount: original.amount,
-            description: description || `Сторно проводки ${id}`,
-          },
-          include: {
-            debitAccount: { select: { code: true, name: true } },
-            creditAccount: { select: { code: true, name: true } },
-          },
-        });
-
-        // Reverse balance changes (simplified)
-        const [debitAccount, creditAccount] = await Promise.all([
-          tx.account.findUnique({ where: { id: original.debitAccountId } }),
-          tx.account.findUnique({ where: { id: original.creditAccountId } }),
-        ]);
-
-        if (debitAccount) {
-          const multiplier = ['ASSET', 'EXPENSE'].includes(debitAccount.type) ? -1 : 1;
-          await tx.account.update({
-            where: { id: original.debitAccountId },
-            data: { balance: { increment: original.amount.toNumber() * multiplier } },
-          });
-        }
-
-        if (creditAccount) {
-          const multiplier = ['LIABILITY', 'REVENUE', 'EQUITY'].includes(creditAccount.type) ? -1 : 1;
-          await tx.account.update({
-            where: { id: original.creditAccountId },
-            data: { balance: { increment: original.amount.toNumber() * multiplier } },
-          });
-        }
-
-        return reverse;
-      });
+      const reversal = await prisma.$transaction(async (tx) =>
+        reverseJournalEntry(tx, original.entryId!, { description, createdById: req.user!.userId })
+      );
 
-      res.status(201).json({ success: true, data: reverseTransaction });
+      res.status(201).json({ success: true, data: reversal });
     } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
       console.error('Reverse transaction error:', error);
       res.status(500).json({ success: false, error: 'Ошибка сторнирования проводки' });
     }
@@ -0,0 +1,502 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import * as XLSX from 'xlsx';
+import { authenticate, authorize } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import {
+  PAYABLES_AGING_BUCKETS,
+  getUnbilledVendorItems,
+  refreshVendorBillTotals,
+  createVendorBill,
+  updateVendorBillLine,
+  removeVendorBillLine,
+  approveVendorBill,
+  payVendorBill,
+  cancelVendorBill,
+  getPayablesAging,
+} from '../utils/vendorBills';
+import { BASE_CURRENCY, CURRENCIES, getExchangeRate } from '../utils/currency';
+
+const router = Router();
+
+const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const billInclude = {
+  vendor: { select: { id: true, name: true, inn: true } },
+  lines: {
+    include: {
+      costOperation: { select: { id: true, operationDate: true, order: { select: { id: true, orderNumber: true } } } },
+      orderExpense: { select: { id: true, category: true, createdAt: true, order: { select: { id: true, orderNumber: true } } } },
+    },
+  },
+  payments: {
+    include: {
+      transaction: {
+        select: {
+          id: true,
+          amount: true,
+          debitAccount: { select: { code: true, name: true } },
+          creditAccount: { select: { code: true, name: true } },
+        },
+      },
+    },
+    orderBy: { paymentDate: 'asc' as const },
+  },
+};
+
+function parseDay(value: unknown, endOfDay = false) {
+  const date = new Date(value as string);
+  if (endOfDay) date.setHours(23, 59, 59, 999);
+  return date;
+}
+
+// Get vendor bills
+router.get(
+  '/',
+  authenticate,
+  authorize('ADMIN', 'MANAGER', 'ANALYST'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { vendorId, status, matchStatus, dateFrom, dateTo } = req.query;
+
+    try {
+      const where: any = {};
+      if (vendorId) where.vendorId = vendorId;
+      if (status) where.status = status;
+      if (matchStatus) where.matchStatus = matchStatus;
+      if (dateFrom || dateTo) {
+        where.invoiceDate = {};
+        if (dateFrom) where.invoiceDate.gte = parseDay(dateFrom);
+        if (dateTo) where.invoiceDate.lte = parseDay(dateTo, true);
+      }
+
+      const bills = await prisma.vendorBill.findMany({
+        where,
+        include: {
+          vendor: { select: { id: true, name: true } },
+          _count: { select: { lines: true } },
+        },
+        orderBy: { invoiceDate: 'desc' },
+      });
+
+      const data = bills.map(b => ({
+        ...b,
+        openAmount: Math.round((b.invoiceAmount.toNumber() - b.paidAmount.toNumber()) * 100) / 100,
+      }));
+
+      res.json({ success: true, data });
+    } catch (error) {
+      console.error('Get vendor bills error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка получения счетов поставщиков' });
+    }
+  }
+);
+
+// Payables aging by vendor
+router.get(
+  '/aging',
+  authenticate,
+  authorize('ADMIN', 'MANAGER', 'ANALYST'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { asOf, vendorId, format } = req.query;
+
+    try {
+      const asOfDate = asOf ? parseDay(asOf, true) : new Date();
+      if (isNaN(asOfDate.getTime())) {
+        return res.status(400).json({ success: false, error: 'Неверная дата' });
+      }
+
+      const aging = await getPayablesAging(prisma, {
+        asOf: asOfDate,
+        vendorId: vendorId as string | undefined,
+      });
+
+      if (format === 'xlsx') {
+        const rows = aging.vendors.map(v => ({
+          'Поставщик': v.vendorName,
+          'По счетам': v.billed,
+          'Оплачено': v.paid,
+          ...Object.fromEntries(PAYABLES_AGING_BUCKETS.map(b => [b.label, v.buckets[b.key]])),
+          'Сальдо': v.balance,
+          'Без счета': v.unbilled,
+        }));
+
+        const ws = XLSX.utils.aoa_to_sheet([[`Кредиторская задолженность на ${asOfDate.toLocaleDateString('ru-RU')}`]]);
+        XLSX.utils.sheet_add_json(ws, rows, { origin: 'A3' });
+        const wb = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(wb, ws, 'Кредиторка');
+
+        res.setHeader('Content-Type', XLSX_CONTENT_TYPE);
+        res.setHeader('Content-Disposition', 'attachment; filename=payables-aging.xlsx');
+        return res.send(XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' }));
+      }
+
+      res.json({ success: true, data: aging });
+    } catch (error) {
+      console.error('Get payables aging error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка получения кредиторской задолженности' });
+    }
+  }
+);
+
+// Vendor costs not included in any bill (preview before creating a bill)
+router.get(
+  '/unbilled',
+  authenticate,
+  authorize('ADMIN', 'MANAGER', 'ANALYST'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { vendorId, periodFrom, periodTo } = req.query;
+
+    if (!vendorId) {
+      return res.status(400).json({ success: false, error: 'Укажите поставщика' });
+    }
+
+    try {
+      const items = await getUnbilledVendorItems(prisma, vendorId as string, {
+        from: periodFrom ? parseDay(periodFrom) : undefined,
+        to: periodTo ? parseDay(periodTo, true) : undefined,
+      });
+      res.json({ success: true, data: items });
+    } catch (error) {
+      console.error('Get unbilled vendor costs error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка получения расходов поставщика' });
+    }
+  }
+);
+
+// Get single bill with lines and payments
+router.get(
+  '/:id',
+  authenticate,
+  authorize('ADMIN', 'MANAGER', 'ANALYST'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+
+    try {
+      const bill = await prisma.vendorBill.findUnique({ where: { id }, include: billInclude });
+
+      if (!bill) {
+        return res.status(404).json({ success: false, error: 'Счет поставщика не найден' });
+      }
+
+      res.json({ success: true, data: bill });
+    } catch (error) {
+      console.error('Get vendor bill error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка получения счета поставщика' });
+    }
+  }
+);
+
+// Register vendor bill for a period (draft with three-way match)
+router.post(
+  '/',
+  authenticate,
+  authorize('ADMIN', 'MANAGER', 'ANALYST'),
+  [
+    body('vendorId').notEmpty().withMessage('Укажите поставщика'),
+    body('invoiceNumber').trim().notEmpty().withMessage('Укажите номер счета поставщика'),
+    body('invoiceDate').isISO8601().withMessage('Неверная дата счета'),
+    body('dueDate').optional({ nullable: true }).isISO8601().withMessage('Неверный срок оплаты'),
+    body('periodFrom').isISO8601().withMessage('Неверное начало периода'),
+    body('periodTo').isISO8601().withMessage('Неверный конец периода'),
+    body('currency').optional().isIn(CURRENCIES).withMessage('Неизвестная валюта'),
+    body('currencyAmount').optional({ nullable: true }).isFloat({ gt: 0 }).withMessage('Сумма в валюте должна быть больше 0'),
+    body('invoiceAmount').if(body('currencyAmount').not().exists()).isFloat({ gt: 0 }).withMessage('Сумма счета должна быть больше 0'),
+    body('costOperationIds').optional().isArray(),
+    body('orderExpenseIds').optional().isArray(),
+  ],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const { vendorId, invoiceNumber, invoiceDate, dueDate, periodFrom, periodTo, invoiceAmount, currency, currencyAmount, notes, costOperationIds, orderExpenseIds } = req.body;
+
+    try {
+      const vendor = await prisma.vendor.findUnique({ where: { id: vendorId } });
+      if (!vendor) {
+        return res.status(404).json({ success: false, error: 'Поставщик не найден' });
+      }
+
+      const from = parseDay(periodFrom);
+      const to = parseDay(periodTo, true);
+      if (from > to) {
+        return res.status(400).json({ success: false, error: 'Начало периода позже конца' });
+      }
+
+      const duplicate = await prisma.vendorBill.findFirst({
+        where: { vendorId, invoiceNumber, status: { not: 'CANCELLED' } },
+      });
+      if (duplicate) {
+        return res.status(409).json({ success: false, error: `Счет ${invoiceNumber} уже зарегистрирован (${duplicate.billNumber})` });
+      }
+
+      const bill = await prisma.$transaction(async (tx) => {
+        const created = await createVendorBill(
+          tx,
+          {
+            vendorId,
+            invoiceNumber,
+            invoiceDate: new Date(invoiceDate),
+            dueDate: dueDate ? new Date(dueDate) : undefined,
+            periodFrom: from,
+            periodTo: to,
+            invoiceAmount: Number(invoiceAmount) || 0,
+            currency,
+            currencyAmount: currencyAmount ? Number(currencyAmount) : undefined,
+            notes,
+            costOperationIds,
+            orderExpenseIds,
+          },
+          req.user!.userId
+        );
+        return tx.vendorBill.findUnique({ where: { id: created.id }, include: billInclude });
+      });
+
+      res.status(201).json({ success: true, data: bill });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Create vendor bill error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка регистрации счета поставщика' });
+    }
+  }
+);
+
+// Update draft bill header
+router.put(
+  '/:id',
+  authenticate,
+  authorize('ADMIN', 'MANAGER', 'ANALYST'),
+  [
+    body('invoiceNumber').optional().trim().notEmpty().withMessage('Укажите номер счета поставщика'),
+    body('invoiceDate').optional().isISO8601().withMessage('Неверная дата счета'),
+    body('dueDate').optional({ nullable: true }).isISO8601().withMessage('Неверный срок оплаты'),
+    body('invoiceAmount').optional().isFloat({ gt: 0 }).withMessage('Сумма счета должна быть больше 0'),
+    body('currencyAmount').optional().isFloat({ gt: 0 }).withMessage('Сумма в валюте должна быть больше 0'),
+  ],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+    const { invoiceNumber, invoiceDate, dueDate, invoiceAmount, currencyAmount, notes } = req.body;
+
+    try {
+      const existing = await prisma.vendorBill.findUnique({ where: { id } });
+      if (!existing) {
+        return res.status(404).json({ success: false, error: 'Счет поставщика не найден' });
+      }
+      if (existing.status !== 'DRAFT') {
+        return res.status(400).json({ success: false, error: 'Изменять можно только черновик счета' });
+      }
+
+      const bill = await prisma.$transaction(async (tx) => {
+        // Currency bill: RUB amount follows the currency amount at the invoice date rate
+        let amounts = {};
+        if (existing.currency !== BASE_CURRENCY) {
+          if (currencyAmount !== undefined || invoiceDate) {
+            const rate = await getExchangeRate(tx, existing.currency, invoiceDate ? new Date(invoiceDate) : existing.invoiceDate);
+            const total = currencyAmount !== undefined ? Number(currencyAmount) : existing.currencyAmount!.toNumber();
+            amounts = { currencyAmount: total, exchangeRate: rate, invoiceAmount: Math.round(total * rate * 100) / 100 };
+          }
+        } else if (invoiceAmount !== undefined) {
+          amounts = { invoiceAmount: Number(invoiceAmount) };
+        }
+
+        await tx.vendorBill.update({
+          where: { id },
+          data: {
+            invoiceNumber,
+            invoiceDate: invoiceDate ? new Date(invoiceDate) : undefined,
+            dueDate: dueDate === null ? null : dueDate ? new Date(dueDate) : undefined,
+            ...amounts,
+            notes,
+          },
+        });
+        await refreshVendorBillTotals(tx, id);
+        return tx.vendorBill.findUnique({ where: { id }, include: billInclude });
+      });
+
+      res.json({ success: true, data: bill });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Update vendor bill error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка обновления счета поставщика' });
+    }
+  }
+);
+
+// Set billed amount of a draft line
+router.put(
+  '/:id/lines/:lineId',
+  authenticate,
+  authorize('ADMIN', 'MANAGER', 'ANALYST'),
+  [body('billedAmount').isFloat({ min: 0 }).withMessage('Неверная сумма по счету')],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id, lineId } = req.params;
+
+    try {
+      const bill = await prisma.$transaction(async (tx) => {
+        await updateVendorBillLine(tx, id, lineId, Number(req.body.billedAmount));
+        return tx.vendorBill.findUnique({ where: { id }, include: billInclude });
+      });
+
+      res.json({ success: true, data: bill });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Update vendor bill line error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка изменения строки счета' });
+    }
+  }
+);
+
+// Remove line from draft bill
+router.delete(
+  '/:id/lines/:lineId',
+  authenticate,
+  authorize('ADMIN', 'MANAGER', 'ANALYST'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id, lineId } = req.params;
+
+    try {
+      const bill = await prisma.$transaction(async (tx) => {
+        await removeVendorBillLine(tx, id, lineId);
+        return tx.vendorBill.findUnique({ where: { id }, include: billInclude });
+      });
+
+      res.json({ success: true, data: bill });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Remove vendor bill line error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка удаления строки счета' });
+    }
+  }
+);
+
+// Approve bill: billed amounts become actual costs of orders
+router.post(
+  '/:id/approve',
+  authenticate,
+  authorize('ADMIN', 'ANALYST'),
+  [body('acceptVariance').optional().isBoolean()],
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+
+    try {
+      const bill = await prisma.$transaction(async (tx) => {
+        await approveVendorBill(tx, id, req.user!.userId, req.body.acceptVariance === true);
+        return tx.vendorBill.findUnique({ where: { id }, include: billInclude });
+      });
+
+      res.json({ success: true, data: bill });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Approve vendor bill error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка утверждения счета поставщика' });
+    }
+  }
+);
+
+// Record payment to vendor (Dr 60 / Cr 51)
+router.post(
+  '/:id/payments',
+  authenticate,
+  authorize('ADMIN', 'ANALYST'),
+  [
+    body('amount').optional().isFloat({ gt: 0 }).withMessage('Сумма оплаты должна быть больше 0'),
+    body('currencyAmount').optional().isFloat({ gt: 0 }).withMessage('Сумма оплаты в валюте должна быть больше 0'),
+    body('exchangeRate').optional({ nullable: true }).isFloat({ gt: 0 }).withMessage('Курс должен быть больше 0'),
+    body('paymentDate').optional().isISO8601().withMessage('Неверная дата оплаты'),
+  ],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+    const { amount, currencyAmount, exchangeRate, paymentDate, reference } = req.body;
+
+    try {
+      const bill = await prisma.$transaction(async (tx) => {
+        await payVendorBill(
+          tx,
+          id,
+          {
+            amount: amount !== undefined ? Number(amount) : undefined,
+            currencyAmount: currencyAmount !== undefined ? Number(currencyAmount) : undefined,
+            exchangeRate: exchangeRate ? Number(exchangeRate) : undefined,
+            paymentDate: paymentDate ? new Date(paymentDate) : undefined,
+            reference,
+          },
+          req.user!.userId
+        );
+        return tx.vendorBill.findUnique({ where: { id }, include: billInclude });
+      });
+
+      res.status(201).json({ success: true, data: bill });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Pay vendor bill error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка оплаты счета поставщика' });
+    }
+  }
+);
+
+// Cancel unpaid bill, its costs become available for billing again
+router.post(
+  '/:id/cancel',
+  authenticate,
+  authorize('ADMIN'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
+
+    try {
+      const bill = await prisma.$transaction(async (tx) => {
+        await cancelVendorBill(tx, id);
+        return tx.vendorBill.findUnique({ where: { id }, include: billInclude });
+      });
+
+      res.json({ success: true, data: bill });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Cancel vendor bill error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка аннулирования счета поставщика' });
+    }
+  }
+);
+
+export default router;
@@ -2,13 +2,30 @@ import { Router, Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import { PrismaClient } from '@prisma/client';
 import { authenticate, authorize } from '../middleware/auth';
-import * as XLSX from 'xlsx';
+import { AppError } from '../middleware/errorHandler';
+import { PRICING_BASES } from '../utils/pricingRules';
+import { VAT_RATES } from '../utils/vat';
+import { CURRENCIES } from '../utils/currency';
+import {
+  PRICE_LIST_FIELDS,
+  PriceListMapping,
+  readPriceList,
+  diffPriceList,
+  importPriceList,
+} from '../utils/vendorPrices';
 
 const router = Router();
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const multer = require('multer');
 const upload = multer({ storage: multer.memoryStorage() });
 
+const mapPriceTiers = (tiers: any[]) =>
+  tiers.map((tier: any) => ({
+    fromQuantity: tier.fromQuantity,
+    price: tier.price ?? null,
+    discountPercent: tier.discountPercent ?? null,
+  }));
+
 // Get all services (optionally by vendor)
 router.get('/', authenticate, async (req: Request, res: Response) => {
   const prisma: PrismaClient = (req as any).prisma;
@@ -48,6 +65,7 @@ router.get('/:id', authenticate, async (req: Request, res: Response) => {
       where: { id },
       include: {
         vendor: true,
+        priceTiers: { orderBy: { fromQuantity: 'asc' } },
         priceHistory: {
           orderBy: { changedAt: 'desc' },
           take: 20,
@@ -79,9 +97,15 @@ router.post(
       'RECEIVING', 'LABELING', 'RETURNS', 'OTHER'
     ]).withMessage('Неверный тип услуги'),
     body('unit').isIn([
-      'PIECE', 'KG', 'CUBIC_METER', 'ORDER', 'PALLET', 'DAY', 'MONTH'
+      'PIECE', 'KG', 'CUBIC_METER', 'ORDER', 'PALLET', 'BOX', 'DAY', 'MONTH'
     ]).withMessage('Неверная единица измерения'),
     body('price').isNumeric().withMessage('Введите корректную цену'),
+    body('currency').optional().isIn(CURRENCIES).withMessage('Неизвестная валюта'),
+    body('vatRate').optional().isIn(VAT_RATES).withMessage('Ставка НДС: 0, 10 или 20%'),
+    body('pricingBasis').optional({ nullable: true }).isIn(PRICING_BASES)
+      .withMessage('Неверный показатель диапазона'),
+    body('priceTiers').optional().isArray().withMessage('Ступени цен должны быть массивом'),
+    body('priceTiers.*.fromQuantity').isNumeric().withMessage('Укажите порог ступени'),
   ],
   async (req: Request, res: Response) => {
     const errors = validationResult(req);
@@ -92,35 +116,54 @@ router.post(
     const prisma: PrismaClient = (req as any).prisma;
     const {
       vendorId,
+      code,
       name,
       type,
       unit,
       price,
       currency,
+      vatRate,
       minQuantity,
       maxQuantity,
+      pricingBasis,
+      destination,
+      productCategory,
+      autoApply,
+      priceTiers,
       validFrom,
       validTo,
       notes,
     } = req.body;
 
     try {
+      if (code && await prisma.vendorService.findFirst({ where: { vendorId, code } })) {
+        return res.status(400).json({ success: false, error: `У поставщика уже есть услуга с артикулом ${code}` });
+      }
+
       const service = await prisma.vendorService.create({
         data: {
           vendorId,
+          code: code || null,
           name,
           type,
           unit,
           price,
           currency: currency || 'RUB',
+          vatRate: vatRate ?? 0,
           minQuantity,
           maxQuantity,
+          pricingBasis,
+          destination,
+          productCategory,
+          autoApply: autoApply || false,
           validFrom: validFrom ? new Date(validFrom) : new Date(),
           validTo: validTo ? new Date(validTo) : null,
           notes,
+          priceTiers: priceTiers ? { create: mapPriceTiers(priceTiers) } : undefined,
         },
         include: {
           vendor: { select: { id: true, name: true } },
+          priceTiers: true,
         },
       });
 
@@ -140,7 +183,7 @@ router.put(
   async (req: Request, res: Response) => {
     const prisma: PrismaClient = (req as any).prisma;
     const { id } = req.params;
-    const { price, ...updateData } = req.body;
+    const { price, priceTiers, ...updateData } = req.body;
 
     try {
       // Get current service to track price change
@@ -152,6 +195,12 @@ router.put(
         return res.status(404).json({ success: false, error: 'Услуга не найдена' });
       }
 
+      if (updateData.code && await prisma.vendorService.findFirst({
+        where: { vendorId: currentService.vendorId, code: updateData.code, id: { not: id } },
+      })) {
+        return res.status(400).json({ success: false, error: `У поставщика уже есть услуга с артикулом ${updateData.code}` });
+      }
+
       // If price changed, log to history
       if (price && price !== currentService.price.toNumber()) {
         await prisma.priceHistory.create({
@@ -164,14 +213,22 @@ router.put(
         });
       }
 
+      // Price tiers are replaced as a whole
+      if (Array.isArray(priceTiers)) {
+        await prisma.servicePriceTier.deleteMany({ where: { vendorServiceId: id } });
+      }
+
       const service = await prisma.vendorService.update({
         where: { id },
         data: {
           ...updateData,
+          ...(updateData.code !== undefined ? { code: updateData.code || null } : {}),
           price: price || currentService.price,
+          priceTiers: Array.isArray(priceTiers) ? { create: mapPriceTiers(priceTiers) } : undefined,
         },
         include: {
           vendor: { select: { id: true, name: true } },
+          priceTiers: true,
         },
       });
 
@@ -202,7 +259,8 @@ router.delete(
   }
 );
 
-// Import services from Excel/CSV
+// Import vendor price list from Excel/CSV: matches existing services by code or name.
+// dryRun=true returns the diff only; mapping (JSON) maps fields to file columns
 router.post(
   '/import/:vendorId',
   authenticate,
@@ -211,11 +269,20 @@ router.post(
   async (req: Request, res: Response) => {
     const prisma: PrismaClient = (req as any).prisma;
     const { vendorId } = req.params;
+    const dryRun = req.body.dryRun === 'true';
+    const deactivateMissing = req.body.deactivateMissing === 'true';
 
     if (!req.file) {
       return res.status(400).json({ success: false, error: 'Файл не загружен' });
     }
 
+    let mapping: PriceListMapping = {};
+    try {
+      mapping = req.body.mapping ? JSON.parse(req.body.mapping) : {};
+    } catch {
+      return res.status(400).json({ success: false, error: 'Неверное сопоставление колонок' });
+    }
+
     try {
       // Check vendor exists
       const vendor = await prisma.vendor.findUnique({ where: { id: vendorId } });
@@ -223,62 +290,42 @@ router.post(
         return res.status(404).json({ success: false, error: 'Поставщик не найден' });
       }
 
-      // Parse Excel/CSV
-      const workbook = XLSX.read(req.file.buffer, { type: 'buffer' });
-      const sheetName = workbook.SheetNames[0];
-      const sheet = workbook.Sheets[sheetName];
-      const data = XLSX.utils.sheet_to_json(sheet);
-
-      const typeMap: Record<string, string> = {
-        'хранение': 'STORAGE',
-        'комплектация': 'PICKING',
-        'упаковка': 'PACKING',
-        'доставка': 'SHIPPING',
-        'приемка': 'RECEIVING',
-        'маркировка': 'LABELING',
-        'возврат': 'RETURNS',
-        'прочее': 'OTHER',
+      const priceList = readPriceList(req.file.buffer, mapping);
+      const columns = {
+        headers: priceList.headers,
+        mapping: priceList.mapping,
+        mappingErrors: priceList.mappingErrors,
+        fields: PRICE_LIST_FIELDS,
       };
 
-      const unitMap: Record<string, string> = {
-        'шт': 'PIECE', 'штука': 'PIECE',
-        'кг': 'KG', 'килограмм': 'KG',
-        'куб.м': 'CUBIC_METER', 'м3': 'CUBIC_METER',
-        'заказ': 'ORDER',
-        'паллета': 'PALLET',
-        'день': 'DAY',
-        'месяц': 'MONTH',
-      };
-
-      const imported: any[] = [];
-
-      for (const row of data as any[]) {
-        const name = row['Название'] || row['name'];
-        const typeRaw = (row['Тип'] || row['type'] || 'other').toLowerCase();
-        const unitRaw = (row['Единица'] || row['unit'] || 'шт').toLowerCase();
-        const price = parseFloat(row['Цена'] || row['price'] || 0);
-
-        if (!name || !price) continue;
-
-        const service = await prisma.vendorService.create({
-          data: {
-            vendorId,
-            name,
-            type: (typeMap[typeRaw] || 'OTHER') as any,
-            unit: (unitMap[unitRaw] || 'PIECE') as any,
-            price,
-          },
+      if (priceList.mappingErrors.length > 0) {
+        return res.status(dryRun ? 200 : 400).json({
+          success: dryRun,
+          error: dryRun ? undefined : priceList.mappingErrors[0],
+          data: columns,
         });
+      }
 
-        imported.push(service);
+      if (dryRun) {
+        const diff = await diffPriceList(prisma, vendorId, priceList.rows);
+        return res.json({ success: true, data: { ...columns, ...diff } });
       }
 
+      const result = await prisma.$transaction((tx) =>
+        importPriceList(tx, vendorId, priceList.rows, { deactivateMissing, userId: req.user!.userId })
+      );
+
       res.json({
         success: true,
-        message: `Импортировано ${imported.length} услуг`,
-        data: imported,
+        message: `Новых услуг: ${result.created}, изменено: ${result.updated}, без изменений: ${result.totals.unchanged}`
+          + (result.deactivated ? `, отключено: ${result.deactivated}` : '')
+          + (result.totals.errors ? `, строк с ошибками: ${result.totals.errors}` : ''),
+        data: { ...columns, ...result },
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
       console.error('Import services error:', error);
       res.status(500).json({ success: false, error: 'Ошибка импорта услуг' });
     }
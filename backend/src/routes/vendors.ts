@@ -2,8 +2,19 @@ import { Router, Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import { PrismaClient } from '@prisma/client';
 import { authenticate, authorize } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { previewPriceChanges, applyPriceChanges, parsePriceChangeFile } from '../utils/vendorPrices';
 
 const router = Router();
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const multer = require('multer');
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 10 * 1024 * 1024 } });
+
+const priceChangeValidators = [
+  body('changes').optional().isArray().withMessage('Цены передаются списком'),
+  body('percent').optional({ nullable: true }).isFloat({ gt: -100 }).withMessage('Изменение цены должно быть больше -100%'),
+  body('changes').if(body('percent').not().exists()).isArray({ min: 1 }).withMessage('Укажите новые цены или процент изменения'),
+];
 
 // Get all vendors
 router.get('/', authenticate, async (req: Request, res: Response) => {
@@ -167,6 +178,113 @@ router.put(
   }
 );
 
+// Preview bulk price change: affected open order expenses and templates
+router.post(
+  '/:id/price-changes/preview',
+  authenticate,
+  authorize('ADMIN', 'MANAGER'),
+  priceChangeValidators,
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const { changes, percent } = req.body;
+
+    try {
+      const preview = await previewPriceChanges(prisma, req.params.id, { changes, percent });
+      res.json({ success: true, data: preview });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Preview price changes error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка расчета изменения цен' });
+    }
+  }
+);
+
+// Upload new prices (columns: ID or Название, Новая цена) and preview them
+router.post(
+  '/:id/price-changes/upload',
+  authenticate,
+  authorize('ADMIN', 'MANAGER'),
+  upload.single('file'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+
+    if (!req.file) {
+      return res.status(400).json({ success: false, error: 'Файл не загружен' });
+    }
+
+    try {
+      const changes = parsePriceChangeFile(req.file.buffer);
+      if (changes.length === 0) {
+        return res.status(400).json({ success: false, error: 'В файле нет строк с ценами' });
+      }
+
+      const preview = await previewPriceChanges(prisma, req.params.id, { changes });
+      res.json({ success: true, data: { ...preview, changes } });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Upload price changes error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка загрузки цен' });
+    }
+  }
+);
+
+// Apply bulk price change (price history, optional re-pricing of open expenses)
+router.post(
+  '/:id/price-changes/apply',
+  authenticate,
+  authorize('ADMIN', 'MANAGER'),
+  priceChangeValidators,
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const prisma: PrismaClient = (req as any).prisma;
+    const { changes, percent, repriceExpenses } = req.body;
+
+    try {
+      const result = await prisma.$transaction((tx) =>
+        applyPriceChanges(tx, req.params.id, { changes, percent }, {
+          repriceExpenses: Boolean(repriceExpenses),
+          userId: req.user!.userId,
+        })
+      );
+
+      if (!result.applied) {
+        return res.status(400).json({
+          success: false,
+          error: 'Цены не изменены: исправьте ошибки в строках',
+          data: result,
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result,
+        message: result.repriced > 0
+          ? `Изменено цен: ${result.services.length}, переоценено расходов: ${result.repriced}`
+          : `Изменено цен: ${result.services.length}`,
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Apply price changes error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка изменения цен' });
+    }
+  }
+);
+
 // Delete vendor
 router.delete(
   '/:id',
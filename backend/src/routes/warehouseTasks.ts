@@ -1,27 +1,172 @@
 import { Router, Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 import { authenticate, authorize } from '../middleware/auth';
+import { findForeignProducts, foreignProductsError } from '../utils/productOwnership';
+import { consumeReservation, releaseReservation } from '../utils/stockReservation';
+import { generateTaskNumber, advanceOrderOnTaskCompleted } from '../utils/orderFulfillment';
+import { markReturnReceived } from '../utils/returns';
+import { markShipmentReceived } from '../utils/inboundShipments';
+import { assertLocationsNotFrozen, recordTaskCount } from '../utils/inventoryCounts';
+import { AppError } from '../middleware/errorHandler';
 
 const router = Router();
 
-// Generate task number
-async function generateTaskNumber(prisma: PrismaClient): Promise<string> {
-  const today = new Date();
-  const prefix = `WT-${today.getFullYear()}${String(today.getMonth() + 1).padStart(2, '0')}${String(today.getDate()).padStart(2, '0')}`;
-  
-  const lastTask = await prisma.warehouseTask.findFirst({
-    where: { taskNumber: { startsWith: prefix } },
-    orderBy: { taskNumber: 'desc' }
+// Complete a single task item: record movement and update stock
+async function completeTaskItem(
+  tx: Prisma.TransactionClient,
+  taskId: string,
+  itemId: string,
+  userId: string,
+  actualQty?: number,
+  toLocationId?: string
+) {
+  const taskItem = await tx.taskItem.findUnique({
+    where: { id: itemId },
+    include: { task: true }
   });
 
-  let seq = 1;
-  if (lastTask) {
-    const lastSeq = parseInt(lastTask.taskNumber.split('-').pop() || '0');
-    seq = lastSeq + 1;
+  if (!taskItem || taskItem.taskId !== taskId) {
+    throw new Error('Позиция не найдена');
+  }
+
+  // Counted quantity goes to the count session; stock changes only when the count is posted
+  if (taskItem.task.type === 'INVENTORY') {
+    await tx.taskItem.update({
+      where: { id: itemId },
+      data: { actualQty: actualQty ?? 0, isCompleted: true }
+    });
+    await recordTaskCount(tx, itemId, actualQty ?? 0, userId);
+    return;
   }
 
-  return `${prefix}-${String(seq).padStart(4, '0')}`;
+  await assertLocationsNotFrozen(tx, [taskItem.fromLocationId, toLocationId || taskItem.toLocationId]);
+
+  // Update task item
+  await tx.taskItem.update({
+    where: { id: itemId },
+    data: {
+      actualQty: actualQty || taskItem.expectedQty,
+      toLocationId: toLocationId || taskItem.toLocationId,
+      isCompleted: true
+    }
+  });
+
+  // Create stock movement if product specified
+  if (taskItem.productId) {
+    const task = taskItem.task;
+    let movementType = 'TRANSFER';
+    
+    if (task.type === 'RECEIVING') movementType = 'INBOUND';
+    else if (task.type === 'SHIPPING') movementType = 'OUTBOUND';
+
+    await tx.stockMovement.create({
+      data: {
+        productId: taskItem.productId,
+        fromLocationId: taskItem.fromLocationId,
+        toLocationId: toLocationId || taskItem.toLocationId,
+        quantity: actualQty || taskItem.expectedQty,
+        movementType,
+        taskId,
+        orderId: task.orderId,
+        createdBy: userId
+      }
+    });
+
+    // Update stock
+    const qty = actualQty || taskItem.expectedQty;
+    const targetLocationId = toLocationId || taskItem.toLocationId;
+
+    if (taskItem.fromLocationId && movementType !== 'INBOUND') {
+      // Decrease from source
+      const fromStock = await tx.productStock.findFirst({
+        where: {
+          productId: taskItem.productId,
+          storageLocationId: taskItem.fromLocationId
+        }
+      });
+
+      if (fromStock) {
+        // Order picking takes reserved stock first
+        const fromReserve = task.type === 'PICKING' && task.orderId
+          ? await consumeReservation(tx, task.orderId, fromStock.id, qty)
+          : 0;
+
+        await tx.productStock.update({
+          where: { id: fromStock.id },
+          data: {
+            quantity: { decrement: qty },
+            reservedQty: { decrement: fromReserve },
+            availableQty: { decrement: qty - fromReserve },
+            lastMovementAt: new Date()
+          }
+        });
+
+        // Short pick: the rest of the reservation at this location is released
+        if (task.type === 'PICKING' && task.orderId && qty < taskItem.expectedQty) {
+          await releaseReservation(tx, task.orderId, fromStock.id, taskItem.expectedQty - qty);
+        }
+      }
+    }
+
+    if (targetLocationId && movementType !== 'OUTBOUND') {
+      // Increase at target
+      const toStock = await tx.productStock.findFirst({
+        where: {
+          productId: taskItem.productId,
+          storageLocationId: targetLocationId
+        }
+      });
+
+      if (toStock) {
+        await tx.productStock.update({
+          where: { id: toStock.id },
+          data: {
+            quantity: { increment: qty },
+            availableQty: { increment: qty },
+            lastMovementAt: new Date()
+          }
+        });
+      } else {
+        await tx.productStock.create({
+          data: {
+            productId: taskItem.productId,
+            storageLocationId: targetLocationId,
+            quantity: qty,
+            availableQty: qty
+          }
+        });
+      }
+
+      // Update location status
+      await tx.storageLocation.update({
+        where: { id: targetLocationId },
+        data: { status: 'OCCUPIED' }
+      });
+    }
+  }
+}
+
+// Close the task when all items are done and advance the linked order, return or ASN
+async function finishTaskIfDone(tx: Prisma.TransactionClient, taskId: string, userId: string) {
+  const allItems = await tx.taskItem.findMany({
+    where: { taskId }
+  });
+  
+  const allCompleted = allItems.every(i => i.isCompleted);
+  if (!allCompleted) return null;
+
+  await tx.warehouseTask.update({
+    where: { id: taskId },
+    data: {
+      status: 'COMPLETED',
+      completedAt: new Date()
+    }
+  });
+
+  await markReturnReceived(tx, taskId);
+  await markShipmentReceived(tx, taskId);
+  return advanceOrderOnTaskCompleted(tx, taskId, userId);
 }
 
 // Get all tasks
@@ -117,6 +262,21 @@ router.post(
     const { warehouseId, orderId, type, priority, assignedToId, plannedDate, notes, items } = req.body;
 
     try {
+      // Order tasks may only move stock of the order's client
+      if (orderId && items?.length) {
+        const order = await prisma.order.findUnique({ where: { id: orderId } });
+        if (!order) {
+          return res.status(404).json({ success: false, error: 'Заказ не найден' });
+        }
+
+        const foreignProducts = await findForeignProducts(prisma, order.clientId, {
+          productIds: items.map((item: any) => item.productId)
+        });
+        if (foreignProducts.length > 0) {
+          return res.status(400).json({ success: false, error: foreignProductsError(foreignProducts) });
+        }
+      }
+
       const taskNumber = await generateTaskNumber(prisma);
 
       const task = await prisma.warehouseTask.create({
@@ -178,17 +338,47 @@ router.put(
         updateData.completedAt = new Date();
       }
 
-      const task = await prisma.warehouseTask.update({
-        where: { id },
-        data: updateData,
-        include: {
-          warehouse: true,
-          assignedTo: true
+      const task = await prisma.$transaction(async (tx) => {
+        // Completion goes through the open items: stock, reservations and counts follow
+        if (status === 'COMPLETED') {
+          const current = await tx.warehouseTask.findUnique({
+            where: { id },
+            include: { taskItems: { where: { isCompleted: false } } }
+          });
+          if (!current) {
+            throw new AppError('Задача не найдена', 404);
+          }
+          if (current.status === 'COMPLETED' || current.status === 'CANCELLED') {
+            throw new AppError('Задача уже закрыта', 400);
+          }
+          for (const item of current.taskItems) {
+            await completeTaskItem(tx, id, item.id, req.user!.userId);
+          }
         }
+
+        const updated = await tx.warehouseTask.update({
+          where: { id },
+          data: updateData,
+          include: {
+            warehouse: true,
+            assignedTo: true
+          }
+        });
+
+        if (status === 'COMPLETED') {
+          await markReturnReceived(tx, id);
+          await markShipmentReceived(tx, id);
+          await advanceOrderOnTaskCompleted(tx, id, req.user!.userId);
+        }
+
+        return updated;
       });
 
       res.json({ success: true, data: task });
     } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
       console.error('Update task error:', error);
       res.status(500).json({ success: false, error: 'Ошибка обновления задачи' });
     }
@@ -231,131 +421,81 @@ router.post(
     const { actualQty, toLocationId } = req.body;
 
     try {
-      await prisma.$transaction(async (tx) => {
-        const taskItem = await tx.taskItem.findUnique({
-          where: { id: itemId },
-          include: { task: true }
-        });
+      const item = await prisma.taskItem.findUnique({
+        where: { id: itemId },
+        include: { task: { select: { orderId: true } } }
+      });
+      const order = item?.productId && item.task.orderId
+        ? await prisma.order.findUnique({ where: { id: item.task.orderId }, select: { clientId: true } })
+        : null;
 
-        if (!taskItem || taskItem.taskId !== taskId) {
-          throw new Error('Позиция не найдена');
+      if (item?.productId && order) {
+        const foreignProducts = await findForeignProducts(prisma, order.clientId, {
+          productIds: [item.productId]
+        });
+        if (foreignProducts.length > 0) {
+          return res.status(400).json({ success: false, error: foreignProductsError(foreignProducts) });
         }
+      }
 
-        // Update task item
-        await tx.taskItem.update({
-          where: { id: itemId },
-          data: {
-            actualQty: actualQty || taskItem.expectedQty,
-            toLocationId: toLocationId || taskItem.toLocationId,
-            isCompleted: true
-          }
-        });
+      const orderStatus = await prisma.$transaction(async (tx) => {
+        await completeTaskItem(tx, taskId, itemId, req.user!.userId, actualQty, toLocationId);
+        return finishTaskIfDone(tx, taskId, req.user!.userId);
+      });
 
-        // Create stock movement if product specified
-        if (taskItem.productId) {
-          const task = taskItem.task;
-          let movementType = 'TRANSFER';
-          
-          if (task.type === 'RECEIVING') movementType = 'INBOUND';
-          else if (task.type === 'SHIPPING') movementType = 'OUTBOUND';
-          else if (task.type === 'INVENTORY') movementType = 'ADJUSTMENT';
-
-          await tx.stockMovement.create({
-            data: {
-              productId: taskItem.productId,
-              fromLocationId: taskItem.fromLocationId,
-              toLocationId: toLocationId || taskItem.toLocationId,
-              quantity: actualQty || taskItem.expectedQty,
-              movementType,
-              taskId,
-              orderId: task.orderId,
-              createdBy: req.user!.userId
-            }
-          });
+      res.json({
+        success: true,
+        message: orderStatus ? `Позиция выполнена, заказ переведен в статус ${orderStatus}` : 'Позиция выполнена'
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Complete task item error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка выполнения позиции' });
+    }
+  }
+);
 
-          // Update stock
-          const qty = actualQty || taskItem.expectedQty;
-          const targetLocationId = toLocationId || taskItem.toLocationId;
-
-          if (taskItem.fromLocationId && movementType !== 'INBOUND') {
-            // Decrease from source
-            const fromStock = await tx.productStock.findFirst({
-              where: {
-                productId: taskItem.productId,
-                storageLocationId: taskItem.fromLocationId
-              }
-            });
-
-            if (fromStock) {
-              await tx.productStock.update({
-                where: { id: fromStock.id },
-                data: {
-                  quantity: { decrement: qty },
-                  availableQty: { decrement: qty },
-                  lastMovementAt: new Date()
-                }
-              });
-            }
-          }
+// Complete whole task (remaining items with expected quantities)
+router.post(
+  '/:id/complete',
+  authenticate,
+  authorize('ADMIN', 'MANAGER', 'WAREHOUSE'),
+  async (req: Request, res: Response) => {
+    const prisma: PrismaClient = (req as any).prisma;
+    const { id } = req.params;
 
-          if (targetLocationId && movementType !== 'OUTBOUND') {
-            // Increase at target
-            const toStock = await tx.productStock.findFirst({
-              where: {
-                productId: taskItem.productId,
-                storageLocationId: targetLocationId
-              }
-            });
-
-            if (toStock) {
-              await tx.productStock.update({
-                where: { id: toStock.id },
-                data: {
-                  quantity: { increment: qty },
-                  availableQty: { increment: qty },
-                  lastMovementAt: new Date()
-                }
-              });
-            } else {
-              await tx.productStock.create({
-                data: {
-                  productId: taskItem.productId,
-                  storageLocationId: targetLocationId,
-                  quantity: qty,
-                  availableQty: qty
-                }
-              });
-            }
-
-            // Update location status
-            await tx.storageLocation.update({
-              where: { id: targetLocationId },
-              data: { status: 'OCCUPIED' }
-            });
-          }
-        }
+    try {
+      const task = await prisma.warehouseTask.findUnique({
+        where: { id },
+        include: { taskItems: { where: { isCompleted: false } } }
+      });
 
-        // Check if all items completed
-        const allItems = await tx.taskItem.findMany({
-          where: { taskId }
-        });
-        
-        const allCompleted = allItems.every(i => i.isCompleted);
-        if (allCompleted) {
-          await tx.warehouseTask.update({
-            where: { id: taskId },
-            data: {
-              status: 'COMPLETED',
-              completedAt: new Date()
-            }
-          });
+      if (!task) {
+        return res.status(404).json({ success: false, error: 'Задача не найдена' });
+      }
+      if (task.status === 'COMPLETED' || task.status === 'CANCELLED') {
+        return res.status(400).json({ success: false, error: 'Задача уже закрыта' });
+      }
+
+      const orderStatus = await prisma.$transaction(async (tx) => {
+        for (const item of task.taskItems) {
+          await completeTaskItem(tx, id, item.id, req.user!.userId);
         }
+        return finishTaskIfDone(tx, id, req.user!.userId);
       });
 
-      res.json({ success: true, message: 'Позиция выполнена' });
+      res.json({
+        success: true,
+        message: orderStatus ? `Задача выполнена, заказ переведен в статус ${orderStatus}` : 'Задача выполнена'
+      });
     } catch (error) {
-      console.error('Complete task item error:', error);
-      res.status(500).json({ success: false, error: 'Ошибка выполнения позиции' });
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+      }
+      console.error('Complete task error:', error);
+      res.status(500).json({ success: false, error: 'Ошибка выполнения задачи' });
     }
   }
 );
@@ -0,0 +1,82 @@
+// Сумма прописью для документов: «Одна тысяча двести рублей 50 копеек»
+
+const UNITS_MALE = ['', 'один', 'два', 'три', 'четыре', 'пять', 'шесть', 'семь', 'восемь', 'девять'];
+const UNITS_FEMALE = ['', 'одна', 'две', 'три', 'четыре', 'пять', 'шесть', 'семь', 'восемь', 'девять'];
+const TEENS = [
+  'десять', 'одиннадцать', 'двенадцать', 'тринадцать', 'четырнадцать',
+  'пятнадцать', 'шестнадцать', 'семнадцать', 'восемнадцать', 'девятнадцать',
+];
+const TENS = ['', '', 'двадцать', 'тридцать', 'сорок', 'пятьдесят', 'шестьдесят', 'семьдесят', 'восемьдесят', 'девяносто'];
+const HUNDREDS = ['', 'сто', 'двести', 'триста', 'четыреста', 'пятьсот', 'шестьсот', 'семьсот', 'восемьсот', 'девятьсот'];
+
+// Разряды: [одна, две-четыре, пять и больше], род числительного
+const SCALES: Array<{ forms: [string, string, string]; female: boolean }> = [
+  { forms: ['', '', ''], female: false },
+  { forms: ['тысяча', 'тысячи', 'тысяч'], female: true },
+  { forms: ['миллион', 'миллиона', 'миллионов'], female: false },
+  { forms: ['миллиард', 'миллиарда', 'миллиардов'], female: false },
+];
+
+/**
+ * Форма слова для числа: 1 рубль, 2 рубля, 5 рублей
+ */
+export function pluralize(value: number, forms: [string, string, string]) {
+  const n = Math.abs(value) % 100;
+  const last = n % 10;
+  if (n > 10 && n < 20) return forms[2];
+  if (last === 1) return forms[0];
+  if (last >= 2 && last <= 4) return forms[1];
+  return forms[2];
+}
+
+function tripletToWords(value: number, female: boolean) {
+  const words: string[] = [];
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+
+  if (hundreds) words.push(HUNDREDS[hundreds]);
+  if (rest >= 10 && rest < 20) {
+    words.push(TEENS[rest - 10]);
+  } else {
+    if (rest >= 20) words.push(TENS[Math.floor(rest / 10)]);
+    const unit = rest % 10;
+    if (unit) words.push((female ? UNITS_FEMALE : UNITS_MALE)[unit]);
+  }
+
+  return words;
+}
+
+/**
+ * Целое число прописью (мужской род): 1234 → «одна тысяча двести тридцать четыре»
+ */
+export function numberToWords(value: number) {
+  let rest = Math.floor(Math.abs(value));
+  if (rest === 0) return 'ноль';
+
+  const parts: string[] = [];
+  for (let scale = 0; rest > 0 && scale < SCALES.length; scale++) {
+    const triplet = rest % 1000;
+    rest = Math.floor(rest / 1000);
+    if (triplet === 0) continue;
+
+    const { forms, female } = SCALES[scale];
+    const words = tripletToWords(triplet, female);
+    if (scale > 0) words.push(pluralize(triplet, forms));
+    parts.unshift(words.join(' '));
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * Сумма в рублях прописью с копейками цифрами
+ */
+export function amountInWords(amount: number) {
+  const kopecksTotal = Math.round(Math.abs(amount) * 100);
+  const rubles = Math.floor(kopecksTotal / 100);
+  const kopecks = kopecksTotal % 100;
+
+  const words = numberToWords(rubles);
+  const text = `${amount < 0 ? 'минус ' : ''}${words} ${pluralize(rubles, ['рубль', 'рубля', 'рублей'])} ${String(kopecks).padStart(2, '0')} ${pluralize(kopecks, ['копейка', 'копейки', 'копеек'])}`;
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
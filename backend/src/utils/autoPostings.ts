@@ -0,0 +1,243 @@
+import { PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+import { postJournalEntry, JournalLineInput, PostingLinks } from './posting';
+import { refreshCostVat, refreshExpenseVat, refreshIncomeVat } from './vat';
+
+// Helper type for transaction client
+type TransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+export const POSTING_EVENTS = ['ORDER_REVENUE', 'OUTPUT_VAT', 'VENDOR_CHARGE', 'ORDER_EXPENSE', 'INPUT_VAT'];
+
+// Правила по умолчанию, пока администратор не переопределил счета
+export const DEFAULT_POSTING_RULES: Record<string, { debitAccountCode: string; creditAccountCode: string; name: string }> = {
+  ORDER_REVENUE: { debitAccountCode: '62', creditAccountCode: '90.1', name: 'Выставление счета клиенту' },
+  OUTPUT_VAT: { debitAccountCode: '90.3', creditAccountCode: '68', name: 'НДС с выручки' },
+  VENDOR_CHARGE: { debitAccountCode: '90.2', creditAccountCode: '60', name: 'Услуги поставщика по заказу' },
+  ORDER_EXPENSE: { debitAccountCode: '90.2', creditAccountCode: '60', name: 'Расход заказа' },
+  INPUT_VAT: { debitAccountCode: '19', creditAccountCode: '60', name: 'Входящий НДС поставщика' },
+};
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Действующие правила: сохраненные настройки поверх значений по умолчанию
+ */
+export async function getPostingRules(tx: TransactionClient) {
+  const saved = await tx.postingRule.findMany();
+
+  return POSTING_EVENTS.map(event => {
+    const rule = saved.find(r => r.event === event);
+    const defaults = DEFAULT_POSTING_RULES[event];
+    return {
+      event,
+      name: defaults.name,
+      debitAccountCode: rule?.debitAccountCode || defaults.debitAccountCode,
+      creditAccountCode: rule?.creditAccountCode || defaults.creditAccountCode,
+      isActive: rule ? rule.isActive : true,
+      isDefault: !rule,
+      updatedAt: rule?.updatedAt || null,
+    };
+  });
+}
+
+export async function getPostingRule(tx: TransactionClient, event: string) {
+  const rules = await getPostingRules(tx);
+  const rule = rules.find(r => r.event === event);
+  if (!rule) {
+    throw new AppError('Неизвестное событие проводки', 400);
+  }
+  return rule;
+}
+
+/**
+ * Сохраняет правило; счета должны существовать в плане счетов
+ */
+export async function updatePostingRule(
+  tx: TransactionClient,
+  event: string,
+  data: { debitAccountCode: string; creditAccountCode: string; isActive?: boolean },
+  userId?: string
+) {
+  if (!POSTING_EVENTS.includes(event)) {
+    throw new AppError('Неизвестное событие проводки', 400);
+  }
+  if (data.debitAccountCode === data.creditAccountCode) {
+    throw new AppError('Дебетовый и кредитовый счета должны быть разными', 400);
+  }
+
+  const accounts = await tx.account.findMany({
+    where: { code: { in: [data.debitAccountCode, data.creditAccountCode] } },
+  });
+  for (const code of [data.debitAccountCode, data.creditAccountCode]) {
+    if (!accounts.some(a => a.code === code)) {
+      throw new AppError(`Счет ${code} не найден`, 404);
+    }
+  }
+
+  const values = {
+    debitAccountCode: data.debitAccountCode,
+    creditAccountCode: data.creditAccountCode,
+    isActive: data.isActive ?? true,
+    updatedById: userId,
+  };
+  await tx.postingRule.upsert({
+    where: { event },
+    create: { event, ...values },
+    update: values,
+  });
+
+  return getPostingRule(tx, event);
+}
+
+/**
+ * Доводит проводки по документу до целевой суммы: считает, что уже проведено
+ * по событию (сальдо по каждому счету), и проводит разницу одной операцией.
+ * Так же исправляются проводки, сделанные по старым счетам правила
+ */
+async function syncPosting(
+  tx: TransactionClient,
+  event: string,
+  link: PostingLinks,
+  amount: number,
+  description: string
+) {
+  const rule = await getPostingRule(tx, event);
+  if (!rule.isActive) return null;
+
+  const posted = await tx.finTransaction.findMany({
+    where: { ...link, entry: { source: event } },
+    select: { debitAccountId: true, creditAccountId: true, amount: true },
+  });
+
+  const diff = new Map<string, number>();
+  const add = (accountId: string, value: number) => diff.set(accountId, (diff.get(accountId) || 0) + value);
+  for (const t of posted) {
+    add(t.debitAccountId, -t.amount.toNumber());
+    add(t.creditAccountId, t.amount.toNumber());
+  }
+
+  if (round2(amount) !== 0) {
+    const accounts = await tx.account.findMany({
+      where: { code: { in: [rule.debitAccountCode, rule.creditAccountCode] } },
+    });
+    const debitAccount = accounts.find(a => a.code === rule.debitAccountCode);
+    const creditAccount = accounts.find(a => a.code === rule.creditAccountCode);
+    if (!debitAccount || !creditAccount) {
+      console.warn(`Accounts ${rule.debitAccountCode} or ${rule.creditAccountCode} not found, skipping financial entry`);
+      return null;
+    }
+    add(debitAccount.id, amount);
+    add(creditAccount.id, -amount);
+  }
+
+  const lines: JournalLineInput[] = [];
+  for (const [accountId, value] of diff) {
+    const rounded = round2(value);
+    if (rounded > 0) lines.push({ accountId, debit: rounded });
+    if (rounded < 0) lines.push({ accountId, credit: -rounded });
+  }
+  if (lines.length === 0) return null;
+
+  return postJournalEntry(tx, {
+    lines,
+    description: posted.length > 0 ? `Корректировка: ${description}` : description,
+    source: event,
+    ...link,
+  });
+}
+
+/**
+ * Проводки по счету клиенту: выручка с НДС (Дт 62 Кт 90.1) и начисленный
+ * НДС (Дт 90.3 Кт 68). При remove — сторно перед удалением.
+ * Возвращает количество созданных операций
+ */
+export async function syncIncomePosting(tx: TransactionClient, incomeOperationId: string, options: { remove?: boolean } = {}) {
+  const operation = await tx.incomeOperation.findUnique({
+    where: { id: incomeOperationId },
+    include: { order: { select: { orderNumber: true } } },
+  });
+  if (!operation) return 0;
+
+  const amounts = options.remove ? null : await refreshIncomeVat(tx, incomeOperationId);
+  const description = `по заказу ${operation.order.orderNumber}${operation.description ? `: ${operation.description}` : ''}`;
+
+  const entries = [
+    await syncPosting(tx, 'ORDER_REVENUE', { incomeOperationId }, amounts ? amounts.invoiceAmount.toNumber() : 0, `Выручка ${description}`),
+    await syncPosting(tx, 'OUTPUT_VAT', { incomeOperationId }, amounts ? amounts.vatAmount.toNumber() : 0, `НДС с выручки ${description}`),
+  ];
+  return entries.filter(Boolean).length;
+}
+
+/**
+ * Проводки по услуге поставщика: сумма без НДС в расходы (Дт 90.2 Кт 60)
+ * и входящий НДС (Дт 19 Кт 60). Возвращает количество созданных операций
+ */
+export async function syncCostPosting(tx: TransactionClient, costOperationId: string, options: { remove?: boolean } = {}) {
+  const operation = await tx.costOperation.findUnique({
+    where: { id: costOperationId },
+    include: {
+      order: { select: { orderNumber: true } },
+      vendor: { select: { name: true } },
+    },
+  });
+  if (!operation) return 0;
+
+  const amounts = options.remove ? null : await refreshCostVat(tx, costOperationId);
+  const description = `${operation.vendor.name}: расходы по заказу ${operation.order.orderNumber}`;
+
+  const entries = [
+    await syncPosting(tx, 'VENDOR_CHARGE', { costOperationId }, amounts ? amounts.netAmount.toNumber() : 0, description),
+    await syncPosting(tx, 'INPUT_VAT', { costOperationId }, amounts ? amounts.vatAmount.toNumber() : 0, `НДС: ${description}`),
+  ];
+  return entries.filter(Boolean).length;
+}
+
+/**
+ * Проводки по расходу заказа (ручному или из шаблона): сумма без НДС в расходы
+ * (Дт 90.2 Кт 60) и входящий НДС (Дт 19 Кт 60). Сумма — фактическая, пока ее
+ * нет — расчетная, как в себестоимости заказа
+ */
+export async function syncExpensePosting(tx: TransactionClient, orderExpenseId: string, options: { remove?: boolean } = {}) {
+  const expense = await tx.orderExpense.findUnique({
+    where: { id: orderExpenseId },
+    include: {
+      order: { select: { orderNumber: true } },
+      vendor: { select: { name: true } },
+    },
+  });
+  if (!expense) return 0;
+
+  const amounts = options.remove ? null : await refreshExpenseVat(tx, orderExpenseId);
+  const description = `${expense.vendor ? `${expense.vendor.name}: ` : ''}${expense.description} по заказу ${expense.order.orderNumber}`;
+
+  const entries = [
+    await syncPosting(tx, 'ORDER_EXPENSE', { orderExpenseId }, amounts ? amounts.netAmount.toNumber() : 0, description),
+    await syncPosting(tx, 'INPUT_VAT', { orderExpenseId }, amounts ? amounts.vatAmount.toNumber() : 0, `НДС: ${description}`),
+  ];
+  return entries.filter(Boolean).length;
+}
+
+/**
+ * Синхронизирует все операции заказа (или сторнирует их перед удалением заказа)
+ */
+export async function syncOrderPostings(tx: TransactionClient, orderId: string, options: { remove?: boolean } = {}) {
+  const [costs, expenses, incomes] = await Promise.all([
+    tx.costOperation.findMany({ where: { orderId }, select: { id: true } }),
+    tx.orderExpense.findMany({ where: { orderId }, select: { id: true } }),
+    tx.incomeOperation.findMany({ where: { orderId }, select: { id: true } }),
+  ]);
+
+  let posted = 0;
+  for (const cost of costs) {
+    posted += await syncCostPosting(tx, cost.id, options);
+  }
+  for (const expense of expenses) {
+    posted += await syncExpensePosting(tx, expense.id, options);
+  }
+  for (const income of incomes) {
+    posted += await syncIncomePosting(tx, income.id, options);
+  }
+  return posted;
+}
@@ -0,0 +1,582 @@
+import { PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+import { getOpenInvoices, receivePayment } from './payments';
+import { createVendorPaymentEntry } from './financeHelpers';
+import { getOpenVendorBills, payVendorBill } from './vendorBills';
+
+// Helper type for transaction client
+type TransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+export const MATCH_TYPES = ['CLIENT_PAYMENT', 'VENDOR_PAYMENT'];
+
+// Уверенность, с которой строка предлагается к проведению без правки
+export const AUTO_CONFIRM_CONFIDENCE = 80;
+
+export interface ParsedStatementLine {
+  documentNumber: string | null;
+  documentDate: Date;
+  direction: 'IN' | 'OUT';
+  amount: number;
+  counterpartyName: string | null;
+  counterpartyInn: string | null;
+  counterpartyAccount: string | null;
+  purpose: string | null;
+}
+
+export interface ParsedStatement {
+  format: '1C' | 'CSV';
+  accountNumber: string | null;
+  dateFrom: Date | null;
+  dateTo: Date | null;
+  openingBalance: number | null;
+  closingBalance: number | null;
+  lines: ParsedStatementLine[];
+}
+
+export interface LineMatch {
+  status: 'UNMATCHED' | 'MATCHED';
+  matchType: string | null;
+  confidence: number;
+  matchNote: string | null;
+  clientId: string | null;
+  vendorId: string | null;
+  incomeOperationId: string | null;
+  costOperationId: string | null;
+  vendorBillId: string | null;
+  paymentId: string | null;
+}
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function parseAmount(value: string | undefined): number {
+  if (!value) return 0;
+  const normalized = value.replace(/[\s ]/g, '').replace(',', '.');
+  const amount = parseFloat(normalized);
+  return isNaN(amount) ? 0 : round2(amount);
+}
+
+// dd.mm.yyyy, yyyy-mm-dd или dd/mm/yyyy
+function parseDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  let match = trimmed.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})/);
+  if (match) {
+    return new Date(Number(match[3]), Number(match[2]) - 1, Number(match[1]));
+  }
+  match = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) {
+    return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  }
+  return null;
+}
+
+function clean(value: string | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+/**
+ * Декодирует файл выписки: UTF-8 (с BOM или без), иначе Windows-1251 —
+ * кодировка по умолчанию для выгрузок 1С и банк-клиентов
+ */
+export function decodeStatementFile(buffer: Buffer): string {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return buffer.subarray(3).toString('utf-8');
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1251').decode(buffer);
+  }
+}
+
+/**
+ * Разбирает выписку в формате обмена 1С с банк-клиентом (1CClientBankExchange)
+ */
+export function parse1CStatement(text: string): ParsedStatement {
+  const rows = text.split(/\r?\n/);
+  if (!rows[0]?.trim().startsWith('1CClientBankExchange')) {
+    throw new AppError('Файл не является выпиской 1CClientBankExchange', 400);
+  }
+
+  const header: Record<string, string> = {};
+  const documents: Record<string, string>[] = [];
+  let current: Record<string, string> | null = null;
+  let inAccountSection = false;
+
+  for (const raw of rows.slice(1)) {
+    const row = raw.trim();
+    if (!row) continue;
+
+    const eq = row.indexOf('=');
+    const key = eq >= 0 ? row.slice(0, eq) : row;
+    const value = eq >= 0 ? row.slice(eq + 1) : '';
+
+    if (key === 'СекцияДокумент') {
+      current = { ВидДокумента: value };
+      continue;
+    }
+    if (key === 'КонецДокумента') {
+      if (current) documents.push(current);
+      current = null;
+      continue;
+    }
+    if (key === 'СекцияРасчСчет') {
+      inAccountSection = true;
+      continue;
+    }
+    if (key === 'КонецРасчСчет') {
+      inAccountSection = false;
+      continue;
+    }
+    if (key === 'КонецФайла') break;
+
+    if (current) {
+      current[key] = value;
+    } else if (inAccountSection || !(key in header)) {
+      header[key] = value;
+    }
+  }
+
+  const accountNumber = clean(header['РасчСчет']);
+
+  const lines: ParsedStatementLine[] = [];
+  for (const doc of documents) {
+    const amount = parseAmount(doc['Сумма']);
+    if (!amount) continue;
+
+    // Направление — по нашему счету, иначе по дате поступления/списания
+    let direction: 'IN' | 'OUT';
+    if (accountNumber && doc['ПолучательСчет'] === accountNumber) {
+      direction = 'IN';
+    } else if (accountNumber && doc['ПлательщикСчет'] === accountNumber) {
+      direction = 'OUT';
+    } else {
+      direction = doc['ДатаПоступило'] ? 'IN' : 'OUT';
+    }
+
+    const side = direction === 'IN' ? 'Плательщик' : 'Получатель';
+    const date =
+      parseDate(direction === 'IN' ? doc['ДатаПоступило'] : doc['ДатаСписано']) ||
+      parseDate(doc['Дата']);
+    if (!date) continue;
+
+    lines.push({
+      documentNumber: clean(doc['Номер']),
+      documentDate: date,
+      direction,
+      amount,
+      counterpartyName: clean(doc[`${side}1`]) || clean(doc[side]),
+      counterpartyInn: clean(doc[`${side}ИНН`]),
+      counterpartyAccount: clean(doc[`${side}Счет`]),
+      purpose: clean(doc['НазначениеПлатежа']),
+    });
+  }
+
+  return {
+    format: '1C',
+    accountNumber,
+    dateFrom: parseDate(header['ДатаНачала']),
+    dateTo: parseDate(header['ДатаКонца']),
+    openingBalance: header['НачальныйОстаток'] !== undefined ? parseAmount(header['НачальныйОстаток']) : null,
+    closingBalance: header['КонечныйОстаток'] !== undefined ? parseAmount(header['КонечныйОстаток']) : null,
+    lines,
+  };
+}
+
+// Допустимые названия колонок CSV-выписки
+const CSV_COLUMNS: Record<string, string[]> = {
+  date: ['дата', 'дата операции', 'дата документа', 'date'],
+  number: ['номер', 'номер документа', '№ документа', 'number'],
+  amount: ['сумма', 'amount'],
+  credit: ['приход', 'поступление', 'кредит', 'credit'],
+  debit: ['расход', 'списание', 'дебет', 'debit'],
+  name: ['контрагент', 'плательщик/получатель', 'наименование контрагента', 'counterparty'],
+  inn: ['инн контрагента', 'инн', 'inn'],
+  account: ['счет контрагента', 'счёт контрагента', 'account'],
+  purpose: ['назначение платежа', 'назначение', 'purpose'],
+};
+
+function splitCsvRow(row: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < row.length; i++) {
+    const ch = row[i];
+    if (quoted) {
+      if (ch === '"' && row[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell);
+  return cells.map(c => c.trim());
+}
+
+/**
+ * Разбирает CSV-выписку. Сумма — либо одной колонкой со знаком,
+ * либо раздельными колонками прихода и расхода.
+ */
+export function parseCsvStatement(text: string): ParsedStatement {
+  const rows = text.split(/\r?\n/).filter(r => r.trim());
+  if (rows.length < 2) {
+    throw new AppError('CSV-выписка не содержит операций', 400);
+  }
+
+  const delimiter = [';', '\t', ','].reduce((best, d) =>
+    rows[0].split(d).length > rows[0].split(best).length ? d : best
+  );
+  const headers = splitCsvRow(rows[0], delimiter).map(h => h.toLowerCase());
+  const column = (key: string) => headers.findIndex(h => CSV_COLUMNS[key].includes(h));
+
+  const idx = Object.fromEntries(Object.keys(CSV_COLUMNS).map(key => [key, column(key)]));
+  if (idx.date < 0 || (idx.amount < 0 && idx.credit < 0 && idx.debit < 0)) {
+    throw new AppError('В CSV-выписке нет колонок "Дата" и "Сумма" (или "Приход"/"Расход")', 400);
+  }
+
+  const lines: ParsedStatementLine[] = [];
+  for (const row of rows.slice(1)) {
+    const cells = splitCsvRow(row, delimiter);
+    const cell = (key: string) => (idx[key] >= 0 ? cells[idx[key]] : undefined);
+
+    const date = parseDate(cell('date'));
+    if (!date) continue;
+
+    const signed = idx.amount >= 0
+      ? parseAmount(cell('amount'))
+      : parseAmount(cell('credit')) - parseAmount(cell('debit'));
+    if (!signed) continue;
+
+    lines.push({
+      documentNumber: clean(cell('number')),
+      documentDate: date,
+      direction: signed > 0 ? 'IN' : 'OUT',
+      amount: round2(Math.abs(signed)),
+      counterpartyName: clean(cell('name')),
+      counterpartyInn: clean(cell('inn')),
+      counterpartyAccount: clean(cell('account')),
+      purpose: clean(cell('purpose')),
+    });
+  }
+
+  const dates = lines.map(l => l.documentDate.getTime());
+  return {
+    format: 'CSV',
+    accountNumber: null,
+    dateFrom: dates.length ? new Date(Math.min(...dates)) : null,
+    dateTo: dates.length ? new Date(Math.max(...dates)) : null,
+    openingBalance: null,
+    closingBalance: null,
+    lines,
+  };
+}
+
+/**
+ * Определяет формат по содержимому и разбирает выписку
+ */
+export function parseStatement(buffer: Buffer): ParsedStatement {
+  const text = decodeStatementFile(buffer);
+  return text.trimStart().startsWith('1CClientBankExchange')
+    ? parse1CStatement(text.trimStart())
+    : parseCsvStatement(text);
+}
+
+/**
+ * Ключ операции для защиты от повторной загрузки
+ */
+export function lineFingerprint(line: ParsedStatementLine): string {
+  const date = `${line.documentDate.getFullYear()}-${line.documentDate.getMonth() + 1}-${line.documentDate.getDate()}`;
+  return [
+    date,
+    line.documentNumber || '',
+    line.direction,
+    line.amount.toFixed(2),
+    line.counterpartyInn || '',
+    line.counterpartyAccount || '',
+  ].join('|');
+}
+
+function mentions(purpose: string | null, documentNumber: string) {
+  return !!purpose && purpose.toLowerCase().includes(documentNumber.toLowerCase());
+}
+
+const EMPTY_MATCH: LineMatch = {
+  status: 'UNMATCHED',
+  matchType: null,
+  confidence: 0,
+  matchNote: null,
+  clientId: null,
+  vendorId: null,
+  incomeOperationId: null,
+  costOperationId: null,
+  vendorBillId: null,
+  paymentId: null,
+};
+
+/**
+ * Подбирает счет клиента по сумме и номеру заказа в назначении платежа
+ */
+async function matchIncoming(
+  tx: TransactionClient,
+  line: { amount: number; purpose: string | null; counterpartyInn: string | null; documentDate: Date }
+): Promise<LineMatch> {
+  let client = line.counterpartyInn
+    ? await tx.client.findFirst({ where: { inn: line.counterpartyInn } })
+    : null;
+
+  // Without INN: an order number in the purpose still identifies the client
+  if (!client && line.purpose) {
+    const tokens = line.purpose.split(/[\s,;:№()"«»]+/).filter(t => t.length >= 4);
+    const order = tokens.length
+      ? await tx.order.findFirst({ where: { orderNumber: { in: tokens } }, select: { clientId: true } })
+      : null;
+    if (order) {
+      client = await tx.client.findUnique({ where: { id: order.clientId } });
+    }
+  }
+
+  if (!client) {
+    return { ...EMPTY_MATCH, matchNote: line.counterpartyInn ? `Клиент с ИНН ${line.counterpartyInn} не найден` : 'Клиент не определен' };
+  }
+
+  const base = { ...EMPTY_MATCH, status: 'MATCHED' as const, matchType: 'CLIENT_PAYMENT', clientId: client.id };
+
+  // Payment already registered by hand on the same day
+  const dayStart = new Date(line.documentDate);
+  dayStart.setHours(0, 0, 0, 0);
+  const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+  const existing = await tx.payment.findFirst({
+    where: {
+      clientId: client.id,
+      status: 'ACTIVE',
+      amount: line.amount,
+      paymentDate: { gte: dayStart, lt: dayEnd },
+      bankLines: { none: {} },
+    },
+  });
+  if (existing) {
+    return { ...base, confidence: 95, paymentId: existing.id, matchNote: `Платеж уже зарегистрирован: ${existing.paymentNumber}` };
+  }
+
+  const invoices = await getOpenInvoices(tx, client.id);
+  const byPurpose = invoices.filter(op => mentions(line.purpose, op.order.orderNumber));
+  const byAmount = invoices.filter(op => Math.abs(op.openAmount - line.amount) < 0.01);
+
+  const exact = byPurpose.find(op => byAmount.includes(op));
+  if (exact) {
+    return { ...base, confidence: 100, incomeOperationId: exact.id, matchNote: `Заказ ${exact.order.orderNumber}, сумма совпадает` };
+  }
+  if (byPurpose.length === 1) {
+    return { ...base, confidence: 80, incomeOperationId: byPurpose[0].id, matchNote: `Заказ ${byPurpose[0].order.orderNumber} в назначении, сумма отличается` };
+  }
+  if (byAmount.length === 1) {
+    return { ...base, confidence: 70, incomeOperationId: byAmount[0].id, matchNote: `Сумма совпадает со счетом по заказу ${byAmount[0].order.orderNumber}` };
+  }
+
+  return {
+    ...base,
+    confidence: 50,
+    matchNote: invoices.length > 0 ? 'Будет разнесен на самые старые счета' : 'Открытых счетов нет — аванс клиента',
+  };
+}
+
+/**
+ * Неоплаченные расходы поставщика вне счетов: сумма расхода минус оплаты (Дт 60 Кт 51) по нему.
+ * Расходы, включенные в счет поставщика, оплачиваются по счету.
+ */
+export async function getOpenVendorCosts(tx: TransactionClient, vendorId: string) {
+  const operations = await tx.costOperation.findMany({
+    where: { vendorId, billLines: { none: { bill: { status: { not: 'CANCELLED' } } } } },
+    include: {
+      order: { select: { id: true, orderNumber: true } },
+      // Only payments: a correcting entry for a reduced cost also debits 60
+      transactions: {
+        where: { debitAccount: { code: '60' }, entry: { source: 'VENDOR_PAYMENT' } },
+        select: { amount: true },
+      },
+    },
+    orderBy: { operationDate: 'asc' },
+  });
+
+  return operations
+    .map(({ transactions, ...op }) => ({
+      ...op,
+      openAmount: round2(op.actualAmount.toNumber() - transactions.reduce((sum, t) => sum + t.amount.toNumber(), 0)),
+    }))
+    .filter(op => op.openAmount > 0.005);
+}
+
+/**
+ * Подбирает поставщика по ИНН, затем открытый счет поставщика по номеру/сумме
+ * или неоплаченный расход по сумме/номеру заказа
+ */
+async function matchOutgoing(
+  tx: TransactionClient,
+  line: { amount: number; purpose: string | null; counterpartyInn: string | null }
+): Promise<LineMatch> {
+  const vendor = line.counterpartyInn
+    ? await tx.vendor.findFirst({ where: { inn: line.counterpartyInn } })
+    : null;
+
+  if (!vendor) {
+    return { ...EMPTY_MATCH, matchNote: line.counterpartyInn ? `Поставщик с ИНН ${line.counterpartyInn} не найден` : 'Поставщик не определен' };
+  }
+
+  const base = { ...EMPTY_MATCH, status: 'MATCHED' as const, matchType: 'VENDOR_PAYMENT', vendorId: vendor.id };
+
+  const bills = await getOpenVendorBills(tx, vendor.id);
+  const billsByPurpose = bills.filter(b => mentions(line.purpose, b.invoiceNumber));
+  const billsByAmount = bills.filter(b => Math.abs(b.openAmount - line.amount) < 0.01);
+
+  const exactBill = billsByPurpose.find(b => billsByAmount.includes(b));
+  if (exactBill) {
+    return { ...base, confidence: 100, vendorBillId: exactBill.id, matchNote: `Счет ${exactBill.invoiceNumber}, сумма совпадает` };
+  }
+  if (billsByPurpose.length === 1 && line.amount <= billsByPurpose[0].openAmount + 0.005) {
+    return { ...base, confidence: 80, vendorBillId: billsByPurpose[0].id, matchNote: `Частичная оплата счета ${billsByPurpose[0].invoiceNumber}` };
+  }
+  if (billsByAmount.length === 1) {
+    return { ...base, confidence: 70, vendorBillId: billsByAmount[0].id, matchNote: `Сумма совпадает с остатком счета ${billsByAmount[0].invoiceNumber}` };
+  }
+
+  const costs = await getOpenVendorCosts(tx, vendor.id);
+  const byPurpose = costs.filter(op => mentions(line.purpose, op.order.orderNumber));
+  const byAmount = costs.filter(op => Math.abs(op.openAmount - line.amount) < 0.01);
+
+  const exact = byPurpose.find(op => byAmount.includes(op));
+  if (exact) {
+    return { ...base, confidence: 100, costOperationId: exact.id, matchNote: `Заказ ${exact.order.orderNumber}, сумма совпадает` };
+  }
+  if (byAmount.length === 1) {
+    return { ...base, confidence: 70, costOperationId: byAmount[0].id, matchNote: `Сумма совпадает с расходом по заказу ${byAmount[0].order.orderNumber}` };
+  }
+
+  return { ...base, confidence: 50, matchNote: 'Оплата поставщику без привязки к расходу' };
+}
+
+/**
+ * Предлагает сопоставление строки выписки
+ */
+export async function matchStatementLine(
+  tx: TransactionClient,
+  line: { direction: string; amount: number; purpose: string | null; counterpartyInn: string | null; documentDate: Date }
+): Promise<LineMatch> {
+  return line.direction === 'IN' ? matchIncoming(tx, line) : matchOutgoing(tx, line);
+}
+
+/**
+ * Проводит подтвержденную строку: платеж клиента (Дт 51 Кт 62) с разнесением
+ * или оплату поставщику (Дт 60 Кт 51) — по счету поставщика, если он указан.
+ * Уже зарегистрированный платеж только связывается.
+ */
+export async function postStatementLine(tx: TransactionClient, lineId: string, userId?: string) {
+  const line = await tx.bankStatementLine.findUnique({ where: { id: lineId } });
+  if (!line) {
+    throw new AppError('Строка выписки не найдена', 404);
+  }
+  if (line.status !== 'MATCHED') {
+    throw new AppError('Строка выписки не сопоставлена или уже проведена', 400);
+  }
+
+  const amount = line.amount.toNumber();
+  const reference = line.documentNumber || undefined;
+  let paymentId = line.paymentId;
+  let transactionId: string | null = null;
+
+  if (line.matchType === 'CLIENT_PAYMENT') {
+    if (line.direction !== 'IN' || !line.clientId) {
+      throw new AppError('Оплата клиента должна быть поступлением с указанным клиентом', 400);
+    }
+
+    if (!paymentId) {
+      let allocations;
+      if (line.incomeOperationId) {
+        const invoice = (await getOpenInvoices(tx, line.clientId)).find(op => op.id === line.incomeOperationId);
+        if (invoice) {
+          allocations = [{ incomeOperationId: invoice.id, amount: Math.min(invoice.openAmount, amount) }];
+        }
+      }
+
+      const payment = await receivePayment(
+        tx,
+        {
+          clientId: line.clientId,
+          amount,
+          paymentDate: line.documentDate,
+          paymentMethod: 'BANK_TRANSFER',
+          reference,
+          description: line.purpose || undefined,
+          allocations,
+          autoAllocate: !allocations,
+        },
+        userId
+      );
+      paymentId = payment.id;
+    }
+  } else if (line.matchType === 'VENDOR_PAYMENT') {
+    if (line.direction !== 'OUT' || !line.vendorId) {
+      throw new AppError('Оплата поставщику должна быть списанием с указанным поставщиком', 400);
+    }
+
+    if (line.vendorBillId) {
+      const billPayment = await payVendorBill(
+        tx,
+        line.vendorBillId,
+        { amount, paymentDate: line.documentDate, reference },
+        userId
+      );
+      transactionId = billPayment.transactionId;
+    } else {
+      const transaction = await createVendorPaymentEntry(
+        tx,
+        amount,
+        `Оплата поставщику${reference ? ` (п/п ${reference})` : ''}${line.purpose ? `: ${line.purpose}` : ''}`,
+        line.costOperationId || undefined,
+        line.documentDate
+      );
+      transactionId = transaction?.id || null;
+    }
+  } else {
+    throw new AppError('Не указан тип сопоставления', 400);
+  }
+
+  return tx.bankStatementLine.update({
+    where: { id: lineId },
+    data: {
+      status: 'POSTED',
+      paymentId,
+      transactionId,
+      postedById: userId,
+      postedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Выписка сверена, когда не осталось непроведенных строк
+ */
+export async function refreshStatementStatus(tx: TransactionClient, statementId: string) {
+  const pending = await tx.bankStatementLine.count({
+    where: { statementId, status: { in: ['UNMATCHED', 'MATCHED'] } },
+  });
+
+  return tx.bankStatement.update({
+    where: { id: statementId },
+    data: { status: pending === 0 ? 'RECONCILED' : 'IMPORTED' },
+  });
+}
@@ -0,0 +1,527 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import * as XLSX from 'xlsx';
+import { AppError } from '../middleware/errorHandler';
+import { amountInWords } from './amountInWords';
+import { createPdfDocument, drawTable, renderPdf, PdfColumn } from './pdf';
+import { getClientVatRate, vatFromGross } from './vat';
+
+// Helper type for transaction client
+type TransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+export const CLIENT_DOCUMENT_TYPES = ['INVOICE', 'ACT', 'UPD'];
+
+export const CLIENT_DOCUMENT_LABELS: Record<string, string> = {
+  INVOICE: 'Счет на оплату',
+  ACT: 'Акт выполненных работ',
+  UPD: 'Универсальный передаточный документ',
+};
+
+const FILE_PREFIXES: Record<string, string> = {
+  INVOICE: 'invoice',
+  ACT: 'act',
+  UPD: 'upd',
+};
+
+const UNIT_LABELS: Record<string, string> = {
+  PIECE: 'шт',
+  KG: 'кг',
+  CUBIC_METER: 'м³',
+  ORDER: 'заказ',
+  PALLET: 'паллет',
+  BOX: 'кор',
+  DAY: 'дн',
+  MONTH: 'мес',
+  HOUR: 'ч',
+};
+
+// Реквизиты стороны на момент формирования документа
+export interface DocumentParty {
+  name: string;
+  inn?: string | null;
+  kpp?: string | null;
+  ogrn?: string | null;
+  address?: string | null;
+  bankName?: string | null;
+  bik?: string | null;
+  bankAccount?: string | null;
+  correspondentAccount?: string | null;
+  directorName?: string | null;
+  accountantName?: string | null;
+}
+
+export interface CreateClientDocumentInput {
+  orderId: string;
+  type: string;
+  incomeOperationIds?: string[];
+  orderExpenseIds?: string[];
+  documentDate?: Date;
+  basis?: string;
+}
+
+const documentInclude = {
+  lines: { orderBy: { position: 'asc' } },
+  order: { select: { id: true, orderNumber: true } },
+  client: { select: { id: true, name: true, companyName: true } },
+} satisfies Prisma.ClientDocumentInclude;
+
+export type ClientDocumentWithLines = Prisma.ClientDocumentGetPayload<{ include: typeof documentInclude }>;
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function formatMoney(value: number) {
+  return value.toLocaleString('ru-RU', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatDate(date: Date) {
+  return date.toLocaleDateString('ru-RU');
+}
+
+/**
+ * Реквизиты компании (пустые, если еще не заполнены)
+ */
+export async function getCompanySettings(tx: TransactionClient) {
+  const settings = await tx.companySettings.findUnique({ where: { id: 'default' } });
+  return settings || {
+    id: 'default',
+    name: '',
+    inn: null,
+    kpp: null,
+    ogrn: null,
+    address: null,
+    bankName: null,
+    bik: null,
+    bankAccount: null,
+    correspondentAccount: null,
+    directorName: null,
+    accountantName: null,
+    vatRate: new Prisma.Decimal(20),
+    updatedAt: null,
+  };
+}
+
+export async function updateCompanySettings(
+  tx: TransactionClient,
+  data: Omit<DocumentParty, 'name'> & { name: string; vatRate?: number }
+) {
+  return tx.companySettings.upsert({
+    where: { id: 'default' },
+    create: { id: 'default', ...data },
+    update: data,
+  });
+}
+
+/**
+ * Следующий номер документа: сквозная нумерация по типу в пределах года
+ */
+export async function nextDocumentNumber(tx: TransactionClient, type: string, year: number) {
+  const last = await tx.clientDocument.findFirst({
+    where: { type, year },
+    orderBy: { number: 'desc' },
+  });
+  return (last?.number || 0) + 1;
+}
+
+function parseParty(json: string): DocumentParty {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return { name: '' };
+  }
+}
+
+/**
+ * Операции заказа, которые можно включить в документ, с отметкой
+ * об уже выставленных документах того же типа
+ */
+export async function getDocumentCandidates(tx: TransactionClient, orderId: string, type: string) {
+  const [incomes, expenses] = await Promise.all([
+    tx.incomeOperation.findMany({
+      where: { orderId },
+      include: {
+        documentLines: {
+          where: { document: { type, status: 'ISSUED' } },
+          select: { document: { select: { number: true, year: true } } },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    tx.orderExpense.findMany({
+      where: { orderId },
+      include: {
+        documentLines: {
+          where: { document: { type, status: 'ISSUED' } },
+          select: { document: { select: { number: true, year: true } } },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+
+  return {
+    incomeOperations: incomes.map(op => ({
+      id: op.id,
+      description: op.description,
+      amount: op.invoiceAmount.toNumber(),
+      vatAmount: op.vatAmount.toNumber(),
+      documented: op.documentLines.map(l => l.document.number),
+    })),
+    orderExpenses: expenses.map(expense => ({
+      id: expense.id,
+      description: expense.description,
+      quantity: expense.quantity.toNumber(),
+      unit: expense.unit,
+      amount: expense.actualAmount.toNumber() > 0 ? expense.actualAmount.toNumber() : expense.totalAmount.toNumber(),
+      documented: expense.documentLines.map(l => l.document.number),
+    })),
+  };
+}
+
+/**
+ * Формирует документ по заказу. Без явного выбора включаются все счета
+ * клиенту (IncomeOperation), еще не вошедшие в документ этого типа
+ */
+export async function createClientDocument(tx: TransactionClient, input: CreateClientDocumentInput, userId?: string) {
+  if (!CLIENT_DOCUMENT_TYPES.includes(input.type)) {
+    throw new AppError('Неверный тип документа', 400);
+  }
+
+  const order = await tx.order.findUnique({
+    where: { id: input.orderId },
+    include: { client: true },
+  });
+  if (!order) {
+    throw new AppError('Заказ не найден', 404);
+  }
+
+  const company = await getCompanySettings(tx);
+  if (!company.name || !company.inn) {
+    throw new AppError('Заполните реквизиты компании (название и ИНН) в настройках', 400);
+  }
+
+  const candidates = await getDocumentCandidates(tx, order.id, input.type);
+
+  const incomes = input.incomeOperationIds
+    ? input.incomeOperationIds.map(id => {
+      const op = candidates.incomeOperations.find(c => c.id === id);
+      if (!op) throw new AppError('Операция не относится к заказу', 400);
+      return op;
+    })
+    : candidates.incomeOperations.filter(op => op.amount > 0 && op.documented.length === 0);
+
+  const expenses = (input.orderExpenseIds || []).map(id => {
+    const expense = candidates.orderExpenses.find(c => c.id === id);
+    if (!expense) throw new AppError('Расход не относится к заказу', 400);
+    return expense;
+  });
+
+  for (const item of [...incomes, ...expenses]) {
+    if (item.amount <= 0) {
+      throw new AppError(`Позиция «${item.description || 'без описания'}» имеет нулевую или отрицательную сумму`, 400);
+    }
+    if (item.documented.length > 0) {
+      throw new AppError(
+        `Позиция «${item.description || 'без описания'}» уже включена в документ № ${item.documented[0]}`,
+        400
+      );
+    }
+  }
+
+  if (incomes.length + expenses.length === 0) {
+    throw new AppError('Нет позиций для документа', 400);
+  }
+
+  // Счета клиенту несут НДС по своей ставке, перевыставленные расходы — по ставке договора
+  const vatRate = await getClientVatRate(tx, order.clientId);
+  const lines = [
+    ...incomes.map(op => ({
+      incomeOperationId: op.id,
+      description: op.description || `Услуги по заказу ${order.orderNumber}`,
+      unit: 'усл.',
+      quantity: 1,
+      unitPrice: op.amount,
+      amount: op.amount,
+      vatAmount: op.vatAmount,
+    })),
+    ...expenses.map(expense => ({
+      orderExpenseId: expense.id,
+      description: expense.description,
+      unit: UNIT_LABELS[expense.unit] || expense.unit,
+      quantity: expense.quantity || 1,
+      unitPrice: round2(expense.amount / (expense.quantity || 1)),
+      amount: expense.amount,
+      vatAmount: vatFromGross(expense.amount, vatRate),
+    })),
+  ].map((line, i) => ({ ...line, position: i + 1 }));
+
+  const totalAmount = round2(lines.reduce((sum, l) => sum + l.amount, 0));
+  const vatAmount = round2(lines.reduce((sum, l) => sum + l.vatAmount, 0));
+
+  const documentDate = input.documentDate || new Date();
+  const year = documentDate.getFullYear();
+
+  const seller: DocumentParty = {
+    name: company.name,
+    inn: company.inn,
+    kpp: company.kpp,
+    ogrn: company.ogrn,
+    address: company.address,
+    bankName: company.bankName,
+    bik: company.bik,
+    bankAccount: company.bankAccount,
+    correspondentAccount: company.correspondentAccount,
+    directorName: company.directorName,
+    accountantName: company.accountantName,
+  };
+  const buyer: DocumentParty = {
+    name: order.client.companyName || order.client.name,
+    inn: order.client.inn,
+    address: order.client.address,
+  };
+
+  const document = await tx.clientDocument.create({
+    data: {
+      type: input.type,
+      year,
+      number: await nextDocumentNumber(tx, input.type, year),
+      documentDate,
+      orderId: order.id,
+      clientId: order.clientId,
+      vatRate,
+      amountWithoutVat: round2(totalAmount - vatAmount),
+      vatAmount,
+      totalAmount,
+      seller: JSON.stringify(seller),
+      buyer: JSON.stringify(buyer),
+      basis: input.basis,
+      createdById: userId,
+      lines: { create: lines },
+    },
+  });
+
+  return tx.clientDocument.findUniqueOrThrow({ where: { id: document.id }, include: documentInclude });
+}
+
+/**
+ * Аннулирование: номер не переиспользуется, позиции можно выставить заново
+ */
+export async function cancelClientDocument(tx: TransactionClient, id: string) {
+  const document = await tx.clientDocument.findUnique({ where: { id } });
+  if (!document) {
+    throw new AppError('Документ не найден', 404);
+  }
+  if (document.status === 'CANCELLED') {
+    throw new AppError('Документ уже аннулирован', 400);
+  }
+
+  return tx.clientDocument.update({
+    where: { id },
+    data: { status: 'CANCELLED', cancelledAt: new Date() },
+    include: documentInclude,
+  });
+}
+
+export async function getClientDocument(tx: TransactionClient, id: string) {
+  const document = await tx.clientDocument.findUnique({ where: { id }, include: documentInclude });
+  if (!document) {
+    throw new AppError('Документ не найден', 404);
+  }
+  return document;
+}
+
+export function documentFileName(document: { type: string; number: number; year: number }) {
+  return `${FILE_PREFIXES[document.type] || 'document'}-${document.number}-${document.year}`;
+}
+
+function documentTitle(document: ClientDocumentWithLines) {
+  const date = formatDate(document.documentDate);
+  if (document.type === 'INVOICE') return `Счет на оплату № ${document.number} от ${date}`;
+  if (document.type === 'ACT') return `Акт № ${document.number} от ${date}`;
+  return `Счет-фактура № ${document.number} от ${date}`;
+}
+
+function partyLine(party: DocumentParty) {
+  return [
+    party.name,
+    party.inn ? `ИНН ${party.inn}` : null,
+    party.kpp ? `КПП ${party.kpp}` : null,
+    party.address,
+  ].filter(Boolean).join(', ');
+}
+
+function vatLabel(document: ClientDocumentWithLines) {
+  const rate = document.vatRate.toNumber();
+  return rate > 0 ? `В том числе НДС (${rate}%)` : 'Без НДС';
+}
+
+// Строки таблицы и колонки: для УПД — стоимость без НДС и налог отдельно
+function documentTable(document: ClientDocumentWithLines) {
+  const rate = document.vatRate.toNumber();
+
+  if (document.type === 'UPD') {
+    const columns: PdfColumn[] = [
+      { header: '№', width: 22, align: 'right' },
+      { header: 'Наименование', width: 143 },
+      { header: 'Ед.', width: 35 },
+      { header: 'Кол-во', width: 40, align: 'right' },
+      { header: 'Цена без НДС', width: 60, align: 'right' },
+      { header: 'Сумма без НДС', width: 65, align: 'right' },
+      { header: 'Ставка', width: 35, align: 'right' },
+      { header: 'НДС', width: 55, align: 'right' },
+      { header: 'Сумма с НДС', width: 60, align: 'right' },
+    ];
+    const rows = document.lines.map(line => {
+      const quantity = line.quantity.toNumber();
+      const net = round2(line.amount.toNumber() - line.vatAmount.toNumber());
+      return [
+        line.position,
+        line.description,
+        line.unit,
+        quantity,
+        formatMoney(quantity ? round2(net / quantity) : net),
+        formatMoney(net),
+        rate > 0 ? `${rate}%` : 'без НДС',
+        formatMoney(line.vatAmount.toNumber()),
+        formatMoney(line.amount.toNumber()),
+      ];
+    });
+    return { columns, rows };
+  }
+
+  const columns: PdfColumn[] = [
+    { header: '№', width: 25, align: 'right' },
+    { header: 'Наименование работ, услуг', width: 250 },
+    { header: 'Кол-во', width: 50, align: 'right' },
+    { header: 'Ед.', width: 40 },
+    { header: 'Цена', width: 70, align: 'right' },
+    { header: 'Сумма', width: 80, align: 'right' },
+  ];
+  const rows = document.lines.map(line => [
+    line.position,
+    line.description,
+    line.quantity.toNumber(),
+    line.unit,
+    formatMoney(line.unitPrice.toNumber()),
+    formatMoney(line.amount.toNumber()),
+  ]);
+  return { columns, rows };
+}
+
+/**
+ * PDF документа по сохраненным реквизитам и строкам
+ */
+export async function renderClientDocumentPdf(document: ClientDocumentWithLines): Promise<Buffer> {
+  const seller = parseParty(document.seller);
+  const buyer = parseParty(document.buyer);
+  const total = document.totalAmount.toNumber();
+  const doc = createPdfDocument();
+
+  if (document.type === 'INVOICE') {
+    // Bank details of the payee
+    doc.fontSize(9);
+    doc.text(`Банк получателя: ${seller.bankName || '—'}`);
+    doc.text(`БИК ${seller.bik || '—'}    Корр. счет ${seller.correspondentAccount || '—'}`);
+    doc.text(`ИНН ${seller.inn || '—'}    КПП ${seller.kpp || '—'}    Расчетный счет ${seller.bankAccount || '—'}`);
+    doc.text(`Получатель: ${seller.name}`);
+    doc.moveDown(0.8);
+  }
+
+  doc.font('bold').fontSize(13).text(documentTitle(document));
+  if (document.type === 'UPD') {
+    doc.font('regular').fontSize(9)
+      .text(`Универсальный передаточный документ. Статус: ${document.vatRate.toNumber() > 0 ? '1' : '2'}`);
+  }
+  doc.moveDown(0.5);
+
+  const sellerLabel = document.type === 'INVOICE' ? 'Поставщик' : document.type === 'ACT' ? 'Исполнитель' : 'Продавец';
+  const buyerLabel = document.type === 'ACT' ? 'Заказчик' : 'Покупатель';
+  doc.font('regular').fontSize(10);
+  doc.text(`${sellerLabel}: ${partyLine(seller)}`);
+  doc.text(`${buyerLabel}: ${partyLine(buyer)}`);
+  doc.text(`Основание: ${document.basis || `Заказ ${document.order.orderNumber}`}`);
+  doc.moveDown(0.5);
+
+  const { columns, rows } = documentTable(document);
+  drawTable(doc, columns, rows);
+
+  doc.moveDown(0.5);
+  doc.font('bold').text(`Итого: ${formatMoney(total)} ₽`, { align: 'right' });
+  doc.font('regular').text(
+    document.vatRate.toNumber() > 0
+      ? `${vatLabel(document)}: ${formatMoney(document.vatAmount.toNumber())} ₽`
+      : vatLabel(document),
+    { align: 'right' }
+  );
+  doc.moveDown(0.5);
+  doc.text(`Всего наименований ${document.lines.length}, на сумму ${formatMoney(total)} ₽`);
+  doc.font('bold').text(amountInWords(total));
+  doc.font('regular');
+
+  if (document.type === 'ACT') {
+    doc.moveDown(0.5);
+    doc.fontSize(9).text(
+      'Вышеперечисленные услуги выполнены полностью и в срок. Заказчик претензий по объему, качеству и срокам оказания услуг не имеет.'
+    );
+  }
+
+  // Signatures
+  doc.moveDown(2);
+  doc.fontSize(10);
+  if (document.type === 'ACT') {
+    doc.text(`Исполнитель: ____________ ${seller.directorName || ''}        Заказчик: ____________`);
+  } else {
+    doc.text(`Руководитель: ____________ ${seller.directorName || ''}`);
+    doc.moveDown(0.8);
+    doc.text(`Главный бухгалтер: ____________ ${seller.accountantName || ''}`);
+    if (document.type === 'UPD') {
+      doc.moveDown(0.8);
+      doc.text('Товар (услуги) получил: ____________');
+    }
+  }
+
+  return renderPdf(doc);
+}
+
+/**
+ * XLSX документа: шапка, таблица позиций, итоги и сумма прописью
+ */
+export function renderClientDocumentXlsx(document: ClientDocumentWithLines): Buffer {
+  const seller = parseParty(document.seller);
+  const buyer = parseParty(document.buyer);
+  const total = document.totalAmount.toNumber();
+  const { columns, rows } = documentTable(document);
+
+  const header: Array<Array<string | number>> = [];
+  if (document.type === 'INVOICE') {
+    header.push(
+      ['Банк получателя', seller.bankName || ''],
+      ['БИК', seller.bik || '', 'Корр. счет', seller.correspondentAccount || ''],
+      ['ИНН', seller.inn || '', 'КПП', seller.kpp || ''],
+      ['Расчетный счет', seller.bankAccount || ''],
+      ['Получатель', seller.name],
+      []
+    );
+  }
+
+  const ws = XLSX.utils.aoa_to_sheet([
+    ...header,
+    [documentTitle(document)],
+    ...(document.type === 'UPD' ? [['Универсальный передаточный документ']] : []),
+    [],
+    [document.type === 'ACT' ? 'Исполнитель' : 'Поставщик', partyLine(seller)],
+    [document.type === 'ACT' ? 'Заказчик' : 'Покупатель', partyLine(buyer)],
+    ['Основание', document.basis || `Заказ ${document.order.orderNumber}`],
+    [],
+    columns.map(c => c.header),
+    ...rows,
+    [],
+    ['Итого', total],
+    [vatLabel(document), document.vatRate.toNumber() > 0 ? document.vatAmount.toNumber() : ''],
+    ['Сумма прописью', amountInWords(total)],
+  ]);
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, CLIENT_DOCUMENT_LABELS[document.type].slice(0, 31));
+  return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' });
+}
@@ -0,0 +1,257 @@
+import { PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+
+// Helper type for transaction client
+type TransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+export const BASE_CURRENCY = 'RUB';
+
+// Валюты, в которых выставляют счета поставщики
+export const CURRENCIES = ['RUB', 'USD', 'EUR', 'CNY'];
+
+export const EXCHANGE_RATE_SOURCES = ['MANUAL', 'CBR'];
+
+// Коды валют ЦБ для динамики курсов (в XML_dynamic нет буквенного кода)
+const CBR_VALUTE_IDS: Record<string, string> = {
+  R01235: 'USD',
+  R01239: 'EUR',
+  R01375: 'CNY',
+};
+
+export interface ParsedExchangeRate {
+  currency: string;
+  rateDate: Date;
+  rate: number; // за 1 единицу
+  nominal: number;
+}
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function round4(value: number) {
+  return Math.round(value * 10000) / 10000;
+}
+
+export function startOfDay(date: Date) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function parseRuDate(value: string) {
+  const match = value.match(/^(\d{2})\.(\d{2})\.(\d{4})$/);
+  if (!match) return null;
+  return new Date(Number(match[3]), Number(match[2]) - 1, Number(match[1]));
+}
+
+function parseRuNumber(value: string) {
+  return parseFloat(value.replace(/\s/g, '').replace(',', '.'));
+}
+
+/**
+ * Курс валюты (рублей за 1 единицу), действующий на дату: последний курс не позже даты
+ */
+export async function getExchangeRate(tx: TransactionClient, currency: string, date: Date = new Date()) {
+  if (!currency || currency === BASE_CURRENCY) return 1;
+
+  const rate = await tx.exchangeRate.findFirst({
+    where: { currency, rateDate: { lte: date } },
+    orderBy: { rateDate: 'desc' },
+  });
+  if (!rate) {
+    throw new AppError(`Нет курса ${currency} на ${date.toLocaleDateString('ru-RU')}. Загрузите курсы ЦБ или введите курс вручную`, 400);
+  }
+  return rate.rate.toNumber();
+}
+
+/**
+ * Пересчет суммы в валюте в рубли по курсу на дату
+ */
+export async function convertToRub(tx: TransactionClient, amount: number, currency: string, date: Date = new Date()) {
+  const rate = await getExchangeRate(tx, currency, date);
+  return { amount: round2(amount * rate), rate };
+}
+
+/**
+ * Цена за единицу в рублях: точность 4 знака, как у цен услуг
+ */
+export function convertPrice(price: number, rate: number) {
+  return round4(price * rate);
+}
+
+/**
+ * Цена расхода в рублях по текущему курсу; для валютной цены сохраняются
+ * валюта, цена в валюте и курс
+ */
+export async function toRubPrice(tx: TransactionClient, price: number, currency: string) {
+  const exchangeRate = await getExchangeRate(tx, currency);
+  return {
+    unitPrice: convertPrice(price, exchangeRate),
+    currency,
+    currencyPrice: currency !== BASE_CURRENCY ? price : null,
+    exchangeRate,
+  };
+}
+
+/**
+ * Ввод курса вручную (перезаписывает курс на ту же дату)
+ */
+export async function upsertExchangeRate(
+  tx: TransactionClient,
+  input: { currency: string; rateDate: Date; rate: number; nominal?: number; source?: string },
+  userId?: string
+) {
+  const currency = input.currency.toUpperCase();
+  if (currency === BASE_CURRENCY) {
+    throw new AppError('Курс рубля не задается', 400);
+  }
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    throw new AppError('Код валюты — три латинские буквы (USD, CNY)', 400);
+  }
+  if (!(input.rate > 0)) {
+    throw new AppError('Курс должен быть больше 0', 400);
+  }
+
+  const rateDate = startOfDay(input.rateDate);
+  const data = {
+    rate: input.rate,
+    nominal: input.nominal || 1,
+    source: input.source || 'MANUAL',
+    createdById: userId,
+  };
+
+  return tx.exchangeRate.upsert({
+    where: { currency_rateDate: { currency, rateDate } },
+    create: { currency, rateDate, ...data },
+    update: data,
+  });
+}
+
+/**
+ * Файл ЦБ в кодировке из XML-декларации (обычно windows-1251)
+ */
+function decodeXml(buffer: Buffer) {
+  const head = buffer.subarray(0, 100).toString('latin1');
+  const encoding = head.match(/encoding="([^"]+)"/i)?.[1]?.toLowerCase() || 'utf-8';
+  return new TextDecoder(encoding === 'windows-1251' ? 'windows-1251' : 'utf-8').decode(buffer);
+}
+
+function tagValue(xml: string, tag: string) {
+  return xml.match(new RegExp(`<${tag}>([^<]*)</${tag}>`))?.[1]?.trim() || '';
+}
+
+/**
+ * Разбор XML ЦБ РФ: ежедневные курсы (XML_daily: ValCurs/Valute) или
+ * динамика по одной валюте (XML_dynamic: ValCurs/Record)
+ */
+export function parseCbrXml(buffer: Buffer): ParsedExchangeRate[] {
+  const xml = decodeXml(buffer);
+  const root = xml.match(/<ValCurs\b([^>]*)>/);
+  if (!root) {
+    throw new AppError('Файл не похож на XML курсов ЦБ (нет элемента ValCurs)', 400);
+  }
+
+  const rates: ParsedExchangeRate[] = [];
+  const push = (currency: string, date: Date | null, nominalText: string, valueText: string) => {
+    const nominal = parseInt(nominalText) || 1;
+    const value = parseRuNumber(valueText);
+    if (!currency || !date || !(value > 0)) return;
+    rates.push({ currency, rateDate: date, rate: round4(value / nominal), nominal });
+  };
+
+  const rootDate = parseRuDate(root[1].match(/Date="([^"]+)"/)?.[1] || '');
+  for (const [, body] of xml.matchAll(/<Valute\b[^>]*>([\s\S]*?)<\/Valute>/g)) {
+    push(tagValue(body, 'CharCode'), rootDate, tagValue(body, 'Nominal'), tagValue(body, 'Value'));
+  }
+
+  const dynamicCurrency = CBR_VALUTE_IDS[root[1].match(/ID="([^"]+)"/)?.[1] || ''];
+  for (const [, attrs, body] of xml.matchAll(/<Record\b([^>]*)>([\s\S]*?)<\/Record>/g)) {
+    const currency = dynamicCurrency || CBR_VALUTE_IDS[attrs.match(/Id="([^"]+)"/)?.[1] || ''];
+    push(currency, parseRuDate(attrs.match(/Date="([^"]+)"/)?.[1] || ''), tagValue(body, 'Nominal'), tagValue(body, 'Value'));
+  }
+
+  if (rates.length === 0) {
+    throw new AppError('В файле нет курсов валют', 400);
+  }
+  return rates;
+}
+
+/**
+ * Загрузка курсов ЦБ: курс на ту же дату перезаписывается
+ */
+export async function importCbrRates(
+  tx: TransactionClient,
+  buffer: Buffer,
+  options: { currencies?: string[] } = {},
+  userId?: string
+) {
+  const parsed = parseCbrXml(buffer).filter(r => !options.currencies || options.currencies.includes(r.currency));
+
+  let created = 0;
+  let updated = 0;
+  for (const rate of parsed) {
+    const existing = await tx.exchangeRate.findUnique({
+      where: { currency_rateDate: { currency: rate.currency, rateDate: rate.rateDate } },
+    });
+    await upsertExchangeRate(tx, { ...rate, source: 'CBR' }, userId);
+    if (existing) updated++;
+    else created++;
+  }
+
+  return {
+    created,
+    updated,
+    currencies: [...new Set(parsed.map(r => r.currency))],
+    dates: [...new Set(parsed.map(r => r.rateDate.getTime()))].map(t => new Date(t)),
+  };
+}
+
+/**
+ * Курсовые разницы по оплатам валютных счетов поставщиков за период.
+ * Разница > 0 — оплачено в рублях больше, чем учтено по курсу счета (убыток)
+ */
+export async function getFxDifferences(tx: TransactionClient, params: { dateFrom?: Date; dateTo?: Date }) {
+  const payments = await tx.vendorBillPayment.findMany({
+    where: {
+      currencyAmount: { not: null },
+      paymentDate: {
+        ...(params.dateFrom ? { gte: params.dateFrom } : {}),
+        ...(params.dateTo ? { lte: params.dateTo } : {}),
+      },
+    },
+    include: {
+      bill: {
+        select: {
+          billNumber: true,
+          invoiceNumber: true,
+          currency: true,
+          exchangeRate: true,
+          vendor: { select: { id: true, name: true } },
+        },
+      },
+    },
+    orderBy: { paymentDate: 'asc' },
+  });
+
+  const rows = payments.map(p => ({
+    paymentId: p.id,
+    paymentDate: p.paymentDate,
+    billNumber: p.bill.billNumber,
+    invoiceNumber: p.bill.invoiceNumber,
+    vendor: p.bill.vendor,
+    currency: p.bill.currency,
+    currencyAmount: p.currencyAmount?.toNumber() || 0,
+    billRate: p.bill.exchangeRate.toNumber(),
+    paymentRate: p.exchangeRate?.toNumber() || 0,
+    bookedAmount: p.amount.toNumber(),
+    paidAmount: p.paidAmount?.toNumber() || 0,
+    fxDifference: p.fxDifference.toNumber(),
+  }));
+
+  const loss = round2(rows.filter(r => r.fxDifference > 0).reduce((sum, r) => sum + r.fxDifference, 0));
+  const gain = round2(-rows.filter(r => r.fxDifference < 0).reduce((sum, r) => sum + r.fxDifference, 0));
+
+  return {
+    rows,
+    totals: { gain, loss, net: round2(gain - loss) },
+  };
+}
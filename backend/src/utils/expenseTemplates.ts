@@ -0,0 +1,262 @@
+import { PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+import { BASE_CURRENCY, toRubPrice } from './currency';
+import { buildFormulaVariables, formulaQuantity } from './quantityFormula';
+import { syncExpensePosting } from './autoPostings';
+import { splitVat } from './vat';
+
+// Helper type for transaction client
+type TransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+export interface TemplateMatchOrder {
+  items: Array<{ category?: string | null; quantity: number; weight: number }>;
+  shippingAddress?: string | null;
+  destination?: string | null;
+  deliveryMethod?: string | null;
+}
+
+export interface TemplateMatch {
+  templateId: string;
+  templateName: string;
+  eligible: boolean; // все заданные условия выполнены
+  score: number; // число выполненных условий
+  categoryShare: number; // доля единиц товара нужной категории (для выбора среди равных)
+  reasons: string[];
+  mismatches: string[];
+}
+
+interface TemplateConditions {
+  id: string;
+  name: string;
+  productCategory: string | null;
+  minWeight: { toNumber(): number } | null;
+  maxWeight: { toNumber(): number } | null;
+  deliveryMethod: string | null;
+  region: string | null;
+}
+
+const sameText = (a?: string | null, b?: string | null) =>
+  (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+const containsText = (text: string | null | undefined, part: string) =>
+  (text || '').toLowerCase().includes(part.trim().toLowerCase());
+
+// В условии можно перечислить варианты через запятую: "Москва, МО"
+const alternatives = (value: string) => value.split(/[,;]/).map(v => v.trim()).filter(Boolean);
+
+/**
+ * Проверка условий шаблона для заказа: каждое заданное условие должно выполняться.
+ * Причины выбора и несовпадения формулируются для показа менеджеру
+ */
+export function scoreTemplate(template: TemplateConditions, order: TemplateMatchOrder): TemplateMatch {
+  const reasons: string[] = [];
+  const mismatches: string[] = [];
+  let categoryShare = 0;
+
+  if (template.productCategory) {
+    const categories = alternatives(template.productCategory);
+    const totalUnits = order.items.reduce((sum, i) => sum + i.quantity, 0);
+    const matched = order.items.filter(i => categories.some(c => sameText(c, i.category)));
+    if (matched.length > 0) {
+      const units = matched.reduce((sum, i) => sum + i.quantity, 0);
+      categoryShare = totalUnits > 0 ? units / totalUnits : 0;
+      reasons.push(`категория «${template.productCategory}»: ${matched.length} из ${order.items.length} позиций`);
+    } else {
+      mismatches.push(`нет товаров категории «${template.productCategory}»`);
+    }
+  }
+
+  if (template.minWeight || template.maxWeight) {
+    const weight = Math.round(order.items.reduce((sum, i) => sum + i.weight * i.quantity, 0) * 1000) / 1000;
+    const min = template.minWeight?.toNumber();
+    const max = template.maxWeight?.toNumber();
+    const range = `${min !== undefined ? `от ${min}` : ''}${min !== undefined && max !== undefined ? ' ' : ''}${max !== undefined ? `до ${max}` : ''} кг`;
+    if ((min === undefined || weight >= min) && (max === undefined || weight <= max)) {
+      reasons.push(`вес ${weight} кг (${range})`);
+    } else {
+      mismatches.push(`вес ${weight} кг вне диапазона ${range}`);
+    }
+  }
+
+  if (template.deliveryMethod) {
+    if (alternatives(template.deliveryMethod).some(m => sameText(m, order.deliveryMethod))) {
+      reasons.push(`способ доставки «${order.deliveryMethod}»`);
+    } else {
+      mismatches.push(`способ доставки «${order.deliveryMethod || '—'}», нужен «${template.deliveryMethod}»`);
+    }
+  }
+
+  if (template.region) {
+    const regions = alternatives(template.region);
+    const inAddress = regions.find(r => containsText(order.shippingAddress, r));
+    const inDestination = regions.find(r => containsText(order.destination, r));
+    if (inAddress) {
+      reasons.push(`регион «${inAddress}» в адресе доставки`);
+    } else if (inDestination) {
+      reasons.push(`регион «${inDestination}» в складе назначения`);
+    } else {
+      mismatches.push(`адрес доставки не в регионе «${template.region}»`);
+    }
+  }
+
+  if (reasons.length === 0 && mismatches.length === 0) {
+    reasons.push('шаблон без условий');
+  }
+
+  return {
+    templateId: template.id,
+    templateName: template.name,
+    eligible: mismatches.length === 0,
+    score: mismatches.length === 0 ? reasons.filter(r => r !== 'шаблон без условий').length : 0,
+    categoryShare,
+    reasons,
+    mismatches,
+  };
+}
+
+/**
+ * Оценка всех активных шаблонов: подходящие первыми, затем по числу условий
+ * и доле товаров нужной категории
+ */
+export async function matchExpenseTemplates(tx: TransactionClient, order: TemplateMatchOrder) {
+  const templates = await tx.expenseTemplate.findMany({
+    where: { isActive: true },
+    orderBy: { name: 'asc' },
+  });
+
+  return templates
+    .map(template => scoreTemplate(template, order))
+    .sort((a, b) =>
+      Number(b.eligible) - Number(a.eligible)
+      || b.score - a.score
+      || b.categoryShare - a.categoryShare
+      || a.templateName.localeCompare(b.templateName)
+    );
+}
+
+/**
+ * Шаблон для автоматического применения: подходящий хотя бы по одному условию.
+ * Шаблоны без условий автоматически не применяются
+ */
+export function bestTemplateMatch(matches: TemplateMatch[]) {
+  return matches.find(m => m.eligible && m.score > 0) || null;
+}
+
+export function describeTemplateMatch(match: TemplateMatch) {
+  return `Подобран автоматически: ${match.reasons.join('; ')}`;
+}
+
+/**
+ * Позиции заказа для подбора: категория и вес берутся из каталога, если не указаны
+ */
+export async function resolveMatchItems(
+  tx: TransactionClient,
+  items: Array<{ productId?: string; sku?: string; category?: string | null; quantity?: number; weight?: number }>
+) {
+  const products = await tx.product.findMany({
+    where: {
+      OR: [
+        { id: { in: items.map(i => i.productId).filter(Boolean) as string[] } },
+        { sku: { in: items.map(i => i.sku).filter(Boolean) as string[] } },
+      ],
+    },
+    select: { id: true, sku: true, category: true, unitWeight: true },
+  });
+
+  return items.map(item => {
+    const product = products.find(p => p.id === item.productId) || (item.sku ? products.find(p => p.sku === item.sku) : undefined);
+    return {
+      category: item.category || product?.category || null,
+      quantity: Number(item.quantity) || 1,
+      weight: Number(item.weight) || product?.unitWeight.toNumber() || 0,
+    };
+  });
+}
+
+/**
+ * Создает расходы заказа по шаблону: количество — по формуле позиции
+ * (при ошибке — количество по умолчанию с предупреждением), цена — из услуги
+ * поставщика в рублях по текущему курсу. Расходы сразу проводятся
+ */
+export async function applyExpenseTemplate(tx: TransactionClient, orderId: string, templateId: string) {
+  const [order, template] = await Promise.all([
+    tx.order.findUnique({
+      where: { id: orderId },
+      include: { items: true, client: { select: { name: true } } },
+    }),
+    tx.expenseTemplate.findUnique({
+      where: { id: templateId },
+      include: {
+        items: {
+          include: { vendorService: true },
+          orderBy: { sortOrder: 'asc' },
+        },
+      },
+    }),
+  ]);
+
+  if (!order) {
+    throw new AppError('Заказ не найден', 404);
+  }
+  if (!template) {
+    throw new AppError('Шаблон не найден', 404);
+  }
+
+  const expenses = [];
+  const warnings: string[] = [];
+  const variables = buildFormulaVariables(order);
+
+  for (const item of template.items) {
+    let quantity = Number(item.defaultQuantity);
+
+    // Применить формулу расчета количества
+    if (item.quantityFormula) {
+      try {
+        quantity = formulaQuantity(item.quantityFormula, variables);
+      } catch (e) {
+        warnings.push(`${item.description}: ${(e as Error).message}, взято количество по умолчанию`);
+      }
+    }
+
+    let unitPrice = Number(item.defaultPrice);
+    let originalPrice = null;
+    let vatRate = 0;
+    let currency = BASE_CURRENCY;
+
+    if (item.vendorServiceId && item.vendorService) {
+      unitPrice = Number(item.vendorService.price);
+      originalPrice = unitPrice;
+      vatRate = Number(item.vendorService.vatRate);
+      currency = item.vendorService.currency;
+    }
+
+    const price = await toRubPrice(tx, unitPrice, currency);
+    const totalAmount = quantity * price.unitPrice;
+
+    const expense = await tx.orderExpense.create({
+      data: {
+        orderId,
+        templateId,
+        category: item.category,
+        subcategory: item.subcategory,
+        vendorServiceId: item.vendorServiceId,
+        vendorId: item.vendorService?.vendorId,
+        description: item.description,
+        unit: item.unit,
+        quantity,
+        ...price,
+        totalAmount,
+        plannedAmount: totalAmount,
+        actualAmount: 0,
+        ...splitVat(totalAmount, vatRate),
+        originalPrice,
+        status: 'PLANNED',
+      },
+    });
+    // Dr 90.2 / Cr 60 and input VAT for the planned amount
+    await syncExpensePosting(tx, expense.id);
+    expenses.push(expense);
+  }
+
+  return { template, expenses, warnings };
+}
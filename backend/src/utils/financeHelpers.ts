@@ -1,4 +1,5 @@
-import { PrismaClient, Prisma } from '@prisma/client';
+import { PrismaClient } from '@prisma/client';
+import { postEntry } from './posting';
 
 // Helper type for transaction client
 type TransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
@@ -13,36 +14,14 @@ export async function createReceivingEntry(
   amount: number,
   description: string
 ) {
-  const debitAccount = await tx.account.findUnique({ where: { code: '41' } });
-  const creditAccount = await tx.account.findUnique({ where: { code: '60' } });
-
-  if (!debitAccount || !creditAccount) {
-    console.warn('Accounts 41 or 60 not found, skipping financial entry');
-    return null;
-  }
-
-  // Create transaction
-  const transaction = await tx.finTransaction.create({
-    data: {
-      debitAccountId: debitAccount.id,
-      creditAccountId: creditAccount.id,
-      amount: new Prisma.Decimal(amount),
-      description,
-    }
-  });
-
-  // Update account balances
-  await tx.account.update({
-    where: { id: debitAccount.id },
-    data: { balance: { increment: amount } }
+  return postEntry(tx, {
+    debit: { accountCode: '41' },
+    credit: { accountCode: '60' },
+    amount,
+    description,
+    source: 'RECEIVING',
+    skipMissingAccounts: true,
   });
-
-  await tx.account.update({
-    where: { id: creditAccount.id },
-    data: { balance: { increment: amount } }
-  });
-
-  return transaction;
 }
 
 /**
@@ -56,41 +35,54 @@ export async function createShippingCostEntry(
   description: string,
   orderId?: string
 ) {
-  const debitAccount = await tx.account.findUnique({ where: { code: '90.2' } });
-  const creditAccount = await tx.account.findUnique({ where: { code: '41' } });
+  const transaction = await postEntry(tx, {
+    debit: { accountCode: '90.2' },
+    credit: { accountCode: '41' },
+    amount,
+    description,
+    source: 'SHIPPING',
+    skipMissingAccounts: true,
+  });
 
-  if (!debitAccount || !creditAccount) {
-    console.warn('Accounts 90.2 or 41 not found, skipping financial entry');
-    return null;
+  // Update order actual cost if orderId provided
+  if (transaction && orderId) {
+    await tx.order.update({
+      where: { id: orderId },
+      data: {
+        actualCost: { increment: amount }
+      }
+    });
   }
 
-  // Create transaction
-  const transaction = await tx.finTransaction.create({
-    data: {
-      debitAccountId: debitAccount.id,
-      creditAccountId: creditAccount.id,
-      amount: new Prisma.Decimal(amount),
-      description,
-    }
-  });
-
-  // Update account balances
-  await tx.account.update({
-    where: { id: debitAccount.id },
-    data: { balance: { increment: amount } }
-  });
+  return transaction;
+}
 
-  await tx.account.update({
-    where: { id: creditAccount.id },
-    data: { balance: { decrement: amount } }
+/**
+ * Создает финансовую проводку при возврате отгруженного товара (сторно себестоимости)
+ * Дебет: 41 "Товары на складе"
+ * Кредит: 90.2 "Себестоимость продаж"
+ */
+export async function createReturnCostEntry(
+  tx: TransactionClient,
+  amount: number,
+  description: string,
+  orderId?: string
+) {
+  const transaction = await postEntry(tx, {
+    debit: { accountCode: '41' },
+    credit: { accountCode: '90.2' },
+    amount,
+    description,
+    source: 'RETURN',
+    skipMissingAccounts: true,
   });
 
-  // Update order actual cost if orderId provided
-  if (orderId) {
+  // Reduce order actual cost if orderId provided
+  if (transaction && orderId) {
     await tx.order.update({
       where: { id: orderId },
       data: {
-        actualCost: { increment: amount }
+        actualCost: { decrement: amount }
       }
     });
   }
@@ -108,41 +100,19 @@ export async function createWriteOffEntry(
   amount: number,
   description: string
 ) {
-  const debitAccount = await tx.account.findUnique({ where: { code: '91.2' } });
-  const creditAccount = await tx.account.findUnique({ where: { code: '41' } });
-
-  if (!debitAccount || !creditAccount) {
-    console.warn('Accounts 91.2 or 41 not found, skipping financial entry');
-    return null;
-  }
-
-  // Create transaction
-  const transaction = await tx.finTransaction.create({
-    data: {
-      debitAccountId: debitAccount.id,
-      creditAccountId: creditAccount.id,
-      amount: new Prisma.Decimal(amount),
-      description,
-    }
-  });
-
-  // Update account balances
-  await tx.account.update({
-    where: { id: debitAccount.id },
-    data: { balance: { increment: amount } }
+  return postEntry(tx, {
+    debit: { accountCode: '91.2' },
+    credit: { accountCode: '41' },
+    amount,
+    description,
+    source: 'WRITE_OFF',
+    skipMissingAccounts: true,
   });
-
-  await tx.account.update({
-    where: { id: creditAccount.id },
-    data: { balance: { decrement: amount } }
-  });
-
-  return transaction;
 }
 
 /**
  * Создает корректирующую проводку при инвентаризации
- * При излишке: Дебет 41, Кредит 91.1 "Прочие доходы"
+ * При излишке: Дебет 41, Кредит 99 "Прибыли и убытки"
  * При недостаче: Дебет 91.2, Кредит 41
  */
 export async function createInventoryAdjustmentEntry(
@@ -152,38 +122,88 @@ export async function createInventoryAdjustmentEntry(
 ) {
   if (amount === 0) return null;
 
-  if (amount < 0) {
-    // Shortage - write off
-    return createWriteOffEntry(tx, Math.abs(amount), description);
-  } else {
-    // Surplus - increase inventory (unusual but possible)
-    const debitAccount = await tx.account.findUnique({ where: { code: '41' } });
-    const creditAccount = await tx.account.findUnique({ where: { code: '99' } }); // P&L
-
-    if (!debitAccount || !creditAccount) {
-      console.warn('Accounts not found, skipping financial entry');
-      return null;
-    }
-
-    const transaction = await tx.finTransaction.create({
-      data: {
-        debitAccountId: debitAccount.id,
-        creditAccountId: creditAccount.id,
-        amount: new Prisma.Decimal(amount),
-        description,
-      }
-    });
+  return postEntry(tx, {
+    debit: { accountCode: amount < 0 ? '91.2' : '41' },
+    credit: { accountCode: amount < 0 ? '41' : '99' },
+    amount: Math.abs(amount),
+    description,
+    source: 'INVENTORY',
+    skipMissingAccounts: true,
+  });
+}
 
-    await tx.account.update({
-      where: { id: debitAccount.id },
-      data: { balance: { increment: amount } }
-    });
+/**
+ * Создает проводку по поступлению оплаты от клиента
+ * Дебет: 51 "Расчетный счет" (50 "Касса" для наличных)
+ * Кредит: 62 "Расчеты с клиентами"
+ * Датируется днем поступления, а не днем ввода платежа
+ */
+export async function createPaymentEntry(
+  tx: TransactionClient,
+  amount: number,
+  description: string,
+  paymentId: string,
+  paymentMethod?: string,
+  entryDate?: Date
+) {
+  return postEntry(tx, {
+    debit: { accountCode: paymentMethod === 'CASH' ? '50' : '51' },
+    credit: { accountCode: '62' },
+    amount,
+    description,
+    entryDate,
+    source: 'PAYMENT',
+    paymentId,
+    skipMissingAccounts: true,
+  });
+}
 
-    await tx.account.update({
-      where: { id: creditAccount.id },
-      data: { balance: { increment: amount } }
-    });
+/**
+ * Сторно проводки по оплате при аннулировании платежа
+ * Дебет: 62 "Расчеты с клиентами"
+ * Кредит: 51 "Расчетный счет" (50 "Касса" для наличных)
+ */
+export async function createPaymentReversalEntry(
+  tx: TransactionClient,
+  amount: number,
+  description: string,
+  paymentId: string,
+  paymentMethod?: string,
+  entryDate?: Date
+) {
+  return postEntry(tx, {
+    debit: { accountCode: '62' },
+    credit: { accountCode: paymentMethod === 'CASH' ? '50' : '51' },
+    amount,
+    description,
+    entryDate,
+    source: 'PAYMENT',
+    paymentId,
+    skipMissingAccounts: true,
+  });
+}
 
-    return transaction;
-  }
+/**
+ * Создает проводку по оплате поставщику с расчетного счета
+ * Дебет: 60 "Расчеты с поставщиками"
+ * Кредит: 51 "Расчетный счет"
+ * Датируется днем списания со счета
+ */
+export async function createVendorPaymentEntry(
+  tx: TransactionClient,
+  amount: number,
+  description: string,
+  costOperationId?: string,
+  entryDate?: Date
+) {
+  return postEntry(tx, {
+    debit: { accountCode: '60' },
+    credit: { accountCode: '51' },
+    amount,
+    description,
+    entryDate,
+    source: 'VENDOR_PAYMENT',
+    costOperationId,
+    skipMissingAccounts: true,
+  });
 }
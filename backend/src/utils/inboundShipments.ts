@@ -0,0 +1,188 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { assertLocationsNotFrozen } from './inventoryCounts';
+
+// Helper type for transaction client
+type TransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+type ShipmentWithItems = Prisma.InboundShipmentGetPayload<{
+  include: { items: { include: { product: { select: { sku: true; name: true } } } } };
+}>;
+
+export const DISCREPANCY_LABELS: Record<string, string> = {
+  SHORT: 'Недостача',
+  OVER: 'Излишек',
+  DAMAGED: 'Повреждение',
+  UNKNOWN_SKU: 'Неизвестный SKU',
+};
+
+export interface DiscrepancyLine {
+  itemId: string;
+  sku: string;
+  name: string;
+  expectedQty: number;
+  receivedQty: number;
+  damagedQty: number;
+  difference: number; // принято всего − ожидалось
+  types: string[];
+}
+
+/**
+ * Генерирует номер уведомления о поставке: ASN-YYYYMMDD-NNNN
+ */
+export async function generateAsnNumber(tx: TransactionClient): Promise<string> {
+  const today = new Date();
+  const prefix = `ASN-${today.getFullYear()}${String(today.getMonth() + 1).padStart(2, '0')}${String(today.getDate()).padStart(2, '0')}`;
+
+  const last = await tx.inboundShipment.findFirst({
+    where: { asnNumber: { startsWith: prefix } },
+    orderBy: { asnNumber: 'desc' },
+  });
+
+  let seq = 1;
+  if (last) {
+    seq = parseInt(last.asnNumber.split('-').pop() || '0') + 1;
+  }
+
+  return `${prefix}-${String(seq).padStart(4, '0')}`;
+}
+
+/**
+ * Размещает принятый товар в ячейке с партией и сроком годности
+ */
+export async function putAwayInbound(
+  tx: TransactionClient,
+  params: {
+    productId: string;
+    locationId: string;
+    quantity: number;
+    batchNumber?: string | null;
+    expiryDate?: Date | null;
+    taskId?: string | null;
+    reason: string;
+    userId: string;
+  }
+) {
+  const { productId, locationId, quantity } = params;
+  const batchNumber = params.batchNumber || null;
+
+  await assertLocationsNotFrozen(tx, [locationId]);
+
+  const stock = await tx.productStock.findFirst({
+    where: { productId, storageLocationId: locationId, batchNumber },
+  });
+
+  if (stock) {
+    await tx.productStock.update({
+      where: { id: stock.id },
+      data: {
+        quantity: { increment: quantity },
+        availableQty: { increment: quantity },
+        expiryDate: params.expiryDate || stock.expiryDate,
+        lastMovementAt: new Date(),
+      },
+    });
+  } else {
+    await tx.productStock.create({
+      data: {
+        productId,
+        storageLocationId: locationId,
+        quantity,
+        availableQty: quantity,
+        batchNumber,
+        expiryDate: params.expiryDate || null,
+      },
+    });
+  }
+
+  await tx.storageLocation.update({
+    where: { id: locationId },
+    data: { status: 'OCCUPIED' },
+  });
+
+  return tx.stockMovement.create({
+    data: {
+      productId,
+      toLocationId: locationId,
+      quantity,
+      movementType: 'INBOUND',
+      taskId: params.taskId || null,
+      batchNumber,
+      reason: params.reason,
+      createdBy: params.userId,
+    },
+  });
+}
+
+/**
+ * Отмечает ASN принятым, если его задача приемки закрыта из раздела задач.
+ * Количество берется из позиций задачи; повреждения в этом случае не учитываются.
+ */
+export async function markShipmentReceived(tx: TransactionClient, taskId: string) {
+  const shipment = await tx.inboundShipment.findFirst({
+    where: { taskId, status: 'EXPECTED' },
+    include: { items: true },
+  });
+  if (!shipment) return null;
+
+  const taskItems = await tx.taskItem.findMany({ where: { taskId } });
+
+  for (const item of shipment.items) {
+    const taskItem = taskItems.find(t => t.id === item.taskItemId);
+    if (!taskItem) continue;
+
+    await tx.inboundShipmentItem.update({
+      where: { id: item.id },
+      data: {
+        receivedQty: taskItem.isCompleted ? taskItem.actualQty : 0,
+        locationId: taskItem.toLocationId,
+      },
+    });
+  }
+
+  return tx.inboundShipment.update({
+    where: { id: shipment.id },
+    data: { status: 'RECEIVED', receivedAt: new Date() },
+  });
+}
+
+/**
+ * Акт расхождений по ASN: недостача, излишек, повреждения и SKU вне каталога
+ */
+export function buildDiscrepancyReport(shipment: ShipmentWithItems) {
+  const lines: DiscrepancyLine[] = shipment.items.map(item => {
+    const accepted = item.receivedQty + item.damagedQty;
+    const types: string[] = [];
+
+    if (!item.productId) types.push('UNKNOWN_SKU');
+    if (accepted < item.expectedQty) types.push('SHORT');
+    if (accepted > item.expectedQty) types.push('OVER');
+    if (item.damagedQty > 0) types.push('DAMAGED');
+
+    return {
+      itemId: item.id,
+      sku: item.sku,
+      name: item.product?.name || item.name || '',
+      expectedQty: item.expectedQty,
+      receivedQty: item.receivedQty,
+      damagedQty: item.damagedQty,
+      difference: accepted - item.expectedQty,
+      types,
+    };
+  });
+
+  const discrepancies = lines.filter(l => l.types.length > 0);
+
+  return {
+    lines,
+    discrepancies,
+    summary: {
+      expectedQty: lines.reduce((sum, l) => sum + l.expectedQty, 0),
+      receivedQty: lines.reduce((sum, l) => sum + l.receivedQty, 0),
+      damagedQty: lines.reduce((sum, l) => sum + l.damagedQty, 0),
+      shortQty: lines.reduce((sum, l) => sum + Math.max(0, -l.difference), 0),
+      overQty: lines.reduce((sum, l) => sum + Math.max(0, l.difference), 0),
+      unknownSkus: lines.filter(l => l.types.includes('UNKNOWN_SKU')).length,
+      hasDiscrepancies: discrepancies.length > 0,
+    },
+  };
+}
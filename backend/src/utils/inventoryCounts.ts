@@ -0,0 +1,252 @@
+import { PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+import { createInventoryAdjustmentEntry } from './financeHelpers';
+import { trimStockReservations } from './stockReservation';
+
+// Helper type for transaction client
+type TransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+export const COUNT_TYPES = ['FULL', 'CYCLE'];
+
+// Статусы, при которых ячейки сессии заморожены
+export const ACTIVE_COUNT_STATUSES = ['COUNTING', 'RECOUNT', 'REVIEW'];
+
+export class LocationFrozenError extends AppError {
+  constructor(codes: string[]) {
+    super(`Ячейки заморожены инвентаризацией: ${codes.join(', ')}`, 409);
+  }
+}
+
+/**
+ * Генерирует номер инвентаризации: INV-YYYYMMDD-NNNN
+ */
+export async function generateCountNumber(tx: TransactionClient): Promise<string> {
+  const today = new Date();
+  const prefix = `INV-${today.getFullYear()}${String(today.getMonth() + 1).padStart(2, '0')}${String(today.getDate()).padStart(2, '0')}`;
+
+  const last = await tx.inventoryCount.findFirst({
+    where: { countNumber: { startsWith: prefix } },
+    orderBy: { countNumber: 'desc' },
+  });
+
+  let seq = 1;
+  if (last) {
+    seq = parseInt(last.countNumber.split('-').pop() || '0') + 1;
+  }
+
+  return `${prefix}-${String(seq).padStart(4, '0')}`;
+}
+
+/**
+ * Запрещает движения через ячейки, замороженные инвентаризацией
+ */
+export async function assertLocationsNotFrozen(
+  tx: TransactionClient,
+  locationIds: Array<string | null | undefined>
+) {
+  const ids = locationIds.filter((id): id is string => !!id);
+  if (ids.length === 0) return;
+
+  const frozen = await tx.storageLocation.findMany({
+    where: { id: { in: ids }, frozenByCountId: { not: null } },
+    select: { code: true },
+  });
+
+  if (frozen.length > 0) {
+    throw new LocationFrozenError(frozen.map(l => l.code));
+  }
+}
+
+/**
+ * Снимает заморозку с ячеек сессии и пересчитывает их статус по остаткам
+ */
+export async function releaseLocations(tx: TransactionClient, countId: string) {
+  const locations = await tx.storageLocation.findMany({
+    where: { frozenByCountId: countId },
+    include: { productStocks: { where: { quantity: { gt: 0 } }, select: { id: true } } },
+  });
+
+  for (const location of locations) {
+    await tx.storageLocation.update({
+      where: { id: location.id },
+      data: {
+        frozenByCountId: null,
+        status: location.status === 'BLOCKED'
+          ? location.status
+          : location.productStocks.length > 0 ? 'OCCUPIED' : 'FREE',
+      },
+    });
+  }
+}
+
+/**
+ * Нужен ли повторный пересчет: отклонение от учета больше порога в процентах.
+ * Для нулевого учетного остатка любое найденное количество требует пересчета.
+ */
+export function needsRecount(expectedQty: number, countedQty: number, thresholdPct: number): boolean {
+  if (countedQty === expectedQty) return false;
+  if (expectedQty === 0) return true;
+  return (Math.abs(countedQty - expectedQty) / expectedQty) * 100 > thresholdPct;
+}
+
+/**
+ * Итог строки: последний пересчет против учетного остатка
+ */
+export function resolveLineResult(line: {
+  expectedQty: number;
+  countedQty: number | null;
+  recountQty: number | null;
+  unitCost: unknown;
+}) {
+  const finalQty = line.recountQty ?? line.countedQty ?? line.expectedQty;
+  const variance = finalQty - line.expectedQty;
+  return { finalQty, variance, varianceAmount: variance * Number(line.unitCost) };
+}
+
+/**
+ * Записывает результат пересчета строки. В статусе RECOUNT — повторный пересчет.
+ */
+export async function recordLineCount(
+  tx: TransactionClient,
+  lineId: string,
+  quantity: number,
+  userId: string
+) {
+  const line = await tx.inventoryCountLine.findUnique({
+    where: { id: lineId },
+    include: { count: { select: { status: true } } },
+  });
+  if (!line) {
+    throw new AppError('Строка инвентаризации не найдена', 404);
+  }
+
+  const { status } = line.count;
+  if (status !== 'COUNTING' && status !== 'RECOUNT') {
+    throw new AppError('Пересчет по инвентаризации уже завершен', 400);
+  }
+  if (status === 'RECOUNT' && !line.recountRequired) {
+    throw new AppError('Строка не требует повторного пересчета', 400);
+  }
+
+  if (line.taskItemId) {
+    await tx.taskItem.updateMany({
+      where: { id: line.taskItemId },
+      data: { actualQty: quantity, isCompleted: true },
+    });
+  }
+
+  return tx.inventoryCountLine.update({
+    where: { id: lineId },
+    data: {
+      ...(status === 'RECOUNT' ? { recountQty: quantity } : { countedQty: quantity }),
+      countedById: userId,
+      countedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Пересчет, выполненный из раздела задач: позиция задачи INVENTORY
+ * передает посчитанное количество в строку инвентаризации.
+ */
+export async function recordTaskCount(
+  tx: TransactionClient,
+  taskItemId: string,
+  quantity: number,
+  userId: string
+) {
+  const line = await tx.inventoryCountLine.findFirst({ where: { taskItemId } });
+  if (!line) return null;
+  return recordLineCount(tx, line.id, quantity, userId);
+}
+
+/**
+ * Проводит расхождения: корректирует остатки в ячейках, создает движения ADJUSTMENT
+ * и проводки по себестоимости (недостача — 91.2/41, излишки — 41/99).
+ * Резервы сверх посчитанного количества снимаются; возвращаются номера заказов,
+ * потерявших резерв.
+ */
+export async function postCountVariances(tx: TransactionClient, countId: string, userId: string) {
+  const count = await tx.inventoryCount.findUnique({
+    where: { id: countId },
+    include: { lines: true },
+  });
+  if (!count) {
+    throw new AppError('Инвентаризация не найдена', 404);
+  }
+
+  const reason = `Инвентаризация ${count.countNumber}`;
+  let surplusAmount = 0;
+  let shortageAmount = 0;
+  const releasedOrders = new Set<string>();
+
+  for (const line of count.lines) {
+    const { finalQty, variance, varianceAmount } = resolveLineResult(line);
+
+    await tx.inventoryCountLine.update({
+      where: { id: line.id },
+      data: { finalQty, variance, varianceAmount },
+    });
+
+    if (variance === 0) continue;
+
+    const stock = await tx.productStock.findFirst({
+      where: {
+        productId: line.productId,
+        storageLocationId: line.locationId,
+        batchNumber: line.batchNumber,
+      },
+    });
+
+    if (stock) {
+      let reservedQty = stock.reservedQty;
+      if (reservedQty > finalQty) {
+        const trimmed = await trimStockReservations(tx, stock.id, reservedQty - finalQty);
+        trimmed.orderNumbers.forEach(n => releasedOrders.add(n));
+        reservedQty = Math.min(finalQty, reservedQty - trimmed.releasedQty);
+      }
+
+      await tx.productStock.update({
+        where: { id: stock.id },
+        data: {
+          quantity: finalQty,
+          reservedQty,
+          availableQty: finalQty - reservedQty,
+          lastMovementAt: new Date(),
+        },
+      });
+    } else {
+      await tx.productStock.create({
+        data: {
+          productId: line.productId,
+          storageLocationId: line.locationId,
+          batchNumber: line.batchNumber,
+          quantity: finalQty,
+          availableQty: finalQty,
+        },
+      });
+    }
+
+    await tx.stockMovement.create({
+      data: {
+        productId: line.productId,
+        fromLocationId: variance < 0 ? line.locationId : null,
+        toLocationId: variance > 0 ? line.locationId : null,
+        quantity: Math.abs(variance),
+        movementType: 'ADJUSTMENT',
+        taskId: count.taskId,
+        batchNumber: line.batchNumber,
+        reason: `${reason}: ${variance > 0 ? 'излишек' : 'недостача'}`,
+        createdBy: userId,
+      },
+    });
+
+    if (varianceAmount > 0) surplusAmount += varianceAmount;
+    else shortageAmount += Math.abs(varianceAmount);
+  }
+
+  await createInventoryAdjustmentEntry(tx, surplusAmount, `Излишки по инвентаризации ${count.countNumber}`);
+  await createInventoryAdjustmentEntry(tx, -shortageAmount, `Недостача по инвентаризации ${count.countNumber}`);
+
+  return { surplusAmount, shortageAmount, releasedOrders: [...releasedOrders] };
+}
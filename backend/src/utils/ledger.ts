@@ -0,0 +1,315 @@
+import { PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+
+// Helper type for transaction client
+type TransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+// Активные счета и расходы растут по дебету, остальные — по кредиту
+const DEBIT_NORMAL_TYPES = ['ASSET', 'EXPENSE'];
+
+export interface Turnover {
+  debit: number;
+  credit: number;
+}
+
+export interface TrialBalanceRow {
+  accountId: string;
+  code: string;
+  name: string;
+  type: string;
+  opening: Turnover;
+  turnover: Turnover;
+  closing: Turnover;
+}
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Сальдо в знаке счета (как Account.balance) из разницы дебет - кредит
+ */
+export function toNaturalBalance(type: string, net: number) {
+  return round2(DEBIT_NORMAL_TYPES.includes(type) ? net : -net);
+}
+
+export function fromNaturalBalance(type: string, balance: number) {
+  return DEBIT_NORMAL_TYPES.includes(type) ? balance : -balance;
+}
+
+// Развернутое сальдо: дебетовое или кредитовое
+function split(net: number): Turnover {
+  const value = round2(net);
+  return value >= 0 ? { debit: value, credit: 0 } : { debit: 0, credit: -value };
+}
+
+/**
+ * Границы месяца YYYY-MM: первый день 00:00 и последний день 23:59:59.999
+ */
+export function parsePeriod(period: string) {
+  const match = period.match(/^(\d{4})-(\d{2})$/);
+  const month = match ? Number(match[2]) : 0;
+  if (!match || month < 1 || month > 12) {
+    throw new AppError('Период указывается в формате ГГГГ-ММ', 400);
+  }
+  const year = Number(match[1]);
+  return {
+    startDate: new Date(year, month - 1, 1),
+    endDate: new Date(year, month, 0, 23, 59, 59, 999),
+  };
+}
+
+function nextPeriod(period: string) {
+  const [year, month] = period.split('-').map(Number);
+  return month === 12 ? `${year + 1}-01` : `${year}-${String(month + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Обороты по счетам за интервал дат (границы включительно)
+ */
+export async function getTurnovers(
+  tx: TransactionClient,
+  range: { gt?: Date; gte?: Date; lt?: Date; lte?: Date }
+): Promise<Map<string, Turnover>> {
+  const where = Object.keys(range).length > 0 ? { transactionDate: range } : {};
+
+  const [debits, credits] = await Promise.all([
+    tx.finTransaction.groupBy({ by: ['debitAccountId'], where, _sum: { amount: true } }),
+    tx.finTransaction.groupBy({ by: ['creditAccountId'], where, _sum: { amount: true } }),
+  ]);
+
+  const result = new Map<string, Turnover>();
+  const rowFor = (accountId: string) => {
+    let row = result.get(accountId);
+    if (!row) {
+      row = { debit: 0, credit: 0 };
+      result.set(accountId, row);
+    }
+    return row;
+  };
+
+  for (const d of debits) rowFor(d.debitAccountId).debit += d._sum.amount?.toNumber() || 0;
+  for (const c of credits) rowFor(c.creditAccountId).credit += c._sum.amount?.toNumber() || 0;
+
+  return result;
+}
+
+/**
+ * Последний закрытый период, закончившийся до даты (его сальдо — база для расчета)
+ */
+async function getBasePeriod(tx: TransactionClient, before: Date) {
+  return tx.accountingPeriod.findFirst({
+    where: { status: 'CLOSED', endDate: { lt: before } },
+    include: { balances: { include: { account: { select: { type: true } } } } },
+    orderBy: { endDate: 'desc' },
+  });
+}
+
+/**
+ * Сальдо счетов (дебет - кредит) на начало даты: сальдо последнего закрытого
+ * периода плюс проводки после него
+ */
+export async function getNetBalancesBefore(tx: TransactionClient, date: Date): Promise<Map<string, number>> {
+  const base = await getBasePeriod(tx, date);
+  const result = new Map<string, number>();
+
+  if (base) {
+    for (const b of base.balances) {
+      result.set(b.accountId, fromNaturalBalance(b.account.type, b.closingBalance.toNumber()));
+    }
+  }
+
+  const turnovers = await getTurnovers(tx, { ...(base ? { gt: base.endDate } : {}), lt: date });
+  for (const [accountId, t] of turnovers) {
+    result.set(accountId, (result.get(accountId) || 0) + t.debit - t.credit);
+  }
+
+  return result;
+}
+
+/**
+ * Оборотно-сальдовая ведомость за период по всем счетам
+ */
+export async function getTrialBalance(
+  tx: TransactionClient,
+  params: { dateFrom: Date; dateTo: Date; includeZero?: boolean }
+) {
+  const accounts = await tx.account.findMany({ orderBy: { code: 'asc' } });
+  const opening = await getNetBalancesBefore(tx, params.dateFrom);
+  const turnovers = await getTurnovers(tx, { gte: params.dateFrom, lte: params.dateTo });
+
+  const rows: TrialBalanceRow[] = accounts
+    .map(account => {
+      const openingNet = opening.get(account.id) || 0;
+      const turnover = turnovers.get(account.id) || { debit: 0, credit: 0 };
+      return {
+        accountId: account.id,
+        code: account.code,
+        name: account.name,
+        type: account.type,
+        opening: split(openingNet),
+        turnover: { debit: round2(turnover.debit), credit: round2(turnover.credit) },
+        closing: split(openingNet + turnover.debit - turnover.credit),
+      };
+    })
+    .filter(row =>
+      params.includeZero ||
+      [row.opening, row.turnover, row.closing].some(t => t.debit !== 0 || t.credit !== 0)
+    );
+
+  const sum = (pick: (row: TrialBalanceRow) => Turnover) => ({
+    debit: round2(rows.reduce((s, row) => s + pick(row).debit, 0)),
+    credit: round2(rows.reduce((s, row) => s + pick(row).credit, 0)),
+  });
+
+  const totals = {
+    opening: sum(row => row.opening),
+    turnover: sum(row => row.turnover),
+    closing: sum(row => row.closing),
+  };
+
+  return {
+    dateFrom: params.dateFrom,
+    dateTo: params.dateTo,
+    rows,
+    totals,
+    // Double entry: debit and credit columns must be equal
+    balanced: [totals.opening, totals.turnover, totals.closing].every(t => Math.abs(t.debit - t.credit) < 0.01),
+  };
+}
+
+/**
+ * Ведомость по одному счету: сальдо в знаке счета и обороты за период
+ */
+export async function getAccountStatement(
+  tx: TransactionClient,
+  account: { id: string; type: string },
+  dateFrom: Date | null,
+  dateTo: Date | null
+) {
+  const openingNet = dateFrom ? (await getNetBalancesBefore(tx, dateFrom)).get(account.id) || 0 : 0;
+  const turnover = (await getTurnovers(tx, {
+    ...(dateFrom ? { gte: dateFrom } : {}),
+    ...(dateTo ? { lte: dateTo } : {}),
+  })).get(account.id) || { debit: 0, credit: 0 };
+
+  return {
+    openingBalance: toNaturalBalance(account.type, openingNet),
+    debitTurnover: round2(turnover.debit),
+    creditTurnover: round2(turnover.credit),
+    closingBalance: toNaturalBalance(account.type, openingNet + turnover.debit - turnover.credit),
+  };
+}
+
+/**
+ * Дата, по которую включительно учет закрыт (конец последнего закрытого месяца)
+ */
+export async function getLockDate(tx: TransactionClient): Promise<Date | null> {
+  const last = await tx.accountingPeriod.findFirst({
+    where: { status: 'CLOSED' },
+    orderBy: { endDate: 'desc' },
+  });
+  return last ? last.endDate : null;
+}
+
+/**
+ * Запрещает проводки с датой в закрытом периоде
+ */
+export async function assertPeriodOpen(tx: TransactionClient, date: Date) {
+  const closed = await tx.accountingPeriod.findFirst({
+    where: { status: 'CLOSED', endDate: { gte: date } },
+    orderBy: { endDate: 'desc' },
+  });
+  if (closed) {
+    throw new AppError(
+      `Учетный период по ${closed.endDate.toLocaleDateString('ru-RU')} закрыт — проводки с датой ${date.toLocaleDateString('ru-RU')} запрещены`,
+      400
+    );
+  }
+}
+
+/**
+ * Закрывает месяц и фиксирует сальдо счетов на его конец.
+ * Месяцы закрываются по порядку; первый закрываемый месяц фиксирует и всю историю до него.
+ * Текущий месяц закрыть нельзя, поэтому проводки датой «сейчас» всегда попадают в открытый период.
+ */
+export async function closePeriod(tx: TransactionClient, period: string, userId?: string) {
+  const { startDate, endDate } = parsePeriod(period);
+
+  if (endDate >= new Date()) {
+    throw new AppError('Закрыть можно только завершившийся месяц', 400);
+  }
+
+  const last = await tx.accountingPeriod.findFirst({
+    where: { status: 'CLOSED' },
+    orderBy: { endDate: 'desc' },
+  });
+  if (last && last.endDate >= startDate) {
+    throw new AppError(`Период ${period} уже закрыт`, 400);
+  }
+  if (last && nextPeriod(last.period) !== period) {
+    throw new AppError(`Сначала закройте период ${nextPeriod(last.period)}`, 400);
+  }
+
+  const accounts = await tx.account.findMany({ select: { id: true, type: true } });
+  const opening = await getNetBalancesBefore(tx, startDate);
+  const turnovers = await getTurnovers(tx, { gte: startDate, lte: endDate });
+
+  const data = {
+    startDate,
+    endDate,
+    status: 'CLOSED',
+    closedAt: new Date(),
+    closedById: userId,
+    reopenedAt: null,
+    reopenedById: null,
+  };
+  const record = await tx.accountingPeriod.upsert({
+    where: { period },
+    create: { period, ...data },
+    update: data,
+  });
+
+  await tx.accountingPeriodBalance.deleteMany({ where: { periodId: record.id } });
+  await tx.accountingPeriodBalance.createMany({
+    data: accounts.map(account => {
+      const openingNet = opening.get(account.id) || 0;
+      const turnover = turnovers.get(account.id) || { debit: 0, credit: 0 };
+      return {
+        periodId: record.id,
+        accountId: account.id,
+        openingBalance: toNaturalBalance(account.type, openingNet),
+        debitTurnover: round2(turnover.debit),
+        creditTurnover: round2(turnover.credit),
+        closingBalance: toNaturalBalance(account.type, openingNet + turnover.debit - turnover.credit),
+      };
+    }),
+  });
+
+  return record;
+}
+
+/**
+ * Переоткрывает последний закрытый месяц; зафиксированное сальдо удаляется
+ */
+export async function reopenPeriod(tx: TransactionClient, period: string, userId?: string) {
+  const record = await tx.accountingPeriod.findUnique({ where: { period } });
+  if (!record || record.status !== 'CLOSED') {
+    throw new AppError(`Период ${period} не закрыт`, 400);
+  }
+
+  const later = await tx.accountingPeriod.findFirst({
+    where: { status: 'CLOSED', endDate: { gt: record.endDate } },
+    orderBy: { endDate: 'asc' },
+  });
+  if (later) {
+    throw new AppError(`Сначала переоткройте период ${later.period}`, 400);
+  }
+
+  await tx.accountingPeriodBalance.deleteMany({ where: { periodId: record.id } });
+
+  return tx.accountingPeriod.update({
+    where: { id: record.id },
+    data: { status: 'OPEN', reopenedAt: new Date(), reopenedById: userId },
+  });
+}
@@ -0,0 +1,262 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { syncExpensePosting } from './autoPostings';
+
+// Helper type for transaction client
+type TransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+// Категории расходов
+export const EXPENSE_CATEGORIES = {
+  PACKAGING: { name: 'Упаковка', description: 'Пакеты, коробки, материалы' },
+  LABOR: { name: 'ФОТ', description: 'Фонд оплаты труда сотрудников' },
+  RENT: { name: 'Аренда', description: 'Аренда склада/оборудования' },
+  LOGISTICS: { name: 'Логистика', description: 'Доставка, транспорт' },
+  MATERIALS: { name: 'Материалы', description: 'Расходные материалы' },
+  OTHER: { name: 'Прочее', description: 'Другие расходы' },
+};
+
+// Систематическая недооценка: не меньше 3 расходов, факт выше плана
+// в 70% случаев и суммарное отклонение от 10% плана
+export const SYSTEMATIC_MIN_COUNT = 3;
+export const SYSTEMATIC_OVER_SHARE = 0.7;
+export const SYSTEMATIC_MIN_PERCENT = 10;
+
+export interface VarianceFilters {
+  dateFrom?: Date;
+  dateTo?: Date;
+  clientId?: string;
+  vendorId?: string;
+  vendorServiceId?: string;
+  templateId?: string;
+  category?: string;
+}
+
+export interface VarianceRow {
+  expenseId: string;
+  orderId: string;
+  orderNumber: string;
+  orderDate: Date;
+  client: { id: string; name: string };
+  vendor: { id: string; name: string } | null;
+  vendorService: { id: string; name: string } | null;
+  template: { id: string; name: string } | null;
+  category: string;
+  categoryName: string;
+  description: string;
+  status: string;
+  planned: number;
+  actual: number;
+  variance: number; // факт − план, > 0 — перерасход
+  variancePercent: number | null; // от плана, нет при нулевом плане
+}
+
+export interface VarianceGroup {
+  key: string;
+  name: string;
+  count: number;
+  planned: number;
+  actual: number;
+  variance: number;
+  variancePercent: number | null;
+  overCount: number; // расходов с фактом выше плана
+  underCount: number; // расходов с фактом ниже плана
+  systematic: boolean;
+}
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function percentOf(variance: number, planned: number) {
+  return planned > 0 ? round2((variance / planned) * 100) : null;
+}
+
+export function categoryName(category: string) {
+  return EXPENSE_CATEGORIES[category as keyof typeof EXPENSE_CATEGORIES]?.name || category;
+}
+
+/**
+ * Пересчет себестоимости и маржи заказа по его расходам и товарам.
+ * Проводки расходов доводятся до их текущих сумм
+ */
+export async function recalculateOrderCost(tx: TransactionClient, orderId: string) {
+  const expenses = await tx.orderExpense.findMany({
+    where: { orderId },
+  });
+
+  // Суммы без НДС и проводки следуют за фактической (или расчетной) суммой расхода
+  for (const expense of expenses) {
+    await syncExpensePosting(tx, expense.id);
+  }
+
+  const totalCost = expenses.reduce((sum, e) => {
+    const amount = Number(e.actualAmount) > 0 ? Number(e.actualAmount) : Number(e.totalAmount);
+    return sum + amount;
+  }, 0);
+
+  // Получаем данные о товарах для расчета выручки
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    include: { items: true },
+  });
+
+  if (!order) return;
+
+  const itemsCost = order.items.reduce((sum, item) => sum + Number(item.unitCost) * item.quantity, 0);
+  const itemsRevenue = order.items.reduce((sum, item) => sum + Number(item.unitPrice) * item.quantity, 0);
+
+  const actualCost = totalCost + itemsCost;
+  const totalIncome = itemsRevenue > 0 ? itemsRevenue : Number(order.totalIncome);
+  const profit = totalIncome - actualCost;
+  const marginPercent = totalIncome > 0 ? (profit / totalIncome) * 100 : 0;
+
+  await tx.order.update({
+    where: { id: orderId },
+    data: {
+      estimatedCost: totalCost,
+      actualCost,
+      profit,
+      marginPercent,
+    },
+  });
+}
+
+/**
+ * Группировка отклонений; группы с наибольшим перерасходом первыми
+ */
+function groupRows(rows: VarianceRow[], keyOf: (row: VarianceRow) => { key: string; name: string } | null) {
+  const groups = new Map<string, VarianceGroup>();
+
+  for (const row of rows) {
+    const group = keyOf(row);
+    if (!group) continue;
+
+    const entry = groups.get(group.key) || {
+      ...group,
+      count: 0,
+      planned: 0,
+      actual: 0,
+      variance: 0,
+      variancePercent: null,
+      overCount: 0,
+      underCount: 0,
+      systematic: false,
+    };
+    entry.count++;
+    entry.planned = round2(entry.planned + row.planned);
+    entry.actual = round2(entry.actual + row.actual);
+    if (row.variance > 0) entry.overCount++;
+    if (row.variance < 0) entry.underCount++;
+    groups.set(group.key, entry);
+  }
+
+  return [...groups.values()]
+    .map(group => {
+      const variance = round2(group.actual - group.planned);
+      const variancePercent = percentOf(variance, group.planned);
+      return {
+        ...group,
+        variance,
+        variancePercent,
+        systematic: group.count >= SYSTEMATIC_MIN_COUNT
+          && group.overCount / group.count >= SYSTEMATIC_OVER_SHARE
+          && variancePercent !== null
+          && variancePercent >= SYSTEMATIC_MIN_PERCENT,
+      };
+    })
+    .sort((a, b) => b.variance - a.variance);
+}
+
+/**
+ * Отклонения факта от плана по расходам заказов за период (по дате заказа).
+ * Учитываются расходы с внесенным фактом: статус ACTUAL/FIXED или фактическая сумма > 0
+ */
+export async function getExpenseVariance(tx: TransactionClient, filters: VarianceFilters) {
+  const where: Prisma.OrderExpenseWhereInput = {
+    OR: [{ status: { in: ['ACTUAL', 'FIXED'] } }, { actualAmount: { gt: 0 } }],
+    order: {
+      status: { not: 'CANCELLED' },
+      orderDate: {
+        ...(filters.dateFrom ? { gte: filters.dateFrom } : {}),
+        ...(filters.dateTo ? { lte: filters.dateTo } : {}),
+      },
+      ...(filters.clientId ? { clientId: filters.clientId } : {}),
+    },
+    ...(filters.vendorId ? { vendorId: filters.vendorId } : {}),
+    ...(filters.vendorServiceId ? { vendorServiceId: filters.vendorServiceId } : {}),
+    ...(filters.templateId ? { templateId: filters.templateId } : {}),
+    ...(filters.category ? { category: filters.category } : {}),
+  };
+
+  const expenses = await tx.orderExpense.findMany({
+    where,
+    include: {
+      order: {
+        select: {
+          id: true,
+          orderNumber: true,
+          orderDate: true,
+          client: { select: { id: true, name: true } },
+        },
+      },
+      vendor: { select: { id: true, name: true } },
+      vendorService: { select: { id: true, name: true } },
+      template: { select: { id: true, name: true } },
+    },
+    orderBy: [{ order: { orderDate: 'asc' } }, { createdAt: 'asc' }],
+  });
+
+  const rows: VarianceRow[] = expenses.map(e => {
+    const planned = e.plannedAmount.toNumber();
+    const actual = e.actualAmount.toNumber();
+    const variance = round2(actual - planned);
+    return {
+      expenseId: e.id,
+      orderId: e.order.id,
+      orderNumber: e.order.orderNumber,
+      orderDate: e.order.orderDate,
+      client: e.order.client,
+      vendor: e.vendor,
+      vendorService: e.vendorService,
+      template: e.template,
+      category: e.category,
+      categoryName: categoryName(e.category),
+      description: e.description,
+      status: e.status,
+      planned,
+      actual,
+      variance,
+      variancePercent: percentOf(variance, planned),
+    };
+  });
+
+  const planned = round2(rows.reduce((sum, r) => sum + r.planned, 0));
+  const actual = round2(rows.reduce((sum, r) => sum + r.actual, 0));
+
+  const byTemplate = groupRows(rows, r => r.template && { key: r.template.id, name: r.template.name });
+  const byVendorService = groupRows(rows, r => r.vendorService && {
+    key: r.vendorService.id,
+    name: r.vendor ? `${r.vendorService.name} (${r.vendor.name})` : r.vendorService.name,
+  });
+
+  return {
+    rows,
+    totals: {
+      count: rows.length,
+      planned,
+      actual,
+      variance: round2(actual - planned),
+      variancePercent: percentOf(actual - planned, planned),
+    },
+    byOrder: groupRows(rows, r => ({ key: r.orderId, name: r.orderNumber })),
+    byClient: groupRows(rows, r => ({ key: r.client.id, name: r.client.name })),
+    byVendor: groupRows(rows, r => r.vendor && { key: r.vendor.id, name: r.vendor.name }),
+    byCategory: groupRows(rows, r => ({ key: r.category, name: r.categoryName })),
+    byTemplate,
+    byVendorService,
+    // Шаблоны и услуги, где план систематически ниже факта
+    systematic: [
+      ...byTemplate.filter(g => g.systematic).map(g => ({ type: 'TEMPLATE', ...g })),
+      ...byVendorService.filter(g => g.systematic).map(g => ({ type: 'VENDOR_SERVICE', ...g })),
+    ],
+  };
+}
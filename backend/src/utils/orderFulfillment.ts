@@ -0,0 +1,183 @@
+import { PrismaClient } from '@prisma/client';
+import { reserveOrderStock } from './stockReservation';
+import { createShippingCostEntry } from './financeHelpers';
+import { recordStatusChange, statusDates } from './orderStatus';
+
+// Helper type for transaction client
+type TransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+/**
+ * Генерирует номер складской задачи: WT-YYYYMMDD-NNNN
+ */
+export async function generateTaskNumber(tx: TransactionClient): Promise<string> {
+  const today = new Date();
+  const prefix = `WT-${today.getFullYear()}${String(today.getMonth() + 1).padStart(2, '0')}${String(today.getDate()).padStart(2, '0')}`;
+
+  const lastTask = await tx.warehouseTask.findFirst({
+    where: { taskNumber: { startsWith: prefix } },
+    orderBy: { taskNumber: 'desc' }
+  });
+
+  let seq = 1;
+  if (lastTask) {
+    const lastSeq = parseInt(lastTask.taskNumber.split('-').pop() || '0');
+    seq = lastSeq + 1;
+  }
+
+  return `${prefix}-${String(seq).padStart(4, '0')}`;
+}
+
+/**
+ * Создает задачи на подбор по резервам заказа (по одной на склад).
+ * Позиции задачи указывают на ячейки, где зарезервирован товар.
+ * Повторно не создает, если открытая задача подбора уже есть.
+ */
+export async function createPickingTasks(tx: TransactionClient, orderId: string) {
+  const openTask = await tx.warehouseTask.findFirst({
+    where: { orderId, type: 'PICKING', status: { in: ['NEW', 'IN_PROGRESS'] } }
+  });
+  if (openTask) return [];
+
+  // Orders may skip PROCESSING, so make sure stock is reserved
+  await reserveOrderStock(tx, orderId);
+
+  const reservations = await tx.stockReservation.findMany({
+    where: { orderId },
+    include: {
+      orderItem: { select: { sku: true, name: true } },
+      productStock: {
+        select: {
+          productId: true,
+          storageLocationId: true,
+          storageLocation: { select: { warehouseId: true } }
+        }
+      }
+    },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  const byWarehouse = new Map<string, typeof reservations>();
+  for (const reservation of reservations) {
+    const warehouseId = reservation.productStock.storageLocation.warehouseId;
+    if (!byWarehouse.has(warehouseId)) byWarehouse.set(warehouseId, []);
+    byWarehouse.get(warehouseId)!.push(reservation);
+  }
+
+  const order = await tx.order.findUnique({ where: { id: orderId }, select: { orderNumber: true } });
+  const tasks = [];
+
+  for (const [warehouseId, items] of byWarehouse) {
+    const task = await tx.warehouseTask.create({
+      data: {
+        taskNumber: await generateTaskNumber(tx),
+        warehouseId,
+        orderId,
+        type: 'PICKING',
+        notes: `Подбор по заказу ${order?.orderNumber || ''}`.trim(),
+        taskItems: {
+          create: items.map(r => ({
+            productId: r.productStock.productId,
+            expectedQty: r.quantity,
+            fromLocationId: r.productStock.storageLocationId,
+            notes: `${r.orderItem.sku} ${r.orderItem.name}`.trim()
+          }))
+        }
+      },
+      include: { taskItems: true }
+    });
+    tasks.push(task);
+  }
+
+  return tasks;
+}
+
+/**
+ * Создает задачу на отгрузку заказа со склада подбора
+ */
+export async function createShippingTask(tx: TransactionClient, orderId: string, warehouseId: string) {
+  const openTask = await tx.warehouseTask.findFirst({
+    where: { orderId, type: 'SHIPPING', status: { in: ['NEW', 'IN_PROGRESS'] } }
+  });
+  if (openTask) return openTask;
+
+  const order = await tx.order.findUnique({ where: { id: orderId }, select: { orderNumber: true } });
+
+  return tx.warehouseTask.create({
+    data: {
+      taskNumber: await generateTaskNumber(tx),
+      warehouseId,
+      orderId,
+      type: 'SHIPPING',
+      notes: `Отгрузка заказа ${order?.orderNumber || ''}`.trim()
+    }
+  });
+}
+
+/**
+ * Продвигает заказ по завершении складской задачи:
+ * все задачи подбора выполнены → PACKED и задача на отгрузку,
+ * отгрузка выполнена → SHIPPED и проводка списания себестоимости (90.2 / 41).
+ */
+export async function advanceOrderOnTaskCompleted(
+  tx: TransactionClient,
+  taskId: string,
+  userId?: string
+) {
+  const task = await tx.warehouseTask.findUnique({ where: { id: taskId } });
+  if (!task?.orderId || task.status !== 'COMPLETED') return null;
+
+  const order = await tx.order.findUnique({
+    where: { id: task.orderId },
+    include: { items: { include: { product: { select: { unitCost: true } } } } }
+  });
+  if (!order) return null;
+
+  if (task.type === 'PICKING' && order.status === 'PICKING') {
+    const pendingPicking = await tx.warehouseTask.count({
+      where: { orderId: order.id, type: 'PICKING', status: { in: ['NEW', 'IN_PROGRESS'] } }
+    });
+    if (pendingPicking > 0) return null;
+
+    await tx.order.update({ where: { id: order.id }, data: { status: 'PACKED' } });
+    await recordStatusChange(tx, {
+      orderId: order.id,
+      fromStatus: order.status,
+      toStatus: 'PACKED',
+      changedById: userId,
+      comment: `Подбор завершен (задача ${task.taskNumber})`
+    });
+    await createShippingTask(tx, order.id, task.warehouseId);
+    return 'PACKED';
+  }
+
+  if (task.type === 'SHIPPING' && order.status === 'PACKED') {
+    await tx.order.update({
+      where: { id: order.id },
+      data: { status: 'SHIPPED', ...statusDates('SHIPPED') }
+    });
+    await recordStatusChange(tx, {
+      orderId: order.id,
+      fromStatus: order.status,
+      toStatus: 'SHIPPED',
+      changedById: userId,
+      comment: `Отгрузка выполнена (задача ${task.taskNumber})`
+    });
+
+    // Cost of shipped catalog goods
+    const goodsCost = order.items
+      .filter(item => item.product)
+      .reduce((sum, item) => sum + Number(item.unitCost || item.product!.unitCost) * item.quantity, 0);
+
+    if (goodsCost > 0) {
+      await createShippingCostEntry(
+        tx,
+        goodsCost,
+        `Отгрузка заказа ${order.orderNumber} (задача ${task.taskNumber})`,
+        order.id
+      );
+    }
+    return 'SHIPPED';
+  }
+
+  return null;
+}
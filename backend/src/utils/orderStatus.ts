@@ -0,0 +1,85 @@
+import { PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+
+// Helper type for transaction client
+type TransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+export const ORDER_STATUSES = [
+  'NEW', 'PROCESSING', 'PICKING', 'PACKED',
+  'SHIPPED', 'DELIVERED', 'COMPLETED', 'CANCELLED', 'RETURNED',
+];
+
+const MANAGERS = ['ADMIN', 'MANAGER'];
+const WAREHOUSE_STAFF = ['ADMIN', 'MANAGER', 'WAREHOUSE'];
+
+// Граф переходов: текущий статус → допустимый статус → роли, которым разрешен переход
+export const ORDER_STATUS_TRANSITIONS: Record<string, Record<string, string[]>> = {
+  NEW: { PROCESSING: MANAGERS, CANCELLED: MANAGERS },
+  PROCESSING: { PICKING: WAREHOUSE_STAFF, CANCELLED: MANAGERS },
+  PICKING: { PACKED: WAREHOUSE_STAFF, CANCELLED: MANAGERS },
+  PACKED: { SHIPPED: WAREHOUSE_STAFF, CANCELLED: ['ADMIN'] },
+  SHIPPED: { DELIVERED: MANAGERS, RETURNED: MANAGERS },
+  DELIVERED: { COMPLETED: MANAGERS, RETURNED: MANAGERS },
+  COMPLETED: { RETURNED: ['ADMIN'] },
+  CANCELLED: {},
+  RETURNED: {},
+};
+
+/**
+ * Недопустимый переход статуса заказа (400 — нет перехода, 403 — нет прав)
+ */
+export class OrderTransitionError extends AppError {}
+
+/**
+ * Статусы, в которые пользователь с ролью может перевести заказ
+ */
+export function getAllowedTransitions(fromStatus: string, role: string) {
+  const transitions = ORDER_STATUS_TRANSITIONS[fromStatus] || {};
+  return Object.keys(transitions).filter(status => transitions[status].includes(role));
+}
+
+/**
+ * Проверяет переход по графу статусов и правам роли
+ */
+export function assertTransition(fromStatus: string, toStatus: string, role: string) {
+  const roles = ORDER_STATUS_TRANSITIONS[fromStatus]?.[toStatus];
+  if (!roles) {
+    throw new OrderTransitionError(`Недопустимый переход статуса: ${fromStatus} → ${toStatus}`, 400);
+  }
+  if (!roles.includes(role)) {
+    throw new OrderTransitionError(`Недостаточно прав для перехода ${fromStatus} → ${toStatus}`, 403);
+  }
+}
+
+/**
+ * Даты заказа, которые проставляются при смене статуса
+ */
+export function statusDates(status: string) {
+  if (status === 'SHIPPED') return { shippedDate: new Date() };
+  if (status === 'DELIVERED' || status === 'COMPLETED') return { deliveredDate: new Date() };
+  return {};
+}
+
+/**
+ * Записывает смену статуса в историю заказа
+ */
+export async function recordStatusChange(
+  tx: TransactionClient,
+  params: {
+    orderId: string;
+    fromStatus: string | null;
+    toStatus: string;
+    changedById?: string | null;
+    comment?: string | null;
+  }
+) {
+  return tx.orderStatusHistory.create({
+    data: {
+      orderId: params.orderId,
+      fromStatus: params.fromStatus,
+      toStatus: params.toStatus,
+      changedById: params.changedById || null,
+      comment: params.comment || null,
+    },
+  });
+}
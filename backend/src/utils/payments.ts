@@ -0,0 +1,262 @@
+import { PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+import { createPaymentEntry, createPaymentReversalEntry } from './financeHelpers';
+
+// Helper type for transaction client
+type TransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+export const PAYMENT_METHODS = ['BANK_TRANSFER', 'CASH', 'CARD', 'ONLINE'];
+
+export interface AllocationInput {
+  incomeOperationId: string;
+  amount: number;
+}
+
+export interface ReceivePaymentInput {
+  clientId: string;
+  amount: number;
+  paymentDate?: Date;
+  paymentMethod?: string;
+  reference?: string;
+  description?: string;
+  allocations?: AllocationInput[];
+  autoAllocate?: boolean; // разнести на самые старые открытые счета
+}
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Генерирует номер платежа в формате PAY-YYYYMMDD-NNNN
+ */
+export async function generatePaymentNumber(tx: TransactionClient): Promise<string> {
+  const today = new Date();
+  const prefix = `PAY-${today.getFullYear()}${String(today.getMonth() + 1).padStart(2, '0')}${String(today.getDate()).padStart(2, '0')}`;
+
+  const last = await tx.payment.findFirst({
+    where: { paymentNumber: { startsWith: prefix } },
+    orderBy: { paymentNumber: 'desc' },
+  });
+
+  let seq = 1;
+  if (last) {
+    seq = parseInt(last.paymentNumber.split('-').pop() || '0') + 1;
+  }
+
+  return `${prefix}-${String(seq).padStart(4, '0')}`;
+}
+
+/**
+ * Неоплаченные счета клиента, самые старые первыми
+ */
+export async function getOpenInvoices(tx: TransactionClient, clientId: string) {
+  const operations = await tx.incomeOperation.findMany({
+    where: { clientId, invoiceAmount: { gt: 0 } },
+    include: { order: { select: { id: true, orderNumber: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return operations
+    .map(op => ({
+      ...op,
+      openAmount: round2(op.invoiceAmount.toNumber() - op.paidAmount.toNumber()),
+    }))
+    .filter(op => op.openAmount > 0.005);
+}
+
+/**
+ * Зачитывает сумму в оплату приходной операции. Выручка заказа — сумма счетов,
+ * оплата ее не меняет
+ */
+async function applyToOperation(
+  tx: TransactionClient,
+  incomeOperationId: string,
+  amount: number,
+  payment: { paymentDate: Date; paymentMethod: string }
+) {
+  await tx.incomeOperation.update({
+    where: { id: incomeOperationId },
+    data: {
+      paidAmount: { increment: amount },
+      paymentDate: payment.paymentDate,
+      paymentMethod: payment.paymentMethod,
+    },
+  });
+}
+
+/**
+ * Разносит свободный остаток платежа по счетам клиента.
+ * Без явного списка — на самые старые открытые счета; нераспределенный остаток
+ * остается авансом (кредитом) клиента.
+ */
+export async function allocatePayment(
+  tx: TransactionClient,
+  paymentId: string,
+  allocations: AllocationInput[] | undefined,
+  userId?: string
+) {
+  const payment = await tx.payment.findUnique({ where: { id: paymentId } });
+  if (!payment) {
+    throw new AppError('Платеж не найден', 404);
+  }
+  if (payment.status !== 'ACTIVE') {
+    throw new AppError('Платеж аннулирован', 400);
+  }
+
+  let available = round2(payment.amount.toNumber() - payment.allocatedAmount.toNumber());
+  if (available <= 0) {
+    throw new AppError('Платеж уже полностью разнесен', 400);
+  }
+
+  const openInvoices = await getOpenInvoices(tx, payment.clientId);
+  const plan: Array<{ invoice: (typeof openInvoices)[number]; amount: number }> = [];
+
+  if (allocations && allocations.length > 0) {
+    for (const allocation of allocations) {
+      const invoice = openInvoices.find(op => op.id === allocation.incomeOperationId);
+      if (!invoice) {
+        throw new AppError('Счет не найден, уже оплачен или принадлежит другому клиенту', 400);
+      }
+      const amount = round2(Number(allocation.amount));
+      if (!(amount > 0)) {
+        throw new AppError('Сумма разнесения должна быть больше 0', 400);
+      }
+      if (amount > invoice.openAmount + 0.005) {
+        throw new AppError(`${invoice.order.orderNumber}: сумма превышает остаток к оплате (${invoice.openAmount})`, 400);
+      }
+      if (amount > available + 0.005) {
+        throw new AppError('Сумма разнесения превышает свободный остаток платежа', 400);
+      }
+      invoice.openAmount = round2(invoice.openAmount - amount);
+      available = round2(available - amount);
+      plan.push({ invoice, amount });
+    }
+  } else {
+    for (const invoice of openInvoices) {
+      if (available <= 0) break;
+      const amount = Math.min(invoice.openAmount, available);
+      available = round2(available - amount);
+      plan.push({ invoice, amount });
+    }
+  }
+
+  const created = [];
+  for (const { invoice, amount } of plan) {
+    created.push(
+      await tx.paymentAllocation.create({
+        data: {
+          paymentId,
+          incomeOperationId: invoice.id,
+          amount,
+          createdById: userId,
+        },
+      })
+    );
+    await applyToOperation(tx, invoice.id, amount, payment);
+  }
+
+  const allocated = round2(plan.reduce((sum, p) => sum + p.amount, 0));
+  if (allocated > 0) {
+    await tx.payment.update({
+      where: { id: paymentId },
+      data: { allocatedAmount: { increment: allocated } },
+    });
+  }
+
+  return created;
+}
+
+/**
+ * Отменяет разнесение: сумма возвращается в свободный остаток платежа
+ */
+export async function unallocatePayment(tx: TransactionClient, allocationId: string) {
+  const allocation = await tx.paymentAllocation.findUnique({ where: { id: allocationId } });
+  if (!allocation) {
+    throw new AppError('Разнесение не найдено', 404);
+  }
+
+  const amount = allocation.amount.toNumber();
+
+  await tx.incomeOperation.update({
+    where: { id: allocation.incomeOperationId },
+    data: { paidAmount: { decrement: amount } },
+  });
+  await tx.payment.update({
+    where: { id: allocation.paymentId },
+    data: { allocatedAmount: { decrement: amount } },
+  });
+  await tx.paymentAllocation.delete({ where: { id: allocationId } });
+
+  return allocation;
+}
+
+/**
+ * Регистрирует поступление от клиента: платеж, проводка Дт 51 Кт 62 и разнесение
+ */
+export async function receivePayment(tx: TransactionClient, input: ReceivePaymentInput, userId?: string) {
+  const paymentMethod = input.paymentMethod || 'BANK_TRANSFER';
+
+  const payment = await tx.payment.create({
+    data: {
+      paymentNumber: await generatePaymentNumber(tx),
+      clientId: input.clientId,
+      amount: round2(input.amount),
+      paymentDate: input.paymentDate || new Date(),
+      paymentMethod,
+      reference: input.reference,
+      description: input.description,
+      createdById: userId,
+    },
+  });
+
+  await createPaymentEntry(
+    tx,
+    payment.amount.toNumber(),
+    `Оплата от клиента ${payment.paymentNumber}${payment.reference ? ` (п/п ${payment.reference})` : ''}`,
+    payment.id,
+    paymentMethod,
+    payment.paymentDate
+  );
+
+  if (input.allocations?.length || input.autoAllocate) {
+    await allocatePayment(tx, payment.id, input.allocations, userId);
+  }
+
+  return payment;
+}
+
+/**
+ * Аннулирует платеж: снимает все разнесения и сторнирует проводку
+ */
+export async function cancelPayment(tx: TransactionClient, paymentId: string) {
+  const payment = await tx.payment.findUnique({
+    where: { id: paymentId },
+    include: { allocations: { select: { id: true } } },
+  });
+  if (!payment) {
+    throw new AppError('Платеж не найден', 404);
+  }
+  if (payment.status !== 'ACTIVE') {
+    throw new AppError('Платеж уже аннулирован', 400);
+  }
+
+  for (const allocation of payment.allocations) {
+    await unallocatePayment(tx, allocation.id);
+  }
+
+  const cancelledAt = new Date();
+  await createPaymentReversalEntry(
+    tx,
+    payment.amount.toNumber(),
+    `Сторно оплаты ${payment.paymentNumber}`,
+    payment.id,
+    payment.paymentMethod,
+    cancelledAt
+  );
+
+  return tx.payment.update({
+    where: { id: paymentId },
+    data: { status: 'CANCELLED', cancelledAt },
+  });
+}
@@ -0,0 +1,95 @@
+import fs from 'fs';
+import PDFDocument from 'pdfkit';
+
+// Стандартные шрифты PDF не содержат кириллицы — нужен TTF с кириллицей
+const FONT_CANDIDATES = [
+  '/usr/share/fonts/dejavu/DejaVuSans.ttf', // alpine: font-dejavu
+  '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf', // debian: fonts-dejavu-core
+];
+
+export interface PdfColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'right' | 'center';
+}
+
+function resolveFont(): { regular: string; bold: string } | null {
+  const regular = process.env.PDF_FONT_PATH || FONT_CANDIDATES.find(path => fs.existsSync(path));
+  if (!regular || !fs.existsSync(regular)) {
+    return null;
+  }
+
+  const bold = process.env.PDF_FONT_BOLD_PATH || regular.replace(/\.ttf$/, '-Bold.ttf');
+  return { regular, bold: fs.existsSync(bold) ? bold : regular };
+}
+
+/**
+ * Создает PDF-документ A4 с зарегистрированными шрифтами "regular" и "bold".
+ * Путь к шрифту задается PDF_FONT_PATH, иначе ищется DejaVu Sans в системе.
+ */
+export function createPdfDocument(options: PDFKit.PDFDocumentOptions = {}) {
+  const doc = new PDFDocument({ size: 'A4', margin: 40, ...options });
+  const font = resolveFont();
+
+  if (font) {
+    doc.registerFont('regular', font.regular);
+    doc.registerFont('bold', font.bold);
+  } else {
+    console.warn('Cyrillic TTF font not found (set PDF_FONT_PATH), falling back to Helvetica');
+    doc.registerFont('regular', 'Helvetica');
+    doc.registerFont('bold', 'Helvetica-Bold');
+  }
+
+  doc.font('regular');
+  return doc;
+}
+
+/**
+ * Рисует таблицу с заголовком; при нехватке места переносит строки на новую страницу
+ */
+export function drawTable(doc: PDFKit.PDFDocument, columns: PdfColumn[], rows: Array<Array<string | number>>) {
+  const left = doc.page.margins.left;
+  const rowHeight = 18;
+
+  const drawRow = (cells: Array<string | number>, font: 'regular' | 'bold') => {
+    if (doc.y + rowHeight > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+    }
+    const y = doc.y;
+    let x = left;
+    doc.font(font).fontSize(8);
+    columns.forEach((column, i) => {
+      doc.text(String(cells[i] ?? ''), x + 2, y + 4, {
+        width: column.width - 4,
+        align: column.align || 'left',
+        lineBreak: false,
+        ellipsis: true,
+      });
+      x += column.width;
+    });
+    doc
+      .moveTo(left, y + rowHeight)
+      .lineTo(x, y + rowHeight)
+      .strokeColor('#cccccc')
+      .stroke();
+    doc.x = left;
+    doc.y = y + rowHeight;
+  };
+
+  drawRow(columns.map(c => c.header), 'bold');
+  rows.forEach(row => drawRow(row, 'regular'));
+  doc.font('regular').fontSize(10);
+}
+
+/**
+ * Завершает документ и возвращает его содержимое
+ */
+export function renderPdf(doc: PDFKit.PDFDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+    doc.end();
+  });
+}
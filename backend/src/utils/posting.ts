@@ -0,0 +1,353 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+import { assertPeriodOpen, getTurnovers, toNaturalBalance } from './ledger';
+
+// Helper type for transaction client
+type TransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+export const JOURNAL_ENTRY_SOURCES = [
+  'MANUAL',
+  'RECEIVING',
+  'SHIPPING',
+  'RETURN',
+  'WRITE_OFF',
+  'INVENTORY',
+  'PAYMENT',
+  'VENDOR_PAYMENT',
+  'ORDER_REVENUE',
+  'OUTPUT_VAT',
+  'VENDOR_CHARGE',
+  'ORDER_EXPENSE',
+  'INPUT_VAT',
+  'REVERSAL',
+  'LEGACY',
+];
+
+export interface JournalLineInput {
+  accountId?: string;
+  accountCode?: string;
+  debit?: number;
+  credit?: number;
+}
+
+// Ссылки на документы-основания, проставляются на все проводки операции
+export interface PostingLinks {
+  costOperationId?: string;
+  incomeOperationId?: string;
+  paymentId?: string;
+  orderExpenseId?: string;
+}
+
+export interface JournalEntryInput extends PostingLinks {
+  lines: JournalLineInput[];
+  description?: string;
+  entryDate?: Date;
+  source?: string;
+  createdById?: string;
+  // Для автоматических проводок: при отсутствии счета в плане счетов операция пропускается
+  skipMissingAccounts?: boolean;
+}
+
+const entryInclude = {
+  transactions: {
+    include: {
+      debitAccount: { select: { code: true, name: true } },
+      creditAccount: { select: { code: true, name: true } },
+    },
+  },
+} satisfies Prisma.JournalEntryInclude;
+
+function toCents(value: number) {
+  return Math.round(value * 100);
+}
+
+/**
+ * Генерация номера операции JE-YYYYMMDD-NNNN
+ */
+export async function generateEntryNumber(tx: TransactionClient): Promise<string> {
+  const today = new Date();
+  const prefix = `JE-${today.getFullYear()}${String(today.getMonth() + 1).padStart(2, '0')}${String(today.getDate()).padStart(2, '0')}`;
+
+  const last = await tx.journalEntry.findFirst({
+    where: { entryNumber: { startsWith: prefix } },
+    orderBy: { entryNumber: 'desc' },
+  });
+
+  let seq = 1;
+  if (last) {
+    seq = parseInt(last.entryNumber.split('-').pop() || '0') + 1;
+  }
+
+  return `${prefix}-${String(seq).padStart(4, '0')}`;
+}
+
+/**
+ * Изменение остатка счета (в знаке счета) от дебета или кредита суммы
+ */
+export function balanceEffect(type: string, debit: number, credit: number) {
+  return toNaturalBalance(type, debit - credit);
+}
+
+/**
+ * Разбивает сложную операцию на пары дебет/кредит: дебетовые строки
+ * гасятся кредитовыми по порядку (суммы в копейках)
+ */
+export function splitIntoPairs(
+  debits: { accountId: string; cents: number }[],
+  credits: { accountId: string; cents: number }[]
+) {
+  const pairs: { debitAccountId: string; creditAccountId: string; cents: number }[] = [];
+  const remaining = credits.map(c => ({ ...c }));
+  let ci = 0;
+
+  for (const debit of debits) {
+    let left = debit.cents;
+    while (left > 0 && ci < remaining.length) {
+      const credit = remaining[ci];
+      const cents = Math.min(left, credit.cents);
+      if (debit.accountId !== credit.accountId) {
+        pairs.push({ debitAccountId: debit.accountId, creditAccountId: credit.accountId, cents });
+      }
+      left -= cents;
+      credit.cents -= cents;
+      if (credit.cents === 0) ci++;
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Проводит хозяйственную операцию: проверяет баланс строк и открытость периода,
+ * создает проводки и меняет остатки счетов по их типу
+ */
+export async function postJournalEntry(tx: TransactionClient, input: JournalEntryInput) {
+  if (input.lines.length < 2) {
+    throw new AppError('Операция должна содержать минимум две строки', 400);
+  }
+
+  // Resolve accounts by id or code
+  const ids = input.lines.filter(l => l.accountId).map(l => l.accountId as string);
+  const codes = input.lines.filter(l => !l.accountId && l.accountCode).map(l => l.accountCode as string);
+  const accounts = await tx.account.findMany({
+    where: { OR: [{ id: { in: ids } }, { code: { in: codes } }] },
+  });
+
+  const lines: { accountId: string; debit: number; credit: number }[] = [];
+  for (const line of input.lines) {
+    const account = accounts.find(a => (line.accountId ? a.id === line.accountId : a.code === line.accountCode));
+    if (!account) {
+      if (input.skipMissingAccounts) {
+        console.warn(`Account ${line.accountCode || line.accountId} not found, skipping financial entry`);
+        return null;
+      }
+      throw new AppError(`Счет ${line.accountCode || line.accountId} не найден`, 404);
+    }
+
+    const debit = toCents(line.debit || 0);
+    const credit = toCents(line.credit || 0);
+    if (debit < 0 || credit < 0 || (debit > 0) === (credit > 0)) {
+      throw new AppError(`Строка по счету ${account.code} должна содержать положительную сумму только по дебету или только по кредиту`, 400);
+    }
+    lines.push({ accountId: account.id, debit, credit });
+  }
+
+  const debitTotal = lines.reduce((sum, l) => sum + l.debit, 0);
+  const creditTotal = lines.reduce((sum, l) => sum + l.credit, 0);
+  if (debitTotal !== creditTotal) {
+    throw new AppError(
+      `Операция не сбалансирована: дебет ${(debitTotal / 100).toFixed(2)}, кредит ${(creditTotal / 100).toFixed(2)}`,
+      400
+    );
+  }
+
+  const pairs = splitIntoPairs(
+    lines.filter(l => l.debit > 0).map(l => ({ accountId: l.accountId, cents: l.debit })),
+    lines.filter(l => l.credit > 0).map(l => ({ accountId: l.accountId, cents: l.credit }))
+  );
+  if (pairs.length === 0) {
+    throw new AppError('Дебетовый и кредитовый счета должны быть разными', 400);
+  }
+
+  const entryDate = input.entryDate || new Date();
+  await assertPeriodOpen(tx, entryDate);
+
+  const entry = await tx.journalEntry.create({
+    data: {
+      entryNumber: await generateEntryNumber(tx),
+      entryDate,
+      description: input.description,
+      source: input.source || 'MANUAL',
+      createdById: input.createdById,
+    },
+  });
+
+  await tx.finTransaction.createMany({
+    data: pairs.map(pair => ({
+      entryId: entry.id,
+      debitAccountId: pair.debitAccountId,
+      creditAccountId: pair.creditAccountId,
+      amount: new Prisma.Decimal(pair.cents).div(100),
+      description: input.description,
+      transactionDate: entryDate,
+      costOperationId: input.costOperationId,
+      incomeOperationId: input.incomeOperationId,
+      paymentId: input.paymentId,
+      orderExpenseId: input.orderExpenseId,
+    })),
+  });
+
+  await applyBalanceEffects(tx, pairs.map(pair => ({
+    debitAccountId: pair.debitAccountId,
+    creditAccountId: pair.creditAccountId,
+    amount: pair.cents / 100,
+  })));
+
+  return tx.journalEntry.findUniqueOrThrow({ where: { id: entry.id }, include: entryInclude });
+}
+
+/**
+ * Простая проводка Дт/Кт на одну сумму. Возвращает созданную проводку
+ */
+export async function postEntry(
+  tx: TransactionClient,
+  input: PostingLinks & {
+    debit: { accountId?: string; accountCode?: string };
+    credit: { accountId?: string; accountCode?: string };
+    amount: number;
+    description?: string;
+    entryDate?: Date;
+    source?: string;
+    createdById?: string;
+    skipMissingAccounts?: boolean;
+  }
+) {
+  const { debit, credit, amount, ...rest } = input;
+  const entry = await postJournalEntry(tx, {
+    ...rest,
+    lines: [
+      { ...debit, debit: amount },
+      { ...credit, credit: amount },
+    ],
+  });
+  return entry ? entry.transactions[0] : null;
+}
+
+/**
+ * Сторно операции: обратные проводки текущей датой. Операцию закрытого периода
+ * сторнировать нельзя — исправление оформляется новой операцией
+ */
+export async function reverseJournalEntry(
+  tx: TransactionClient,
+  entryId: string,
+  options: { description?: string; createdById?: string } = {}
+) {
+  const original = await tx.journalEntry.findUnique({
+    where: { id: entryId },
+    include: { transactions: true, reversedBy: true },
+  });
+
+  if (!original) {
+    throw new AppError('Операция не найдена', 404);
+  }
+  if (original.reversedBy) {
+    throw new AppError(`Операция уже сторнирована (${original.reversedBy.entryNumber})`, 400);
+  }
+  if (original.reversalOfId) {
+    throw new AppError('Сторнирующую операцию нельзя сторнировать', 400);
+  }
+
+  await assertPeriodOpen(tx, original.entryDate);
+
+  const entryDate = new Date();
+  await assertPeriodOpen(tx, entryDate);
+
+  const description = options.description || `Сторно операции ${original.entryNumber}`;
+  const entry = await tx.journalEntry.create({
+    data: {
+      entryNumber: await generateEntryNumber(tx),
+      entryDate,
+      description,
+      source: 'REVERSAL',
+      reversalOfId: original.id,
+      createdById: options.createdById,
+    },
+  });
+
+  const reversed = original.transactions.map(t => ({
+    debitAccountId: t.creditAccountId,
+    creditAccountId: t.debitAccountId,
+    amount: t.amount,
+  }));
+
+  await tx.finTransaction.createMany({
+    data: reversed.map(t => ({
+      ...t,
+      entryId: entry.id,
+      description,
+      transactionDate: entryDate,
+    })),
+  });
+
+  await applyBalanceEffects(tx, reversed.map(t => ({ ...t, amount: t.amount.toNumber() })));
+
+  return tx.journalEntry.findUniqueOrThrow({ where: { id: entry.id }, include: entryInclude });
+}
+
+/**
+ * Применяет проводки к остаткам счетов: одно обновление на счет
+ */
+async function applyBalanceEffects(
+  tx: TransactionClient,
+  postings: { debitAccountId: string; creditAccountId: string; amount: number }[]
+) {
+  const accountIds = [...new Set(postings.flatMap(p => [p.debitAccountId, p.creditAccountId]))];
+  const accounts = await tx.account.findMany({ where: { id: { in: accountIds } }, select: { id: true, type: true } });
+
+  for (const account of accounts) {
+    const debit = postings.filter(p => p.debitAccountId === account.id).reduce((sum, p) => sum + p.amount, 0);
+    const credit = postings.filter(p => p.creditAccountId === account.id).reduce((sum, p) => sum + p.amount, 0);
+    const delta = balanceEffect(account.type, debit, credit);
+    if (delta === 0) continue;
+
+    await tx.account.update({
+      where: { id: account.id },
+      data: { balance: { increment: delta } },
+    });
+  }
+}
+
+/**
+ * Сверка остатков счетов с журналом проводок: остаток пересчитывается
+ * по всем проводкам и сравнивается с сохраненным Account.balance
+ */
+export async function verifyAccountBalances(tx: TransactionClient) {
+  const [accounts, turnovers] = await Promise.all([
+    tx.account.findMany({ orderBy: { code: 'asc' } }),
+    getTurnovers(tx, {}),
+  ]);
+
+  const rows = accounts.map(account => {
+    const turnover = turnovers.get(account.id) || { debit: 0, credit: 0 };
+    const ledgerBalance = balanceEffect(account.type, turnover.debit, turnover.credit);
+    const storedBalance = account.balance.toNumber();
+    return {
+      accountId: account.id,
+      code: account.code,
+      name: account.name,
+      type: account.type,
+      storedBalance,
+      ledgerBalance,
+      difference: Math.round((storedBalance - ledgerBalance) * 100) / 100,
+    };
+  });
+
+  const mismatches = rows.filter(row => row.difference !== 0);
+
+  return {
+    ok: mismatches.length === 0,
+    checkedAt: new Date(),
+    accounts: rows.length,
+    mismatches,
+  };
+}
@@ -0,0 +1,304 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { BASE_CURRENCY, convertPrice, getExchangeRate } from './currency';
+
+// Helper type for transaction client
+type TransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+type ServiceWithRules = Prisma.VendorServiceGetPayload<{
+  include: { vendor: { select: { id: true; name: true } }; priceTiers: true };
+}>;
+
+export const PRICING_BASES = ['ITEMS', 'WEIGHT', 'VOLUME', 'PALLETS', 'BOXES'];
+
+const BASIS_LABELS: Record<string, string> = {
+  ITEMS: 'кол-во товаров',
+  WEIGHT: 'вес, кг',
+  VOLUME: 'объем, м³',
+  PALLETS: 'палеты',
+  BOXES: 'коробы',
+};
+
+// Типы услуг, которые применяются к каждому заказу без флага autoApply.
+// Доставка за заказ — только с весовым диапазоном или складом назначения,
+// упаковка — только за заказ. Каждый тип оказывает один поставщик
+const ORDER_SERVICE_TYPES = ['PICKING', 'PACKING', 'SHIPPING'];
+
+export interface PricingOrderInput {
+  items: Array<{ weight: number; volume: number; quantity: number; category?: string | null }>;
+  destination?: string | null;
+  palletCount?: number;
+  boxCount?: number;
+}
+
+export interface OrderMetrics {
+  ITEMS: number;
+  WEIGHT: number;
+  VOLUME: number;
+  PALLETS: number;
+  BOXES: number;
+}
+
+export interface RuleEvaluation {
+  vendorId: string;
+  vendorName: string;
+  vendorServiceId: string;
+  serviceName: string;
+  serviceType: string;
+  unit: string;
+  currency: string; // цены и сумма — в валюте услуги
+  autoApply: boolean;
+  applicable: boolean;
+  quantity: number;
+  basePrice: number;
+  unitPrice: number;
+  calculatedAmount: number;
+  description: string;
+  explanation: string[]; // почему услуга применена / пропущена
+}
+
+const sameText = (a?: string | null, b?: string | null) =>
+  (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Считает показатели заказа (опционально только по товарам одной категории)
+ */
+export function getOrderMetrics(order: PricingOrderInput, category?: string | null): OrderMetrics {
+  const items = category
+    ? order.items.filter(item => sameText(item.category, category))
+    : order.items;
+
+  return {
+    ITEMS: items.reduce((sum, item) => sum + item.quantity, 0),
+    WEIGHT: items.reduce((sum, item) => sum + item.weight * item.quantity, 0),
+    VOLUME: items.reduce((sum, item) => sum + item.volume * item.quantity, 0),
+    PALLETS: order.palletCount || 0,
+    BOXES: order.boxCount || 0,
+  };
+}
+
+/**
+ * Количество единиц услуги по единице измерения.
+ * null — услуга не тарифицируется по заказу (хранение по дням/месяцам).
+ */
+function getChargeQuantity(unit: string, metrics: OrderMetrics): number | null {
+  switch (unit) {
+    case 'ORDER': return 1;
+    case 'PIECE': return metrics.ITEMS;
+    case 'KG': return metrics.WEIGHT;
+    case 'CUBIC_METER': return metrics.VOLUME;
+    case 'PALLET': return metrics.PALLETS;
+    case 'BOX': return metrics.BOXES;
+    default: return null;
+  }
+}
+
+/**
+ * Ступень скидки: берется ступень с наибольшим порогом, не превышающим количество
+ */
+function applyPriceTier(service: ServiceWithRules, quantity: number, basePrice: number) {
+  const tier = [...service.priceTiers]
+    .sort((a, b) => Number(b.fromQuantity) - Number(a.fromQuantity))
+    .find(t => quantity >= Number(t.fromQuantity));
+
+  if (!tier) return { unitPrice: basePrice, note: null };
+
+  if (tier.price !== null) {
+    return {
+      unitPrice: Number(tier.price),
+      note: `ступень от ${Number(tier.fromQuantity)}: цена ${Number(tier.price)}`,
+    };
+  }
+
+  const discount = Number(tier.discountPercent || 0);
+  return {
+    unitPrice: round(basePrice * (1 - discount / 100)),
+    note: `ступень от ${Number(tier.fromQuantity)}: скидка ${discount}%`,
+  };
+}
+
+/**
+ * Проверяет правило тарификации услуги для заказа.
+ * Диапазон min/max: нижняя граница не включается, верхняя включается (1-5 кг = больше 1 и до 5 включительно).
+ */
+export function evaluateServiceRule(service: ServiceWithRules, order: PricingOrderInput): RuleEvaluation {
+  const basePrice = Number(service.price);
+  const result: RuleEvaluation = {
+    vendorId: service.vendorId,
+    vendorName: service.vendor.name,
+    vendorServiceId: service.id,
+    serviceName: service.name,
+    serviceType: service.type,
+    unit: service.unit,
+    currency: service.currency,
+    autoApply: service.autoApply,
+    applicable: false,
+    quantity: 0,
+    basePrice,
+    unitPrice: basePrice,
+    calculatedAmount: 0,
+    description: `${service.vendor.name}: ${service.name}`,
+    explanation: [],
+  };
+  const skip = (reason: string) => {
+    result.explanation.push(reason);
+    return result;
+  };
+
+  if (!ORDER_SERVICE_TYPES.includes(service.type) && !service.autoApply) {
+    return skip(`тип ${service.type} не применяется к заказу автоматически`);
+  }
+
+  const min = service.minQuantity !== null ? Number(service.minQuantity) : null;
+  const max = service.maxQuantity !== null ? Number(service.maxQuantity) : null;
+
+  // Доставка за заказ без условий — один из тарифов перевозчика, а не обязательная услуга
+  if (service.type === 'SHIPPING' && service.unit === 'ORDER' && !service.autoApply
+    && min === null && max === null && !service.destination) {
+    return skip('доставка за заказ без весового диапазона и склада назначения применяется только с флагом autoApply');
+  }
+
+  if (service.type === 'PACKING' && service.unit !== 'ORDER' && !service.autoApply) {
+    return skip(`упаковка тарифицируется за заказ; единица ${service.unit} — только с флагом autoApply`);
+  }
+
+  if (service.destination) {
+    if (!sameText(service.destination, order.destination)) {
+      return skip(`склад назначения "${order.destination || '—'}" не совпадает с "${service.destination}"`);
+    }
+    result.explanation.push(`склад назначения: ${service.destination}`);
+  }
+
+  const metrics = getOrderMetrics(order, service.productCategory);
+  if (service.productCategory) {
+    if (metrics.ITEMS === 0) {
+      return skip(`в заказе нет товаров категории "${service.productCategory}"`);
+    }
+    result.explanation.push(`категория товаров: ${service.productCategory}`);
+  }
+
+  const chargeQuantity = getChargeQuantity(service.unit, metrics);
+  if (chargeQuantity === null) {
+    return skip(`единица ${service.unit} не тарифицируется по заказу`);
+  }
+
+  if (min !== null || max !== null) {
+    const basis = service.pricingBasis && PRICING_BASES.includes(service.pricingBasis)
+      ? service.pricingBasis
+      : null;
+    const value = basis ? metrics[basis as keyof OrderMetrics] : chargeQuantity;
+    const label = basis ? BASIS_LABELS[basis] : 'количество';
+    const range = `${min !== null ? `>${min}` : ''}${min !== null && max !== null ? ' и ' : ''}${max !== null ? `≤${max}` : ''}`;
+
+    if ((min !== null && value <= min) || (max !== null && value > max)) {
+      return skip(`${label} = ${round(value)} вне диапазона ${range}`);
+    }
+    result.explanation.push(`${label} = ${round(value)} в диапазоне ${range}`);
+  }
+
+  if (chargeQuantity <= 0) {
+    return skip(`количество по единице ${service.unit} равно 0`);
+  }
+
+  const { unitPrice, note } = applyPriceTier(service, chargeQuantity, basePrice);
+  if (note) result.explanation.push(note);
+
+  result.applicable = true;
+  result.quantity = round(chargeQuantity);
+  result.unitPrice = unitPrice;
+  result.calculatedAmount = round(chargeQuantity * unitPrice);
+  result.explanation.push(
+    `${result.quantity} × ${unitPrice} = ${result.calculatedAmount}${service.currency !== BASE_CURRENCY ? ` ${service.currency}` : ''}`
+  );
+
+  return result;
+}
+
+/**
+ * Подбор, упаковку и доставку заказа выполняет один поставщик: по каждому типу
+ * остается поставщик с наименьшей суммой в рублях (при равенстве — первый),
+ * услуги других поставщиков этого типа пропускаются. Услуги с autoApply не отбираются.
+ * rates — курс к рублю по валюте услуги
+ */
+export function selectOrderServiceVendors(evaluations: RuleEvaluation[], rates: Record<string, number> = {}) {
+  for (const type of ORDER_SERVICE_TYPES) {
+    const candidates = evaluations.filter(e => e.applicable && !e.autoApply && e.serviceType === type);
+
+    const totals = new Map<string, number>();
+    for (const e of candidates) {
+      const amount = e.calculatedAmount * (e.currency === BASE_CURRENCY ? 1 : rates[e.currency] ?? 1);
+      totals.set(e.vendorId, (totals.get(e.vendorId) || 0) + amount);
+    }
+    if (totals.size < 2) continue;
+
+    const [vendorId] = [...totals].reduce((best, current) => (current[1] < best[1] ? current : best));
+    const vendorName = candidates.find(e => e.vendorId === vendorId)!.vendorName;
+    for (const e of candidates.filter(c => c.vendorId !== vendorId)) {
+      e.applicable = false;
+      e.quantity = 0;
+      e.calculatedAmount = 0;
+      e.explanation.push(`услугу типа ${type} по заказу оказывает ${vendorName} (сумма меньше)`);
+    }
+  }
+  return evaluations;
+}
+
+/**
+ * Оценивает все активные услуги поставщиков для заказа
+ */
+export async function evaluateOrderPricing(
+  tx: TransactionClient,
+  order: PricingOrderInput,
+  date: Date = new Date()
+) {
+  const services = await tx.vendorService.findMany({
+    where: {
+      isActive: true,
+      validFrom: { lte: date },
+      OR: [{ validTo: null }, { validTo: { gte: date } }],
+    },
+    include: {
+      vendor: { select: { id: true, name: true } },
+      priceTiers: true,
+    },
+    orderBy: [{ vendorId: 'asc' }, { type: 'asc' }],
+  });
+
+  const evaluations = services.map(service => evaluateServiceRule(service, order));
+
+  const rates: Record<string, number> = {};
+  for (const currency of new Set(evaluations.filter(e => e.applicable).map(e => e.currency))) {
+    rates[currency] = await getExchangeRate(tx, currency, date);
+  }
+  return selectOrderServiceVendors(evaluations, rates);
+}
+
+/**
+ * Расчет себестоимости заказа по правилам тарификации услуг.
+ * Валютные услуги пересчитываются в рубли по курсу на дату заказа
+ */
+export async function calculateOrderCosts(
+  tx: TransactionClient,
+  order: PricingOrderInput,
+  date: Date = new Date()
+) {
+  const evaluations = await evaluateOrderPricing(tx, order, date);
+
+  const costs = [];
+  for (const e of evaluations.filter(e => e.applicable)) {
+    const rate = await getExchangeRate(tx, e.currency, date);
+    costs.push({
+      vendorId: e.vendorId,
+      vendorServiceId: e.vendorServiceId,
+      quantity: e.quantity,
+      unitPrice: convertPrice(e.unitPrice, rate),
+      calculatedAmount: Math.round(e.calculatedAmount * rate * 100) / 100,
+      currency: e.currency,
+      currencyAmount: e.currency !== BASE_CURRENCY ? e.calculatedAmount : null,
+      exchangeRate: rate,
+      description: e.description,
+    });
+  }
+  return costs;
+}
@@ -0,0 +1,58 @@
+import { PrismaClient } from '@prisma/client';
+
+// Helper type for transaction client
+type TransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+export interface ForeignProduct {
+  id: string;
+  sku: string;
+  name: string;
+  clientId: string;
+  clientName: string;
+}
+
+/**
+ * Условие фильтра товаров по владельцу: clientId = 'none' — товары без владельца
+ */
+export function productOwnerFilter(clientId: string) {
+  return { clientId: clientId === 'none' ? null : clientId };
+}
+
+/**
+ * Находит товары, принадлежащие другому клиенту.
+ * Товары без владельца (clientId = null) доступны всем клиентам.
+ */
+export async function findForeignProducts(
+  tx: TransactionClient,
+  clientId: string,
+  refs: { productIds?: string[]; skus?: string[] }
+): Promise<ForeignProduct[]> {
+  const productIds = (refs.productIds || []).filter(Boolean);
+  const skus = (refs.skus || []).filter(Boolean);
+  if (productIds.length === 0 && skus.length === 0) return [];
+
+  const products = await tx.product.findMany({
+    where: {
+      OR: [{ id: { in: productIds } }, { sku: { in: skus } }],
+      clientId: { not: null },
+      NOT: { clientId },
+    },
+    select: { id: true, sku: true, name: true, clientId: true, client: { select: { name: true } } },
+  });
+
+  return products.map(p => ({
+    id: p.id,
+    sku: p.sku,
+    name: p.name,
+    clientId: p.clientId!,
+    clientName: p.client?.name || '',
+  }));
+}
+
+/**
+ * Текст ошибки для товаров чужого клиента
+ */
+export function foreignProductsError(products: ForeignProduct[]) {
+  const list = products.map(p => `${p.sku} (${p.clientName})`).join(', ');
+  return `Товары принадлежат другому клиенту: ${list}`;
+}
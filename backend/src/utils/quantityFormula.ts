@@ -0,0 +1,351 @@
+import { AppError } from '../middleware/errorHandler';
+
+// Формулы количества в шаблонах расходов: арифметика, сравнения, функции
+// и переменные заказа. Выражение разбирается и вычисляется без eval
+
+export const FORMULA_VARIABLES: Record<string, { label: string; type: 'number' | 'string' }> = {
+  itemsCount: { label: 'Позиций (строк) в заказе', type: 'number' },
+  totalUnits: { label: 'Единиц товара', type: 'number' },
+  skuCount: { label: 'Уникальных SKU', type: 'number' },
+  totalWeight: { label: 'Вес, кг', type: 'number' },
+  totalVolume: { label: 'Объем, м³', type: 'number' },
+  pallets: { label: 'Палет к отгрузке', type: 'number' },
+  boxes: { label: 'Коробов к отгрузке', type: 'number' },
+  destination: { label: 'Склад назначения', type: 'string' },
+  client: { label: 'Клиент', type: 'string' },
+};
+
+// Число аргументов: [минимум, максимум]
+const FUNCTIONS: Record<string, { label: string; args: [number, number] }> = {
+  ceil: { label: 'ceil(x) — округление вверх', args: [1, 1] },
+  floor: { label: 'floor(x) — округление вниз', args: [1, 1] },
+  round: { label: 'round(x, знаков) — округление', args: [1, 2] },
+  abs: { label: 'abs(x) — модуль', args: [1, 1] },
+  min: { label: 'min(a, b, ...) — наименьшее', args: [1, 20] },
+  max: { label: 'max(a, b, ...) — наибольшее', args: [1, 20] },
+  if: { label: 'if(условие, да, нет) — выбор', args: [3, 3] },
+};
+
+export const FORMULA_FUNCTIONS = Object.entries(FUNCTIONS).map(([name, f]) => ({ name, label: f.label }));
+
+const MAX_LENGTH = 500;
+const MAX_DEPTH = 50;
+
+export type FormulaVariables = Record<string, number | string>;
+
+type Value = number | string;
+
+type FormulaNode =
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'string'; value: string; pos: number }
+  | { type: 'variable'; name: string; pos: number }
+  | { type: 'unary'; op: string; arg: FormulaNode; pos: number }
+  | { type: 'binary'; op: string; left: FormulaNode; right: FormulaNode; pos: number }
+  | { type: 'call'; name: string; args: FormulaNode[]; pos: number };
+
+interface Token {
+  type: 'number' | 'string' | 'name' | 'op' | 'end';
+  value: string;
+  pos: number; // с 1, для сообщений об ошибке
+}
+
+/**
+ * Ошибка в формуле с позицией символа (с 1)
+ */
+export class FormulaError extends AppError {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} (позиция ${position})`, 400);
+    this.position = position;
+  }
+}
+
+// Только собственные ключи: имена вроде constructor не должны находиться в прототипе
+function has(table: object, name: string) {
+  return Object.prototype.hasOwnProperty.call(table, name);
+}
+
+const OPERATORS = ['<=', '>=', '==', '!=', '&&', '||', '+', '-', '*', '/', '%', '<', '>', '!', '(', ')', ','];
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < formula.length) {
+    const ch = formula[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const pos = i + 1;
+    const match = formula.slice(i).match(/^(\d+(\.\d*)?|\.\d+)/);
+    if (match) {
+      tokens.push({ type: 'number', value: match[0], pos });
+      i += match[0].length;
+      continue;
+    }
+    if (/[A-Za-z_]/.test(ch)) {
+      const name = formula.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)![0];
+      tokens.push({ type: 'name', value: name, pos });
+      i += name.length;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      const end = formula.indexOf(ch, i + 1);
+      if (end === -1) throw new FormulaError('Незакрытая строка', pos);
+      tokens.push({ type: 'string', value: formula.slice(i + 1, end), pos });
+      i = end + 1;
+      continue;
+    }
+
+    const op = OPERATORS.find(o => formula.startsWith(o, i));
+    if (!op) throw new FormulaError(`Недопустимый символ «${ch}»`, pos);
+    tokens.push({ type: 'op', value: op, pos });
+    i += op.length;
+  }
+
+  tokens.push({ type: 'end', value: '', pos: formula.length + 1 });
+  return tokens;
+}
+
+// Уровни приоритета бинарных операторов, от низшего к высшему
+const PRECEDENCE = [['||'], ['&&'], ['==', '!='], ['<', '<=', '>', '>='], ['+', '-'], ['*', '/', '%']];
+
+/**
+ * Разбор формулы в дерево. Неизвестные переменные и функции, неверное число
+ * аргументов и синтаксические ошибки — FormulaError с позицией
+ */
+export function parseFormula(formula: string): FormulaNode {
+  if (formula.length > MAX_LENGTH) {
+    throw new FormulaError(`Формула длиннее ${MAX_LENGTH} символов`, MAX_LENGTH + 1);
+  }
+
+  const tokens = tokenize(formula);
+  let index = 0;
+  let depth = 0;
+
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const isOp = (value: string) => peek().type === 'op' && peek().value === value;
+  const expect = (value: string) => {
+    if (!isOp(value)) {
+      const token = peek();
+      throw new FormulaError(token.type === 'end' ? `Ожидается «${value}»` : `Ожидается «${value}», найдено «${token.value}»`, token.pos);
+    }
+    return next();
+  };
+
+  const parseBinary = (level: number): FormulaNode => {
+    if (level === PRECEDENCE.length) return parseUnary();
+
+    let left = parseBinary(level + 1);
+    while (peek().type === 'op' && PRECEDENCE[level].includes(peek().value)) {
+      const op = next();
+      const right = parseBinary(level + 1);
+      left = { type: 'binary', op: op.value, left, right, pos: op.pos };
+    }
+    return left;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    if (isOp('-') || isOp('+') || isOp('!')) {
+      const op = next();
+      return { type: 'unary', op: op.value, arg: parseUnary(), pos: op.pos };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    if (++depth > MAX_DEPTH) {
+      throw new FormulaError('Слишком глубокая вложенность', peek().pos);
+    }
+
+    const token = next();
+    let node: FormulaNode;
+
+    if (token.type === 'number') {
+      node = { type: 'number', value: parseFloat(token.value), pos: token.pos };
+    } else if (token.type === 'string') {
+      node = { type: 'string', value: token.value, pos: token.pos };
+    } else if (token.type === 'name') {
+      if (isOp('(')) {
+        const fn = has(FUNCTIONS, token.value) ? FUNCTIONS[token.value] : null;
+        if (!fn) throw new FormulaError(`Неизвестная функция «${token.value}»`, token.pos);
+        next();
+        const args: FormulaNode[] = [];
+        if (!isOp(')')) {
+          args.push(parseBinary(0));
+          while (isOp(',')) {
+            next();
+            args.push(parseBinary(0));
+          }
+        }
+        expect(')');
+        if (args.length < fn.args[0] || args.length > fn.args[1]) {
+          const expected = fn.args[0] === fn.args[1] ? fn.args[0] : `${fn.args[0]}–${fn.args[1]}`;
+          throw new FormulaError(`Функция ${token.value} принимает аргументов: ${expected}`, token.pos);
+        }
+        node = { type: 'call', name: token.value, args, pos: token.pos };
+      } else {
+        if (!has(FORMULA_VARIABLES, token.value)) {
+          throw new FormulaError(`Неизвестная переменная «${token.value}»`, token.pos);
+        }
+        node = { type: 'variable', name: token.value, pos: token.pos };
+      }
+    } else if (token.type === 'op' && token.value === '(') {
+      node = parseBinary(0);
+      expect(')');
+    } else {
+      throw new FormulaError(token.type === 'end' ? 'Неожиданный конец формулы' : `Неожиданный символ «${token.value}»`, token.pos);
+    }
+
+    depth--;
+    return node;
+  };
+
+  if (peek().type === 'end') {
+    throw new FormulaError('Пустая формула', 1);
+  }
+  const root = parseBinary(0);
+  if (peek().type !== 'end') {
+    throw new FormulaError(`Неожиданный символ «${peek().value}»`, peek().pos);
+  }
+  return root;
+}
+
+function toNumber(value: Value, pos: number) {
+  if (typeof value !== 'number') {
+    throw new FormulaError('Ожидается число, а не строка', pos);
+  }
+  return value;
+}
+
+function equals(a: Value, b: Value) {
+  if (typeof a === 'string' || typeof b === 'string') {
+    return String(a).trim().toLowerCase() === String(b).trim().toLowerCase();
+  }
+  return a === b;
+}
+
+function evaluateNode(node: FormulaNode, vars: FormulaVariables): Value {
+  switch (node.type) {
+    case 'number':
+    case 'string':
+      return node.value;
+    case 'variable':
+      return vars[node.name] ?? (FORMULA_VARIABLES[node.name].type === 'string' ? '' : 0);
+    case 'unary': {
+      const arg = evaluateNode(node.arg, vars);
+      if (node.op === '!') return arg ? 0 : 1;
+      const value = toNumber(arg, node.arg.pos);
+      return node.op === '-' ? -value : value;
+    }
+    case 'binary': {
+      // Logical operators short-circuit
+      if (node.op === '&&') return evaluateNode(node.left, vars) && evaluateNode(node.right, vars) ? 1 : 0;
+      if (node.op === '||') return evaluateNode(node.left, vars) || evaluateNode(node.right, vars) ? 1 : 0;
+
+      const left = evaluateNode(node.left, vars);
+      const right = evaluateNode(node.right, vars);
+      if (node.op === '==') return equals(left, right) ? 1 : 0;
+      if (node.op === '!=') return equals(left, right) ? 0 : 1;
+
+      const a = toNumber(left, node.left.pos);
+      const b = toNumber(right, node.right.pos);
+      switch (node.op) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/':
+        case '%':
+          if (b === 0) throw new FormulaError('Деление на ноль', node.pos);
+          return node.op === '/' ? a / b : a % b;
+        case '<': return a < b ? 1 : 0;
+        case '<=': return a <= b ? 1 : 0;
+        case '>': return a > b ? 1 : 0;
+        default: return a >= b ? 1 : 0;
+      }
+    }
+    case 'call': {
+      if (node.name === 'if') {
+        return evaluateNode(node.args[0], vars) ? evaluateNode(node.args[1], vars) : evaluateNode(node.args[2], vars);
+      }
+      const args = node.args.map(arg => toNumber(evaluateNode(arg, vars), arg.pos));
+      switch (node.name) {
+        case 'ceil': return Math.ceil(args[0]);
+        case 'floor': return Math.floor(args[0]);
+        case 'abs': return Math.abs(args[0]);
+        case 'min': return Math.min(...args);
+        case 'max': return Math.max(...args);
+        default: {
+          const factor = Math.pow(10, Math.trunc(args[1] || 0));
+          return Math.round(args[0] * factor) / factor;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Проверка формулы при сохранении шаблона
+ */
+export function validateFormula(formula: string): { valid: true } | { valid: false; error: string; position: number } {
+  try {
+    parseFormula(formula);
+    return { valid: true };
+  } catch (error) {
+    if (error instanceof FormulaError) {
+      return { valid: false, error: error.message, position: error.position };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Значение формулы для переменных заказа; результат — конечное число
+ */
+export function evaluateFormula(formula: string, vars: FormulaVariables): number {
+  const root = parseFormula(formula);
+  const value = evaluateNode(root, vars);
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new FormulaError('Результат формулы должен быть числом', 1);
+  }
+  return value;
+}
+
+/**
+ * Количество по формуле: округляется вверх до целого, не меньше 0
+ */
+export function formulaQuantity(formula: string, vars: FormulaVariables) {
+  return Math.max(0, Math.ceil(evaluateFormula(formula, vars)));
+}
+
+// Строки услуг тарифа (доставка, обработка заказа) в заказах, созданных до
+// выставления услуг отдельными счетами, — это не товар
+const isGoodsItem = (item: { sku: string }) => !item.sku.startsWith('TRF-');
+
+/**
+ * Переменные формулы по заказу: считаются только товарные позиции
+ */
+export function buildFormulaVariables(order: {
+  items: Array<{ sku: string; quantity: number; weight: { toNumber(): number }; volume: { toNumber(): number } }>;
+  palletCount: number;
+  boxCount: number;
+  destination: string | null;
+  client?: { name: string } | null;
+}): FormulaVariables {
+  const items = order.items.filter(isGoodsItem);
+  return {
+    itemsCount: items.length,
+    totalUnits: items.reduce((sum, i) => sum + i.quantity, 0),
+    skuCount: new Set(items.map(i => i.sku)).size,
+    totalWeight: Math.round(items.reduce((sum, i) => sum + i.weight.toNumber() * i.quantity, 0) * 1000) / 1000,
+    totalVolume: Math.round(items.reduce((sum, i) => sum + i.volume.toNumber() * i.quantity, 0) * 1000000) / 1000000,
+    pallets: order.palletCount,
+    boxes: order.boxCount,
+    destination: order.destination || '',
+    client: order.client?.name || '',
+  };
+}
@@ -0,0 +1,273 @@
+import { PrismaClient } from '@prisma/client';
+
+// Helper type for transaction client
+type TransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Интервалы просрочки в днях от даты счета
+export const AGING_BUCKETS = [
+  { key: '0-30', label: '0–30 дней', from: 0, to: 30 },
+  { key: '31-60', label: '31–60 дней', from: 31, to: 60 },
+  { key: '61-90', label: '61–90 дней', from: 61, to: 90 },
+  { key: '90+', label: 'более 90 дней', from: 91, to: Infinity },
+];
+
+export interface ClientReceivable {
+  clientId: string;
+  clientName: string;
+  companyName: string | null;
+  invoiced: number;
+  paid: number;
+  balance: number;
+  credits: number; // кредит-ноты и переплаты (уменьшают долг)
+  buckets: Record<string, number>;
+  overdue: number; // все, что старше первого интервала
+  oldestInvoiceDate: Date | null;
+  openInvoices: number;
+}
+
+export interface StatementEntry {
+  date: Date;
+  type: 'INVOICE' | 'CREDIT_NOTE' | 'PAYMENT';
+  documentNumber: string;
+  description: string | null;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function paymentDateOf(op: { paymentDate: Date | null; createdAt: Date }) {
+  return op.paymentDate || op.createdAt;
+}
+
+function emptyBuckets() {
+  return Object.fromEntries(AGING_BUCKETS.map(b => [b.key, 0])) as Record<string, number>;
+}
+
+function sumAmounts(items: Array<{ amount: { toNumber(): number } }>) {
+  return items.reduce((sum, item) => sum + item.amount.toNumber(), 0);
+}
+
+/**
+ * Дебиторская задолженность клиентов на дату с разбивкой по срокам.
+ * Счет — приходная операция (дата создания), оплата — разнесенные платежи на дату
+ * платежа и paidAmount без платежа на дату оплаты. Неразнесенные платежи — аванс клиента.
+ */
+export async function getReceivablesAging(
+  tx: TransactionClient,
+  params: { asOf?: Date; clientId?: string } = {}
+) {
+  const asOf = params.asOf || new Date();
+
+  const operations = await tx.incomeOperation.findMany({
+    where: {
+      createdAt: { lte: asOf },
+      ...(params.clientId ? { clientId: params.clientId } : {}),
+    },
+    include: {
+      client: { select: { id: true, name: true, companyName: true } },
+      allocations: { select: { amount: true, payment: { select: { paymentDate: true } } } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const payments = await tx.payment.findMany({
+    where: {
+      status: 'ACTIVE',
+      paymentDate: { lte: asOf },
+      ...(params.clientId ? { clientId: params.clientId } : {}),
+    },
+    include: {
+      client: { select: { id: true, name: true, companyName: true } },
+      allocations: { select: { amount: true, incomeOperation: { select: { createdAt: true } } } },
+    },
+  });
+
+  const byClient = new Map<string, ClientReceivable>();
+
+  const rowFor = (client: { id: string; name: string; companyName: string | null }) => {
+    let row = byClient.get(client.id);
+    if (!row) {
+      row = {
+        clientId: client.id,
+        clientName: client.name,
+        companyName: client.companyName,
+        invoiced: 0,
+        paid: 0,
+        balance: 0,
+        credits: 0,
+        buckets: emptyBuckets(),
+        overdue: 0,
+        oldestInvoiceDate: null,
+        openInvoices: 0,
+      };
+      byClient.set(client.id, row);
+    }
+    return row;
+  };
+
+  for (const op of operations) {
+    const row = rowFor(op.client);
+
+    const invoice = op.invoiceAmount.toNumber();
+    const directPaid = op.paidAmount.toNumber() - sumAmounts(op.allocations);
+    const paid =
+      (paymentDateOf(op) <= asOf ? directPaid : 0) +
+      sumAmounts(op.allocations.filter(a => a.payment.paymentDate <= asOf));
+    const open = invoice - paid;
+
+    row.invoiced += invoice;
+    row.paid += paid;
+    row.balance += open;
+
+    if (open > 0.005) {
+      const days = Math.floor((asOf.getTime() - op.createdAt.getTime()) / DAY_MS);
+      const bucket = AGING_BUCKETS.find(b => days >= b.from && days <= b.to) || AGING_BUCKETS[AGING_BUCKETS.length - 1];
+      row.buckets[bucket.key] += open;
+      if (bucket !== AGING_BUCKETS[0]) row.overdue += open;
+      row.openInvoices += 1;
+      if (!row.oldestInvoiceDate) row.oldestInvoiceDate = op.createdAt;
+    } else if (open < -0.005) {
+      row.credits += -open;
+    }
+  }
+
+  // Unallocated remainder of payments (against invoices known at the date)
+  for (const payment of payments) {
+    const applied = sumAmounts(payment.allocations.filter(a => a.incomeOperation.createdAt <= asOf));
+    const unapplied = payment.amount.toNumber() - applied;
+    if (unapplied > 0.005) {
+      const row = rowFor(payment.client);
+      row.paid += unapplied;
+      row.balance -= unapplied;
+      row.credits += unapplied;
+    }
+  }
+
+  const clients = [...byClient.values()]
+    .map(row => ({
+      ...row,
+      invoiced: round2(row.invoiced),
+      paid: round2(row.paid),
+      balance: round2(row.balance),
+      credits: round2(row.credits),
+      overdue: round2(row.overdue),
+      buckets: Object.fromEntries(Object.entries(row.buckets).map(([k, v]) => [k, round2(v)])),
+    }))
+    .filter(row => Math.abs(row.balance) > 0.005 || row.openInvoices > 0)
+    .sort((a, b) => b.balance - a.balance);
+
+  const totals = {
+    balance: round2(clients.reduce((sum, c) => sum + c.balance, 0)),
+    credits: round2(clients.reduce((sum, c) => sum + c.credits, 0)),
+    buckets: Object.fromEntries(
+      AGING_BUCKETS.map(b => [b.key, round2(clients.reduce((sum, c) => sum + c.buckets[b.key], 0))])
+    ),
+    overdue: round2(clients.reduce((sum, c) => sum + c.overdue, 0)),
+    debtors: clients.filter(c => c.balance > 0.005).length,
+  };
+
+  return { asOf, buckets: AGING_BUCKETS.map(({ key, label }) => ({ key, label })), clients, totals };
+}
+
+/**
+ * Акт сверки с клиентом за период: входящее сальдо, счета, оплаты, исходящее сальдо.
+ * Платеж отражается один раз на полную сумму независимо от разнесения.
+ */
+export async function buildClientStatement(
+  tx: TransactionClient,
+  clientId: string,
+  dateFrom: Date,
+  dateTo: Date
+) {
+  const operations = await tx.incomeOperation.findMany({
+    where: { clientId, createdAt: { lte: dateTo } },
+    include: {
+      order: { select: { orderNumber: true } },
+      allocations: { select: { amount: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const payments = await tx.payment.findMany({
+    where: { clientId, status: 'ACTIVE', paymentDate: { lte: dateTo } },
+    orderBy: { paymentDate: 'asc' },
+  });
+
+  let openingBalance = 0;
+  const movements: Array<Omit<StatementEntry, 'balance'>> = [];
+
+  for (const op of operations) {
+    const invoice = op.invoiceAmount.toNumber();
+    // Allocated payments are listed separately below
+    const paid = op.paidAmount.toNumber() - sumAmounts(op.allocations);
+    const paidAt = paymentDateOf(op);
+
+    if (op.createdAt < dateFrom) {
+      openingBalance += invoice;
+    } else if (invoice !== 0) {
+      movements.push({
+        date: op.createdAt,
+        type: invoice > 0 ? 'INVOICE' : 'CREDIT_NOTE',
+        documentNumber: op.order.orderNumber,
+        description: op.description,
+        debit: invoice > 0 ? invoice : 0,
+        credit: invoice < 0 ? -invoice : 0,
+      });
+    }
+
+    if (Math.abs(paid) > 0.005) {
+      if (paidAt < dateFrom) {
+        openingBalance -= paid;
+      } else if (paidAt <= dateTo) {
+        movements.push({
+          date: paidAt,
+          type: 'PAYMENT',
+          documentNumber: op.order.orderNumber,
+          description: op.paymentMethod ? `Оплата (${op.paymentMethod})` : 'Оплата',
+          debit: 0,
+          credit: paid,
+        });
+      }
+    }
+  }
+
+  for (const payment of payments) {
+    const amount = payment.amount.toNumber();
+    if (payment.paymentDate < dateFrom) {
+      openingBalance -= amount;
+    } else {
+      movements.push({
+        date: payment.paymentDate,
+        type: 'PAYMENT',
+        documentNumber: payment.paymentNumber,
+        description: payment.reference ? `Платежное поручение № ${payment.reference}` : payment.description,
+        debit: 0,
+        credit: amount,
+      });
+    }
+  }
+
+  movements.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  let balance = openingBalance;
+  const entries: StatementEntry[] = movements.map(m => {
+    balance += m.debit - m.credit;
+    return { ...m, debit: round2(m.debit), credit: round2(m.credit), balance: round2(balance) };
+  });
+
+  return {
+    dateFrom,
+    dateTo,
+    openingBalance: round2(openingBalance),
+    totalDebit: round2(entries.reduce((sum, e) => sum + e.debit, 0)),
+    totalCredit: round2(entries.reduce((sum, e) => sum + e.credit, 0)),
+    closingBalance: round2(balance),
+    entries,
+  };
+}
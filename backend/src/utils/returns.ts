@@ -0,0 +1,235 @@
+import { PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+import { resolveClientTariff, findReturnRate } from './tariffs';
+import { assertLocationsNotFrozen } from './inventoryCounts';
+
+// Helper type for transaction client
+type TransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+export const RETURN_DISPOSITIONS = ['RESTOCK', 'QUARANTINE', 'WRITE_OFF'];
+
+// Тип склада, куда перемещается товар по решению (WRITE_OFF — списание без перемещения)
+export const DISPOSITION_WAREHOUSE_TYPES: Record<string, string> = {
+  RESTOCK: 'MAIN',
+  QUARANTINE: 'QUARANTINE',
+};
+
+// Возврат оформляется только по отгруженным заказам
+export const RETURNABLE_ORDER_STATUSES = ['SHIPPED', 'DELIVERED', 'COMPLETED'];
+
+/**
+ * Генерирует номер возврата: RMA-YYYYMMDD-NNNN
+ */
+export async function generateReturnNumber(tx: TransactionClient): Promise<string> {
+  const today = new Date();
+  const prefix = `RMA-${today.getFullYear()}${String(today.getMonth() + 1).padStart(2, '0')}${String(today.getDate()).padStart(2, '0')}`;
+
+  const last = await tx.returnAuthorization.findFirst({
+    where: { rmaNumber: { startsWith: prefix } },
+    orderBy: { rmaNumber: 'desc' },
+  });
+
+  let seq = 1;
+  if (last) {
+    seq = parseInt(last.rmaNumber.split('-').pop() || '0') + 1;
+  }
+
+  return `${prefix}-${String(seq).padStart(4, '0')}`;
+}
+
+/**
+ * Количество по позициям заказа, уже оформленное в возвраты.
+ * До приемки учитывается заявленное количество, после — принятое.
+ */
+export async function getReturnedQuantities(tx: TransactionClient, orderId: string) {
+  const items = await tx.returnItem.findMany({
+    where: { rma: { orderId, status: { not: 'CANCELLED' } } },
+    include: { rma: { select: { status: true } } },
+  });
+
+  const returned = new Map<string, number>();
+  for (const item of items) {
+    const qty = item.rma.status === 'RECEIVING' ? item.quantity : item.receivedQty;
+    returned.set(item.orderItemId, (returned.get(item.orderItemId) || 0) + qty);
+  }
+  return returned;
+}
+
+/**
+ * Отмечает возврат принятым по завершении задачи приемки:
+ * принятое количество и ячейка берутся из позиций задачи.
+ */
+export async function markReturnReceived(tx: TransactionClient, taskId: string) {
+  const rma = await tx.returnAuthorization.findFirst({
+    where: { taskId, status: 'RECEIVING' },
+    include: { items: true },
+  });
+  if (!rma) return null;
+
+  const taskItems = await tx.taskItem.findMany({ where: { taskId } });
+
+  for (const item of rma.items) {
+    const taskItem = taskItems.find(t => t.id === item.taskItemId);
+    await tx.returnItem.update({
+      where: { id: item.id },
+      data: {
+        receivedQty: taskItem?.isCompleted ? taskItem.actualQty : 0,
+        locationId: taskItem?.toLocationId || null,
+      },
+    });
+  }
+
+  return tx.returnAuthorization.update({
+    where: { id: rma.id },
+    data: { status: 'RECEIVED', receivedAt: new Date() },
+  });
+}
+
+/**
+ * Перемещает возвращенный товар из ячейки склада возвратов.
+ * toLocationId = null — списание (движение WRITE_OFF).
+ */
+export async function moveReturnedStock(
+  tx: TransactionClient,
+  params: {
+    productId: string;
+    fromLocationId: string;
+    toLocationId: string | null;
+    quantity: number;
+    orderId: string;
+    reason: string;
+    userId: string;
+  }
+) {
+  const { productId, fromLocationId, toLocationId, quantity } = params;
+
+  await assertLocationsNotFrozen(tx, [fromLocationId, toLocationId]);
+
+  const fromStock = await tx.productStock.findFirst({
+    where: { productId, storageLocationId: fromLocationId, availableQty: { gte: quantity } },
+  });
+  if (!fromStock) {
+    throw new AppError('Недостаточно остатка в ячейке склада возвратов', 400);
+  }
+
+  await tx.productStock.update({
+    where: { id: fromStock.id },
+    data: {
+      quantity: { decrement: quantity },
+      availableQty: { decrement: quantity },
+      lastMovementAt: new Date(),
+    },
+  });
+
+  if (toLocationId) {
+    const toStock = await tx.productStock.findFirst({
+      where: { productId, storageLocationId: toLocationId },
+    });
+
+    if (toStock) {
+      await tx.productStock.update({
+        where: { id: toStock.id },
+        data: {
+          quantity: { increment: quantity },
+          availableQty: { increment: quantity },
+          lastMovementAt: new Date(),
+        },
+      });
+    } else {
+      await tx.productStock.create({
+        data: { productId, storageLocationId: toLocationId, quantity, availableQty: quantity },
+      });
+    }
+
+    await tx.storageLocation.update({
+      where: { id: toLocationId },
+      data: { status: 'OCCUPIED' },
+    });
+  }
+
+  return tx.stockMovement.create({
+    data: {
+      productId,
+      fromLocationId,
+      toLocationId,
+      quantity,
+      movementType: toLocationId ? 'TRANSFER' : 'WRITE_OFF',
+      orderId: params.orderId,
+      reason: params.reason,
+      createdBy: params.userId,
+    },
+  });
+}
+
+/**
+ * Рассчитывает обработку возврата:
+ * стоимость — услуга поставщика типа RETURNS,
+ * плата клиента — ставка RETURNS из тарифа, иначе стоимость × наценка клиента.
+ */
+export async function calculateReturnCharge(tx: TransactionClient, clientId: string, quantity: number) {
+  const service = await tx.vendorService.findFirst({
+    where: { type: 'RETURNS', isActive: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const costQuantity = service?.unit === 'PIECE' ? quantity : 1;
+  const costAmount = service ? Number(service.price) * costQuantity : 0;
+
+  const tariff = await resolveClientTariff(tx, clientId);
+  const rate = tariff ? findReturnRate(tariff) : null;
+
+  if (tariff && rate) {
+    const rateQuantity = rate.unit === 'PIECE' ? quantity : 1;
+    return {
+      service,
+      costQuantity,
+      costAmount,
+      incomeAmount: Number(rate.price) * rateQuantity,
+      basis: `тариф "${tariff.name}"`,
+    };
+  }
+
+  const client = await tx.client.findUnique({ where: { id: clientId }, select: { tariffRate: true } });
+  const markup = client?.tariffRate?.toNumber() || 1.3;
+
+  return {
+    service,
+    costQuantity,
+    costAmount,
+    incomeAmount: costAmount * markup,
+    basis: `себестоимость × ${markup}`,
+  };
+}
+
+/**
+ * Пересчитывает выручку заказа по выставленным счетам (приходным операциям),
+ * прибыль и маржу. Оплаты на выручку не влияют: выручка — сумма счетов,
+ * а не поступлений
+ */
+export async function refreshOrderProfit(tx: TransactionClient, orderId: string) {
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    select: { totalIncome: true, actualCost: true },
+  });
+  if (!order) return null;
+
+  // Заказ без счетов (старые данные) сохраняет выручку как есть
+  const invoiced = await tx.incomeOperation.aggregate({
+    where: { orderId },
+    _sum: { invoiceAmount: true },
+    _count: true,
+  });
+  const income = invoiced._count > 0
+    ? invoiced._sum.invoiceAmount?.toNumber() || 0
+    : order.totalIncome.toNumber();
+  const profit = income - order.actualCost.toNumber();
+
+  return tx.order.update({
+    where: { id: orderId },
+    data: {
+      totalIncome: income,
+      profit,
+      marginPercent: income > 0 ? (profit / income) * 100 : 0,
+    },
+  });
+}
@@ -0,0 +1,241 @@
+import { PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+
+// Helper type for transaction client
+type TransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+export interface StockShortage {
+  orderItemId: string;
+  productId: string;
+  sku: string;
+  name: string;
+  requested: number;
+  available: number;
+  missing: number;
+}
+
+/**
+ * Недостаточно остатков для резервирования заказа (HTTP 409)
+ */
+export class StockShortageError extends AppError {
+  shortages: StockShortage[];
+
+  constructor(shortages: StockShortage[]) {
+    const list = shortages.map(s => `${s.sku || s.name}: не хватает ${s.missing} из ${s.requested}`).join('; ');
+    super(`Недостаточно остатков для резервирования: ${list}`, 409);
+    this.shortages = shortages;
+  }
+}
+
+/**
+ * Порядок списания: FEFO (ближайший срок годности), затем FIFO (давнее движение)
+ */
+function compareStocks(
+  a: { expiryDate: Date | null; lastMovementAt: Date },
+  b: { expiryDate: Date | null; lastMovementAt: Date }
+) {
+  if (a.expiryDate && b.expiryDate) {
+    const diff = a.expiryDate.getTime() - b.expiryDate.getTime();
+    if (diff !== 0) return diff;
+  } else if (a.expiryDate || b.expiryDate) {
+    return a.expiryDate ? -1 : 1;
+  }
+  return a.lastMovementAt.getTime() - b.lastMovementAt.getTime();
+}
+
+/**
+ * Резервирует остатки под позиции заказа, связанные с товарами каталога.
+ * Уже зарезервированное количество не резервируется повторно.
+ * При нехватке ничего не записывает и бросает StockShortageError.
+ */
+export async function reserveOrderStock(tx: TransactionClient, orderId: string) {
+  const items = await tx.orderItem.findMany({
+    where: { orderId, productId: { not: null } },
+    include: { reservations: { select: { quantity: true } } },
+  });
+
+  const productIds = [...new Set(items.map(i => i.productId!))];
+  const stocks = await tx.productStock.findMany({
+    where: {
+      productId: { in: productIds },
+      availableQty: { gt: 0 },
+      status: 'AVAILABLE',
+      // Returns and quarantine warehouses and locations under inventory are not used for picking
+      storageLocation: { status: { not: 'BLOCKED' }, frozenByCountId: null, warehouse: { type: 'MAIN' } },
+    },
+  });
+  stocks.sort(compareStocks);
+
+  // Available quantity is tracked in memory so items of the same product share stock
+  const available = new Map(stocks.map(s => [s.id, s.availableQty]));
+  const plan: Array<{ orderItemId: string; productStockId: string; quantity: number }> = [];
+  const shortages: StockShortage[] = [];
+
+  for (const item of items) {
+    const alreadyReserved = item.reservations.reduce((sum, r) => sum + r.quantity, 0);
+    let needed = item.quantity - alreadyReserved;
+    if (needed <= 0) continue;
+
+    for (const stock of stocks) {
+      if (needed === 0) break;
+      if (stock.productId !== item.productId) continue;
+
+      const free = available.get(stock.id) || 0;
+      const take = Math.min(free, needed);
+      if (take <= 0) continue;
+
+      available.set(stock.id, free - take);
+      plan.push({ orderItemId: item.id, productStockId: stock.id, quantity: take });
+      needed -= take;
+    }
+
+    if (needed > 0) {
+      const requested = item.quantity - alreadyReserved;
+      shortages.push({
+        orderItemId: item.id,
+        productId: item.productId!,
+        sku: item.sku,
+        name: item.name,
+        requested,
+        available: requested - needed,
+        missing: needed,
+      });
+    }
+  }
+
+  if (shortages.length > 0) {
+    throw new StockShortageError(shortages);
+  }
+
+  for (const entry of plan) {
+    await tx.productStock.update({
+      where: { id: entry.productStockId },
+      data: {
+        reservedQty: { increment: entry.quantity },
+        availableQty: { decrement: entry.quantity },
+      },
+    });
+    await tx.stockReservation.create({
+      data: { orderId, ...entry },
+    });
+  }
+
+  return {
+    reservedLines: plan.length,
+    reservedQty: plan.reduce((sum, p) => sum + p.quantity, 0),
+  };
+}
+
+/**
+ * Снимает все резервы заказа и возвращает количество в доступный остаток
+ */
+export async function releaseOrderStock(tx: TransactionClient, orderId: string) {
+  const reservations = await tx.stockReservation.findMany({ where: { orderId } });
+
+  for (const reservation of reservations) {
+    await tx.productStock.update({
+      where: { id: reservation.productStockId },
+      data: {
+        reservedQty: { decrement: reservation.quantity },
+        availableQty: { increment: reservation.quantity },
+      },
+    });
+  }
+
+  await tx.stockReservation.deleteMany({ where: { orderId } });
+
+  return {
+    releasedLines: reservations.length,
+    releasedQty: reservations.reduce((sum, r) => sum + r.quantity, 0),
+  };
+}
+
+/**
+ * Списывает резерв заказа по ячейке при подборе.
+ * Возвращает количество, покрытое резервом (остальное берется из свободного остатка).
+ */
+export async function consumeReservation(
+  tx: TransactionClient,
+  orderId: string,
+  productStockId: string,
+  quantity: number
+) {
+  const reservations = await tx.stockReservation.findMany({
+    where: { orderId, productStockId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  let remaining = quantity;
+  for (const reservation of reservations) {
+    if (remaining === 0) break;
+    const take = Math.min(reservation.quantity, remaining);
+
+    if (take === reservation.quantity) {
+      await tx.stockReservation.delete({ where: { id: reservation.id } });
+    } else {
+      await tx.stockReservation.update({
+        where: { id: reservation.id },
+        data: { quantity: { decrement: take } },
+      });
+    }
+    remaining -= take;
+  }
+
+  return quantity - remaining;
+}
+
+/**
+ * Снимает часть резерва заказа по ячейке (недобор при подборе):
+ * количество возвращается в доступный остаток
+ */
+export async function releaseReservation(
+  tx: TransactionClient,
+  orderId: string,
+  productStockId: string,
+  quantity: number
+) {
+  const released = await consumeReservation(tx, orderId, productStockId, quantity);
+  if (released > 0) {
+    await tx.productStock.update({
+      where: { id: productStockId },
+      data: {
+        reservedQty: { decrement: released },
+        availableQty: { increment: released },
+      },
+    });
+  }
+  return released;
+}
+
+/**
+ * Снимает резервы по ячейке, когда товара в ней меньше зарезервированного
+ * (недостача при инвентаризации). Первыми снимаются самые поздние резервы.
+ * Остаток ячейки обновляет вызывающий; возвращаются номера затронутых заказов
+ */
+export async function trimStockReservations(tx: TransactionClient, productStockId: string, quantity: number) {
+  const reservations = await tx.stockReservation.findMany({
+    where: { productStockId },
+    include: { order: { select: { orderNumber: true } } },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  let remaining = quantity;
+  const orderNumbers = new Set<string>();
+  for (const reservation of reservations) {
+    if (remaining === 0) break;
+    const take = Math.min(reservation.quantity, remaining);
+
+    if (take === reservation.quantity) {
+      await tx.stockReservation.delete({ where: { id: reservation.id } });
+    } else {
+      await tx.stockReservation.update({
+        where: { id: reservation.id },
+        data: { quantity: { decrement: take } },
+      });
+    }
+    orderNumbers.add(reservation.order.orderNumber);
+    remaining -= take;
+  }
+
+  return { releasedQty: quantity - remaining, orderNumbers: [...orderNumbers] };
+}
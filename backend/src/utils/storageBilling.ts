@@ -0,0 +1,374 @@
+import { PrismaClient } from '@prisma/client';
+import { resolveClientTariff, findStorageRate } from './tariffs';
+
+// Helper type for transaction client
+type TransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Единицы услуг хранения, тарифицируемые биллингом
+export const STORAGE_UNITS = ['PALLET', 'CUBIC_METER', 'DAY', 'MONTH'];
+
+// Типы ячеек, занимаемых целыми паллетами
+const PALLET_LOCATION_TYPES = ['PALLET', 'FLOOR'];
+
+export interface StorageBillingParams {
+  vendorId: string;
+  periodFrom: Date;
+  periodTo: Date;
+  warehouseId?: string;
+}
+
+export interface StorageBillingLineResult {
+  clientId: string | null;
+  clientName: string | null;
+  storageLocationId: string;
+  locationCode: string;
+  warehouseName: string;
+  palletDays: number;
+  volumeDays: number;
+  daysOccupied: number;
+  costAmount: number;
+  incomeAmount: number;
+  costBasis: string;
+  incomeBasis: string;
+}
+
+interface ChargeLine {
+  vendorServiceId: string;
+  serviceName: string;
+  unit: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+const startOfDay = (date: Date) => {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+};
+
+/**
+ * Вместимость ячейки в м³: maxVolume, иначе по габаритам (см)
+ */
+function locationCapacity(location: {
+  maxVolume: unknown;
+  length: unknown;
+  width: unknown;
+  height: unknown;
+}) {
+  if (location.maxVolume && Number(location.maxVolume) > 0) return Number(location.maxVolume);
+  const dims = [location.length, location.width, location.height].map(v => Number(v || 0));
+  if (dims.every(v => v > 0)) return (dims[0] * dims[1] * dims[2]) / 1_000_000;
+  return 0;
+}
+
+/**
+ * Восстанавливает остатки по (товар, ячейка) на конец каждого дня периода.
+ * Берутся текущие остатки и "откатываются" движения, сделанные позже конца дня.
+ */
+async function loadDailyStock(tx: TransactionClient, params: StorageBillingParams, days: Date[]) {
+  const locationWhere = params.warehouseId ? { warehouseId: params.warehouseId } : {};
+
+  const [stocks, movements] = await Promise.all([
+    tx.productStock.findMany({
+      where: { storageLocation: locationWhere },
+      select: { productId: true, storageLocationId: true, quantity: true },
+    }),
+    tx.stockMovement.findMany({
+      where: {
+        createdAt: { gte: days[0] },
+        OR: [{ fromLocation: locationWhere }, { toLocation: locationWhere }],
+      },
+      select: {
+        productId: true,
+        fromLocationId: true,
+        toLocationId: true,
+        quantity: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'desc' },
+    }),
+  ]);
+
+  const current = new Map<string, number>();
+  const key = (productId: string, locationId: string) => `${productId}|${locationId}`;
+
+  for (const stock of stocks) {
+    const k = key(stock.productId, stock.storageLocationId);
+    current.set(k, (current.get(k) || 0) + stock.quantity);
+  }
+  for (const m of movements) {
+    if (m.fromLocationId && !current.has(key(m.productId, m.fromLocationId))) current.set(key(m.productId, m.fromLocationId), 0);
+    if (m.toLocationId && !current.has(key(m.productId, m.toLocationId))) current.set(key(m.productId, m.toLocationId), 0);
+  }
+
+  // Walk days backwards, undoing movements made after the end of each day
+  const daily = new Map<string, number[]>();
+  for (const k of current.keys()) daily.set(k, new Array(days.length).fill(0));
+
+  const running = new Map(current);
+  let mi = 0;
+  for (let di = days.length - 1; di >= 0; di--) {
+    const dayEnd = new Date(days[di].getTime() + DAY_MS);
+    while (mi < movements.length && movements[mi].createdAt >= dayEnd) {
+      const m = movements[mi];
+      if (m.toLocationId) {
+        const k = key(m.productId, m.toLocationId);
+        running.set(k, (running.get(k) || 0) - m.quantity);
+      }
+      if (m.fromLocationId) {
+        const k = key(m.productId, m.fromLocationId);
+        running.set(k, (running.get(k) || 0) + m.quantity);
+      }
+      mi++;
+    }
+    for (const [k, qty] of running) {
+      daily.get(k)![di] = Math.max(qty, 0);
+    }
+  }
+
+  return daily;
+}
+
+/**
+ * Рассчитывает биллинг хранения за период: паллето-дни и кубометро-дни
+ * по клиентам и ячейкам, начисления поставщика и выставление клиентам.
+ * Ничего не записывает — используется и для dry-run, и для проведения.
+ */
+export async function calculateStorageBilling(tx: TransactionClient, params: StorageBillingParams) {
+  const periodFrom = startOfDay(params.periodFrom);
+  const periodTo = startOfDay(params.periodTo);
+  const days: Date[] = [];
+  for (let d = periodFrom.getTime(); d <= periodTo.getTime(); d += DAY_MS) {
+    days.push(new Date(d));
+  }
+  const periodDays = days.length;
+
+  const services = await tx.vendorService.findMany({
+    where: {
+      vendorId: params.vendorId,
+      type: 'STORAGE',
+      isActive: true,
+      unit: { in: STORAGE_UNITS },
+      validFrom: { lte: periodTo },
+      OR: [{ validTo: null }, { validTo: { gte: periodFrom } }],
+    },
+    orderBy: { validFrom: 'desc' },
+  });
+  const serviceByUnit = (unit: string) => services.find(s => s.unit === unit) || null;
+  const palletService = serviceByUnit('PALLET') || serviceByUnit('DAY');
+  const volumeService = serviceByUnit('CUBIC_METER');
+  const monthlyService = serviceByUnit('MONTH');
+
+  const daily = await loadDailyStock(tx, params, days);
+
+  const productIds = [...new Set([...daily.keys()].map(k => k.split('|')[0]))];
+  const locationIds = [...new Set([...daily.keys()].map(k => k.split('|')[1]))];
+
+  const [products, locations] = await Promise.all([
+    tx.product.findMany({
+      where: { id: { in: productIds } },
+      select: { id: true, clientId: true, unitVolume: true, client: { select: { id: true, name: true } } },
+    }),
+    tx.storageLocation.findMany({
+      where: { id: { in: locationIds } },
+      include: { warehouse: { select: { id: true, name: true } } },
+    }),
+  ]);
+  const productMap = new Map(products.map(p => [p.id, p]));
+  const locationMap = new Map(locations.map(l => [l.id, l]));
+
+  // Occupancy per (client, location) per day
+  const occupancy = new Map<string, { clientId: string | null; clientName: string | null; locationId: string; qty: number[]; volume: number[] }>();
+  for (const [k, quantities] of daily) {
+    const [productId, locationId] = k.split('|');
+    const product = productMap.get(productId);
+    if (!product || !locationMap.has(locationId)) continue;
+
+    const ok = `${product.clientId || ''}|${locationId}`;
+    if (!occupancy.has(ok)) {
+      occupancy.set(ok, {
+        clientId: product.clientId,
+        clientName: product.client?.name || null,
+        locationId,
+        qty: new Array(periodDays).fill(0),
+        volume: new Array(periodDays).fill(0),
+      });
+    }
+    const entry = occupancy.get(ok)!;
+    quantities.forEach((qty, di) => {
+      entry.qty[di] += qty;
+      entry.volume[di] += qty * Number(product.unitVolume);
+    });
+  }
+
+  const tariffCache = new Map<string, Awaited<ReturnType<typeof resolveClientTariff>>>();
+  const clientCache = new Map<string, number>();
+  const getClientTariff = async (clientId: string) => {
+    if (!tariffCache.has(clientId)) {
+      tariffCache.set(clientId, await resolveClientTariff(tx, clientId, periodTo));
+      const client = await tx.client.findUnique({ where: { id: clientId }, select: { tariffRate: true } });
+      clientCache.set(clientId, client?.tariffRate?.toNumber() || 1.3);
+    }
+    return { tariff: tariffCache.get(clientId)!, markup: clientCache.get(clientId)! };
+  };
+
+  const lines: StorageBillingLineResult[] = [];
+  const charges = new Map<string, ChargeLine[]>(); // clientId -> vendor charges
+
+  const addCharge = (clientId: string | null, service: { id: string; name: string; unit: string; price: unknown }, quantity: number, amount: number) => {
+    const k = clientId || '';
+    if (!charges.has(k)) charges.set(k, []);
+    const list = charges.get(k)!;
+    const existing = list.find(c => c.vendorServiceId === service.id);
+    if (existing) {
+      existing.quantity = round4(existing.quantity + quantity);
+      existing.amount = round2(existing.amount + amount);
+    } else {
+      list.push({
+        vendorServiceId: service.id,
+        serviceName: service.name,
+        unit: service.unit,
+        quantity: round4(quantity),
+        unitPrice: Number(service.price),
+        amount: round2(amount),
+      });
+    }
+  };
+
+  for (const entry of occupancy.values()) {
+    const location = locationMap.get(entry.locationId)!;
+    const capacity = locationCapacity(location);
+    const isPalletLocation = PALLET_LOCATION_TYPES.includes(location.type);
+
+    let palletDays = 0;
+    let volumeDays = 0;
+    let daysOccupied = 0;
+
+    for (let di = 0; di < periodDays; di++) {
+      if (entry.qty[di] <= 0) continue;
+      daysOccupied++;
+      volumeDays += entry.volume[di];
+      if (isPalletLocation) {
+        palletDays += capacity > 0 ? Math.max(1, Math.ceil(entry.volume[di] / capacity)) : 1;
+      }
+    }
+
+    if (daysOccupied === 0) continue;
+
+    // Vendor cost: pallet locations by pallet service, others by m³ service
+    let costAmount = 0;
+    let costBasis = 'нет подходящей услуги хранения';
+    const useService = isPalletLocation && palletService ? palletService : volumeService;
+    if (useService) {
+      const price = Number(useService.price);
+      if (useService.unit === 'PALLET') {
+        costAmount = (palletDays / periodDays) * price;
+        costBasis = `${palletDays} паллето-дн. / ${periodDays} × ${price}`;
+        addCharge(entry.clientId, useService, palletDays / periodDays, costAmount);
+      } else if (useService.unit === 'DAY') {
+        costAmount = palletDays * price;
+        costBasis = `${palletDays} паллето-дн. × ${price}`;
+        addCharge(entry.clientId, useService, palletDays, costAmount);
+      } else {
+        costAmount = (volumeDays / periodDays) * price;
+        costBasis = `${round4(volumeDays)} м³-дн. / ${periodDays} × ${price}`;
+        addCharge(entry.clientId, useService, volumeDays / periodDays, costAmount);
+      }
+    }
+
+    // Client income: tariff storage rate, otherwise cost with client markup
+    let incomeAmount = 0;
+    let incomeBasis = 'без владельца — не выставляется';
+    if (entry.clientId) {
+      const { tariff, markup } = await getClientTariff(entry.clientId);
+      const unit = isPalletLocation ? 'PALLET' : 'CUBIC_METER';
+      const rate = tariff
+        ? findStorageRate(tariff, unit) || (isPalletLocation ? findStorageRate(tariff, 'DAY') : null)
+        : null;
+
+      if (rate && rate.unit === 'DAY') {
+        incomeAmount = palletDays * Number(rate.price);
+        incomeBasis = `тариф: ${palletDays} паллето-дн. × ${Number(rate.price)}`;
+      } else if (rate) {
+        const units = unit === 'PALLET' ? palletDays : volumeDays;
+        incomeAmount = (units / periodDays) * Number(rate.price);
+        incomeBasis = `тариф: ${round4(units)} ${unit === 'PALLET' ? 'паллето' : 'м³'}-дн. / ${periodDays} × ${Number(rate.price)}`;
+      } else {
+        incomeAmount = costAmount * markup;
+        incomeBasis = `себестоимость × ${markup}`;
+      }
+    }
+
+    lines.push({
+      clientId: entry.clientId,
+      clientName: entry.clientName,
+      storageLocationId: location.id,
+      locationCode: location.code,
+      warehouseName: location.warehouse.name,
+      palletDays,
+      volumeDays: round4(volumeDays),
+      daysOccupied,
+      costAmount: round2(costAmount),
+      incomeAmount: round2(incomeAmount),
+      costBasis,
+      incomeBasis,
+    });
+  }
+
+  // Monthly flat fee per client with any stock in the period
+  const clientIds = [...new Set(lines.map(l => l.clientId).filter((id): id is string => !!id))];
+  const monthlyFees: Array<{ clientId: string; costAmount: number; incomeAmount: number }> = [];
+  for (const clientId of clientIds) {
+    const { tariff } = await getClientTariff(clientId);
+    const rate = tariff ? findStorageRate(tariff, 'MONTH') : null;
+    if (!monthlyService && !rate) continue;
+
+    const costAmount = monthlyService ? Number(monthlyService.price) : 0;
+    if (monthlyService) addCharge(clientId, monthlyService, 1, costAmount);
+    monthlyFees.push({ clientId, costAmount, incomeAmount: rate ? Number(rate.price) : 0 });
+  }
+
+  const clients = clientIds.map(clientId => {
+    const clientLines = lines.filter(l => l.clientId === clientId);
+    const fee = monthlyFees.find(f => f.clientId === clientId);
+    return {
+      clientId,
+      clientName: clientLines[0].clientName,
+      palletDays: clientLines.reduce((sum, l) => sum + l.palletDays, 0),
+      volumeDays: round4(clientLines.reduce((sum, l) => sum + l.volumeDays, 0)),
+      costAmount: round2(clientLines.reduce((sum, l) => sum + l.costAmount, 0) + (fee?.costAmount || 0)),
+      incomeAmount: round2(clientLines.reduce((sum, l) => sum + l.incomeAmount, 0) + (fee?.incomeAmount || 0)),
+      charges: charges.get(clientId) || [],
+    };
+  });
+
+  const unallocatedLines = lines.filter(l => !l.clientId);
+
+  return {
+    vendorId: params.vendorId,
+    periodFrom,
+    periodTo,
+    periodDays,
+    services: services.map(s => ({ id: s.id, name: s.name, unit: s.unit, price: Number(s.price) })),
+    lines,
+    clients,
+    unallocated: {
+      lines: unallocatedLines.length,
+      costAmount: round2(unallocatedLines.reduce((sum, l) => sum + l.costAmount, 0)),
+    },
+    totals: {
+      palletDays: lines.reduce((sum, l) => sum + l.palletDays, 0),
+      volumeDays: round4(lines.reduce((sum, l) => sum + l.volumeDays, 0)),
+      costAmount: round2(clients.reduce((sum, c) => sum + c.costAmount, 0)),
+      incomeAmount: round2(clients.reduce((sum, c) => sum + c.incomeAmount, 0)),
+    },
+  };
+}
+
+export type StorageBillingResult = Awaited<ReturnType<typeof calculateStorageBilling>>;
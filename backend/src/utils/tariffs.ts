@@ -0,0 +1,266 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+
+// Helper type for transaction client
+type TransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+type TariffWithRates = Prisma.ClientTariffGetPayload<{ include: { rates: true } }>;
+
+export const TARIFF_RATE_TYPES = ['FULFILLMENT', 'PALLET_DELIVERY', 'BOX_DELIVERY', 'ORDER', 'STORAGE', 'RETURNS'];
+
+export const DEFAULT_TARIFF_NAME = 'MPSELL Фулфилмент (базовый)';
+
+// Тарифы фулфилмента (₽ за штуку по категории товара)
+export const DEFAULT_FULFILLMENT_RATES: Record<string, number> = {
+  'Шапки': 30,
+  'Штаны': 50,
+  'Куртки': 55,
+  'Инструменты': 80,
+  'Другое': 40,
+};
+
+// Тарифы доставки палет (₽ за палету по складу назначения)
+export const DEFAULT_PALLET_DELIVERY_RATES: Record<string, number> = {
+  'Электросталь': 2000,
+  'Коледино': 2000,
+  'Рязань': 3000,
+  'Тула': 3000,
+  'Краснодар': 6300,
+  'Подольск': 2500,
+  'Казань': 4000,
+  'Хоругвино': 2500,
+  'Невинномысск': 5500,
+  'СЦ Вёшки': 2000,
+  'Пушкино': 2000,
+};
+
+// Тарифы коробов по направлениям (₽ за короб по складу назначения)
+export const DEFAULT_BOX_DELIVERY_RATES: Record<string, number> = {
+  'Электросталь': 200,
+  'Коледино': 200,
+  'Рязань': 300,
+  'Тула': 300,
+  'Краснодар': 500,
+  'Подольск': 250,
+  'Казань': 400,
+  'Хоругвино': 250,
+  'Невинномысск': 450,
+  'СЦ Вёшки': 200,
+  'Пушкино': 200,
+};
+
+export interface TariffOrderInput {
+  items: Array<{ name?: string; category?: string | null; quantity: number; unitPrice?: number }>;
+  destination?: string | null;
+  palletCount?: number;
+  boxCount?: number;
+}
+
+export interface TariffLine {
+  rateId: string;
+  rateType: string;
+  itemIndex: number | null; // индекс позиции заказа (для FULFILLMENT)
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+const sameText = (a?: string | null, b?: string | null) =>
+  (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+/**
+ * Находит действующий тариф клиента на дату.
+ * Сначала ищется собственный тариф клиента, затем тариф по умолчанию.
+ */
+export async function resolveClientTariff(
+  tx: TransactionClient,
+  clientId: string,
+  date: Date = new Date()
+): Promise<TariffWithRates | null> {
+  const validAt = {
+    isActive: true,
+    validFrom: { lte: date },
+    OR: [{ validTo: null }, { validTo: { gte: date } }],
+  };
+
+  const own = await tx.clientTariff.findFirst({
+    where: { clientId, ...validAt },
+    include: { rates: true },
+    orderBy: { validFrom: 'desc' },
+  });
+  if (own) return own;
+
+  return tx.clientTariff.findFirst({
+    where: { clientId: null, isDefault: true, ...validAt },
+    include: { rates: true },
+    orderBy: { validFrom: 'desc' },
+  });
+}
+
+/**
+ * Подбирает ставку: точное совпадение ключа важнее ставки "для всех" (ключ = null)
+ */
+function findRate(
+  rates: TariffWithRates['rates'],
+  rateType: string,
+  key: 'productCategory' | 'destination',
+  value?: string | null
+) {
+  const candidates = rates.filter(r => r.rateType === rateType);
+  return (
+    candidates.find(r => r[key] && sameText(r[key], value)) ||
+    candidates.find(r => !r[key]) ||
+    null
+  );
+}
+
+/**
+ * Рассчитывает выручку заказа по тарифу построчно:
+ * фулфилмент по категории каждой позиции, палеты и коробы по складу назначения,
+ * фиксированная ставка за заказ.
+ * Позиции и доставки без ставки не оцениваются: по ним возвращаются предупреждения
+ * (кроме позиций с ценой, указанной вручную)
+ */
+export function calculateTariffIncome(tariff: TariffWithRates, order: TariffOrderInput) {
+  const lines: TariffLine[] = [];
+  const unmatchedItems: number[] = [];
+  const warnings: string[] = [];
+
+  order.items.forEach((item, index) => {
+    const category = item.category || null;
+    const rate = findRate(tariff.rates, 'FULFILLMENT', 'productCategory', category);
+    if (!rate) {
+      unmatchedItems.push(index);
+      if (!item.unitPrice) {
+        warnings.push(
+          `Нет ставки фулфилмента в тарифе «${tariff.name}» для «${item.name || 'товар'}»`
+          + `${category ? ` (категория «${category}»)` : ''}: укажите цену позиции вручную`
+        );
+      }
+      return;
+    }
+    const unitPrice = Number(rate.price);
+    lines.push({
+      rateId: rate.id,
+      rateType: rate.rateType,
+      itemIndex: index,
+      description: `Фулфилмент: ${category || item.name || 'товар'}`,
+      quantity: item.quantity,
+      unitPrice,
+      amount: unitPrice * item.quantity,
+    });
+  });
+
+  const deliveries: Array<[string, number, string]> = [
+    ['PALLET_DELIVERY', order.palletCount || 0, 'Доставка палеты'],
+    ['BOX_DELIVERY', order.boxCount || 0, 'Доставка короба'],
+  ];
+
+  for (const [rateType, quantity, label] of deliveries) {
+    if (quantity <= 0) continue;
+    const rate = findRate(tariff.rates, rateType, 'destination', order.destination);
+    if (!rate) {
+      warnings.push(
+        `Нет ставки «${label}» в тарифе «${tariff.name}»`
+        + `${order.destination ? ` для склада «${order.destination}»` : ''}: ${quantity} шт. не оценены`
+      );
+      continue;
+    }
+    const unitPrice = Number(rate.price);
+    lines.push({
+      rateId: rate.id,
+      rateType,
+      itemIndex: null,
+      description: `${label}: ${order.destination || rate.destination || 'без направления'}`,
+      quantity,
+      unitPrice,
+      amount: unitPrice * quantity,
+    });
+  }
+
+  const orderRate = findRate(tariff.rates, 'ORDER', 'destination', order.destination);
+  if (orderRate) {
+    lines.push({
+      rateId: orderRate.id,
+      rateType: 'ORDER',
+      itemIndex: null,
+      description: orderRate.notes || 'Обработка заказа',
+      quantity: 1,
+      unitPrice: Number(orderRate.price),
+      amount: Number(orderRate.price),
+    });
+  }
+
+  return {
+    tariffId: tariff.id,
+    tariffName: tariff.name,
+    lines,
+    unmatchedItems,
+    warnings,
+    total: lines.reduce((sum, l) => sum + l.amount, 0),
+  };
+}
+
+/**
+ * Ставка хранения по единице (PALLET, CUBIC_METER — за месяц, DAY — за паллето-день, MONTH — абонплата)
+ */
+export function findStorageRate(tariff: TariffWithRates, unit: string) {
+  return tariff.rates.find(r => r.rateType === 'STORAGE' && r.unit === unit) || null;
+}
+
+/**
+ * Ставка за обработку возврата (PIECE — за единицу, иначе — за возврат)
+ */
+export function findReturnRate(tariff: TariffWithRates) {
+  return tariff.rates.find(r => r.rateType === 'RETURNS') || null;
+}
+
+/**
+ * Создает (или обновляет) тариф по умолчанию из тарифной сетки MPSELL
+ */
+export async function loadDefaultTariff(tx: TransactionClient) {
+  const rates: Array<Prisma.ClientTariffRateCreateWithoutTariffInput> = [
+    ...Object.entries(DEFAULT_FULFILLMENT_RATES).map(([category, price]) => ({
+      rateType: 'FULFILLMENT',
+      productCategory: category === 'Другое' ? null : category,
+      unit: 'PIECE',
+      price,
+    })),
+    ...Object.entries(DEFAULT_PALLET_DELIVERY_RATES).map(([destination, price]) => ({
+      rateType: 'PALLET_DELIVERY',
+      destination,
+      unit: 'PALLET',
+      price,
+    })),
+    ...Object.entries(DEFAULT_BOX_DELIVERY_RATES).map(([destination, price]) => ({
+      rateType: 'BOX_DELIVERY',
+      destination,
+      unit: 'BOX',
+      price,
+    })),
+  ];
+
+  const existing = await tx.clientTariff.findFirst({
+    where: { clientId: null, name: DEFAULT_TARIFF_NAME },
+  });
+
+  if (existing) {
+    await tx.clientTariffRate.deleteMany({ where: { tariffId: existing.id } });
+    return tx.clientTariff.update({
+      where: { id: existing.id },
+      data: { isDefault: true, isActive: true, rates: { create: rates } },
+      include: { rates: true },
+    });
+  }
+
+  return tx.clientTariff.create({
+    data: {
+      name: DEFAULT_TARIFF_NAME,
+      isDefault: true,
+      validFrom: new Date('2025-01-01'),
+      notes: 'Тарифная сетка из "MPSELL _ Фулфилмент.xlsx"',
+      rates: { create: rates },
+    },
+    include: { rates: true },
+  });
+}
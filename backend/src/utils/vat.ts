@@ -0,0 +1,95 @@
+import { PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+
+// Helper type for transaction client
+type TransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+// Ставки НДС; 0 — без НДС (УСН, освобождение)
+export const VAT_RATES = [0, 10, 20];
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+export function assertVatRate(rate: number) {
+  if (!VAT_RATES.includes(rate)) {
+    throw new AppError(`Недопустимая ставка НДС: ${rate}%`, 400);
+  }
+}
+
+/**
+ * НДС, включенный в сумму: сумма × ставка / (100 + ставка)
+ */
+export function vatFromGross(amount: number, rate: number) {
+  return rate > 0 ? round2((amount * rate) / (100 + rate)) : 0;
+}
+
+/**
+ * Сумма с НДС → ставка, сумма без НДС и НДС (для записи в операцию)
+ */
+export function splitVat(gross: number, rate: number) {
+  const vatAmount = vatFromGross(gross, rate);
+  return { vatRate: rate, netAmount: round2(gross - vatAmount), vatAmount };
+}
+
+/**
+ * Ставка НДС по договору клиента, по умолчанию — ставка компании
+ */
+export async function getClientVatRate(tx: TransactionClient, clientId: string) {
+  const client = await tx.client.findUnique({ where: { id: clientId }, select: { vatRate: true } });
+  if (client && client.vatRate !== null) return client.vatRate.toNumber();
+
+  const company = await tx.companySettings.findUnique({ where: { id: 'default' }, select: { vatRate: true } });
+  return company ? company.vatRate.toNumber() : 20;
+}
+
+/**
+ * Ставка НДС услуги поставщика (0, если услуга не указана)
+ */
+export async function getServiceVatRate(tx: TransactionClient, vendorServiceId: string | null | undefined) {
+  if (!vendorServiceId) return 0;
+  const service = await tx.vendorService.findUnique({ where: { id: vendorServiceId }, select: { vatRate: true } });
+  return service ? service.vatRate.toNumber() : 0;
+}
+
+/**
+ * Пересчитывает суммы без НДС и НДС операций по сохраненной ставке.
+ * Вызывается после любого изменения суммы операции
+ */
+export async function refreshIncomeVat(tx: TransactionClient, incomeOperationId: string) {
+  const operation = await tx.incomeOperation.findUnique({ where: { id: incomeOperationId } });
+  if (!operation) return null;
+  return tx.incomeOperation.update({
+    where: { id: operation.id },
+    data: splitVat(operation.invoiceAmount.toNumber(), operation.vatRate.toNumber()),
+  });
+}
+
+export async function refreshCostVat(tx: TransactionClient, costOperationId: string) {
+  const operation = await tx.costOperation.findUnique({ where: { id: costOperationId } });
+  if (!operation) return null;
+  return tx.costOperation.update({
+    where: { id: operation.id },
+    data: splitVat(operation.actualAmount.toNumber(), operation.vatRate.toNumber()),
+  });
+}
+
+export async function refreshExpenseVat(tx: TransactionClient, orderExpenseId: string) {
+  const expense = await tx.orderExpense.findUnique({ where: { id: orderExpenseId } });
+  if (!expense) return null;
+  const gross = expense.actualAmount.toNumber() > 0 ? expense.actualAmount.toNumber() : expense.totalAmount.toNumber();
+  return tx.orderExpense.update({
+    where: { id: expense.id },
+    data: splitVat(gross, expense.vatRate.toNumber()),
+  });
+}
+
+/**
+ * Доля суммы без НДС в суммах с НДС (1, если сумм нет) — для пересчета
+ * итогов заказа, которые хранятся с НДС
+ */
+export function netShare(items: { gross: number; net: number }[]) {
+  const gross = items.reduce((sum, i) => sum + i.gross, 0);
+  const net = items.reduce((sum, i) => sum + i.net, 0);
+  return gross !== 0 ? net / gross : 1;
+}
@@ -0,0 +1,669 @@
+import { PrismaClient } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+import { createVendorPaymentEntry } from './financeHelpers';
+import { refreshOrderProfit } from './returns';
+import { syncCostPosting, syncExpensePosting } from './autoPostings';
+import { postJournalEntry } from './posting';
+import { BASE_CURRENCY, getExchangeRate } from './currency';
+
+// Helper type for transaction client
+type TransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const VENDOR_BILL_STATUSES = ['DRAFT', 'APPROVED', 'PARTIALLY_PAID', 'PAID', 'CANCELLED'];
+
+// Счета, по которым есть кредиторская задолженность
+export const OPEN_BILL_STATUSES = ['APPROVED', 'PARTIALLY_PAID'];
+
+// Интервалы просрочки в днях от срока оплаты
+export const PAYABLES_AGING_BUCKETS = [
+  { key: 'current', label: 'В срок', from: -Infinity, to: 0 },
+  { key: '1-30', label: '1–30 дней', from: 1, to: 30 },
+  { key: '31-60', label: '31–60 дней', from: 31, to: 60 },
+  { key: '61-90', label: '61–90 дней', from: 61, to: 90 },
+  { key: '90+', label: 'более 90 дней', from: 91, to: Infinity },
+];
+
+export interface CreateVendorBillInput {
+  vendorId: string;
+  invoiceNumber: string;
+  invoiceDate: Date;
+  dueDate?: Date;
+  periodFrom: Date;
+  periodTo: Date;
+  invoiceAmount: number;
+  currency?: string; // валютный счет: сумма в рублях = сумма в валюте × курс на дату счета
+  currencyAmount?: number;
+  notes?: string;
+  costOperationIds?: string[]; // без списка — все неучтенные расходы за период
+  orderExpenseIds?: string[];
+}
+
+export interface VendorPayable {
+  vendorId: string;
+  vendorName: string;
+  billed: number;
+  paid: number;
+  balance: number;
+  buckets: Record<string, number>;
+  overdue: number;
+  openBills: number;
+  unbilled: number; // расходы, на которые счет еще не получен
+}
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function emptyBuckets() {
+  return Object.fromEntries(PAYABLES_AGING_BUCKETS.map(b => [b.key, 0])) as Record<string, number>;
+}
+
+// Расход заказа: факт, если внесен, иначе расчетная сумма
+function expenseAmount(expense: { actualAmount: { toNumber(): number }; totalAmount: { toNumber(): number } }) {
+  const actual = expense.actualAmount.toNumber();
+  return actual > 0 ? actual : expense.totalAmount.toNumber();
+}
+
+// Строка уже включена в действующий счет
+const NOT_BILLED = { billLines: { none: { bill: { status: { not: 'CANCELLED' } } } } };
+
+/**
+ * Генерирует номер счета поставщика в формате VB-YYYYMMDD-NNNN
+ */
+export async function generateVendorBillNumber(tx: TransactionClient): Promise<string> {
+  const today = new Date();
+  const prefix = `VB-${today.getFullYear()}${String(today.getMonth() + 1).padStart(2, '0')}${String(today.getDate()).padStart(2, '0')}`;
+
+  const last = await tx.vendorBill.findFirst({
+    where: { billNumber: { startsWith: prefix } },
+    orderBy: { billNumber: 'desc' },
+  });
+
+  let seq = 1;
+  if (last) {
+    seq = parseInt(last.billNumber.split('-').pop() || '0') + 1;
+  }
+
+  return `${prefix}-${String(seq).padStart(4, '0')}`;
+}
+
+/**
+ * Цена услуги по прайсу на дату: старая цена первого изменения после даты,
+ * если такое было, иначе текущая цена
+ */
+export function contractPriceAt(
+  service: { price: { toNumber(): number }; priceHistory: Array<{ oldPrice: { toNumber(): number }; changedAt: Date }> },
+  date: Date
+): number {
+  const next = service.priceHistory
+    .filter(h => h.changedAt > date)
+    .sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime())[0];
+  return next ? next.oldPrice.toNumber() : service.price.toNumber();
+}
+
+/**
+ * Отклонения строки счета от нашего расчета и от цены по прайсу
+ */
+export function computeLineVariance(line: {
+  quantity: number;
+  contractUnitPrice: number | null;
+  expectedAmount: number;
+  billedAmount: number;
+}) {
+  const amountVariance = round2(line.billedAmount - line.expectedAmount);
+  const priceVariance =
+    line.contractUnitPrice !== null && line.quantity > 0
+      ? round2(line.billedAmount / line.quantity - line.contractUnitPrice)
+      : 0;
+
+  const flags = [];
+  if (Math.abs(priceVariance) >= 0.01) flags.push('PRICE');
+  if (Math.abs(amountVariance) >= 0.01) flags.push('AMOUNT');
+
+  return { amountVariance, priceVariance, flags: flags.length > 0 ? flags.join(',') : null };
+}
+
+/**
+ * Расходы поставщика, еще не включенные в счета: расходные операции по дате
+ * операции и расходы заказов по дате создания
+ */
+export async function getUnbilledVendorItems(
+  tx: TransactionClient,
+  vendorId: string,
+  period: { from?: Date; to?: Date } = {}
+) {
+  const range = period.from || period.to
+    ? { ...(period.from ? { gte: period.from } : {}), ...(period.to ? { lte: period.to } : {}) }
+    : undefined;
+
+  const serviceInclude = {
+    select: {
+      id: true,
+      name: true,
+      unit: true,
+      price: true,
+      priceHistory: { select: { oldPrice: true, changedAt: true } },
+    },
+  };
+
+  const costOperations = await tx.costOperation.findMany({
+    where: { vendorId, ...(range ? { operationDate: range } : {}), ...NOT_BILLED },
+    include: {
+      order: { select: { id: true, orderNumber: true } },
+      vendorService: serviceInclude,
+    },
+    orderBy: { operationDate: 'asc' },
+  });
+
+  const orderExpenses = await tx.orderExpense.findMany({
+    where: { vendorId, ...(range ? { createdAt: range } : {}), ...NOT_BILLED },
+    include: {
+      order: { select: { id: true, orderNumber: true } },
+      vendorService: serviceInclude,
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return { costOperations, orderExpenses };
+}
+
+/**
+ * Пересчитывает итоги счета и статус сверки.
+ * Расхождение — сумма документа не равна нашему расчету или есть строки с флагами.
+ */
+export async function refreshVendorBillTotals(tx: TransactionClient, billId: string) {
+  const bill = await tx.vendorBill.findUnique({ where: { id: billId }, include: { lines: true } });
+  if (!bill) {
+    throw new AppError('Счет поставщика не найден', 404);
+  }
+
+  const expectedAmount = round2(bill.lines.reduce((sum, l) => sum + l.expectedAmount.toNumber(), 0));
+  const billedAmount = round2(bill.lines.reduce((sum, l) => sum + l.billedAmount.toNumber(), 0));
+  const varianceAmount = round2(bill.invoiceAmount.toNumber() - expectedAmount);
+  const hasVariance = Math.abs(varianceAmount) >= 0.01 || bill.lines.some(l => !!l.flags);
+
+  return tx.vendorBill.update({
+    where: { id: billId },
+    data: {
+      expectedAmount,
+      billedAmount,
+      varianceAmount,
+      matchStatus: hasVariance ? 'VARIANCE' : 'MATCHED',
+    },
+  });
+}
+
+/**
+ * Создает черновик счета поставщика из неучтенных расходов за период.
+ * Сумма по счету в строке изначально равна текущей фактической сумме расхода.
+ */
+export async function createVendorBill(tx: TransactionClient, input: CreateVendorBillInput, userId?: string) {
+  const { costOperations, orderExpenses } = await getUnbilledVendorItems(tx, input.vendorId, {
+    from: input.periodFrom,
+    to: input.periodTo,
+  });
+
+  const operations = input.costOperationIds
+    ? costOperations.filter(op => input.costOperationIds!.includes(op.id))
+    : costOperations;
+  const expenses = input.orderExpenseIds
+    ? orderExpenses.filter(e => input.orderExpenseIds!.includes(e.id))
+    : orderExpenses;
+
+  if (operations.length === 0 && expenses.length === 0) {
+    throw new AppError('За период нет расходов поставщика, не включенных в счета', 400);
+  }
+
+  const lines = [
+    ...operations.map(op => {
+      const quantity = op.quantity.toNumber();
+      const contractUnitPrice = contractPriceAt(op.vendorService, op.operationDate);
+      const expectedAmount = op.calculatedAmount.toNumber();
+      const billedAmount = op.actualAmount.toNumber();
+      return {
+        costOperationId: op.id,
+        orderId: op.orderId,
+        vendorServiceId: op.vendorServiceId,
+        description: `${op.order.orderNumber}: ${op.description || op.vendorService.name}`,
+        quantity,
+        contractUnitPrice,
+        expectedAmount,
+        billedAmount,
+        ...computeLineVariance({ quantity, contractUnitPrice, expectedAmount, billedAmount }),
+      };
+    }),
+    ...expenses.map(expense => {
+      const quantity = expense.quantity.toNumber();
+      const contractUnitPrice = expense.vendorService ? contractPriceAt(expense.vendorService, expense.createdAt) : null;
+      const expectedAmount = expense.totalAmount.toNumber();
+      const billedAmount = expenseAmount(expense);
+      return {
+        orderExpenseId: expense.id,
+        orderId: expense.orderId,
+        vendorServiceId: expense.vendorServiceId,
+        description: `${expense.order.orderNumber}: ${expense.description}`,
+        quantity,
+        contractUnitPrice,
+        expectedAmount,
+        billedAmount,
+        ...computeLineVariance({ quantity, contractUnitPrice, expectedAmount, billedAmount }),
+      };
+    }),
+  ];
+
+  const currency = input.currency || BASE_CURRENCY;
+  let invoiceAmount = round2(input.invoiceAmount);
+  let exchangeRate = 1;
+  if (currency !== BASE_CURRENCY) {
+    if (!(Number(input.currencyAmount) > 0)) {
+      throw new AppError('Укажите сумму счета в валюте', 400);
+    }
+    exchangeRate = await getExchangeRate(tx, currency, input.invoiceDate);
+    invoiceAmount = round2(input.currencyAmount! * exchangeRate);
+  }
+
+  const bill = await tx.vendorBill.create({
+    data: {
+      billNumber: await generateVendorBillNumber(tx),
+      vendorId: input.vendorId,
+      invoiceNumber: input.invoiceNumber,
+      invoiceDate: input.invoiceDate,
+      dueDate: input.dueDate,
+      periodFrom: input.periodFrom,
+      periodTo: input.periodTo,
+      invoiceAmount,
+      currency,
+      currencyAmount: currency !== BASE_CURRENCY ? input.currencyAmount : null,
+      exchangeRate,
+      notes: input.notes,
+      createdById: userId,
+      lines: { create: lines },
+    },
+  });
+
+  return refreshVendorBillTotals(tx, bill.id);
+}
+
+async function getDraftBill(tx: TransactionClient, billId: string) {
+  const bill = await tx.vendorBill.findUnique({ where: { id: billId } });
+  if (!bill) {
+    throw new AppError('Счет поставщика не найден', 404);
+  }
+  if (bill.status !== 'DRAFT') {
+    throw new AppError('Изменять можно только черновик счета', 400);
+  }
+  return bill;
+}
+
+/**
+ * Меняет сумму по счету поставщика в строке черновика
+ */
+export async function updateVendorBillLine(
+  tx: TransactionClient,
+  billId: string,
+  lineId: string,
+  billedAmount: number
+) {
+  await getDraftBill(tx, billId);
+
+  const line = await tx.vendorBillLine.findFirst({ where: { id: lineId, billId } });
+  if (!line) {
+    throw new AppError('Строка счета не найдена', 404);
+  }
+
+  const amount = round2(billedAmount);
+  await tx.vendorBillLine.update({
+    where: { id: lineId },
+    data: {
+      billedAmount: amount,
+      ...computeLineVariance({
+        quantity: line.quantity.toNumber(),
+        contractUnitPrice: line.contractUnitPrice?.toNumber() ?? null,
+        expectedAmount: line.expectedAmount.toNumber(),
+        billedAmount: amount,
+      }),
+    },
+  });
+
+  return refreshVendorBillTotals(tx, billId);
+}
+
+/**
+ * Исключает строку из черновика: расход снова доступен для других счетов
+ */
+export async function removeVendorBillLine(tx: TransactionClient, billId: string, lineId: string) {
+  await getDraftBill(tx, billId);
+
+  const line = await tx.vendorBillLine.findFirst({ where: { id: lineId, billId } });
+  if (!line) {
+    throw new AppError('Строка счета не найдена', 404);
+  }
+
+  await tx.vendorBillLine.delete({ where: { id: lineId } });
+  return refreshVendorBillTotals(tx, billId);
+}
+
+/**
+ * Утверждает счет: суммы по счету становятся фактическими суммами расходов,
+ * себестоимость и прибыль заказов пересчитываются. Счет с расхождением
+ * утверждается только с явным подтверждением.
+ */
+export async function approveVendorBill(
+  tx: TransactionClient,
+  billId: string,
+  userId?: string,
+  acceptVariance = false
+) {
+  await getDraftBill(tx, billId);
+  const bill = await refreshVendorBillTotals(tx, billId);
+
+  const lines = await tx.vendorBillLine.findMany({
+    where: { billId },
+    include: { costOperation: true, orderExpense: true },
+  });
+  if (lines.length === 0) {
+    throw new AppError('В счете нет строк', 400);
+  }
+  if (Math.abs(bill.billedAmount.toNumber() - bill.invoiceAmount.toNumber()) >= 0.01) {
+    throw new AppError(
+      `Сумма строк (${bill.billedAmount.toNumber()}) не совпадает с суммой счета поставщика (${bill.invoiceAmount.toNumber()})`,
+      400
+    );
+  }
+  if (bill.matchStatus === 'VARIANCE' && !acceptVariance) {
+    throw new AppError('Счет расходится с расчетом или прайсом — подтвердите расхождение', 400);
+  }
+
+  const costDelta = new Map<string, number>();
+  for (const line of lines) {
+    const billed = line.billedAmount.toNumber();
+    let previous: number | null = null;
+
+    if (line.costOperation) {
+      previous = line.costOperation.actualAmount.toNumber();
+      await tx.costOperation.update({
+        where: { id: line.costOperation.id },
+        data: { actualAmount: billed },
+      });
+      // Billed amount differs from the estimate: correcting Dr 90.2 / Cr 60
+      await syncCostPosting(tx, line.costOperation.id);
+    } else if (line.orderExpense) {
+      previous = expenseAmount(line.orderExpense);
+      await tx.orderExpense.update({
+        where: { id: line.orderExpense.id },
+        data: { actualAmount: billed, status: 'ACTUAL' },
+      });
+      await syncExpensePosting(tx, line.orderExpense.id);
+    }
+
+    if (previous !== null) {
+      costDelta.set(line.orderId, (costDelta.get(line.orderId) || 0) + billed - previous);
+    }
+  }
+
+  for (const [orderId, delta] of costDelta) {
+    if (Math.abs(delta) < 0.005) continue;
+    await tx.order.update({
+      where: { id: orderId },
+      data: { actualCost: { increment: round2(delta) } },
+    });
+    await refreshOrderProfit(tx, orderId);
+  }
+
+  return tx.vendorBill.update({
+    where: { id: billId },
+    data: { status: 'APPROVED', approvedById: userId, approvedAt: new Date() },
+  });
+}
+
+/**
+ * Регистрирует оплату счета поставщику (Дт 60 Кт 51).
+ * Валютный счет оплачивается суммой в валюте: задолженность гасится по курсу
+ * счета, списание с расчетного счета — по курсу оплаты, разница относится
+ * на прочие расходы (Дт 91.2) или доходы (Кт 91.1)
+ */
+export async function payVendorBill(
+  tx: TransactionClient,
+  billId: string,
+  input: { amount?: number; currencyAmount?: number; exchangeRate?: number; paymentDate?: Date; reference?: string },
+  userId?: string
+) {
+  const bill = await tx.vendorBill.findUnique({ where: { id: billId } });
+  if (!bill) {
+    throw new AppError('Счет поставщика не найден', 404);
+  }
+  if (!OPEN_BILL_STATUSES.includes(bill.status)) {
+    throw new AppError('Оплатить можно только утвержденный неоплаченный счет', 400);
+  }
+
+  const paymentDate = input.paymentDate || new Date();
+  const open = round2(bill.invoiceAmount.toNumber() - bill.paidAmount.toNumber());
+  const description = `Оплата счета поставщика ${bill.invoiceNumber} (${bill.billNumber})${input.reference ? `, п/п ${input.reference}` : ''}`;
+
+  let amount = round2(input.amount || 0);
+  let currencyFields = {};
+  let transactionId: string | undefined;
+
+  if (bill.currency !== BASE_CURRENCY) {
+    const currencyAmount = round2(input.currencyAmount || 0);
+    if (!(currencyAmount > 0)) {
+      throw new AppError(`Укажите сумму оплаты в ${bill.currency}`, 400);
+    }
+
+    const paid = await tx.vendorBillPayment.aggregate({ where: { billId }, _sum: { currencyAmount: true } });
+    const openCurrency = round2((bill.currencyAmount?.toNumber() || 0) - (paid._sum.currencyAmount?.toNumber() || 0));
+    if (currencyAmount > openCurrency + 0.005) {
+      throw new AppError(`Сумма превышает остаток к оплате (${openCurrency} ${bill.currency})`, 400);
+    }
+
+    const exchangeRate = input.exchangeRate || (await getExchangeRate(tx, bill.currency, paymentDate));
+    // Final payment closes the whole RUB balance, whatever the rounding
+    amount = currencyAmount >= openCurrency - 0.005 ? open : round2(currencyAmount * bill.exchangeRate.toNumber());
+    const paidAmount = round2(currencyAmount * exchangeRate);
+    const fxDifference = round2(paidAmount - amount);
+
+    const lines = [
+      { accountCode: '60', debit: amount },
+      { accountCode: '51', credit: paidAmount },
+    ];
+    if (fxDifference > 0) lines.push({ accountCode: '91.2', debit: fxDifference });
+    if (fxDifference < 0) lines.push({ accountCode: '91.1', credit: -fxDifference });
+
+    const entry = await postJournalEntry(tx, {
+      lines,
+      description,
+      entryDate: paymentDate,
+      source: 'VENDOR_PAYMENT',
+      createdById: userId,
+      skipMissingAccounts: true,
+    });
+    transactionId = entry?.transactions[0]?.id;
+    currencyFields = { currencyAmount, exchangeRate, paidAmount, fxDifference };
+  } else {
+    if (!(amount > 0)) {
+      throw new AppError('Сумма оплаты должна быть больше 0', 400);
+    }
+    if (amount > open + 0.005) {
+      throw new AppError(`Сумма превышает остаток к оплате (${open})`, 400);
+    }
+
+    const transaction = await createVendorPaymentEntry(tx, amount, description, undefined, paymentDate);
+    transactionId = transaction?.id;
+  }
+
+  const payment = await tx.vendorBillPayment.create({
+    data: {
+      billId,
+      amount,
+      ...currencyFields,
+      paymentDate,
+      reference: input.reference,
+      transactionId,
+      createdById: userId,
+    },
+  });
+
+  const paidAmount = round2(bill.paidAmount.toNumber() + amount);
+  await tx.vendorBill.update({
+    where: { id: billId },
+    data: {
+      paidAmount,
+      status: paidAmount >= bill.invoiceAmount.toNumber() - 0.005 ? 'PAID' : 'PARTIALLY_PAID',
+    },
+  });
+
+  return payment;
+}
+
+/**
+ * Аннулирует неоплаченный счет. Расходы снова доступны для выставления;
+ * фактические суммы, принятые при утверждении, не откатываются.
+ */
+export async function cancelVendorBill(tx: TransactionClient, billId: string) {
+  const bill = await tx.vendorBill.findUnique({ where: { id: billId } });
+  if (!bill) {
+    throw new AppError('Счет поставщика не найден', 404);
+  }
+  if (bill.status === 'CANCELLED') {
+    throw new AppError('Счет уже аннулирован', 400);
+  }
+  if (bill.paidAmount.toNumber() > 0) {
+    throw new AppError('По счету есть оплаты — аннулирование невозможно', 400);
+  }
+
+  return tx.vendorBill.update({
+    where: { id: billId },
+    data: { status: 'CANCELLED' },
+  });
+}
+
+/**
+ * Открытые утвержденные счета поставщика, самые старые первыми
+ */
+export async function getOpenVendorBills(tx: TransactionClient, vendorId: string) {
+  const bills = await tx.vendorBill.findMany({
+    where: { vendorId, status: { in: OPEN_BILL_STATUSES } },
+    orderBy: { invoiceDate: 'asc' },
+  });
+
+  return bills.map(bill => ({
+    ...bill,
+    openAmount: round2(bill.invoiceAmount.toNumber() - bill.paidAmount.toNumber()),
+  }));
+}
+
+/**
+ * Кредиторская задолженность поставщикам на дату с разбивкой по просрочке
+ * от срока оплаты (без срока — от даты счета). Оплаты учитываются на дату оплаты;
+ * неучтенные в счетах расходы показываются отдельно.
+ */
+export async function getPayablesAging(
+  tx: TransactionClient,
+  params: { asOf?: Date; vendorId?: string } = {}
+) {
+  const asOf = params.asOf || new Date();
+
+  const bills = await tx.vendorBill.findMany({
+    where: {
+      status: { notIn: ['DRAFT', 'CANCELLED'] },
+      invoiceDate: { lte: asOf },
+      ...(params.vendorId ? { vendorId: params.vendorId } : {}),
+    },
+    include: {
+      vendor: { select: { id: true, name: true } },
+      payments: { select: { amount: true, paymentDate: true } },
+    },
+    orderBy: { invoiceDate: 'asc' },
+  });
+
+  const byVendor = new Map<string, VendorPayable>();
+
+  const rowFor = (vendor: { id: string; name: string }) => {
+    let row = byVendor.get(vendor.id);
+    if (!row) {
+      row = {
+        vendorId: vendor.id,
+        vendorName: vendor.name,
+        billed: 0,
+        paid: 0,
+        balance: 0,
+        buckets: emptyBuckets(),
+        overdue: 0,
+        openBills: 0,
+        unbilled: 0,
+      };
+      byVendor.set(vendor.id, row);
+    }
+    return row;
+  };
+
+  for (const bill of bills) {
+    const row = rowFor(bill.vendor);
+
+    const billed = bill.invoiceAmount.toNumber();
+    const paid = bill.payments
+      .filter(p => p.paymentDate <= asOf)
+      .reduce((sum, p) => sum + p.amount.toNumber(), 0);
+    const open = billed - paid;
+
+    row.billed += billed;
+    row.paid += paid;
+    row.balance += open;
+
+    if (open > 0.005) {
+      const due = bill.dueDate || bill.invoiceDate;
+      const days = Math.floor((asOf.getTime() - due.getTime()) / DAY_MS);
+      const bucket = PAYABLES_AGING_BUCKETS.find(b => days >= b.from && days <= b.to)
+        || PAYABLES_AGING_BUCKETS[PAYABLES_AGING_BUCKETS.length - 1];
+      row.buckets[bucket.key] += open;
+      if (bucket !== PAYABLES_AGING_BUCKETS[0]) row.overdue += open;
+      row.openBills += 1;
+    }
+  }
+
+  // Costs incurred up to the date without a vendor bill
+  const vendorFilter = params.vendorId ? { vendorId: params.vendorId } : {};
+  const [operations, expenses] = await Promise.all([
+    tx.costOperation.findMany({
+      where: { ...vendorFilter, operationDate: { lte: asOf }, ...NOT_BILLED },
+      select: { actualAmount: true, vendor: { select: { id: true, name: true } } },
+    }),
+    tx.orderExpense.findMany({
+      where: { vendorId: params.vendorId || { not: null }, createdAt: { lte: asOf }, ...NOT_BILLED },
+      select: { actualAmount: true, totalAmount: true, vendor: { select: { id: true, name: true } } },
+    }),
+  ]);
+  for (const op of operations) {
+    rowFor(op.vendor).unbilled += op.actualAmount.toNumber();
+  }
+  for (const expense of expenses) {
+    if (expense.vendor) rowFor(expense.vendor).unbilled += expenseAmount(expense);
+  }
+
+  const vendors = [...byVendor.values()]
+    .map(row => ({
+      ...row,
+      billed: round2(row.billed),
+      paid: round2(row.paid),
+      balance: round2(row.balance),
+      overdue: round2(row.overdue),
+      unbilled: round2(row.unbilled),
+      buckets: Object.fromEntries(Object.entries(row.buckets).map(([k, v]) => [k, round2(v)])),
+    }))
+    .filter(row => Math.abs(row.balance) > 0.005 || row.unbilled > 0.005)
+    .sort((a, b) => b.balance - a.balance);
+
+  const totals = {
+    balance: round2(vendors.reduce((sum, v) => sum + v.balance, 0)),
+    unbilled: round2(vendors.reduce((sum, v) => sum + v.unbilled, 0)),
+    buckets: Object.fromEntries(
+      PAYABLES_AGING_BUCKETS.map(b => [b.key, round2(vendors.reduce((sum, v) => sum + v.buckets[b.key], 0))])
+    ),
+    overdue: round2(vendors.reduce((sum, v) => sum + v.overdue, 0)),
+    creditors: vendors.filter(v => v.balance > 0.005).length,
+  };
+
+  return { asOf, buckets: PAYABLES_AGING_BUCKETS.map(({ key, label }) => ({ key, label })), vendors, totals };
+}
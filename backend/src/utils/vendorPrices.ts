@@ -0,0 +1,595 @@
+import { PrismaClient } from '@prisma/client';
+import * as XLSX from 'xlsx';
+import { AppError } from '../middleware/errorHandler';
+import { BASE_CURRENCY, CURRENCIES, convertPrice } from './currency';
+import { recalculateOrderCost } from './orderExpenses';
+import { VAT_RATES } from './vat';
+
+// Helper type for transaction client
+type TransactionClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+// Расходы закрытых заказов не перецениваются
+const CLOSED_ORDER_STATUSES = ['COMPLETED', 'CANCELLED', 'RETURNED'];
+
+export interface PriceChangeInput {
+  row?: number; // строка файла (для сообщений об ошибках)
+  vendorServiceId?: string;
+  name?: string;
+  newPrice: number;
+}
+
+export interface PriceChangeRequest {
+  changes?: PriceChangeInput[];
+  percent?: number; // изменение всех активных услуг поставщика, %
+}
+
+export interface PriceChangeRowError {
+  row?: number;
+  vendorServiceId?: string;
+  name?: string;
+  error: string;
+}
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function round4(value: number) {
+  return Math.round(value * 10000) / 10000;
+}
+
+const normalizeName = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const parseNumber = (value: unknown) =>
+  typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/\s/g, '').replace(',', '.'));
+
+/**
+ * Изменение цены; процент не считается от нулевой старой цены
+ */
+export function priceDifference(oldPrice: number, newPrice: number) {
+  return {
+    difference: round4(newPrice - oldPrice),
+    differencePercent: oldPrice !== 0 ? round2(((newPrice - oldPrice) / oldPrice) * 100) : null,
+  };
+}
+
+/**
+ * Разбор файла новых цен: колонки «ID» или «Название» и «Новая цена» (или «Цена»)
+ */
+export function parsePriceChangeFile(buffer: Buffer): PriceChangeInput[] {
+  const workbook = XLSX.read(buffer, { type: 'buffer' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    throw new AppError('Файл не содержит листов', 400);
+  }
+
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet);
+  return rows.map((row, index) => {
+    const price = row['Новая цена'] ?? row['Цена'] ?? row['newPrice'] ?? row['price'];
+    return {
+      row: index + 2, // первая строка — заголовки
+      vendorServiceId: row['ID'] || row['id'] ? String(row['ID'] || row['id']).trim() : undefined,
+      name: row['Название'] || row['name'] ? String(row['Название'] || row['name']) : undefined,
+      newPrice: parseNumber(price),
+    };
+  });
+}
+
+/**
+ * Сопоставление новых цен с услугами поставщика (по ID или названию).
+ * Услуги с прежней ценой пропускаются, ошибки собираются по строкам
+ */
+async function resolvePriceChanges(tx: TransactionClient, vendorId: string, request: PriceChangeRequest) {
+  const services = await tx.vendorService.findMany({
+    where: { vendorId },
+    orderBy: { name: 'asc' },
+  });
+
+  const errors: PriceChangeRowError[] = [];
+  const targets = new Map<string, { service: typeof services[number]; newPrice: number }>();
+
+  if (request.percent !== undefined && request.percent !== null) {
+    const percent = Number(request.percent);
+    if (!isFinite(percent) || percent <= -100) {
+      throw new AppError('Изменение цены должно быть больше -100%', 400);
+    }
+    for (const service of services.filter(s => s.isActive)) {
+      targets.set(service.id, { service, newPrice: round4(service.price.toNumber() * (1 + percent / 100)) });
+    }
+  }
+
+  for (const change of request.changes || []) {
+    const ref = { row: change.row, vendorServiceId: change.vendorServiceId, name: change.name };
+    const service = change.vendorServiceId
+      ? services.find(s => s.id === change.vendorServiceId)
+      : change.name
+        ? services.find(s => normalizeName(s.name) === normalizeName(change.name!))
+        : undefined;
+
+    if (!change.vendorServiceId && !change.name) {
+      errors.push({ ...ref, error: 'Не указана услуга (ID или название)' });
+    } else if (!service) {
+      errors.push({ ...ref, error: `Услуга «${change.name || change.vendorServiceId}» не найдена у поставщика` });
+    } else if (!(Number(change.newPrice) > 0)) {
+      errors.push({ ...ref, error: `Неверная цена «${change.newPrice}» для услуги «${service.name}»` });
+    } else if (targets.has(service.id) && !request.percent) {
+      errors.push({ ...ref, error: `Услуга «${service.name}» указана несколько раз` });
+    } else {
+      targets.set(service.id, { service, newPrice: round4(Number(change.newPrice)) });
+    }
+  }
+
+  const changed = [...targets.values()].filter(t => t.newPrice !== t.service.price.toNumber());
+
+  return {
+    errors,
+    unchanged: targets.size - changed.length,
+    services: changed.map(({ service, newPrice }) => {
+      const oldPrice = service.price.toNumber();
+      return {
+        vendorServiceId: service.id,
+        name: service.name,
+        unit: service.unit,
+        currency: service.currency,
+        isActive: service.isActive,
+        oldPrice,
+        newPrice,
+        ...priceDifference(oldPrice, newPrice),
+      };
+    }),
+  };
+}
+
+/**
+ * Предпросмотр изменения цен: затронутые открытые расходы заказов
+ * (не FIXED, цена не зафиксирована, заказ не закрыт) и шаблоны расходов
+ */
+export async function previewPriceChanges(tx: TransactionClient, vendorId: string, request: PriceChangeRequest) {
+  const vendor = await tx.vendor.findUnique({ where: { id: vendorId }, select: { id: true, name: true } });
+  if (!vendor) {
+    throw new AppError('Поставщик не найден', 404);
+  }
+
+  const resolved = await resolvePriceChanges(tx, vendorId, request);
+  const newPrices = new Map(resolved.services.map(s => [s.vendorServiceId, s.newPrice]));
+  const serviceIds = [...newPrices.keys()];
+
+  const [expenses, templateItems] = await Promise.all([
+    tx.orderExpense.findMany({
+      where: {
+        vendorServiceId: { in: serviceIds },
+        status: { not: 'FIXED' },
+        isPriceLocked: false,
+        order: { status: { notIn: CLOSED_ORDER_STATUSES } },
+      },
+      include: {
+        order: { select: { id: true, orderNumber: true, status: true } },
+        vendorService: { select: { name: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    tx.expenseTemplateItem.findMany({
+      where: { vendorServiceId: { in: serviceIds } },
+      include: { template: { select: { id: true, name: true, isActive: true } } },
+    }),
+  ]);
+
+  const expenseImpact = expenses.map(expense => {
+    const newPrice = newPrices.get(expense.vendorServiceId!)!;
+    const quantity = expense.quantity.toNumber();
+    // Валютный расход пересчитывается по курсу, по которому он учтен
+    const newUnitPrice = expense.currency !== BASE_CURRENCY
+      ? convertPrice(newPrice, expense.exchangeRate.toNumber())
+      : newPrice;
+    const newTotal = round2(quantity * newUnitPrice);
+    return {
+      expenseId: expense.id,
+      order: expense.order,
+      description: expense.description,
+      service: expense.vendorService?.name,
+      status: expense.status,
+      quantity,
+      currency: expense.currency,
+      unitPrice: expense.unitPrice.toNumber(),
+      newUnitPrice,
+      newCurrencyPrice: expense.currency !== BASE_CURRENCY ? newPrice : null,
+      totalAmount: expense.totalAmount.toNumber(),
+      newTotal,
+      impact: round2(newTotal - expense.totalAmount.toNumber()),
+    };
+  });
+
+  const templates = templateItems.map(item => ({
+    templateId: item.template.id,
+    templateName: item.template.name,
+    isActive: item.template.isActive,
+    itemId: item.id,
+    description: item.description,
+    service: resolved.services.find(s => s.vendorServiceId === item.vendorServiceId)!.name,
+    newPrice: newPrices.get(item.vendorServiceId!)!,
+  }));
+
+  return {
+    vendor,
+    services: resolved.services,
+    errors: resolved.errors,
+    expenses: expenseImpact,
+    templates,
+    totals: {
+      services: resolved.services.length,
+      unchanged: resolved.unchanged,
+      expenses: expenseImpact.length,
+      orders: new Set(expenseImpact.map(e => e.order.id)).size,
+      templates: new Set(templates.map(t => t.templateId)).size,
+      impact: round2(expenseImpact.reduce((sum, e) => sum + e.impact, 0)),
+    },
+  };
+}
+
+/**
+ * Применение новых цен: история цен, цены услуг и цены по умолчанию в шаблонах,
+ * по желанию — перецена открытых расходов и пересчет себестоимости их заказов.
+ * При ошибках в строках ничего не меняется
+ */
+export async function applyPriceChanges(
+  tx: TransactionClient,
+  vendorId: string,
+  request: PriceChangeRequest,
+  options: { repriceExpenses?: boolean; userId?: string } = {}
+) {
+  const preview = await previewPriceChanges(tx, vendorId, request);
+  if (preview.errors.length > 0) {
+    return { ...preview, applied: false, repriced: 0 };
+  }
+
+  for (const service of preview.services) {
+    await tx.priceHistory.create({
+      data: {
+        vendorServiceId: service.vendorServiceId,
+        oldPrice: service.oldPrice,
+        newPrice: service.newPrice,
+        changedBy: options.userId,
+      },
+    });
+    await tx.vendorService.update({
+      where: { id: service.vendorServiceId },
+      data: { price: service.newPrice },
+    });
+    // Цена по умолчанию шаблона, совпадавшая с прежней ценой услуги
+    await tx.expenseTemplateItem.updateMany({
+      where: { vendorServiceId: service.vendorServiceId, defaultPrice: service.oldPrice },
+      data: { defaultPrice: service.newPrice },
+    });
+  }
+
+  if (!options.repriceExpenses) {
+    return { ...preview, applied: true, repriced: 0 };
+  }
+
+  for (const expense of preview.expenses) {
+    await tx.orderExpense.update({
+      where: { id: expense.expenseId },
+      data: {
+        unitPrice: expense.newUnitPrice,
+        currencyPrice: expense.newCurrencyPrice,
+        totalAmount: expense.newTotal,
+        originalPrice: expense.newCurrencyPrice ?? expense.newUnitPrice,
+        // План следует за ценой, пока по расходу нет факта
+        ...(expense.status === 'PLANNED' ? { plannedAmount: expense.newTotal } : {}),
+      },
+    });
+  }
+
+  for (const orderId of new Set(preview.expenses.map(e => e.order.id))) {
+    await recalculateOrderCost(tx, orderId);
+  }
+
+  return { ...preview, applied: true, repriced: preview.expenses.length };
+}
+
+// Поля прайс-листа и названия колонок, по которым они находятся автоматически
+export const PRICE_LIST_FIELDS = {
+  code: { label: 'Артикул', required: false, aliases: ['артикул', 'код', 'код услуги', 'code', 'sku'] },
+  name: { label: 'Название', required: true, aliases: ['название', 'наименование', 'услуга', 'name'] },
+  price: { label: 'Цена', required: true, aliases: ['цена', 'новая цена', 'стоимость', 'тариф', 'price'] },
+  type: { label: 'Тип', required: false, aliases: ['тип', 'тип услуги', 'type'] },
+  unit: { label: 'Единица', required: false, aliases: ['единица', 'ед. изм.', 'ед.изм.', 'ед', 'unit'] },
+  currency: { label: 'Валюта', required: false, aliases: ['валюта', 'currency'] },
+  vatRate: { label: 'НДС, %', required: false, aliases: ['ндс', 'ндс, %', 'ставка ндс', 'vat'] },
+};
+
+export type PriceListField = keyof typeof PRICE_LIST_FIELDS;
+
+// Поле → название колонки файла ('' — колонка не используется)
+export type PriceListMapping = Partial<Record<PriceListField, string>>;
+
+const SERVICE_TYPES: Record<string, string> = {
+  'хранение': 'STORAGE',
+  'комплектация': 'PICKING',
+  'упаковка': 'PACKING',
+  'доставка': 'SHIPPING',
+  'приемка': 'RECEIVING',
+  'маркировка': 'LABELING',
+  'возврат': 'RETURNS',
+  'возвраты': 'RETURNS',
+  'прочее': 'OTHER',
+};
+
+const SERVICE_UNITS: Record<string, string> = {
+  'шт': 'PIECE', 'шт.': 'PIECE', 'штука': 'PIECE',
+  'кг': 'KG', 'килограмм': 'KG',
+  'куб.м': 'CUBIC_METER', 'м3': 'CUBIC_METER', 'м³': 'CUBIC_METER',
+  'заказ': 'ORDER',
+  'паллета': 'PALLET', 'палета': 'PALLET',
+  'короб': 'BOX',
+  'день': 'DAY',
+  'месяц': 'MONTH',
+};
+
+export interface PriceListRow {
+  row: number;
+  code: string | null;
+  name: string;
+  price: number;
+  type: string | null;
+  unit: string | null;
+  currency: string | null;
+  vatRate: number | null;
+  errors: string[];
+}
+
+/**
+ * Колонки файла для полей прайс-листа: по названию колонки (без учета регистра)
+ */
+export function detectPriceListMapping(headers: string[]): PriceListMapping {
+  const mapping: PriceListMapping = {};
+  for (const [field, { aliases }] of Object.entries(PRICE_LIST_FIELDS)) {
+    const header = headers.find(h => aliases.includes(normalizeName(h)));
+    if (header) mapping[field as PriceListField] = header;
+  }
+  return mapping;
+}
+
+/**
+ * Чтение прайс-листа поставщика: сопоставление колонок (автоматическое,
+ * уточняется переданным mapping) и проверка каждой строки
+ */
+export function readPriceList(buffer: Buffer, customMapping: PriceListMapping = {}) {
+  const workbook = XLSX.read(buffer, { type: 'buffer' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    throw new AppError('Файл не содержит листов', 400);
+  }
+
+  const headers = ((XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1 })[0] || []) as unknown[])
+    .map(h => String(h ?? '').trim())
+    .filter(Boolean);
+  const mapping = { ...detectPriceListMapping(headers), ...customMapping };
+
+  const mappingErrors = Object.entries(PRICE_LIST_FIELDS)
+    .filter(([field, { required }]) => required && !mapping[field as PriceListField])
+    .map(([, { label }]) => `Не выбрана колонка для поля «${label}»`);
+  for (const [field, header] of Object.entries(mapping)) {
+    if (header && !headers.includes(header)) {
+      mappingErrors.push(`Колонка «${header}» (${PRICE_LIST_FIELDS[field as PriceListField].label}) не найдена в файле`);
+    }
+  }
+  if (mappingErrors.length > 0) {
+    return { headers, mapping, mappingErrors, rows: [] as PriceListRow[] };
+  }
+
+  const cell = (data: Record<string, unknown>, field: PriceListField) => {
+    const header = mapping[field];
+    return header ? String(data[header] ?? '').trim() : '';
+  };
+
+  const rows: PriceListRow[] = [];
+  const seen = new Set<string>();
+  XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '' }).forEach((data, index) => {
+    const values = Object.keys(PRICE_LIST_FIELDS).map(field => cell(data, field as PriceListField));
+    if (values.every(v => !v)) return; // пустая строка
+
+    const errors: string[] = [];
+    const code = cell(data, 'code') || null;
+    const name = cell(data, 'name');
+    const price = parseNumber(cell(data, 'price'));
+    const typeRaw = cell(data, 'type').toLowerCase();
+    const unitRaw = cell(data, 'unit').toLowerCase();
+    const currency = cell(data, 'currency').toUpperCase() || null;
+    const vatRaw = cell(data, 'vatRate').replace('%', '');
+    const vatRate = vatRaw ? parseNumber(vatRaw) : null;
+
+    const type = typeRaw ? SERVICE_TYPES[typeRaw] || (Object.values(SERVICE_TYPES).includes(typeRaw.toUpperCase()) ? typeRaw.toUpperCase() : null) : null;
+    const unit = unitRaw ? SERVICE_UNITS[unitRaw] || (Object.values(SERVICE_UNITS).includes(unitRaw.toUpperCase()) ? unitRaw.toUpperCase() : null) : null;
+
+    if (!name) errors.push('Не указано название');
+    if (!(price > 0)) errors.push(`Неверная цена «${cell(data, 'price')}»`);
+    if (typeRaw && !type) errors.push(`Неизвестный тип услуги «${cell(data, 'type')}»`);
+    if (unitRaw && !unit) errors.push(`Неизвестная единица «${cell(data, 'unit')}»`);
+    if (currency && !CURRENCIES.includes(currency)) errors.push(`Неизвестная валюта «${currency}»`);
+    if (vatRate !== null && !VAT_RATES.includes(vatRate)) errors.push(`Ставка НДС: 0, 10 или 20% (указано «${vatRaw}»)`);
+
+    const key = code ? `code:${code.toLowerCase()}` : `name:${normalizeName(name)}`;
+    if (name && seen.has(key)) errors.push(code ? `Артикул ${code} повторяется в файле` : `Услуга «${name}» повторяется в файле`);
+    seen.add(key);
+
+    rows.push({
+      row: index + 2, // первая строка — заголовки
+      code,
+      name,
+      price: round4(price),
+      type,
+      unit,
+      currency,
+      vatRate,
+      errors,
+    });
+  });
+
+  return { headers, mapping, mappingErrors, rows };
+}
+
+export interface PriceListChange {
+  field: 'code' | 'price' | 'type' | 'unit' | 'currency' | 'vatRate';
+  from: string | number | null;
+  to: string | number;
+}
+
+/**
+ * Отличия строки прайс-листа от услуги. Сравниваются только колонки, которые
+ * есть в файле: пустое значение услугу не меняет, артикул только добавляется
+ */
+export function priceListRowChanges(
+  service: {
+    code: string | null;
+    price: { toNumber(): number };
+    type: string;
+    unit: string;
+    currency: string;
+    vatRate: { toNumber(): number };
+  },
+  row: PriceListRow
+) {
+  const changes: PriceListChange[] = [];
+  const compare = (field: PriceListChange['field'], from: string | number | null, to: string | number | null) => {
+    if (to !== null && to !== from) changes.push({ field, from, to });
+  };
+
+  if (!service.code) compare('code', service.code, row.code);
+  compare('price', service.price.toNumber(), row.price);
+  compare('type', service.type, row.type);
+  compare('unit', service.unit, row.unit);
+  compare('currency', service.currency, row.currency);
+  compare('vatRate', service.vatRate.toNumber(), row.vatRate);
+
+  return changes;
+}
+
+/**
+ * Сравнение прайс-листа с услугами поставщика: услуга ищется по артикулу,
+ * затем по названию. Отсутствующие в файле — активные услуги без пары
+ */
+export async function diffPriceList(tx: TransactionClient, vendorId: string, rows: PriceListRow[]) {
+  const services = await tx.vendorService.findMany({
+    where: { vendorId },
+    orderBy: { name: 'asc' },
+  });
+
+  const findService = (row: PriceListRow) =>
+    (row.code ? services.find(s => s.code === row.code) : undefined)
+    || services.find(s => normalizeName(s.name) === normalizeName(row.name) && (!row.code || !s.code));
+
+  const matchedIds = new Set<string>();
+  const items = [];
+  const errors = rows.filter(r => r.errors.length > 0).map(r => ({ row: r.row, name: r.name, errors: r.errors }));
+
+  // Услуги из строк с ошибками есть в файле: они не считаются отсутствующими
+  const invalidIds = new Set(rows.filter(r => r.errors.length > 0).map(r => findService(r)?.id).filter(Boolean));
+
+  for (const row of rows.filter(r => r.errors.length === 0)) {
+    const service = findService(row);
+
+    if (service && matchedIds.has(service.id)) {
+      errors.push({ row: row.row, name: row.name, errors: [`Услуга «${service.name}» уже сопоставлена другой строке файла`] });
+      continue;
+    }
+
+    if (!service) {
+      items.push({ ...row, status: 'NEW', vendorServiceId: null, oldPrice: null, reactivate: false, changes: [] as PriceListChange[] });
+      continue;
+    }
+
+    matchedIds.add(service.id);
+    const changes = priceListRowChanges(service, row);
+    items.push({
+      ...row,
+      status: changes.length > 0 || !service.isActive ? 'CHANGED' : 'UNCHANGED',
+      vendorServiceId: service.id,
+      oldPrice: service.price.toNumber(),
+      reactivate: !service.isActive,
+      changes,
+    });
+  }
+
+  const missing = services
+    .filter(s => s.isActive && !matchedIds.has(s.id) && !invalidIds.has(s.id))
+    .map(s => ({ vendorServiceId: s.id, code: s.code, name: s.name, price: s.price.toNumber() }));
+
+  return {
+    items,
+    missing,
+    errors,
+    totals: {
+      new: items.filter(i => i.status === 'NEW').length,
+      changed: items.filter(i => i.status === 'CHANGED').length,
+      unchanged: items.filter(i => i.status === 'UNCHANGED').length,
+      missing: missing.length,
+      errors: errors.length,
+    },
+  };
+}
+
+/**
+ * Загрузка прайс-листа: новые услуги создаются, у изменившихся обновляются
+ * колонки из файла (цена — с записью в историю цен), отсутствующие в файле по желанию отключаются.
+ * Строки с ошибками пропускаются. Повторная загрузка того же файла ничего не меняет
+ */
+export async function importPriceList(
+  tx: TransactionClient,
+  vendorId: string,
+  rows: PriceListRow[],
+  options: { deactivateMissing?: boolean; userId?: string } = {}
+) {
+  const diff = await diffPriceList(tx, vendorId, rows);
+
+  for (const item of diff.items) {
+    if (item.status === 'NEW') {
+      await tx.vendorService.create({
+        data: {
+          vendorId,
+          code: item.code,
+          name: item.name,
+          type: item.type || 'OTHER',
+          unit: item.unit || 'PIECE',
+          price: item.price,
+          currency: item.currency || BASE_CURRENCY,
+          vatRate: item.vatRate ?? 0,
+        },
+      });
+    } else if (item.status === 'CHANGED') {
+      if (item.oldPrice !== item.price) {
+        await tx.priceHistory.create({
+          data: {
+            vendorServiceId: item.vendorServiceId!,
+            oldPrice: item.oldPrice!,
+            newPrice: item.price,
+            changedBy: options.userId,
+          },
+        });
+      }
+      await tx.vendorService.update({
+        where: { id: item.vendorServiceId! },
+        data: {
+          isActive: true,
+          ...Object.fromEntries(item.changes.map(c => [c.field, c.to])),
+        },
+      });
+    }
+  }
+
+  let deactivated = 0;
+  if (options.deactivateMissing && diff.missing.length > 0) {
+    const result = await tx.vendorService.updateMany({
+      where: { id: { in: diff.missing.map(m => m.vendorServiceId) } },
+      data: { isActive: false },
+    });
+    deactivated = result.count;
+  }
+
+  return {
+    ...diff,
+    created: diff.totals.new,
+    updated: diff.totals.changed,
+    deactivated,
+  };
+}
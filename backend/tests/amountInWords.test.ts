@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { amountInWords, numberToWords, pluralize } from '../src/utils/amountInWords';
+
+test('форма слова по числу', () => {
+  const forms: [string, string, string] = ['рубль', 'рубля', 'рублей'];
+  assert.equal(pluralize(1, forms), 'рубль');
+  assert.equal(pluralize(3, forms), 'рубля');
+  assert.equal(pluralize(5, forms), 'рублей');
+  assert.equal(pluralize(11, forms), 'рублей');
+  assert.equal(pluralize(14, forms), 'рублей');
+  assert.equal(pluralize(21, forms), 'рубль');
+  assert.equal(pluralize(112, forms), 'рублей');
+  assert.equal(pluralize(1002, forms), 'рубля');
+});
+
+test('целые числа прописью: род тысяч и пустые разряды', () => {
+  assert.equal(numberToWords(0), 'ноль');
+  assert.equal(numberToWords(15), 'пятнадцать');
+  assert.equal(numberToWords(1234), 'одна тысяча двести тридцать четыре');
+  assert.equal(numberToWords(2002), 'две тысячи два');
+  assert.equal(numberToWords(11000), 'одиннадцать тысяч');
+  assert.equal(numberToWords(1000001), 'один миллион один');
+  assert.equal(numberToWords(21500300), 'двадцать один миллион пятьсот тысяч триста');
+  assert.equal(numberToWords(3000000000), 'три миллиарда');
+});
+
+test('сумма в рублях с копейками цифрами', () => {
+  assert.equal(amountInWords(1200.5), 'Одна тысяча двести рублей 50 копеек');
+  assert.equal(amountInWords(1), 'Один рубль 00 копеек');
+  assert.equal(amountInWords(22.01), 'Двадцать два рубля 01 копейка');
+  assert.equal(amountInWords(0.03), 'Ноль рублей 03 копейки');
+  assert.equal(amountInWords(10.005), 'Десять рублей 01 копейка');
+  assert.equal(amountInWords(-5), 'Минус пять рублей 00 копеек');
+});
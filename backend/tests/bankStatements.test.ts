@@ -0,0 +1,192 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  getOpenVendorCosts,
+  lineFingerprint,
+  matchStatementLine,
+  parse1CStatement,
+  parseCsvStatement,
+  parseStatement,
+} from '../src/utils/bankStatements';
+import { createVendorPaymentEntry } from '../src/utils/financeHelpers';
+import { postEntry } from '../src/utils/posting';
+import { createTestDb } from './helpers';
+
+const OUR_ACCOUNT = '40702810900000000001';
+
+const statement1C = [
+  '1CClientBankExchange',
+  'ВерсияФормата=1.03',
+  'Кодировка=Windows',
+  'ДатаНачала=01.03.2026',
+  'ДатаКонца=31.03.2026',
+  'СекцияРасчСчет',
+  'ДатаНачала=01.03.2026',
+  `РасчСчет=${OUR_ACCOUNT}`,
+  'НачальныйОстаток=10000.00',
+  'КонечныйОстаток=13500.50',
+  'КонецРасчСчет',
+  'СекцияДокумент=Платежное поручение',
+  'Номер=15',
+  'Дата=04.03.2026',
+  'Сумма=5000.50',
+  'ПлательщикСчет=40702810100000000777',
+  'ДатаСписано=04.03.2026',
+  'Плательщик1=ООО "Клиент"',
+  'ПлательщикИНН=7701000001',
+  `ПолучательСчет=${OUR_ACCOUNT}`,
+  'ДатаПоступило=05.03.2026',
+  'НазначениеПлатежа=Оплата по заказу ORD-1001',
+  'КонецДокумента',
+  'СекцияДокумент=Платежное поручение',
+  'Номер=16',
+  'Дата=06.03.2026',
+  'Сумма=1500',
+  `ПлательщикСчет=${OUR_ACCOUNT}`,
+  'ДатаСписано=06.03.2026',
+  'Получатель=ООО Перевозчик',
+  'ПолучательИНН=7702000002',
+  'ПолучательСчет=40702810200000000888',
+  'НазначениеПлатежа=Оплата доставки',
+  'КонецДокумента',
+  'СекцияДокумент=Платежное поручение',
+  'Номер=17',
+  'Дата=07.03.2026',
+  'Сумма=0',
+  'КонецДокумента',
+  'КонецФайла',
+].join('\r\n');
+
+test('выписка 1С: остатки, направление по нашему счету и дата поступления', () => {
+  const parsed = parse1CStatement(statement1C);
+
+  assert.equal(parsed.format, '1C');
+  assert.equal(parsed.accountNumber, OUR_ACCOUNT);
+  assert.equal(parsed.openingBalance, 10000);
+  assert.equal(parsed.closingBalance, 13500.5);
+  assert.equal(parsed.lines.length, 2);
+
+  const [incoming, outgoing] = parsed.lines;
+  assert.equal(incoming.direction, 'IN');
+  assert.equal(incoming.amount, 5000.5);
+  assert.equal(incoming.documentDate.getDate(), 5);
+  assert.equal(incoming.counterpartyName, 'ООО "Клиент"');
+  assert.equal(incoming.counterpartyInn, '7701000001');
+
+  assert.equal(outgoing.direction, 'OUT');
+  assert.equal(outgoing.counterpartyName, 'ООО Перевозчик');
+  assert.equal(outgoing.counterpartyInn, '7702000002');
+
+  assert.throws(() => parse1CStatement('Выписка'), /1CClientBankExchange/);
+});
+
+test('CSV-выписка: сумма со знаком или колонки прихода и расхода', () => {
+  const signed = parseCsvStatement([
+    'Дата;Номер;Сумма;Контрагент;ИНН;Назначение платежа',
+    '05.03.2026;15;"5 000,50";"ООО ""Клиент""";7701000001;Оплата ORD-1001',
+    '2026-03-06;16;-1500;ООО Перевозчик;7702000002;Доставка',
+    'итого;;;;;',
+  ].join('\n'));
+  assert.equal(signed.lines.length, 2);
+  assert.deepEqual(signed.lines.map(l => [l.direction, l.amount]), [['IN', 5000.5], ['OUT', 1500]]);
+  assert.equal(signed.lines[0].counterpartyName, 'ООО "Клиент"');
+  assert.equal(signed.dateFrom?.getDate(), 5);
+  assert.equal(signed.dateTo?.getDate(), 6);
+
+  const split = parseCsvStatement('date,credit,debit,purpose\n07/03/2026,,250.00,Комиссия банка');
+  assert.deepEqual(split.lines.map(l => [l.direction, l.amount, l.purpose]), [['OUT', 250, 'Комиссия банка']]);
+
+  assert.throws(() => parseCsvStatement('Номер;Контрагент\n1;ООО'), /нет колонок/);
+});
+
+test('формат и кодировка определяются по содержимому файла', () => {
+  // «дата;сумма» в Windows-1251
+  const cp1251 = Buffer.concat([
+    Buffer.from([0xe4, 0xe0, 0xf2, 0xe0, 0x3b, 0xf1, 0xf3, 0xec, 0xec, 0xe0]),
+    Buffer.from('\n05.03.2026;100\n'),
+  ]);
+  assert.deepEqual(parseStatement(cp1251).lines.map(l => l.amount), [100]);
+
+  const withBom = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from(statement1C)]);
+  assert.equal(parseStatement(withBom).format, '1C');
+
+  const [line] = parse1CStatement(statement1C).lines;
+  assert.equal(lineFingerprint(line), `2026-3-5|15|IN|5000.50|7701000001|40702810100000000777`);
+});
+
+test('сопоставление: счет клиента по заказу и сумме, открытый расход поставщика', async () => {
+  const { prisma, cleanup } = await createTestDb();
+
+  try {
+    await prisma.account.createMany({
+      data: [
+        { code: '51', name: 'Расчетный счет', type: 'ASSET' },
+        { code: '60', name: 'Расчеты с поставщиками', type: 'LIABILITY' },
+        { code: '90.2', name: 'Себестоимость продаж', type: 'EXPENSE' },
+      ],
+    });
+    const client = await prisma.client.create({ data: { name: 'ООО Клиент', inn: '7701000001' } });
+    const order = await prisma.order.create({ data: { orderNumber: 'ORD-1001', clientId: client.id } });
+    const invoice = await prisma.incomeOperation.create({
+      data: { orderId: order.id, clientId: client.id, invoiceAmount: 5000.5 },
+    });
+
+    const line = { direction: 'IN', counterpartyInn: '7701000001', documentDate: new Date(2026, 2, 5) };
+    const exact = await prisma.$transaction(tx =>
+      matchStatementLine(tx, { ...line, amount: 5000.5, purpose: 'Оплата по заказу ORD-1001' })
+    );
+    assert.deepEqual([exact.status, exact.confidence, exact.incomeOperationId], ['MATCHED', 100, invoice.id]);
+
+    const partial = await prisma.$transaction(tx =>
+      matchStatementLine(tx, { ...line, amount: 2000, purpose: 'Аванс по ORD-1001' })
+    );
+    assert.deepEqual([partial.confidence, partial.incomeOperationId], [80, invoice.id]);
+
+    const unknown = await prisma.$transaction(tx =>
+      matchStatementLine(tx, { ...line, counterpartyInn: '7709999999', amount: 100, purpose: null })
+    );
+    assert.equal(unknown.status, 'UNMATCHED');
+    assert.match(unknown.matchNote || '', /7709999999 не найден/);
+
+    // Расход 1000: корректировка Дт 60 на 200 — не оплата, оплачено 300
+    const vendor = await prisma.vendor.create({ data: { name: 'ООО Перевозчик', inn: '7702000002' } });
+    const service = await prisma.vendorService.create({
+      data: { vendorId: vendor.id, name: 'Доставка', type: 'SHIPPING', unit: 'ORDER', price: 1000 },
+    });
+    const cost = await prisma.costOperation.create({
+      data: {
+        orderId: order.id,
+        vendorId: vendor.id,
+        vendorServiceId: service.id,
+        quantity: 1,
+        unitPrice: 1000,
+        calculatedAmount: 1000,
+        actualAmount: 1000,
+      },
+    });
+    await prisma.$transaction(async tx => {
+      await postEntry(tx, {
+        debit: { accountCode: '60' },
+        credit: { accountCode: '90.2' },
+        amount: 200,
+        source: 'VENDOR_CHARGE',
+        costOperationId: cost.id,
+      });
+      await createVendorPaymentEntry(tx, 300, 'Оплата поставщику', cost.id);
+    });
+
+    const openCosts = await prisma.$transaction(tx => getOpenVendorCosts(tx, vendor.id));
+    assert.deepEqual(openCosts.map(c => [c.id, c.openAmount]), [[cost.id, 700]]);
+
+    const outgoing = await prisma.$transaction(tx => matchStatementLine(tx, {
+      direction: 'OUT',
+      counterpartyInn: '7702000002',
+      amount: 700,
+      purpose: 'Оплата доставки',
+      documentDate: new Date(2026, 2, 6),
+    }));
+    assert.deepEqual([outgoing.matchType, outgoing.confidence, outgoing.costOperationId], ['VENDOR_PAYMENT', 70, cost.id]);
+  } finally {
+    await cleanup();
+  }
+});
@@ -0,0 +1,93 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express, { Router } from 'express';
+import jwt from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+
+const MIGRATIONS_DIR = path.join(__dirname, '..', 'prisma', 'migrations');
+
+/**
+ * Чистая SQLite-база во временном каталоге со всеми миграциями
+ */
+export async function createTestDb() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ff-test-'));
+  const prisma = new PrismaClient({
+    datasources: { db: { url: `file:${path.join(dir, 'test.db')}` } },
+  });
+
+  const migrations = fs.readdirSync(MIGRATIONS_DIR)
+    .filter(name => fs.existsSync(path.join(MIGRATIONS_DIR, name, 'migration.sql')))
+    .sort();
+
+  for (const name of migrations) {
+    const sql = fs.readFileSync(path.join(MIGRATIONS_DIR, name, 'migration.sql'), 'utf-8');
+    // Prisma выполняет одну SQL-команду за вызов
+    const statements = sql
+      .split(/;\s*$/m)
+      .map(s => s.replace(/^\s*--.*$/gm, '').trim())
+      .filter(Boolean);
+    for (const statement of statements) {
+      await prisma.$executeRawUnsafe(statement);
+    }
+  }
+
+  return {
+    prisma,
+    cleanup: async () => {
+      await prisma.$disconnect();
+      fs.rmSync(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Приложение с нужными роутерами на свободном порту; запросы — от имени
+ * администратора с токеном, подписанным тем же секретом, что и в authenticate
+ */
+export async function startTestApp(prisma: PrismaClient, routes: Record<string, Router>) {
+  const user = await prisma.user.create({
+    data: {
+      email: `admin-${Date.now()}@test.local`,
+      password: 'x',
+      firstName: 'Тест',
+      lastName: 'Админ',
+      role: 'ADMIN',
+    },
+  });
+  const token = jwt.sign(
+    { userId: user.id, email: user.email, role: 'ADMIN' },
+    process.env.JWT_SECRET || 'default_secret'
+  );
+
+  const app = express();
+  app.use(express.json());
+  app.use((req, res, next) => {
+    (req as any).prisma = prisma;
+    next();
+  });
+  for (const [prefix, router] of Object.entries(routes)) {
+    app.use(prefix, router);
+  }
+
+  const server = http.createServer(app);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const request = async (method: string, url: string, body?: unknown) => {
+    const response = await fetch(`http://127.0.0.1:${port}${url}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    return { status: response.status, body: await response.json() as any };
+  };
+
+  return {
+    user,
+    request,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
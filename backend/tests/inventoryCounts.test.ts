@@ -0,0 +1,109 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { needsRecount, postCountVariances, resolveLineResult } from '../src/utils/inventoryCounts';
+import { createTestDb } from './helpers';
+
+test('повторный пересчет нужен при отклонении больше порога', () => {
+  assert.equal(needsRecount(100, 100, 5), false);
+  assert.equal(needsRecount(100, 95, 5), false);
+  assert.equal(needsRecount(100, 94, 5), true);
+  assert.equal(needsRecount(0, 1, 50), true);
+});
+
+test('итог строки берется из последнего пересчета', () => {
+  assert.deepEqual(resolveLineResult({ expectedQty: 10, countedQty: 7, recountQty: 8, unitCost: 50 }), {
+    finalQty: 8,
+    variance: -2,
+    varianceAmount: -100,
+  });
+  assert.deepEqual(resolveLineResult({ expectedQty: 10, countedQty: 12, recountQty: null, unitCost: 2.5 }), {
+    finalQty: 12,
+    variance: 2,
+    varianceAmount: 5,
+  });
+  // Непосчитанная строка не дает расхождения
+  assert.equal(resolveLineResult({ expectedQty: 4, countedQty: null, recountQty: null, unitCost: 10 }).variance, 0);
+});
+
+test('проведение расхождений: остатки, движения, проводки и резервы сверх остатка', async () => {
+  const { prisma, cleanup } = await createTestDb();
+
+  try {
+    await prisma.account.createMany({
+      data: [
+        { code: '41', name: 'Товары', type: 'ASSET' },
+        { code: '91.2', name: 'Прочие расходы', type: 'EXPENSE' },
+        { code: '99', name: 'Прибыли и убытки', type: 'EQUITY' },
+      ],
+    });
+    const client = await prisma.client.create({ data: { name: 'ООО Клиент' } });
+    const warehouse = await prisma.warehouse.create({ data: { name: 'Основной', code: 'MAIN-1' } });
+    const shelf = await prisma.storageLocation.create({ data: { warehouseId: warehouse.id, code: 'A-01' } });
+    const emptyShelf = await prisma.storageLocation.create({ data: { warehouseId: warehouse.id, code: 'A-02' } });
+    const product = await prisma.product.create({ data: { sku: 'CUP-1', name: 'Кружка', clientId: client.id } });
+    const stock = await prisma.productStock.create({
+      data: { productId: product.id, storageLocationId: shelf.id, quantity: 10, reservedQty: 6, availableQty: 4 },
+    });
+
+    // Резервы двух заказов: 4 шт. раньше, 2 шт. позже
+    const reserve = async (orderNumber: string, quantity: number, createdAt: Date) => {
+      const order = await prisma.order.create({
+        data: {
+          orderNumber,
+          clientId: client.id,
+          items: { create: [{ productId: product.id, sku: product.sku, name: product.name, quantity }] },
+        },
+        include: { items: true },
+      });
+      return prisma.stockReservation.create({
+        data: { orderId: order.id, orderItemId: order.items[0].id, productStockId: stock.id, quantity, createdAt },
+      });
+    };
+    const earlier = await reserve('ORD-1', 4, new Date('2026-03-01'));
+    const later = await reserve('ORD-2', 2, new Date('2026-03-02'));
+
+    const count = await prisma.inventoryCount.create({
+      data: {
+        countNumber: 'INV-20260310-0001',
+        warehouseId: warehouse.id,
+        status: 'REVIEW',
+        lines: {
+          create: [
+            { locationId: shelf.id, productId: product.id, expectedQty: 10, countedQty: 2, recountQty: 3, unitCost: 100 },
+            { locationId: emptyShelf.id, productId: product.id, expectedQty: 0, countedQty: 5, unitCost: 100 },
+          ],
+        },
+      },
+    });
+
+    const result = await prisma.$transaction(tx => postCountVariances(tx, count.id, 'user-1'));
+    assert.deepEqual(result, { surplusAmount: 500, shortageAmount: 700, releasedOrders: ['ORD-2', 'ORD-1'] });
+
+    // Недостача ниже резерва: снимается сначала поздний резерв, затем часть раннего
+    const counted = await prisma.productStock.findUniqueOrThrow({ where: { id: stock.id } });
+    assert.deepEqual([counted.quantity, counted.reservedQty, counted.availableQty], [3, 3, 0]);
+    assert.equal(await prisma.stockReservation.count({ where: { id: later.id } }), 0);
+    assert.equal((await prisma.stockReservation.findUniqueOrThrow({ where: { id: earlier.id } })).quantity, 3);
+
+    const found = await prisma.productStock.findFirstOrThrow({ where: { storageLocationId: emptyShelf.id } });
+    assert.deepEqual([found.quantity, found.availableQty], [5, 5]);
+
+    const movements = await prisma.stockMovement.findMany({ where: { movementType: 'ADJUSTMENT' }, orderBy: { quantity: 'asc' } });
+    assert.deepEqual(
+      movements.map(m => [m.quantity, m.fromLocationId, m.toLocationId]),
+      [[5, null, emptyShelf.id], [7, shelf.id, null]]
+    );
+
+    const entries = await prisma.finTransaction.findMany({
+      where: { entry: { source: 'INVENTORY' } },
+      include: { debitAccount: true, creditAccount: true },
+      orderBy: { amount: 'asc' },
+    });
+    assert.deepEqual(
+      entries.map(t => [t.debitAccount.code, t.creditAccount.code, t.amount.toNumber()]),
+      [['41', '99', 500], ['91.2', '41', 700]]
+    );
+  } finally {
+    await cleanup();
+  }
+});
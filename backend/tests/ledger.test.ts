@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { closePeriod, getLockDate, parsePeriod, reopenPeriod, toNaturalBalance } from '../src/utils/ledger';
+import { postEntry } from '../src/utils/posting';
+import { createTestDb } from './helpers';
+
+test('границы периода и знак сальдо', () => {
+  const { startDate, endDate } = parsePeriod('2024-02');
+  assert.deepEqual([startDate.getFullYear(), startDate.getMonth(), startDate.getDate()], [2024, 1, 1]);
+  assert.equal(endDate.getDate(), 29);
+  assert.equal(endDate.getHours(), 23);
+  assert.throws(() => parsePeriod('2024-13'), /ГГГГ-ММ/);
+  assert.throws(() => parsePeriod('24-01'), /ГГГГ-ММ/);
+
+  assert.equal(toNaturalBalance('ASSET', 150), 150);
+  assert.equal(toNaturalBalance('LIABILITY', -150), 150);
+  assert.equal(toNaturalBalance('REVENUE', 20.5), -20.5);
+});
+
+test('закрытие и переоткрытие периодов по порядку, проводки в закрытый период запрещены', async () => {
+  const { prisma, cleanup } = await createTestDb();
+
+  try {
+    await prisma.account.createMany({
+      data: [
+        { code: '51', name: 'Расчетный счет', type: 'ASSET' },
+        { code: '62', name: 'Расчеты с клиентами', type: 'ASSET' },
+      ],
+    });
+    const post = (amount: number, entryDate: Date) => prisma.$transaction(tx => postEntry(tx, {
+      debit: { accountCode: '51' },
+      credit: { accountCode: '62' },
+      amount,
+      entryDate,
+      source: 'PAYMENT',
+    }));
+
+    await post(1000, new Date(2026, 0, 15));
+    await post(500, new Date(2026, 1, 10));
+
+    // Первый закрываемый месяц фиксирует всю историю до него
+    const january = await prisma.$transaction(tx => closePeriod(tx, '2026-01'));
+    const balances = await prisma.accountingPeriodBalance.findMany({
+      where: { periodId: january.id },
+      include: { account: { select: { code: true } } },
+    });
+    const closing = Object.fromEntries(balances.map(b => [b.account.code, b.closingBalance.toNumber()]));
+    assert.deepEqual(closing, { '51': 1000, '62': -1000 });
+    assert.equal((await prisma.$transaction(tx => getLockDate(tx)))?.getTime(), january.endDate.getTime());
+
+    await assert.rejects(prisma.$transaction(tx => closePeriod(tx, '2026-01')), /уже закрыт/);
+    await assert.rejects(prisma.$transaction(tx => closePeriod(tx, '2026-03')), /Сначала закройте период 2026-02/);
+    const now = new Date();
+    const current = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+    await assert.rejects(prisma.$transaction(tx => closePeriod(tx, current)), /только завершившийся месяц/);
+
+    await assert.rejects(post(100, new Date(2026, 0, 20)), /закрыт — проводки с датой/);
+
+    await prisma.$transaction(tx => closePeriod(tx, '2026-02'));
+    await assert.rejects(prisma.$transaction(tx => reopenPeriod(tx, '2026-01')), /Сначала переоткройте период 2026-02/);
+
+    const reopened = await prisma.$transaction(tx => reopenPeriod(tx, '2026-02'));
+    assert.equal(reopened.status, 'OPEN');
+    assert.equal(await prisma.accountingPeriodBalance.count({ where: { periodId: reopened.id } }), 0);
+
+    // Переоткрытый месяц снова принимает проводки, январь остается закрытым
+    assert.ok(await post(100, new Date(2026, 1, 20)));
+    await assert.rejects(post(100, new Date(2026, 0, 31)), /закрыт/);
+  } finally {
+    await cleanup();
+  }
+});
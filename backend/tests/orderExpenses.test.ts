@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import orderExpensesRoutes from '../src/routes/orderExpenses';
+import { createTestDb, startTestApp } from './helpers';
+
+test('расход заказа проводится Дт 90.2 Кт 60 и Дт 19 Кт 60 при создании, изменении и удалении', async () => {
+  const { prisma, cleanup } = await createTestDb();
+  const app = await startTestApp(prisma, { '/api/order-expenses': orderExpensesRoutes });
+
+  // Сальдо счета (дебет - кредит) по проводкам расходов заказа
+  const balance = async (code: string) => {
+    const transactions = await prisma.finTransaction.findMany({
+      where: { entry: { source: { in: ['ORDER_EXPENSE', 'INPUT_VAT'] } } },
+      include: { debitAccount: true, creditAccount: true },
+    });
+    const net = transactions.reduce((sum, t) =>
+      sum + (t.debitAccount.code === code ? t.amount.toNumber() : 0) - (t.creditAccount.code === code ? t.amount.toNumber() : 0), 0);
+    return Math.round(net * 100) / 100;
+  };
+
+  try {
+    await prisma.account.createMany({
+      data: [
+        { code: '19', name: 'НДС по приобретенным ценностям', type: 'ASSET' },
+        { code: '60', name: 'Расчеты с поставщиками', type: 'LIABILITY' },
+        { code: '90.2', name: 'Себестоимость продаж', type: 'EXPENSE' },
+      ],
+    });
+    const client = await prisma.client.create({ data: { name: 'ООО Клиент' } });
+    const order = await prisma.order.create({ data: { orderNumber: 'ORD-1', clientId: client.id } });
+
+    const created = await app.request('POST', `/api/order-expenses/order/${order.id}`, {
+      category: 'PACKAGING',
+      description: 'Коробки',
+      quantity: 2,
+      unitPrice: 600,
+      vatRate: 20,
+    });
+    assert.equal(created.status, 201, JSON.stringify(created.body));
+    assert.deepEqual([await balance('90.2'), await balance('19'), await balance('60')], [1000, 200, -1200]);
+
+    // Фактическая сумма меньше расчетной: корректировка на разницу
+    const updated = await app.request('PUT', `/api/order-expenses/${created.body.data.id}`, { actualAmount: 600 });
+    assert.equal(updated.status, 200, JSON.stringify(updated.body));
+    assert.deepEqual([await balance('90.2'), await balance('19'), await balance('60')], [500, 100, -600]);
+    const refreshed = await prisma.order.findUniqueOrThrow({ where: { id: order.id } });
+    assert.equal(refreshed.actualCost.toNumber(), 600);
+
+    const deleted = await app.request('DELETE', `/api/order-expenses/${created.body.data.id}`);
+    assert.equal(deleted.status, 200, JSON.stringify(deleted.body));
+    assert.deepEqual([await balance('90.2'), await balance('19'), await balance('60')], [0, 0, 0]);
+  } finally {
+    await app.close();
+    await cleanup();
+  }
+});
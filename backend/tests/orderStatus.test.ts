@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  assertTransition,
+  getAllowedTransitions,
+  ORDER_STATUS_TRANSITIONS,
+  ORDER_STATUSES,
+  OrderTransitionError,
+  statusDates,
+} from '../src/utils/orderStatus';
+
+function transitionError(fromStatus: string, toStatus: string, role: string) {
+  try {
+    assertTransition(fromStatus, toStatus, role);
+  } catch (error) {
+    assert.ok(error instanceof OrderTransitionError, String(error));
+    return error;
+  }
+  assert.fail(`Переход ${fromStatus} → ${toStatus} для ${role} должен быть запрещен`);
+}
+
+test('граф переходов покрывает все статусы и ведет только в известные статусы', () => {
+  assert.deepEqual(Object.keys(ORDER_STATUS_TRANSITIONS).sort(), [...ORDER_STATUSES].sort());
+  for (const targets of Object.values(ORDER_STATUS_TRANSITIONS)) {
+    for (const status of Object.keys(targets)) {
+      assert.ok(ORDER_STATUSES.includes(status), status);
+    }
+  }
+  assert.deepEqual(ORDER_STATUS_TRANSITIONS.CANCELLED, {});
+  assert.deepEqual(ORDER_STATUS_TRANSITIONS.RETURNED, {});
+});
+
+test('прямой путь заказа проходит по ролям', () => {
+  const path: Array<[string, string, string]> = [
+    ['NEW', 'PROCESSING', 'MANAGER'],
+    ['PROCESSING', 'PICKING', 'WAREHOUSE'],
+    ['PICKING', 'PACKED', 'WAREHOUSE'],
+    ['PACKED', 'SHIPPED', 'WAREHOUSE'],
+    ['SHIPPED', 'DELIVERED', 'MANAGER'],
+    ['DELIVERED', 'COMPLETED', 'MANAGER'],
+  ];
+  for (const [from, to, role] of path) {
+    assert.doesNotThrow(() => assertTransition(from, to, role), `${from} → ${to}`);
+  }
+});
+
+test('пропуск этапа — 400, переход без прав — 403', () => {
+  const skipped = transitionError('NEW', 'SHIPPED', 'ADMIN');
+  assert.equal(skipped.statusCode, 400);
+  assert.match(skipped.message, /NEW → SHIPPED/);
+
+  assert.equal(transitionError('COMPLETED', 'NEW', 'ADMIN').statusCode, 400);
+  assert.equal(transitionError('NEW', 'PROCESSING', 'WAREHOUSE').statusCode, 403);
+  assert.equal(transitionError('PACKED', 'CANCELLED', 'MANAGER').statusCode, 403);
+  assert.equal(transitionError('UNKNOWN', 'NEW', 'ADMIN').statusCode, 400);
+});
+
+test('доступные переходы зависят от роли', () => {
+  assert.deepEqual(getAllowedTransitions('PACKED', 'ADMIN'), ['SHIPPED', 'CANCELLED']);
+  assert.deepEqual(getAllowedTransitions('PACKED', 'MANAGER'), ['SHIPPED']);
+  assert.deepEqual(getAllowedTransitions('NEW', 'WAREHOUSE'), []);
+  assert.deepEqual(getAllowedTransitions('COMPLETED', 'ADMIN'), ['RETURNED']);
+  assert.deepEqual(getAllowedTransitions('RETURNED', 'ADMIN'), []);
+});
+
+test('смена статуса проставляет даты отгрузки и доставки', () => {
+  assert.ok(statusDates('SHIPPED').shippedDate instanceof Date);
+  assert.ok(statusDates('COMPLETED').deliveredDate instanceof Date);
+  assert.deepEqual(statusDates('PICKING'), {});
+});
@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import ordersRoutes from '../src/routes/orders';
+import incomeOperationsRoutes from '../src/routes/incomeOperations';
+import { cancelPayment, receivePayment, unallocatePayment } from '../src/utils/payments';
+import { createTestDb, startTestApp } from './helpers';
+
+test('оплата заказа не меняет выручку: выручка равна сумме счета', async () => {
+  const { prisma, cleanup } = await createTestDb();
+  const app = await startTestApp(prisma, {
+    '/api/orders': ordersRoutes,
+    '/api/income-operations': incomeOperationsRoutes,
+  });
+
+  try {
+    const client = await prisma.client.create({ data: { name: 'ООО Клиент' } });
+
+    const created = await app.request('POST', '/api/orders', {
+      clientId: client.id,
+      items: [{ sku: 'SKU-1', name: 'Товар', quantity: 2, weight: 1 }],
+      incomeAmount: 5000,
+      autoApplyTemplate: false,
+    });
+    assert.equal(created.status, 201, JSON.stringify(created.body));
+    const orderId = created.body.data.id;
+
+    const invoices = await app.request('GET', `/api/income-operations/order/${orderId}`);
+    assert.equal(invoices.body.data.length, 1);
+    const invoice = invoices.body.data[0];
+    assert.equal(Number(invoice.invoiceAmount), 5000);
+
+    const paid = await app.request('POST', `/api/income-operations/${invoice.id}/payment`, { amount: 5000 });
+    assert.equal(paid.status, 200, JSON.stringify(paid.body));
+    assert.equal(Number(paid.body.data.paidAmount), 5000);
+
+    const order = await prisma.order.findUniqueOrThrow({ where: { id: orderId } });
+    assert.equal(order.totalIncome.toNumber(), 5000);
+    assert.equal(order.profit.toNumber(), 5000 - order.actualCost.toNumber());
+
+    // Отмена разнесения тоже не трогает выручку
+    const allocation = await prisma.paymentAllocation.findFirstOrThrow({ where: { incomeOperationId: invoice.id } });
+    await prisma.$transaction(tx => unallocatePayment(tx, allocation.id));
+    const afterUnallocate = await prisma.order.findUniqueOrThrow({ where: { id: orderId } });
+    assert.equal(afterUnallocate.totalIncome.toNumber(), 5000);
+  } finally {
+    await app.close();
+    await cleanup();
+  }
+});
+
+test('проводка оплаты датируется днем поступления, сторно — днем аннулирования', async () => {
+  const { prisma, cleanup } = await createTestDb();
+
+  try {
+    await prisma.account.createMany({
+      data: [
+        { code: '51', name: 'Расчетный счет', type: 'ASSET' },
+        { code: '62', name: 'Расчеты с клиентами', type: 'ASSET' },
+      ],
+    });
+    const client = await prisma.client.create({ data: { name: 'ООО Клиент' } });
+    const paymentDate = new Date('2026-02-10T00:00:00.000Z');
+
+    const payment = await prisma.$transaction(tx =>
+      receivePayment(tx, { clientId: client.id, amount: 1200, paymentDate })
+    );
+    const entry = await prisma.journalEntry.findFirstOrThrow({
+      where: { source: 'PAYMENT', transactions: { some: { paymentId: payment.id } } },
+    });
+    assert.equal(entry.entryDate.toISOString(), paymentDate.toISOString());
+
+    const cancelled = await prisma.$transaction(tx => cancelPayment(tx, payment.id));
+    const entries = await prisma.journalEntry.findMany({
+      where: { source: 'PAYMENT', transactions: { some: { paymentId: payment.id } } },
+      orderBy: { createdAt: 'asc' },
+    });
+    assert.equal(entries.length, 2);
+    assert.equal(entries[1].entryDate.toISOString(), cancelled.cancelledAt?.toISOString());
+  } finally {
+    await cleanup();
+  }
+});
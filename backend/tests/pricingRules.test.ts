@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Prisma } from '@prisma/client';
+import { evaluateServiceRule, PricingOrderInput, selectOrderServiceVendors } from '../src/utils/pricingRules';
+
+function shippingService(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'svc-1',
+    vendorId: 'vendor-1',
+    code: null,
+    name: 'Доставка Почтой',
+    type: 'SHIPPING',
+    unit: 'ORDER',
+    price: new Prisma.Decimal(500),
+    currency: 'RUB',
+    vatRate: new Prisma.Decimal(0),
+    minQuantity: null,
+    maxQuantity: null,
+    pricingBasis: null,
+    destination: null,
+    productCategory: null,
+    autoApply: false,
+    validFrom: new Date('2026-01-01'),
+    validTo: null,
+    isActive: true,
+    notes: null,
+    createdAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01'),
+    vendor: { id: 'vendor-1', name: 'Перевозчик' },
+    priceTiers: [],
+    ...overrides,
+  } as Parameters<typeof evaluateServiceRule>[0];
+}
+
+const order: PricingOrderInput = {
+  items: [{ weight: 2, quantity: 3, volume: 0.01 }],
+  destination: 'Коледино',
+};
+
+test('доставка за заказ без диапазона и склада не начисляется', () => {
+  const result = evaluateServiceRule(shippingService(), order);
+  assert.equal(result.applicable, false);
+  assert.equal(result.calculatedAmount, 0);
+});
+
+test('доставка за заказ без условий начисляется с флагом autoApply', () => {
+  const result = evaluateServiceRule(shippingService({ autoApply: true }), order);
+  assert.equal(result.applicable, true);
+  assert.equal(result.calculatedAmount, 500);
+});
+
+test('доставка за заказ начисляется по подходящему весовому диапазону', () => {
+  const bracket = { pricingBasis: 'WEIGHT', minQuantity: new Prisma.Decimal(5), maxQuantity: new Prisma.Decimal(10) };
+  assert.equal(evaluateServiceRule(shippingService(bracket), order).applicable, true);
+  assert.equal(evaluateServiceRule(shippingService(bracket), { ...order, items: [{ weight: 2, quantity: 1, volume: 0 }] }).applicable, false);
+});
+
+test('диапазон свыше 10 кг без верхней границы', () => {
+  const over10 = shippingService({ pricingBasis: 'WEIGHT', minQuantity: new Prisma.Decimal(10) });
+  assert.equal(evaluateServiceRule(over10, { ...order, items: [{ weight: 4, quantity: 3, volume: 0 }] }).applicable, true);
+  assert.equal(evaluateServiceRule(over10, order).applicable, false);
+});
+
+test('доставка на склад назначения начисляется только на этот склад', () => {
+  const service = shippingService({ destination: 'Коледино' });
+  assert.equal(evaluateServiceRule(service, order).applicable, true);
+  assert.equal(evaluateServiceRule(service, { ...order, destination: 'Подольск' }).applicable, false);
+});
+
+test('упаковка поштучно не начисляется без autoApply', () => {
+  const perPiece = shippingService({ type: 'PACKING', unit: 'PIECE', name: 'Упаковка' });
+  assert.equal(evaluateServiceRule(perPiece, order).applicable, false);
+  assert.equal(evaluateServiceRule({ ...perPiece, unit: 'ORDER' }, order).applicable, true);
+  assert.equal(evaluateServiceRule({ ...perPiece, autoApply: true }, order).calculatedAmount, 1500);
+});
+
+test('при нескольких поставщиках услуга каждого типа начисляется один раз', () => {
+  const vendor = (id: string, name: string) => ({ vendorId: id, vendor: { id, name } });
+  const services = [
+    shippingService({ id: 'a-pick', type: 'PICKING', unit: 'PIECE', price: new Prisma.Decimal(20), ...vendor('vendor-a', 'Склад А') }),
+    shippingService({ id: 'a-pack', type: 'PACKING', price: new Prisma.Decimal(100), ...vendor('vendor-a', 'Склад А') }),
+    shippingService({ id: 'b-pick', type: 'PICKING', unit: 'ORDER', price: new Prisma.Decimal(10), ...vendor('vendor-b', 'Склад Б') }),
+    shippingService({ id: 'b-pack', type: 'PACKING', price: new Prisma.Decimal(1.5), currency: 'USD', ...vendor('vendor-b', 'Склад Б') }),
+    shippingService({ id: 'b-label', type: 'LABELING', unit: 'PIECE', price: new Prisma.Decimal(5), autoApply: true, ...vendor('vendor-b', 'Склад Б') }),
+    shippingService({ id: 'c-label', type: 'LABELING', unit: 'PIECE', price: new Prisma.Decimal(4), autoApply: true, ...vendor('vendor-c', 'Склад В') }),
+  ];
+
+  const evaluations = selectOrderServiceVendors(services.map(s => evaluateServiceRule(s, order)), { USD: 90 });
+  const applied = evaluations.filter(e => e.applicable).map(e => e.vendorServiceId);
+
+  // Подбор: 3 шт. × 20 = 60 у А против 10 за заказ у Б; упаковка: 100 ₽ у А против 135 ₽ у Б
+  assert.deepEqual(applied, ['a-pack', 'b-pick', 'b-label', 'c-label']);
+  const skipped = evaluations.find(e => e.vendorServiceId === 'a-pick')!;
+  assert.equal(skipped.calculatedAmount, 0);
+  assert.match(skipped.explanation.at(-1)!, /оказывает Склад Б/);
+});
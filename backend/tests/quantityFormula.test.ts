@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Prisma } from '@prisma/client';
+import {
+  buildFormulaVariables,
+  evaluateFormula,
+  formulaQuantity,
+  FormulaError,
+  validateFormula,
+} from '../src/utils/quantityFormula';
+
+const vars = {
+  itemsCount: 3,
+  totalUnits: 25,
+  skuCount: 2,
+  totalWeight: 12.5,
+  totalVolume: 0.3,
+  pallets: 2,
+  boxes: 7,
+  destination: 'Коледино',
+  client: 'ООО Клиент',
+};
+
+function formulaError(formula: string) {
+  try {
+    evaluateFormula(formula, vars);
+  } catch (error) {
+    assert.ok(error instanceof FormulaError, String(error));
+    return error;
+  }
+  assert.fail(`Формула «${formula}» должна давать ошибку`);
+}
+
+test('приоритет операторов и скобки', () => {
+  assert.equal(evaluateFormula('2 + 3 * 4', vars), 14);
+  assert.equal(evaluateFormula('(2 + 3) * 4', vars), 20);
+  assert.equal(evaluateFormula('10 - 4 - 3', vars), 3);
+  assert.equal(evaluateFormula('-2 * 3 + 10 % 4', vars), -4);
+  assert.equal(evaluateFormula('1 + 2 > 2 && 0 || 1', vars), 1);
+  assert.equal(evaluateFormula('1 + 1 == 2', vars), 1);
+});
+
+test('переменные, функции и сравнение строк', () => {
+  assert.equal(evaluateFormula('ceil(totalUnits / 10) + pallets', vars), 5);
+  assert.equal(evaluateFormula('round(totalWeight / 3, 1)', vars), 4.2);
+  assert.equal(evaluateFormula('max(boxes, pallets * 5, 1)', vars), 10);
+  assert.equal(evaluateFormula('if(destination == "коледино ", boxes, 0)', vars), 7);
+  assert.equal(formulaQuantity('totalVolume * 10', vars), 3);
+  assert.equal(formulaQuantity('pallets - 5', vars), 0);
+});
+
+test('ошибки указывают позицию символа', () => {
+  assert.equal(formulaError('2 + * 3').position, 5);
+  assert.equal(formulaError('(1 + 2').position, 7);
+  assert.equal(formulaError('pallets $ 2').position, 9);
+  assert.equal(formulaError('boxes / (pallets - 2)').position, 7);
+  assert.equal(formulaError('destination + 1').position, 1);
+  assert.match(formulaError('min()').message, /min принимает аргументов: 1–20/);
+
+  const invalid = validateFormula('"незакрытая');
+  assert.deepEqual(invalid, { valid: false, error: 'Незакрытая строка (позиция 1)', position: 1 });
+  assert.deepEqual(validateFormula('pallets * 2'), { valid: true });
+});
+
+test('имена из прототипа объекта — неизвестные идентификаторы', () => {
+  assert.match(formulaError('constructor').message, /Неизвестная переменная «constructor»/);
+  assert.match(formulaError('toString(1)').message, /Неизвестная функция «toString»/);
+  assert.match(formulaError('__proto__ + 1').message, /Неизвестная переменная/);
+});
+
+test('переменные заказа считаются только по товарным позициям', () => {
+  const item = (sku: string, quantity: number, weight: number) => ({
+    sku,
+    quantity,
+    weight: new Prisma.Decimal(weight),
+    volume: new Prisma.Decimal(0.01),
+  });
+
+  const result = buildFormulaVariables({
+    items: [item('HAT-1', 10, 0.2), item('HAT-1', 5, 0.2), item('JKT-1', 2, 1.5), item('TRF-PALLET_DELIVERY', 1, 0)],
+    palletCount: 1,
+    boxCount: 3,
+    destination: null,
+    client: { name: 'ООО Клиент' },
+  });
+
+  assert.equal(result.itemsCount, 3);
+  assert.equal(result.totalUnits, 17);
+  assert.equal(result.skuCount, 2);
+  assert.equal(result.totalWeight, 6);
+  assert.equal(result.totalVolume, 0.17);
+  assert.equal(result.destination, '');
+});
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getReceivablesAging } from '../src/utils/receivables';
+import { createTestDb } from './helpers';
+
+test('задолженность раскладывается по срокам от даты счета на дату отчета', async () => {
+  const { prisma, cleanup } = await createTestDb();
+
+  try {
+    const client = await prisma.client.create({ data: { name: 'ООО Клиент' } });
+    const order = await prisma.order.create({ data: { orderNumber: 'ORD-1', clientId: client.id } });
+    const asOf = new Date('2026-06-30T12:00:00.000Z');
+
+    const invoice = (amount: number, createdAt: string, paidAmount = 0) => prisma.incomeOperation.create({
+      data: { orderId: order.id, clientId: client.id, invoiceAmount: amount, paidAmount, createdAt: new Date(createdAt) },
+    });
+    const fresh = await invoice(1000, '2026-06-20T12:00:00.000Z', 1000);
+    await invoice(700, '2026-05-31T12:00:00.000Z'); // ровно 30 дней — еще первый интервал
+    await invoice(2000, '2026-05-20T12:00:00.000Z');
+    const partlyPaid = await invoice(3000, '2026-04-20T12:00:00.000Z', 1000);
+    const oldest = await invoice(500, '2026-01-10T12:00:00.000Z');
+    await invoice(400, '2026-07-01T12:00:00.000Z'); // выставлен после даты отчета
+
+    const payment = (paymentNumber: string, amount: number, paymentDate: string) => prisma.payment.create({
+      data: { paymentNumber, clientId: client.id, amount, paymentDate: new Date(paymentDate) },
+    });
+    const partial = await payment('PAY-1', 1000, '2026-05-01T12:00:00.000Z');
+    await prisma.paymentAllocation.create({ data: { paymentId: partial.id, incomeOperationId: partlyPaid.id, amount: 1000 } });
+    await payment('PAY-2', 300, '2026-06-01T12:00:00.000Z'); // аванс без разнесения
+    const late = await payment('PAY-3', 1000, '2026-07-05T12:00:00.000Z'); // оплата после даты отчета
+    await prisma.paymentAllocation.create({ data: { paymentId: late.id, incomeOperationId: fresh.id, amount: 1000 } });
+
+    const aging = await prisma.$transaction(tx => getReceivablesAging(tx, { asOf }));
+    assert.equal(aging.clients.length, 1);
+    const [row] = aging.clients;
+
+    assert.equal(row.invoiced, 7200);
+    assert.equal(row.paid, 1300);
+    assert.equal(row.balance, 5900);
+    assert.equal(row.credits, 300);
+    assert.deepEqual(row.buckets, { '0-30': 1700, '31-60': 2000, '61-90': 2000, '90+': 500 });
+    assert.equal(row.overdue, 4500);
+    assert.equal(row.openInvoices, 5);
+    assert.equal(row.oldestInvoiceDate?.getTime(), oldest.createdAt.getTime());
+    assert.deepEqual(aging.totals.buckets, row.buckets);
+    assert.equal(aging.totals.debtors, 1);
+  } finally {
+    await cleanup();
+  }
+});
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { releaseOrderStock, reserveOrderStock, StockShortageError } from '../src/utils/stockReservation';
+import { createTestDb } from './helpers';
+
+test('резерв по FEFO, затем FIFO; при нехватке ничего не резервируется', async () => {
+  const { prisma, cleanup } = await createTestDb();
+
+  try {
+    const client = await prisma.client.create({ data: { name: 'ООО Клиент' } });
+    const warehouse = await prisma.warehouse.create({ data: { name: 'Основной', code: 'MAIN-1' } });
+    const [a, b, c] = await Promise.all(['A-01', 'B-01', 'C-01'].map(code =>
+      prisma.storageLocation.create({ data: { warehouseId: warehouse.id, code } })
+    ));
+    const product = await prisma.product.create({ data: { sku: 'CREAM-1', name: 'Крем', clientId: client.id } });
+
+    const stock = (locationId: string, quantity: number, expiryDate: Date | null, lastMovementAt: Date) =>
+      prisma.productStock.create({
+        data: { productId: product.id, storageLocationId: locationId, quantity, availableQty: quantity, expiryDate, lastMovementAt },
+      });
+    const lateExpiry = await stock(a.id, 5, new Date('2026-12-01'), new Date('2026-01-01'));
+    const earlyExpiry = await stock(b.id, 5, new Date('2026-06-01'), new Date('2026-03-01'));
+    const noExpiry = await stock(c.id, 10, null, new Date('2025-01-01'));
+
+    const order = (orderNumber: string, quantity: number) => prisma.order.create({
+      data: {
+        orderNumber,
+        clientId: client.id,
+        items: { create: [{ productId: product.id, sku: product.sku, name: product.name, quantity }] },
+      },
+    });
+
+    // 8 шт.: сначала ближайший срок годности, затем следующий; партия без срока — последней
+    const first = await order('ORD-1', 8);
+    const reserved = await prisma.$transaction(tx => reserveOrderStock(tx, first.id));
+    assert.deepEqual(reserved, { reservedLines: 2, reservedQty: 8 });
+
+    const reservations = await prisma.stockReservation.findMany({ where: { orderId: first.id } });
+    const byStock = Object.fromEntries(reservations.map(r => [r.productStockId, r.quantity]));
+    assert.deepEqual(byStock, { [earlyExpiry.id]: 5, [lateExpiry.id]: 3 });
+
+    // Повторный вызов не резервирует уже зарезервированное
+    assert.deepEqual(await prisma.$transaction(tx => reserveOrderStock(tx, first.id)), { reservedLines: 0, reservedQty: 0 });
+
+    // Свободно 2 + 10 = 12 из 20
+    const second = await order('ORD-2', 20);
+    await assert.rejects(
+      prisma.$transaction(tx => reserveOrderStock(tx, second.id)),
+      (error: unknown) => {
+        assert.ok(error instanceof StockShortageError);
+        assert.equal(error.statusCode, 409);
+        assert.deepEqual(
+          error.shortages.map(s => ({ requested: s.requested, available: s.available, missing: s.missing })),
+          [{ requested: 20, available: 12, missing: 8 }]
+        );
+        return true;
+      }
+    );
+    const untouched = await prisma.productStock.findUniqueOrThrow({ where: { id: noExpiry.id } });
+    assert.equal(untouched.availableQty, 10);
+    assert.equal(await prisma.stockReservation.count({ where: { orderId: second.id } }), 0);
+
+    // Снятие резерва возвращает количество в доступный остаток
+    const released = await prisma.$transaction(tx => releaseOrderStock(tx, first.id));
+    assert.deepEqual(released, { releasedLines: 2, releasedQty: 8 });
+    const restored = await prisma.productStock.findUniqueOrThrow({ where: { id: lateExpiry.id } });
+    assert.equal(restored.availableQty, 5);
+    assert.equal(restored.reservedQty, 0);
+  } finally {
+    await cleanup();
+  }
+});
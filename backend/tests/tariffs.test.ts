@@ -0,0 +1,120 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Prisma } from '@prisma/client';
+import ordersRoutes from '../src/routes/orders';
+import { calculateTariffIncome } from '../src/utils/tariffs';
+import { createTestDb, startTestApp } from './helpers';
+
+function rate(id: string, rateType: string, price: number, match: { productCategory?: string; destination?: string } = {}) {
+  return {
+    id,
+    tariffId: 'tariff-1',
+    rateType,
+    productCategory: match.productCategory || null,
+    destination: match.destination || null,
+    unit: 'PIECE',
+    price: new Prisma.Decimal(price),
+    notes: null,
+  };
+}
+
+const tariff = {
+  id: 'tariff-1',
+  clientId: null,
+  name: 'Базовый',
+  isDefault: true,
+  validFrom: new Date('2026-01-01'),
+  validTo: null,
+  isActive: true,
+  notes: null,
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-01-01'),
+  rates: [
+    rate('r-1', 'FULFILLMENT', 30, { productCategory: 'Шапки' }),
+    rate('r-2', 'PALLET_DELIVERY', 2000, { destination: 'Коледино' }),
+  ],
+};
+
+test('позиции по ставке категории оцениваются без предупреждений', () => {
+  const income = calculateTariffIncome(tariff, {
+    items: [{ name: 'Шапка', category: 'Шапки', quantity: 10 }],
+    destination: 'Коледино',
+    palletCount: 1,
+  });
+  assert.equal(income.total, 2300);
+  assert.deepEqual(income.warnings, []);
+});
+
+test('позиция без ставки не оценивается молча', () => {
+  const income = calculateTariffIncome(tariff, {
+    items: [
+      { name: 'Шапка', category: 'Шапки', quantity: 10 },
+      { name: 'Куртка', category: 'Куртки', quantity: 2 },
+    ],
+  });
+  assert.deepEqual(income.unmatchedItems, [1]);
+  assert.equal(income.warnings.length, 1);
+  assert.match(income.warnings[0], /Куртка/);
+});
+
+test('позиция без ставки с ценой, указанной вручную, — без предупреждения', () => {
+  const income = calculateTariffIncome(tariff, {
+    items: [{ name: 'Куртка', category: 'Куртки', quantity: 2, unitPrice: 70 }],
+  });
+  assert.deepEqual(income.unmatchedItems, [0]);
+  assert.deepEqual(income.warnings, []);
+});
+
+test('доставка без ставки на склад — предупреждение', () => {
+  const income = calculateTariffIncome(tariff, {
+    items: [{ name: 'Шапка', category: 'Шапки', quantity: 1 }],
+    destination: 'Казань',
+    palletCount: 2,
+  });
+  assert.equal(income.lines.length, 1);
+  assert.equal(income.warnings.length, 1);
+  assert.match(income.warnings[0], /Казань/);
+});
+
+test('услуги тарифа выставляются отдельными счетами, а не позициями товара', async () => {
+  const { prisma, cleanup } = await createTestDb();
+  const app = await startTestApp(prisma, { '/api/orders': ordersRoutes });
+
+  try {
+    const client = await prisma.client.create({ data: { name: 'ООО Клиент' } });
+    await prisma.clientTariff.create({
+      data: {
+        clientId: client.id,
+        name: 'Договор',
+        validFrom: new Date('2026-01-01'),
+        rates: {
+          create: [
+            { rateType: 'FULFILLMENT', productCategory: 'Шапки', price: 30 },
+            { rateType: 'PALLET_DELIVERY', destination: 'Коледино', unit: 'PALLET', price: 2000 },
+          ],
+        },
+      },
+    });
+
+    const created = await app.request('POST', '/api/orders', {
+      clientId: client.id,
+      items: [{ sku: 'HAT-1', name: 'Шапка', category: 'Шапки', quantity: 10, weight: 0.2 }],
+      destination: 'Коледино',
+      palletCount: 1,
+      autoApplyTemplate: false,
+    });
+    assert.equal(created.status, 201, JSON.stringify(created.body));
+
+    const order = await prisma.order.findUniqueOrThrow({
+      where: { id: created.body.data.id },
+      include: { items: true, incomeOperations: { orderBy: { invoiceAmount: 'asc' } } },
+    });
+    assert.deepEqual(order.items.map(i => i.sku), ['HAT-1']);
+    assert.deepEqual(order.incomeOperations.map(op => op.invoiceAmount.toNumber()), [300, 2000]);
+    assert.match(order.incomeOperations[1].description || '', /Доставка палеты: Коледино/);
+    assert.equal(order.totalIncome.toNumber(), 2300);
+  } finally {
+    await app.close();
+    await cleanup();
+  }
+});
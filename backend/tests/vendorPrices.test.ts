@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Prisma } from '@prisma/client';
+import { PriceListRow, priceDifference, priceListRowChanges } from '../src/utils/vendorPrices';
+
+test('изменение цены в процентах от старой цены', () => {
+  assert.deepEqual(priceDifference(200, 250), { difference: 50, differencePercent: 25 });
+  assert.deepEqual(priceDifference(300, 200), { difference: -100, differencePercent: -33.33 });
+});
+
+test('от нулевой старой цены процент не считается', () => {
+  const result = priceDifference(0, 150);
+  assert.equal(result.difference, 150);
+  assert.equal(result.differencePercent, null);
+});
+
+const service = {
+  code: 'PCK-01',
+  price: new Prisma.Decimal(100),
+  type: 'PACKING',
+  unit: 'ORDER',
+  currency: 'RUB',
+  vatRate: new Prisma.Decimal(0),
+};
+
+function row(overrides: Partial<PriceListRow> = {}): PriceListRow {
+  return {
+    row: 2,
+    code: 'PCK-01',
+    name: 'Упаковка',
+    price: 100,
+    type: null,
+    unit: null,
+    currency: null,
+    vatRate: null,
+    errors: [],
+    ...overrides,
+  };
+}
+
+test('строка прайс-листа без отличий не меняет услугу', () => {
+  assert.deepEqual(priceListRowChanges(service, row()), []);
+  assert.deepEqual(priceListRowChanges(service, row({ type: 'PACKING', unit: 'ORDER', currency: 'RUB', vatRate: 0 })), []);
+});
+
+test('исправление только НДС — изменение услуги', () => {
+  assert.deepEqual(priceListRowChanges(service, row({ vatRate: 20 })), [{ field: 'vatRate', from: 0, to: 20 }]);
+});
+
+test('сравниваются все колонки из файла', () => {
+  const changes = priceListRowChanges(service, row({ price: 120, type: 'PICKING', unit: 'PIECE', currency: 'USD' }));
+  assert.deepEqual(changes.map(c => c.field), ['price', 'type', 'unit', 'currency']);
+});
+
+test('артикул только добавляется к услуге без артикула', () => {
+  assert.deepEqual(priceListRowChanges({ ...service, code: null }, row()), [{ field: 'code', from: null, to: 'PCK-01' }]);
+  assert.deepEqual(priceListRowChanges(service, row({ code: 'OTHER' })), []);
+});
@@ -12,6 +12,9 @@ import Orders from './pages/Orders';
 import OrderDetails from './pages/OrderDetails';
 import CreateOrder from './pages/CreateOrder';
 import Finance from './pages/Finance';
+import Receivables from './pages/Receivables';
+import Payments from './pages/Payments';
+import VendorBills from './pages/VendorBills';
 import Reports from './pages/Reports';
 import Users from './pages/Users';
 import Settings from './pages/Settings';
@@ -23,6 +26,9 @@ import WarehouseProducts from './pages/WarehouseProducts';
 import ProductDetails from './pages/ProductDetails';
 import WarehouseTasks from './pages/WarehouseTasks';
 import WarehouseMovements from './pages/WarehouseMovements';
+import WarehouseReturns from './pages/WarehouseReturns';
+import WarehouseInbound from './pages/WarehouseInbound';
+import WarehouseInventory from './pages/WarehouseInventory';
 
 // Settings pages
 import ExpenseTemplates from './pages/ExpenseTemplates';
@@ -83,6 +89,9 @@ export default function App() {
         <Route path="orders/new" element={<CreateOrder />} />
         <Route path="orders/:id" element={<OrderDetails />} />
         <Route path="finance" element={<Finance />} />
+        <Route path="receivables" element={<Receivables />} />
+        <Route path="payments" element={<Payments />} />
+        <Route path="vendor-bills" element={<VendorBills />} />
         <Route path="reports" element={<Reports />} />
         <Route path="users" element={<Users />} />
         <Route path="settings" element={<Settings />} />
@@ -94,6 +103,9 @@ export default function App() {
         <Route path="warehouse/products/:id" element={<ProductDetails />} />
         <Route path="warehouse/tasks" element={<WarehouseTasks />} />
         <Route path="warehouse/movements" element={<WarehouseMovements />} />
+        <Route path="warehouse/returns" element={<WarehouseReturns />} />
+        <Route path="warehouse/inbound" element={<WarehouseInbound />} />
+        <Route path="warehouse/inventory" element={<WarehouseInventory />} />
         <Route path="warehouse/:id" element={<WarehouseDetails />} />
       </Route>
 
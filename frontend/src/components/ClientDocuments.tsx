@@ -0,0 +1,357 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { clientDocumentsApi } from '../lib/api';
+import { useIsAdmin, useIsManager } from '../store/authStore';
+import toast from 'react-hot-toast';
+import { ArrowDownTrayIcon, DocumentTextIcon, PlusIcon, NoSymbolIcon } from '@heroicons/react/24/outline';
+
+interface ClientDocument {
+  id: string;
+  type: string;
+  number: number;
+  year: number;
+  documentDate: string;
+  status: 'ISSUED' | 'CANCELLED';
+  totalAmount: number;
+  vatAmount: number;
+  order: { id: string; orderNumber: string };
+}
+
+interface Candidate {
+  id: string;
+  description: string | null;
+  amount: number;
+  documented: number[];
+}
+
+const typeLabels: Record<string, string> = {
+  INVOICE: 'Счет',
+  ACT: 'Акт',
+  UPD: 'УПД',
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('ru-RU', { style: 'currency', currency: 'RUB', minimumFractionDigits: 2 }).format(value);
+
+const download = (data: BlobPart, type: string, fileName: string) => {
+  const blob = new Blob([data], { type });
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.URL.revokeObjectURL(url);
+};
+
+/**
+ * Документы клиенту (счета, акты, УПД) по заказу или по клиенту.
+ * Формирование доступно только в карточке заказа.
+ */
+export default function ClientDocuments({ orderId, clientId }: { orderId?: string; clientId?: string }) {
+  const [documents, setDocuments] = useState<ClientDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showCreate, setShowCreate] = useState(false);
+  const isManager = useIsManager();
+  const isAdmin = useIsAdmin();
+
+  useEffect(() => {
+    loadDocuments();
+  }, [orderId, clientId]);
+
+  const loadDocuments = async () => {
+    try {
+      const response = await clientDocumentsApi.getAll({ orderId, clientId });
+      setDocuments(response.data.data);
+    } catch (error) {
+      toast.error('Ошибка загрузки документов');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const downloadDocument = async (doc: ClientDocument, format: 'pdf' | 'xlsx') => {
+    try {
+      const response = await clientDocumentsApi.download(doc.id, format);
+      download(
+        response.data,
+        format === 'pdf' ? 'application/pdf' : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        `${typeLabels[doc.type] || doc.type}-${doc.number}-${doc.year}.${format}`
+      );
+    } catch (error) {
+      toast.error('Ошибка выгрузки документа');
+    }
+  };
+
+  const cancelDocument = async (doc: ClientDocument) => {
+    if (!confirm(`Аннулировать ${typeLabels[doc.type]} № ${doc.number}? Номер не будет использован повторно.`)) return;
+    try {
+      await clientDocumentsApi.cancel(doc.id);
+      toast.success('Документ аннулирован');
+      loadDocuments();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Ошибка аннулирования');
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white">Документы</h3>
+        {orderId && isManager && (
+          <button onClick={() => setShowCreate(true)} className="btn-primary">
+            <PlusIcon className="w-4 h-4" />
+            Сформировать
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="skeleton h-24 rounded-xl" />
+      ) : documents.length === 0 ? (
+        <p className="text-surface-500 text-center py-4">Нет документов</p>
+      ) : (
+        <div className="table-container">
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Документ</th>
+                <th>Дата</th>
+                {!orderId && <th>Заказ</th>}
+                <th>Сумма</th>
+                <th>НДС</th>
+                <th>Статус</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {documents.map((doc) => (
+                <tr key={doc.id} className={doc.status === 'CANCELLED' ? 'opacity-50' : ''}>
+                  <td className="font-medium text-surface-100">
+                    {typeLabels[doc.type] || doc.type} № {doc.number}
+                  </td>
+                  <td className="text-surface-400">{new Date(doc.documentDate).toLocaleDateString('ru-RU')}</td>
+                  {!orderId && (
+                    <td>
+                      <Link to={`/orders/${doc.order.id}`} className="font-mono text-brand-400 hover:text-brand-300">
+                        {doc.order.orderNumber}
+                      </Link>
+                    </td>
+                  )}
+                  <td className="font-mono">{formatCurrency(Number(doc.totalAmount))}</td>
+                  <td className="font-mono text-surface-400">
+                    {Number(doc.vatAmount) > 0 ? formatCurrency(Number(doc.vatAmount)) : 'без НДС'}
+                  </td>
+                  <td>
+                    {doc.status === 'ISSUED' ? (
+                      <span className="badge-success">Выставлен</span>
+                    ) : (
+                      <span className="badge-neutral">Аннулирован</span>
+                    )}
+                  </td>
+                  <td>
+                    <div className="flex gap-1 justify-end">
+                      <button onClick={() => downloadDocument(doc, 'pdf')} className="btn-ghost text-xs" title="PDF">
+                        <ArrowDownTrayIcon className="w-4 h-4" />
+                        PDF
+                      </button>
+                      <button onClick={() => downloadDocument(doc, 'xlsx')} className="btn-ghost text-xs" title="Excel">
+                        <ArrowDownTrayIcon className="w-4 h-4" />
+                        XLSX
+                      </button>
+                      {isAdmin && doc.status === 'ISSUED' && (
+                        <button onClick={() => cancelDocument(doc)} className="btn-icon btn-ghost" title="Аннулировать">
+                          <NoSymbolIcon className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showCreate && orderId && (
+        <CreateDocumentModal
+          orderId={orderId}
+          onClose={() => setShowCreate(false)}
+          onCreated={() => {
+            setShowCreate(false);
+            loadDocuments();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function CreateDocumentModal({
+  orderId,
+  onClose,
+  onCreated,
+}: {
+  orderId: string;
+  onClose: () => void;
+  onCreated: () => void;
+}) {
+  const [type, setType] = useState('INVOICE');
+  const [documentDate, setDocumentDate] = useState(new Date().toISOString().slice(0, 10));
+  const [basis, setBasis] = useState('');
+  const [incomes, setIncomes] = useState<Candidate[]>([]);
+  const [expenses, setExpenses] = useState<Candidate[]>([]);
+  const [selectedIncomes, setSelectedIncomes] = useState<string[]>([]);
+  const [selectedExpenses, setSelectedExpenses] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadCandidates();
+  }, [type]);
+
+  const loadCandidates = async () => {
+    try {
+      const response = await clientDocumentsApi.getCandidates(orderId, type);
+      const data = response.data.data;
+      setIncomes(data.incomeOperations);
+      setExpenses(data.orderExpenses);
+      // Not yet documented invoices to the client are selected by default
+      setSelectedIncomes(
+        data.incomeOperations
+          .filter((c: Candidate) => c.amount > 0 && c.documented.length === 0)
+          .map((c: Candidate) => c.id)
+      );
+      setSelectedExpenses([]);
+    } catch (error) {
+      toast.error('Ошибка загрузки позиций');
+    }
+  };
+
+  const toggle = (list: string[], setList: (ids: string[]) => void, id: string) => {
+    setList(list.includes(id) ? list.filter((x) => x !== id) : [...list, id]);
+  };
+
+  const total = [
+    ...incomes.filter((c) => selectedIncomes.includes(c.id)),
+    ...expenses.filter((c) => selectedExpenses.includes(c.id)),
+  ].reduce((sum, c) => sum + c.amount, 0);
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    try {
+      await clientDocumentsApi.create({
+        orderId,
+        type,
+        incomeOperationIds: selectedIncomes,
+        orderExpenseIds: selectedExpenses,
+        documentDate,
+        basis: basis || undefined,
+      });
+      toast.success('Документ сформирован');
+      onCreated();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || error.response?.data?.errors?.[0]?.msg || 'Ошибка формирования документа');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderCandidates = (
+    title: string,
+    list: Candidate[],
+    selected: string[],
+    setSelected: (ids: string[]) => void
+  ) =>
+    list.length > 0 && (
+      <div>
+        <p className="label">{title}</p>
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {list.map((c) => (
+            <label
+              key={c.id}
+              className={`flex items-center gap-3 p-2 rounded-lg bg-surface-800/50 text-sm ${
+                c.documented.length > 0 || c.amount <= 0 ? 'opacity-50' : ''
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={selected.includes(c.id)}
+                disabled={c.documented.length > 0 || c.amount <= 0}
+                onChange={() => toggle(selected, setSelected, c.id)}
+              />
+              <span className="flex-1 text-surface-200 truncate">{c.description || 'Без описания'}</span>
+              {c.documented.length > 0 && (
+                <span className="text-xs text-surface-500">в документе № {c.documented.join(', ')}</span>
+              )}
+              <span className="font-mono text-surface-100">{formatCurrency(c.amount)}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+    );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="w-full max-w-2xl bg-surface-900 border border-surface-800 rounded-2xl shadow-xl p-6 animate-scale-in">
+        <h2 className="text-xl font-semibold text-white mb-4 flex items-center gap-2">
+          <DocumentTextIcon className="w-6 h-6 text-brand-400" />
+          Новый документ
+        </h2>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="label">Тип</label>
+              <select value={type} onChange={(e) => setType(e.target.value)} className="select">
+                <option value="INVOICE">Счет на оплату</option>
+                <option value="ACT">Акт выполненных работ</option>
+                <option value="UPD">УПД</option>
+              </select>
+            </div>
+            <div>
+              <label className="label">Дата</label>
+              <input
+                type="date"
+                value={documentDate}
+                onChange={(e) => setDocumentDate(e.target.value)}
+                className="input"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="label">Основание</label>
+            <input
+              type="text"
+              value={basis}
+              onChange={(e) => setBasis(e.target.value)}
+              className="input"
+              placeholder="Договор № ... от ... (по умолчанию — номер заказа)"
+            />
+          </div>
+
+          {renderCandidates('Счета клиенту', incomes, selectedIncomes, setSelectedIncomes)}
+          {renderCandidates('Расходы заказа (перевыставление)', expenses, selectedExpenses, setSelectedExpenses)}
+
+          <div className="flex items-center justify-between pt-2">
+            <p className="text-surface-400">
+              Итого: <span className="font-mono font-semibold text-white">{formatCurrency(total)}</span>
+            </p>
+            <div className="flex gap-3">
+              <button onClick={onClose} className="btn-secondary">
+                Отмена
+              </button>
+              <button
+                onClick={handleSubmit}
+                disabled={saving || selectedIncomes.length + selectedExpenses.length === 0}
+                className="btn-primary"
+              >
+                {saving ? 'Формирование...' : 'Сформировать'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -15,6 +15,9 @@ import {
   XMarkIcon,
   ChevronDownIcon,
   CubeIcon,
+  ScaleIcon,
+  CreditCardIcon,
+  DocumentTextIcon,
 } from '@heroicons/react/24/outline';
 
 const navigation = [
@@ -24,6 +27,9 @@ const navigation = [
   { name: 'Клиенты', href: '/clients', icon: UsersIcon },
   { name: 'Заказы', href: '/orders', icon: ClipboardDocumentListIcon },
   { name: 'Финансы', href: '/finance', icon: BanknotesIcon },
+  { name: 'Дебиторка', href: '/receivables', icon: ScaleIcon },
+  { name: 'Платежи', href: '/payments', icon: CreditCardIcon },
+  { name: 'Счета поставщиков', href: '/vendor-bills', icon: DocumentTextIcon },
   { name: 'Отчеты', href: '/reports', icon: ChartBarIcon },
 ];
 
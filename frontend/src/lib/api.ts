@@ -56,6 +56,17 @@ export const vendorsApi = {
   create: (data: any) => api.post('/vendors', data),
   update: (id: string, data: any) => api.put(`/vendors/${id}`, data),
   delete: (id: string) => api.delete(`/vendors/${id}`),
+  previewPriceChanges: (id: string, data: { changes?: any[]; percent?: number }) =>
+    api.post(`/vendors/${id}/price-changes/preview`, data),
+  uploadPriceChanges: (id: string, file: File) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    return api.post(`/vendors/${id}/price-changes/upload`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+  },
+  applyPriceChanges: (id: string, data: { changes?: any[]; percent?: number; repriceExpenses?: boolean }) =>
+    api.post(`/vendors/${id}/price-changes/apply`, data),
 };
 
 // Vendor Services API
@@ -66,9 +77,16 @@ export const vendorServicesApi = {
   create: (data: any) => api.post('/vendor-services', data),
   update: (id: string, data: any) => api.put(`/vendor-services/${id}`, data),
   delete: (id: string) => api.delete(`/vendor-services/${id}`),
-  import: (vendorId: string, file: File) => {
+  import: (
+    vendorId: string,
+    file: File,
+    options: { dryRun?: boolean; mapping?: Record<string, string>; deactivateMissing?: boolean } = {}
+  ) => {
     const formData = new FormData();
     formData.append('file', file);
+    formData.append('dryRun', String(Boolean(options.dryRun)));
+    formData.append('deactivateMissing', String(Boolean(options.deactivateMissing)));
+    if (options.mapping) formData.append('mapping', JSON.stringify(options.mapping));
     return api.post(`/vendor-services/import/${vendorId}`, formData, {
       headers: { 'Content-Type': 'multipart/form-data' },
     });
@@ -85,6 +103,20 @@ export const clientsApi = {
   delete: (id: string) => api.delete(`/clients/${id}`),
 };
 
+// Client Tariffs API
+export const tariffsApi = {
+  getAll: (params?: { clientId?: string; isActive?: boolean }) =>
+    api.get('/tariffs', { params }),
+  getOne: (id: string) => api.get(`/tariffs/${id}`),
+  getEffective: (clientId: string, date?: string) =>
+    api.get(`/tariffs/client/${clientId}/effective`, { params: { date } }),
+  create: (data: any) => api.post('/tariffs', data),
+  update: (id: string, data: any) => api.put(`/tariffs/${id}`, data),
+  delete: (id: string) => api.delete(`/tariffs/${id}`),
+  loadDefault: () => api.post('/tariffs/load-default'),
+  preview: (data: any) => api.post('/tariffs/preview', data),
+};
+
 // Orders API
 export const ordersApi = {
   getAll: (params?: {
@@ -99,10 +131,12 @@ export const ordersApi = {
   getOne: (id: string) => api.get(`/orders/${id}`),
   create: (data: any) => api.post('/orders', data),
   update: (id: string, data: any) => api.put(`/orders/${id}`, data),
-  updateStatus: (id: string, status: string) =>
-    api.patch(`/orders/${id}/status`, { status }),
+  updateStatus: (id: string, status: string, comment?: string) =>
+    api.patch(`/orders/${id}/status`, { status, comment }),
+  getHistory: (id: string) => api.get(`/orders/${id}/history`),
   delete: (id: string) => api.delete(`/orders/${id}`),
   recalculate: (id: string) => api.post(`/orders/${id}/recalculate`),
+  costPreview: (data: any) => api.post('/orders/cost-preview', data),
 };
 
 // Cost Operations API
@@ -124,9 +158,69 @@ export const incomeOperationsApi = {
   delete: (id: string) => api.delete(`/income-operations/${id}`),
 };
 
+// Payments API
+export const paymentsApi = {
+  getAll: (params?: { clientId?: string; status?: string; unallocated?: boolean; dateFrom?: string; dateTo?: string }) =>
+    api.get('/payments', { params }),
+  getById: (id: string) => api.get(`/payments/${id}`),
+  getOpenInvoices: (clientId: string) => api.get('/payments/open-invoices', { params: { clientId } }),
+  create: (data: any) => api.post('/payments', data),
+  allocate: (id: string, allocations?: { incomeOperationId: string; amount: number }[]) =>
+    api.post(`/payments/${id}/allocate`, { allocations }),
+  removeAllocation: (id: string, allocationId: string) =>
+    api.delete(`/payments/${id}/allocations/${allocationId}`),
+  unallocate: (id: string) => api.post(`/payments/${id}/unallocate`),
+  cancel: (id: string) => api.post(`/payments/${id}/cancel`),
+};
+
+// Bank Statements API
+export const bankStatementsApi = {
+  getAll: () => api.get('/bank-statements'),
+  getById: (id: string) => api.get(`/bank-statements/${id}`),
+  getCandidates: (params: { clientId?: string; vendorId?: string }) =>
+    api.get('/bank-statements/candidates', { params }),
+  import: (file: File) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    return api.post('/bank-statements/import', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+  },
+  updateLine: (id: string, lineId: string, data: any) =>
+    api.put(`/bank-statements/${id}/lines/${lineId}`, data),
+  rematch: (id: string) => api.post(`/bank-statements/${id}/rematch`),
+  post: (id: string, lineIds: string[]) => api.post(`/bank-statements/${id}/post`, { lineIds }),
+  delete: (id: string) => api.delete(`/bank-statements/${id}`),
+};
+
+// Vendor Bills API
+export const vendorBillsApi = {
+  getAll: (params?: { vendorId?: string; status?: string; matchStatus?: string; dateFrom?: string; dateTo?: string }) =>
+    api.get('/vendor-bills', { params }),
+  getById: (id: string) => api.get(`/vendor-bills/${id}`),
+  getUnbilled: (params: { vendorId: string; periodFrom?: string; periodTo?: string }) =>
+    api.get('/vendor-bills/unbilled', { params }),
+  getAging: (params?: { asOf?: string; vendorId?: string; format?: 'json' | 'xlsx' }) =>
+    api.get('/vendor-bills/aging', { params, responseType: params?.format === 'xlsx' ? 'blob' : 'json' }),
+  create: (data: any) => api.post('/vendor-bills', data),
+  update: (id: string, data: any) => api.put(`/vendor-bills/${id}`, data),
+  updateLine: (id: string, lineId: string, billedAmount: number) =>
+    api.put(`/vendor-bills/${id}/lines/${lineId}`, { billedAmount }),
+  removeLine: (id: string, lineId: string) => api.delete(`/vendor-bills/${id}/lines/${lineId}`),
+  approve: (id: string, acceptVariance?: boolean) => api.post(`/vendor-bills/${id}/approve`, { acceptVariance }),
+  pay: (
+    id: string,
+    data: { amount?: number; currencyAmount?: number; exchangeRate?: number; paymentDate?: string; reference?: string }
+  ) => api.post(`/vendor-bills/${id}/payments`, data),
+  cancel: (id: string) => api.post(`/vendor-bills/${id}/cancel`),
+};
+
 // Accounts API
 export const accountsApi = {
-  getAll: (params?: { type?: string }) => api.get('/accounts', { params }),
+  getAll: (params?: { type?: string; asOf?: string }) => api.get('/accounts', { params }),
+  getTrialBalance: (params?: { dateFrom?: string; dateTo?: string; includeZero?: boolean; format?: 'json' | 'xlsx' }) =>
+    api.get('/accounts/trial-balance', { params, responseType: params?.format === 'xlsx' ? 'blob' : 'json' }),
+  verify: () => api.get('/accounts/verify'),
   getOne: (id: string) => api.get(`/accounts/${id}`),
   getBalanceSheet: (id: string, params?: { dateFrom?: string; dateTo?: string }) =>
     api.get(`/accounts/${id}/balance-sheet`, { params }),
@@ -134,6 +228,22 @@ export const accountsApi = {
   update: (id: string, data: any) => api.put(`/accounts/${id}`, data),
 };
 
+// Accounting Periods API
+export const accountingPeriodsApi = {
+  getAll: () => api.get('/accounting-periods'),
+  getBalances: (period: string) => api.get(`/accounting-periods/${period}/balances`),
+  close: (period: string) => api.post('/accounting-periods/close', { period }),
+  reopen: (period: string) => api.post(`/accounting-periods/${period}/reopen`),
+};
+
+// Posting Rules API
+export const postingRulesApi = {
+  getAll: () => api.get('/posting-rules'),
+  update: (event: string, data: { debitAccountCode: string; creditAccountCode: string; isActive?: boolean }) =>
+    api.put(`/posting-rules/${event}`, data),
+  resync: (orderId?: string) => api.post('/posting-rules/resync', { orderId }),
+};
+
 // Transactions API
 export const transactionsApi = {
   getAll: (params?: {
@@ -158,6 +268,62 @@ export const dashboardApi = {
   getTopClients: (period?: string, limit?: number) =>
     api.get('/dashboard/top-clients', { params: { period, limit } }),
   getOrdersByStatus: () => api.get('/dashboard/orders-by-status'),
+  getReceivables: (limit?: number) => api.get('/dashboard/receivables', { params: { limit } }),
+};
+
+// Receivables API
+export const receivablesApi = {
+  getAging: (params?: { asOf?: string; clientId?: string; format?: 'json' | 'xlsx' }) =>
+    api.get('/receivables', { params, responseType: params?.format === 'xlsx' ? 'blob' : 'json' }),
+  getStatement: (clientId: string, params?: { dateFrom?: string; dateTo?: string; format?: 'json' | 'xlsx' | 'pdf' }) =>
+    api.get(`/receivables/clients/${clientId}/statement`, {
+      params,
+      responseType: params?.format && params.format !== 'json' ? 'blob' : 'json',
+    }),
+};
+
+// Client Documents API (invoices, acts, УПД)
+export const clientDocumentsApi = {
+  getAll: (params?: { orderId?: string; clientId?: string; type?: string; status?: string }) =>
+    api.get('/documents', { params }),
+  getCandidates: (orderId: string, type: string) => api.get('/documents/candidates', { params: { orderId, type } }),
+  getOne: (id: string) => api.get(`/documents/${id}`),
+  create: (data: {
+    orderId: string;
+    type: string;
+    incomeOperationIds?: string[];
+    orderExpenseIds?: string[];
+    documentDate?: string;
+    basis?: string;
+  }) => api.post('/documents', data),
+  download: (id: string, format: 'pdf' | 'xlsx') =>
+    api.get(`/documents/${id}/download`, { params: { format }, responseType: 'blob' }),
+  cancel: (id: string) => api.post(`/documents/${id}/cancel`),
+};
+
+// Company requisites API
+export const companyApi = {
+  get: () => api.get('/company'),
+  update: (data: any) => api.put('/company', data),
+};
+
+// Exchange Rates API
+export const exchangeRatesApi = {
+  getAll: (params?: { currency?: string; dateFrom?: string; dateTo?: string }) =>
+    api.get('/exchange-rates', { params }),
+  getRate: (currency: string, date?: string) => api.get('/exchange-rates/rate', { params: { currency, date } }),
+  create: (data: { currency: string; rateDate: string; rate: number; nominal?: number }) =>
+    api.post('/exchange-rates', data),
+  import: (file: File) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    return api.post('/exchange-rates/import', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+  },
+  delete: (id: string) => api.delete(`/exchange-rates/${id}`),
+  getFxDifferences: (params?: { dateFrom?: string; dateTo?: string; format?: 'json' | 'xlsx' }) =>
+    api.get('/exchange-rates/fx-differences', { params, responseType: params?.format === 'xlsx' ? 'blob' : 'json' }),
 };
 
 // Reports API
@@ -177,6 +343,87 @@ export const reportsApi = {
     dateTo?: string;
     format?: 'json' | 'xlsx' | 'csv';
   }) => api.get('/reports/clients', { params, responseType: params?.format && params.format !== 'json' ? 'blob' : 'json' }),
+  getExpenseVariance: (params?: {
+    dateFrom?: string;
+    dateTo?: string;
+    clientId?: string;
+    vendorId?: string;
+    vendorServiceId?: string;
+    templateId?: string;
+    category?: string;
+    format?: 'json' | 'xlsx' | 'csv';
+  }) => api.get('/reports/expense-variance', { params, responseType: params?.format && params.format !== 'json' ? 'blob' : 'json' }),
+};
+
+// Storage Billing API
+export const storageBillingApi = {
+  getAll: (params?: { vendorId?: string; status?: string }) =>
+    api.get('/storage-billing', { params }),
+  getOne: (id: string) => api.get(`/storage-billing/${id}`),
+  run: (data: { periodFrom: string; periodTo: string; vendorId?: string; warehouseId?: string; dryRun?: boolean; notes?: string }) =>
+    api.post('/storage-billing/run', data),
+  cancel: (id: string) => api.post(`/storage-billing/${id}/cancel`),
+};
+
+// Returns (RMA) API
+export const returnsApi = {
+  getAll: (params?: { status?: string; clientId?: string; orderId?: string }) =>
+    api.get('/returns', { params }),
+  getOne: (id: string) => api.get(`/returns/${id}`),
+  create: (data: {
+    orderId: string;
+    items: Array<{ orderItemId: string; quantity: number }>;
+    reason?: string;
+    warehouseId?: string;
+    locationId?: string;
+    notes?: string;
+  }) => api.post('/returns', data),
+  process: (id: string, data: {
+    items: Array<{ id: string; disposition: string; locationId?: string }>;
+    chargeAmount?: number;
+  }) => api.post(`/returns/${id}/process`, data),
+  cancel: (id: string) => api.post(`/returns/${id}/cancel`),
+};
+
+// Inbound Shipments (ASN) API
+export const inboundShipmentsApi = {
+  getAll: (params?: { status?: string; clientId?: string; warehouseId?: string }) =>
+    api.get('/inbound-shipments', { params }),
+  getOne: (id: string) => api.get(`/inbound-shipments/${id}`),
+  create: (data: any) => api.post('/inbound-shipments', data),
+  receive: (id: string, data: {
+    locationId?: string;
+    items: Array<{ id: string; receivedQty: number; damagedQty: number; locationId?: string }>;
+    extraItems?: Array<{ sku: string; quantity: number; damagedQty?: number; locationId?: string }>;
+  }) => api.post(`/inbound-shipments/${id}/receive`, data),
+  cancel: (id: string) => api.post(`/inbound-shipments/${id}/cancel`),
+  getDiscrepancies: (id: string, format: 'json' | 'xlsx' | 'csv' = 'json') =>
+    api.get(`/inbound-shipments/${id}/discrepancies`, {
+      params: { format },
+      responseType: format !== 'json' ? 'blob' : 'json',
+    }),
+};
+
+export const inventoryCountsApi = {
+  getAll: (params?: { status?: string; warehouseId?: string }) =>
+    api.get('/inventory-counts', { params }),
+  getOne: (id: string) => api.get(`/inventory-counts/${id}`),
+  create: (data: {
+    warehouseId: string;
+    type: 'FULL' | 'CYCLE';
+    locationIds?: string[];
+    recountThresholdPct?: number;
+    notes?: string;
+  }) => api.post('/inventory-counts', data),
+  recordCounts: (id: string, data: {
+    counts: Array<{ lineId: string; quantity: number }>;
+    found?: Array<{ locationId: string; sku: string; quantity: number; batchNumber?: string }>;
+  }) => api.post(`/inventory-counts/${id}/counts`, data),
+  submit: (id: string) => api.post(`/inventory-counts/${id}/submit`),
+  requestRecount: (id: string, lineIds: string[]) =>
+    api.post(`/inventory-counts/${id}/recount`, { lineIds }),
+  approve: (id: string) => api.post(`/inventory-counts/${id}/approve`),
+  cancel: (id: string) => api.post(`/inventory-counts/${id}/cancel`),
 };
 
 // Order Expenses API
@@ -200,6 +447,7 @@ export const orderExpensesApi = {
   getTemplates: () => api.get('/order-expenses/templates'),
   applyTemplate: (orderId: string, templateId: string) =>
     api.post(`/order-expenses/order/${orderId}/apply-template/${templateId}`),
+  suggestTemplate: (data: any) => api.post('/expense-templates/suggest', data),
   
   // Анализ изменений цен
   checkPriceChanges: (orderId: string) =>
@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { clientsApi } from '../lib/api';
+import ClientDocuments from '../components/ClientDocuments';
 import toast from 'react-hot-toast';
 import { ArrowLeftIcon } from '@heroicons/react/24/outline';
 
@@ -216,6 +217,9 @@ export default function ClientDetails() {
           </div>
         )}
       </div>
+
+      {/* Documents */}
+      <ClientDocuments clientId={client.id} />
     </div>
   );
 }
@@ -22,6 +22,7 @@ interface Client {
   inn?: string;
   email?: string;
   phone?: string;
+  vatRate?: number | null;
   isActive: boolean;
   _count: { orders: number };
 }
@@ -385,6 +386,7 @@ function ClientModal({
     inn: client?.inn || '',
     email: client?.email || '',
     phone: client?.phone || '',
+    vatRate: client?.vatRate != null ? String(Number(client.vatRate)) : '',
     isActive: client?.isActive ?? true,
   });
   const [loading, setLoading] = useState(false);
@@ -399,11 +401,13 @@ function ClientModal({
 
     setLoading(true);
     try {
+      // Empty VAT rate: the company rate applies
+      const data = { ...formData, vatRate: formData.vatRate !== '' ? Number(formData.vatRate) : null };
       if (client) {
-        await clientsApi.update(client.id, formData);
+        await clientsApi.update(client.id, data);
         toast.success('Клиент обновлен');
       } else {
-        await clientsApi.create(formData);
+        await clientsApi.create(data);
         toast.success('Клиент создан');
       }
       onSave();
@@ -446,15 +450,30 @@ function ClientModal({
             />
           </div>
 
-          <div>
-            <label className="label">ИНН</label>
-            <input
-              type="text"
-              value={formData.inn}
-              onChange={(e) => setFormData({ ...formData, inn: e.target.value })}
-              className="input"
-              placeholder="771234567890"
-            />
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="label">ИНН</label>
+              <input
+                type="text"
+                value={formData.inn}
+                onChange={(e) => setFormData({ ...formData, inn: e.target.value })}
+                className="input"
+                placeholder="771234567890"
+              />
+            </div>
+            <div>
+              <label className="label">НДС по договору</label>
+              <select
+                value={formData.vatRate}
+                onChange={(e) => setFormData({ ...formData, vatRate: e.target.value })}
+                className="select"
+              >
+                <option value="">Как у компании</option>
+                <option value="20">20%</option>
+                <option value="10">10%</option>
+                <option value="0">Без НДС</option>
+              </select>
+            </div>
           </div>
 
           <div className="grid grid-cols-2 gap-4">
@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { clientsApi, ordersApi } from '../lib/api';
+import { api, clientsApi, ordersApi, orderExpensesApi } from '../lib/api';
 import toast from 'react-hot-toast';
 import {
   ArrowLeftIcon,
@@ -10,8 +10,10 @@ import {
 
 interface OrderItem {
   id: string;
+  productId: string;
   sku: string;
   name: string;
+  category: string;
   quantity: number;
   weight: number;
   volume: number;
@@ -19,27 +21,127 @@ interface OrderItem {
   unitPrice: number;
 }
 
+interface CatalogProduct {
+  id: string;
+  sku: string;
+  name: string;
+  category: string | null;
+  unitWeight: number;
+  unitVolume: number;
+  unitCost: number;
+  totalAvailable: number;
+  client: { id: string } | null;
+}
+
 interface Client {
   id: string;
   name: string;
   companyName?: string;
 }
 
+interface TemplateMatch {
+  templateId: string;
+  templateName: string;
+  eligible: boolean;
+  score: number;
+  reasons: string[];
+  mismatches: string[];
+}
+
 export default function CreateOrder() {
   const navigate = useNavigate();
   const [clients, setClients] = useState<Client[]>([]);
   const [selectedClient, setSelectedClient] = useState('');
   const [items, setItems] = useState<OrderItem[]>([
-    { id: '1', sku: '', name: '', quantity: 1, weight: 0, volume: 0, unitCost: 0, unitPrice: 0 },
+    { id: '1', productId: '', sku: '', name: '', category: '', quantity: 1, weight: 0, volume: 0, unitCost: 0, unitPrice: 0 },
   ]);
   const [shippingAddress, setShippingAddress] = useState('');
+  const [destination, setDestination] = useState('');
+  const [deliveryMethod, setDeliveryMethod] = useState('');
+  const [palletCount, setPalletCount] = useState(0);
+  const [boxCount, setBoxCount] = useState(0);
   const [notes, setNotes] = useState('');
+  const [reserveStock, setReserveStock] = useState(false);
+  const [products, setProducts] = useState<CatalogProduct[]>([]);
   const [loading, setLoading] = useState(false);
+  // 'auto' — лучший по условиям, '' — без шаблона, иначе id шаблона
+  const [templateChoice, setTemplateChoice] = useState('auto');
+  const [templateMatches, setTemplateMatches] = useState<TemplateMatch[]>([]);
+  const [bestTemplate, setBestTemplate] = useState<TemplateMatch | null>(null);
 
   useEffect(() => {
     loadClients();
+    loadProducts();
   }, []);
 
+  // Подбор шаблона расходов по товарам, адресу и способу доставки
+  useEffect(() => {
+    const filled = items.filter((item) => item.name);
+    if (filled.length === 0) {
+      setTemplateMatches([]);
+      setBestTemplate(null);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await orderExpensesApi.suggestTemplate({
+          items: filled.map((item) => ({
+            productId: item.productId || undefined,
+            sku: item.sku,
+            category: item.category,
+            quantity: item.quantity,
+            weight: item.weight,
+          })),
+          shippingAddress,
+          destination,
+          deliveryMethod,
+        });
+        setTemplateMatches(response.data.data.matches);
+        setBestTemplate(response.data.data.best);
+      } catch (error) {
+        console.error('Error suggesting template:', error);
+      }
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [items, shippingAddress, destination, deliveryMethod]);
+
+  const loadProducts = async () => {
+    try {
+      const response = await api.get('/products', { params: { isActive: true } });
+      setProducts(response.data.data);
+    } catch (error) {
+      console.error('Error fetching products:', error);
+    }
+  };
+
+  // Client's own products and products without owner
+  const clientProducts = products.filter(
+    (product) => !product.client || product.client.id === selectedClient
+  );
+
+  const selectProduct = (id: string, productId: string) => {
+    const product = products.find((p) => p.id === productId);
+    setItems(
+      items.map((item) =>
+        item.id === id
+          ? product
+            ? {
+                ...item,
+                productId: product.id,
+                sku: product.sku,
+                name: product.name,
+                category: product.category || '',
+                weight: Number(product.unitWeight),
+                volume: Number(product.unitVolume),
+                unitCost: Number(product.unitCost),
+              }
+            : { ...item, productId: '' }
+          : item
+      )
+    );
+  };
+
   const loadClients = async () => {
     try {
       const response = await clientsApi.getAll({ isActive: true });
@@ -54,8 +156,10 @@ export default function CreateOrder() {
       ...items,
       {
         id: Date.now().toString(),
+        productId: '',
         sku: '',
         name: '',
+        category: '',
         quantity: 1,
         weight: 0,
         volume: 0,
@@ -103,12 +207,22 @@ export default function CreateOrder() {
     try {
       const response = await ordersApi.create({
         clientId: selectedClient,
-        items: items.filter((item) => item.name),
+        items: items
+          .filter((item) => item.name)
+          .map((item) => ({ ...item, productId: item.productId || undefined })),
         shippingAddress,
+        destination: destination || undefined,
+        deliveryMethod: deliveryMethod || undefined,
+        palletCount,
+        boxCount,
         notes,
+        reserveStock,
+        expenseTemplateId: templateChoice !== 'auto' ? templateChoice || undefined : undefined,
+        autoApplyTemplate: templateChoice === 'auto',
       });
       
       toast.success('Заказ создан');
+      (response.data.warnings || []).forEach((warning: string) => toast.error(warning));
       navigate(`/orders/${response.data.data.id}`);
     } catch (error: any) {
       toast.error(error.response?.data?.error || 'Ошибка создания заказа');
@@ -139,7 +253,10 @@ export default function CreateOrder() {
           <div className="max-w-md">
             <select
               value={selectedClient}
-              onChange={(e) => setSelectedClient(e.target.value)}
+              onChange={(e) => {
+                setSelectedClient(e.target.value);
+                setItems(items.map((item) => ({ ...item, productId: '' })));
+              }}
               className="select"
               required
             >
@@ -185,6 +302,22 @@ export default function CreateOrder() {
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                  <div className="lg:col-span-4">
+                    <label className="label">Товар со склада</label>
+                    <select
+                      value={item.productId}
+                      onChange={(e) => selectProduct(item.id, e.target.value)}
+                      className="select"
+                      disabled={!selectedClient}
+                    >
+                      <option value="">Не связан с каталогом</option>
+                      {clientProducts.map((product) => (
+                        <option key={product.id} value={product.id}>
+                          {product.sku} — {product.name} (доступно {product.totalAvailable})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                   <div className="lg:col-span-2">
                     <label className="label">Название *</label>
                     <input
@@ -205,6 +338,16 @@ export default function CreateOrder() {
                       placeholder="ABC-123"
                     />
                   </div>
+                  <div>
+                    <label className="label">Категория</label>
+                    <input
+                      type="text"
+                      value={item.category}
+                      onChange={(e) => updateItem(item.id, 'category', e.target.value)}
+                      className="input"
+                      placeholder="Шапки"
+                    />
+                  </div>
                   <div>
                     <label className="label">Количество *</label>
                     <input
@@ -299,6 +442,48 @@ export default function CreateOrder() {
                 placeholder="г. Москва, ул. Примерная, д. 1, кв. 10"
               />
             </div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label className="label">Способ доставки</label>
+                <input
+                  type="text"
+                  value={deliveryMethod}
+                  onChange={(e) => setDeliveryMethod(e.target.value)}
+                  className="input"
+                  placeholder="Курьер"
+                />
+              </div>
+              <div>
+                <label className="label">Склад назначения</label>
+                <input
+                  type="text"
+                  value={destination}
+                  onChange={(e) => setDestination(e.target.value)}
+                  className="input"
+                  placeholder="Электросталь"
+                />
+              </div>
+              <div>
+                <label className="label">Палет</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={palletCount}
+                  onChange={(e) => setPalletCount(parseInt(e.target.value) || 0)}
+                  className="input"
+                />
+              </div>
+              <div>
+                <label className="label">Коробов</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={boxCount}
+                  onChange={(e) => setBoxCount(parseInt(e.target.value) || 0)}
+                  className="input"
+                />
+              </div>
+            </div>
             <div>
               <label className="label">Примечания</label>
               <textarea
@@ -308,6 +493,69 @@ export default function CreateOrder() {
                 placeholder="Дополнительная информация о заказе..."
               />
             </div>
+            <label className="flex items-center gap-2 text-sm text-surface-300">
+              <input
+                type="checkbox"
+                checked={reserveStock}
+                onChange={(e) => setReserveStock(e.target.checked)}
+              />
+              Зарезервировать остатки сразу при создании
+            </label>
+          </div>
+        </div>
+
+        {/* Expense Template */}
+        <div className="card">
+          <h3 className="text-lg font-semibold text-white mb-4">Шаблон расходов</h3>
+          <div className="space-y-4">
+            <div>
+              <label className="label">Применить при создании</label>
+              <select
+                value={templateChoice}
+                onChange={(e) => setTemplateChoice(e.target.value)}
+                className="select"
+              >
+                <option value="auto">
+                  Автоматически{bestTemplate ? ` — ${bestTemplate.templateName}` : ' — подходящего нет'}
+                </option>
+                <option value="">Без шаблона</option>
+                {templateMatches.map((match) => (
+                  <option key={match.templateId} value={match.templateId}>
+                    {match.templateName}{match.eligible ? '' : ' (условия не выполнены)'}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {templateMatches.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm text-surface-400">Почему этот шаблон</p>
+                {templateMatches.map((match) => (
+                  <div
+                    key={match.templateId}
+                    className={`p-3 rounded-lg border ${
+                      bestTemplate?.templateId === match.templateId
+                        ? 'border-brand-500/40 bg-brand-500/10'
+                        : 'border-surface-800 bg-surface-800/50'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-surface-100">{match.templateName}</span>
+                      {match.eligible ? (
+                        <span className="badge-success">Условий: {match.score}</span>
+                      ) : (
+                        <span className="badge-neutral">Не подходит</span>
+                      )}
+                    </div>
+                    {match.reasons.length > 0 && (
+                      <p className="text-sm text-success-400 mt-1">{match.reasons.join('; ')}</p>
+                    )}
+                    {match.mismatches.length > 0 && (
+                      <p className="text-sm text-danger-400 mt-1">{match.mismatches.join('; ')}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         </div>
 
@@ -315,7 +563,8 @@ export default function CreateOrder() {
         <div className="card bg-brand-500/10 border-brand-500/20">
           <p className="text-brand-300 text-sm">
             💡 После создания заказа система автоматически рассчитает себестоимость на основе
-            активных услуг поставщиков и характеристик товаров (вес, объем).
+            активных услуг поставщиков и характеристик товаров (вес, объем), а выручку — по
+            тарифу клиента (категории товаров, склад назначения, палеты и коробы).
           </p>
         </div>
 
@@ -62,6 +62,17 @@ interface CostBreakdown {
   value: number;
 }
 
+interface ReceivablesSummary {
+  buckets: { key: string; label: string }[];
+  totals: {
+    balance: number;
+    overdue: number;
+    debtors: number;
+    buckets: Record<string, number>;
+  };
+  topDebtors: { id: string; name: string; balance: number; overdue: number }[];
+}
+
 interface TopClient {
   id: string;
   name: string;
@@ -78,6 +89,7 @@ export default function Dashboard() {
   const [costsData, setCostsData] = useState<CostBreakdown[]>([]);
   const [topClients, setTopClients] = useState<TopClient[]>([]);
   const [ordersByStatus, setOrdersByStatus] = useState<{ status: string; label: string; count: number }[]>([]);
+  const [receivables, setReceivables] = useState<ReceivablesSummary | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -87,12 +99,13 @@ export default function Dashboard() {
   const loadDashboardData = async () => {
     setLoading(true);
     try {
-      const [kpiRes, chartRes, costsRes, clientsRes, statusRes] = await Promise.all([
+      const [kpiRes, chartRes, costsRes, clientsRes, statusRes, receivablesRes] = await Promise.all([
         dashboardApi.getKPI(period),
         dashboardApi.getRevenueChart(period, period === 'year' ? 'month' : 'day'),
         dashboardApi.getCostsChart(period),
         dashboardApi.getTopClients(period, 5),
         dashboardApi.getOrdersByStatus(),
+        dashboardApi.getReceivables(5),
       ]);
 
       setKpi(kpiRes.data.data);
@@ -100,6 +113,7 @@ export default function Dashboard() {
       setCostsData(costsRes.data.data);
       setTopClients(clientsRes.data.data);
       setOrdersByStatus(statusRes.data.data);
+      setReceivables(receivablesRes.data.data);
     } catch (error) {
       console.error('Error loading dashboard:', error);
     } finally {
@@ -408,7 +422,7 @@ export default function Dashboard() {
       </div>
 
       {/* Bottom Row */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Top Clients */}
         <div className="card">
           <div className="flex items-center justify-between mb-4">
@@ -471,6 +485,72 @@ export default function Dashboard() {
             )}
           </div>
         </div>
+
+        {/* Receivables */}
+        <div className="card">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-white">Дебиторская задолженность</h3>
+            <Link to="/receivables" className="text-brand-400 text-sm hover:text-brand-300 flex items-center gap-1">
+              Подробнее
+              <ArrowRightIcon className="w-4 h-4" />
+            </Link>
+          </div>
+          {receivables && receivables.totals.balance > 0 ? (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <p className="text-xs text-surface-500">Всего к получению</p>
+                  <p className="text-xl font-bold text-white">{formatCurrency(receivables.totals.balance)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-surface-500">Старше 30 дней</p>
+                  <p className="text-xl font-bold text-danger-500">{formatCurrency(receivables.totals.overdue)}</p>
+                </div>
+              </div>
+              <div className="space-y-2">
+                {receivables.buckets.map((bucket, idx) => {
+                  const value = receivables.totals.buckets[bucket.key] || 0;
+                  const total = Object.values(receivables.totals.buckets).reduce((sum, v) => sum + v, 0);
+                  return (
+                    <div key={bucket.key}>
+                      <div className="flex justify-between text-xs text-surface-400 mb-1">
+                        <span>{bucket.label}</span>
+                        <span>{formatCurrency(value)}</span>
+                      </div>
+                      <div className="h-2 rounded-full bg-surface-800 overflow-hidden">
+                        <div
+                          className={`h-full rounded-full ${['bg-success-500', 'bg-warning-500', 'bg-orange-500', 'bg-danger-500'][idx] || 'bg-danger-500'}`}
+                          style={{ width: `${total > 0 ? (value / total) * 100 : 0}%` }}
+                        />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="space-y-1 pt-2 border-t border-surface-700">
+                {receivables.topDebtors.map((debtor) => (
+                  <Link
+                    key={debtor.id}
+                    to={`/receivables?clientId=${debtor.id}`}
+                    className="flex items-center justify-between p-2 rounded-lg hover:bg-surface-800/50 transition-colors"
+                  >
+                    <span className="text-sm text-surface-200 truncate">{debtor.name}</span>
+                    <span className="text-sm font-semibold text-surface-100">
+                      {formatCurrency(debtor.balance)}
+                      {debtor.overdue > 0 && (
+                        <span className="block text-xs font-normal text-danger-500 text-right">
+                          просрочено {formatCurrency(debtor.overdue)}
+                        </span>
+                      )}
+                    </span>
+                  </Link>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <p className="text-surface-500 text-center py-8">Задолженности нет</p>
+          )}
+        </div>
       </div>
     </div>
   );
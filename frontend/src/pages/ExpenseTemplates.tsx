@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { api, vendorServicesApi } from '../lib/api';
+import { api, ordersApi, vendorServicesApi } from '../lib/api';
 import { useIsManager } from '../store/authStore';
 import toast from 'react-hot-toast';
 import {
@@ -9,6 +9,7 @@ import {
   PencilIcon,
   DocumentDuplicateIcon,
   ArrowLeftIcon,
+  PlayIcon,
 } from '@heroicons/react/24/outline';
 
 interface ExpenseTemplate {
@@ -268,6 +269,45 @@ export default function ExpenseTemplates() {
   );
 }
 
+interface FormulaReference {
+  variables: { name: string; label: string; type: 'number' | 'string' }[];
+  functions: { name: string; label: string }[];
+}
+
+// Result of checking a formula: quantity on the test order or an error with position
+interface FormulaCheck {
+  error?: string;
+  position?: number;
+  quantity?: number;
+  value?: number;
+}
+
+function FormulaResult({ formula, check }: { formula: string; check: FormulaCheck }) {
+  if (check.error) {
+    return (
+      <div className="text-xs text-danger-400">
+        {check.position && (
+          <pre className="font-mono text-surface-300">
+            {formula}
+            {'\n'}
+            {' '.repeat(check.position - 1)}^
+          </pre>
+        )}
+        {check.error}
+      </div>
+    );
+  }
+  if (check.quantity === undefined) {
+    return <p className="text-xs text-success-400">Формула корректна</p>;
+  }
+  return (
+    <p className="text-xs text-success-400">
+      Количество: {check.quantity}
+      {check.value !== check.quantity && <span className="text-surface-500"> (значение {check.value})</span>}
+    </p>
+  );
+}
+
 function TemplateModal({
   template,
   onClose,
@@ -287,11 +327,49 @@ function TemplateModal({
   );
   const [loading, setLoading] = useState(false);
   const [services, setServices] = useState<any[]>([]);
+  const [orders, setOrders] = useState<{ id: string; orderNumber: string; client?: { name: string } }[]>([]);
+  const [testOrderId, setTestOrderId] = useState('');
+  const [reference, setReference] = useState<FormulaReference | null>(null);
+  const [checks, setChecks] = useState<Record<number, FormulaCheck>>({});
 
   useEffect(() => {
     loadServices();
+    loadFormulaHelpers();
   }, []);
 
+  const loadFormulaHelpers = async () => {
+    try {
+      const [ordersResponse, referenceResponse] = await Promise.all([
+        ordersApi.getAll({ limit: 50 }),
+        api.get('/expense-templates/formula-reference'),
+      ]);
+      setOrders(ordersResponse.data.data);
+      setReference(referenceResponse.data.data);
+    } catch (error) {
+      console.error('Error loading formula helpers:', error);
+    }
+  };
+
+  const testFormula = async (index: number) => {
+    const formula = items[index].quantityFormula;
+    if (!formula) return;
+    try {
+      const response = await api.post('/expense-templates/test-formula', {
+        formula,
+        orderId: testOrderId || undefined,
+      });
+      setChecks({ ...checks, [index]: response.data.data });
+    } catch (error: any) {
+      setChecks({
+        ...checks,
+        [index]: {
+          error: error.response?.data?.error || 'Ошибка проверки формулы',
+          position: error.response?.data?.position,
+        },
+      });
+    }
+  };
+
   const loadServices = async () => {
     try {
       const response = await vendorServicesApi.getAll();
@@ -318,10 +396,15 @@ function TemplateModal({
 
   const removeItem = (index: number) => {
     setItems(items.filter((_, i) => i !== index));
+    setChecks({});
   };
 
   const updateItem = (index: number, field: string, value: any) => {
     setItems(items.map((item, i) => (i === index ? { ...item, [field]: value } : item)));
+    if (field === 'quantityFormula') {
+      const { [index]: _, ...rest } = checks;
+      setChecks(rest);
+    }
   };
 
   const handleServiceSelect = (index: number, serviceId: string) => {
@@ -370,6 +453,14 @@ function TemplateModal({
       }
       onSave();
     } catch (error: any) {
+      // Formula errors come per item: items[N].quantityFormula
+      const formulaErrors: { path: string; msg: string; position: number }[] = error.response?.data?.errors || [];
+      const next: Record<number, FormulaCheck> = {};
+      for (const e of formulaErrors) {
+        const index = Number(e.path?.match(/^items\[(\d+)\]/)?.[1]);
+        if (!isNaN(index)) next[index] = { error: e.msg, position: e.position };
+      }
+      setChecks(next);
       toast.error(error.response?.data?.error || 'Ошибка сохранения');
     } finally {
       setLoading(false);
@@ -452,12 +543,45 @@ function TemplateModal({
           <div>
             <div className="flex items-center justify-between mb-4">
               <label className="label mb-0">Позиции расходов</label>
-              <button type="button" onClick={addItem} className="btn-secondary text-sm">
-                <PlusIcon className="w-4 h-4" />
-                Добавить позицию
-              </button>
+              <div className="flex gap-2">
+                <select
+                  value={testOrderId}
+                  onChange={(e) => {
+                    setTestOrderId(e.target.value);
+                    setChecks({});
+                  }}
+                  className="select text-sm"
+                  title="Заказ для проверки формул"
+                >
+                  <option value="">Проверять без заказа</option>
+                  {orders.map((o) => (
+                    <option key={o.id} value={o.id}>
+                      {o.orderNumber}{o.client ? ` — ${o.client.name}` : ''}
+                    </option>
+                  ))}
+                </select>
+                <button type="button" onClick={addItem} className="btn-secondary text-sm">
+                  <PlusIcon className="w-4 h-4" />
+                  Добавить позицию
+                </button>
+              </div>
             </div>
 
+            {reference && (
+              <p className="text-xs text-surface-500 mb-3">
+                Переменные:{' '}
+                {reference.variables.map((v, i) => (
+                  <span key={v.name}>
+                    {i > 0 && ', '}
+                    <code className="text-brand-400" title={v.label}>{v.name}</code>
+                  </span>
+                ))}
+                . Функции: {reference.functions.map((f) => f.name).join(', ')}. Операции: + - * / %, сравнения,
+                &&, ||, строки в кавычках: <code>if(destination == "Коледино", pallets, 0)</code>. Результат
+                округляется вверх.
+              </p>
+            )}
+
             <div className="space-y-3">
               {items.map((item, index) => (
                 <div key={index} className="p-4 rounded-xl bg-surface-800/50 space-y-3">
@@ -549,16 +673,28 @@ function TemplateModal({
                         Обязательный
                       </label>
                     </div>
-                    <div className="flex-1">
+                    <div className="flex-1 flex gap-2">
                       <input
                         type="text"
                         value={item.quantityFormula || ''}
                         onChange={(e) => updateItem(index, 'quantityFormula', e.target.value)}
-                        className="input text-xs"
-                        placeholder="Формула кол-ва: itemsCount * 2, totalWeight / 10"
+                        className="input text-xs font-mono"
+                        placeholder="Формула кол-ва: itemsCount * 2, ceil(totalWeight / 10)"
                       />
+                      <button
+                        type="button"
+                        onClick={() => testFormula(index)}
+                        disabled={!item.quantityFormula}
+                        className="btn-icon btn-ghost"
+                        title="Проверить формулу"
+                      >
+                        <PlayIcon className="w-4 h-4" />
+                      </button>
                     </div>
                   </div>
+                  {checks[index] && item.quantityFormula && (
+                    <FormulaResult formula={item.quantityFormula} check={checks[index]} />
+                  )}
                 </div>
               ))}
 
@@ -1,11 +1,29 @@
-import { useEffect, useState } from 'react';
-import { accountsApi, transactionsApi } from '../lib/api';
+import { useEffect, useRef, useState } from 'react';
+import {
+  accountsApi,
+  transactionsApi,
+  bankStatementsApi,
+  clientsApi,
+  vendorsApi,
+  accountingPeriodsApi,
+  postingRulesApi,
+  exchangeRatesApi,
+} from '../lib/api';
 import { useCanViewFinance, useIsAdmin } from '../store/authStore';
 import toast from 'react-hot-toast';
 import {
   BanknotesIcon,
   ArrowPathIcon,
   PlusIcon,
+  ArrowUpTrayIcon,
+  PencilIcon,
+  NoSymbolIcon,
+  ArrowDownTrayIcon,
+  LockClosedIcon,
+  LockOpenIcon,
+  ShieldCheckIcon,
+  ArrowUturnLeftIcon,
+  TrashIcon,
 } from '@heroicons/react/24/outline';
 
 interface Account {
@@ -26,8 +44,73 @@ interface Transaction {
   transactionDate: string;
   costOperation?: { order: { orderNumber: string } };
   incomeOperation?: { order: { orderNumber: string } };
+  entry?: {
+    entryNumber: string;
+    source: string;
+    reversalOfId: string | null;
+    reversedBy: { entryNumber: string } | null;
+  };
+}
+
+interface BalanceVerification {
+  ok: boolean;
+  mismatches: {
+    accountId: string;
+    code: string;
+    name: string;
+    storedBalance: number;
+    ledgerBalance: number;
+    difference: number;
+  }[];
+}
+
+interface BankStatement {
+  id: string;
+  fileName: string;
+  format: string;
+  accountNumber: string | null;
+  dateFrom: string | null;
+  dateTo: string | null;
+  openingBalance: string | null;
+  closingBalance: string | null;
+  status: 'IMPORTED' | 'RECONCILED';
+  createdAt: string;
+  pendingLines?: number;
+  _count?: { lines: number };
+  lines?: BankLine[];
 }
 
+interface BankLine {
+  id: string;
+  documentNumber: string | null;
+  documentDate: string;
+  direction: 'IN' | 'OUT';
+  amount: string;
+  counterpartyName: string | null;
+  counterpartyInn: string | null;
+  purpose: string | null;
+  status: 'UNMATCHED' | 'MATCHED' | 'POSTED' | 'IGNORED';
+  matchType: 'CLIENT_PAYMENT' | 'VENDOR_PAYMENT' | null;
+  confidence: number;
+  matchNote: string | null;
+  client: { id: string; name: string } | null;
+  vendor: { id: string; name: string } | null;
+  incomeOperation: { id: string; order: { orderNumber: string } } | null;
+  costOperation: { id: string; order: { orderNumber: string } } | null;
+  vendorBill: { id: string; billNumber: string; invoiceNumber: string } | null;
+  payment: { id: string; paymentNumber: string } | null;
+}
+
+const lineStatusLabels: Record<string, { label: string; class: string }> = {
+  UNMATCHED: { label: 'Не сопоставлено', class: 'badge-danger' },
+  MATCHED: { label: 'Сопоставлено', class: 'badge-warning' },
+  POSTED: { label: 'Проведено', class: 'badge-success' },
+  IGNORED: { label: 'Исключено', class: 'badge-neutral' },
+};
+
+// Lines with this confidence are preselected for posting
+const AUTO_CONFIRM_CONFIDENCE = 80;
+
 const typeLabels: Record<string, string> = {
   ASSET: 'Актив',
   LIABILITY: 'Обязательство',
@@ -40,8 +123,9 @@ export default function Finance() {
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'accounts' | 'transactions'>('accounts');
+  const [activeTab, setActiveTab] = useState<'accounts' | 'transactions' | 'ledger' | 'bank' | 'rates'>('accounts');
   const [showTransactionModal, setShowTransactionModal] = useState(false);
+  const [verification, setVerification] = useState<BalanceVerification | null>(null);
   const canViewFinance = useCanViewFinance();
   const isAdmin = useIsAdmin();
 
@@ -64,6 +148,29 @@ export default function Finance() {
     }
   };
 
+  const verifyBalances = async () => {
+    try {
+      const response = await accountsApi.verify();
+      setVerification(response.data.data);
+      if (response.data.data.ok) {
+        toast.success('Остатки счетов совпадают с журналом проводок');
+      }
+    } catch (error) {
+      toast.error('Ошибка сверки остатков');
+    }
+  };
+
+  const reverseTransaction = async (txn: Transaction) => {
+    if (!confirm(`Сторнировать операцию ${txn.entry?.entryNumber || ''}? Будут созданы обратные проводки текущей датой.`)) return;
+    try {
+      await transactionsApi.reverse(txn.id);
+      toast.success('Операция сторнирована');
+      loadData();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Ошибка сторнирования');
+    }
+  };
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('ru-RU', {
       style: 'currency',
@@ -102,6 +209,10 @@ export default function Finance() {
             <ArrowPathIcon className="w-4 h-4" />
             Обновить
           </button>
+          <button onClick={verifyBalances} className="btn-secondary">
+            <ShieldCheckIcon className="w-4 h-4" />
+            Сверить остатки
+          </button>
           {isAdmin && (
             <button onClick={() => setShowTransactionModal(true)} className="btn-primary">
               <PlusIcon className="w-4 h-4" />
@@ -133,13 +244,91 @@ export default function Finance() {
         >
           Проводки
         </button>
+        <button
+          onClick={() => setActiveTab('ledger')}
+          className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+            activeTab === 'ledger'
+              ? 'bg-brand-500 text-white'
+              : 'text-surface-400 hover:text-surface-200'
+          }`}
+        >
+          ОСВ и периоды
+        </button>
+        <button
+          onClick={() => setActiveTab('bank')}
+          className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+            activeTab === 'bank'
+              ? 'bg-brand-500 text-white'
+              : 'text-surface-400 hover:text-surface-200'
+          }`}
+        >
+          Банк
+        </button>
+        <button
+          onClick={() => setActiveTab('rates')}
+          className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+            activeTab === 'rates'
+              ? 'bg-brand-500 text-white'
+              : 'text-surface-400 hover:text-surface-200'
+          }`}
+        >
+          Курсы валют
+        </button>
       </div>
 
-      {loading ? (
+      {verification && !verification.ok && (
+        <div className="card border-danger-500/40">
+          <div className="flex items-start justify-between gap-4 mb-3">
+            <div>
+              <h3 className="font-semibold text-danger-400">Остатки расходятся с журналом проводок</h3>
+              <p className="text-sm text-surface-400">
+                Сохраненный остаток счета не совпадает с рассчитанным по всем проводкам
+              </p>
+            </div>
+            <button onClick={() => setVerification(null)} className="btn-ghost text-sm">
+              Скрыть
+            </button>
+          </div>
+          <div className="table-container">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Счет</th>
+                  <th>Остаток</th>
+                  <th>По журналу</th>
+                  <th>Расхождение</th>
+                </tr>
+              </thead>
+              <tbody>
+                {verification.mismatches.map((row) => (
+                  <tr key={row.accountId}>
+                    <td>
+                      <span className="font-mono text-brand-400">{row.code}</span>
+                      <span className="text-surface-500 ml-2">{row.name}</span>
+                    </td>
+                    <td className="font-mono">{formatCurrency(row.storedBalance)}</td>
+                    <td className="font-mono">{formatCurrency(row.ledgerBalance)}</td>
+                    <td className="font-mono text-danger-400">{formatCurrency(row.difference)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {activeTab === 'rates' ? (
+        <ExchangeRates formatCurrency={formatCurrency} />
+      ) : activeTab === 'bank' ? (
+        <BankReconciliation formatCurrency={formatCurrency} onPosted={loadData} />
+      ) : activeTab === 'ledger' ? (
+        <TrialBalance formatCurrency={formatCurrency} />
+      ) : loading ? (
         <div className="card skeleton h-96" />
       ) : activeTab === 'accounts' ? (
         /* Accounts View */
         <div className="space-y-6">
+          <PostingRules accounts={accounts} onSynced={loadData} />
           {Object.entries(accountsByType).map(([type, accs]) => (
             <div key={type} className="card">
               <h3 className="text-lg font-semibold text-white mb-4">
@@ -175,19 +364,27 @@ export default function Finance() {
             <table className="table">
               <thead>
                 <tr>
-                  <th>Дата</th>
+                  <th>Дата / операция</th>
                   <th>Дебет</th>
                   <th>Кредит</th>
                   <th>Сумма</th>
                   <th>Описание</th>
                   <th>Заказ</th>
+                  {isAdmin && <th></th>}
                 </tr>
               </thead>
               <tbody>
                 {transactions.map((txn) => (
                   <tr key={txn.id}>
                     <td className="text-surface-400">
-                      {new Date(txn.transactionDate).toLocaleDateString('ru-RU')}
+                      <p>{new Date(txn.transactionDate).toLocaleDateString('ru-RU')}</p>
+                      {txn.entry && (
+                        <p className="font-mono text-xs text-surface-500">
+                          {txn.entry.entryNumber}
+                          {txn.entry.reversalOfId && ' · сторно'}
+                          {txn.entry.reversedBy && ` · сторнирована ${txn.entry.reversedBy.entryNumber}`}
+                        </p>
+                      )}
                     </td>
                     <td>
                       <span className="font-mono text-brand-400">{txn.debitAccount.code}</span>
@@ -212,6 +409,19 @@ export default function Finance() {
                         <span className="text-surface-600">—</span>
                       )}
                     </td>
+                    {isAdmin && (
+                      <td>
+                        {txn.entry && !txn.entry.reversalOfId && !txn.entry.reversedBy && (
+                          <button
+                            onClick={() => reverseTransaction(txn)}
+                            className="btn-icon btn-ghost"
+                            title="Сторнировать"
+                          >
+                            <ArrowUturnLeftIcon className="w-4 h-4" />
+                          </button>
+                        )}
+                      </td>
+                    )}
                   </tr>
                 ))}
               </tbody>
@@ -248,6 +458,7 @@ function TransactionModal({
   const [creditAccountId, setCreditAccountId] = useState('');
   const [amount, setAmount] = useState('');
   const [description, setDescription] = useState('');
+  const [transactionDate, setTransactionDate] = useState(new Date().toISOString().split('T')[0]);
   const [loading, setLoading] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -270,6 +481,7 @@ function TransactionModal({
         creditAccountId,
         amount: parseFloat(amount),
         description,
+        transactionDate,
       });
       toast.success('Проводка создана');
       onSave();
@@ -322,18 +534,29 @@ function TransactionModal({
             </select>
           </div>
 
-          <div>
-            <label className="label">Сумма *</label>
-            <input
-              type="number"
-              step="0.01"
-              min="0.01"
-              value={amount}
-              onChange={(e) => setAmount(e.target.value)}
-              className="input"
-              placeholder="0.00"
-              required
-            />
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="label">Сумма *</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="input"
+                placeholder="0.00"
+                required
+              />
+            </div>
+            <div>
+              <label className="label">Дата</label>
+              <input
+                type="date"
+                value={transactionDate}
+                onChange={(e) => setTransactionDate(e.target.value)}
+                className="input"
+              />
+            </div>
           </div>
 
           <div>
@@ -360,3 +583,1223 @@ function TransactionModal({
     </div>
   );
 }
+
+function BankReconciliation({
+  formatCurrency,
+  onPosted,
+}: {
+  formatCurrency: (value: number) => string;
+  onPosted: () => void;
+}) {
+  const [statements, setStatements] = useState<BankStatement[]>([]);
+  const [statement, setStatement] = useState<BankStatement | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [editingLine, setEditingLine] = useState<BankLine | null>(null);
+  const [busy, setBusy] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const isAdmin = useIsAdmin();
+
+  useEffect(() => {
+    loadStatements();
+  }, []);
+
+  const loadStatements = async (openId?: string) => {
+    try {
+      const response = await bankStatementsApi.getAll();
+      setStatements(response.data.data);
+      const id = openId || statement?.id || response.data.data[0]?.id;
+      if (id) loadStatement(id);
+    } catch (error) {
+      toast.error('Ошибка загрузки выписок');
+    }
+  };
+
+  const loadStatement = async (id: string) => {
+    try {
+      const response = await bankStatementsApi.getById(id);
+      const data: BankStatement = response.data.data;
+      setStatement(data);
+      setSelected(
+        new Set(
+          (data.lines || [])
+            .filter((line) => line.status === 'MATCHED' && line.confidence >= AUTO_CONFIRM_CONFIDENCE)
+            .map((line) => line.id)
+        )
+      );
+    } catch (error) {
+      toast.error('Ошибка загрузки выписки');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setBusy(true);
+    try {
+      const response = await bankStatementsApi.import(file);
+      toast.success(response.data.message || 'Выписка загружена');
+      loadStatements(response.data.data.id);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Ошибка загрузки выписки');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const run = async (action: () => Promise<any>, fallback: string, posted = false) => {
+    if (!statement) return;
+    setBusy(true);
+    try {
+      const response = await action();
+      if (response?.data?.message) toast.success(response.data.message);
+      await loadStatements(statement.id);
+      if (posted) onPosted();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || fallback);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleLine = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  const lines = statement?.lines || [];
+  const totals = lines.reduce(
+    (acc, line) => {
+      if (line.direction === 'IN') acc.in += Number(line.amount);
+      else acc.out += Number(line.amount);
+      return acc;
+    },
+    { in: 0, out: 0 }
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="card flex flex-wrap gap-3 items-end">
+        <div className="w-80">
+          <label className="label">Выписка</label>
+          <select
+            value={statement?.id || ''}
+            onChange={(e) => e.target.value && loadStatement(e.target.value)}
+            className="select"
+          >
+            {statements.length === 0 && <option value="">Выписок нет</option>}
+            {statements.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.fileName} · {s.dateFrom ? new Date(s.dateFrom).toLocaleDateString('ru-RU') : ''}
+                {s.dateTo ? ` — ${new Date(s.dateTo).toLocaleDateString('ru-RU')}` : ''}
+                {s.status === 'RECONCILED' ? ' ✓' : ` (${s.pendingLines} к сверке)`}
+              </option>
+            ))}
+          </select>
+        </div>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".txt,.csv"
+          className="hidden"
+          onChange={handleImport}
+        />
+        <button onClick={() => fileInput.current?.click()} disabled={busy} className="btn-primary">
+          <ArrowUpTrayIcon className="w-4 h-4" />
+          Загрузить выписку
+        </button>
+        {statement && (
+          <>
+            <button
+              onClick={() => run(() => bankStatementsApi.rematch(statement.id), 'Ошибка сопоставления')}
+              disabled={busy}
+              className="btn-secondary"
+            >
+              <ArrowPathIcon className="w-4 h-4" />
+              Сопоставить повторно
+            </button>
+            <button
+              onClick={() =>
+                run(() => bankStatementsApi.post(statement.id, [...selected]), 'Ошибка проведения', true)
+              }
+              disabled={busy || selected.size === 0}
+              className="btn-primary"
+            >
+              Провести выбранные ({selected.size})
+            </button>
+            {isAdmin && !lines.some((line) => line.status === 'POSTED') && (
+              <button
+                onClick={() => {
+                  if (!confirm('Удалить выписку?')) return;
+                  bankStatementsApi
+                    .delete(statement.id)
+                    .then(() => {
+                      toast.success('Выписка удалена');
+                      setStatement(null);
+                      loadStatements();
+                    })
+                    .catch((error) => toast.error(error.response?.data?.error || 'Ошибка удаления'));
+                }}
+                className="btn-ghost text-danger-500"
+              >
+                Удалить
+              </button>
+            )}
+          </>
+        )}
+        <p className="text-xs text-surface-500 w-full">
+          Форматы: выгрузка 1С «1CClientBankExchange» (.txt) или CSV с колонками Дата, Номер, Сумма
+          (или Приход/Расход), Контрагент, ИНН, Назначение платежа
+        </p>
+      </div>
+
+      {statement && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="card">
+              <p className="text-xs text-surface-500">Счет</p>
+              <p className="font-mono text-surface-100">{statement.accountNumber || '—'}</p>
+            </div>
+            <div className="card">
+              <p className="text-xs text-surface-500">Поступления</p>
+              <p className="text-lg font-bold text-success-500">{formatCurrency(totals.in)}</p>
+            </div>
+            <div className="card">
+              <p className="text-xs text-surface-500">Списания</p>
+              <p className="text-lg font-bold text-danger-500">{formatCurrency(totals.out)}</p>
+            </div>
+            <div className="card">
+              <p className="text-xs text-surface-500">Остаток на начало / конец</p>
+              <p className="font-mono text-surface-100">
+                {statement.openingBalance !== null ? formatCurrency(Number(statement.openingBalance)) : '—'}
+                {' / '}
+                {statement.closingBalance !== null ? formatCurrency(Number(statement.closingBalance)) : '—'}
+              </p>
+            </div>
+          </div>
+
+          <div className="card p-0 overflow-hidden">
+            <div className="table-container border-0">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th></th>
+                    <th>Дата / №</th>
+                    <th>Сумма</th>
+                    <th>Контрагент</th>
+                    <th>Назначение</th>
+                    <th>Сопоставление</th>
+                    <th>Статус</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lines.map((line) => (
+                    <tr key={line.id}>
+                      <td>
+                        <input
+                          type="checkbox"
+                          checked={selected.has(line.id)}
+                          disabled={line.status !== 'MATCHED'}
+                          onChange={() => toggleLine(line.id)}
+                          className="w-4 h-4 rounded border-surface-600 bg-surface-800 text-brand-500 focus:ring-brand-500"
+                        />
+                      </td>
+                      <td className="text-surface-400 whitespace-nowrap">
+                        {new Date(line.documentDate).toLocaleDateString('ru-RU')}
+                        {line.documentNumber && <p className="text-xs">№ {line.documentNumber}</p>}
+                      </td>
+                      <td className={`font-mono font-semibold whitespace-nowrap ${line.direction === 'IN' ? 'text-success-500' : 'text-danger-500'}`}>
+                        {line.direction === 'IN' ? '+' : '−'}{formatCurrency(Number(line.amount))}
+                      </td>
+                      <td>
+                        <p className="text-surface-100">{line.counterpartyName || '—'}</p>
+                        {line.counterpartyInn && <p className="text-xs text-surface-500">ИНН {line.counterpartyInn}</p>}
+                      </td>
+                      <td className="text-surface-400 max-w-xs truncate" title={line.purpose || ''}>
+                        {line.purpose || '—'}
+                      </td>
+                      <td>
+                        {line.client || line.vendor ? (
+                          <>
+                            <p className="text-surface-100">
+                              {line.client?.name || line.vendor?.name}
+                              {(line.incomeOperation || line.costOperation) && (
+                                <span className="font-mono text-xs text-brand-400 ml-2">
+                                  {(line.incomeOperation || line.costOperation)!.order.orderNumber}
+                                </span>
+                              )}
+                              {line.vendorBill && (
+                                <span className="font-mono text-xs text-brand-400 ml-2">
+                                  счет № {line.vendorBill.invoiceNumber}
+                                </span>
+                              )}
+                              {line.payment && (
+                                <span className="font-mono text-xs text-brand-400 ml-2">{line.payment.paymentNumber}</span>
+                              )}
+                            </p>
+                            <p className="text-xs text-surface-500">
+                              {line.status === 'MATCHED' && `${line.confidence}% · `}
+                              {line.matchNote}
+                            </p>
+                          </>
+                        ) : (
+                          <p className="text-xs text-surface-500">{line.matchNote || '—'}</p>
+                        )}
+                      </td>
+                      <td>
+                        <span className={lineStatusLabels[line.status].class}>{lineStatusLabels[line.status].label}</span>
+                      </td>
+                      <td className="whitespace-nowrap text-right">
+                        {line.status !== 'POSTED' && (
+                          <>
+                            <button
+                              onClick={() => setEditingLine(line)}
+                              className="btn-icon"
+                              title="Изменить сопоставление"
+                            >
+                              <PencilIcon className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() =>
+                                run(
+                                  () =>
+                                    bankStatementsApi.updateLine(
+                                      statement.id,
+                                      line.id,
+                                      line.status === 'IGNORED' ? { matchType: null } : { ignore: true }
+                                    ),
+                                  'Ошибка сохранения'
+                                )
+                              }
+                              className="btn-icon"
+                              title={line.status === 'IGNORED' ? 'Вернуть в сверку' : 'Исключить из сверки'}
+                            >
+                              <NoSymbolIcon className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+
+      {editingLine && statement && (
+        <LineMatchModal
+          statementId={statement.id}
+          line={editingLine}
+          onClose={() => setEditingLine(null)}
+          onSave={() => {
+            setEditingLine(null);
+            loadStatements(statement.id);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function LineMatchModal({
+  statementId,
+  line,
+  onClose,
+  onSave,
+}: {
+  statementId: string;
+  line: BankLine;
+  onClose: () => void;
+  onSave: () => void;
+}) {
+  const isIncoming = line.direction === 'IN';
+  const [counterparties, setCounterparties] = useState<{ id: string; name: string; inn?: string }[]>([]);
+  // Vendor candidates are open vendor bills (with invoiceNumber) followed by costs outside bills
+  const [documents, setDocuments] = useState<
+    { id: string; openAmount: number; invoiceNumber?: string; order?: { orderNumber: string } }[]
+  >([]);
+  const [counterpartyId, setCounterpartyId] = useState((isIncoming ? line.client?.id : line.vendor?.id) || '');
+  const [documentId, setDocumentId] = useState(
+    (isIncoming ? line.incomeOperation?.id : line.vendorBill?.id || line.costOperation?.id) || ''
+  );
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const request = isIncoming ? clientsApi.getAll() : vendorsApi.getAll();
+    request.then((response) => setCounterparties(response.data.data)).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    if (!counterpartyId) {
+      setDocuments([]);
+      return;
+    }
+    bankStatementsApi
+      .getCandidates(isIncoming ? { clientId: counterpartyId } : { vendorId: counterpartyId })
+      .then((response) => setDocuments(response.data.data))
+      .catch(() => setDocuments([]));
+  }, [counterpartyId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const isBill = !!documents.find((doc) => doc.id === documentId)?.invoiceNumber;
+
+    setLoading(true);
+    try {
+      await bankStatementsApi.updateLine(
+        statementId,
+        line.id,
+        !counterpartyId
+          ? { matchType: null }
+          : isIncoming
+            ? { matchType: 'CLIENT_PAYMENT', clientId: counterpartyId, incomeOperationId: documentId || null }
+            : {
+                matchType: 'VENDOR_PAYMENT',
+                vendorId: counterpartyId,
+                vendorBillId: isBill ? documentId : null,
+                costOperationId: isBill ? null : documentId || null,
+              }
+      );
+      toast.success('Сопоставление сохранено');
+      onSave();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Ошибка сохранения');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-surface-900 border border-surface-800 rounded-2xl shadow-xl w-full max-w-lg animate-scale-in">
+        <div className="p-6 border-b border-surface-800">
+          <h2 className="text-xl font-semibold text-white">
+            {isIncoming ? 'Поступление от клиента' : 'Оплата поставщику'}
+          </h2>
+          <p className="text-sm text-surface-400 mt-1">
+            {line.counterpartyName || '—'} · {Number(line.amount).toLocaleString('ru-RU')} ₽
+          </p>
+          {line.purpose && <p className="text-xs text-surface-500 mt-1">{line.purpose}</p>}
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="label">{isIncoming ? 'Клиент' : 'Поставщик'}</label>
+            <select
+              value={counterpartyId}
+              onChange={(e) => {
+                setCounterpartyId(e.target.value);
+                setDocumentId('');
+              }}
+              className="select"
+            >
+              <option value="">Не сопоставлено</option>
+              {counterparties.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}{c.inn ? ` (ИНН ${c.inn})` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {counterpartyId && (
+            <div>
+              <label className="label">{isIncoming ? 'Счет к оплате' : 'Счет поставщика или расход'}</label>
+              <select value={documentId} onChange={(e) => setDocumentId(e.target.value)} className="select">
+                <option value="">
+                  {isIncoming ? 'Разнести на самые старые счета' : 'Без привязки к расходу'}
+                </option>
+                {documents.map((doc) => (
+                  <option key={doc.id} value={doc.id}>
+                    {doc.invoiceNumber ? `Счет № ${doc.invoiceNumber}` : doc.order?.orderNumber} —{' '}
+                    {doc.openAmount.toLocaleString('ru-RU')} ₽
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <button type="button" onClick={onClose} className="btn-secondary flex-1">
+              Отмена
+            </button>
+            <button type="submit" disabled={loading} className="btn-primary flex-1">
+              {loading ? 'Сохранение...' : 'Сохранить'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+interface TrialBalanceData {
+  rows: {
+    accountId: string;
+    code: string;
+    name: string;
+    type: string;
+    opening: { debit: number; credit: number };
+    turnover: { debit: number; credit: number };
+    closing: { debit: number; credit: number };
+  }[];
+  totals: {
+    opening: { debit: number; credit: number };
+    turnover: { debit: number; credit: number };
+    closing: { debit: number; credit: number };
+  };
+  balanced: boolean;
+}
+
+interface AccountingPeriod {
+  id: string;
+  period: string;
+  status: 'CLOSED' | 'OPEN';
+  closedAt: string | null;
+  reopenedAt: string | null;
+}
+
+const toInputDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// YYYY-MM of the month after the given one (or the previous calendar month when nothing is closed)
+const nextPeriodToClose = (lastClosed?: string) => {
+  const now = new Date();
+  if (!lastClosed) {
+    return toInputDate(new Date(now.getFullYear(), now.getMonth() - 1, 1)).slice(0, 7);
+  }
+  const [year, month] = lastClosed.split('-').map(Number);
+  return toInputDate(new Date(year, month, 1)).slice(0, 7);
+};
+
+function TrialBalance({ formatCurrency }: { formatCurrency: (value: number) => string }) {
+  const now = new Date();
+  const [period, setPeriod] = useState({
+    dateFrom: toInputDate(new Date(now.getFullYear(), now.getMonth(), 1)),
+    dateTo: toInputDate(now),
+  });
+  const [data, setData] = useState<TrialBalanceData | null>(null);
+  const [periods, setPeriods] = useState<AccountingPeriod[]>([]);
+  const [lockDate, setLockDate] = useState<string | null>(null);
+  const [periodToClose, setPeriodToClose] = useState('');
+  const [busy, setBusy] = useState(false);
+  const isAdmin = useIsAdmin();
+
+  useEffect(() => {
+    loadTrialBalance();
+  }, [period]);
+
+  useEffect(() => {
+    loadPeriods();
+  }, []);
+
+  const loadTrialBalance = async () => {
+    try {
+      const response = await accountsApi.getTrialBalance(period);
+      setData(response.data.data);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Ошибка загрузки ведомости');
+    }
+  };
+
+  const loadPeriods = async () => {
+    try {
+      const response = await accountingPeriodsApi.getAll();
+      const list: AccountingPeriod[] = response.data.data.periods;
+      setPeriods(list);
+      setLockDate(response.data.data.lockDate);
+      setPeriodToClose(nextPeriodToClose(list.find((p) => p.status === 'CLOSED')?.period));
+    } catch (error) {
+      setPeriods([]);
+    }
+  };
+
+  const exportXlsx = async () => {
+    try {
+      const response = await accountsApi.getTrialBalance({ ...period, format: 'xlsx' });
+      const blob = new Blob([response.data], {
+        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      });
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `trial-balance-${period.dateFrom}-${period.dateTo}.xlsx`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error('Ошибка выгрузки');
+    }
+  };
+
+  const runPeriodAction = async (action: () => Promise<unknown>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast.success(success);
+      await Promise.all([loadPeriods(), loadTrialBalance()]);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || error.response?.data?.errors?.[0]?.msg || 'Ошибка выполнения операции');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const lastClosed = periods.find((p) => p.status === 'CLOSED');
+  const amount = (value: number) => (value ? formatCurrency(value) : '');
+
+  return (
+    <div className="space-y-6">
+      {/* Period close */}
+      <div className="card flex flex-wrap gap-4 items-end justify-between">
+        <div>
+          <h3 className="font-semibold text-white flex items-center gap-2">
+            <LockClosedIcon className="w-5 h-5 text-brand-400" />
+            Закрытие периода
+          </h3>
+          <p className="text-sm text-surface-400 mt-1">
+            {lockDate
+              ? `Учет закрыт по ${new Date(lockDate).toLocaleDateString('ru-RU')} — проводки с более ранней датой запрещены`
+              : 'Закрытых периодов нет'}
+          </p>
+        </div>
+        {isAdmin && (
+          <div className="flex gap-2 items-end">
+            <div>
+              <label className="label">Месяц</label>
+              <input
+                type="month"
+                value={periodToClose}
+                onChange={(e) => setPeriodToClose(e.target.value)}
+                className="input"
+              />
+            </div>
+            <button
+              disabled={busy || !periodToClose}
+              onClick={() => {
+                if (!confirm(`Закрыть период ${periodToClose}? Проводки с датой в этом месяце и ранее станут невозможны.`)) return;
+                runPeriodAction(() => accountingPeriodsApi.close(periodToClose), 'Период закрыт');
+              }}
+              className="btn-primary"
+            >
+              <LockClosedIcon className="w-4 h-4" />
+              Закрыть
+            </button>
+            {lastClosed && (
+              <button
+                disabled={busy}
+                onClick={() => runPeriodAction(() => accountingPeriodsApi.reopen(lastClosed.period), 'Период открыт')}
+                className="btn-secondary"
+              >
+                <LockOpenIcon className="w-4 h-4" />
+                Открыть {lastClosed.period}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Trial balance */}
+      <div className="card p-0 overflow-hidden">
+        <div className="p-4 flex flex-wrap gap-3 items-end justify-between border-b border-surface-800">
+          <div className="flex flex-wrap gap-3 items-end">
+            <div>
+              <label className="label">С</label>
+              <input
+                type="date"
+                value={period.dateFrom}
+                onChange={(e) => setPeriod({ ...period, dateFrom: e.target.value })}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="label">По</label>
+              <input
+                type="date"
+                value={period.dateTo}
+                onChange={(e) => setPeriod({ ...period, dateTo: e.target.value })}
+                className="input"
+              />
+            </div>
+          </div>
+          <div className="flex gap-2 items-center">
+            {data && !data.balanced && (
+              <span className="badge-danger">Дебет и кредит не сходятся</span>
+            )}
+            <button onClick={exportXlsx} className="btn-secondary">
+              <ArrowDownTrayIcon className="w-4 h-4" />
+              Excel
+            </button>
+          </div>
+        </div>
+
+        {!data ? (
+          <div className="skeleton h-64" />
+        ) : (
+          <div className="table-container border-0">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th rowSpan={2}>Счет</th>
+                  <th colSpan={2} className="text-center">Сальдо на начало</th>
+                  <th colSpan={2} className="text-center">Обороты за период</th>
+                  <th colSpan={2} className="text-center">Сальдо на конец</th>
+                </tr>
+                <tr>
+                  <th>Дебет</th>
+                  <th>Кредит</th>
+                  <th>Дебет</th>
+                  <th>Кредит</th>
+                  <th>Дебет</th>
+                  <th>Кредит</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.rows.length > 0 ? (
+                  data.rows.map((row) => (
+                    <tr key={row.accountId}>
+                      <td>
+                        <span className="font-mono text-brand-400 mr-2">{row.code}</span>
+                        <span className="text-surface-300">{row.name}</span>
+                      </td>
+                      <td className="font-mono">{amount(row.opening.debit)}</td>
+                      <td className="font-mono">{amount(row.opening.credit)}</td>
+                      <td className="font-mono">{amount(row.turnover.debit)}</td>
+                      <td className="font-mono">{amount(row.turnover.credit)}</td>
+                      <td className="font-mono">{amount(row.closing.debit)}</td>
+                      <td className="font-mono">{amount(row.closing.credit)}</td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={7} className="text-center text-surface-500 py-8">
+                      Нет проводок
+                    </td>
+                  </tr>
+                )}
+                <tr>
+                  <td className="font-semibold text-white">Итого</td>
+                  <td className="font-mono font-semibold">{formatCurrency(data.totals.opening.debit)}</td>
+                  <td className="font-mono font-semibold">{formatCurrency(data.totals.opening.credit)}</td>
+                  <td className="font-mono font-semibold">{formatCurrency(data.totals.turnover.debit)}</td>
+                  <td className="font-mono font-semibold">{formatCurrency(data.totals.turnover.credit)}</td>
+                  <td className="font-mono font-semibold">{formatCurrency(data.totals.closing.debit)}</td>
+                  <td className="font-mono font-semibold">{formatCurrency(data.totals.closing.credit)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface PostingRule {
+  event: string;
+  name: string;
+  debitAccountCode: string;
+  creditAccountCode: string;
+  isActive: boolean;
+  isDefault: boolean;
+}
+
+function PostingRules({ accounts, onSynced }: { accounts: Account[]; onSynced: () => void }) {
+  const [rules, setRules] = useState<PostingRule[]>([]);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const isAdmin = useIsAdmin();
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const loadRules = async () => {
+    try {
+      const response = await postingRulesApi.getAll();
+      setRules(response.data.data);
+    } catch (error) {
+      setRules([]);
+    }
+  };
+
+  const updateLocal = (event: string, patch: Partial<PostingRule>) => {
+    setRules(rules.map((r) => (r.event === event ? { ...r, ...patch } : r)));
+  };
+
+  const saveRule = async (rule: PostingRule) => {
+    setSaving(rule.event);
+    try {
+      await postingRulesApi.update(rule.event, {
+        debitAccountCode: rule.debitAccountCode,
+        creditAccountCode: rule.creditAccountCode,
+        isActive: rule.isActive,
+      });
+      toast.success('Правило сохранено');
+      loadRules();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Ошибка сохранения правила');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const resync = async () => {
+    if (!confirm('Провести разницу между операциями заказов и проводками по всем заказам?')) return;
+    setSyncing(true);
+    try {
+      const response = await postingRulesApi.resync();
+      toast.success(`Создано корректировок: ${response.data.data.entries}`);
+      onSynced();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Ошибка синхронизации');
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  if (rules.length === 0) return null;
+
+  return (
+    <div className="card">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Автоматические проводки</h3>
+          <p className="text-sm text-surface-400">
+            Счета клиентам и расходы поставщиков по заказам проводятся сразу, изменения — корректировками
+          </p>
+        </div>
+        {isAdmin && (
+          <button onClick={resync} disabled={syncing} className="btn-secondary">
+            <ArrowPathIcon className="w-4 h-4" />
+            Синхронизировать
+          </button>
+        )}
+      </div>
+      <div className="space-y-3">
+        {rules.map((rule) => (
+          <div
+            key={rule.event}
+            className="flex flex-wrap items-end gap-3 p-3 rounded-xl bg-surface-800/50 border border-surface-700"
+          >
+            <div className="flex-1 min-w-[12rem]">
+              <p className="font-medium text-surface-100">{rule.name}</p>
+              <p className="text-xs text-surface-500">{rule.isDefault ? 'По умолчанию' : 'Настроено'}</p>
+            </div>
+            <div>
+              <label className="label">Дебет</label>
+              <select
+                value={rule.debitAccountCode}
+                onChange={(e) => updateLocal(rule.event, { debitAccountCode: e.target.value })}
+                disabled={!isAdmin}
+                className="select"
+              >
+                {accounts.map((a) => (
+                  <option key={a.id} value={a.code}>{a.code} — {a.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="label">Кредит</label>
+              <select
+                value={rule.creditAccountCode}
+                onChange={(e) => updateLocal(rule.event, { creditAccountCode: e.target.value })}
+                disabled={!isAdmin}
+                className="select"
+              >
+                {accounts.map((a) => (
+                  <option key={a.id} value={a.code}>{a.code} — {a.name}</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-surface-300 pb-2">
+              <input
+                type="checkbox"
+                checked={rule.isActive}
+                onChange={(e) => updateLocal(rule.event, { isActive: e.target.checked })}
+                disabled={!isAdmin}
+              />
+              Включено
+            </label>
+            {isAdmin && (
+              <button
+                onClick={() => saveRule(rule)}
+                disabled={saving === rule.event}
+                className="btn-primary"
+              >
+                Сохранить
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface ExchangeRate {
+  id: string;
+  currency: string;
+  rateDate: string;
+  rate: string;
+  nominal: number;
+  source: 'MANUAL' | 'CBR';
+}
+
+interface FxDifferenceReport {
+  rows: {
+    paymentId: string;
+    paymentDate: string;
+    billNumber: string;
+    invoiceNumber: string;
+    vendor: { id: string; name: string };
+    currency: string;
+    currencyAmount: number;
+    billRate: number;
+    paymentRate: number;
+    bookedAmount: number;
+    paidAmount: number;
+    fxDifference: number;
+  }[];
+  totals: { gain: number; loss: number; net: number };
+}
+
+const FOREIGN_CURRENCIES = ['USD', 'EUR', 'CNY'];
+
+function ExchangeRates({ formatCurrency }: { formatCurrency: (value: number) => string }) {
+  const now = new Date();
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [currency, setCurrency] = useState('');
+  const [form, setForm] = useState({ currency: 'USD', rateDate: toInputDate(now), rate: '', nominal: '1' });
+  const [period, setPeriod] = useState({
+    dateFrom: toInputDate(new Date(now.getFullYear(), now.getMonth(), 1)),
+    dateTo: toInputDate(now),
+  });
+  const [fx, setFx] = useState<FxDifferenceReport | null>(null);
+  const [busy, setBusy] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const isAdmin = useIsAdmin();
+
+  useEffect(() => {
+    loadRates();
+  }, [currency]);
+
+  useEffect(() => {
+    loadFx();
+  }, [period]);
+
+  const loadRates = async () => {
+    try {
+      const response = await exchangeRatesApi.getAll(currency ? { currency } : undefined);
+      setRates(response.data.data);
+    } catch (error) {
+      toast.error('Ошибка загрузки курсов');
+    }
+  };
+
+  const loadFx = async () => {
+    try {
+      const response = await exchangeRatesApi.getFxDifferences(period);
+      setFx(response.data.data);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Ошибка загрузки курсовых разниц');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setBusy(true);
+    try {
+      const response = await exchangeRatesApi.import(file);
+      const { created, updated } = response.data.data;
+      toast.success(`Курсы загружены: новых ${created}, обновлено ${updated}`);
+      loadRates();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Ошибка загрузки курсов ЦБ');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      await exchangeRatesApi.create({
+        currency: form.currency,
+        rateDate: form.rateDate,
+        rate: Number(form.rate),
+        nominal: Number(form.nominal) || 1,
+      });
+      toast.success('Курс сохранен');
+      setForm({ ...form, rate: '' });
+      loadRates();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || error.response?.data?.errors?.[0]?.msg || 'Ошибка сохранения курса');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    if (!confirm(`Удалить курс ${rate.currency} на ${new Date(rate.rateDate).toLocaleDateString('ru-RU')}?`)) return;
+    try {
+      await exchangeRatesApi.delete(rate.id);
+      toast.success('Курс удален');
+      loadRates();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Ошибка удаления курса');
+    }
+  };
+
+  const exportFx = async () => {
+    try {
+      const response = await exchangeRatesApi.getFxDifferences({ ...period, format: 'xlsx' });
+      const blob = new Blob([response.data], {
+        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      });
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `fx-differences-${period.dateFrom}-${period.dateTo}.xlsx`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error('Ошибка выгрузки');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Rates */}
+      <div className="card p-0 overflow-hidden">
+        <div className="p-4 flex flex-wrap gap-3 items-end justify-between border-b border-surface-800">
+          <form onSubmit={handleSubmit} className="flex flex-wrap gap-3 items-end">
+            <div>
+              <label className="label">Валюта</label>
+              <select
+                value={form.currency}
+                onChange={(e) => setForm({ ...form, currency: e.target.value })}
+                className="select"
+              >
+                {FOREIGN_CURRENCIES.map((c) => (
+                  <option key={c} value={c}>{c}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="label">Дата</label>
+              <input
+                type="date"
+                value={form.rateDate}
+                onChange={(e) => setForm({ ...form, rateDate: e.target.value })}
+                className="input"
+                required
+              />
+            </div>
+            <div>
+              <label className="label">Номинал</label>
+              <input
+                type="number"
+                min="1"
+                value={form.nominal}
+                onChange={(e) => setForm({ ...form, nominal: e.target.value })}
+                className="input w-24"
+              />
+            </div>
+            <div>
+              <label className="label">Курс, ₽</label>
+              <input
+                type="number"
+                step="0.0001"
+                min="0"
+                value={form.rate}
+                onChange={(e) => setForm({ ...form, rate: e.target.value })}
+                className="input w-32"
+                required
+              />
+            </div>
+            <button type="submit" disabled={busy} className="btn-primary">
+              <PlusIcon className="w-4 h-4" />
+              Добавить
+            </button>
+          </form>
+          <div className="flex gap-2 items-end">
+            <select value={currency} onChange={(e) => setCurrency(e.target.value)} className="select">
+              <option value="">Все валюты</option>
+              {FOREIGN_CURRENCIES.map((c) => (
+                <option key={c} value={c}>{c}</option>
+              ))}
+            </select>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".xml"
+              onChange={handleImport}
+              className="hidden"
+            />
+            <button onClick={() => fileInput.current?.click()} disabled={busy} className="btn-secondary">
+              <ArrowUpTrayIcon className="w-4 h-4" />
+              XML ЦБ
+            </button>
+          </div>
+        </div>
+
+        <div className="table-container border-0">
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Дата</th>
+                <th>Валюта</th>
+                <th>Курс за 1 ед.</th>
+                <th>Номинал</th>
+                <th>Источник</th>
+                {isAdmin && <th></th>}
+              </tr>
+            </thead>
+            <tbody>
+              {rates.length > 0 ? (
+                rates.map((rate) => (
+                  <tr key={rate.id}>
+                    <td>{new Date(rate.rateDate).toLocaleDateString('ru-RU')}</td>
+                    <td className="font-mono text-brand-400">{rate.currency}</td>
+                    <td className="font-mono">{Number(rate.rate).toFixed(4)}</td>
+                    <td className="text-surface-400">{rate.nominal}</td>
+                    <td>
+                      <span className={rate.source === 'CBR' ? 'badge-info' : 'badge-neutral'}>
+                        {rate.source === 'CBR' ? 'ЦБ РФ' : 'Вручную'}
+                      </span>
+                    </td>
+                    {isAdmin && (
+                      <td>
+                        <button onClick={() => handleDelete(rate)} className="btn-icon btn-ghost" title="Удалить">
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={isAdmin ? 6 : 5} className="text-center text-surface-500 py-8">
+                    Курсов нет — загрузите XML с сайта ЦБ или введите курс вручную
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* FX differences */}
+      <div className="card p-0 overflow-hidden">
+        <div className="p-4 flex flex-wrap gap-3 items-end justify-between border-b border-surface-800">
+          <div>
+            <h3 className="font-semibold text-white">Курсовые разницы</h3>
+            <p className="text-sm text-surface-400 mt-1">
+              Оплаты валютных счетов поставщиков по курсу, отличному от курса счета
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-3 items-end">
+            <div>
+              <label className="label">С</label>
+              <input
+                type="date"
+                value={period.dateFrom}
+                onChange={(e) => setPeriod({ ...period, dateFrom: e.target.value })}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="label">По</label>
+              <input
+                type="date"
+                value={period.dateTo}
+                onChange={(e) => setPeriod({ ...period, dateTo: e.target.value })}
+                className="input"
+              />
+            </div>
+            <button onClick={exportFx} className="btn-secondary">
+              <ArrowDownTrayIcon className="w-4 h-4" />
+              Excel
+            </button>
+          </div>
+        </div>
+
+        {!fx ? (
+          <div className="skeleton h-40" />
+        ) : (
+          <div className="table-container border-0">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Дата оплаты</th>
+                  <th>Поставщик</th>
+                  <th>Счет</th>
+                  <th>Сумма в валюте</th>
+                  <th>Курс счета</th>
+                  <th>Курс оплаты</th>
+                  <th>Погашено</th>
+                  <th>Оплачено</th>
+                  <th>Разница</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fx.rows.length > 0 ? (
+                  fx.rows.map((row) => (
+                    <tr key={row.paymentId}>
+                      <td>{new Date(row.paymentDate).toLocaleDateString('ru-RU')}</td>
+                      <td>{row.vendor.name}</td>
+                      <td className="text-surface-400">{row.invoiceNumber}</td>
+                      <td className="font-mono">{row.currencyAmount.toFixed(2)} {row.currency}</td>
+                      <td className="font-mono">{row.billRate.toFixed(4)}</td>
+                      <td className="font-mono">{row.paymentRate.toFixed(4)}</td>
+                      <td className="font-mono">{formatCurrency(row.bookedAmount)}</td>
+                      <td className="font-mono">{formatCurrency(row.paidAmount)}</td>
+                      <td className={`font-mono ${row.fxDifference > 0 ? 'text-danger-400' : row.fxDifference < 0 ? 'text-success-400' : ''}`}>
+                        {formatCurrency(row.fxDifference)}
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={9} className="text-center text-surface-500 py-8">
+                      Нет оплат валютных счетов за период
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {fx && fx.rows.length > 0 && (
+          <div className="p-4 flex flex-wrap gap-6 border-t border-surface-800 text-sm">
+            <span className="text-surface-400">
+              Доход (Кт 91.1): <span className="font-mono text-success-400">{formatCurrency(fx.totals.gain)}</span>
+            </span>
+            <span className="text-surface-400">
+              Расход (Дт 91.2): <span className="font-mono text-danger-400">{formatCurrency(fx.totals.loss)}</span>
+            </span>
+            <span className="text-surface-400">
+              Итого: <span className="font-mono text-white">{formatCurrency(fx.totals.net)}</span>
+            </span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import { useEffect, useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { ordersApi, incomeOperationsApi, orderExpensesApi, vendorsApi, vendorServicesApi } from '../lib/api';
+import { ordersApi, incomeOperationsApi, orderExpensesApi, vendorsApi, vendorServicesApi, returnsApi } from '../lib/api';
 import { useIsManager } from '../store/authStore';
+import ClientDocuments from '../components/ClientDocuments';
 import toast from 'react-hot-toast';
 import {
   ArrowLeftIcon,
@@ -14,6 +15,9 @@ import {
   CubeIcon,
   ReceiptPercentIcon,
   CreditCardIcon,
+  ClockIcon,
+  ArrowUturnLeftIcon,
+  DocumentTextIcon,
 } from '@heroicons/react/24/outline';
 
 interface OrderDetail {
@@ -31,8 +35,15 @@ interface OrderDetail {
     volume: number;
     unitCost: number;
     unitPrice: number;
+    productId: string | null;
+    reservations: Array<{
+      id: string;
+      quantity: number;
+      productStock: { storageLocation: { code: string } };
+    }>;
   }>;
   expenses: Array<OrderExpense>;
+  allowedTransitions: string[];
   costOperations: Array<{
     id: string;
     vendor: { name: string };
@@ -45,10 +56,15 @@ interface OrderDetail {
     id: string;
     invoiceAmount: number;
     paidAmount: number;
+    vatRate: number;
+    vatAmount: number;
     paymentMethod?: string;
     paymentDate?: string;
   }>;
   shippingAddress?: string;
+  deliveryMethod?: string | null;
+  expenseTemplate?: { id: string; name: string } | null;
+  expenseTemplateReason?: string | null;
   orderDate: string;
   estimatedCost: number;
   actualCost: number;
@@ -68,6 +84,15 @@ interface OrderDetail {
   };
 }
 
+interface StatusHistoryEntry {
+  id: string;
+  fromStatus: string | null;
+  toStatus: string;
+  comment: string | null;
+  createdAt: string;
+  changedBy: { firstName: string; lastName: string } | null;
+}
+
 interface OrderExpense {
   id: string;
   category: string;
@@ -81,6 +106,11 @@ interface OrderExpense {
   totalAmount: number;
   plannedAmount: number;
   actualAmount: number;
+  vatRate: number;
+  vatAmount: number;
+  currency: string;
+  currencyPrice?: number | null;
+  exchangeRate: number;
   isPriceLocked: boolean;
   originalPrice?: number;
   status: string;
@@ -142,8 +172,10 @@ export default function OrderDetails() {
   const { id } = useParams<{ id: string }>();
   const [order, setOrder] = useState<OrderDetail | null>(null);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'items' | 'expenses' | 'payments'>('items');
+  const [activeTab, setActiveTab] = useState<'items' | 'expenses' | 'payments' | 'documents' | 'history'>('items');
+  const [history, setHistory] = useState<StatusHistoryEntry[]>([]);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
+  const [showReturnModal, setShowReturnModal] = useState(false);
   const [showExpenseModal, setShowExpenseModal] = useState(false);
   const [showTemplateSelector, setShowTemplateSelector] = useState(false);
   const [expenses, setExpenses] = useState<OrderExpense[]>([]);
@@ -162,8 +194,20 @@ export default function OrderDetails() {
     if (order && activeTab === 'expenses') {
       loadExpenses();
     }
+    if (order && activeTab === 'history') {
+      loadHistory();
+    }
   }, [order, activeTab]);
 
+  const loadHistory = async () => {
+    try {
+      const response = await ordersApi.getHistory(id!);
+      setHistory(response.data.data);
+    } catch (error) {
+      console.error('Error loading status history:', error);
+    }
+  };
+
   const loadOrder = async () => {
     try {
       const response = await ordersApi.getOne(id!);
@@ -195,8 +239,11 @@ export default function OrderDetails() {
 
   const handleApplyTemplate = async (templateId: string) => {
     try {
-      await orderExpensesApi.applyTemplate(id!, templateId);
+      const response = await orderExpensesApi.applyTemplate(id!, templateId);
       toast.success('Шаблон применен');
+      for (const warning of response.data.warnings || []) {
+        toast.error(warning);
+      }
       setShowTemplateSelector(false);
       loadExpenses();
       loadOrder();
@@ -216,8 +263,15 @@ export default function OrderDetails() {
   };
 
   const handleStatusChange = async (newStatus: string) => {
+    let comment: string | undefined;
+    if (newStatus === 'CANCELLED' || newStatus === 'RETURNED') {
+      const input = prompt(`Комментарий к статусу "${statusLabels[newStatus]?.label}":`);
+      if (input === null) return;
+      comment = input || undefined;
+    }
+
     try {
-      await ordersApi.updateStatus(id!, newStatus);
+      await ordersApi.updateStatus(id!, newStatus, comment);
       toast.success('Статус обновлен');
       loadOrder();
     } catch (error: any) {
@@ -304,6 +358,15 @@ export default function OrderDetails() {
         </div>
         {isManager && (
           <div className="flex gap-2">
+            {['SHIPPED', 'DELIVERED', 'COMPLETED'].includes(order.status) && (
+              <button
+                onClick={() => setShowReturnModal(true)}
+                className="btn-secondary"
+              >
+                <ArrowUturnLeftIcon className="w-4 h-4" />
+                Оформить возврат
+              </button>
+            )}
             <button
               onClick={() => setShowPaymentModal(true)}
               className="btn-secondary"
@@ -316,13 +379,13 @@ export default function OrderDetails() {
       </div>
 
       {/* Status Flow */}
-      {isManager && !['CANCELLED', 'RETURNED', 'COMPLETED'].includes(order.status) && (
+      {order.allowedTransitions.length > 0 && (
         <div className="card p-4">
           <div className="flex items-center gap-2 overflow-x-auto pb-2">
             {statusFlow.map((status, idx) => {
               const isPast = idx < currentStatusIndex;
               const isCurrent = idx === currentStatusIndex;
-              const isNext = idx === currentStatusIndex + 1;
+              const isNext = order.allowedTransitions.includes(status);
 
               return (
                 <button
@@ -344,6 +407,17 @@ export default function OrderDetails() {
                 </button>
               );
             })}
+            {['CANCELLED', 'RETURNED']
+              .filter((status) => order.allowedTransitions.includes(status))
+              .map((status) => (
+                <button
+                  key={status}
+                  onClick={() => handleStatusChange(status)}
+                  className="ml-auto px-4 py-2 rounded-lg text-sm font-medium whitespace-nowrap bg-danger-500/10 text-danger-400 hover:bg-danger-500/20"
+                >
+                  {statusLabels[status]?.label}
+                </button>
+              ))}
           </div>
         </div>
       )}
@@ -411,6 +485,28 @@ export default function OrderDetails() {
             <CreditCardIcon className="w-5 h-5" />
             Платежи ({order.incomeOperations.length})
           </button>
+          <button
+            onClick={() => setActiveTab('documents')}
+            className={`flex items-center gap-2 py-3 px-1 border-b-2 text-sm font-medium transition-colors ${
+              activeTab === 'documents'
+                ? 'border-brand-500 text-brand-400'
+                : 'border-transparent text-surface-400 hover:text-surface-300'
+            }`}
+          >
+            <DocumentTextIcon className="w-5 h-5" />
+            Документы
+          </button>
+          <button
+            onClick={() => setActiveTab('history')}
+            className={`flex items-center gap-2 py-3 px-1 border-b-2 text-sm font-medium transition-colors ${
+              activeTab === 'history'
+                ? 'border-brand-500 text-brand-400'
+                : 'border-transparent text-surface-400 hover:text-surface-300'
+            }`}
+          >
+            <ClockIcon className="w-5 h-5" />
+            История статусов
+          </button>
         </nav>
       </div>
 
@@ -437,7 +533,17 @@ export default function OrderDetails() {
                   <tr key={item.id}>
                     <td className="font-medium text-surface-100">{item.name}</td>
                     <td className="text-surface-400 font-mono text-sm">{item.sku}</td>
-                    <td className="text-right">{item.quantity}</td>
+                    <td className="text-right">
+                      {item.quantity}
+                      {item.productId && (
+                        <div
+                          className="text-xs text-surface-500"
+                          title={item.reservations.map((r) => `${r.productStock.storageLocation.code}: ${r.quantity}`).join(', ')}
+                        >
+                          резерв {item.reservations.reduce((sum, r) => sum + r.quantity, 0)}
+                        </div>
+                      )}
+                    </td>
                     <td className="text-right font-mono text-surface-400">{formatCurrency(Number(item.unitCost))}</td>
                     <td className="text-right font-mono">{formatCurrency(Number(item.unitPrice))}</td>
                     <td className="text-right font-mono font-semibold">{formatCurrency(Number(item.unitPrice) * item.quantity)}</td>
@@ -478,6 +584,16 @@ export default function OrderDetails() {
             </div>
           )}
 
+          {/* Template applied at creation */}
+          {order.expenseTemplate && (
+            <div className="card bg-brand-500/10 border-brand-500/20">
+              <p className="text-brand-300 text-sm">
+                Шаблон расходов «{order.expenseTemplate.name}»
+                {order.expenseTemplateReason && ` — ${order.expenseTemplateReason}`}
+              </p>
+            </div>
+          )}
+
           {/* Expenses by Category */}
           {expenseSummary?.byCategory.map((cat) => (
             <div key={cat.category} className="card">
@@ -504,13 +620,22 @@ export default function OrderDetails() {
                       </div>
                       <p className="text-xs text-surface-500 mt-1">
                         {Number(expense.quantity)} {unitLabels[expense.unit] || expense.unit} × {formatCurrency(Number(expense.unitPrice))}
+                        {expense.currency !== 'RUB' &&
+                          ` (${Number(expense.currencyPrice)} ${expense.currency} по ${Number(expense.exchangeRate).toFixed(4)})`}
                         {expense.subcategory && ` • ${expense.subcategory}`}
                       </p>
                     </div>
                     <div className="flex items-center gap-4">
-                      <p className="font-mono font-semibold text-surface-100">
-                        {formatCurrency(Number(expense.actualAmount) || Number(expense.totalAmount))}
-                      </p>
+                      <div className="text-right">
+                        <p className="font-mono font-semibold text-surface-100">
+                          {formatCurrency(Number(expense.actualAmount) || Number(expense.totalAmount))}
+                        </p>
+                        <p className="text-xs text-surface-500">
+                          {Number(expense.vatRate) > 0
+                            ? `НДС ${Number(expense.vatRate)}%: ${formatCurrency(Number(expense.vatAmount))}`
+                            : 'без НДС'}
+                        </p>
+                      </div>
                       {isManager && (
                         <button
                           onClick={() => handleDeleteExpense(expense.id)}
@@ -590,6 +715,7 @@ export default function OrderDetails() {
                 <thead>
                   <tr>
                     <th>Сумма счета</th>
+                    <th>НДС</th>
                     <th>Оплачено</th>
                     <th>Способ</th>
                     <th>Дата</th>
@@ -600,6 +726,11 @@ export default function OrderDetails() {
                   {order.incomeOperations.map((op) => (
                     <tr key={op.id}>
                       <td className="font-mono">{formatCurrency(Number(op.invoiceAmount))}</td>
+                      <td className="font-mono text-surface-400">
+                        {Number(op.vatRate) > 0
+                          ? `${formatCurrency(Number(op.vatAmount))} (${Number(op.vatRate)}%)`
+                          : 'без НДС'}
+                      </td>
                       <td className="font-mono text-success-400">{formatCurrency(Number(op.paidAmount))}</td>
                       <td className="text-surface-400">{op.paymentMethod || '—'}</td>
                       <td className="text-surface-400">
@@ -623,6 +754,43 @@ export default function OrderDetails() {
         </div>
       )}
 
+      {activeTab === 'documents' && <ClientDocuments orderId={order.id} />}
+
+      {activeTab === 'history' && (
+        <div className="card">
+          <h3 className="text-lg font-semibold text-white mb-4">История статусов</h3>
+          {history.length === 0 ? (
+            <p className="text-surface-500 text-center py-4">Нет записей</p>
+          ) : (
+            <ol className="relative border-l border-surface-700 ml-2 space-y-6">
+              {history.map((entry) => (
+                <li key={entry.id} className="ml-6">
+                  <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-brand-500" />
+                  <div className="flex flex-wrap items-center gap-2">
+                    {entry.fromStatus && (
+                      <>
+                        <span className={statusLabels[entry.fromStatus]?.class || 'badge-neutral'}>
+                          {statusLabels[entry.fromStatus]?.label || entry.fromStatus}
+                        </span>
+                        <span className="text-surface-500">→</span>
+                      </>
+                    )}
+                    <span className={statusLabels[entry.toStatus]?.class || 'badge-neutral'}>
+                      {statusLabels[entry.toStatus]?.label || entry.toStatus}
+                    </span>
+                  </div>
+                  <p className="text-sm text-surface-400 mt-1">
+                    {new Date(entry.createdAt).toLocaleString('ru-RU')} •{' '}
+                    {entry.changedBy ? `${entry.changedBy.firstName} ${entry.changedBy.lastName}` : 'Система'}
+                  </p>
+                  {entry.comment && <p className="text-sm text-surface-300 mt-1">{entry.comment}</p>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+
       {/* Payment Modal */}
       {showPaymentModal && order.incomeOperations[0] && (
         <PaymentModal
@@ -637,6 +805,19 @@ export default function OrderDetails() {
         />
       )}
 
+      {/* Return Modal */}
+      {showReturnModal && (
+        <ReturnModal
+          orderId={order.id}
+          items={order.items.filter((item) => item.productId)}
+          onClose={() => setShowReturnModal(false)}
+          onSave={() => {
+            setShowReturnModal(false);
+            loadOrder();
+          }}
+        />
+      )}
+
       {/* Expense Modal */}
       {showExpenseModal && (
         <ExpenseModal
@@ -803,6 +984,102 @@ function PaymentModal({
   );
 }
 
+function ReturnModal({
+  orderId,
+  items,
+  onClose,
+  onSave,
+}: {
+  orderId: string;
+  items: OrderDetail['items'];
+  onClose: () => void;
+  onSave: () => void;
+}) {
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const returnItems = items
+      .map((item) => ({ orderItemId: item.id, quantity: parseInt(quantities[item.id] || '0') }))
+      .filter((item) => item.quantity > 0);
+
+    if (returnItems.length === 0) {
+      toast.error('Укажите количество к возврату');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await returnsApi.create({ orderId, items: returnItems, reason: reason || undefined });
+      toast.success(`Возврат ${response.data.data.rmaNumber} оформлен, создана задача приемки`);
+      onSave();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Ошибка оформления возврата');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-surface-900 border border-surface-800 rounded-2xl shadow-xl w-full max-w-lg animate-scale-in">
+        <div className="p-6 border-b border-surface-800">
+          <h2 className="text-xl font-semibold text-white">Оформить возврат</h2>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {items.length === 0 ? (
+            <p className="text-surface-400 text-center py-4">В заказе нет товаров каталога</p>
+          ) : (
+            <div className="space-y-2">
+              {items.map((item) => (
+                <div key={item.id} className="flex items-center gap-3 p-3 rounded-xl bg-surface-800/50">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-surface-100 truncate">{item.name}</p>
+                    <p className="text-xs text-surface-500 font-mono">{item.sku} • отгружено {item.quantity}</p>
+                  </div>
+                  <input
+                    type="number"
+                    min="0"
+                    max={item.quantity}
+                    value={quantities[item.id] || ''}
+                    onChange={(e) => setQuantities({ ...quantities, [item.id]: e.target.value })}
+                    className="input w-24"
+                    placeholder="0"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <label className="label">Причина возврата</label>
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="input"
+              placeholder="Брак, отказ покупателя..."
+            />
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button type="button" onClick={onClose} className="btn-secondary flex-1">
+              Отмена
+            </button>
+            <button type="submit" disabled={loading || items.length === 0} className="btn-primary flex-1">
+              {loading ? 'Сохранение...' : 'Оформить'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
 function ExpenseModal({
   orderId,
   categories,
@@ -822,6 +1099,7 @@ function ExpenseModal({
   const [unit, setUnit] = useState('PIECE');
   const [quantity, setQuantity] = useState('1');
   const [unitPrice, setUnitPrice] = useState('0');
+  const [currency, setCurrency] = useState('RUB');
   const [notes, setNotes] = useState('');
   const [isPriceLocked, setIsPriceLocked] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -846,6 +1124,7 @@ function ExpenseModal({
       const service = services.find(s => s.id === vendorServiceId);
       if (service) {
         setUnitPrice(String(service.price));
+        setCurrency(service.currency || 'RUB');
         setUnit(service.unit);
         setDescription(service.name);
       }
@@ -889,6 +1168,7 @@ function ExpenseModal({
         unit,
         quantity: parseFloat(quantity) || 1,
         unitPrice: parseFloat(unitPrice) || 0,
+        currency,
         isPriceLocked,
         notes: notes || undefined,
       });
@@ -1009,7 +1289,7 @@ function ExpenseModal({
               />
             </div>
             <div>
-              <label className="label">Цена за ед.</label>
+              <label className="label">Цена за ед.{currency !== 'RUB' && `, ${currency}`}</label>
               <input
                 type="number"
                 step="0.01"
@@ -1023,8 +1303,13 @@ function ExpenseModal({
           <div className="p-4 rounded-xl bg-brand-500/10 border border-brand-500/30">
             <div className="flex items-center justify-between">
               <span className="text-surface-300">Итого:</span>
-              <span className="text-xl font-bold text-brand-400">{totalAmount.toLocaleString('ru-RU')} ₽</span>
+              <span className="text-xl font-bold text-brand-400">
+                {totalAmount.toLocaleString('ru-RU')} {currency !== 'RUB' ? currency : '₽'}
+              </span>
             </div>
+            {currency !== 'RUB' && (
+              <p className="text-xs text-surface-500 mt-1">Пересчитывается в рубли по текущему курсу ЦБ</p>
+            )}
           </div>
 
           <div className="flex items-center gap-2">
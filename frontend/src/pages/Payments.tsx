@@ -0,0 +1,653 @@
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import {
+  PlusIcon,
+  ArrowPathIcon,
+  XMarkIcon,
+  TrashIcon,
+  BanknotesIcon,
+} from '@heroicons/react/24/outline';
+import { paymentsApi, clientsApi } from '../lib/api';
+import { useIsManager, useIsAdmin } from '../store/authStore';
+
+interface Payment {
+  id: string;
+  paymentNumber: string;
+  status: 'ACTIVE' | 'CANCELLED';
+  amount: string;
+  allocatedAmount: string;
+  unallocatedAmount?: number;
+  paymentDate: string;
+  paymentMethod: string;
+  reference: string | null;
+  description: string | null;
+  client: { id: string; name: string; companyName: string | null };
+  allocations?: Allocation[];
+  transactions?: {
+    id: string;
+    amount: string;
+    description: string | null;
+    debitAccount: { code: string; name: string };
+    creditAccount: { code: string; name: string };
+  }[];
+}
+
+interface Allocation {
+  id: string;
+  amount: string;
+  createdAt: string;
+  incomeOperation: {
+    id: string;
+    invoiceAmount: string;
+    paidAmount: string;
+    description: string | null;
+    order: { id: string; orderNumber: string };
+  };
+}
+
+interface OpenInvoice {
+  id: string;
+  invoiceAmount: string;
+  paidAmount: string;
+  openAmount: number;
+  description: string | null;
+  createdAt: string;
+  order: { id: string; orderNumber: string };
+}
+
+interface ClientOption {
+  id: string;
+  name: string;
+}
+
+const methodLabels: Record<string, string> = {
+  BANK_TRANSFER: 'Безналичный',
+  CASH: 'Наличные',
+  CARD: 'Карта',
+  ONLINE: 'Онлайн',
+};
+
+const formatCurrency = (value: number | string) =>
+  new Intl.NumberFormat('ru-RU', {
+    style: 'currency',
+    currency: 'RUB',
+    minimumFractionDigits: 2,
+  }).format(Number(value));
+
+export default function Payments() {
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [clients, setClients] = useState<ClientOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState({ clientId: '', unallocated: false });
+  const [showCreate, setShowCreate] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const isManager = useIsManager();
+
+  useEffect(() => {
+    clientsApi.getAll().then((response) => setClients(response.data.data)).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    loadPayments();
+  }, [filters]);
+
+  const loadPayments = async () => {
+    setLoading(true);
+    try {
+      const response = await paymentsApi.getAll({
+        clientId: filters.clientId || undefined,
+        unallocated: filters.unallocated || undefined,
+      });
+      setPayments(response.data.data);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Ошибка загрузки платежей');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-display font-bold text-white">Платежи клиентов</h1>
+          <p className="text-surface-400">Поступления и их разнесение по счетам</p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={loadPayments} className="btn-secondary">
+            <ArrowPathIcon className="w-4 h-4" />
+            Обновить
+          </button>
+          {isManager && (
+            <button onClick={() => setShowCreate(true)} className="btn-primary">
+              <PlusIcon className="w-5 h-5" />
+              Новый платеж
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="card flex flex-wrap gap-4 items-end">
+        <div className="w-64">
+          <label className="label">Клиент</label>
+          <select
+            value={filters.clientId}
+            onChange={(e) => setFilters({ ...filters, clientId: e.target.value })}
+            className="select"
+          >
+            <option value="">Все клиенты</option>
+            {clients.map((client) => (
+              <option key={client.id} value={client.id}>{client.name}</option>
+            ))}
+          </select>
+        </div>
+        <label className="flex items-center gap-2 text-surface-300 pb-2">
+          <input
+            type="checkbox"
+            checked={filters.unallocated}
+            onChange={(e) => setFilters({ ...filters, unallocated: e.target.checked })}
+            className="w-4 h-4 rounded border-surface-600 bg-surface-800 text-brand-500 focus:ring-brand-500"
+          />
+          Только с неразнесенным остатком
+        </label>
+      </div>
+
+      {/* Payments Table */}
+      {loading ? (
+        <div className="card skeleton h-96" />
+      ) : (
+        <div className="card p-0 overflow-hidden">
+          <div className="table-container border-0">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Номер</th>
+                  <th>Дата</th>
+                  <th>Клиент</th>
+                  <th>Способ</th>
+                  <th>Сумма</th>
+                  <th>Разнесено</th>
+                  <th>Аванс</th>
+                  <th>Статус</th>
+                </tr>
+              </thead>
+              <tbody>
+                {payments.length > 0 ? (
+                  payments.map((payment) => (
+                    <tr
+                      key={payment.id}
+                      onClick={() => setSelectedId(payment.id)}
+                      className="cursor-pointer"
+                    >
+                      <td className="font-mono text-brand-400">
+                        {payment.paymentNumber}
+                        {payment.reference && (
+                          <p className="text-xs text-surface-500">п/п № {payment.reference}</p>
+                        )}
+                      </td>
+                      <td className="text-surface-400">{new Date(payment.paymentDate).toLocaleDateString('ru-RU')}</td>
+                      <td>{payment.client.name}</td>
+                      <td className="text-surface-400">{methodLabels[payment.paymentMethod] || payment.paymentMethod}</td>
+                      <td className="font-mono">{formatCurrency(payment.amount)}</td>
+                      <td className="font-mono">{formatCurrency(payment.allocatedAmount)}</td>
+                      <td className={`font-mono ${(payment.unallocatedAmount || 0) > 0 ? 'text-warning-500' : 'text-surface-500'}`}>
+                        {(payment.unallocatedAmount || 0) > 0 ? formatCurrency(payment.unallocatedAmount!) : '—'}
+                      </td>
+                      <td>
+                        {payment.status === 'CANCELLED' ? (
+                          <span className="badge-danger">Аннулирован</span>
+                        ) : (payment.unallocatedAmount || 0) > 0 ? (
+                          <span className="badge-warning">Частично</span>
+                        ) : (
+                          <span className="badge-success">Разнесен</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={8} className="text-center text-surface-500 py-8">
+                      Платежей нет
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {showCreate && (
+        <NewPaymentModal
+          clients={clients}
+          defaultClientId={filters.clientId}
+          onClose={() => setShowCreate(false)}
+          onSave={() => {
+            setShowCreate(false);
+            loadPayments();
+          }}
+        />
+      )}
+
+      {selectedId && (
+        <PaymentDetailsModal
+          paymentId={selectedId}
+          onClose={() => setSelectedId(null)}
+          onChange={loadPayments}
+        />
+      )}
+    </div>
+  );
+}
+
+function NewPaymentModal({
+  clients,
+  defaultClientId,
+  onClose,
+  onSave,
+}: {
+  clients: ClientOption[];
+  defaultClientId: string;
+  onClose: () => void;
+  onSave: () => void;
+}) {
+  const [formData, setFormData] = useState({
+    clientId: defaultClientId,
+    amount: '',
+    paymentDate: new Date().toISOString().split('T')[0],
+    paymentMethod: 'BANK_TRANSFER',
+    reference: '',
+    description: '',
+    allocation: 'AUTO' as 'AUTO' | 'MANUAL' | 'NONE',
+  });
+  const [invoices, setInvoices] = useState<OpenInvoice[]>([]);
+  const [manual, setManual] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setManual({});
+    if (!formData.clientId) {
+      setInvoices([]);
+      return;
+    }
+    paymentsApi
+      .getOpenInvoices(formData.clientId)
+      .then((response) => setInvoices(response.data.data))
+      .catch(() => setInvoices([]));
+  }, [formData.clientId]);
+
+  const manualTotal = Object.values(manual).reduce((sum, value) => sum + (Number(value) || 0), 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.clientId || !(Number(formData.amount) > 0)) {
+      toast.error('Укажите клиента и сумму');
+      return;
+    }
+    if (formData.allocation === 'MANUAL' && manualTotal > Number(formData.amount)) {
+      toast.error('Сумма разнесения больше суммы платежа');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await paymentsApi.create({
+        ...formData,
+        amount: Number(formData.amount),
+        allocations:
+          formData.allocation === 'MANUAL'
+            ? Object.entries(manual)
+                .filter(([, value]) => Number(value) > 0)
+                .map(([incomeOperationId, value]) => ({ incomeOperationId, amount: Number(value) }))
+            : undefined,
+      });
+      toast.success('Платеж зарегистрирован');
+      onSave();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || error.response?.data?.errors?.[0]?.msg || 'Ошибка регистрации платежа');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-surface-900 border border-surface-800 rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto animate-scale-in">
+        <div className="p-6 border-b border-surface-800">
+          <h2 className="text-xl font-semibold text-white">Новый платеж</h2>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="label">Клиент *</label>
+            <select
+              value={formData.clientId}
+              onChange={(e) => setFormData({ ...formData, clientId: e.target.value })}
+              className="select"
+            >
+              <option value="">Выберите клиента</option>
+              {clients.map((client) => (
+                <option key={client.id} value={client.id}>{client.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="label">Сумма *</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="label">Дата</label>
+              <input
+                type="date"
+                value={formData.paymentDate}
+                onChange={(e) => setFormData({ ...formData, paymentDate: e.target.value })}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="label">Способ</label>
+              <select
+                value={formData.paymentMethod}
+                onChange={(e) => setFormData({ ...formData, paymentMethod: e.target.value })}
+                className="select"
+              >
+                {Object.entries(methodLabels).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="label">№ платежного поручения</label>
+              <input
+                type="text"
+                value={formData.reference}
+                onChange={(e) => setFormData({ ...formData, reference: e.target.value })}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="label">Разнесение</label>
+              <select
+                value={formData.allocation}
+                onChange={(e) => setFormData({ ...formData, allocation: e.target.value as any })}
+                className="select"
+              >
+                <option value="AUTO">Автоматически (старые счета первыми)</option>
+                <option value="MANUAL">Вручную</option>
+                <option value="NONE">Не разносить (аванс)</option>
+              </select>
+            </div>
+          </div>
+
+          {formData.allocation === 'MANUAL' && (
+            <div className="table-container">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Заказ</th>
+                    <th>Дата счета</th>
+                    <th>К оплате</th>
+                    <th>Разнести</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {invoices.length > 0 ? (
+                    invoices.map((invoice) => (
+                      <tr key={invoice.id}>
+                        <td className="font-mono text-brand-400">{invoice.order.orderNumber}</td>
+                        <td className="text-surface-400">{new Date(invoice.createdAt).toLocaleDateString('ru-RU')}</td>
+                        <td className="font-mono">{formatCurrency(invoice.openAmount)}</td>
+                        <td className="w-36">
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            max={invoice.openAmount}
+                            value={manual[invoice.id] || ''}
+                            onChange={(e) => setManual({ ...manual, [invoice.id]: e.target.value })}
+                            className="input"
+                          />
+                        </td>
+                      </tr>
+                    ))
+                  ) : (
+                    <tr>
+                      <td colSpan={4} className="text-center text-surface-500 py-4">
+                        Неоплаченных счетов нет
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+              <p className="text-sm text-surface-400 p-3">
+                Разнесено: {formatCurrency(manualTotal)}
+                {Number(formData.amount) > manualTotal &&
+                  ` · аванс: ${formatCurrency(Number(formData.amount) - manualTotal)}`}
+              </p>
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <button type="button" onClick={onClose} className="btn-secondary flex-1">
+              Отмена
+            </button>
+            <button type="submit" disabled={loading} className="btn-primary flex-1">
+              {loading ? 'Сохранение...' : 'Зарегистрировать'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function PaymentDetailsModal({
+  paymentId,
+  onClose,
+  onChange,
+}: {
+  paymentId: string;
+  onClose: () => void;
+  onChange: () => void;
+}) {
+  const [payment, setPayment] = useState<Payment | null>(null);
+  const [busy, setBusy] = useState(false);
+  const isManager = useIsManager();
+  const isAdmin = useIsAdmin();
+
+  useEffect(() => {
+    loadPayment();
+  }, [paymentId]);
+
+  const loadPayment = async () => {
+    try {
+      const response = await paymentsApi.getById(paymentId);
+      setPayment(response.data.data);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Ошибка загрузки платежа');
+    }
+  };
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast.success(success);
+      await loadPayment();
+      onChange();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Ошибка выполнения операции');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const unallocated = payment ? Number(payment.amount) - Number(payment.allocatedAmount) : 0;
+  const isActive = payment?.status === 'ACTIVE';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="card w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-semibold text-white flex items-center gap-2">
+              <BanknotesIcon className="w-6 h-6 text-brand-400" />
+              {payment?.paymentNumber || 'Платеж'}
+            </h2>
+            {payment && (
+              <p className="text-surface-400">
+                {payment.client.name} · {new Date(payment.paymentDate).toLocaleDateString('ru-RU')}
+                {payment.reference && ` · п/п № ${payment.reference}`}
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="btn-icon">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!payment ? (
+          <div className="skeleton h-48" />
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="p-3 rounded-xl bg-surface-800/50">
+                <p className="text-xs text-surface-500">Сумма</p>
+                <p className="text-lg font-bold text-white">{formatCurrency(payment.amount)}</p>
+              </div>
+              <div className="p-3 rounded-xl bg-surface-800/50">
+                <p className="text-xs text-surface-500">Разнесено</p>
+                <p className="text-lg font-bold text-white">{formatCurrency(payment.allocatedAmount)}</p>
+              </div>
+              <div className="p-3 rounded-xl bg-surface-800/50">
+                <p className="text-xs text-surface-500">Аванс клиента</p>
+                <p className={`text-lg font-bold ${unallocated > 0 ? 'text-warning-500' : 'text-white'}`}>
+                  {formatCurrency(unallocated)}
+                </p>
+              </div>
+            </div>
+
+            {payment.status === 'CANCELLED' && (
+              <p className="text-danger-500">Платеж аннулирован, проводка сторнирована</p>
+            )}
+
+            <div>
+              <h3 className="font-semibold text-white mb-2">Разнесение по счетам</h3>
+              <div className="table-container">
+                <table className="table">
+                  <thead>
+                    <tr>
+                      <th>Заказ</th>
+                      <th>Счет</th>
+                      <th>Разнесено</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {payment.allocations && payment.allocations.length > 0 ? (
+                      payment.allocations.map((allocation) => (
+                        <tr key={allocation.id}>
+                          <td className="font-mono text-brand-400">{allocation.incomeOperation.order.orderNumber}</td>
+                          <td className="font-mono">{formatCurrency(allocation.incomeOperation.invoiceAmount)}</td>
+                          <td className="font-mono">{formatCurrency(allocation.amount)}</td>
+                          <td className="text-right">
+                            {isManager && isActive && (
+                              <button
+                                disabled={busy}
+                                onClick={() =>
+                                  run(
+                                    () => paymentsApi.removeAllocation(payment.id, allocation.id),
+                                    'Разнесение отменено'
+                                  )
+                                }
+                                className="btn-icon text-danger-500"
+                                title="Отменить разнесение"
+                              >
+                                <TrashIcon className="w-4 h-4" />
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))
+                    ) : (
+                      <tr>
+                        <td colSpan={4} className="text-center text-surface-500 py-4">
+                          Платеж не разнесен
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {payment.transactions && payment.transactions.length > 0 && (
+              <div>
+                <h3 className="font-semibold text-white mb-2">Проводки</h3>
+                <div className="space-y-1 text-sm">
+                  {payment.transactions.map((transaction) => (
+                    <p key={transaction.id} className="text-surface-400">
+                      Дт {transaction.debitAccount.code} — Кт {transaction.creditAccount.code}:{' '}
+                      <span className="font-mono text-surface-200">{formatCurrency(transaction.amount)}</span>
+                      {transaction.description && ` · ${transaction.description}`}
+                    </p>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {isManager && isActive && (
+              <div className="flex flex-wrap gap-2 pt-2">
+                {unallocated > 0 && (
+                  <button
+                    disabled={busy}
+                    onClick={() => run(() => paymentsApi.allocate(payment.id), 'Остаток разнесен')}
+                    className="btn-primary"
+                  >
+                    Разнести остаток
+                  </button>
+                )}
+                {payment.allocations && payment.allocations.length > 0 && (
+                  <button
+                    disabled={busy}
+                    onClick={() => run(() => paymentsApi.unallocate(payment.id), 'Разнесение отменено')}
+                    className="btn-secondary"
+                  >
+                    Отменить все разнесения
+                  </button>
+                )}
+                {isAdmin && (
+                  <button
+                    disabled={busy}
+                    onClick={() => {
+                      if (!confirm('Аннулировать платеж? Разнесение будет снято, проводка сторнирована.')) return;
+                      run(() => paymentsApi.cancel(payment.id), 'Платеж аннулирован');
+                    }}
+                    className="btn-ghost text-danger-500"
+                  >
+                    Аннулировать
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
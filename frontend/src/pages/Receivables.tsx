@@ -0,0 +1,372 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import {
+  ArrowDownTrayIcon,
+  ArrowPathIcon,
+  DocumentTextIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import { receivablesApi } from '../lib/api';
+
+interface AgingClient {
+  clientId: string;
+  clientName: string;
+  companyName: string | null;
+  invoiced: number;
+  paid: number;
+  balance: number;
+  credits: number;
+  overdue: number;
+  buckets: Record<string, number>;
+  oldestInvoiceDate: string | null;
+  openInvoices: number;
+}
+
+interface Aging {
+  buckets: { key: string; label: string }[];
+  clients: AgingClient[];
+  totals: {
+    balance: number;
+    credits: number;
+    overdue: number;
+    debtors: number;
+    buckets: Record<string, number>;
+  };
+}
+
+interface Statement {
+  client: { id: string; name: string; companyName: string | null; inn: string | null };
+  openingBalance: number;
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+  entries: {
+    date: string;
+    type: 'INVOICE' | 'CREDIT_NOTE' | 'PAYMENT';
+    documentNumber: string;
+    description: string | null;
+    debit: number;
+    credit: number;
+    balance: number;
+  }[];
+}
+
+const entryTypeLabels: Record<string, string> = {
+  INVOICE: 'Счет',
+  CREDIT_NOTE: 'Корректировка',
+  PAYMENT: 'Оплата',
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+const monthStart = () => {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 1).toISOString().split('T')[0];
+};
+
+export default function Receivables() {
+  const [searchParams] = useSearchParams();
+  const [aging, setAging] = useState<Aging | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [asOf, setAsOf] = useState(today());
+
+  const [statementClientId, setStatementClientId] = useState<string | null>(searchParams.get('clientId'));
+  const [statement, setStatement] = useState<Statement | null>(null);
+  const [period, setPeriod] = useState({ dateFrom: monthStart(), dateTo: today() });
+
+  useEffect(() => {
+    loadAging();
+  }, [asOf]);
+
+  useEffect(() => {
+    if (statementClientId) loadStatement(statementClientId);
+  }, [statementClientId, period]);
+
+  const loadAging = async () => {
+    setLoading(true);
+    try {
+      const response = await receivablesApi.getAging({ asOf });
+      setAging(response.data.data);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Ошибка загрузки дебиторской задолженности');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadStatement = async (clientId: string) => {
+    try {
+      const response = await receivablesApi.getStatement(clientId, period);
+      setStatement(response.data.data);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Ошибка формирования выписки');
+    }
+  };
+
+  const download = (data: BlobPart, type: string, fileName: string) => {
+    const blob = new Blob([data], { type });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const exportAging = async () => {
+    try {
+      const response = await receivablesApi.getAging({ asOf, format: 'xlsx' });
+      download(
+        response.data,
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        `receivables-${asOf}.xlsx`
+      );
+    } catch (error) {
+      toast.error('Ошибка выгрузки');
+    }
+  };
+
+  const exportStatement = async (format: 'xlsx' | 'pdf') => {
+    if (!statementClientId) return;
+    try {
+      const response = await receivablesApi.getStatement(statementClientId, { ...period, format });
+      download(
+        response.data,
+        format === 'pdf' ? 'application/pdf' : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        `statement-${period.dateFrom}-${period.dateTo}.${format}`
+      );
+      toast.success('Выписка загружена');
+    } catch (error) {
+      toast.error('Ошибка выгрузки выписки');
+    }
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('ru-RU', {
+      style: 'currency',
+      currency: 'RUB',
+      minimumFractionDigits: 2,
+    }).format(value);
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-display font-bold text-white">Дебиторская задолженность</h1>
+          <p className="text-surface-400">Долги клиентов по срокам и выписки по расчетам</p>
+        </div>
+        <div className="flex gap-2 items-end">
+          <div>
+            <label className="label">На дату</label>
+            <input type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} className="input" />
+          </div>
+          <button onClick={loadAging} className="btn-secondary">
+            <ArrowPathIcon className="w-4 h-4" />
+            Обновить
+          </button>
+          <button onClick={exportAging} className="btn-secondary">
+            <ArrowDownTrayIcon className="w-4 h-4" />
+            Excel
+          </button>
+        </div>
+      </div>
+
+      {/* Totals */}
+      {aging && (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+          <div className="card">
+            <p className="text-xs text-surface-500">Всего к получению</p>
+            <p className="text-xl font-bold text-white">{formatCurrency(aging.totals.balance)}</p>
+            <p className="text-xs text-surface-500 mt-1">должников: {aging.totals.debtors}</p>
+          </div>
+          {aging.buckets.map((bucket) => (
+            <div key={bucket.key} className="card">
+              <p className="text-xs text-surface-500">{bucket.label}</p>
+              <p className={`text-xl font-bold ${bucket.key === '0-30' ? 'text-white' : 'text-danger-500'}`}>
+                {formatCurrency(aging.totals.buckets[bucket.key] || 0)}
+              </p>
+            </div>
+          ))}
+          <div className="card">
+            <p className="text-xs text-surface-500">Авансы и переплаты</p>
+            <p className="text-xl font-bold text-success-500">{formatCurrency(aging.totals.credits)}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Aging Table */}
+      {loading ? (
+        <div className="card skeleton h-96" />
+      ) : (
+        <div className="card p-0 overflow-hidden">
+          <div className="table-container border-0">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Клиент</th>
+                  <th>Выставлено</th>
+                  <th>Оплачено</th>
+                  {aging?.buckets.map((bucket) => (
+                    <th key={bucket.key}>{bucket.label}</th>
+                  ))}
+                  <th>Сальдо</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {aging && aging.clients.length > 0 ? (
+                  aging.clients.map((client) => (
+                    <tr key={client.clientId}>
+                      <td>
+                        <p className="font-medium text-surface-100">{client.clientName}</p>
+                        {client.companyName && <p className="text-xs text-surface-500">{client.companyName}</p>}
+                      </td>
+                      <td className="font-mono">{formatCurrency(client.invoiced)}</td>
+                      <td className="font-mono">{formatCurrency(client.paid)}</td>
+                      {aging.buckets.map((bucket) => (
+                        <td
+                          key={bucket.key}
+                          className={`font-mono ${client.buckets[bucket.key] > 0 && bucket.key !== '0-30' ? 'text-danger-500' : ''}`}
+                        >
+                          {client.buckets[bucket.key] > 0 ? formatCurrency(client.buckets[bucket.key]) : '—'}
+                        </td>
+                      ))}
+                      <td className={`font-mono font-semibold ${client.balance >= 0 ? 'text-surface-100' : 'text-success-500'}`}>
+                        {formatCurrency(client.balance)}
+                      </td>
+                      <td>
+                        <button
+                          onClick={() => setStatementClientId(client.clientId)}
+                          className="btn-ghost text-sm"
+                          title="Выписка по расчетам"
+                        >
+                          <DocumentTextIcon className="w-4 h-4" />
+                          Выписка
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={(aging?.buckets.length || 0) + 5} className="text-center text-surface-500 py-8">
+                      Задолженности нет
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Statement Modal */}
+      {statementClientId && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="card w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h2 className="text-xl font-semibold text-white">Выписка по расчетам</h2>
+                {statement && (
+                  <p className="text-surface-400">
+                    {statement.client.companyName || statement.client.name}
+                    {statement.client.inn && ` · ИНН ${statement.client.inn}`}
+                  </p>
+                )}
+              </div>
+              <button
+                onClick={() => {
+                  setStatementClientId(null);
+                  setStatement(null);
+                }}
+                className="btn-icon"
+              >
+                <XMarkIcon className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="flex flex-wrap gap-3 items-end mb-4">
+              <div>
+                <label className="label">С</label>
+                <input
+                  type="date"
+                  value={period.dateFrom}
+                  onChange={(e) => setPeriod({ ...period, dateFrom: e.target.value })}
+                  className="input"
+                />
+              </div>
+              <div>
+                <label className="label">По</label>
+                <input
+                  type="date"
+                  value={period.dateTo}
+                  onChange={(e) => setPeriod({ ...period, dateTo: e.target.value })}
+                  className="input"
+                />
+              </div>
+              <button onClick={() => exportStatement('xlsx')} className="btn-secondary">
+                <ArrowDownTrayIcon className="w-4 h-4" />
+                Excel
+              </button>
+              <button onClick={() => exportStatement('pdf')} className="btn-primary">
+                <ArrowDownTrayIcon className="w-4 h-4" />
+                PDF
+              </button>
+            </div>
+
+            {statement ? (
+              <div className="table-container">
+                <table className="table">
+                  <thead>
+                    <tr>
+                      <th>Дата</th>
+                      <th>Документ</th>
+                      <th>Описание</th>
+                      <th>Дебет</th>
+                      <th>Кредит</th>
+                      <th>Сальдо</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <tr>
+                      <td colSpan={5} className="text-surface-400">Сальдо на начало периода</td>
+                      <td className="font-mono font-semibold">{formatCurrency(statement.openingBalance)}</td>
+                    </tr>
+                    {statement.entries.map((entry, idx) => (
+                      <tr key={idx}>
+                        <td className="text-surface-400">{new Date(entry.date).toLocaleDateString('ru-RU')}</td>
+                        <td>
+                          {entryTypeLabels[entry.type]}{' '}
+                          <span className="font-mono text-xs text-brand-400">{entry.documentNumber}</span>
+                        </td>
+                        <td className="text-surface-400 max-w-xs truncate">{entry.description || '—'}</td>
+                        <td className="font-mono">{entry.debit ? formatCurrency(entry.debit) : ''}</td>
+                        <td className="font-mono">{entry.credit ? formatCurrency(entry.credit) : ''}</td>
+                        <td className="font-mono">{formatCurrency(entry.balance)}</td>
+                      </tr>
+                    ))}
+                    <tr>
+                      <td colSpan={3} className="text-surface-400">Обороты за период</td>
+                      <td className="font-mono font-semibold">{formatCurrency(statement.totalDebit)}</td>
+                      <td className="font-mono font-semibold">{formatCurrency(statement.totalCredit)}</td>
+                      <td></td>
+                    </tr>
+                    <tr>
+                      <td colSpan={5} className="text-surface-400">Сальдо на конец периода</td>
+                      <td className="font-mono font-bold text-white">{formatCurrency(statement.closingBalance)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="skeleton h-48" />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
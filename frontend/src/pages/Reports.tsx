@@ -1,23 +1,81 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { reportsApi } from '../lib/api';
 import toast from 'react-hot-toast';
 import {
   DocumentArrowDownIcon,
   ChartBarIcon,
   CalendarIcon,
+  ExclamationTriangleIcon,
 } from '@heroicons/react/24/outline';
 
+type ReportType = 'orders' | 'clients' | 'expense-variance';
+
+interface VarianceRow {
+  expenseId: string;
+  orderId: string;
+  orderNumber: string;
+  orderDate: string;
+  client: { id: string; name: string };
+  vendor: { id: string; name: string } | null;
+  vendorService: { id: string; name: string } | null;
+  template: { id: string; name: string } | null;
+  category: string;
+  categoryName: string;
+  description: string;
+  planned: number;
+  actual: number;
+  variance: number;
+  variancePercent: number | null;
+}
+
+interface VarianceGroup {
+  key: string;
+  name: string;
+  count: number;
+  planned: number;
+  actual: number;
+  variance: number;
+  variancePercent: number | null;
+  overCount: number;
+  systematic: boolean;
+  type?: 'TEMPLATE' | 'VENDOR_SERVICE';
+}
+
+interface VarianceReport {
+  rows: VarianceRow[];
+  totals: { count: number; planned: number; actual: number; variance: number; variancePercent: number | null };
+  byOrder: VarianceGroup[];
+  byClient: VarianceGroup[];
+  byVendor: VarianceGroup[];
+  byCategory: VarianceGroup[];
+  byTemplate: VarianceGroup[];
+  byVendorService: VarianceGroup[];
+  systematic: VarianceGroup[];
+}
+
+const varianceDimensions = [
+  { id: 'byCategory', label: 'Категории', rowKey: (r: VarianceRow) => r.category },
+  { id: 'byClient', label: 'Клиенты', rowKey: (r: VarianceRow) => r.client.id },
+  { id: 'byVendor', label: 'Поставщики', rowKey: (r: VarianceRow) => r.vendor?.id },
+  { id: 'byVendorService', label: 'Услуги', rowKey: (r: VarianceRow) => r.vendorService?.id },
+  { id: 'byTemplate', label: 'Шаблоны', rowKey: (r: VarianceRow) => r.template?.id },
+  { id: 'byOrder', label: 'Заказы', rowKey: (r: VarianceRow) => r.orderId },
+] as const;
+
 export default function Reports() {
   const [dateFrom, setDateFrom] = useState('');
   const [dateTo, setDateTo] = useState('');
   const [loading, setLoading] = useState<string | null>(null);
 
-  const downloadReport = async (type: 'orders' | 'clients', format: 'xlsx' | 'csv') => {
+  const downloadReport = async (type: ReportType, format: 'xlsx' | 'csv') => {
     setLoading(`${type}-${format}`);
     try {
       const response = await (type === 'orders' 
         ? reportsApi.getOrders({ dateFrom, dateTo, format })
-        : reportsApi.getClients({ dateFrom, dateTo, format })
+        : type === 'clients'
+          ? reportsApi.getClients({ dateFrom, dateTo, format })
+          : reportsApi.getExpenseVariance({ dateFrom, dateTo, format })
       );
 
       // Create download link
@@ -56,6 +114,12 @@ export default function Reports() {
       description: 'Аналитика по клиентам: количество заказов, общая выручка и прибыль',
       icon: ChartBarIcon,
     },
+    {
+      id: 'expense-variance',
+      title: 'План/факт расходов',
+      description: 'Отклонения фактических расходов заказов от плановых по категориям, клиентам, поставщикам, услугам и шаблонам',
+      icon: ChartBarIcon,
+    },
   ];
 
   return (
@@ -134,7 +198,7 @@ export default function Reports() {
 
             <div className="flex gap-2">
               <button
-                onClick={() => downloadReport(report.id as 'orders' | 'clients', 'xlsx')}
+                onClick={() => downloadReport(report.id as ReportType, 'xlsx')}
                 disabled={loading !== null}
                 className="btn-primary flex-1"
               >
@@ -142,7 +206,7 @@ export default function Reports() {
                 {loading === `${report.id}-xlsx` ? 'Загрузка...' : 'Excel'}
               </button>
               <button
-                onClick={() => downloadReport(report.id as 'orders' | 'clients', 'csv')}
+                onClick={() => downloadReport(report.id as ReportType, 'csv')}
                 disabled={loading !== null}
                 className="btn-secondary flex-1"
               >
@@ -154,6 +218,8 @@ export default function Reports() {
         ))}
       </div>
 
+      <ExpenseVariance dateFrom={dateFrom} dateTo={dateTo} />
+
       {/* Info */}
       <div className="card bg-surface-800/50">
         <h3 className="text-lg font-semibold text-white mb-2">📊 О формате отчетов</h3>
@@ -166,3 +232,190 @@ export default function Reports() {
     </div>
   );
 }
+
+function ExpenseVariance({ dateFrom, dateTo }: { dateFrom: string; dateTo: string }) {
+  const [report, setReport] = useState<VarianceReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [dimension, setDimension] = useState<(typeof varianceDimensions)[number]['id']>('byCategory');
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadReport();
+  }, [dateFrom, dateTo]);
+
+  const loadReport = async () => {
+    setLoading(true);
+    try {
+      const response = await reportsApi.getExpenseVariance({
+        dateFrom: dateFrom || undefined,
+        dateTo: dateTo || undefined,
+      });
+      setReport(response.data.data);
+      setSelectedKey(null);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Ошибка загрузки отчета план/факт');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('ru-RU', {
+      style: 'currency',
+      currency: 'RUB',
+      minimumFractionDigits: 2,
+    }).format(value);
+  };
+
+  const formatPercent = (value: number | null) =>
+    value === null ? '—' : `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+  const varianceClass = (value: number) =>
+    value > 0 ? 'text-danger-400' : value < 0 ? 'text-success-400' : 'text-surface-300';
+
+  const current = varianceDimensions.find((d) => d.id === dimension)!;
+  const groups = report ? report[dimension] : [];
+  const drillRows = report && selectedKey
+    ? report.rows.filter((r) => current.rowKey(r) === selectedKey)
+    : [];
+
+  return (
+    <div className="card space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold text-white">План/факт расходов заказов</h3>
+        {report && (
+          <p className="text-sm text-surface-400">
+            План {formatCurrency(report.totals.planned)} • Факт {formatCurrency(report.totals.actual)} •{' '}
+            <span className={varianceClass(report.totals.variance)}>
+              {formatCurrency(report.totals.variance)} ({formatPercent(report.totals.variancePercent)})
+            </span>
+          </p>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="skeleton h-40" />
+      ) : !report || report.rows.length === 0 ? (
+        <p className="text-surface-400 text-sm">Нет расходов с внесенным фактом за период</p>
+      ) : (
+        <>
+          {report.systematic.length > 0 && (
+            <div className="p-4 rounded-xl bg-warning-500/10 border border-warning-500/20 space-y-1">
+              <p className="text-warning-400 font-medium flex items-center gap-2">
+                <ExclamationTriangleIcon className="w-5 h-5" />
+                Систематическая недооценка
+              </p>
+              {report.systematic.map((g) => (
+                <button
+                  key={`${g.type}-${g.key}`}
+                  onClick={() => {
+                    setDimension(g.type === 'TEMPLATE' ? 'byTemplate' : 'byVendorService');
+                    setSelectedKey(g.key);
+                  }}
+                  className="block text-left text-sm text-surface-300 hover:text-white"
+                >
+                  {g.type === 'TEMPLATE' ? 'Шаблон' : 'Услуга'} «{g.name}»: факт выше плана в {g.overCount} из {g.count},{' '}
+                  перерасход {formatCurrency(g.variance)} ({formatPercent(g.variancePercent)})
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            {varianceDimensions.map((d) => (
+              <button
+                key={d.id}
+                onClick={() => {
+                  setDimension(d.id);
+                  setSelectedKey(null);
+                }}
+                className={dimension === d.id ? 'btn-primary' : 'btn-secondary'}
+              >
+                {d.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="table-container">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>{current.label}</th>
+                  <th className="text-right">Расходов</th>
+                  <th className="text-right">План</th>
+                  <th className="text-right">Факт</th>
+                  <th className="text-right">Отклонение</th>
+                  <th className="text-right">Факт &gt; плана</th>
+                </tr>
+              </thead>
+              <tbody>
+                {groups.map((g) => (
+                  <tr
+                    key={g.key}
+                    onClick={() => setSelectedKey(selectedKey === g.key ? null : g.key)}
+                    className={`cursor-pointer ${selectedKey === g.key ? 'bg-brand-500/10' : ''}`}
+                  >
+                    <td>
+                      <span className="text-surface-100">{g.name}</span>
+                      {g.systematic && <span className="badge-warning ml-2">Систематически</span>}
+                    </td>
+                    <td className="text-right">{g.count}</td>
+                    <td className="text-right font-mono">{formatCurrency(g.planned)}</td>
+                    <td className="text-right font-mono">{formatCurrency(g.actual)}</td>
+                    <td className={`text-right font-mono ${varianceClass(g.variance)}`}>
+                      {formatCurrency(g.variance)} ({formatPercent(g.variancePercent)})
+                    </td>
+                    <td className="text-right">{g.overCount} из {g.count}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {selectedKey && (
+            <div className="table-container">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Заказ</th>
+                    <th>Клиент</th>
+                    <th>Расход</th>
+                    <th>Поставщик</th>
+                    <th className="text-right">План</th>
+                    <th className="text-right">Факт</th>
+                    <th className="text-right">Отклонение</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {drillRows.map((r) => (
+                    <tr key={r.expenseId}>
+                      <td>
+                        <Link to={`/orders/${r.orderId}`} className="text-brand-400 hover:text-brand-300">
+                          {r.orderNumber}
+                        </Link>
+                        <p className="text-xs text-surface-500">{new Date(r.orderDate).toLocaleDateString('ru-RU')}</p>
+                      </td>
+                      <td>{r.client.name}</td>
+                      <td>
+                        {r.description}
+                        <p className="text-xs text-surface-500">
+                          {r.categoryName}{r.template && ` • ${r.template.name}`}
+                        </p>
+                      </td>
+                      <td>{r.vendorService?.name || r.vendor?.name || '—'}</td>
+                      <td className="text-right font-mono">{formatCurrency(r.planned)}</td>
+                      <td className="text-right font-mono">{formatCurrency(r.actual)}</td>
+                      <td className={`text-right font-mono ${varianceClass(r.variance)}`}>
+                        {formatCurrency(r.variance)} ({formatPercent(r.variancePercent)})
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { useUser, useIsManager } from '../store/authStore';
-import { authApi } from '../lib/api';
+import { useUser, useIsManager, useIsAdmin } from '../store/authStore';
+import { authApi, companyApi } from '../lib/api';
 import toast from 'react-hot-toast';
 import {
   UserCircleIcon,
@@ -10,6 +10,7 @@ import {
   Cog6ToothIcon,
   DocumentDuplicateIcon,
   ChevronRightIcon,
+  BuildingOfficeIcon,
 } from '@heroicons/react/24/outline';
 
 export default function Settings() {
@@ -63,6 +64,7 @@ export default function Settings() {
     { id: 'profile', label: 'Профиль', icon: UserCircleIcon },
     { id: 'security', label: 'Безопасность', icon: KeyIcon },
     { id: 'notifications', label: 'Уведомления', icon: BellIcon },
+    ...(isManager ? [{ id: 'company', label: 'Реквизиты компании', icon: BuildingOfficeIcon }] : []),
     ...(isManager ? [{ id: 'system', label: 'Система', icon: Cog6ToothIcon }] : []),
   ];
 
@@ -249,6 +251,8 @@ export default function Settings() {
             </div>
           )}
 
+          {activeTab === 'company' && isManager && <CompanySettingsForm />}
+
           {activeTab === 'system' && isManager && (
             <div className="card">
               <h3 className="text-lg font-semibold text-white mb-6">Системные настройки</h3>
@@ -294,3 +298,104 @@ export default function Settings() {
     </div>
   );
 }
+
+const companyFields: { name: string; label: string; placeholder?: string; wide?: boolean }[] = [
+  { name: 'name', label: 'Название', placeholder: 'ООО «Компания»', wide: true },
+  { name: 'inn', label: 'ИНН' },
+  { name: 'kpp', label: 'КПП' },
+  { name: 'ogrn', label: 'ОГРН' },
+  { name: 'address', label: 'Юридический адрес', wide: true },
+  { name: 'bankName', label: 'Банк', wide: true },
+  { name: 'bik', label: 'БИК' },
+  { name: 'bankAccount', label: 'Расчетный счет' },
+  { name: 'correspondentAccount', label: 'Корреспондентский счет' },
+  { name: 'directorName', label: 'Руководитель', placeholder: 'Иванов И.И.' },
+  { name: 'accountantName', label: 'Главный бухгалтер', placeholder: 'Петрова П.П.' },
+];
+
+function CompanySettingsForm() {
+  const isAdmin = useIsAdmin();
+  const [form, setForm] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const response = await companyApi.get();
+      const data = response.data.data;
+      const values: Record<string, string> = { vatRate: String(Number(data.vatRate)) };
+      for (const field of companyFields) {
+        values[field.name] = data[field.name] || '';
+      }
+      setForm(values);
+    } catch (error) {
+      toast.error('Ошибка загрузки реквизитов');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await companyApi.update({ ...form, vatRate: Number(form.vatRate) });
+      toast.success('Реквизиты сохранены');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || error.response?.data?.errors?.[0]?.msg || 'Ошибка сохранения');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <h3 className="text-lg font-semibold text-white mb-2">Реквизиты компании</h3>
+      <p className="text-sm text-surface-500 mb-6">Используются в счетах, актах и УПД для клиентов</p>
+
+      {loading ? (
+        <div className="skeleton h-64 rounded-xl" />
+      ) : (
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {companyFields.map((field) => (
+            <div key={field.name} className={field.wide ? 'md:col-span-2' : ''}>
+              <label className="label">{field.label}</label>
+              <input
+                type="text"
+                value={form[field.name] || ''}
+                onChange={(e) => setForm({ ...form, [field.name]: e.target.value })}
+                className="input"
+                placeholder={field.placeholder}
+                disabled={!isAdmin}
+              />
+            </div>
+          ))}
+          <div>
+            <label className="label">Ставка НДС</label>
+            <select
+              value={form.vatRate}
+              onChange={(e) => setForm({ ...form, vatRate: e.target.value })}
+              className="select"
+              disabled={!isAdmin}
+            >
+              <option value="20">20%</option>
+              <option value="10">10%</option>
+              <option value="0">Без НДС</option>
+            </select>
+          </div>
+          {isAdmin && (
+            <div className="md:col-span-2">
+              <button type="submit" disabled={saving} className="btn-primary">
+                {saving ? 'Сохранение...' : 'Сохранить'}
+              </button>
+            </div>
+          )}
+        </form>
+      )}
+    </div>
+  );
+}
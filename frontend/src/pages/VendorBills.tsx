@@ -0,0 +1,1049 @@
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import {
+  PlusIcon,
+  ArrowPathIcon,
+  ArrowDownTrayIcon,
+  XMarkIcon,
+  TrashIcon,
+  DocumentTextIcon,
+  ExclamationTriangleIcon,
+} from '@heroicons/react/24/outline';
+import { vendorBillsApi, vendorsApi } from '../lib/api';
+import { useIsAdmin, useCanViewFinance } from '../store/authStore';
+
+interface VendorBill {
+  id: string;
+  billNumber: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  dueDate: string | null;
+  periodFrom: string;
+  periodTo: string;
+  status: 'DRAFT' | 'APPROVED' | 'PARTIALLY_PAID' | 'PAID' | 'CANCELLED';
+  invoiceAmount: string;
+  currency: string;
+  currencyAmount: string | null;
+  exchangeRate: string;
+  expectedAmount: string;
+  billedAmount: string;
+  varianceAmount: string;
+  matchStatus: 'MATCHED' | 'VARIANCE';
+  paidAmount: string;
+  openAmount?: number;
+  notes: string | null;
+  vendor: { id: string; name: string; inn?: string | null };
+  _count?: { lines: number };
+  lines?: BillLine[];
+  payments?: {
+    id: string;
+    amount: string;
+    currencyAmount: string | null;
+    exchangeRate: string | null;
+    paidAmount: string | null;
+    fxDifference: string;
+    paymentDate: string;
+    reference: string | null;
+    transaction: {
+      id: string;
+      debitAccount: { code: string; name: string };
+      creditAccount: { code: string; name: string };
+    } | null;
+  }[];
+}
+
+interface BillLine {
+  id: string;
+  description: string;
+  quantity: string;
+  contractUnitPrice: string | null;
+  expectedAmount: string;
+  billedAmount: string;
+  priceVariance: string;
+  amountVariance: string;
+  flags: string | null;
+}
+
+interface UnbilledItem {
+  id: string;
+  order: { orderNumber: string };
+  actualAmount: string;
+  totalAmount?: string;
+}
+
+interface Aging {
+  buckets: { key: string; label: string }[];
+  vendors: {
+    vendorId: string;
+    vendorName: string;
+    billed: number;
+    paid: number;
+    balance: number;
+    overdue: number;
+    unbilled: number;
+    openBills: number;
+    buckets: Record<string, number>;
+  }[];
+  totals: {
+    balance: number;
+    unbilled: number;
+    overdue: number;
+    creditors: number;
+    buckets: Record<string, number>;
+  };
+}
+
+interface VendorOption {
+  id: string;
+  name: string;
+}
+
+const statusLabels: Record<string, { label: string; class: string }> = {
+  DRAFT: { label: 'Черновик', class: 'badge-neutral' },
+  APPROVED: { label: 'К оплате', class: 'badge-info' },
+  PARTIALLY_PAID: { label: 'Частично оплачен', class: 'badge-warning' },
+  PAID: { label: 'Оплачен', class: 'badge-success' },
+  CANCELLED: { label: 'Аннулирован', class: 'badge-danger' },
+};
+
+const flagLabels: Record<string, string> = {
+  PRICE: 'Цена ≠ прайс',
+  AMOUNT: 'Сумма ≠ расчет',
+};
+
+const CURRENCIES = ['RUB', 'USD', 'EUR', 'CNY'];
+
+const today = () => new Date().toISOString().split('T')[0];
+const monthStart = () => {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 1).toISOString().split('T')[0];
+};
+
+const formatCurrency = (value: number | string) =>
+  new Intl.NumberFormat('ru-RU', {
+    style: 'currency',
+    currency: 'RUB',
+    minimumFractionDigits: 2,
+  }).format(Number(value));
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('ru-RU');
+
+export default function VendorBills() {
+  const [activeTab, setActiveTab] = useState<'bills' | 'aging'>('bills');
+  const [bills, setBills] = useState<VendorBill[]>([]);
+  const [vendors, setVendors] = useState<VendorOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState({ vendorId: '', status: '' });
+  const [showCreate, setShowCreate] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    vendorsApi.getAll().then((response) => setVendors(response.data.data)).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    loadBills();
+  }, [filters]);
+
+  const loadBills = async () => {
+    setLoading(true);
+    try {
+      const response = await vendorBillsApi.getAll({
+        vendorId: filters.vendorId || undefined,
+        status: filters.status || undefined,
+      });
+      setBills(response.data.data);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Ошибка загрузки счетов поставщиков');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-display font-bold text-white">Счета поставщиков</h1>
+          <p className="text-surface-400">Сверка счетов с расходами и прайсом, оплаты и кредиторская задолженность</p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={loadBills} className="btn-secondary">
+            <ArrowPathIcon className="w-4 h-4" />
+            Обновить
+          </button>
+          <button onClick={() => setShowCreate(true)} className="btn-primary">
+            <PlusIcon className="w-5 h-5" />
+            Новый счет
+          </button>
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex gap-1 p-1 bg-surface-800 rounded-xl w-fit">
+        <button
+          onClick={() => setActiveTab('bills')}
+          className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+            activeTab === 'bills'
+              ? 'bg-brand-500 text-white'
+              : 'text-surface-400 hover:text-surface-200'
+          }`}
+        >
+          Счета
+        </button>
+        <button
+          onClick={() => setActiveTab('aging')}
+          className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+            activeTab === 'aging'
+              ? 'bg-brand-500 text-white'
+              : 'text-surface-400 hover:text-surface-200'
+          }`}
+        >
+          Кредиторская задолженность
+        </button>
+      </div>
+
+      {activeTab === 'aging' ? (
+        <PayablesAging
+          onSelectVendor={(vendorId) => {
+            setFilters({ vendorId, status: '' });
+            setActiveTab('bills');
+          }}
+        />
+      ) : (
+        <>
+          {/* Filters */}
+          <div className="card flex flex-wrap gap-4 items-end">
+            <div className="w-64">
+              <label className="label">Поставщик</label>
+              <select
+                value={filters.vendorId}
+                onChange={(e) => setFilters({ ...filters, vendorId: e.target.value })}
+                className="select"
+              >
+                <option value="">Все поставщики</option>
+                {vendors.map((vendor) => (
+                  <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="w-56">
+              <label className="label">Статус</label>
+              <select
+                value={filters.status}
+                onChange={(e) => setFilters({ ...filters, status: e.target.value })}
+                className="select"
+              >
+                <option value="">Все статусы</option>
+                {Object.entries(statusLabels).map(([value, { label }]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Bills Table */}
+          {loading ? (
+            <div className="card skeleton h-96" />
+          ) : (
+            <div className="card p-0 overflow-hidden">
+              <div className="table-container border-0">
+                <table className="table">
+                  <thead>
+                    <tr>
+                      <th>Номер</th>
+                      <th>Поставщик</th>
+                      <th>Счет поставщика</th>
+                      <th>Период</th>
+                      <th>Сумма</th>
+                      <th>Расхождение</th>
+                      <th>К оплате</th>
+                      <th>Статус</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {bills.length > 0 ? (
+                      bills.map((bill) => (
+                        <tr key={bill.id} onClick={() => setSelectedId(bill.id)} className="cursor-pointer">
+                          <td className="font-mono text-brand-400">{bill.billNumber}</td>
+                          <td>{bill.vendor.name}</td>
+                          <td>
+                            № {bill.invoiceNumber}
+                            <p className="text-xs text-surface-500">
+                              от {formatDate(bill.invoiceDate)}
+                              {bill.dueDate && ` · срок ${formatDate(bill.dueDate)}`}
+                            </p>
+                          </td>
+                          <td className="text-surface-400">
+                            {formatDate(bill.periodFrom)} — {formatDate(bill.periodTo)}
+                          </td>
+                          <td className="font-mono">
+                            {formatCurrency(bill.invoiceAmount)}
+                            {bill.currency !== 'RUB' && (
+                              <p className="text-xs text-surface-500">
+                                {Number(bill.currencyAmount).toFixed(2)} {bill.currency}
+                              </p>
+                            )}
+                          </td>
+                          <td className={`font-mono ${bill.matchStatus === 'VARIANCE' ? 'text-warning-500' : 'text-surface-500'}`}>
+                            {bill.matchStatus === 'VARIANCE' ? formatCurrency(bill.varianceAmount) : '—'}
+                          </td>
+                          <td className="font-mono">
+                            {['APPROVED', 'PARTIALLY_PAID'].includes(bill.status) ? formatCurrency(bill.openAmount || 0) : '—'}
+                          </td>
+                          <td>
+                            <span className={statusLabels[bill.status]?.class || 'badge-neutral'}>
+                              {statusLabels[bill.status]?.label || bill.status}
+                            </span>
+                          </td>
+                        </tr>
+                      ))
+                    ) : (
+                      <tr>
+                        <td colSpan={8} className="text-center text-surface-500 py-8">
+                          Счетов нет
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {showCreate && (
+        <NewBillModal
+          vendors={vendors}
+          defaultVendorId={filters.vendorId}
+          onClose={() => setShowCreate(false)}
+          onSave={(id) => {
+            setShowCreate(false);
+            loadBills();
+            setSelectedId(id);
+          }}
+        />
+      )}
+
+      {selectedId && (
+        <BillDetailsModal
+          billId={selectedId}
+          onClose={() => setSelectedId(null)}
+          onChange={loadBills}
+        />
+      )}
+    </div>
+  );
+}
+
+function PayablesAging({ onSelectVendor }: { onSelectVendor: (vendorId: string) => void }) {
+  const [aging, setAging] = useState<Aging | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [asOf, setAsOf] = useState(today());
+
+  useEffect(() => {
+    loadAging();
+  }, [asOf]);
+
+  const loadAging = async () => {
+    setLoading(true);
+    try {
+      const response = await vendorBillsApi.getAging({ asOf });
+      setAging(response.data.data);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Ошибка загрузки кредиторской задолженности');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportAging = async () => {
+    try {
+      const response = await vendorBillsApi.getAging({ asOf, format: 'xlsx' });
+      const blob = new Blob([response.data], {
+        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      });
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `payables-${asOf}.xlsx`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error('Ошибка выгрузки');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-2 items-end">
+        <div>
+          <label className="label">На дату</label>
+          <input type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} className="input" />
+        </div>
+        <button onClick={exportAging} className="btn-secondary">
+          <ArrowDownTrayIcon className="w-4 h-4" />
+          Excel
+        </button>
+      </div>
+
+      {aging && (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-7 gap-4">
+          <div className="card">
+            <p className="text-xs text-surface-500">Всего к оплате</p>
+            <p className="text-xl font-bold text-white">{formatCurrency(aging.totals.balance)}</p>
+            <p className="text-xs text-surface-500 mt-1">поставщиков: {aging.totals.creditors}</p>
+          </div>
+          {aging.buckets.map((bucket) => (
+            <div key={bucket.key} className="card">
+              <p className="text-xs text-surface-500">{bucket.label}</p>
+              <p className={`text-xl font-bold ${bucket.key === 'current' ? 'text-white' : 'text-danger-500'}`}>
+                {formatCurrency(aging.totals.buckets[bucket.key] || 0)}
+              </p>
+            </div>
+          ))}
+          <div className="card">
+            <p className="text-xs text-surface-500">Расходы без счета</p>
+            <p className="text-xl font-bold text-warning-500">{formatCurrency(aging.totals.unbilled)}</p>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="card skeleton h-96" />
+      ) : (
+        <div className="card p-0 overflow-hidden">
+          <div className="table-container border-0">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Поставщик</th>
+                  <th>По счетам</th>
+                  <th>Оплачено</th>
+                  {aging?.buckets.map((bucket) => (
+                    <th key={bucket.key}>{bucket.label}</th>
+                  ))}
+                  <th>Сальдо</th>
+                  <th>Без счета</th>
+                </tr>
+              </thead>
+              <tbody>
+                {aging && aging.vendors.length > 0 ? (
+                  aging.vendors.map((vendor) => (
+                    <tr key={vendor.vendorId} onClick={() => onSelectVendor(vendor.vendorId)} className="cursor-pointer">
+                      <td className="font-medium text-surface-100">{vendor.vendorName}</td>
+                      <td className="font-mono">{formatCurrency(vendor.billed)}</td>
+                      <td className="font-mono">{formatCurrency(vendor.paid)}</td>
+                      {aging.buckets.map((bucket) => (
+                        <td
+                          key={bucket.key}
+                          className={`font-mono ${vendor.buckets[bucket.key] > 0 && bucket.key !== 'current' ? 'text-danger-500' : ''}`}
+                        >
+                          {vendor.buckets[bucket.key] > 0 ? formatCurrency(vendor.buckets[bucket.key]) : '—'}
+                        </td>
+                      ))}
+                      <td className="font-mono font-semibold text-surface-100">{formatCurrency(vendor.balance)}</td>
+                      <td className={`font-mono ${vendor.unbilled > 0 ? 'text-warning-500' : 'text-surface-500'}`}>
+                        {vendor.unbilled > 0 ? formatCurrency(vendor.unbilled) : '—'}
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={(aging?.buckets.length || 0) + 5} className="text-center text-surface-500 py-8">
+                      Задолженности нет
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function NewBillModal({
+  vendors,
+  defaultVendorId,
+  onClose,
+  onSave,
+}: {
+  vendors: VendorOption[];
+  defaultVendorId: string;
+  onClose: () => void;
+  onSave: (id: string) => void;
+}) {
+  const [formData, setFormData] = useState({
+    vendorId: defaultVendorId,
+    invoiceNumber: '',
+    invoiceDate: today(),
+    dueDate: '',
+    periodFrom: monthStart(),
+    periodTo: today(),
+    invoiceAmount: '',
+    currency: 'RUB',
+    currencyAmount: '',
+    notes: '',
+  });
+  const [unbilled, setUnbilled] = useState<{ costOperations: UnbilledItem[]; orderExpenses: UnbilledItem[] } | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!formData.vendorId) {
+      setUnbilled(null);
+      return;
+    }
+    vendorBillsApi
+      .getUnbilled({ vendorId: formData.vendorId, periodFrom: formData.periodFrom, periodTo: formData.periodTo })
+      .then((response) => setUnbilled(response.data.data))
+      .catch(() => setUnbilled(null));
+  }, [formData.vendorId, formData.periodFrom, formData.periodTo]);
+
+  const unbilledCount = unbilled ? unbilled.costOperations.length + unbilled.orderExpenses.length : 0;
+  const unbilledTotal = unbilled
+    ? unbilled.costOperations.reduce((sum, op) => sum + Number(op.actualAmount), 0) +
+      unbilled.orderExpenses.reduce(
+        (sum, e) => sum + (Number(e.actualAmount) > 0 ? Number(e.actualAmount) : Number(e.totalAmount)),
+        0
+      )
+    : 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const isCurrency = formData.currency !== 'RUB';
+    const amount = Number(isCurrency ? formData.currencyAmount : formData.invoiceAmount);
+    if (!formData.vendorId || !formData.invoiceNumber || !(amount > 0)) {
+      toast.error('Укажите поставщика, номер и сумму счета');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await vendorBillsApi.create({
+        ...formData,
+        invoiceAmount: isCurrency ? undefined : amount,
+        currencyAmount: isCurrency ? amount : undefined,
+        dueDate: formData.dueDate || undefined,
+        notes: formData.notes || undefined,
+      });
+      toast.success('Счет зарегистрирован');
+      onSave(response.data.data.id);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || error.response?.data?.errors?.[0]?.msg || 'Ошибка регистрации счета');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-surface-900 border border-surface-800 rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto animate-scale-in">
+        <div className="p-6 border-b border-surface-800">
+          <h2 className="text-xl font-semibold text-white">Новый счет поставщика</h2>
+          <p className="text-sm text-surface-400 mt-1">
+            В счет войдут все расходы поставщика за период, еще не включенные в другие счета
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="label">Поставщик *</label>
+            <select
+              value={formData.vendorId}
+              onChange={(e) => setFormData({ ...formData, vendorId: e.target.value })}
+              className="select"
+            >
+              <option value="">Выберите поставщика</option>
+              {vendors.map((vendor) => (
+                <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="label">Расходы с</label>
+              <input
+                type="date"
+                value={formData.periodFrom}
+                onChange={(e) => setFormData({ ...formData, periodFrom: e.target.value })}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="label">по</label>
+              <input
+                type="date"
+                value={formData.periodTo}
+                onChange={(e) => setFormData({ ...formData, periodTo: e.target.value })}
+                className="input"
+              />
+            </div>
+          </div>
+
+          {formData.vendorId && unbilled && (
+            <p className={`text-sm ${unbilledCount > 0 ? 'text-surface-300' : 'text-warning-500'}`}>
+              {unbilledCount > 0
+                ? `Расходов за период: ${unbilledCount} на сумму ${formatCurrency(unbilledTotal)}`
+                : 'За период нет расходов поставщика вне счетов'}
+            </p>
+          )}
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="label">№ счета *</label>
+              <input
+                type="text"
+                value={formData.invoiceNumber}
+                onChange={(e) => setFormData({ ...formData, invoiceNumber: e.target.value })}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="label">Дата счета</label>
+              <input
+                type="date"
+                value={formData.invoiceDate}
+                onChange={(e) => setFormData({ ...formData, invoiceDate: e.target.value })}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="label">Оплатить до</label>
+              <input
+                type="date"
+                value={formData.dueDate}
+                onChange={(e) => setFormData({ ...formData, dueDate: e.target.value })}
+                className="input"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="label">Валюта</label>
+              <select
+                value={formData.currency}
+                onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                className="select"
+              >
+                {CURRENCIES.map((c) => (
+                  <option key={c} value={c}>{c}</option>
+                ))}
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label className="label">Сумма по счету{formData.currency !== 'RUB' ? `, ${formData.currency}` : ''} *</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.currency !== 'RUB' ? formData.currencyAmount : formData.invoiceAmount}
+                onChange={(e) =>
+                  setFormData(
+                    formData.currency !== 'RUB'
+                      ? { ...formData, currencyAmount: e.target.value }
+                      : { ...formData, invoiceAmount: e.target.value }
+                  )
+                }
+                className="input"
+              />
+              {formData.currency !== 'RUB' && (
+                <p className="text-xs text-surface-500 mt-1">
+                  Сумма в рублях — по курсу ЦБ на дату счета
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className="label">Примечание</label>
+            <textarea
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              className="input"
+              rows={2}
+            />
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button type="button" onClick={onClose} className="btn-secondary flex-1">
+              Отмена
+            </button>
+            <button type="submit" disabled={loading || unbilledCount === 0} className="btn-primary flex-1">
+              {loading ? 'Сохранение...' : 'Зарегистрировать'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function BillDetailsModal({
+  billId,
+  onClose,
+  onChange,
+}: {
+  billId: string;
+  onClose: () => void;
+  onChange: () => void;
+}) {
+  const [bill, setBill] = useState<VendorBill | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [acceptVariance, setAcceptVariance] = useState(false);
+  const [payment, setPayment] = useState({ amount: '', currencyAmount: '', exchangeRate: '', paymentDate: today(), reference: '' });
+  const canViewFinance = useCanViewFinance();
+  const isAdmin = useIsAdmin();
+
+  useEffect(() => {
+    loadBill();
+  }, [billId]);
+
+  const loadBill = async () => {
+    try {
+      const response = await vendorBillsApi.getById(billId);
+      const data: VendorBill = response.data.data;
+      setBill(data);
+      const paidCurrency = (data.payments || []).reduce((sum, p) => sum + Number(p.currencyAmount || 0), 0);
+      setPayment((prev) => ({
+        ...prev,
+        amount: String(Math.round((Number(data.invoiceAmount) - Number(data.paidAmount)) * 100) / 100),
+        currencyAmount: String(Math.round((Number(data.currencyAmount || 0) - paidCurrency) * 100) / 100),
+      }));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Ошибка загрузки счета');
+    }
+  };
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast.success(success);
+      await loadBill();
+      onChange();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || error.response?.data?.errors?.[0]?.msg || 'Ошибка выполнения операции');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const updateLine = (line: BillLine, value: string) => {
+    const amount = Number(value);
+    if (isNaN(amount) || amount < 0 || amount === Number(line.billedAmount)) return;
+    run(() => vendorBillsApi.updateLine(billId, line.id, amount), 'Сумма строки изменена');
+  };
+
+  const isDraft = bill?.status === 'DRAFT';
+  const isOpen = bill ? ['APPROVED', 'PARTIALLY_PAID'].includes(bill.status) : false;
+  const isCurrency = bill ? bill.currency !== 'RUB' : false;
+  const linesDiff = bill ? Math.round((Number(bill.invoiceAmount) - Number(bill.billedAmount)) * 100) / 100 : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="card w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-semibold text-white flex items-center gap-2">
+              <DocumentTextIcon className="w-6 h-6 text-brand-400" />
+              {bill?.billNumber || 'Счет поставщика'}
+              {bill && (
+                <span className={statusLabels[bill.status]?.class || 'badge-neutral'}>
+                  {statusLabels[bill.status]?.label || bill.status}
+                </span>
+              )}
+            </h2>
+            {bill && (
+              <p className="text-surface-400">
+                {bill.vendor.name} · счет № {bill.invoiceNumber} от {formatDate(bill.invoiceDate)}
+                {bill.dueDate && ` · оплатить до ${formatDate(bill.dueDate)}`}
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="btn-icon">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!bill ? (
+          <div className="skeleton h-48" />
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="p-3 rounded-xl bg-surface-800/50">
+                <p className="text-xs text-surface-500">По счету поставщика</p>
+                <p className="text-lg font-bold text-white">{formatCurrency(bill.invoiceAmount)}</p>
+                {bill.currency !== 'RUB' && (
+                  <p className="text-xs text-surface-500">
+                    {Number(bill.currencyAmount).toFixed(2)} {bill.currency} × {Number(bill.exchangeRate).toFixed(4)}
+                  </p>
+                )}
+              </div>
+              <div className="p-3 rounded-xl bg-surface-800/50">
+                <p className="text-xs text-surface-500">Наш расчет</p>
+                <p className="text-lg font-bold text-white">{formatCurrency(bill.expectedAmount)}</p>
+              </div>
+              <div className="p-3 rounded-xl bg-surface-800/50">
+                <p className="text-xs text-surface-500">Расхождение</p>
+                <p className={`text-lg font-bold ${bill.matchStatus === 'VARIANCE' ? 'text-warning-500' : 'text-success-500'}`}>
+                  {formatCurrency(bill.varianceAmount)}
+                </p>
+              </div>
+              <div className="p-3 rounded-xl bg-surface-800/50">
+                <p className="text-xs text-surface-500">Оплачено</p>
+                <p className="text-lg font-bold text-white">{formatCurrency(bill.paidAmount)}</p>
+              </div>
+            </div>
+
+            {bill.matchStatus === 'VARIANCE' && (
+              <p className="text-sm text-warning-500 flex items-center gap-2">
+                <ExclamationTriangleIcon className="w-5 h-5" />
+                Счет расходится с нашим расчетом или с прайсом поставщика
+              </p>
+            )}
+
+            <div className="table-container">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Расход</th>
+                    <th>Кол-во</th>
+                    <th>Цена по прайсу</th>
+                    <th>Расчет</th>
+                    <th>По счету</th>
+                    <th>Отклонение</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {bill.lines?.map((line) => (
+                    <tr key={line.id}>
+                      <td className="max-w-xs">
+                        <p className="text-surface-100 truncate" title={line.description}>{line.description}</p>
+                        {line.flags && (
+                          <p className="flex gap-1 mt-1">
+                            {line.flags.split(',').map((flag) => (
+                              <span key={flag} className="badge-warning">{flagLabels[flag] || flag}</span>
+                            ))}
+                          </p>
+                        )}
+                      </td>
+                      <td className="font-mono">{Number(line.quantity)}</td>
+                      <td className="font-mono">
+                        {line.contractUnitPrice !== null ? formatCurrency(line.contractUnitPrice) : '—'}
+                        {Number(line.priceVariance) !== 0 && (
+                          <p className="text-xs text-warning-500">
+                            {Number(line.priceVariance) > 0 ? '+' : ''}
+                            {formatCurrency(line.priceVariance)} / ед.
+                          </p>
+                        )}
+                      </td>
+                      <td className="font-mono">{formatCurrency(line.expectedAmount)}</td>
+                      <td className="font-mono w-36">
+                        {isDraft ? (
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            defaultValue={Number(line.billedAmount)}
+                            onBlur={(e) => updateLine(line, e.target.value)}
+                            disabled={busy}
+                            className="input"
+                          />
+                        ) : (
+                          formatCurrency(line.billedAmount)
+                        )}
+                      </td>
+                      <td className={`font-mono ${Number(line.amountVariance) !== 0 ? 'text-warning-500' : 'text-surface-500'}`}>
+                        {Number(line.amountVariance) !== 0 ? formatCurrency(line.amountVariance) : '—'}
+                      </td>
+                      <td className="text-right">
+                        {isDraft && (
+                          <button
+                            disabled={busy}
+                            onClick={() => run(() => vendorBillsApi.removeLine(billId, line.id), 'Строка исключена')}
+                            className="btn-icon text-danger-500"
+                            title="Исключить из счета"
+                          >
+                            <TrashIcon className="w-4 h-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr>
+                    <td colSpan={3} className="text-surface-400">Итого по строкам</td>
+                    <td className="font-mono font-semibold">{formatCurrency(bill.expectedAmount)}</td>
+                    <td className="font-mono font-semibold">{formatCurrency(bill.billedAmount)}</td>
+                    <td colSpan={2}></td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            {isDraft && canViewFinance && (
+              <div className="p-4 rounded-xl bg-surface-800/50 space-y-3">
+                {Math.abs(linesDiff) >= 0.01 && (
+                  <p className="text-sm text-danger-500">
+                    Сумма строк отличается от суммы счета на {formatCurrency(linesDiff)} — распределите разницу по строкам
+                  </p>
+                )}
+                {bill.matchStatus === 'VARIANCE' && (
+                  <label className="flex items-center gap-2 text-surface-300">
+                    <input
+                      type="checkbox"
+                      checked={acceptVariance}
+                      onChange={(e) => setAcceptVariance(e.target.checked)}
+                      className="w-4 h-4 rounded border-surface-600 bg-surface-800 text-brand-500 focus:ring-brand-500"
+                    />
+                    Принять расхождение: суммы по счету станут фактическими расходами заказов
+                  </label>
+                )}
+                <button
+                  disabled={busy || Math.abs(linesDiff) >= 0.01 || (bill.matchStatus === 'VARIANCE' && !acceptVariance)}
+                  onClick={() => run(() => vendorBillsApi.approve(billId, acceptVariance), 'Счет утвержден')}
+                  className="btn-primary"
+                >
+                  Утвердить к оплате
+                </button>
+              </div>
+            )}
+
+            {isOpen && canViewFinance && (
+              <div className="p-4 rounded-xl bg-surface-800/50">
+                <h3 className="font-semibold text-white mb-3">Оплата (Дт 60 — Кт 51)</h3>
+                <div className={`grid ${isCurrency ? 'grid-cols-5' : 'grid-cols-4'} gap-3 items-end`}>
+                  {isCurrency ? (
+                    <>
+                      <div>
+                        <label className="label">Сумма, {bill.currency}</label>
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={payment.currencyAmount}
+                          onChange={(e) => setPayment({ ...payment, currencyAmount: e.target.value })}
+                          className="input"
+                        />
+                      </div>
+                      <div>
+                        <label className="label">Курс оплаты</label>
+                        <input
+                          type="number"
+                          step="0.0001"
+                          min="0"
+                          value={payment.exchangeRate}
+                          onChange={(e) => setPayment({ ...payment, exchangeRate: e.target.value })}
+                          placeholder="ЦБ на дату"
+                          className="input"
+                        />
+                      </div>
+                    </>
+                  ) : (
+                    <div>
+                      <label className="label">Сумма</label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={payment.amount}
+                        onChange={(e) => setPayment({ ...payment, amount: e.target.value })}
+                        className="input"
+                      />
+                    </div>
+                  )}
+                  <div>
+                    <label className="label">Дата</label>
+                    <input
+                      type="date"
+                      value={payment.paymentDate}
+                      onChange={(e) => setPayment({ ...payment, paymentDate: e.target.value })}
+                      className="input"
+                    />
+                  </div>
+                  <div>
+                    <label className="label">№ п/п</label>
+                    <input
+                      type="text"
+                      value={payment.reference}
+                      onChange={(e) => setPayment({ ...payment, reference: e.target.value })}
+                      className="input"
+                    />
+                  </div>
+                  <button
+                    disabled={busy || !(Number(isCurrency ? payment.currencyAmount : payment.amount) > 0)}
+                    onClick={() =>
+                      run(
+                        () =>
+                          vendorBillsApi.pay(billId, {
+                            ...(isCurrency
+                              ? {
+                                  currencyAmount: Number(payment.currencyAmount),
+                                  exchangeRate: Number(payment.exchangeRate) || undefined,
+                                }
+                              : { amount: Number(payment.amount) }),
+                            paymentDate: payment.paymentDate,
+                            reference: payment.reference || undefined,
+                          }),
+                        'Оплата зарегистрирована'
+                      )
+                    }
+                    className="btn-primary"
+                  >
+                    Оплатить
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {bill.payments && bill.payments.length > 0 && (
+              <div>
+                <h3 className="font-semibold text-white mb-2">Оплаты</h3>
+                <div className="space-y-1 text-sm">
+                  {bill.payments.map((p) => (
+                    <p key={p.id} className="text-surface-400">
+                      {formatDate(p.paymentDate)}
+                      {p.reference && ` · п/п № ${p.reference}`}:{' '}
+                      <span className="font-mono text-surface-200">{formatCurrency(p.amount)}</span>
+                      {p.currencyAmount && ` (${Number(p.currencyAmount).toFixed(2)} ${bill.currency} по ${Number(p.exchangeRate).toFixed(4)})`}
+                      {Number(p.fxDifference) !== 0 && (
+                        <span className={Number(p.fxDifference) > 0 ? 'text-danger-400' : 'text-success-400'}>
+                          {' '}· курсовая разница {formatCurrency(p.fxDifference)}
+                        </span>
+                      )}
+                      {p.transaction && ` · Дт ${p.transaction.debitAccount.code} — Кт ${p.transaction.creditAccount.code}`}
+                    </p>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {isAdmin && bill.status !== 'CANCELLED' && Number(bill.paidAmount) === 0 && (
+              <div className="flex pt-2">
+                <button
+                  disabled={busy}
+                  onClick={() => {
+                    if (!confirm('Аннулировать счет? Расходы снова станут доступны для выставления.')) return;
+                    run(() => vendorBillsApi.cancel(billId), 'Счет аннулирован');
+                  }}
+                  className="btn-ghost text-danger-500"
+                >
+                  Аннулировать
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
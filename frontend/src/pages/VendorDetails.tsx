@@ -10,17 +10,26 @@ import {
   TrashIcon,
   ArrowUpTrayIcon,
   ClockIcon,
+  ArrowTrendingUpIcon,
 } from '@heroicons/react/24/outline';
 
 interface VendorService {
   id: string;
+  code?: string | null;
   name: string;
   type: string;
   unit: string;
   price: number;
   currency: string;
+  vatRate: number;
   isActive: boolean;
   validFrom: string;
+  minQuantity?: number | null;
+  maxQuantity?: number | null;
+  pricingBasis?: string | null;
+  destination?: string | null;
+  productCategory?: string | null;
+  autoApply?: boolean;
   priceHistory?: Array<{
     id: string;
     oldPrice: number;
@@ -29,6 +38,51 @@ interface VendorService {
   }>;
 }
 
+interface PriceChangePreview {
+  services: Array<{
+    vendorServiceId: string;
+    name: string;
+    currency: string;
+    oldPrice: number;
+    newPrice: number;
+    difference: number;
+    differencePercent: number | null;
+  }>;
+  errors: Array<{ row?: number; name?: string; error: string }>;
+  expenses: Array<{
+    expenseId: string;
+    order: { id: string; orderNumber: string; status: string };
+    description: string;
+    quantity: number;
+    totalAmount: number;
+    newTotal: number;
+    impact: number;
+  }>;
+  templates: Array<{ itemId: string; templateName: string; description: string; service: string }>;
+  totals: { services: number; unchanged: number; expenses: number; orders: number; templates: number; impact: number };
+  changes?: Array<{ row?: number; vendorServiceId?: string; name?: string; newPrice: number }>;
+}
+
+interface PriceListImport {
+  headers: string[];
+  mapping: Record<string, string>;
+  mappingErrors: string[];
+  fields: Record<string, { label: string; required: boolean }>;
+  items?: Array<{
+    row: number;
+    code: string | null;
+    name: string;
+    price: number;
+    status: 'NEW' | 'CHANGED' | 'UNCHANGED';
+    oldPrice: number | null;
+    reactivate: boolean;
+    changes: Array<{ field: string; from: string | number | null; to: string | number }>;
+  }>;
+  missing?: Array<{ vendorServiceId: string; code: string | null; name: string; price: number }>;
+  errors?: Array<{ row: number; name: string; errors: string[] }>;
+  totals?: { new: number; changed: number; unchanged: number; missing: number; errors: number };
+}
+
 interface Vendor {
   id: string;
   name: string;
@@ -59,10 +113,19 @@ const unitLabels: Record<string, string> = {
   CUBIC_METER: 'м³',
   ORDER: 'заказ',
   PALLET: 'паллета',
+  BOX: 'короб',
   DAY: 'день',
   MONTH: 'месяц',
 };
 
+const pricingBasisLabels: Record<string, string> = {
+  ITEMS: 'Кол-во товаров (шт.)',
+  WEIGHT: 'Вес заказа (кг)',
+  VOLUME: 'Объем заказа (м³)',
+  PALLETS: 'Палеты',
+  BOXES: 'Коробы',
+};
+
 export default function VendorDetails() {
   const { id } = useParams<{ id: string }>();
   const [vendor, setVendor] = useState<Vendor | null>(null);
@@ -70,6 +133,8 @@ export default function VendorDetails() {
   const [showServiceModal, setShowServiceModal] = useState(false);
   const [editingService, setEditingService] = useState<VendorService | null>(null);
   const [showHistory, setShowHistory] = useState<string | null>(null);
+  const [showPriceChange, setShowPriceChange] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
   const isManager = useIsManager();
 
   useEffect(() => {
@@ -99,17 +164,9 @@ export default function VendorDetails() {
     }
   };
 
-  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (!file) return;
-
-    try {
-      const response = await vendorServicesApi.import(id!, file);
-      toast.success(response.data.message);
-      loadVendor();
-    } catch (error: any) {
-      toast.error(error.response?.data?.error || 'Ошибка импорта');
-    }
+    if (file) setImportFile(file);
     e.target.value = '';
   };
 
@@ -201,6 +258,12 @@ export default function VendorDetails() {
                   className="hidden"
                 />
               </label>
+              {vendor.services.length > 0 && (
+                <button onClick={() => setShowPriceChange(true)} className="btn-secondary">
+                  <ArrowTrendingUpIcon className="w-4 h-4" />
+                  Изменить цены
+                </button>
+              )}
               <button
                 onClick={() => {
                   setEditingService(null);
@@ -236,13 +299,19 @@ export default function VendorDetails() {
               <tbody>
                 {vendor.services.map((service) => (
                   <tr key={service.id}>
-                    <td className="font-medium text-surface-100">{service.name}</td>
+                    <td className="font-medium text-surface-100">
+                      {service.name}
+                      {service.code && <span className="block text-xs font-normal text-surface-500">{service.code}</span>}
+                    </td>
                     <td>
                       <span className="badge-info">{typeLabels[service.type]}</span>
                     </td>
                     <td className="text-surface-400">{unitLabels[service.unit]}</td>
                     <td className="font-mono font-semibold text-surface-100">
                       {Number(service.price).toLocaleString('ru-RU')} {service.currency}
+                      <span className="block text-xs font-normal text-surface-500">
+                        {Number(service.vatRate) > 0 ? `вкл. НДС ${Number(service.vatRate)}%` : 'без НДС'}
+                      </span>
                     </td>
                     <td className="text-surface-400">
                       {new Date(service.validFrom).toLocaleDateString('ru-RU')}
@@ -306,6 +375,539 @@ export default function VendorDetails() {
           }}
         />
       )}
+
+      {/* Price List Import Modal */}
+      {importFile && (
+        <PriceListImportModal
+          vendorId={vendor.id}
+          file={importFile}
+          onClose={() => setImportFile(null)}
+          onImported={() => {
+            setImportFile(null);
+            loadVendor();
+          }}
+        />
+      )}
+
+      {/* Bulk Price Change Modal */}
+      {showPriceChange && (
+        <PriceChangeModal
+          vendor={vendor}
+          onClose={() => setShowPriceChange(false)}
+          onApplied={() => {
+            setShowPriceChange(false);
+            loadVendor();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// Price List Import Modal Component
+function PriceListImportModal({
+  vendorId,
+  file,
+  onClose,
+  onImported,
+}: {
+  vendorId: string;
+  file: File;
+  onClose: () => void;
+  onImported: () => void;
+}) {
+  const [mapping, setMapping] = useState<Record<string, string> | undefined>(undefined);
+  const [result, setResult] = useState<PriceListImport | null>(null);
+  const [deactivateMissing, setDeactivateMissing] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  // Сравнение с текущими услугами пересчитывается при смене колонок
+  useEffect(() => {
+    loadDiff();
+  }, [mapping]);
+
+  const loadDiff = async () => {
+    setLoading(true);
+    try {
+      const response = await vendorServicesApi.import(vendorId, file, { dryRun: true, mapping });
+      setResult(response.data.data);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Ошибка чтения файла');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setLoading(true);
+    try {
+      const response = await vendorServicesApi.import(vendorId, file, { mapping, deactivateMissing });
+      toast.success(response.data.message);
+      onImported();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Ошибка импорта');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const statusBadge: Record<string, { label: string; className: string }> = {
+    NEW: { label: 'Новая', className: 'badge-info' },
+    CHANGED: { label: 'Изменена', className: 'badge-warning' },
+    UNCHANGED: { label: 'Без изменений', className: 'badge-neutral' },
+  };
+
+  const changedItems = result?.items?.filter((item) => item.status !== 'UNCHANGED') || [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-surface-900 border border-surface-800 rounded-2xl shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto animate-scale-in">
+        <div className="p-6 border-b border-surface-800">
+          <h2 className="text-xl font-semibold text-white">Импорт прайс-листа</h2>
+          <p className="text-sm text-surface-400">{file.name}</p>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {!result ? (
+            <div className="skeleton h-40" />
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {Object.entries(result.fields).map(([field, { label, required }]) => (
+                  <div key={field}>
+                    <label className="label">{label}{required && ' *'}</label>
+                    <select
+                      value={result.mapping[field] || ''}
+                      onChange={(e) => setMapping({ ...result.mapping, [field]: e.target.value })}
+                      className="select"
+                    >
+                      <option value="">— не используется —</option>
+                      {result.headers.map((header) => (
+                        <option key={header} value={header}>{header}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              {result.mappingErrors.length > 0 && (
+                <div className="p-4 rounded-xl bg-danger-500/10 border border-danger-500/20 space-y-1">
+                  {result.mappingErrors.map((err) => (
+                    <p key={err} className="text-sm text-danger-400">{err}</p>
+                  ))}
+                </div>
+              )}
+
+              {result.totals && (
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                  {[
+                    { label: 'Новые', value: result.totals.new },
+                    { label: 'Изменены', value: result.totals.changed },
+                    { label: 'Без изменений', value: result.totals.unchanged },
+                    { label: 'Нет в файле', value: result.totals.missing },
+                    { label: 'Ошибки', value: result.totals.errors },
+                  ].map((stat) => (
+                    <div key={stat.label} className="p-3 rounded-xl bg-surface-800/50">
+                      <p className="text-xs text-surface-500">{stat.label}</p>
+                      <p className="text-lg font-semibold text-white">{stat.value}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {result.errors && result.errors.length > 0 && (
+                <div className="p-4 rounded-xl bg-danger-500/10 border border-danger-500/20 space-y-1">
+                  {result.errors.map((err) => (
+                    <p key={err.row} className="text-sm text-danger-400">
+                      Строка {err.row}{err.name && ` (${err.name})`}: {err.errors.join('; ')}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {changedItems.length > 0 && (
+                <div className="table-container">
+                  <table className="table">
+                    <thead>
+                      <tr>
+                        <th>Строка</th>
+                        <th>Услуга</th>
+                        <th className="text-right">Было</th>
+                        <th className="text-right">Станет</th>
+                        <th>Изменение</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {changedItems.map((item) => (
+                        <tr key={item.row}>
+                          <td className="text-surface-500">{item.row}</td>
+                          <td className="text-surface-100">
+                            {item.name}
+                            {item.code && <span className="block text-xs text-surface-500">{item.code}</span>}
+                          </td>
+                          <td className="text-right font-mono">
+                            {item.oldPrice !== null ? item.oldPrice.toLocaleString('ru-RU') : '—'}
+                          </td>
+                          <td className="text-right font-mono">{item.price.toLocaleString('ru-RU')}</td>
+                          <td>
+                            <span className={statusBadge[item.status].className}>{statusBadge[item.status].label}</span>
+                            {item.reactivate && <span className="badge-success ml-2">Включится</span>}
+                            {item.changes.filter((c) => c.field !== 'price').map((c) => (
+                              <span key={c.field} className="block text-xs text-surface-400 mt-1">
+                                {result.fields[c.field]?.label || c.field}: {c.from ?? '—'} → {c.to}
+                              </span>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {result.missing && result.missing.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm text-surface-400">
+                    Нет в файле: {result.missing.map((m) => m.name).join(', ')}
+                  </p>
+                  <label className="flex items-center gap-2 text-sm text-surface-300">
+                    <input
+                      type="checkbox"
+                      checked={deactivateMissing}
+                      onChange={(e) => setDeactivateMissing(e.target.checked)}
+                    />
+                    Отключить услуги, которых нет в файле
+                  </label>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex gap-3 p-6 border-t border-surface-800">
+          <button type="button" onClick={onClose} className="btn-secondary flex-1">
+            Отмена
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={loading || !result?.totals || result.mappingErrors.length > 0}
+            className="btn-primary flex-1"
+          >
+            {loading ? 'Загрузка...' : 'Импортировать'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Bulk Price Change Modal Component
+function PriceChangeModal({
+  vendor,
+  onClose,
+  onApplied,
+}: {
+  vendor: Vendor;
+  onClose: () => void;
+  onApplied: () => void;
+}) {
+  const [mode, setMode] = useState<'manual' | 'percent'>('manual');
+  const [newPrices, setNewPrices] = useState<Record<string, string>>({});
+  const [percent, setPercent] = useState('');
+  const [uploadedChanges, setUploadedChanges] = useState<PriceChangePreview['changes'] | null>(null);
+  const [preview, setPreview] = useState<PriceChangePreview | null>(null);
+  const [repriceExpenses, setRepriceExpenses] = useState(true);
+  const [loading, setLoading] = useState(false);
+
+  // Предпросмотр устаревает при любом изменении цен
+  useEffect(() => {
+    if (!uploadedChanges) setPreview(null);
+  }, [mode, newPrices, percent]);
+
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat('ru-RU', { style: 'currency', currency: 'RUB' }).format(value);
+
+  const buildRequest = () => {
+    if (uploadedChanges) return { changes: uploadedChanges };
+    if (mode === 'percent') return { percent: parseFloat(percent) };
+    return {
+      changes: Object.entries(newPrices)
+        .filter(([, value]) => value !== '')
+        .map(([vendorServiceId, value]) => ({ vendorServiceId, newPrice: parseFloat(value) })),
+    };
+  };
+
+  const handlePreview = async () => {
+    setLoading(true);
+    try {
+      const response = await vendorsApi.previewPriceChanges(vendor.id, buildRequest());
+      setPreview(response.data.data);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || error.response?.data?.errors?.[0]?.msg || 'Ошибка расчета');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setLoading(true);
+    try {
+      const response = await vendorsApi.uploadPriceChanges(vendor.id, file);
+      setUploadedChanges(response.data.data.changes);
+      setPreview(response.data.data);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Ошибка загрузки файла');
+    } finally {
+      setLoading(false);
+    }
+    e.target.value = '';
+  };
+
+  const handleApply = async () => {
+    setLoading(true);
+    try {
+      const response = await vendorsApi.applyPriceChanges(vendor.id, { ...buildRequest(), repriceExpenses });
+      toast.success(response.data.message);
+      onApplied();
+    } catch (error: any) {
+      if (error.response?.data?.data) setPreview(error.response.data.data);
+      toast.error(error.response?.data?.error || 'Ошибка изменения цен');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-surface-900 border border-surface-800 rounded-2xl shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto animate-scale-in">
+        <div className="p-6 border-b border-surface-800">
+          <h2 className="text-xl font-semibold text-white">Изменение цен: {vendor.name}</h2>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {uploadedChanges ? (
+            <div className="flex items-center justify-between">
+              <p className="text-surface-300 text-sm">Загружено строк из файла: {uploadedChanges.length}</p>
+              <button
+                onClick={() => {
+                  setUploadedChanges(null);
+                  setPreview(null);
+                }}
+                className="btn-ghost"
+              >
+                Ввести вручную
+              </button>
+            </div>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={() => setMode('manual')}
+                  className={mode === 'manual' ? 'btn-primary' : 'btn-secondary'}
+                >
+                  Новые цены
+                </button>
+                <button
+                  onClick={() => setMode('percent')}
+                  className={mode === 'percent' ? 'btn-primary' : 'btn-secondary'}
+                >
+                  На процент
+                </button>
+                <label className="btn-secondary cursor-pointer">
+                  <ArrowUpTrayIcon className="w-4 h-4" />
+                  Из файла
+                  <input type="file" accept=".xlsx,.xls,.csv" onChange={handleUpload} className="hidden" />
+                </label>
+              </div>
+              <p className="text-xs text-surface-500">
+                Файл: колонки «ID» или «Название» и «Новая цена»
+              </p>
+
+              {mode === 'percent' ? (
+                <div className="max-w-xs">
+                  <label className="label">Изменение всех активных услуг, %</label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={percent}
+                    onChange={(e) => setPercent(e.target.value)}
+                    className="input"
+                    placeholder="10"
+                  />
+                </div>
+              ) : (
+                <div className="table-container">
+                  <table className="table">
+                    <thead>
+                      <tr>
+                        <th>Услуга</th>
+                        <th className="text-right">Текущая цена</th>
+                        <th className="w-40">Новая цена</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {vendor.services.filter((s) => s.isActive).map((service) => (
+                        <tr key={service.id}>
+                          <td className="text-surface-100">{service.name}</td>
+                          <td className="text-right font-mono">
+                            {Number(service.price).toLocaleString('ru-RU')} {service.currency}
+                          </td>
+                          <td>
+                            <input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              value={newPrices[service.id] || ''}
+                              onChange={(e) => setNewPrices({ ...newPrices, [service.id]: e.target.value })}
+                              className="input"
+                            />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+
+          {preview && (
+            <div className="space-y-4">
+              {preview.errors.length > 0 && (
+                <div className="p-4 rounded-xl bg-danger-500/10 border border-danger-500/20 space-y-1">
+                  {preview.errors.map((err, index) => (
+                    <p key={index} className="text-sm text-danger-400">
+                      {err.row ? `Строка ${err.row}: ` : ''}{err.error}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="p-3 rounded-xl bg-surface-800/50">
+                  <p className="text-xs text-surface-500">Услуг с новой ценой</p>
+                  <p className="text-lg font-semibold text-white">{preview.totals.services}</p>
+                </div>
+                <div className="p-3 rounded-xl bg-surface-800/50">
+                  <p className="text-xs text-surface-500">Открытых расходов / заказов</p>
+                  <p className="text-lg font-semibold text-white">
+                    {preview.totals.expenses} / {preview.totals.orders}
+                  </p>
+                </div>
+                <div className="p-3 rounded-xl bg-surface-800/50">
+                  <p className="text-xs text-surface-500">Шаблонов</p>
+                  <p className="text-lg font-semibold text-white">{preview.totals.templates}</p>
+                </div>
+                <div className="p-3 rounded-xl bg-surface-800/50">
+                  <p className="text-xs text-surface-500">Влияние на расходы</p>
+                  <p className={`text-lg font-semibold ${preview.totals.impact > 0 ? 'text-danger-400' : 'text-success-400'}`}>
+                    {formatCurrency(preview.totals.impact)}
+                  </p>
+                </div>
+              </div>
+
+              {preview.services.length > 0 && (
+                <div className="table-container">
+                  <table className="table">
+                    <thead>
+                      <tr>
+                        <th>Услуга</th>
+                        <th className="text-right">Было</th>
+                        <th className="text-right">Станет</th>
+                        <th className="text-right">Изменение</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.services.map((s) => (
+                        <tr key={s.vendorServiceId}>
+                          <td className="text-surface-100">{s.name}</td>
+                          <td className="text-right font-mono">{s.oldPrice.toLocaleString('ru-RU')} {s.currency}</td>
+                          <td className="text-right font-mono">{s.newPrice.toLocaleString('ru-RU')} {s.currency}</td>
+                          <td className={`text-right ${s.difference > 0 ? 'text-danger-400' : 'text-success-400'}`}>
+                            {s.differencePercent === null ? '—' : `${s.differencePercent > 0 ? '+' : ''}${s.differencePercent}%`}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {preview.expenses.length > 0 && (
+                <div className="table-container">
+                  <table className="table">
+                    <thead>
+                      <tr>
+                        <th>Заказ</th>
+                        <th>Расход</th>
+                        <th className="text-right">Сейчас</th>
+                        <th className="text-right">После</th>
+                        <th className="text-right">Разница</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.expenses.map((e) => (
+                        <tr key={e.expenseId}>
+                          <td>
+                            <Link to={`/orders/${e.order.id}`} className="text-brand-400 hover:text-brand-300">
+                              {e.order.orderNumber}
+                            </Link>
+                          </td>
+                          <td className="text-surface-300">{e.description} × {e.quantity}</td>
+                          <td className="text-right font-mono">{formatCurrency(e.totalAmount)}</td>
+                          <td className="text-right font-mono">{formatCurrency(e.newTotal)}</td>
+                          <td className={`text-right font-mono ${e.impact > 0 ? 'text-danger-400' : 'text-success-400'}`}>
+                            {formatCurrency(e.impact)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {preview.templates.length > 0 && (
+                <p className="text-sm text-surface-400">
+                  Шаблоны с новыми ценами:{' '}
+                  {[...new Set(preview.templates.map((t) => t.templateName))].join(', ')}
+                </p>
+              )}
+
+              {preview.expenses.length > 0 && (
+                <label className="flex items-center gap-2 text-sm text-surface-300">
+                  <input
+                    type="checkbox"
+                    checked={repriceExpenses}
+                    onChange={(e) => setRepriceExpenses(e.target.checked)}
+                  />
+                  Переоценить открытые расходы заказов (не фиксированные, цена не закреплена)
+                </label>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 p-6 border-t border-surface-800">
+          <button type="button" onClick={onClose} className="btn-secondary flex-1">
+            Отмена
+          </button>
+          {!uploadedChanges && (
+            <button onClick={handlePreview} disabled={loading} className="btn-secondary flex-1">
+              {loading ? 'Расчет...' : 'Рассчитать'}
+            </button>
+          )}
+          <button
+            onClick={handleApply}
+            disabled={loading || !preview || preview.errors.length > 0 || preview.services.length === 0}
+            className="btn-primary flex-1"
+          >
+            Применить
+          </button>
+        </div>
+      </div>
     </div>
   );
 }
@@ -324,12 +926,20 @@ function ServiceModal({
 }) {
   const [formData, setFormData] = useState({
     vendorId,
+    code: service?.code || '',
     name: service?.name || '',
     type: service?.type || 'OTHER',
     unit: service?.unit || 'PIECE',
     price: service?.price?.toString() || '',
     currency: service?.currency || 'RUB',
+    vatRate: service ? String(Number(service.vatRate)) : '20',
     isActive: service?.isActive ?? true,
+    pricingBasis: service?.pricingBasis || '',
+    minQuantity: service?.minQuantity?.toString() || '',
+    maxQuantity: service?.maxQuantity?.toString() || '',
+    destination: service?.destination || '',
+    productCategory: service?.productCategory || '',
+    autoApply: service?.autoApply ?? false,
   });
   const [loading, setLoading] = useState(false);
 
@@ -343,7 +953,17 @@ function ServiceModal({
 
     setLoading(true);
     try {
-      const data = { ...formData, price: parseFloat(formData.price) };
+      const data = {
+        ...formData,
+        code: formData.code || null,
+        price: parseFloat(formData.price),
+        vatRate: Number(formData.vatRate),
+        pricingBasis: formData.pricingBasis || null,
+        minQuantity: formData.minQuantity !== '' ? parseFloat(formData.minQuantity) : null,
+        maxQuantity: formData.maxQuantity !== '' ? parseFloat(formData.maxQuantity) : null,
+        destination: formData.destination || null,
+        productCategory: formData.productCategory || null,
+      };
       
       if (service) {
         await vendorServicesApi.update(service.id, data);
@@ -370,15 +990,27 @@ function ServiceModal({
         </div>
 
         <form onSubmit={handleSubmit} className="p-6 space-y-4">
-          <div>
-            <label className="label">Название *</label>
-            <input
-              type="text"
-              value={formData.name}
-              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-              className="input"
-              placeholder="Комплектация заказа"
-            />
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2">
+              <label className="label">Название *</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="input"
+                placeholder="Комплектация заказа"
+              />
+            </div>
+            <div>
+              <label className="label">Артикул</label>
+              <input
+                type="text"
+                value={formData.code}
+                onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                className="input"
+                placeholder="PCK-01"
+              />
+            </div>
           </div>
 
           <div className="grid grid-cols-2 gap-4">
@@ -408,7 +1040,7 @@ function ServiceModal({
             </div>
           </div>
 
-          <div className="grid grid-cols-2 gap-4">
+          <div className="grid grid-cols-3 gap-4">
             <div>
               <label className="label">Цена *</label>
               <input
@@ -430,10 +1062,84 @@ function ServiceModal({
                 <option value="RUB">RUB (₽)</option>
                 <option value="USD">USD ($)</option>
                 <option value="EUR">EUR (€)</option>
+                <option value="CNY">CNY (¥)</option>
+              </select>
+            </div>
+            <div>
+              <label className="label">НДС в цене</label>
+              <select
+                value={formData.vatRate}
+                onChange={(e) => setFormData({ ...formData, vatRate: e.target.value })}
+                className="select"
+              >
+                <option value="20">20%</option>
+                <option value="10">10%</option>
+                <option value="0">Без НДС</option>
               </select>
             </div>
           </div>
 
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="label">Диапазон по</label>
+              <select
+                value={formData.pricingBasis}
+                onChange={(e) => setFormData({ ...formData, pricingBasis: e.target.value })}
+                className="select"
+              >
+                <option value="">Кол-во единиц услуги</option>
+                {Object.entries(pricingBasisLabels).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="label">Больше</label>
+              <input
+                type="number"
+                step="0.001"
+                value={formData.minQuantity}
+                onChange={(e) => setFormData({ ...formData, minQuantity: e.target.value })}
+                className="input"
+                placeholder="—"
+              />
+            </div>
+            <div>
+              <label className="label">До (включ.)</label>
+              <input
+                type="number"
+                step="0.001"
+                value={formData.maxQuantity}
+                onChange={(e) => setFormData({ ...formData, maxQuantity: e.target.value })}
+                className="input"
+                placeholder="—"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="label">Склад назначения</label>
+              <input
+                type="text"
+                value={formData.destination}
+                onChange={(e) => setFormData({ ...formData, destination: e.target.value })}
+                className="input"
+                placeholder="Любой"
+              />
+            </div>
+            <div>
+              <label className="label">Категория товаров</label>
+              <input
+                type="text"
+                value={formData.productCategory}
+                onChange={(e) => setFormData({ ...formData, productCategory: e.target.value })}
+                className="input"
+                placeholder="Любая"
+              />
+            </div>
+          </div>
+
           <div className="flex items-center gap-3">
             <input
               type="checkbox"
@@ -445,6 +1151,19 @@ function ServiceModal({
             <label htmlFor="isActive" className="text-surface-300">Услуга активна</label>
           </div>
 
+          <div className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              id="autoApply"
+              checked={formData.autoApply}
+              onChange={(e) => setFormData({ ...formData, autoApply: e.target.checked })}
+              className="w-4 h-4 rounded border-surface-600 bg-surface-800 text-brand-500 focus:ring-brand-500"
+            />
+            <label htmlFor="autoApply" className="text-surface-300">
+              Применять к каждому заказу (доставка за заказ без диапазона и склада — только с этим флагом)
+            </label>
+          </div>
+
           <div className="flex gap-3 pt-4">
             <button type="button" onClick={onClose} className="btn-secondary flex-1">
               Отмена
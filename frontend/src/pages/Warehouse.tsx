@@ -7,6 +7,9 @@ import {
   MapPinIcon,
   ArrowPathIcon,
   ChevronRightIcon,
+  ArrowUturnLeftIcon,
+  TruckIcon,
+  ClipboardDocumentCheckIcon,
 } from '@heroicons/react/24/outline';
 import { api } from '../lib/api';
 
@@ -178,7 +181,7 @@ export default function Warehouse() {
       )}
 
       {/* Quick Links */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <Link
           to="/warehouse/products"
           className="bg-gradient-to-br from-violet-600/20 to-purple-600/20 border border-violet-500/30 rounded-xl p-5 hover:border-violet-400/50 transition-colors group"
@@ -208,6 +211,33 @@ export default function Warehouse() {
           <p className="text-sm text-gray-400 mt-1">История операций</p>
           <ChevronRightIcon className="w-5 h-5 text-emerald-400 mt-3 group-hover:translate-x-1 transition-transform" />
         </Link>
+        <Link
+          to="/warehouse/inbound"
+          className="bg-gradient-to-br from-sky-600/20 to-indigo-600/20 border border-sky-500/30 rounded-xl p-5 hover:border-sky-400/50 transition-colors group"
+        >
+          <TruckIcon className="w-10 h-10 text-sky-400 mb-3" />
+          <h3 className="text-lg font-semibold text-white">Поставки (ASN)</h3>
+          <p className="text-sm text-gray-400 mt-1">Уведомления клиентов и акты расхождений</p>
+          <ChevronRightIcon className="w-5 h-5 text-sky-400 mt-3 group-hover:translate-x-1 transition-transform" />
+        </Link>
+        <Link
+          to="/warehouse/inventory"
+          className="bg-gradient-to-br from-amber-600/20 to-orange-600/20 border border-amber-500/30 rounded-xl p-5 hover:border-amber-400/50 transition-colors group"
+        >
+          <ClipboardDocumentCheckIcon className="w-10 h-10 text-amber-400 mb-3" />
+          <h3 className="text-lg font-semibold text-white">Инвентаризация</h3>
+          <p className="text-sm text-gray-400 mt-1">Пересчет ячеек и проведение расхождений</p>
+          <ChevronRightIcon className="w-5 h-5 text-amber-400 mt-3 group-hover:translate-x-1 transition-transform" />
+        </Link>
+        <Link
+          to="/warehouse/returns"
+          className="bg-gradient-to-br from-rose-600/20 to-pink-600/20 border border-rose-500/30 rounded-xl p-5 hover:border-rose-400/50 transition-colors group"
+        >
+          <ArrowUturnLeftIcon className="w-10 h-10 text-rose-400 mb-3" />
+          <h3 className="text-lg font-semibold text-white">Возвраты</h3>
+          <p className="text-sm text-gray-400 mt-1">Приемка и обработка RMA</p>
+          <ChevronRightIcon className="w-5 h-5 text-rose-400 mt-3 group-hover:translate-x-1 transition-transform" />
+        </Link>
         <Link
           to="/warehouse/tasks"
           className="bg-gradient-to-br from-amber-600/20 to-orange-600/20 border border-amber-500/30 rounded-xl p-5 hover:border-amber-400/50 transition-colors group"
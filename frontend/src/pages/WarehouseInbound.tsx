@@ -0,0 +1,716 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  ArrowPathIcon,
+  ChevronRightIcon,
+  PlusIcon,
+  TrashIcon,
+  TruckIcon,
+  XMarkIcon,
+  DocumentArrowDownIcon,
+} from '@heroicons/react/24/outline';
+import { api, inboundShipmentsApi } from '../lib/api';
+
+interface InboundShipment {
+  id: string;
+  asnNumber: string;
+  externalNumber: string | null;
+  status: string;
+  expectedDate: string | null;
+  receivedAt: string | null;
+  createdAt: string;
+  client: { id: string; name: string };
+  warehouse: { id: string; name: string; code: string };
+  task: { id: string; taskNumber: string; status: string } | null;
+  _count?: { items: number };
+}
+
+interface ShipmentItem {
+  id: string;
+  productId: string | null;
+  sku: string;
+  name: string | null;
+  expectedQty: number;
+  receivedQty: number;
+  damagedQty: number;
+  batchNumber: string | null;
+  expiryDate: string | null;
+  notes: string | null;
+}
+
+interface DiscrepancyLine {
+  itemId: string;
+  sku: string;
+  name: string;
+  expectedQty: number;
+  receivedQty: number;
+  damagedQty: number;
+  difference: number;
+  types: string[];
+}
+
+interface ShipmentDetail extends InboundShipment {
+  items: ShipmentItem[];
+  report: {
+    discrepancies: DiscrepancyLine[];
+    summary: {
+      expectedQty: number;
+      receivedQty: number;
+      damagedQty: number;
+      shortQty: number;
+      overQty: number;
+      unknownSkus: number;
+      hasDiscrepancies: boolean;
+    };
+  } | null;
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+const statusLabels: Record<string, string> = {
+  EXPECTED: 'Ожидается',
+  RECEIVED: 'Принята',
+  CANCELLED: 'Отменена',
+};
+
+const statusColors: Record<string, string> = {
+  EXPECTED: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+  RECEIVED: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30',
+  CANCELLED: 'bg-red-500/20 text-red-400 border-red-500/30',
+};
+
+const discrepancyLabels: Record<string, string> = {
+  SHORT: 'Недостача',
+  OVER: 'Излишек',
+  DAMAGED: 'Повреждение',
+  UNKNOWN_SKU: 'Неизвестный SKU',
+};
+
+const emptyLine = { sku: '', name: '', quantity: '', batchNumber: '', expiryDate: '' };
+
+export default function WarehouseInbound() {
+  const [shipments, setShipments] = useState<InboundShipment[]>([]);
+  const [clients, setClients] = useState<Option[]>([]);
+  const [warehouses, setWarehouses] = useState<Option[]>([]);
+  const [locations, setLocations] = useState<Array<{ id: string; code: string }>>([]);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState('');
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [selected, setSelected] = useState<ShipmentDetail | null>(null);
+
+  const [formData, setFormData] = useState({
+    clientId: '',
+    warehouseId: '',
+    locationId: '',
+    externalNumber: '',
+    expectedDate: '',
+    notes: '',
+  });
+  const [lines, setLines] = useState([{ ...emptyLine }]);
+
+  const [receiveLocationId, setReceiveLocationId] = useState('');
+  const [received, setReceived] = useState<Record<string, { receivedQty: string; damagedQty: string }>>({});
+  const [extraItems, setExtraItems] = useState<Array<{ sku: string; quantity: string; damagedQty: string }>>([]);
+
+  useEffect(() => {
+    fetchData();
+  }, [status]);
+
+  const fetchData = async () => {
+    try {
+      const [shipmentsRes, clientsRes, warehousesRes] = await Promise.all([
+        inboundShipmentsApi.getAll(status ? { status } : undefined),
+        api.get('/clients'),
+        api.get('/warehouses', { params: { type: 'MAIN' } }),
+      ]);
+
+      setShipments(shipmentsRes.data.data);
+      setClients(clientsRes.data.data);
+      setWarehouses(warehousesRes.data.data);
+    } catch (error) {
+      console.error('Error fetching inbound shipments:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchLocations = async (warehouseId: string) => {
+    if (!warehouseId) {
+      setLocations([]);
+      return;
+    }
+    try {
+      const response = await api.get(`/warehouses/${warehouseId}/locations`);
+      setLocations(response.data.data.filter((loc: any) => loc.status !== 'BLOCKED'));
+    } catch (error) {
+      console.error('Error fetching locations:', error);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await inboundShipmentsApi.create({
+        ...formData,
+        locationId: formData.locationId || undefined,
+        expectedDate: formData.expectedDate || undefined,
+        items: lines
+          .filter((line) => line.sku && line.quantity)
+          .map((line) => ({
+            sku: line.sku,
+            name: line.name || undefined,
+            quantity: parseInt(line.quantity),
+            batchNumber: line.batchNumber || undefined,
+            expiryDate: line.expiryDate || undefined,
+          })),
+      });
+      setShowCreateModal(false);
+      setFormData({ clientId: '', warehouseId: '', locationId: '', externalNumber: '', expectedDate: '', notes: '' });
+      setLines([{ ...emptyLine }]);
+      fetchData();
+    } catch (error: any) {
+      alert(error.response?.data?.error || error.response?.data?.errors?.[0]?.msg || 'Ошибка создания поставки');
+    }
+  };
+
+  const handleSelect = async (id: string) => {
+    try {
+      const response = await inboundShipmentsApi.getOne(id);
+      const shipment: ShipmentDetail = response.data.data;
+      setSelected(shipment);
+      setExtraItems([]);
+      setReceiveLocationId('');
+      setReceived(
+        Object.fromEntries(
+          shipment.items.map((item) => [item.id, { receivedQty: String(item.expectedQty), damagedQty: '0' }])
+        )
+      );
+      fetchLocations(shipment.warehouse.id);
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Ошибка получения поставки');
+    }
+  };
+
+  const handleReceive = async () => {
+    if (!selected) return;
+    try {
+      const response = await inboundShipmentsApi.receive(selected.id, {
+        locationId: receiveLocationId || undefined,
+        items: selected.items.map((item) => ({
+          id: item.id,
+          receivedQty: parseInt(received[item.id]?.receivedQty || '0'),
+          damagedQty: parseInt(received[item.id]?.damagedQty || '0'),
+        })),
+        extraItems: extraItems
+          .filter((item) => item.sku)
+          .map((item) => ({
+            sku: item.sku,
+            quantity: parseInt(item.quantity || '0'),
+            damagedQty: parseInt(item.damagedQty || '0'),
+          })),
+      });
+      alert(response.data.message);
+      fetchData();
+      handleSelect(selected.id);
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Ошибка приемки поставки');
+    }
+  };
+
+  const handleCancel = async (id: string) => {
+    if (!confirm('Отменить поставку и задачу приемки?')) return;
+    try {
+      await inboundShipmentsApi.cancel(id);
+      setSelected(null);
+      fetchData();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Ошибка отмены поставки');
+    }
+  };
+
+  const handleExport = async (shipment: ShipmentDetail) => {
+    try {
+      const response = await inboundShipmentsApi.getDiscrepancies(shipment.id, 'xlsx');
+      const blob = new Blob([response.data], {
+        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      });
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `discrepancies-${shipment.asnNumber}.xlsx`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      alert('Ошибка выгрузки акта расхождений');
+    }
+  };
+
+  const updateLine = (index: number, key: keyof typeof emptyLine, value: string) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, [key]: value } : line)));
+  };
+
+  const formatDate = (date: string | null) => {
+    if (!date) return '—';
+    return new Date(date).toLocaleDateString('ru-RU');
+  };
+
+  const inputClass = 'w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white';
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <ArrowPathIcon className="w-8 h-8 animate-spin text-violet-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Link to="/warehouse" className="text-gray-400 hover:text-white">
+            Склады
+          </Link>
+          <ChevronRightIcon className="w-4 h-4 text-gray-500" />
+          <h1 className="text-2xl font-bold text-white">Поставки (ASN)</h1>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value)}
+            className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white"
+          >
+            <option value="">Все статусы</option>
+            {Object.entries(statusLabels).map(([key, label]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="flex items-center gap-2 bg-violet-600 hover:bg-violet-700 text-white px-4 py-2 rounded-lg transition-colors"
+          >
+            <PlusIcon className="w-5 h-5" />
+            Новая поставка
+          </button>
+        </div>
+      </div>
+
+      {/* Shipments List */}
+      <div className="bg-slate-800/50 rounded-xl border border-slate-700/50 overflow-hidden">
+        {shipments.length === 0 ? (
+          <div className="p-8 text-center text-gray-400">
+            <TruckIcon className="w-12 h-12 mx-auto mb-3 text-gray-500" />
+            Поставок нет
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-slate-900/50">
+              <tr className="text-left text-sm text-gray-400">
+                <th className="px-4 py-3">Номер</th>
+                <th className="px-4 py-3">Накладная</th>
+                <th className="px-4 py-3">Клиент</th>
+                <th className="px-4 py-3">Склад</th>
+                <th className="px-4 py-3">Задача</th>
+                <th className="px-4 py-3">Статус</th>
+                <th className="px-4 py-3">Ожидается</th>
+                <th className="px-4 py-3">Принята</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700/50">
+              {shipments.map((shipment) => (
+                <tr
+                  key={shipment.id}
+                  onClick={() => handleSelect(shipment.id)}
+                  className="text-sm text-gray-300 hover:bg-slate-700/30 cursor-pointer"
+                >
+                  <td className="px-4 py-3 font-mono text-white">{shipment.asnNumber}</td>
+                  <td className="px-4 py-3">{shipment.externalNumber || '—'}</td>
+                  <td className="px-4 py-3">{shipment.client.name}</td>
+                  <td className="px-4 py-3">{shipment.warehouse.name}</td>
+                  <td className="px-4 py-3 font-mono">{shipment.task?.taskNumber || '—'}</td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-1 rounded-full text-xs border ${statusColors[shipment.status]}`}>
+                      {statusLabels[shipment.status] || shipment.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">{formatDate(shipment.expectedDate)}</td>
+                  <td className="px-4 py-3">{formatDate(shipment.receivedAt)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Create Modal */}
+      {showCreateModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-slate-800 rounded-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+            <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-white">Новая поставка (ASN)</h2>
+              <button onClick={() => setShowCreateModal(false)} className="text-gray-400 hover:text-white">
+                <XMarkIcon className="w-6 h-6" />
+              </button>
+            </div>
+            <form onSubmit={handleCreate} className="p-4 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm text-gray-400 mb-1">Клиент *</label>
+                  <select
+                    value={formData.clientId}
+                    onChange={(e) => setFormData({ ...formData, clientId: e.target.value })}
+                    className={inputClass}
+                    required
+                  >
+                    <option value="">Выберите клиента</option>
+                    {clients.map((c) => (
+                      <option key={c.id} value={c.id}>{c.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-400 mb-1">Склад *</label>
+                  <select
+                    value={formData.warehouseId}
+                    onChange={(e) => {
+                      setFormData({ ...formData, warehouseId: e.target.value, locationId: '' });
+                      fetchLocations(e.target.value);
+                    }}
+                    className={inputClass}
+                    required
+                  >
+                    <option value="">Выберите склад</option>
+                    {warehouses.map((w) => (
+                      <option key={w.id} value={w.id}>{w.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-400 mb-1">Ячейка приемки</label>
+                  <select
+                    value={formData.locationId}
+                    onChange={(e) => setFormData({ ...formData, locationId: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">Указать при приемке</option>
+                    {locations.map((loc) => (
+                      <option key={loc.id} value={loc.id}>{loc.code}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-400 mb-1">Накладная клиента</label>
+                  <input
+                    type="text"
+                    value={formData.externalNumber}
+                    onChange={(e) => setFormData({ ...formData, externalNumber: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-400 mb-1">Ожидаемая дата</label>
+                  <input
+                    type="date"
+                    value={formData.expectedDate}
+                    onChange={(e) => setFormData({ ...formData, expectedDate: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-400 mb-1">Примечание</label>
+                  <input
+                    type="text"
+                    value={formData.notes}
+                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="grid grid-cols-12 gap-2 text-xs text-gray-400">
+                  <span className="col-span-3">SKU *</span>
+                  <span className="col-span-3">Наименование</span>
+                  <span className="col-span-2">Кол-во *</span>
+                  <span className="col-span-2">Партия</span>
+                  <span className="col-span-2">Срок годности</span>
+                </div>
+                {lines.map((line, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <input
+                      value={line.sku}
+                      onChange={(e) => updateLine(index, 'sku', e.target.value)}
+                      className={`${inputClass} col-span-3 font-mono`}
+                    />
+                    <input
+                      value={line.name}
+                      onChange={(e) => updateLine(index, 'name', e.target.value)}
+                      className={`${inputClass} col-span-3`}
+                    />
+                    <input
+                      type="number"
+                      min="1"
+                      value={line.quantity}
+                      onChange={(e) => updateLine(index, 'quantity', e.target.value)}
+                      className={`${inputClass} col-span-2`}
+                    />
+                    <input
+                      value={line.batchNumber}
+                      onChange={(e) => updateLine(index, 'batchNumber', e.target.value)}
+                      className={`${inputClass} col-span-2`}
+                    />
+                    <div className="col-span-2 flex gap-1">
+                      <input
+                        type="date"
+                        value={line.expiryDate}
+                        onChange={(e) => updateLine(index, 'expiryDate', e.target.value)}
+                        className={inputClass}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                        disabled={lines.length === 1}
+                        className="p-2 text-gray-400 hover:text-red-400 disabled:opacity-30"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setLines([...lines, { ...emptyLine }])}
+                  className="flex items-center gap-1 text-sm text-violet-400 hover:text-violet-300"
+                >
+                  <PlusIcon className="w-4 h-4" />
+                  Добавить позицию
+                </button>
+              </div>
+
+              <div className="flex justify-end gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setShowCreateModal(false)}
+                  className="px-4 py-2 text-gray-400 hover:text-white"
+                >
+                  Отмена
+                </button>
+                <button
+                  type="submit"
+                  className="bg-violet-600 hover:bg-violet-700 text-white px-4 py-2 rounded-lg"
+                >
+                  Создать поставку
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Shipment Details */}
+      {selected && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-slate-800 rounded-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+            <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-white">Поставка {selected.asnNumber}</h2>
+                <p className="text-sm text-gray-400">
+                  {selected.client.name} • {selected.warehouse.name}
+                  {selected.externalNumber && ` • накладная ${selected.externalNumber}`}
+                </p>
+              </div>
+              <button onClick={() => setSelected(null)} className="text-gray-400 hover:text-white">
+                <XMarkIcon className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="p-4 space-y-4">
+              {selected.status === 'EXPECTED' && (
+                <div className="w-64">
+                  <label className="block text-sm text-gray-400 mb-1">Ячейка размещения</label>
+                  <select
+                    value={receiveLocationId}
+                    onChange={(e) => setReceiveLocationId(e.target.value)}
+                    className={inputClass}
+                  >
+                    <option value="">Из уведомления</option>
+                    {locations.map((loc) => (
+                      <option key={loc.id} value={loc.id}>{loc.code}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <table className="w-full">
+                <thead>
+                  <tr className="text-left text-sm text-gray-400">
+                    <th className="py-2">SKU</th>
+                    <th className="py-2">Наименование</th>
+                    <th className="py-2">Партия</th>
+                    <th className="py-2 text-right">Отгрузили</th>
+                    <th className="py-2 text-right">Приняли</th>
+                    <th className="py-2 text-right">Повреждено</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700/50">
+                  {selected.items.map((item) => (
+                    <tr key={item.id} className="text-sm text-gray-300">
+                      <td className="py-2 font-mono">
+                        {item.sku}
+                        {!item.productId && <span className="ml-2 text-xs text-amber-400">нет в каталоге</span>}
+                      </td>
+                      <td className="py-2">{item.name || '—'}</td>
+                      <td className="py-2">
+                        {item.batchNumber || '—'}
+                        {item.expiryDate && <span className="text-xs text-gray-500"> до {formatDate(item.expiryDate)}</span>}
+                      </td>
+                      <td className="py-2 text-right">{item.expectedQty}</td>
+                      {selected.status === 'EXPECTED' ? (
+                        <>
+                          <td className="py-2 text-right">
+                            <input
+                              type="number"
+                              min="0"
+                              value={received[item.id]?.receivedQty || ''}
+                              onChange={(e) => setReceived({
+                                ...received,
+                                [item.id]: { ...received[item.id], receivedQty: e.target.value },
+                              })}
+                              className="w-20 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-white text-right"
+                            />
+                          </td>
+                          <td className="py-2 text-right">
+                            <input
+                              type="number"
+                              min="0"
+                              value={received[item.id]?.damagedQty || ''}
+                              onChange={(e) => setReceived({
+                                ...received,
+                                [item.id]: { ...received[item.id], damagedQty: e.target.value },
+                              })}
+                              className="w-20 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-white text-right"
+                            />
+                          </td>
+                        </>
+                      ) : (
+                        <>
+                          <td className="py-2 text-right">{item.receivedQty}</td>
+                          <td className="py-2 text-right">{item.damagedQty}</td>
+                        </>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {selected.status === 'EXPECTED' && (
+                <div className="space-y-2">
+                  <p className="text-sm text-gray-400">Товар сверх уведомления</p>
+                  {extraItems.map((item, index) => (
+                    <div key={index} className="flex gap-2">
+                      <input
+                        placeholder="SKU"
+                        value={item.sku}
+                        onChange={(e) => setExtraItems(extraItems.map((x, i) => (i === index ? { ...x, sku: e.target.value } : x)))}
+                        className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-white font-mono"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        placeholder="Принято"
+                        value={item.quantity}
+                        onChange={(e) => setExtraItems(extraItems.map((x, i) => (i === index ? { ...x, quantity: e.target.value } : x)))}
+                        className="w-24 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-white"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        placeholder="Брак"
+                        value={item.damagedQty}
+                        onChange={(e) => setExtraItems(extraItems.map((x, i) => (i === index ? { ...x, damagedQty: e.target.value } : x)))}
+                        className="w-24 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-white"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setExtraItems(extraItems.filter((_, i) => i !== index))}
+                        className="p-1 text-gray-400 hover:text-red-400"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => setExtraItems([...extraItems, { sku: '', quantity: '', damagedQty: '' }])}
+                    className="flex items-center gap-1 text-sm text-violet-400 hover:text-violet-300"
+                  >
+                    <PlusIcon className="w-4 h-4" />
+                    Добавить товар
+                  </button>
+                </div>
+              )}
+
+              {selected.report && (
+                <div className="rounded-lg border border-slate-700 p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-semibold text-white">Акт расхождений</h3>
+                    <button
+                      onClick={() => handleExport(selected)}
+                      className="flex items-center gap-1 text-sm text-violet-400 hover:text-violet-300"
+                    >
+                      <DocumentArrowDownIcon className="w-4 h-4" />
+                      Excel
+                    </button>
+                  </div>
+                  <p className="text-sm text-gray-400">
+                    Отгрузили {selected.report.summary.expectedQty} • приняли {selected.report.summary.receivedQty} •
+                    повреждено {selected.report.summary.damagedQty} • недостача {selected.report.summary.shortQty} •
+                    излишек {selected.report.summary.overQty}
+                  </p>
+                  {selected.report.discrepancies.length === 0 ? (
+                    <p className="text-sm text-emerald-400">Расхождений нет</p>
+                  ) : (
+                    <ul className="text-sm text-gray-300 space-y-1">
+                      {selected.report.discrepancies.map((line) => (
+                        <li key={line.itemId}>
+                          <span className="font-mono">{line.sku}</span> {line.name} —{' '}
+                          <span className="text-amber-400">{line.types.map((t) => discrepancyLabels[t]).join(', ')}</span>
+                          {line.difference !== 0 && ` (${line.difference > 0 ? '+' : ''}${line.difference})`}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="p-4 border-t border-slate-700 flex justify-end gap-3">
+              {selected.status === 'EXPECTED' && (
+                <>
+                  <button
+                    onClick={() => handleCancel(selected.id)}
+                    className="px-4 py-2 text-red-400 hover:bg-red-500/10 rounded-lg"
+                  >
+                    Отменить поставку
+                  </button>
+                  <button
+                    onClick={handleReceive}
+                    className="bg-violet-600 hover:bg-violet-700 text-white px-4 py-2 rounded-lg transition-colors"
+                  >
+                    Принять поставку
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
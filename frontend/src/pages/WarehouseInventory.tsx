@@ -0,0 +1,655 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  ArrowPathIcon,
+  ChevronRightIcon,
+  ClipboardDocumentCheckIcon,
+  PlusIcon,
+  TrashIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import { api, inventoryCountsApi } from '../lib/api';
+import { useIsManager } from '../store/authStore';
+
+interface InventoryCount {
+  id: string;
+  countNumber: string;
+  type: string;
+  status: string;
+  recountThresholdPct: string;
+  surplusAmount: string;
+  shortageAmount: string;
+  submittedAt: string | null;
+  postedAt: string | null;
+  createdAt: string;
+  warehouse: { id: string; name: string; code: string };
+  task: { id: string; taskNumber: string; status: string } | null;
+  _count?: { lines: number };
+}
+
+interface CountLine {
+  id: string;
+  batchNumber: string | null;
+  expectedQty: number | null;
+  countedQty: number | null;
+  recountQty: number | null;
+  recountRequired: boolean;
+  finalQty: number | null;
+  variance: number | null;
+  varianceAmount: string | null;
+  location: { id: string; code: string };
+  product: { id: string; sku: string; name: string };
+}
+
+interface CountDetail extends InventoryCount {
+  lines: CountLine[];
+  frozenLocations: Array<{ id: string; code: string }>;
+}
+
+interface Location {
+  id: string;
+  code: string;
+  status: string;
+}
+
+const typeLabels: Record<string, string> = {
+  FULL: 'Полная',
+  CYCLE: 'Выборочная',
+};
+
+const statusLabels: Record<string, string> = {
+  COUNTING: 'Пересчет',
+  RECOUNT: 'Повторный пересчет',
+  REVIEW: 'На утверждении',
+  POSTED: 'Проведена',
+  CANCELLED: 'Отменена',
+};
+
+const statusColors: Record<string, string> = {
+  COUNTING: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+  RECOUNT: 'bg-amber-500/20 text-amber-400 border-amber-500/30',
+  REVIEW: 'bg-violet-500/20 text-violet-400 border-violet-500/30',
+  POSTED: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30',
+  CANCELLED: 'bg-red-500/20 text-red-400 border-red-500/30',
+};
+
+const emptyFound = { locationId: '', sku: '', quantity: '' };
+
+export default function WarehouseInventory() {
+  const isManager = useIsManager();
+  const [counts, setCounts] = useState<InventoryCount[]>([]);
+  const [warehouses, setWarehouses] = useState<Array<{ id: string; name: string }>>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState('');
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [selected, setSelected] = useState<CountDetail | null>(null);
+
+  const [formData, setFormData] = useState({
+    warehouseId: '',
+    type: 'CYCLE' as 'FULL' | 'CYCLE',
+    recountThresholdPct: '5',
+    notes: '',
+  });
+  const [locationIds, setLocationIds] = useState<string[]>([]);
+
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [found, setFound] = useState<Array<typeof emptyFound>>([]);
+  const [recountIds, setRecountIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    fetchData();
+  }, [status]);
+
+  const fetchData = async () => {
+    try {
+      const [countsRes, warehousesRes] = await Promise.all([
+        inventoryCountsApi.getAll(status ? { status } : undefined),
+        api.get('/warehouses'),
+      ]);
+
+      setCounts(countsRes.data.data);
+      setWarehouses(warehousesRes.data.data);
+    } catch (error) {
+      console.error('Error fetching inventory counts:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchLocations = async (warehouseId: string) => {
+    setLocationIds([]);
+    if (!warehouseId) {
+      setLocations([]);
+      return;
+    }
+    try {
+      const response = await api.get(`/warehouses/${warehouseId}/locations`);
+      setLocations(response.data.data.filter((loc: any) => !loc.frozenByCountId));
+    } catch (error) {
+      console.error('Error fetching locations:', error);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await inventoryCountsApi.create({
+        warehouseId: formData.warehouseId,
+        type: formData.type,
+        locationIds: formData.type === 'CYCLE' ? locationIds : undefined,
+        recountThresholdPct: parseFloat(formData.recountThresholdPct) || 0,
+        notes: formData.notes || undefined,
+      });
+      setShowCreateModal(false);
+      setFormData({ warehouseId: '', type: 'CYCLE', recountThresholdPct: '5', notes: '' });
+      setLocationIds([]);
+      fetchData();
+    } catch (error: any) {
+      alert(error.response?.data?.error || error.response?.data?.errors?.[0]?.msg || 'Ошибка создания инвентаризации');
+    }
+  };
+
+  const handleSelect = async (id: string) => {
+    try {
+      const response = await inventoryCountsApi.getOne(id);
+      const count: CountDetail = response.data.data;
+      setSelected(count);
+      setFound([]);
+      setRecountIds([]);
+      setQuantities(
+        Object.fromEntries(
+          count.lines.map((line) => {
+            const qty = count.status === 'RECOUNT' ? line.recountQty : line.countedQty;
+            return [line.id, qty === null ? '' : String(qty)];
+          })
+        )
+      );
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Ошибка получения инвентаризации');
+    }
+  };
+
+  // Lines the counter works on in the current round
+  const countableLines = (count: CountDetail) =>
+    count.status === 'RECOUNT' ? count.lines.filter((line) => line.recountRequired) : count.lines;
+
+  const handleSaveCounts = async () => {
+    if (!selected) return;
+    try {
+      await inventoryCountsApi.recordCounts(selected.id, {
+        counts: countableLines(selected)
+          .filter((line) => quantities[line.id] !== '' && quantities[line.id] !== undefined)
+          .map((line) => ({ lineId: line.id, quantity: parseInt(quantities[line.id]) })),
+        found: found
+          .filter((item) => item.locationId && item.sku && item.quantity)
+          .map((item) => ({ locationId: item.locationId, sku: item.sku, quantity: parseInt(item.quantity) })),
+      });
+      handleSelect(selected.id);
+    } catch (error: any) {
+      alert(error.response?.data?.error || error.response?.data?.errors?.[0]?.msg || 'Ошибка записи пересчета');
+    }
+  };
+
+  const runAction = async (action: () => Promise<any>, errorMessage: string) => {
+    if (!selected) return;
+    try {
+      const response = await action();
+      if (response.data.message) alert(response.data.message);
+      fetchData();
+      handleSelect(selected.id);
+    } catch (error: any) {
+      alert(error.response?.data?.error || error.response?.data?.errors?.[0]?.msg || errorMessage);
+    }
+  };
+
+  const handleCancel = async (id: string) => {
+    if (!confirm('Отменить инвентаризацию? Ячейки будут разморожены без изменения остатков.')) return;
+    try {
+      await inventoryCountsApi.cancel(id);
+      setSelected(null);
+      fetchData();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Ошибка отмены инвентаризации');
+    }
+  };
+
+  const toggle = (list: string[], id: string) =>
+    list.includes(id) ? list.filter((item) => item !== id) : [...list, id];
+
+  const formatDate = (date: string | null) => {
+    if (!date) return '—';
+    return new Date(date).toLocaleDateString('ru-RU');
+  };
+
+  const formatMoney = (value: string | number | null) =>
+    Number(value || 0).toLocaleString('ru-RU', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  const inputClass = 'w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white';
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <ArrowPathIcon className="w-8 h-8 animate-spin text-violet-500" />
+      </div>
+    );
+  }
+
+  const isCounting = selected && ['COUNTING', 'RECOUNT'].includes(selected.status);
+  const showBook = selected && isManager;
+  const isSettled = selected && ['REVIEW', 'POSTED'].includes(selected.status);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Link to="/warehouse" className="text-gray-400 hover:text-white">
+            Склады
+          </Link>
+          <ChevronRightIcon className="w-4 h-4 text-gray-500" />
+          <h1 className="text-2xl font-bold text-white">Инвентаризация</h1>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value)}
+            className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white"
+          >
+            <option value="">Все статусы</option>
+            {Object.entries(statusLabels).map(([key, label]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
+          {isManager && (
+            <button
+              onClick={() => setShowCreateModal(true)}
+              className="flex items-center gap-2 bg-violet-600 hover:bg-violet-700 text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              <PlusIcon className="w-5 h-5" />
+              Новая инвентаризация
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Counts List */}
+      <div className="bg-slate-800/50 rounded-xl border border-slate-700/50 overflow-hidden">
+        {counts.length === 0 ? (
+          <div className="p-8 text-center text-gray-400">
+            <ClipboardDocumentCheckIcon className="w-12 h-12 mx-auto mb-3 text-gray-500" />
+            Инвентаризаций нет
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-slate-900/50">
+              <tr className="text-left text-sm text-gray-400">
+                <th className="px-4 py-3">Номер</th>
+                <th className="px-4 py-3">Тип</th>
+                <th className="px-4 py-3">Склад</th>
+                <th className="px-4 py-3">Задача</th>
+                <th className="px-4 py-3">Строк</th>
+                <th className="px-4 py-3">Статус</th>
+                <th className="px-4 py-3">Создана</th>
+                <th className="px-4 py-3">Проведена</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700/50">
+              {counts.map((count) => (
+                <tr
+                  key={count.id}
+                  onClick={() => handleSelect(count.id)}
+                  className="text-sm text-gray-300 hover:bg-slate-700/30 cursor-pointer"
+                >
+                  <td className="px-4 py-3 font-mono text-white">{count.countNumber}</td>
+                  <td className="px-4 py-3">{typeLabels[count.type] || count.type}</td>
+                  <td className="px-4 py-3">{count.warehouse.name}</td>
+                  <td className="px-4 py-3 font-mono">{count.task?.taskNumber || '—'}</td>
+                  <td className="px-4 py-3">{count._count?.lines ?? 0}</td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-1 rounded-full text-xs border ${statusColors[count.status]}`}>
+                      {statusLabels[count.status] || count.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">{formatDate(count.createdAt)}</td>
+                  <td className="px-4 py-3">{formatDate(count.postedAt)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Create Modal */}
+      {showCreateModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-slate-800 rounded-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-white">Новая инвентаризация</h2>
+              <button onClick={() => setShowCreateModal(false)} className="text-gray-400 hover:text-white">
+                <XMarkIcon className="w-6 h-6" />
+              </button>
+            </div>
+            <form onSubmit={handleCreate} className="p-4 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm text-gray-400 mb-1">Склад *</label>
+                  <select
+                    value={formData.warehouseId}
+                    onChange={(e) => {
+                      setFormData({ ...formData, warehouseId: e.target.value });
+                      fetchLocations(e.target.value);
+                    }}
+                    className={inputClass}
+                    required
+                  >
+                    <option value="">Выберите склад</option>
+                    {warehouses.map((w) => (
+                      <option key={w.id} value={w.id}>{w.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-400 mb-1">Тип</label>
+                  <select
+                    value={formData.type}
+                    onChange={(e) => setFormData({ ...formData, type: e.target.value as 'FULL' | 'CYCLE' })}
+                    className={inputClass}
+                  >
+                    <option value="CYCLE">Выборочная (ячейки)</option>
+                    <option value="FULL">Полная (весь склад)</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-400 mb-1">Порог пересчета, %</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={formData.recountThresholdPct}
+                    onChange={(e) => setFormData({ ...formData, recountThresholdPct: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              {formData.type === 'CYCLE' && (
+                <div>
+                  <label className="block text-sm text-gray-400 mb-1">
+                    Ячейки * <span className="text-gray-500">(выбрано {locationIds.length})</span>
+                  </label>
+                  {locations.length === 0 ? (
+                    <p className="text-sm text-gray-500">Выберите склад со свободными от инвентаризации ячейками</p>
+                  ) : (
+                    <div className="grid grid-cols-3 md:grid-cols-6 gap-2 max-h-48 overflow-y-auto">
+                      {locations.map((loc) => (
+                        <button
+                          key={loc.id}
+                          type="button"
+                          onClick={() => setLocationIds(toggle(locationIds, loc.id))}
+                          className={`px-2 py-1 rounded-lg border font-mono text-sm ${
+                            locationIds.includes(loc.id)
+                              ? 'bg-violet-600/30 border-violet-500 text-white'
+                              : 'bg-slate-900 border-slate-700 text-gray-400'
+                          }`}
+                        >
+                          {loc.code}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm text-gray-400 mb-1">Примечание</label>
+                <input
+                  type="text"
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+
+              <p className="text-xs text-gray-500">
+                Ячейки будут заморожены до проведения: отбор, размещение и корректировки по ним недоступны.
+              </p>
+
+              <div className="flex justify-end gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setShowCreateModal(false)}
+                  className="px-4 py-2 text-gray-400 hover:text-white"
+                >
+                  Отмена
+                </button>
+                <button
+                  type="submit"
+                  className="bg-violet-600 hover:bg-violet-700 text-white px-4 py-2 rounded-lg"
+                >
+                  Начать инвентаризацию
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Count Details */}
+      {selected && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-slate-800 rounded-xl w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+            <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-white">
+                  {selected.countNumber}{' '}
+                  <span className={`ml-2 px-2 py-1 rounded-full text-xs border ${statusColors[selected.status]}`}>
+                    {statusLabels[selected.status] || selected.status}
+                  </span>
+                </h2>
+                <p className="text-sm text-gray-400">
+                  {typeLabels[selected.type]} · {selected.warehouse.name} · порог пересчета {Number(selected.recountThresholdPct)}%
+                  {selected.frozenLocations.length > 0 && ` · заморожено ячеек: ${selected.frozenLocations.length}`}
+                </p>
+              </div>
+              <button onClick={() => setSelected(null)} className="text-gray-400 hover:text-white">
+                <XMarkIcon className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="p-4 space-y-4">
+              {selected.status === 'POSTED' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="bg-slate-900/50 rounded-lg p-3">
+                    <p className="text-xs text-gray-400">Излишки</p>
+                    <p className="text-lg font-semibold text-emerald-400">{formatMoney(selected.surplusAmount)} ₽</p>
+                  </div>
+                  <div className="bg-slate-900/50 rounded-lg p-3">
+                    <p className="text-xs text-gray-400">Недостача</p>
+                    <p className="text-lg font-semibold text-red-400">{formatMoney(selected.shortageAmount)} ₽</p>
+                  </div>
+                </div>
+              )}
+
+              <table className="w-full">
+                <thead className="bg-slate-900/50">
+                  <tr className="text-left text-sm text-gray-400">
+                    {selected.status === 'REVIEW' && isManager && <th className="px-3 py-2"></th>}
+                    <th className="px-3 py-2">Ячейка</th>
+                    <th className="px-3 py-2">Товар</th>
+                    <th className="px-3 py-2">Партия</th>
+                    {showBook && <th className="px-3 py-2">Учет</th>}
+                    <th className="px-3 py-2">Пересчет</th>
+                    <th className="px-3 py-2">Повторный</th>
+                    {showBook && <th className="px-3 py-2">Расхождение</th>}
+                    {showBook && <th className="px-3 py-2">Сумма</th>}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700/50">
+                  {selected.lines.map((line) => {
+                    const editable = isCounting && (selected.status === 'COUNTING' || line.recountRequired);
+                    // Variance is stored once counting is finished; until then it is a preview
+                    const counted = line.recountQty ?? line.countedQty;
+                    const variance = isSettled
+                      ? line.variance
+                      : line.expectedQty !== null && counted !== null ? counted - line.expectedQty : null;
+                    return (
+                      <tr key={line.id} className={`text-sm text-gray-300 ${line.recountRequired ? 'bg-amber-500/5' : ''}`}>
+                        {selected.status === 'REVIEW' && isManager && (
+                          <td className="px-3 py-2">
+                            <input
+                              type="checkbox"
+                              checked={recountIds.includes(line.id)}
+                              onChange={() => setRecountIds(toggle(recountIds, line.id))}
+                            />
+                          </td>
+                        )}
+                        <td className="px-3 py-2 font-mono">{line.location.code}</td>
+                        <td className="px-3 py-2">
+                          <span className="font-mono text-white">{line.product.sku}</span>{' '}
+                          <span className="text-gray-400">{line.product.name}</span>
+                        </td>
+                        <td className="px-3 py-2">{line.batchNumber || '—'}</td>
+                        {showBook && <td className="px-3 py-2">{line.expectedQty ?? '—'}</td>}
+                        <td className="px-3 py-2">
+                          {editable && selected.status === 'COUNTING' ? (
+                            <input
+                              type="number"
+                              min="0"
+                              value={quantities[line.id] ?? ''}
+                              onChange={(e) => setQuantities({ ...quantities, [line.id]: e.target.value })}
+                              className={`${inputClass} w-24`}
+                            />
+                          ) : (
+                            line.countedQty ?? '—'
+                          )}
+                        </td>
+                        <td className="px-3 py-2">
+                          {editable && selected.status === 'RECOUNT' ? (
+                            <input
+                              type="number"
+                              min="0"
+                              value={quantities[line.id] ?? ''}
+                              onChange={(e) => setQuantities({ ...quantities, [line.id]: e.target.value })}
+                              className={`${inputClass} w-24`}
+                            />
+                          ) : (
+                            line.recountQty ?? (line.recountRequired ? 'требуется' : '—')
+                          )}
+                        </td>
+                        {showBook && (
+                          <td className={`px-3 py-2 ${variance && variance > 0 ? 'text-emerald-400' : variance && variance < 0 ? 'text-red-400' : ''}`}>
+                            {variance === null ? '—' : variance > 0 ? `+${variance}` : variance}
+                          </td>
+                        )}
+                        {showBook && (
+                          <td className="px-3 py-2">{isSettled ? formatMoney(line.varianceAmount) : '—'}</td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              {selected.status === 'COUNTING' && (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-semibold text-white">Найдено сверх учета</h3>
+                  {found.map((item, index) => (
+                    <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                      <select
+                        value={item.locationId}
+                        onChange={(e) => setFound(found.map((f, i) => (i === index ? { ...f, locationId: e.target.value } : f)))}
+                        className={`${inputClass} col-span-3`}
+                      >
+                        <option value="">Ячейка</option>
+                        {selected.frozenLocations.map((loc) => (
+                          <option key={loc.id} value={loc.id}>{loc.code}</option>
+                        ))}
+                      </select>
+                      <input
+                        placeholder="SKU или штрихкод"
+                        value={item.sku}
+                        onChange={(e) => setFound(found.map((f, i) => (i === index ? { ...f, sku: e.target.value } : f)))}
+                        className={`${inputClass} col-span-5 font-mono`}
+                      />
+                      <input
+                        type="number"
+                        min="1"
+                        placeholder="Кол-во"
+                        value={item.quantity}
+                        onChange={(e) => setFound(found.map((f, i) => (i === index ? { ...f, quantity: e.target.value } : f)))}
+                        className={`${inputClass} col-span-3`}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setFound(found.filter((_, i) => i !== index))}
+                        className="p-2 text-gray-400 hover:text-red-400"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => setFound([...found, { ...emptyFound }])}
+                    className="flex items-center gap-1 text-sm text-violet-400 hover:text-violet-300"
+                  >
+                    <PlusIcon className="w-4 h-4" />
+                    Добавить найденный товар
+                  </button>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-3 pt-2 border-t border-slate-700">
+                {isManager && ['COUNTING', 'RECOUNT', 'REVIEW'].includes(selected.status) && (
+                  <button
+                    onClick={() => handleCancel(selected.id)}
+                    className="px-4 py-2 text-red-400 hover:text-red-300"
+                  >
+                    Отменить
+                  </button>
+                )}
+                {isCounting && (
+                  <>
+                    <button
+                      onClick={handleSaveCounts}
+                      className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-lg"
+                    >
+                      Сохранить пересчет
+                    </button>
+                    <button
+                      onClick={() => runAction(() => inventoryCountsApi.submit(selected.id), 'Ошибка завершения пересчета')}
+                      className="bg-violet-600 hover:bg-violet-700 text-white px-4 py-2 rounded-lg"
+                    >
+                      Завершить пересчет
+                    </button>
+                  </>
+                )}
+                {selected.status === 'REVIEW' && isManager && (
+                  <>
+                    <button
+                      onClick={() => runAction(() => inventoryCountsApi.requestRecount(selected.id, recountIds), 'Ошибка назначения пересчета')}
+                      disabled={recountIds.length === 0}
+                      className="bg-amber-600 hover:bg-amber-700 disabled:opacity-40 text-white px-4 py-2 rounded-lg"
+                    >
+                      Пересчитать выбранные
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (!confirm('Провести расхождения? Остатки будут скорректированы, суммы отражены в учете.')) return;
+                        runAction(() => inventoryCountsApi.approve(selected.id), 'Ошибка проведения инвентаризации');
+                      }}
+                      className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg"
+                    >
+                      Утвердить и провести
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
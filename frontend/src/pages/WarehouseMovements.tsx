@@ -69,12 +69,14 @@ const typeColors: Record<string, string> = {
 export default function WarehouseMovements() {
   const [movements, setMovements] = useState<StockMovement[]>([]);
   const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [clients, setClients] = useState<Array<{ id: string; name: string }>>([]);
   const [loading, setLoading] = useState(true);
   const [showTransferModal, setShowTransferModal] = useState(false);
   
   const [filters, setFilters] = useState({
     movementType: '',
     warehouseId: '',
+    clientId: '',
     fromDate: '',
     toDate: '',
   });
@@ -102,16 +104,19 @@ export default function WarehouseMovements() {
       const params: any = { limit: 100 };
       if (filters.movementType) params.movementType = filters.movementType;
       if (filters.warehouseId) params.warehouseId = filters.warehouseId;
+      if (filters.clientId) params.clientId = filters.clientId;
       if (filters.fromDate) params.fromDate = filters.fromDate;
       if (filters.toDate) params.toDate = filters.toDate;
 
-      const [movementsRes, warehousesRes] = await Promise.all([
+      const [movementsRes, warehousesRes, clientsRes] = await Promise.all([
         api.get('/stock-movements', { params }),
         api.get('/warehouses'),
+        api.get('/clients'),
       ]);
 
       setMovements(movementsRes.data.data);
       setWarehouses(warehousesRes.data.data);
+      setClients(clientsRes.data.data);
     } catch (error) {
       console.error('Error fetching movements:', error);
     } finally {
@@ -225,6 +230,17 @@ export default function WarehouseMovements() {
             <option key={wh.id} value={wh.id}>{wh.name}</option>
           ))}
         </select>
+        <select
+          value={filters.clientId}
+          onChange={(e) => setFilters({ ...filters, clientId: e.target.value })}
+          className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white"
+        >
+          <option value="">Все клиенты</option>
+          <option value="none">Без владельца</option>
+          {clients.map((client) => (
+            <option key={client.id} value={client.id}>{client.name}</option>
+          ))}
+        </select>
         <input
           type="date"
           value={filters.fromDate}
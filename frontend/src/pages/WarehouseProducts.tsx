@@ -11,7 +11,7 @@ import {
   CheckIcon,
   XMarkIcon,
 } from '@heroicons/react/24/outline';
-import { api } from '../lib/api';
+import { api, clientsApi } from '../lib/api';
 import toast from 'react-hot-toast';
 
 interface Product {
@@ -26,6 +26,7 @@ interface Product {
   unitPrice: number;
   minStock: number;
   isActive: boolean;
+  client: { id: string; name: string } | null;
   totalQuantity: number;
   totalReserved: number;
   totalAvailable: number;
@@ -45,6 +46,8 @@ export default function WarehouseProducts() {
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState('');
+  const [clients, setClients] = useState<Array<{ id: string; name: string }>>([]);
+  const [clientFilter, setClientFilter] = useState(searchParams.get('clientId') || '');
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [filterLowStock, setFilterLowStock] = useState(searchParams.get('lowStock') === 'true');
   
@@ -62,15 +65,22 @@ export default function WarehouseProducts() {
     unitCost: '',
     unitPrice: '',
     minStock: '5',
+    clientId: '',
   });
 
   useEffect(() => {
-    fetchProducts();
+    clientsApi.getAll({ isActive: true })
+      .then(res => setClients(res.data.data))
+      .catch(error => console.error('Error fetching clients:', error));
   }, []);
 
+  useEffect(() => {
+    fetchProducts();
+  }, [clientFilter]);
+
   const fetchProducts = async () => {
     try {
-      const res = await api.get('/products', { params: { search } });
+      const res = await api.get('/products', { params: { search, clientId: clientFilter || undefined } });
       setProducts(res.data.data);
     } catch (error) {
       console.error('Error fetching products:', error);
@@ -94,9 +104,10 @@ export default function WarehouseProducts() {
         unitCost: parseFloat(formData.unitCost) || 0,
         unitPrice: parseFloat(formData.unitPrice) || 0,
         minStock: parseInt(formData.minStock) || 0,
+        clientId: formData.clientId || null,
       });
       setShowCreateModal(false);
-      setFormData({ sku: '', barcode: '', name: '', description: '', category: '', unitWeight: '', unitCost: '', unitPrice: '', minStock: '5' });
+      setFormData({ sku: '', barcode: '', name: '', description: '', category: '', unitWeight: '', unitCost: '', unitPrice: '', minStock: '5', clientId: '' });
       fetchProducts();
     } catch (error: any) {
       alert(error.response?.data?.error || 'Ошибка создания товара');
@@ -214,6 +225,17 @@ export default function WarehouseProducts() {
             />
           </div>
         </form>
+        <select
+          value={clientFilter}
+          onChange={(e) => setClientFilter(e.target.value)}
+          className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white"
+        >
+          <option value="">Все клиенты</option>
+          <option value="none">Без владельца</option>
+          {clients.map((client) => (
+            <option key={client.id} value={client.id}>{client.name}</option>
+          ))}
+        </select>
         <button
           onClick={() => setFilterLowStock(!filterLowStock)}
           className={`flex items-center gap-2 px-4 py-2 rounded-lg border transition-colors ${
@@ -301,6 +323,7 @@ export default function WarehouseProducts() {
                   />
                 </th>
                 <th className="text-left text-xs font-medium text-gray-400 uppercase px-4 py-3">Товар</th>
+                <th className="text-left text-xs font-medium text-gray-400 uppercase px-4 py-3">Клиент</th>
                 <th className="text-left text-xs font-medium text-gray-400 uppercase px-4 py-3">Категория</th>
                 <th className="text-right text-xs font-medium text-gray-400 uppercase px-4 py-3">На складе</th>
                 <th className="text-right text-xs font-medium text-gray-400 uppercase px-4 py-3">Резерв</th>
@@ -343,6 +366,9 @@ export default function WarehouseProducts() {
                       </div>
                     </div>
                   </td>
+                  <td className="px-4 py-3">
+                    <span className="text-gray-300">{product.client?.name || '—'}</span>
+                  </td>
                   <td className="px-4 py-3">
                     <span className="text-gray-300">{product.category || '—'}</span>
                   </td>
@@ -376,7 +402,7 @@ export default function WarehouseProducts() {
               ))}
               {filteredProducts.length === 0 && (
                 <tr>
-                  <td colSpan={9} className="px-4 py-8 text-center text-gray-400">
+                  <td colSpan={10} className="px-4 py-8 text-center text-gray-400">
                     {filterLowStock ? 'Нет товаров с низким остатком' : 'Товары не найдены'}
                   </td>
                 </tr>
@@ -423,6 +449,19 @@ export default function WarehouseProducts() {
                   required
                 />
               </div>
+              <div>
+                <label className="block text-sm text-gray-400 mb-1">Клиент (владелец товара)</label>
+                <select
+                  value={formData.clientId}
+                  onChange={(e) => setFormData({ ...formData, clientId: e.target.value })}
+                  className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white"
+                >
+                  <option value="">Без владельца</option>
+                  {clients.map((client) => (
+                    <option key={client.id} value={client.id}>{client.name}</option>
+                  ))}
+                </select>
+              </div>
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm text-gray-400 mb-1">Категория</label>
@@ -0,0 +1,416 @@
+import { useState, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import {
+  ArrowPathIcon,
+  ArrowUturnLeftIcon,
+  ChevronRightIcon,
+  CheckIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import { api, returnsApi } from '../lib/api';
+
+interface ReturnAuthorization {
+  id: string;
+  rmaNumber: string;
+  status: string;
+  reason: string | null;
+  refundAmount: number;
+  chargeAmount: number;
+  createdAt: string;
+  receivedAt: string | null;
+  completedAt: string | null;
+  order: { id: string; orderNumber: string; status: string };
+  client: { id: string; name: string };
+  warehouse: { id: string; name: string; code: string };
+  task: { id: string; taskNumber: string; status: string } | null;
+  _count?: { items: number };
+}
+
+interface ReturnItem {
+  id: string;
+  quantity: number;
+  receivedQty: number;
+  disposition: string | null;
+  product: { id: string; sku: string; name: string };
+}
+
+interface LocationOption {
+  id: string;
+  label: string;
+}
+
+const statusLabels: Record<string, string> = {
+  RECEIVING: 'Ожидает приемки',
+  RECEIVED: 'Принят',
+  COMPLETED: 'Обработан',
+  CANCELLED: 'Отменен',
+};
+
+const statusColors: Record<string, string> = {
+  RECEIVING: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+  RECEIVED: 'bg-amber-500/20 text-amber-400 border-amber-500/30',
+  COMPLETED: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30',
+  CANCELLED: 'bg-red-500/20 text-red-400 border-red-500/30',
+};
+
+const dispositionLabels: Record<string, string> = {
+  RESTOCK: 'На основной склад',
+  QUARANTINE: 'В карантин',
+  WRITE_OFF: 'Списать',
+};
+
+// Warehouse type that receives goods for each disposition
+const dispositionWarehouseTypes: Record<string, string> = {
+  RESTOCK: 'MAIN',
+  QUARANTINE: 'QUARANTINE',
+};
+
+export default function WarehouseReturns() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [returns, setReturns] = useState<ReturnAuthorization[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState(searchParams.get('status') || '');
+  const [selected, setSelected] = useState<(ReturnAuthorization & { items: ReturnItem[] }) | null>(null);
+  const [locations, setLocations] = useState<Record<string, LocationOption[]>>({});
+  const [decisions, setDecisions] = useState<Record<string, { disposition: string; locationId: string }>>({});
+  const [chargeAmount, setChargeAmount] = useState('');
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, [status]);
+
+  useEffect(() => {
+    fetchLocations();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const response = await returnsApi.getAll(status ? { status } : undefined);
+      setReturns(response.data.data);
+    } catch (error) {
+      console.error('Error fetching returns:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchLocations = async () => {
+    try {
+      const warehousesRes = await api.get('/warehouses', { params: { status: 'ACTIVE' } });
+      const options: Record<string, LocationOption[]> = {};
+
+      for (const warehouse of warehousesRes.data.data) {
+        if (!['MAIN', 'QUARANTINE'].includes(warehouse.type)) continue;
+        const locationsRes = await api.get(`/warehouses/${warehouse.id}/locations`);
+        options[warehouse.type] = [
+          ...(options[warehouse.type] || []),
+          ...locationsRes.data.data
+            .filter((loc: any) => loc.status !== 'BLOCKED')
+            .map((loc: any) => ({ id: loc.id, label: `${warehouse.code} / ${loc.code}` })),
+        ];
+      }
+
+      setLocations(options);
+    } catch (error) {
+      console.error('Error fetching locations:', error);
+    }
+  };
+
+  const handleStatusChange = (value: string) => {
+    setStatus(value);
+    setSearchParams(value ? { status: value } : {});
+  };
+
+  const handleSelect = async (id: string) => {
+    try {
+      const response = await returnsApi.getOne(id);
+      const rma = response.data.data;
+      setSelected(rma);
+      setChargeAmount('');
+      setDecisions(
+        Object.fromEntries(
+          rma.items.map((item: ReturnItem) => [item.id, { disposition: 'RESTOCK', locationId: '' }])
+        )
+      );
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Ошибка получения возврата');
+    }
+  };
+
+  const handleProcess = async () => {
+    if (!selected) return;
+
+    setProcessing(true);
+    try {
+      await returnsApi.process(selected.id, {
+        items: selected.items
+          .filter((item) => item.receivedQty > 0)
+          .map((item) => ({
+            id: item.id,
+            disposition: decisions[item.id].disposition,
+            locationId: decisions[item.id].locationId || undefined,
+          })),
+        chargeAmount: chargeAmount ? parseFloat(chargeAmount) : undefined,
+      });
+      setSelected(null);
+      fetchData();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Ошибка обработки возврата');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleCancel = async (id: string) => {
+    if (!confirm('Отменить возврат и задачу приемки?')) return;
+    try {
+      await returnsApi.cancel(id);
+      setSelected(null);
+      fetchData();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Ошибка отмены возврата');
+    }
+  };
+
+  const formatDate = (date: string | null) => {
+    if (!date) return '—';
+    return new Date(date).toLocaleString('ru-RU', {
+      day: '2-digit',
+      month: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const formatMoney = (value: number) => `${Number(value).toLocaleString('ru-RU')} ₽`;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <ArrowPathIcon className="w-8 h-8 animate-spin text-violet-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Link to="/warehouse" className="text-gray-400 hover:text-white">
+            Склады
+          </Link>
+          <ChevronRightIcon className="w-4 h-4 text-gray-500" />
+          <h1 className="text-2xl font-bold text-white">Возвраты</h1>
+        </div>
+        <select
+          value={status}
+          onChange={(e) => handleStatusChange(e.target.value)}
+          className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white"
+        >
+          <option value="">Все статусы</option>
+          {Object.entries(statusLabels).map(([key, label]) => (
+            <option key={key} value={key}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Returns List */}
+      <div className="bg-slate-800/50 rounded-xl border border-slate-700/50 overflow-hidden">
+        {returns.length === 0 ? (
+          <div className="p-8 text-center text-gray-400">
+            <ArrowUturnLeftIcon className="w-12 h-12 mx-auto mb-3 text-gray-500" />
+            Возвратов нет
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-slate-900/50">
+              <tr className="text-left text-sm text-gray-400">
+                <th className="px-4 py-3">Номер</th>
+                <th className="px-4 py-3">Заказ</th>
+                <th className="px-4 py-3">Клиент</th>
+                <th className="px-4 py-3">Задача приемки</th>
+                <th className="px-4 py-3">Статус</th>
+                <th className="px-4 py-3 text-right">Сторно / плата</th>
+                <th className="px-4 py-3">Создан</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700/50">
+              {returns.map((rma) => (
+                <tr
+                  key={rma.id}
+                  onClick={() => handleSelect(rma.id)}
+                  className="text-sm text-gray-300 hover:bg-slate-700/30 cursor-pointer"
+                >
+                  <td className="px-4 py-3 font-mono text-white">{rma.rmaNumber}</td>
+                  <td className="px-4 py-3">
+                    <Link
+                      to={`/orders/${rma.order.id}`}
+                      onClick={(e) => e.stopPropagation()}
+                      className="text-violet-400 hover:text-violet-300 font-mono"
+                    >
+                      {rma.order.orderNumber}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3">{rma.client.name}</td>
+                  <td className="px-4 py-3 font-mono">{rma.task?.taskNumber || '—'}</td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-1 rounded-full text-xs border ${statusColors[rma.status]}`}>
+                      {statusLabels[rma.status] || rma.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-right font-mono">
+                    {rma.status === 'COMPLETED'
+                      ? `−${formatMoney(rma.refundAmount)} / ${formatMoney(rma.chargeAmount)}`
+                      : '—'}
+                  </td>
+                  <td className="px-4 py-3">{formatDate(rma.createdAt)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Return Details */}
+      {selected && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-slate-800 rounded-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+            <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-white">Возврат {selected.rmaNumber}</h2>
+                <p className="text-sm text-gray-400">
+                  Заказ {selected.order.orderNumber} • {selected.client.name} • {selected.warehouse.name}
+                </p>
+              </div>
+              <button onClick={() => setSelected(null)} className="text-gray-400 hover:text-white">
+                <XMarkIcon className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="p-4 space-y-4">
+              {selected.reason && (
+                <p className="text-sm text-gray-300">Причина: {selected.reason}</p>
+              )}
+              {selected.status === 'RECEIVING' && (
+                <p className="text-sm text-blue-400">
+                  Ожидается выполнение задачи приемки {selected.task?.taskNumber} на складе возвратов
+                </p>
+              )}
+
+              <table className="w-full">
+                <thead>
+                  <tr className="text-left text-sm text-gray-400">
+                    <th className="py-2">Товар</th>
+                    <th className="py-2 text-right">Заявлено</th>
+                    <th className="py-2 text-right">Принято</th>
+                    <th className="py-2 pl-4">Решение</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700/50">
+                  {selected.items.map((item) => {
+                    const decision = decisions[item.id];
+                    const warehouseType = decision ? dispositionWarehouseTypes[decision.disposition] : undefined;
+
+                    return (
+                      <tr key={item.id} className="text-sm text-gray-300">
+                        <td className="py-2">
+                          <p className="text-white">{item.product.name}</p>
+                          <p className="text-xs text-gray-500 font-mono">{item.product.sku}</p>
+                        </td>
+                        <td className="py-2 text-right">{item.quantity}</td>
+                        <td className="py-2 text-right">{selected.status === 'RECEIVING' ? '—' : item.receivedQty}</td>
+                        <td className="py-2 pl-4">
+                          {selected.status === 'RECEIVED' && item.receivedQty > 0 ? (
+                            <div className="flex gap-2">
+                              <select
+                                value={decision.disposition}
+                                onChange={(e) => setDecisions({
+                                  ...decisions,
+                                  [item.id]: { disposition: e.target.value, locationId: '' },
+                                })}
+                                className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-white"
+                              >
+                                {Object.entries(dispositionLabels).map(([key, label]) => (
+                                  <option key={key} value={key}>{label}</option>
+                                ))}
+                              </select>
+                              {warehouseType && (
+                                <select
+                                  value={decision.locationId}
+                                  onChange={(e) => setDecisions({
+                                    ...decisions,
+                                    [item.id]: { ...decision, locationId: e.target.value },
+                                  })}
+                                  className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-white"
+                                >
+                                  <option value="">Ячейка...</option>
+                                  {(locations[warehouseType] || []).map((loc) => (
+                                    <option key={loc.id} value={loc.id}>{loc.label}</option>
+                                  ))}
+                                </select>
+                              )}
+                            </div>
+                          ) : (
+                            <span className="text-gray-400">
+                              {item.disposition ? dispositionLabels[item.disposition] : '—'}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              {selected.status === 'RECEIVED' && (
+                <div>
+                  <label className="block text-sm text-gray-400 mb-1">
+                    Плата клиента за обработку (пусто — по тарифу)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={chargeAmount}
+                    onChange={(e) => setChargeAmount(e.target.value)}
+                    className="w-48 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white"
+                  />
+                </div>
+              )}
+
+              {selected.status === 'COMPLETED' && (
+                <p className="text-sm text-gray-300">
+                  Сторно выручки: {formatMoney(selected.refundAmount)} • Плата за обработку: {formatMoney(selected.chargeAmount)}
+                </p>
+              )}
+            </div>
+
+            <div className="p-4 border-t border-slate-700 flex justify-end gap-3">
+              {selected.status === 'RECEIVING' && (
+                <button
+                  onClick={() => handleCancel(selected.id)}
+                  className="flex items-center gap-2 px-4 py-2 text-red-400 hover:bg-red-500/10 rounded-lg"
+                >
+                  <XMarkIcon className="w-5 h-5" />
+                  Отменить возврат
+                </button>
+              )}
+              {selected.status === 'RECEIVED' && (
+                <button
+                  onClick={handleProcess}
+                  disabled={processing}
+                  className="flex items-center gap-2 bg-violet-600 hover:bg-violet-700 text-white px-4 py-2 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  <CheckIcon className="w-5 h-5" />
+                  {processing ? 'Обработка...' : 'Обработать возврат'}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -169,6 +169,16 @@ export default function WarehouseTasks() {
     }
   };
 
+  const handleCompleteTask = async (taskId: string) => {
+    if (!confirm('Завершить задачу с ожидаемым количеством по всем позициям?')) return;
+    try {
+      await api.post(`/warehouse-tasks/${taskId}/complete`);
+      fetchData();
+    } catch (error: any) {
+      alert(error.response?.data?.error || 'Ошибка завершения задачи');
+    }
+  };
+
   const handleCancelTask = async (taskId: string) => {
     if (!confirm('Отменить задачу?')) return;
     try {
@@ -327,13 +337,22 @@ export default function WarehouseTasks() {
                   )}
 
                   {task.status === 'IN_PROGRESS' && (
-                    <Link
-                      to={`/warehouse/tasks/${task.id}`}
-                      className="mt-2 flex items-center justify-center gap-1 bg-violet-500/20 hover:bg-violet-500/30 text-violet-400 text-xs py-1.5 rounded transition-colors"
-                    >
-                      <CheckIcon className="w-3 h-3" />
-                      Продолжить
-                    </Link>
+                    <div className="mt-2 flex gap-2">
+                      <Link
+                        to={`/warehouse/tasks/${task.id}`}
+                        className="flex-1 flex items-center justify-center gap-1 bg-violet-500/20 hover:bg-violet-500/30 text-violet-400 text-xs py-1.5 rounded transition-colors"
+                      >
+                        <PlayIcon className="w-3 h-3" />
+                        Продолжить
+                      </Link>
+                      <button
+                        onClick={() => handleCompleteTask(task.id)}
+                        className="flex items-center justify-center gap-1 bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-400 text-xs py-1.5 px-2 rounded transition-colors"
+                      >
+                        <CheckIcon className="w-3 h-3" />
+                        Завершить
+                      </button>
+                    </div>
                   )}
                 </div>
               ))}